@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+const fs = require('fs');
+const path = require('path');
+
+const LLMS_PATH = path.join(__dirname, '../llms.json');
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// Hugging Face serves large files from LFS: the redirect of a "resolve" URL carries the
+// SHA-256 of the file in X-Linked-Etag, so the digest is known without downloading it
+async function fetchSha256(url) {
+  const response = await fetch(url, { method: 'HEAD', redirect: 'manual' });
+  const etag = (response.headers.get('x-linked-etag') || '').replace(/^W\//, '').replace(/"/g, '');
+  if (!SHA256_PATTERN.test(etag)) {
+    throw new Error(`No SHA-256 for ${url} (HTTP ${response.status})`);
+  }
+  return etag;
+}
+
+async function main() {
+  const catalog = JSON.parse(fs.readFileSync(LLMS_PATH, 'utf8'));
+  let failed = false;
+
+  for (const model of catalog.models) {
+    try {
+      model.sha256 = await fetchSha256(model.url);
+      console.log(`${model.id}: ${model.sha256}`);
+    } catch (error) {
+      failed = true;
+      console.error(`${model.id}: ${error.message}`);
+    }
+  }
+
+  fs.writeFileSync(LLMS_PATH, JSON.stringify(catalog, null, 2) + '\n');
+  if (failed) process.exit(1);
+}
+
+main();
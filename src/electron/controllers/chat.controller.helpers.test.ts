@@ -1,4 +1,4 @@
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, ipcMain } from 'electron';
 
 // Mock electron and chat service before imports
 jest.mock('electron', () => ({
@@ -27,31 +27,480 @@ jest.mock('../services/chat.service', () => ({
     getMessages: jest.fn(),
     getMessageCount: jest.fn(),
     shouldAutoNameChat: jest.fn(),
+    createToolMessage: jest.fn(),
+    getAttachments: jest.fn(async () => []),
+    updateMessageSummary: jest.fn(),
   },
 }));
 
-// Mock the LLM service
-const mockLLMService = {
+jest.mock('../services/migration.service', () => ({
+  migrationService: {
+    deleteBackups: jest.fn(() => []),
+  },
+}));
+
+jest.mock('../services/tool.registry', () => ({
+  toolRegistry: {
+    list: jest.fn(() => []),
+  },
+}));
+
+jest.mock('./knowledge.controller', () => ({
+  retrieveKnowledge: jest.fn(),
+}));
+
+// Mock the inference service
+const mockInferenceService = {
   isModelLoaded: jest.fn(),
   generateResponse: jest.fn(),
+  generateStructured: jest.fn(),
+  generateChatResponse: jest.fn(),
+  getConfig: jest.fn(),
+  countTokens: jest.fn(),
 };
 
-jest.mock('../services/llm.service', () => ({
-  getLLMService: jest.fn(() => mockLLMService),
+jest.mock('../services/inference.service', () => ({
+  getInferenceService: jest.fn(() => mockInferenceService),
 }));
 
 // Now import after mocks are set up
-import { generateLLMResponse, generateChatTitle } from './chat.controller';
+import {
+  ChatController,
+  generateLLMResponse,
+  generateChatTitle,
+  autoNameChat,
+  getGenerationStats,
+  buildChatHistory,
+  buildBranchHistory,
+  summarizeOlderMessages,
+  stopGeneration,
+  createToolFunctions,
+  requestToolConfirmation,
+  respondToToolCall,
+  runToolCall,
+  TOOL_CALL_DENIED_RESULT,
+  findKnowledgeSources,
+  addKnowledgeToHistory,
+} from './chat.controller';
+import { retrieveKnowledge } from './knowledge.controller';
+import { chatService } from '../services/chat.service';
+import { toolRegistry } from '../services/tool.registry';
+import type { ToolDefinition } from '../services/tool.registry';
+import type { ChatGenerationOptions, ChatHistoryMessage } from '../services/llm.service';
+
+const history: ChatHistoryMessage[] = [{ role: 'user', content: 'test prompt' }];
 
 describe('Chat Controller Helpers', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
+  describe('buildChatHistory', () => {
+    it('should map stored messages to chat history and skip empty ones', () => {
+      const messages = [
+        { id: 1, chatId: 1, content: 'Hello', role: 'user' as const, createdAt: new Date() },
+        { id: 2, chatId: 1, content: '', role: 'assistant' as const, createdAt: new Date() },
+        { id: 3, chatId: 1, content: 'Hi', role: 'assistant' as const, createdAt: new Date() },
+      ];
+
+      expect(buildChatHistory(messages)).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' },
+      ]);
+    });
+
+    it('should keep the tool call of tool messages', () => {
+      const toolCall = { name: 'get_current_time', params: {}, status: 'completed' };
+      const messages = [
+        { id: 1, chatId: 1, content: 'What time is it?', role: 'user' as const, toolCall: null, createdAt: new Date() },
+        { id: 2, chatId: 1, content: '"noon"', role: 'tool' as const, toolCall: JSON.stringify(toolCall), createdAt: new Date() },
+      ];
+
+      expect(buildChatHistory(messages as any)).toEqual([
+        { role: 'user', content: 'What time is it?' },
+        { role: 'tool', content: '"noon"', toolCall },
+      ]);
+    });
+
+    it('should put attachments before the message they were sent with', () => {
+      const messages = [
+        { id: 1, chatId: 1, content: 'Summarize', role: 'user' as const, createdAt: new Date() },
+        { id: 2, chatId: 1, content: 'Done', role: 'assistant' as const, createdAt: new Date() },
+      ];
+      const attachments = [
+        { id: 4, messageId: 1, name: 'a.txt', kind: 'text' as const, size: 5, content: 'Notes', createdAt: new Date(), truncated: false, omitted: false },
+      ];
+
+      expect(buildChatHistory(messages as any, attachments)).toEqual([
+        { role: 'user', content: 'Attached file: a.txt\n```\nNotes\n```\n\nSummarize' },
+        { role: 'assistant', content: 'Done' },
+      ]);
+    });
+  });
+
+  describe('buildBranchHistory', () => {
+    const branch = [
+      { id: 1, chatId: 1, content: 'First', role: 'user' as const, createdAt: new Date() },
+      { id: 2, chatId: 1, content: 'Reply', role: 'assistant' as const, createdAt: new Date() },
+      { id: 3, chatId: 1, content: 'Second', role: 'user' as const, createdAt: new Date() },
+    ];
+    const attachment = (id: number, messageId: number, content: string) =>
+      ({ id, messageId, name: `${id}.txt`, kind: 'text', size: content.length, content, createdAt: new Date() });
+
+    it('should fit the attachments of the branch in half of the context', async () => {
+      (chatService.getAttachments as jest.Mock).mockResolvedValue([
+        attachment(4, 1, 'x'.repeat(100)),
+        attachment(5, 3, 'y'.repeat(60)),
+      ]);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.getConfig.mockReturnValue({ contextSize: 200 });
+      mockInferenceService.countTokens.mockImplementation((text: string) => text.length);
+
+      const result = await buildBranchHistory(branch as any);
+
+      expect(chatService.getAttachments).toHaveBeenCalledWith([1, 2, 3]);
+      // The latest file fits whole, too little of the 100 token budget is left to truncate the older one
+      expect(result[0].content).toBe('Attached file: 4.txt (left out, it does not fit in the context window)\n\nFirst');
+      expect(result[2].content).toBe(`Attached file: 5.txt\n\`\`\`\n${'y'.repeat(60)}\n\`\`\`\n\nSecond`);
+    });
+
+    it('should leave attachments out when no model is loaded', async () => {
+      (chatService.getAttachments as jest.Mock).mockResolvedValue([attachment(4, 1, 'Notes')]);
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
+
+      const result = await buildBranchHistory(branch as any);
+
+      expect(result.map((message) => message.content)).toEqual(['First', 'Reply', 'Second']);
+    });
+
+    it('should replace the messages covered by the latest summary with it', async () => {
+      const summarizedBranch = [
+        { ...branch[0], summary: 'Older summary' },
+        { ...branch[1], summary: 'The user said first' },
+        branch[2],
+      ];
+      (chatService.getAttachments as jest.Mock).mockResolvedValue([]);
+
+      const result = await buildBranchHistory(summarizedBranch as any);
+
+      expect(chatService.getAttachments).toHaveBeenCalledWith([3]);
+      expect(result).toEqual([
+        { role: 'user', content: 'Summary of the earlier conversation:\nThe user said first' },
+        { role: 'user', content: 'Second' },
+      ]);
+    });
+  });
+
+  describe('summarizeOlderMessages', () => {
+    // One token per character: each message below takes its length plus 8 template tokens
+    const message = (id: number, role: 'user' | 'assistant', length: number, extra: object = {}) =>
+      ({ id, chatId: 1, role, content: String(id).repeat(length), summary: null, attachments: [], ...extra });
+    const branch = [
+      message(1, 'user', 30),
+      message(2, 'assistant', 30),
+      message(3, 'user', 30),
+      message(4, 'assistant', 30),
+      message(5, 'user', 10),
+    ];
+
+    beforeEach(() => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.getConfig.mockReturnValue({ contextSize: 200 });
+      mockInferenceService.countTokens.mockImplementation((text: string) => text.length);
+      mockInferenceService.generateResponse.mockResolvedValue(' S ');
+    });
+
+    it('should leave a branch fitting in the context as it is', async () => {
+      const shortBranch = branch.slice(0, 3);
+
+      const result = await summarizeOlderMessages(shortBranch as any);
+
+      expect(result).toEqual({ branch: shortBranch, summarized: false });
+      expect(mockInferenceService.generateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should condense the oldest exchange once the history budget is reached', async () => {
+      const result = await summarizeOlderMessages(branch as any);
+
+      // 170 tokens for a budget of 150, the first exchange is summarized and the rest fits
+      expect(mockInferenceService.generateResponse).toHaveBeenCalledTimes(1);
+      const prompt = mockInferenceService.generateResponse.mock.calls[0][0];
+      expect(prompt).toContain(`User: ${'1'.repeat(30)}\n\nAssistant: ${'2'.repeat(30)}`);
+      expect(prompt).not.toContain('3'.repeat(30));
+      expect(chatService.updateMessageSummary).toHaveBeenCalledWith(2, 'S');
+      expect(result.summarized).toBe(true);
+      expect(result.branch.map((m: any) => m.summary)).toEqual([null, 'S', null, null, null]);
+      expect(branch[1].summary).toBeNull();
+    });
+
+    it('should fold the previous summary into the next one until the branch fits', async () => {
+      mockInferenceService.getConfig.mockReturnValue({ contextSize: 160 });
+      mockInferenceService.generateResponse.mockResolvedValueOnce('S').mockResolvedValueOnce('S2');
+
+      const result = await summarizeOlderMessages(branch as any);
+
+      expect(mockInferenceService.generateResponse).toHaveBeenCalledTimes(2);
+      const prompt = mockInferenceService.generateResponse.mock.calls[1][0];
+      expect(prompt).toContain(`Summary of the earlier conversation:\nS\n\nUser: ${'3'.repeat(30)}`);
+      expect(prompt).not.toContain('1'.repeat(30));
+      expect(chatService.updateMessageSummary).toHaveBeenNthCalledWith(1, 2, 'S');
+      expect(chatService.updateMessageSummary).toHaveBeenNthCalledWith(2, 4, 'S2');
+      expect(result.branch.map((m: any) => m.summary)).toEqual([null, 'S', null, 'S2', null]);
+    });
+
+    it('should start from the stored summary', async () => {
+      const summarizedBranch = [branch[0], { ...branch[1], summary: 'S' }, ...branch.slice(2)];
+
+      const result = await summarizeOlderMessages(summarizedBranch as any);
+
+      expect(result).toEqual({ branch: summarizedBranch, summarized: false });
+      expect(mockInferenceService.generateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should leave room for the system prompt and the attached files', async () => {
+      const shortBranch = branch.slice(0, 3);
+
+      await summarizeOlderMessages(shortBranch as any, 'x'.repeat(60));
+      expect(chatService.updateMessageSummary).toHaveBeenCalledWith(2, 'S');
+
+      jest.clearAllMocks();
+      const withAttachment = [...shortBranch.slice(0, 2), { ...shortBranch[2], attachments: [{ id: 1, name: 'a.txt' }] }];
+      await summarizeOlderMessages(withAttachment as any);
+      expect(chatService.updateMessageSummary).toHaveBeenCalledWith(2, 'S');
+    });
+
+    it('should not summarize the exchange being answered', async () => {
+      const result = await summarizeOlderMessages([message(1, 'user', 300)] as any);
+
+      expect(result.summarized).toBe(false);
+      expect(mockInferenceService.generateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a model', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
+
+      const result = await summarizeOlderMessages(branch as any);
+
+      expect(result).toEqual({ branch, summarized: false });
+      expect(mockInferenceService.countTokens).not.toHaveBeenCalled();
+    });
+
+    it('should keep the branch as it is when summarizing fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockInferenceService.generateResponse.mockRejectedValue(new Error('Context overflow'));
+
+      const result = await summarizeOlderMessages(branch as any);
+
+      expect(result).toEqual({ branch, summarized: false });
+      expect(chatService.updateMessageSummary).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to summarize older messages:', expect.any(Error));
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should not store an empty summary', async () => {
+      mockInferenceService.generateResponse.mockResolvedValue('  ');
+
+      const result = await summarizeOlderMessages(branch as any);
+
+      expect(result.summarized).toBe(false);
+      expect(chatService.updateMessageSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tool calls', () => {
+    const tool: ToolDefinition = {
+      name: 'get_current_time',
+      description: 'Get the time',
+      execute: jest.fn(),
+    };
+    const createWindow = () => ({ webContents: { send: jest.fn() } }) as any;
+
+    // Answer the confirmation request sent to the window
+    const answer = (window: any, approved: boolean) => {
+      const [, request] = window.webContents.send.mock.calls.find(([channel]: [string]) => channel === 'chat-tool-call-request');
+      return respondToToolCall(request.callId, approved);
+    };
+
+    beforeEach(() => {
+      (chatService.createToolMessage as jest.Mock).mockImplementation(async (replyId: number, content: string) => ({
+        id: 10, chatId: 1, content, role: 'tool', parentId: 1,
+      }));
+    });
+
+    it('should ask the renderer to confirm a call', async () => {
+      const window = createWindow();
+
+      const confirmation = requestToolConfirmation(window, {
+        chatId: 1, messageId: 2, name: 'get_current_time', description: 'Get the time', params: {},
+      });
+
+      expect(window.webContents.send).toHaveBeenCalledWith('chat-tool-call-request', {
+        chatId: 1, messageId: 2, callId: expect.any(String), name: 'get_current_time', description: 'Get the time', params: {},
+      });
+      expect(answer(window, true)).toBe(true);
+      await expect(confirmation).resolves.toBe(true);
+    });
+
+    it('should only accept one answer per call', async () => {
+      const window = createWindow();
+      const confirmation = requestToolConfirmation(window, {
+        chatId: 1, messageId: 2, name: 'get_current_time', description: 'Get the time', params: {},
+      });
+
+      answer(window, false);
+
+      expect(answer(window, true)).toBe(false);
+      await expect(confirmation).resolves.toBe(false);
+    });
+
+    it('should deny calls without a window to ask in', async () => {
+      await expect(requestToolConfirmation(null, {
+        chatId: 1, messageId: 2, name: 'get_current_time', description: 'Get the time', params: {},
+      })).resolves.toBe(false);
+    });
+
+    it('should deny calls when generation is stopped', async () => {
+      const window = createWindow();
+      const abortController = new AbortController();
+
+      const confirmation = requestToolConfirmation(window, {
+        chatId: 1, messageId: 2, name: 'get_current_time', description: 'Get the time', params: {},
+      }, abortController.signal);
+      abortController.abort();
+
+      await expect(confirmation).resolves.toBe(false);
+      await expect(requestToolConfirmation(window, {
+        chatId: 1, messageId: 2, name: 'get_current_time', description: 'Get the time', params: {},
+      }, abortController.signal)).resolves.toBe(false);
+      expect(window.webContents.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run approved calls and store their result', async () => {
+      const window = createWindow();
+      (tool.execute as jest.Mock).mockResolvedValue({ time: '12:00' });
+
+      const call = runToolCall(window, 1, 2, tool, undefined);
+      await Promise.resolve();
+      answer(window, true);
+
+      await expect(call).resolves.toEqual({ time: '12:00' });
+      expect(tool.execute).toHaveBeenCalledWith({});
+      expect(chatService.createToolMessage).toHaveBeenCalledWith(2, '{"time":"12:00"}', {
+        name: 'get_current_time',
+        params: {},
+        status: 'completed',
+      });
+      expect(window.webContents.send).toHaveBeenCalledWith('chat-tool-message', {
+        chatId: 1,
+        messageId: 2,
+        toolMessage: expect.objectContaining({ id: 10, role: 'tool' }),
+      });
+    });
+
+    it('should store denied calls without running them', async () => {
+      const window = createWindow();
+
+      const call = runToolCall(window, 1, 2, tool, { zone: 'UTC' });
+      await Promise.resolve();
+      answer(window, false);
+
+      await expect(call).resolves.toBe(TOOL_CALL_DENIED_RESULT);
+      expect(tool.execute).not.toHaveBeenCalled();
+      expect(chatService.createToolMessage).toHaveBeenCalledWith(2, TOOL_CALL_DENIED_RESULT, {
+        name: 'get_current_time',
+        params: { zone: 'UTC' },
+        status: 'denied',
+      });
+    });
+
+    it('should give the error to the model when a tool fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const window = createWindow();
+      (tool.execute as jest.Mock).mockRejectedValue(new Error('Clock broken'));
+
+      const call = runToolCall(window, 1, 2, tool, {});
+      await Promise.resolve();
+      answer(window, true);
+
+      await expect(call).resolves.toBe('The tool failed: Clock broken');
+      expect(chatService.createToolMessage).toHaveBeenCalledWith(2, 'The tool failed: Clock broken', expect.objectContaining({
+        status: 'failed',
+      }));
+      expect(consoleSpy).toHaveBeenCalledWith('Tool get_current_time failed:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should fail calls with invalid params without asking the user', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const window = createWindow();
+      const searchTool: ToolDefinition = {
+        name: 'search_chats',
+        description: 'Search chats',
+        parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+        execute: jest.fn(),
+      };
+
+      await expect(runToolCall(window, 1, 2, searchTool, { query: 42 })).resolves.toBe('The tool failed: query must be of type string');
+
+      expect(searchTool.execute).not.toHaveBeenCalled();
+      expect(window.webContents.send).not.toHaveBeenCalledWith('chat-tool-call-request', expect.anything());
+      expect(chatService.createToolMessage).toHaveBeenCalledWith(2, 'The tool failed: query must be of type string', {
+        name: 'search_chats',
+        params: { query: 42 },
+        status: 'failed',
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it('should expose the registered tools as functions', async () => {
+      const searchTool: ToolDefinition = {
+        name: 'search_chats',
+        description: 'Search chats',
+        parameters: { type: 'object', properties: { query: { type: 'string' } } },
+        execute: jest.fn(),
+      };
+      (toolRegistry.list as jest.Mock).mockReturnValue([tool, searchTool]);
+
+      const functions = createToolFunctions(null, 1, 2);
+
+      expect(functions).toEqual({
+        get_current_time: { description: 'Get the time', params: undefined, handler: expect.any(Function) },
+        search_chats: { description: 'Search chats', params: searchTool.parameters, handler: expect.any(Function) },
+      });
+      // Without a window the call cannot be confirmed
+      await expect(functions.search_chats.handler({ query: 'flour' })).resolves.toBe(TOOL_CALL_DENIED_RESULT);
+      expect(searchTool.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getGenerationStats', () => {
+    it('should measure the time to the first token and the speed after it', () => {
+      expect(getGenerationStats({ promptTokens: 100, completionTokens: 50 }, 1000, 1400, 3400)).toEqual({
+        promptTokens: 100,
+        completionTokens: 50,
+        timeToFirstTokenMs: 400,
+        tokensPerSecond: 25,
+      });
+    });
+
+    it('should leave out the timing of replies without tokens', () => {
+      expect(getGenerationStats({ promptTokens: 100, completionTokens: 0 }, 1000, null, 1200)).toEqual({
+        promptTokens: 100,
+        completionTokens: 0,
+        timeToFirstTokenMs: null,
+        tokensPerSecond: null,
+      });
+    });
+
+    it('should leave out the speed of replies produced at once', () => {
+      expect(getGenerationStats({ promptTokens: 10, completionTokens: 1 }, 1000, 1300, 1300).tokensPerSecond).toBeNull();
+    });
+  });
+
   describe('generateLLMResponse', () => {
     it('should generate response with LLM and stream tokens', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockImplementation(async (prompt: string, callback?: (token: string) => void) => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async (_chatId: number, _history: ChatHistoryMessage[], callback?: (token: string) => void) => {
         if (callback) {
           callback('Hello ');
           callback('world');
@@ -65,151 +514,466 @@ describe('Chat Controller Helpers', () => {
         },
       } as unknown as BrowserWindow;
 
-      const result = await generateLLMResponse(mockWindow, 'test prompt', 1, 1);
+      const result = await generateLLMResponse(mockWindow, history, 1, 1);
 
-      expect(result).toBe('Hello world');
-      expect(mockWindow.webContents.send).toHaveBeenCalledWith('chat-message-stream', {
-        chatId: 1,
-        messageId: 1,
-        content: 'Hello ',
-        done: false,
+      expect(result).toEqual({ content: 'Hello world', stats: null });
+      expect(mockInferenceService.generateChatResponse).toHaveBeenCalledWith(1, history, expect.any(Function), {
+        onUsage: expect.any(Function),
       });
-      expect(mockWindow.webContents.send).toHaveBeenCalledWith('chat-message-stream', {
-        chatId: 1,
-        messageId: 1,
-        content: 'Hello world',
-        done: false,
+      expect((mockWindow.webContents.send as jest.Mock).mock.calls).toEqual([
+        ['chat-message-stream', { chatId: 1, messageId: 1, seq: 0, delta: 'Hello ', done: false }],
+        ['chat-message-stream', { chatId: 1, messageId: 1, seq: 1, delta: 'world', done: false }],
+        ['chat-message-stream', { chatId: 1, messageId: 1, seq: 2, delta: '', done: true, content: 'Hello world', stats: null }],
+      ]);
+    });
+
+    it('should measure the reply and send its stats with the final event', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(1000); // Generation starts
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async (
+        _chatId: number,
+        _history: ChatHistoryMessage[],
+        callback: (token: string) => void,
+        options: ChatGenerationOptions
+      ) => {
+        now.mockReturnValueOnce(1250); // First token
+        callback('Hello');
+        callback(' world');
+        options.onUsage?.({ promptTokens: 30, completionTokens: 11 });
+        now.mockReturnValueOnce(1750); // Last token
+        return 'Hello world';
+      });
+
+      const mockWindow = {
+        webContents: {
+          send: jest.fn(),
+        },
+      } as unknown as BrowserWindow;
+
+      const result = await generateLLMResponse(mockWindow, history, 1, 1);
+
+      const stats = { promptTokens: 30, completionTokens: 11, timeToFirstTokenMs: 250, tokensPerSecond: 22 };
+      expect(result).toEqual({ content: 'Hello world', stats });
+      expect(mockWindow.webContents.send).toHaveBeenLastCalledWith('chat-message-stream', {
+        chatId: 1, messageId: 1, seq: 2, delta: '', done: true, content: 'Hello world', stats,
+      });
+      now.mockRestore();
+    });
+
+    it('should pass generation options to the LLM service', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockResolvedValue('Bonjour');
+
+      await generateLLMResponse(null, history, 1, 1, { systemPrompt: 'Reply in French' });
+
+      expect(mockInferenceService.generateChatResponse).toHaveBeenCalledWith(
+        1,
+        history,
+        expect.any(Function),
+        { systemPrompt: 'Reply in French', onUsage: expect.any(Function) }
+      );
+    });
+
+    it('should return the partial response when aborted', async () => {
+      const abortController = new AbortController();
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async (_chatId: number, _history: ChatHistoryMessage[], callback?: (token: string) => void) => {
+        callback?.('Partial');
+        abortController.abort();
+        return 'Partial';
+      });
+
+      const result = await generateLLMResponse(null, history, 1, 1, { signal: abortController.signal });
+
+      expect(result.content).toBe('Partial');
+    });
+
+    it('should not fall back to lorem ipsum when aborted before completion', async () => {
+      const abortController = new AbortController();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async () => {
+        abortController.abort();
+        throw new Error('AbortError');
       });
+
+      const mockWindow = {
+        webContents: {
+          send: jest.fn(),
+        },
+      } as unknown as BrowserWindow;
+
+      const result = await generateLLMResponse(mockWindow, history, 1, 1, { signal: abortController.signal });
+
+      expect(result).toEqual({ content: '', stats: null });
       expect(mockWindow.webContents.send).toHaveBeenCalledWith('chat-message-stream', {
         chatId: 1,
         messageId: 1,
-        content: 'Hello world',
+        seq: 0,
+        delta: '',
         done: true,
+        content: '',
+        stats: null,
       });
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
     });
 
     it('should work without window', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockImplementation(async (prompt: string, callback?: (token: string) => void) => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async (_chatId: number, _history: ChatHistoryMessage[], callback?: (token: string) => void) => {
         if (callback) {
           callback('test');
         }
         return 'test response';
       });
 
-      const result = await generateLLMResponse(null, 'test prompt', 1, 1);
+      const result = await generateLLMResponse(null, history, 1, 1);
 
-      expect(result).toBe('test response');
+      expect(result.content).toBe('test response');
     });
 
     it('should fallback to lorem ipsum if no model loaded', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
-      mockLLMService.isModelLoaded.mockReturnValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
 
-      const result = await generateLLMResponse(null, 'test prompt', 1, 1);
+      const result = await generateLLMResponse(null, history, 1, 1);
 
-      expect(result).toContain('lorem');
-      expect(result).toContain('ipsum');
+      expect(result.content).toContain('lorem');
+      expect(result.content).toContain('ipsum');
+      expect(result.stats).toBeNull();
       expect(consoleSpy).toHaveBeenCalledWith('No LLM model loaded, falling back to Lorem Ipsum');
-      expect(mockLLMService.generateResponse).not.toHaveBeenCalled();
+      expect(mockInferenceService.generateChatResponse).not.toHaveBeenCalled();
       consoleSpy.mockRestore();
     });
 
     it('should fallback to lorem ipsum on error', async () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockRejectedValue(new Error('LLM error'));
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockRejectedValue(new Error('LLM error'));
 
-      const result = await generateLLMResponse(null, 'test prompt', 1, 1);
+      const result = await generateLLMResponse(null, history, 1, 1);
 
-      expect(result).toContain('lorem');
-      expect(result).toContain('ipsum');
+      expect(result.content).toContain('lorem');
+      expect(result.content).toContain('ipsum');
+      expect(result.stats).toBeNull();
       expect(consoleSpy).toHaveBeenCalledWith('LLM generation failed, falling back to Lorem Ipsum:', expect.any(Error));
       consoleSpy.mockRestore();
     });
   });
 
+  describe('stopGeneration', () => {
+    it('should return false when no generation is running', () => {
+      expect(stopGeneration(42)).toBe(false);
+    });
+
+    it('should abort a running generation and save the partial response as interrupted', async () => {
+      const handlers = new Map<string, Function>();
+      (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+        handlers.set(channel, handler);
+      });
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 1, chatId: 1, content: 'Hello', role: 'user' })
+        .mockResolvedValueOnce({ id: 2, chatId: 1, content: '', role: 'assistant' });
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'Hello', role: 'user' }]);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockImplementation(async (_chatId: number, _history: ChatHistoryMessage[], callback?: (token: string) => void, options?: { signal?: AbortSignal }) => {
+        callback?.('Partial');
+        await expect(handlers.get('chat-stop-generation')!({}, 1)).resolves.toBe(true);
+        expect(options?.signal?.aborted).toBe(true);
+        return 'Partial';
+      });
+
+      await ChatController.registerHandlers();
+      const result = await handlers.get('chat-send-message')!({ sender: {} }, 1, 'Hello');
+
+      expect(chatService.updateMessage).toHaveBeenCalledWith(2, 'Partial', true, null);
+      expect(result.assistantMessage).toEqual(expect.objectContaining({ content: 'Partial', interrupted: true }));
+      expect(stopGeneration(1)).toBe(false);
+    });
+
+    it('should keep a newer generation of the chat stoppable when an older one ends', async () => {
+      const handlers = new Map<string, Function>();
+      (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+        handlers.set(channel, handler);
+      });
+      (chatService.createMessage as jest.Mock).mockImplementation(async (data: { role: string }) => ({
+        id: data.role === 'user' ? 1 : 2,
+        chatId: 1,
+        content: '',
+        role: data.role,
+      }));
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'Hello', role: 'user' }]);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      const running: Array<{ finish: () => void; signal?: AbortSignal }> = [];
+      mockInferenceService.generateChatResponse.mockImplementation(
+        (_chatId: number, _history: ChatHistoryMessage[], _callback?: (token: string) => void, options?: { signal?: AbortSignal }) =>
+          new Promise<string>((resolve) => running.push({ finish: () => resolve('Reply'), signal: options?.signal }))
+      );
+
+      const waitFor = async (condition: () => boolean) => {
+        while (!condition()) await new Promise((resolve) => setImmediate(resolve));
+      };
+
+      await ChatController.registerHandlers();
+      const older = handlers.get('chat-send-message')!({ sender: {} }, 1, 'Hello');
+      await waitFor(() => running.length === 1);
+      const newer = handlers.get('chat-send-message')!({ sender: {} }, 1, 'Hello again');
+      await waitFor(() => running.length === 2);
+
+      running[0].finish();
+      await older;
+
+      expect(stopGeneration(1)).toBe(true);
+      expect(running[1].signal?.aborted).toBe(true);
+      running[1].finish();
+      await newer;
+      expect(stopGeneration(1)).toBe(false);
+    });
+  });
+
+  describe('replies', () => {
+    it('should offer the registered tools to the model', async () => {
+      const handlers = new Map<string, Function>();
+      (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+        handlers.set(channel, handler);
+      });
+      (toolRegistry.list as jest.Mock).mockReturnValue([
+        { name: 'get_current_time', description: 'Get the time', execute: jest.fn() },
+      ]);
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 1, chatId: 1, content: 'What time is it?', role: 'user' })
+        .mockResolvedValueOnce({ id: 2, chatId: 1, content: '', role: 'assistant' });
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'What time is it?', role: 'user' }]);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockResolvedValue('It is noon');
+
+      await ChatController.registerHandlers();
+      await handlers.get('chat-send-message')!({ sender: {} }, 1, 'What time is it?');
+
+      expect(mockInferenceService.generateChatResponse).toHaveBeenCalledWith(1, expect.any(Array), expect.any(Function), expect.objectContaining({
+        functions: { get_current_time: expect.objectContaining({ description: 'Get the time' }) },
+      }));
+    });
+    it('should ground the reply in the knowledge base and store its sources', async () => {
+      const handlers = new Map<string, Function>();
+      (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+        handlers.set(channel, handler);
+      });
+      const sources = [{ index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 }];
+      (retrieveKnowledge as jest.Mock).mockResolvedValue(sources);
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 1, chatId: 1, content: 'How do I install it?', role: 'user' })
+        .mockResolvedValueOnce({ id: 2, chatId: 1, content: '', role: 'assistant' });
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null, knowledgeBase: true });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'How do I install it?', role: 'user' }]);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockResolvedValue('Run setup.exe [1]');
+
+      await ChatController.registerHandlers();
+      await handlers.get('chat-send-message')!({ sender: {} }, 1, 'How do I install it?');
+
+      expect(retrieveKnowledge).toHaveBeenCalledWith('How do I install it?');
+      expect(chatService.createMessage).toHaveBeenCalledWith(expect.objectContaining({ role: 'assistant', sources }));
+      const sentHistory: ChatHistoryMessage[] = mockInferenceService.generateChatResponse.mock.calls[0][1];
+      expect(sentHistory[sentHistory.length - 1].content).toContain('[1] guide.md\nRun setup.exe');
+    });
+
+    it('should not search the knowledge base when the chat does not use it', async () => {
+      const handlers = new Map<string, Function>();
+      (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+        handlers.set(channel, handler);
+      });
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 1, chatId: 1, content: 'Hello', role: 'user' })
+        .mockResolvedValueOnce({ id: 2, chatId: 1, content: '', role: 'assistant' });
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null, knowledgeBase: false });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'Hello', role: 'user' }]);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateChatResponse.mockResolvedValue('Hi');
+
+      await ChatController.registerHandlers();
+      await handlers.get('chat-send-message')!({ sender: {} }, 1, 'Hello');
+
+      expect(retrieveKnowledge).not.toHaveBeenCalled();
+      expect(chatService.createMessage).toHaveBeenCalledWith(expect.objectContaining({ role: 'assistant', sources: [] }));
+    });
+  });
+
+  describe('knowledge base', () => {
+    const sources = [{ index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 }];
+
+    it('should find the excerpts of the knowledge base', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      (retrieveKnowledge as jest.Mock).mockResolvedValue(sources);
+
+      await expect(findKnowledgeSources('How do I install it?')).resolves.toEqual(sources);
+    });
+
+    it('should not search without a loaded model', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
+
+      await expect(findKnowledgeSources('How do I install it?')).resolves.toEqual([]);
+      expect(retrieveKnowledge).not.toHaveBeenCalled();
+    });
+
+    it('should answer without excerpts when the search fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      (retrieveKnowledge as jest.Mock).mockRejectedValue(new Error('No embedding model selected'));
+
+      await expect(findKnowledgeSources('How do I install it?')).resolves.toEqual([]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to search the knowledge base:', expect.any(Error));
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should add the excerpts to the last message only', () => {
+      const chatHistory: ChatHistoryMessage[] = [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' },
+        { role: 'user', content: 'How do I install it?' },
+      ];
+
+      const result = addKnowledgeToHistory(chatHistory, sources);
+
+      expect(result.slice(0, 2)).toEqual(chatHistory.slice(0, 2));
+      expect(result[2].content).toContain('[1] guide.md\nRun setup.exe');
+      expect(result[2].content.endsWith('Question: How do I install it?')).toBe(true);
+      expect(chatHistory[2].content).toBe('How do I install it?');
+    });
+
+    it('should leave the history unchanged without excerpts', () => {
+      expect(addKnowledgeToHistory(history, [])).toBe(history);
+    });
+  });
+
   describe('generateChatTitle', () => {
+    const messages = [
+      { id: 1, chatId: 1, content: 'Hello', role: 'user' as const, createdAt: new Date() },
+      { id: 2, chatId: 1, content: 'Hi there', role: 'assistant' as const, createdAt: new Date() },
+      { id: 3, chatId: 1, content: 'Plan a trip to Lyon', role: 'user' as const, createdAt: new Date() },
+      { id: 4, chatId: 1, content: 'Sure', role: 'assistant' as const, createdAt: new Date() },
+    ] as any[];
+
     it('should generate title using LLM', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockResolvedValue('Generated Title');
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockResolvedValue({ title: 'Generated Title' });
 
-      const result = await generateChatTitle('Hello', 'Hi there');
+      const result = await generateChatTitle(messages, 'en');
 
       expect(result).toBe('Generated Title');
-      expect(mockLLMService.generateResponse).toHaveBeenCalledWith(
-        expect.stringContaining('Generate a very short title')
+      expect(mockInferenceService.generateStructured).toHaveBeenCalledWith(
+        expect.stringContaining('Generate a very short title'),
+        {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1, maxLength: 50 },
+          },
+        }
       );
     });
 
+    it('should summarize the first exchanges in the UI language', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockResolvedValue({ title: 'Voyage à Lyon' });
+
+      await generateChatTitle(messages, 'fr');
+
+      const prompt = mockInferenceService.generateStructured.mock.calls[0][0];
+      expect(prompt).toContain('User: Hello\nAssistant: Hi there');
+      expect(prompt).toContain('User: Plan a trip to Lyon\nAssistant: Sure');
+      expect(prompt).toContain('written in French');
+    });
+
+    it('should not name a chat without messages', async () => {
+      await expect(generateChatTitle([], 'en')).resolves.toBeNull();
+      expect(mockInferenceService.generateStructured).not.toHaveBeenCalled();
+    });
+
     it('should use default title if no model loaded', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
-      mockLLMService.isModelLoaded.mockReturnValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
 
-      const result = await generateChatTitle('Hello world this is a test', 'Response');
+      const result = await generateChatTitle([{ ...messages[0], content: 'Hello world this is a test' }], 'en');
 
       expect(result).toBe('Chat about Hello world this is a test...');
       expect(consoleSpy).toHaveBeenCalledWith('No LLM model loaded, using default title');
-      expect(mockLLMService.generateResponse).not.toHaveBeenCalled();
+      expect(mockInferenceService.generateStructured).not.toHaveBeenCalled();
       consoleSpy.mockRestore();
     });
 
     it('should fallback to default title on error', async () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockRejectedValue(new Error('LLM error'));
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockRejectedValue(new Error('LLM error'));
 
-      const result = await generateChatTitle('Hello world', 'Response');
+      const result = await generateChatTitle(messages, 'fr');
 
-      expect(result).toBe('Chat about Hello world...');
+      expect(result).toBe('Discussion sur Hello...');
       expect(consoleSpy).toHaveBeenCalledWith('Failed to generate chat title:', expect.any(Error));
       consoleSpy.mockRestore();
     });
 
-    it('should clean up title - remove quotes', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockResolvedValue('"Quoted Title"');
+    it('should return default if the title is blank', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockResolvedValue({ title: '   ' });
 
-      const result = await generateChatTitle('Test', 'Response');
+      const result = await generateChatTitle(messages, 'en');
 
-      expect(result).toBe('Quoted Title');
+      expect(result).toBe('Chat about Hello...');
     });
 
-    it('should clean up title - take first line', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockResolvedValue('First Line\nSecond Line');
+    it('should tidy the title', async () => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockResolvedValue({ title: '  "Title with spaces."  ' });
 
-      const result = await generateChatTitle('Test', 'Response');
+      const result = await generateChatTitle(messages, 'en');
 
-      expect(result).toBe('First Line');
+      expect(result).toBe('Title with spaces');
     });
+  });
 
-    it('should clean up title - truncate long titles', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      const longTitle = 'A'.repeat(60);
-      mockLLMService.generateResponse.mockResolvedValue(longTitle);
-
-      const result = await generateChatTitle('Test', 'Response');
-
-      expect(result).toBe('A'.repeat(50));
+  describe('autoNameChat', () => {
+    beforeEach(() => {
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.generateStructured.mockResolvedValue({ title: 'Voyage à Lyon' });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([
+        { id: 1, chatId: 1, content: 'Plan a trip to Lyon', role: 'user' },
+        { id: 2, chatId: 1, content: 'Sure', role: 'assistant' },
+      ]);
     });
 
-    it('should return default if cleaned title is empty', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockResolvedValue('""');
+    it('should name the chat in the language of the window', async () => {
+      (chatService.updateChatName as jest.Mock).mockResolvedValue({ id: 1, name: 'Voyage à Lyon', nameSetByUser: false });
+      const window = { webContents: { executeJavaScript: jest.fn().mockResolvedValue('fr') } } as any;
 
-      const result = await generateChatTitle('Hello', 'Response');
+      await expect(autoNameChat(window, 1)).resolves.toBe(true);
 
-      expect(result).toBe('Chat about Hello...');
+      expect(window.webContents.executeJavaScript).toHaveBeenCalledWith('localStorage.getItem("i18nextLng")');
+      expect(mockInferenceService.generateStructured.mock.calls[0][0]).toContain('written in French');
+      expect(chatService.updateChatName).toHaveBeenCalledWith(1, 'Voyage à Lyon', false);
     });
 
-    it('should trim whitespace from title', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
-      mockLLMService.generateResponse.mockResolvedValue('  Title with spaces  ');
+    it('should tell when the user named the chat meanwhile', async () => {
+      (chatService.updateChatName as jest.Mock).mockResolvedValue({ id: 1, name: 'My trip', nameSetByUser: true });
 
-      const result = await generateChatTitle('Test', 'Response');
+      await expect(autoNameChat(null, 1)).resolves.toBe(false);
+    });
 
-      expect(result).toBe('Title with spaces');
+    it('should not rename a chat without messages', async () => {
+      (chatService.getMessages as jest.Mock).mockResolvedValue([]);
+
+      await expect(autoNameChat(null, 1)).resolves.toBe(false);
+      expect(chatService.updateChatName).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
@@ -1,6 +1,10 @@
-import { ChatController, generateLoremIpsum, streamMessage } from './chat.controller';
+import { ChatController, generateLoremIpsum, getExportFileName, getUniqueExportFileName, streamMessage } from './chat.controller';
 import { chatService } from '../services/chat.service';
-import { ipcMain, BrowserWindow } from 'electron';
+import { migrationService } from '../services/migration.service';
+import { chatToJson } from '../services/chat.export';
+import { readAttachments } from '../services/attachment.reader';
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import * as fs from 'fs';
 
 // Mock the chat service
 jest.mock('../services/chat.service', () => ({
@@ -10,21 +14,68 @@ jest.mock('../services/chat.service', () => ({
     getChat: jest.fn(),
     getAllChats: jest.fn(),
     updateChatName: jest.fn(),
+    updateChatSystemPrompt: jest.fn(),
+    updateChatKnowledgeBase: jest.fn(),
+    updateChatPinned: jest.fn(),
+    updateChatArchived: jest.fn(),
+    updateChatsArchived: jest.fn(),
+    updateChatTags: jest.fn(),
+    moveChatToFolder: jest.fn(),
+    getFolders: jest.fn(),
+    createFolder: jest.fn(),
+    renameFolder: jest.fn(),
+    deleteFolder: jest.fn(),
     deleteChat: jest.fn(),
+    deleteChats: jest.fn(),
     createMessage: jest.fn(),
     updateMessage: jest.fn(),
     getMessages: jest.fn(),
+    getMessage: jest.fn(),
+    switchBranch: jest.fn(),
     getMessageCount: jest.fn(),
     shouldAutoNameChat: jest.fn(),
+    importChat: jest.fn(),
+    searchChats: jest.fn(),
+    getAttachments: jest.fn(async () => []),
+    getEncryptionStatus: jest.fn(),
+    unlock: jest.fn(),
+    lock: jest.fn(),
+    enableEncryption: jest.fn(),
+    changePassphrase: jest.fn(),
+    disableEncryption: jest.fn(),
   },
 }));
 
+jest.mock('../services/migration.service', () => ({
+  migrationService: {
+    deleteBackups: jest.fn(() => []),
+  },
+}));
+
+jest.mock('../services/attachment.reader', () => ({
+  readAttachments: jest.fn(),
+}));
+
+jest.mock('../services/tool.registry', () => ({
+  toolRegistry: {
+    list: jest.fn(() => []),
+  },
+}));
+
+jest.mock('./knowledge.controller', () => ({
+  retrieveKnowledge: jest.fn(),
+}));
+
 // Mock electron
 jest.mock('electron', () => ({
   ipcMain: {
     handle: jest.fn(),
     removeHandler: jest.fn(),
   },
+  dialog: {
+    showSaveDialog: jest.fn(),
+    showOpenDialog: jest.fn(),
+  },
   BrowserWindow: {
     fromWebContents: jest.fn(),
   },
@@ -71,10 +122,40 @@ describe('ChatController', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-get', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-get-all', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-name', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-system-prompt', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-knowledge-base', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-pinned', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-archived', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-archived-many', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-update-tags', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-move-to-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-get-folders', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-create-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-rename-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-delete-folder', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-delete', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-delete-many', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-send-message', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-stop-generation', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-respond-tool-call', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-regenerate', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-edit-message', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-pick-attachments', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-read-attachments', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-switch-branch', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-search', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-export', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-export-many', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-import', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-get-messages', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('chat-get-message-count', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-suggest-title', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-encryption-status', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-unlock', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-lock', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-enable-encryption', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-change-passphrase', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('chat-disable-encryption', expect.any(Function));
     });
   });
 
@@ -191,6 +272,134 @@ describe('ChatController', () => {
     });
   });
 
+  describe('chat-update-system-prompt handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should update the chat system prompt', async () => {
+      const mockChat = { id: 1, name: 'Chat', systemPrompt: 'Be brief', createdAt: new Date(), updatedAt: new Date() };
+      (chatService.updateChatSystemPrompt as jest.Mock).mockResolvedValue(mockChat);
+
+      const handler = handlersMap.get('chat-update-system-prompt')!;
+      const result = await handler({}, 1, 'Be brief');
+
+      expect(chatService.updateChatSystemPrompt).toHaveBeenCalledWith(1, 'Be brief');
+      expect(result).toEqual(mockChat);
+    });
+
+    it('should throw error if update fails', async () => {
+      (chatService.updateChatSystemPrompt as jest.Mock).mockRejectedValue(new Error('Update failed'));
+
+      const handler = handlersMap.get('chat-update-system-prompt')!;
+
+      await expect(handler({}, 1, null)).rejects.toThrow('Update failed');
+    });
+  });
+
+  describe('chat-update-knowledge-base handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should turn the knowledge base on for the chat', async () => {
+      const mockChat = { id: 1, name: 'Chat', knowledgeBase: true, createdAt: new Date(), updatedAt: new Date() };
+      (chatService.updateChatKnowledgeBase as jest.Mock).mockResolvedValue(mockChat);
+
+      const handler = handlersMap.get('chat-update-knowledge-base')!;
+      const result = await handler({}, 1, true);
+
+      expect(chatService.updateChatKnowledgeBase).toHaveBeenCalledWith(1, true);
+      expect(result).toEqual(mockChat);
+    });
+
+    it('should throw error if update fails', async () => {
+      (chatService.updateChatKnowledgeBase as jest.Mock).mockRejectedValue(new Error('Update failed'));
+
+      const handler = handlersMap.get('chat-update-knowledge-base')!;
+
+      await expect(handler({}, 1, false)).rejects.toThrow('Update failed');
+    });
+  });
+
+  describe('chat organization handlers', () => {
+    const mockChat = { id: 1, name: 'Chat', pinned: true, archived: false, tags: '[]', folderId: null };
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should pin and archive chats', async () => {
+      (chatService.updateChatPinned as jest.Mock).mockResolvedValue(mockChat);
+      (chatService.updateChatArchived as jest.Mock).mockResolvedValue(mockChat);
+
+      await expect(handlersMap.get('chat-update-pinned')!({}, 1, true)).resolves.toEqual(mockChat);
+      await handlersMap.get('chat-update-archived')!({}, 1, true);
+
+      expect(chatService.updateChatPinned).toHaveBeenCalledWith(1, true);
+      expect(chatService.updateChatArchived).toHaveBeenCalledWith(1, true);
+    });
+
+    it('should update the tags of a chat', async () => {
+      (chatService.updateChatTags as jest.Mock).mockResolvedValue({ ...mockChat, tags: '["work"]' });
+
+      await handlersMap.get('chat-update-tags')!({}, 1, ['work']);
+
+      expect(chatService.updateChatTags).toHaveBeenCalledWith(1, ['work']);
+    });
+
+    it('should move a chat to a folder', async () => {
+      (chatService.moveChatToFolder as jest.Mock).mockResolvedValue({ ...mockChat, folderId: 2 });
+
+      await handlersMap.get('chat-move-to-folder')!({}, 1, 2);
+
+      expect(chatService.moveChatToFolder).toHaveBeenCalledWith(1, 2);
+    });
+
+    it('should throw error if update fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (chatService.updateChatTags as jest.Mock).mockRejectedValue(new Error('Chat 1 not found'));
+
+      await expect(handlersMap.get('chat-update-tags')!({}, 1, ['work'])).rejects.toThrow('Chat 1 not found');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to update chat tags:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('chat folder handlers', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should get, create, rename and delete folders', async () => {
+      (chatService.getFolders as jest.Mock).mockResolvedValue([{ id: 1, name: 'Work' }]);
+      (chatService.createFolder as jest.Mock).mockResolvedValue({ id: 2, name: 'Ideas' });
+      (chatService.renameFolder as jest.Mock).mockResolvedValue({ id: 2, name: 'Projects' });
+
+      await expect(handlersMap.get('chat-get-folders')!({})).resolves.toEqual([{ id: 1, name: 'Work' }]);
+      await expect(handlersMap.get('chat-create-folder')!({}, 'Ideas')).resolves.toEqual({ id: 2, name: 'Ideas' });
+      await handlersMap.get('chat-rename-folder')!({}, 2, 'Projects');
+      await handlersMap.get('chat-delete-folder')!({}, 2);
+
+      expect(chatService.createFolder).toHaveBeenCalledWith('Ideas');
+      expect(chatService.renameFolder).toHaveBeenCalledWith(2, 'Projects');
+      expect(chatService.deleteFolder).toHaveBeenCalledWith(2);
+    });
+
+    it('should throw error if the folder cannot be created', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (chatService.createFolder as jest.Mock).mockRejectedValue(new Error('Folder name cannot be empty'));
+
+      await expect(handlersMap.get('chat-create-folder')!({}, '')).rejects.toThrow('Folder name cannot be empty');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to create chat folder:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('chat-delete handler', () => {
     beforeEach(async () => {
       (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
@@ -240,6 +449,13 @@ describe('ChatController', () => {
       (chatService.createMessage as jest.Mock)
         .mockResolvedValueOnce(mockUserMessage)
         .mockResolvedValueOnce(mockAssistantMessage);
+      (chatService.getMessages as jest.Mock).mockResolvedValue([mockUserMessage]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({
+        id: 1,
+        name: 'New Chat',
+        systemPrompt: null,
+        messages: [mockUserMessage],
+      });
       (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
 
       const mockWindow = {
@@ -258,10 +474,22 @@ describe('ChatController', () => {
         chatId: 1,
         content: 'Hello',
         role: 'user',
+        attachments: [],
       });
+      expect(chatService.createMessage).toHaveBeenCalledWith({
+        chatId: 1,
+        content: '',
+        role: 'assistant',
+        parentId: 1,
+        sources: [],
+      });
+      expect(chatService.getMessages).toHaveBeenCalledWith(1);
+      expect(chatService.getChat).toHaveBeenCalledWith(1);
+      expect(chatService.updateMessage).toHaveBeenCalledWith(2, mockAssistantMessage.content, false, null);
       expect(result.userMessage).toEqual(mockUserMessage);
-      expect(result.assistantMessage).toEqual(mockAssistantMessage);
+      expect(result.assistantMessage).toEqual({ ...mockAssistantMessage, interrupted: false });
       expect(result.autoNamed).toBe(false);
+      expect(result.summarized).toBe(false);
     });
 
     it('should auto-name chat after 4 messages', async () => {
@@ -283,8 +511,15 @@ describe('ChatController', () => {
       (chatService.createMessage as jest.Mock)
         .mockResolvedValueOnce(mockUserMessage)
         .mockResolvedValueOnce(mockAssistantMessage);
+      (chatService.getMessages as jest.Mock).mockResolvedValue([mockUserMessage]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({
+        id: 1,
+        name: 'New Chat',
+        systemPrompt: null,
+        messages: [mockUserMessage],
+      });
       (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(true);
-      (chatService.updateChatName as jest.Mock).mockResolvedValue({});
+      (chatService.updateChatName as jest.Mock).mockResolvedValue({ id: 1, name: 'Chat about Hello...', nameSetByUser: false });
 
       const mockWindow = {
         webContents: {
@@ -297,10 +532,32 @@ describe('ChatController', () => {
       const handler = handlersMap.get('chat-send-message')!;
       const result = await handler(mockEvent, 1, 'Hello');
 
-      expect(chatService.updateChatName).toHaveBeenCalledWith(1, 'Chat about Hello...');
+      expect(chatService.updateChatName).toHaveBeenCalledWith(1, 'Chat about Hello...', false);
       expect(result.autoNamed).toBe(true);
     });
 
+    it('should store the attached files with the user message', async () => {
+      const attachments = [{ name: 'notes.md', kind: 'markdown', size: 7, content: '# Notes' }];
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 1, chatId: 1, content: 'Summarize', role: 'user' })
+        .mockResolvedValueOnce({ id: 2, chatId: 1, content: '', role: 'assistant' });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([{ id: 1, chatId: 1, content: 'Summarize', role: 'user' }]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      const handler = handlersMap.get('chat-send-message')!;
+      await handler({ sender: {} }, 1, 'Summarize', attachments);
+
+      expect(chatService.createMessage).toHaveBeenNthCalledWith(1, {
+        chatId: 1,
+        content: 'Summarize',
+        role: 'user',
+        attachments,
+      });
+      expect(chatService.getAttachments).toHaveBeenCalledWith([1]);
+    });
+
     it('should throw error if message creation fails', async () => {
       (chatService.createMessage as jest.Mock).mockRejectedValue(new Error('Creation failed'));
 
@@ -311,6 +568,568 @@ describe('ChatController', () => {
     });
   });
 
+  describe('chat-regenerate handler', () => {
+    const userMessage = { id: 1, chatId: 1, content: 'Hello', role: 'user' as const, parentId: null, siblingIds: [1] };
+    const oldReply = { id: 2, chatId: 1, content: 'Hi', role: 'assistant' as const, parentId: 1, siblingIds: [2] };
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+    });
+
+    it('should create a sibling reply to the same user message', async () => {
+      const newReply = { id: 3, chatId: 1, content: '', role: 'assistant' as const, parentId: 1 };
+      (chatService.getMessages as jest.Mock).mockResolvedValue([userMessage, oldReply]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.createMessage as jest.Mock).mockResolvedValue(newReply);
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+
+      const handler = handlersMap.get('chat-regenerate')!;
+      const result = await handler({ sender: {} }, 1);
+
+      expect(chatService.createMessage).toHaveBeenCalledTimes(1);
+      expect(chatService.createMessage).toHaveBeenCalledWith({
+        chatId: 1,
+        content: '',
+        role: 'assistant',
+        parentId: 1,
+        sources: [],
+      });
+      expect(chatService.updateMessage).toHaveBeenCalledWith(3, generateLoremIpsum(), false, null);
+      expect(result.assistantMessage).toEqual({ ...newReply, content: generateLoremIpsum(), interrupted: false });
+      expect(result.autoNamed).toBe(false);
+    });
+
+    it('should make the tool calls of the previous reply again', async () => {
+      const toolMessage = {
+        id: 4, chatId: 1, content: '"noon"', role: 'tool' as const, parentId: 1, siblingIds: [4],
+        toolCall: JSON.stringify({ name: 'get_current_time', params: {}, status: 'completed' }),
+      };
+      const replyAfterTool = { ...oldReply, parentId: 4 };
+      (chatService.getMessages as jest.Mock).mockResolvedValue([userMessage, toolMessage, replyAfterTool]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.createMessage as jest.Mock).mockResolvedValue({ id: 5, chatId: 1, content: '', role: 'assistant', parentId: 1 });
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+
+      const handler = handlersMap.get('chat-regenerate')!;
+      await handler({ sender: {} }, 1);
+
+      expect(chatService.createMessage).toHaveBeenCalledWith(expect.objectContaining({ parentId: 1 }));
+    });
+
+    it('should throw error if the branch does not end with an assistant reply', async () => {
+      (chatService.getMessages as jest.Mock).mockResolvedValue([userMessage]);
+
+      const handler = handlersMap.get('chat-regenerate')!;
+
+      await expect(handler({ sender: {} }, 1)).rejects.toThrow('Chat 1 has no assistant reply to regenerate');
+      expect(chatService.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if the chat is empty', async () => {
+      (chatService.getMessages as jest.Mock).mockResolvedValue([]);
+
+      const handler = handlersMap.get('chat-regenerate')!;
+
+      await expect(handler({ sender: {} }, 1)).rejects.toThrow('no assistant reply to regenerate');
+    });
+  });
+
+  describe('chat-edit-message handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+    });
+
+    it('should save the edit as a sibling and answer it', async () => {
+      const original = { id: 3, chatId: 1, content: 'Old question', role: 'user' as const, parentId: 2 };
+      const edited = { id: 5, chatId: 1, content: 'New question', role: 'user' as const, parentId: 2 };
+      const reply = { id: 6, chatId: 1, content: '', role: 'assistant' as const, parentId: 5 };
+      (chatService.getMessage as jest.Mock).mockResolvedValue(original);
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce(edited)
+        .mockResolvedValueOnce(reply);
+      (chatService.getMessages as jest.Mock).mockResolvedValue([edited]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+
+      const handler = handlersMap.get('chat-edit-message')!;
+      const result = await handler({ sender: {} }, 1, 3, 'New question');
+
+      expect(chatService.createMessage).toHaveBeenNthCalledWith(1, {
+        chatId: 1,
+        content: 'New question',
+        role: 'user',
+        parentId: 2,
+        attachments: [],
+      });
+      expect(chatService.createMessage).toHaveBeenNthCalledWith(2, {
+        chatId: 1,
+        content: '',
+        role: 'assistant',
+        parentId: 5,
+        sources: [],
+      });
+      expect(result.userMessage).toEqual(edited);
+      expect(result.assistantMessage.id).toBe(6);
+    });
+
+    it('should keep the attachments of the original message', async () => {
+      (chatService.getMessage as jest.Mock).mockResolvedValue({ id: 3, chatId: 1, content: 'Old', role: 'user', parentId: 2 });
+      (chatService.getAttachments as jest.Mock).mockResolvedValueOnce([
+        { id: 9, messageId: 3, name: 'a.py', kind: 'code', size: 5, content: 'pass', createdAt: new Date() },
+      ]);
+      (chatService.createMessage as jest.Mock)
+        .mockResolvedValueOnce({ id: 5, chatId: 1, content: 'New', role: 'user', parentId: 2 })
+        .mockResolvedValueOnce({ id: 6, chatId: 1, content: '', role: 'assistant', parentId: 5 });
+      (chatService.getMessages as jest.Mock).mockResolvedValue([]);
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, systemPrompt: null });
+      (chatService.shouldAutoNameChat as jest.Mock).mockResolvedValue(false);
+
+      const handler = handlersMap.get('chat-edit-message')!;
+      await handler({ sender: {} }, 1, 3, 'New');
+
+      expect(chatService.getAttachments).toHaveBeenCalledWith([3]);
+      expect(chatService.createMessage).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        attachments: [{ name: 'a.py', kind: 'code', size: 5, content: 'pass' }],
+      }));
+    });
+
+    it('should reject assistant messages', async () => {
+      (chatService.getMessage as jest.Mock).mockResolvedValue({ id: 2, chatId: 1, role: 'assistant', parentId: 1 });
+
+      const handler = handlersMap.get('chat-edit-message')!;
+
+      await expect(handler({ sender: {} }, 1, 2, 'Edit')).rejects.toThrow('Message 2 is not a user message of chat 1');
+      expect(chatService.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages from another chat', async () => {
+      (chatService.getMessage as jest.Mock).mockResolvedValue({ id: 2, chatId: 7, role: 'user', parentId: null });
+
+      const handler = handlersMap.get('chat-edit-message')!;
+
+      await expect(handler({ sender: {} }, 1, 2, 'Edit')).rejects.toThrow('is not a user message of chat 1');
+    });
+
+    it('should reject unknown messages', async () => {
+      (chatService.getMessage as jest.Mock).mockResolvedValue(null);
+
+      const handler = handlersMap.get('chat-edit-message')!;
+
+      await expect(handler({ sender: {} }, 1, 2, 'Edit')).rejects.toThrow('is not a user message of chat 1');
+    });
+  });
+
+  describe('chat-pick-attachments handler', () => {
+    const readResult = {
+      attachments: [{ name: 'notes.md', kind: 'markdown', size: 7, content: '# Notes' }],
+      errors: [],
+    };
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue({});
+      (readAttachments as jest.Mock).mockResolvedValue(readResult);
+      await ChatController.registerHandlers();
+    });
+
+    it('should read the chosen files', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/tmp/notes.md'] });
+
+      const handler = handlersMap.get('chat-pick-attachments')!;
+      const result = await handler({ sender: {} });
+
+      expect(dialog.showOpenDialog).toHaveBeenCalledWith({}, expect.objectContaining({
+        properties: ['openFile', 'multiSelections'],
+        filters: [{ name: 'Documents', extensions: expect.arrayContaining(['txt', 'md', 'ts', 'pdf']) }],
+      }));
+      expect(readAttachments).toHaveBeenCalledWith(['/tmp/notes.md']);
+      expect(result).toEqual(readResult);
+    });
+
+    it('should return null when the dialog is canceled', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      const handler = handlersMap.get('chat-pick-attachments')!;
+
+      expect(await handler({ sender: {} })).toBeNull();
+      expect(readAttachments).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when there is no window for the dialog', async () => {
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      const handler = handlersMap.get('chat-pick-attachments')!;
+
+      await expect(handler({ sender: {} })).rejects.toThrow('No window available for dialog');
+    });
+  });
+
+  describe('chat-read-attachments handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should read the dropped files', async () => {
+      const readResult = { attachments: [], errors: [{ name: 'a.zip', error: 'Unsupported file type: a.zip' }] };
+      (readAttachments as jest.Mock).mockResolvedValue(readResult);
+
+      const handler = handlersMap.get('chat-read-attachments')!;
+
+      expect(await handler({}, ['/tmp/a.zip'])).toEqual(readResult);
+      expect(readAttachments).toHaveBeenCalledWith(['/tmp/a.zip']);
+    });
+
+    it('should refuse anything but absolute file paths', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const handler = handlersMap.get('chat-read-attachments')!;
+
+      await expect(handler({}, ['../.ssh/id_rsa'])).rejects.toThrow('Invalid file paths');
+      await expect(handler({}, [{ path: '/etc/passwd' }])).rejects.toThrow('Invalid file paths');
+      await expect(handler({}, '/etc/passwd')).rejects.toThrow('Invalid file paths');
+      expect(readAttachments).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('chat-switch-branch handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should switch to the selected branch', async () => {
+      const branch = [{ id: 1, chatId: 1, content: 'Hello', role: 'user', parentId: null, siblingIds: [1] }];
+      (chatService.switchBranch as jest.Mock).mockResolvedValue(branch);
+
+      const handler = handlersMap.get('chat-switch-branch')!;
+      const result = await handler({}, 1, 4);
+
+      expect(chatService.switchBranch).toHaveBeenCalledWith(1, 4);
+      expect(result).toEqual(branch);
+    });
+
+    it('should throw error if switch fails', async () => {
+      (chatService.switchBranch as jest.Mock).mockRejectedValue(new Error('Switch failed'));
+
+      const handler = handlersMap.get('chat-switch-branch')!;
+
+      await expect(handler({}, 1, 4)).rejects.toThrow('Switch failed');
+    });
+  });
+
+  describe('chat-stop-generation handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should return false when no generation is running', async () => {
+      const handler = handlersMap.get('chat-stop-generation')!;
+      const result = await handler({}, 1);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('chat-respond-tool-call handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should return false for unknown tool calls', async () => {
+      const handler = handlersMap.get('chat-respond-tool-call')!;
+
+      await expect(handler({}, 'unknown', true)).resolves.toBe(false);
+    });
+  });
+
+  describe('chat-search handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should search chats', async () => {
+      const mockResults = [
+        { chatId: 1, chatName: 'Chat', messageId: 2, role: 'user', snippet: [{ text: 'hello', match: true }], rank: -1 },
+      ];
+      (chatService.searchChats as jest.Mock).mockResolvedValue(mockResults);
+
+      const handler = handlersMap.get('chat-search')!;
+      const result = await handler({}, 'hello');
+
+      expect(chatService.searchChats).toHaveBeenCalledWith('hello');
+      expect(result).toEqual(mockResults);
+    });
+
+    it('should throw error if search fails', async () => {
+      (chatService.searchChats as jest.Mock).mockRejectedValue(new Error('Search failed'));
+
+      const handler = handlersMap.get('chat-search')!;
+
+      await expect(handler({}, 'hello')).rejects.toThrow('Search failed');
+    });
+  });
+
+  describe('chat-export handler', () => {
+    const mockChat = {
+      id: 1,
+      name: 'My: Chat?',
+      systemPrompt: null,
+      activeMessageId: 2,
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+      messages: [
+        { id: 1, chatId: 1, content: 'Hello', role: 'user', interrupted: false, parentId: null, createdAt: new Date('2026-01-01T00:00:00.000Z') },
+        { id: 2, chatId: 1, content: 'Hi', role: 'assistant', interrupted: false, parentId: 1, createdAt: new Date('2026-01-01T00:00:00.000Z') },
+      ],
+    };
+    const mockWindow = {};
+    let writeFileSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(mockWindow);
+      writeFileSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    afterEach(() => {
+      writeFileSpy.mockRestore();
+    });
+
+    it('should write the chat to the chosen file', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(mockChat);
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: false, filePath: '/tmp/My Chat.md' });
+
+      const handler = handlersMap.get('chat-export')!;
+      const result = await handler({ sender: {} }, 1, 'markdown');
+
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith(mockWindow, {
+        defaultPath: 'My Chat.md',
+        filters: [{ name: 'MARKDOWN', extensions: ['md'] }],
+      });
+      expect(writeFileSpy).toHaveBeenCalledWith('/tmp/My Chat.md', expect.stringContaining('## Assistant'), 'utf-8');
+      expect(chatService.getAttachments).not.toHaveBeenCalled();
+      expect(result).toBe('/tmp/My Chat.md');
+    });
+
+    it('should write the attachments of the messages in JSON exports', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(mockChat);
+      (chatService.getAttachments as jest.Mock).mockResolvedValueOnce([
+        { id: 3, messageId: 1, name: 'notes.txt', kind: 'text', size: 9, content: 'Bring tea', createdAt: new Date() },
+      ]);
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: false, filePath: '/tmp/My Chat.json' });
+
+      await handlersMap.get('chat-export')!({ sender: {} }, 1, 'json');
+
+      expect(chatService.getAttachments).toHaveBeenCalledWith([1, 2]);
+      const document = JSON.parse(writeFileSpy.mock.calls[0][1]);
+      expect(document.chat.messages[0].attachments).toEqual([{ name: 'notes.txt', kind: 'text', size: 9, content: 'Bring tea' }]);
+    });
+
+    it('should return null when the dialog is canceled', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(mockChat);
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: true });
+
+      const handler = handlersMap.get('chat-export')!;
+      const result = await handler({ sender: {} }, 1, 'json');
+
+      expect(writeFileSpy).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should throw error if the chat does not exist', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(null);
+
+      const handler = handlersMap.get('chat-export')!;
+
+      await expect(handler({ sender: {} }, 9, 'html')).rejects.toThrow('Chat 9 not found');
+      expect(dialog.showSaveDialog).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when there is no window for the dialog', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(mockChat);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      const handler = handlersMap.get('chat-export')!;
+
+      await expect(handler({ sender: {} }, 1, 'json')).rejects.toThrow('No window available for dialog');
+    });
+  });
+
+  describe('bulk chat handlers', () => {
+    const mockWindow = {};
+    let writeFileSpy: jest.SpyInstance;
+    let readdirSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(mockWindow);
+      writeFileSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined);
+      readdirSpy = jest.spyOn(fs.promises, 'readdir').mockResolvedValue(['Notes.md'] as any);
+      await ChatController.registerHandlers();
+    });
+
+    afterEach(() => {
+      writeFileSpy.mockRestore();
+      readdirSpy.mockRestore();
+    });
+
+    it('should delete the chats', async () => {
+      (chatService.deleteChats as jest.Mock).mockResolvedValue(undefined);
+
+      await handlersMap.get('chat-delete-many')!({}, [1, 2]);
+
+      expect(chatService.deleteChats).toHaveBeenCalledWith([1, 2]);
+    });
+
+    it('should archive the chats', async () => {
+      const archived = [{ id: 1, archived: true }, { id: 2, archived: true }];
+      (chatService.updateChatsArchived as jest.Mock).mockResolvedValue(archived);
+
+      const result = await handlersMap.get('chat-update-archived-many')!({}, [1, 2], true);
+
+      expect(chatService.updateChatsArchived).toHaveBeenCalledWith([1, 2], true);
+      expect(result).toEqual(archived);
+    });
+
+    it('should export each chat to its own file in the chosen folder', async () => {
+      const chat = (id: number, name: string) => ({
+        id,
+        name,
+        systemPrompt: null,
+        activeMessageId: null,
+        createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+        messages: [],
+      });
+      (chatService.getChat as jest.Mock).mockImplementation(async (id: number) => chat(id, id === 3 ? 'Ideas' : 'Notes'));
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/tmp/exports'] });
+
+      const result = await handlersMap.get('chat-export-many')!({ sender: {} }, [1, 2, 3], 'markdown');
+
+      expect(dialog.showOpenDialog).toHaveBeenCalledWith(mockWindow, {
+        properties: ['openDirectory', 'createDirectory'],
+      });
+      expect(writeFileSpy.mock.calls.map((call) => call[0])).toEqual([
+        '/tmp/exports/Notes (2).md',
+        '/tmp/exports/Notes (3).md',
+        '/tmp/exports/Ideas.md',
+      ]);
+      expect(result).toBe('/tmp/exports');
+    });
+
+    it('should not write anything when the dialog is canceled', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue({ id: 1, name: 'Notes', messages: [] });
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      const result = await handlersMap.get('chat-export-many')!({ sender: {} }, [1], 'json');
+
+      expect(writeFileSpy).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should throw error before asking for a folder when a chat does not exist', async () => {
+      (chatService.getChat as jest.Mock).mockResolvedValue(null);
+
+      await expect(handlersMap.get('chat-export-many')!({ sender: {} }, [4], 'json')).rejects.toThrow('Chat 4 not found');
+      expect(dialog.showOpenDialog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chat-import handler', () => {
+    let readFileSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue({});
+      readFileSpy = jest.spyOn(fs.promises, 'readFile');
+      await ChatController.registerHandlers();
+    });
+
+    afterEach(() => {
+      readFileSpy.mockRestore();
+    });
+
+    it('should import the chosen JSON export', async () => {
+      const json = chatToJson({
+        id: 1,
+        name: 'Exported',
+        systemPrompt: null,
+        activeMessageId: null,
+        createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+        messages: [],
+      });
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/tmp/chat.json'] });
+      readFileSpy.mockResolvedValue(json);
+      (chatService.importChat as jest.Mock).mockResolvedValue({ id: 5, name: 'Exported' });
+
+      const handler = handlersMap.get('chat-import')!;
+      const result = await handler({ sender: {} });
+
+      expect(readFileSpy).toHaveBeenCalledWith('/tmp/chat.json', 'utf-8');
+      expect(chatService.importChat).toHaveBeenCalledWith(JSON.parse(json));
+      expect(result).toEqual({ id: 5, name: 'Exported' });
+    });
+
+    it('should return null when the dialog is canceled', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      const handler = handlersMap.get('chat-import')!;
+      const result = await handler({ sender: {} });
+
+      expect(chatService.importChat).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should throw error when there is no window for the dialog', async () => {
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      const handler = handlersMap.get('chat-import')!;
+
+      await expect(handler({ sender: {} })).rejects.toThrow('No window available for dialog');
+      expect(dialog.showOpenDialog).not.toHaveBeenCalled();
+    });
+
+    it('should throw error for files that are not chat exports', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/tmp/other.json'] });
+      readFileSpy.mockResolvedValue('{"foo": 1}');
+
+      const handler = handlersMap.get('chat-import')!;
+
+      await expect(handler({ sender: {} })).rejects.toThrow('Invalid chat export: unknown format');
+      expect(chatService.importChat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExportFileName', () => {
+    it('should strip characters not allowed in file names', () => {
+      expect(getExportFileName('a/b:c*?', 'html')).toBe('abc.html');
+    });
+
+    it('should fall back to a default name', () => {
+      expect(getExportFileName(' ?? ', 'json')).toBe('chat.json');
+    });
+  });
+
+  describe('getUniqueExportFileName', () => {
+    it('should number the names already in use, ignoring case', () => {
+      const usedNames = new Set(['chat.json']);
+
+      expect(getUniqueExportFileName('Chat', 'json', usedNames)).toBe('Chat (2).json');
+      expect(getUniqueExportFileName('CHAT', 'json', usedNames)).toBe('CHAT (3).json');
+      expect(getUniqueExportFileName('Chat', 'html', usedNames)).toBe('Chat.html');
+    });
+  });
+
   describe('chat-get-messages handler', () => {
     beforeEach(async () => {
       (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
@@ -365,6 +1184,106 @@ describe('ChatController', () => {
     });
   });
 
+  describe('chat-suggest-title handler', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should suggest a title in the language of the window without renaming the chat', async () => {
+      (chatService.getMessages as jest.Mock).mockResolvedValue([
+        { id: 1, chatId: 1, content: 'Bonjour le monde', role: 'user' },
+        { id: 2, chatId: 1, content: 'Bonjour !', role: 'assistant' },
+      ]);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue({
+        webContents: { executeJavaScript: jest.fn().mockResolvedValue('fr') },
+      });
+
+      const result = await handlersMap.get('chat-suggest-title')!({ sender: {} }, 1);
+
+      // Without a model the title comes from the first message
+      expect(result).toBe('Discussion sur Bonjour le monde...');
+      expect(chatService.getMessages).toHaveBeenCalledWith(1);
+      expect(chatService.updateChatName).not.toHaveBeenCalled();
+    });
+
+    it('should suggest nothing for a chat without messages', async () => {
+      (chatService.getMessages as jest.Mock).mockResolvedValue([]);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      await expect(handlersMap.get('chat-suggest-title')!({ sender: {} }, 1)).resolves.toBeNull();
+    });
+
+    it('should throw error if loading the messages fails', async () => {
+      (chatService.getMessages as jest.Mock).mockRejectedValue(new Error('Get failed'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(handlersMap.get('chat-suggest-title')!({ sender: {} }, 1)).rejects.toThrow('Get failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to suggest chat title:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('encryption handlers', () => {
+    beforeEach(async () => {
+      (chatService.initialize as jest.Mock).mockResolvedValue(undefined);
+      await ChatController.registerHandlers();
+    });
+
+    it('should return the encryption status', async () => {
+      (chatService.getEncryptionStatus as jest.Mock).mockReturnValue({ enabled: true, locked: true });
+
+      const result = await handlersMap.get('chat-encryption-status')!({});
+
+      expect(chatService.initialize).toHaveBeenCalled();
+      expect(result).toEqual({ enabled: true, locked: true });
+    });
+
+    it('should unlock the history, telling a wrong passphrase', async () => {
+      (chatService.unlock as jest.Mock).mockResolvedValue(false);
+
+      const result = await handlersMap.get('chat-unlock')!({}, 'wrong passphrase');
+
+      expect(chatService.unlock).toHaveBeenCalledWith('wrong passphrase');
+      expect(result).toBe(false);
+    });
+
+    it('should lock the history', async () => {
+      await handlersMap.get('chat-lock')!({});
+
+      expect(chatService.lock).toHaveBeenCalled();
+    });
+
+    it('should enable, re-key and disable encryption', async () => {
+      await handlersMap.get('chat-enable-encryption')!({}, 'correct horse battery');
+      await handlersMap.get('chat-change-passphrase')!({}, 'correct horse battery', 'new passphrase!');
+      await handlersMap.get('chat-disable-encryption')!({}, 'new passphrase!');
+
+      expect(chatService.enableEncryption).toHaveBeenCalledWith('correct horse battery');
+      expect(migrationService.deleteBackups).toHaveBeenCalledTimes(1);
+      expect(chatService.changePassphrase).toHaveBeenCalledWith('correct horse battery', 'new passphrase!');
+      expect(chatService.disableEncryption).toHaveBeenCalledWith('new passphrase!');
+    });
+
+    it('should keep the backups when encrypting fails', async () => {
+      (chatService.enableEncryption as jest.Mock).mockRejectedValueOnce(new Error('Disk full'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(handlersMap.get('chat-enable-encryption')!({}, 'correct horse battery')).rejects.toThrow('Disk full');
+      expect(migrationService.deleteBackups).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should throw error for a wrong passphrase', async () => {
+      (chatService.changePassphrase as jest.Mock).mockRejectedValue(new Error('Wrong passphrase'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(handlersMap.get('chat-change-passphrase')!({}, 'wrong', 'new passphrase!')).rejects.toThrow('Wrong passphrase');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to change chat passphrase:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('removeHandlers', () => {
     it('should remove all handlers', () => {
       ChatController.removeHandlers();
@@ -373,10 +1292,40 @@ describe('ChatController', () => {
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-get');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-get-all');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-name');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-system-prompt');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-knowledge-base');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-pinned');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-archived');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-archived-many');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-update-tags');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-move-to-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-get-folders');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-create-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-rename-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-delete-folder');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-delete');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-delete-many');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-send-message');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-stop-generation');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-respond-tool-call');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-regenerate');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-edit-message');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-pick-attachments');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-read-attachments');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-switch-branch');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-search');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-export');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-export-many');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-import');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-get-messages');
       expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-get-message-count');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-suggest-title');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-encryption-status');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-unlock');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-lock');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-enable-encryption');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-change-passphrase');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('chat-disable-encryption');
     });
   });
 
@@ -402,14 +1351,13 @@ describe('ChatController', () => {
       const message = 'Hello world test';
       await streamMessage(mockWindow, message, 1, 1);
 
-      // Should send for each word + final done message
-      expect(mockWindow.webContents.send).toHaveBeenCalledTimes(4);
-      expect(mockWindow.webContents.send).toHaveBeenLastCalledWith('chat-message-stream', {
-        chatId: 1,
-        messageId: 1,
-        content: 'Hello world test',
-        done: true,
-      });
+      // Should send a delta for each word + final done message
+      expect((mockWindow.webContents.send as jest.Mock).mock.calls.map(([, event]) => event)).toEqual([
+        { chatId: 1, messageId: 1, seq: 0, delta: 'Hello', done: false },
+        { chatId: 1, messageId: 1, seq: 1, delta: ' world', done: false },
+        { chatId: 1, messageId: 1, seq: 2, delta: ' test', done: false },
+        { chatId: 1, messageId: 1, seq: 3, delta: '', done: true, content: 'Hello world test', stats: null },
+      ]);
     });
 
     it('should do nothing if window is null', async () => {
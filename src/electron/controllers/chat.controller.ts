@@ -1,16 +1,205 @@
-import { ipcMain, BrowserWindow } from 'electron';
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import { chatService } from '../services/chat.service';
+import { migrationService } from '../services/migration.service';
+import type {
+  AttachmentRecord,
+  ChatWithMessages,
+  GenerationStats,
+  MessageBranchRecord,
+  MessageRecord,
+  ToolCallRecord,
+} from '../services/chat.service';
+import { parseToolCall } from '../services/chat.service.helpers';
+import {
+  buildTitlePrompt,
+  CHAT_TITLE_SCHEMA,
+  cleanTitle,
+  getFallbackTitle,
+  getTitleExchanges,
+} from '../services/chat.naming';
+import {
+  buildSummaryPrompt,
+  countMessageTokens,
+  formatSummaryMessage,
+  getLatestSummaryIndex,
+  getSummarizedCount,
+  SUMMARY_CHUNK_RATIO,
+} from '../services/chat.summary';
+import { CHAT_EXPORT_EXTENSIONS, exportChat, parseChatJson } from '../services/chat.export';
+import type { ChatExportFormat } from '../services/chat.export';
+import {
+  ATTACHMENT_EXTENSIONS,
+  fitAttachmentsToBudget,
+  formatMessageWithAttachments,
+  getAttachmentTokenBudget,
+} from '../services/attachment.helpers';
+import type { AttachmentDraft, FittedAttachment } from '../services/attachment.helpers';
+import { readAttachments } from '../services/attachment.reader';
+import { formatKnowledgePrompt } from '../services/knowledge.helpers';
+import type { KnowledgeSource } from '../services/knowledge.helpers';
+import type { ChatFunction, ChatHistoryMessage, ChatGenerationOptions, GenerationUsage } from '../services/llm.service';
+import { getErrorMessage, getHistoryTokenBudget } from '../services/llm.service.helpers';
+import { toolRegistry } from '../services/tool.registry';
+import type { ToolDefinition } from '../services/tool.registry';
+import { getToolParamsError } from '../services/tool.helpers';
+import { retrieveKnowledge } from './knowledge.controller';
+import { getLocaleOrDefault } from '../main.helpers';
 
-let llmServicePromise: Promise<any> | null = null;
+let inferenceServicePromise: Promise<any> | null = null;
 
-async function getLLMService() {
-  if (!llmServicePromise) {
-    llmServicePromise = (async () => {
-      const { getLLMService: getService } = await import('../services/llm.service');
+async function getInferenceService() {
+  if (!inferenceServicePromise) {
+    inferenceServicePromise = (async () => {
+      const { getInferenceService: getService } = await import('../services/inference.service');
       return getService();
     })();
   }
-  return llmServicePromise;
+  return inferenceServicePromise;
+}
+
+// Abort controllers of the generations currently running, keyed by chat id
+const activeGenerations = new Map<number, AbortController>();
+
+/**
+ * Stop the generation running for a chat.
+ * Returns false when the chat has no generation in progress.
+ */
+export function stopGeneration(chatId: number): boolean {
+  const abortController = activeGenerations.get(chatId);
+  if (!abortController) return false;
+
+  abortController.abort();
+  return true;
+}
+
+/**
+ * A tool call waiting for the user's confirmation, sent to the renderer
+ */
+export interface ToolCallRequest {
+  chatId: number;
+  messageId: number; // The reply being generated
+  callId: string;
+  name: string;
+  description: string;
+  params: unknown;
+}
+
+// Result given to the model when the user refuses a tool call
+export const TOOL_CALL_DENIED_RESULT = 'The user denied this tool call.';
+
+// Tool calls waiting for the user's answer, keyed by call id
+const pendingToolCalls = new Map<string, (approved: boolean) => void>();
+
+/**
+ * Answer a pending tool call.
+ * Returns false when the call is unknown or was already answered.
+ */
+export function respondToToolCall(callId: string, approved: boolean): boolean {
+  const resolve = pendingToolCalls.get(callId);
+  if (!resolve) return false;
+
+  pendingToolCalls.delete(callId);
+  resolve(approved);
+  return true;
+}
+
+/**
+ * Ask the user to confirm a tool call.
+ * Resolves to false when there is no window to ask in, or when `signal` is aborted before the user answers.
+ */
+export function requestToolConfirmation(
+  window: BrowserWindow | null,
+  request: Omit<ToolCallRequest, 'callId'>,
+  signal?: AbortSignal
+): Promise<boolean> {
+  if (!window || signal?.aborted) return Promise.resolve(false);
+
+  const callId = crypto.randomUUID();
+  return new Promise((resolve) => {
+    const onAbort = () => respondToToolCall(callId, false);
+    pendingToolCalls.set(callId, (approved) => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(approved);
+    });
+    signal?.addEventListener('abort', onAbort);
+
+    window.webContents.send('chat-tool-call-request', { ...request, callId });
+  });
+}
+
+/**
+ * Run a tool call made by the model while generating `replyId`, once the user confirms it.
+ * The call and its result are stored as a tool message and sent to the renderer.
+ * Denied and failed calls are stored too, and their message is given to the model instead of a result.
+ * Calls with params not matching the tool's schema fail without asking the user.
+ */
+export async function runToolCall(
+  window: BrowserWindow | null,
+  chatId: number,
+  replyId: number,
+  tool: ToolDefinition,
+  params: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const paramsError = getToolParamsError(tool.parameters, params ?? {});
+  const approved = !paramsError && await requestToolConfirmation(window, {
+    chatId,
+    messageId: replyId,
+    name: tool.name,
+    description: tool.description,
+    params: params ?? {},
+  }, signal);
+
+  let result: unknown;
+  let status: ToolCallRecord['status'];
+  if (paramsError) {
+    console.error(`Tool ${tool.name} was called with invalid params:`, paramsError);
+    result = `The tool failed: ${paramsError}`;
+    status = 'failed';
+  } else if (!approved) {
+    result = TOOL_CALL_DENIED_RESULT;
+    status = 'denied';
+  } else {
+    try {
+      result = await tool.execute((params ?? {}) as Record<string, unknown>);
+      status = 'completed';
+    } catch (error) {
+      console.error(`Tool ${tool.name} failed:`, error);
+      result = `The tool failed: ${getErrorMessage(error)}`;
+      status = 'failed';
+    }
+  }
+
+  const content = typeof result === 'string' ? result : JSON.stringify(result);
+  const toolMessage = await chatService.createToolMessage(replyId, content, {
+    name: tool.name,
+    params: params ?? {},
+    status,
+  });
+  if (window) {
+    window.webContents.send('chat-tool-message', { chatId, messageId: replyId, toolMessage });
+  }
+
+  return result;
+}
+
+/**
+ * Expose the registered tools to the model for the reply `replyId`
+ */
+export function createToolFunctions(
+  window: BrowserWindow | null,
+  chatId: number,
+  replyId: number,
+  signal?: AbortSignal
+): Record<string, ChatFunction> {
+  return Object.fromEntries(toolRegistry.list().map((tool) => [tool.name, {
+    description: tool.description,
+    params: tool.parameters,
+    handler: (params: unknown) => runToolCall(window, chatId, replyId, tool, params, signal),
+  }]));
 }
 
 /**
@@ -25,6 +214,36 @@ export function generateLoremIpsum(): string {
   return words.join(' ') + '.';
 }
 
+/**
+ * A piece of a reply streamed to the renderer. The events of a message are numbered from 0
+ * so the renderer can put the deltas back in order. The last one has `done` set and carries
+ * the full text, for listeners that missed the start, and the generation stats.
+ */
+export interface MessageStreamEvent {
+  chatId: number;
+  messageId: number;
+  seq: number;
+  delta: string;
+  done: boolean;
+  content?: string; // Final event only
+  stats?: GenerationStats | null; // Final event only, null when the reply was not generated by a model
+}
+
+/**
+ * Send the reply `messageId` to the renderer as numbered deltas
+ */
+export function createMessageStream(window: BrowserWindow | null, chatId: number, messageId: number) {
+  let seq = 0;
+  const send = (event: Pick<MessageStreamEvent, 'delta' | 'done' | 'content' | 'stats'>) => {
+    window?.webContents.send('chat-message-stream', { chatId, messageId, seq: seq++, ...event });
+  };
+
+  return {
+    delta: (delta: string) => send({ delta, done: false }),
+    end: (content: string, stats: GenerationStats | null = null) => send({ delta: '', done: true, content, stats }),
+  };
+}
+
 /**
  * Stream a message word by word to the renderer process
  */
@@ -36,117 +255,394 @@ export async function streamMessage(
 ): Promise<void> {
   if (!window) return;
 
+  const stream = createMessageStream(window, chatId, messageId);
   const words = message.split(' ');
-  let accumulated = '';
 
-  for (const word of words) {
-    accumulated += (accumulated ? ' ' : '') + word;
-    window.webContents.send('chat-message-stream', {
-      chatId,
-      messageId,
-      content: accumulated,
-      done: false,
-    });
+  for (const [index, word] of words.entries()) {
+    stream.delta(index === 0 ? word : ` ${word}`);
 
     // Small delay to simulate streaming
     await new Promise((resolve) => setTimeout(resolve, 50));
   }
 
   // Send final message indicating completion
-  window.webContents.send('chat-message-stream', {
-    chatId,
-    messageId,
-    content: accumulated,
-    done: true,
-  });
+  stream.end(message);
 }
 
 /**
- * Generate response using LLM with streaming
+ * Compute the stats of a reply from the usage reported by the provider and its timing, in ms.
+ * The speed only counts the time spent producing tokens, after the prompt was processed.
+ */
+export function getGenerationStats(
+  usage: GenerationUsage,
+  startedAt: number,
+  firstTokenAt: number | null,
+  finishedAt: number
+): GenerationStats {
+  const generationSeconds = firstTokenAt === null ? 0 : (finishedAt - firstTokenAt) / 1000;
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    timeToFirstTokenMs: firstTokenAt === null ? null : firstTokenAt - startedAt,
+    tokensPerSecond: generationSeconds > 0 ? usage.completionTokens / generationSeconds : null,
+  };
+}
+
+/**
+ * Build the conversation history sent to the model from stored messages.
+ * Empty messages (e.g. placeholders of failed generations) are skipped.
+ * The text of each attachment goes into the message it was sent with.
+ */
+export function buildChatHistory(
+  messages: MessageRecord[],
+  attachments: FittedAttachment<AttachmentRecord>[] = []
+): ChatHistoryMessage[] {
+  return messages
+    .filter((message) => message.content.trim() !== '')
+    .map((message) => (message.role === 'tool'
+      ? { role: message.role, content: message.content, toolCall: parseToolCall(message.toolCall) }
+      : {
+        role: message.role,
+        content: formatMessageWithAttachments(
+          message.content,
+          attachments.filter((attachment) => attachment.messageId === message.id)
+        ),
+      }));
+}
+
+/**
+ * Build the history of a branch along with the files attached to its messages,
+ * fitted in the share of the loaded model's context left to attachments.
+ * The messages covered by the latest summary of the branch are replaced by it.
+ */
+export async function buildBranchHistory(branch: MessageRecord[]): Promise<ChatHistoryMessage[]> {
+  const summaryIndex = getLatestSummaryIndex(branch);
+  const summary: ChatHistoryMessage[] = summaryIndex === -1
+    ? []
+    : [{ role: 'user', content: formatSummaryMessage(branch[summaryIndex].summary!) }];
+  const messages = branch.slice(summaryIndex + 1);
+
+  const attachments = await chatService.getAttachments(messages.map((message) => message.id));
+  if (attachments.length === 0) {
+    return [...summary, ...buildChatHistory(messages)];
+  }
+
+  const inferenceService = await getInferenceService();
+  // Without a model the reply is placeholder text, which does not read the history
+  if (!inferenceService.isModelLoaded()) {
+    return [...summary, ...buildChatHistory(messages)];
+  }
+
+  const budget = getAttachmentTokenBudget(inferenceService.getConfig().contextSize);
+  const fitted = fitAttachmentsToBudget(attachments, (text: string) => inferenceService.countTokens(text), budget);
+  return [...summary, ...buildChatHistory(messages, fitted)];
+}
+
+/**
+ * Condense the oldest messages of a branch into a summary once the branch no longer fits
+ * in the loaded model's context. The summary is stored with the last message it covers and
+ * folds in the summary before it, the messages themselves are kept.
+ * Failures are logged and the reply is generated from the summaries stored so far,
+ * the model then only reads the latest messages that fit.
+ */
+export async function summarizeOlderMessages(
+  branch: MessageBranchRecord[],
+  systemPrompt: string | null = null
+): Promise<{ branch: MessageBranchRecord[]; summarized: boolean }> {
+  let summarizedBranch = branch;
+  let summarized = false;
+
+  try {
+    const inferenceService = await getInferenceService();
+    // Without a model the reply is placeholder text, which does not read the history
+    if (!inferenceService.isModelLoaded()) {
+      return { branch, summarized };
+    }
+
+    const { contextSize } = inferenceService.getConfig();
+    // Messages are counted again after each summary, their counts are kept
+    const tokenCounts = new Map<string, number>();
+    const countTokens = (text: string): number => {
+      if (!tokenCounts.has(text)) tokenCounts.set(text, inferenceService.countTokens(text));
+      return tokenCounts.get(text)!;
+    };
+    const historyBudget = getHistoryTokenBudget(contextSize) - (systemPrompt ? countTokens(systemPrompt) : 0);
+    const chunkBudget = Math.floor(historyBudget * SUMMARY_CHUNK_RATIO);
+
+    for (;;) {
+      const summaryIndex = getLatestSummaryIndex(summarizedBranch);
+      const previousSummary = summaryIndex === -1 ? null : summarizedBranch[summaryIndex].summary;
+      const messages = summarizedBranch.slice(summaryIndex + 1);
+
+      // Attached files get their own share of the context
+      const budget = historyBudget
+        - (previousSummary ? countMessageTokens(formatSummaryMessage(previousSummary), countTokens) : 0)
+        - (messages.some((message) => message.attachments?.length) ? getAttachmentTokenBudget(contextSize) : 0);
+      const usedTokens = messages.reduce((total, message) => total + countMessageTokens(message.content, countTokens), 0);
+      if (usedTokens <= budget) break;
+
+      const count = getSummarizedCount(messages, countTokens, chunkBudget);
+      if (count === 0) break;
+
+      const summary = (await inferenceService.generateResponse(
+        buildSummaryPrompt(previousSummary, messages.slice(0, count))
+      )).trim();
+      if (!summary) break;
+
+      const lastMessage = messages[count - 1];
+      await chatService.updateMessageSummary(lastMessage.id, summary);
+      summarizedBranch = summarizedBranch.map((message) => (message.id === lastMessage.id ? { ...message, summary } : message));
+      summarized = true;
+      console.log(`Chat ${lastMessage.chatId}: summarized ${count} older messages to fit the context window`);
+    }
+  } catch (error) {
+    console.error('Failed to summarize older messages:', error);
+  }
+
+  return { branch: summarizedBranch, summarized };
+}
+
+/**
+ * Find the knowledge base excerpts to answer `question` with.
+ * Retrieval failures are logged and the reply is generated without excerpts.
+ */
+export async function findKnowledgeSources(question: string): Promise<KnowledgeSource[]> {
+  try {
+    const inferenceService = await getInferenceService();
+    // Without a model the reply is placeholder text, which cites nothing
+    if (!inferenceService.isModelLoaded()) {
+      return [];
+    }
+
+    return await retrieveKnowledge(question);
+  } catch (error) {
+    console.error('Failed to search the knowledge base:', error);
+    return [];
+  }
+}
+
+/**
+ * Give the excerpts to the model along with the last message of the history, the user prompt
+ */
+export function addKnowledgeToHistory(history: ChatHistoryMessage[], sources: KnowledgeSource[]): ChatHistoryMessage[] {
+  const lastMessage = history[history.length - 1];
+  if (sources.length === 0 || !lastMessage) {
+    return history;
+  }
+
+  return [...history.slice(0, -1), { ...lastMessage, content: formatKnowledgePrompt(lastMessage.content, sources) }];
+}
+
+/**
+ * A reply generated for a chat, with its stats when a model generated it
+ */
+export interface GeneratedReply {
+  content: string;
+  stats: GenerationStats | null;
+}
+
+/**
+ * Generate response using LLM with streaming.
+ * When `options.signal` is aborted the text streamed so far is returned.
  */
 export async function generateLLMResponse(
   window: BrowserWindow | null,
-  prompt: string,
+  history: ChatHistoryMessage[],
   chatId: number,
-  messageId: number
-): Promise<string> {
+  messageId: number,
+  options: ChatGenerationOptions = {}
+): Promise<GeneratedReply> {
+  const stream = createMessageStream(window, chatId, messageId);
+  let fullResponse = '';
+  let usage: GenerationUsage | null = null;
+  const startedAt = Date.now();
+  let firstTokenAt: number | null = null;
+
+  const getStats = () => (usage ? getGenerationStats(usage, startedAt, firstTokenAt, Date.now()) : null);
+
   try {
-    const llmService = await getLLMService();
+    const inferenceService = await getInferenceService();
 
     // Check if model is loaded
-    if (!llmService.isModelLoaded()) {
+    if (!inferenceService.isModelLoaded()) {
       console.log('No LLM model loaded, falling back to Lorem Ipsum');
-      return generateLoremIpsum();
+      return { content: generateLoremIpsum(), stats: null };
     }
 
-    let fullResponse = '';
-
-    // Generate with streaming
-    const response = await llmService.generateResponse(prompt, (token: string) => {
+    // Generate with streaming, only the new text is sent
+    const response = await inferenceService.generateChatResponse(chatId, history, (token: string) => {
+      if (firstTokenAt === null) firstTokenAt = Date.now();
       fullResponse += token;
-      if (window) {
-        window.webContents.send('chat-message-stream', {
-          chatId,
-          messageId,
-          content: fullResponse,
-          done: false,
-        });
-      }
+      stream.delta(token);
+    }, {
+      ...options,
+      onUsage: (reported: GenerationUsage) => {
+        usage = reported;
+      },
     });
 
     // Send final message
-    if (window) {
-      window.webContents.send('chat-message-stream', {
-        chatId,
-        messageId,
-        content: response,
-        done: true,
-      });
-    }
+    const stats = getStats();
+    stream.end(response, stats);
 
-    return response;
+    return { content: response, stats };
   } catch (error) {
+    // Aborting before the first token rejects instead of resolving with partial text
+    if (options.signal?.aborted) {
+      const stats = getStats();
+      stream.end(fullResponse, stats);
+      return { content: fullResponse, stats };
+    }
+
     console.error('LLM generation failed, falling back to Lorem Ipsum:', error);
-    return generateLoremIpsum();
+    return { content: generateLoremIpsum(), stats: null };
   }
 }
 
 /**
- * Generate a chat title using LLM based on conversation context
+ * Generate a chat title summarizing the first exchanges of a branch, in the UI language `locale`.
+ * Returns null when the branch has no user message to name the chat after.
  */
-export async function generateChatTitle(userMessage: string, assistantResponse: string): Promise<string> {
+export async function generateChatTitle(messages: MessageRecord[], locale: string): Promise<string | null> {
+  const exchanges = getTitleExchanges(messages);
+  if (exchanges.length === 0) {
+    return null;
+  }
+
   try {
-    const llmService = await getLLMService();
+    const inferenceService = await getInferenceService();
 
     // Check if model is loaded
-    if (!llmService.isModelLoaded()) {
+    if (!inferenceService.isModelLoaded()) {
       console.log('No LLM model loaded, using default title');
-      return `Chat about ${userMessage.substring(0, 30)}...`;
+      return getFallbackTitle(exchanges, locale);
     }
 
-    // Create a prompt to generate a short title
-    const titlePrompt = `Generate a very short title (3-5 words maximum) for this conversation. Only respond with the title, nothing else.
+    const { title }: { title: string } = await inferenceService.generateStructured(
+      buildTitlePrompt(exchanges, locale),
+      CHAT_TITLE_SCHEMA
+    );
+
+    return cleanTitle(title) || getFallbackTitle(exchanges, locale);
+  } catch (error) {
+    console.error('Failed to generate chat title:', error);
+    return getFallbackTitle(exchanges, locale);
+  }
+}
+
+/**
+ * Name a chat after its first exchanges. Resolves false when it was not renamed,
+ * e.g. when the user named it while the title was generated.
+ */
+export async function autoNameChat(window: BrowserWindow | null, chatId: number): Promise<boolean> {
+  const title = await generateChatTitle(await chatService.getMessages(chatId), await getLocaleOrDefault(window));
+  if (!title) {
+    return false;
+  }
 
-User: ${userMessage}
-Assistant: ${assistantResponse}
+  const chat = await chatService.updateChatName(chatId, title, false);
+  return !chat.nameSetByUser;
+}
 
-Title:`;
+/**
+ * Generate an assistant reply as a child of `parentMessage` and store it.
+ * `branch` is the conversation to replay, ending with the user prompt. Its older
+ * messages are summarized first when it no longer fits in the context.
+ * In chats using the knowledge base, the excerpts found for the prompt are given
+ * to the model and stored with the reply as its sources.
+ * The chat is auto-named once it has enough messages.
+ */
+export async function replyToMessage(
+  window: BrowserWindow | null,
+  chatId: number,
+  parentMessage: MessageRecord,
+  branch: MessageBranchRecord[]
+): Promise<{ assistantMessage: MessageRecord; autoNamed: boolean; summarized: boolean }> {
+  const chat = await chatService.getChat(chatId);
+  const { branch: summarizedBranch, summarized } = await summarizeOlderMessages(branch, chat?.systemPrompt ?? null);
+  const history = await buildBranchHistory(summarizedBranch);
+  const sources = chat?.knowledgeBase ? await findKnowledgeSources(parentMessage.content) : [];
 
-    // Generate title without streaming
-    const title = await llmService.generateResponse(titlePrompt);
+  // Create a placeholder assistant message
+  const assistantMessage = await chatService.createMessage({
+    chatId,
+    content: '',
+    role: 'assistant',
+    parentId: parentMessage.id,
+    sources,
+  });
 
-    // Clean up the title - remove quotes, trim, limit length
-    const cleanTitle = title
-      .replace(/^["']|["']$/g, '')  // Remove surrounding quotes
-      .trim()
-      .split('\n')[0]  // Take only first line
-      .substring(0, 50);  // Limit to 50 characters
+  // Generate assistant response with LLM (or fallback to Lorem Ipsum)
+  const abortController = new AbortController();
+  activeGenerations.set(chatId, abortController);
 
-    return cleanTitle || `Chat about ${userMessage.substring(0, 30)}...`;
-  } catch (error) {
-    console.error('Failed to generate chat title:', error);
-    return `Chat about ${userMessage.substring(0, 30)}...`;
+  let reply: GeneratedReply;
+  try {
+    reply = await generateLLMResponse(
+      window,
+      addKnowledgeToHistory(history, sources),
+      chatId,
+      assistantMessage.id,
+      {
+        systemPrompt: chat?.systemPrompt,
+        signal: abortController.signal,
+        functions: createToolFunctions(window, chatId, assistantMessage.id, abortController.signal),
+      }
+    );
+  } finally {
+    // A newer generation of the chat may have replaced this one
+    if (activeGenerations.get(chatId) === abortController) {
+      activeGenerations.delete(chatId);
+    }
+  }
+  const interrupted = abortController.signal.aborted;
+  const { content: assistantResponse, stats } = reply;
+
+  // Update the assistant message with the full (or partial) response
+  await chatService.updateMessage(assistantMessage.id, assistantResponse, interrupted, stats);
+
+  // Check if we should auto-name the chat
+  const autoNamed = await chatService.shouldAutoNameChat(chatId) && await autoNameChat(window, chatId);
+
+  return {
+    assistantMessage: { ...assistantMessage, content: assistantResponse, interrupted, ...stats },
+    autoNamed,
+    summarized,
+  };
+}
+
+/**
+ * Build a file name for an exported chat from its name
+ */
+export function getExportFileName(chatName: string, format: ChatExportFormat): string {
+  const baseName = chatName.replace(/[<>:"/\\|?*\x00-\x1f]/g, '').trim() || 'chat';
+  return `${baseName}.${CHAT_EXPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * The attachments written in an export, with their text. Only JSON exports hold them.
+ */
+async function getExportAttachments(chat: ChatWithMessages, format: ChatExportFormat): Promise<AttachmentRecord[]> {
+  if (format !== 'json' || chat.messages.length === 0) {
+    return [];
+  }
+  return chatService.getAttachments(chat.messages.map((message) => message.id));
+}
+
+/**
+ * Build an export file name not already in use, numbering chats with the same name
+ */
+export function getUniqueExportFileName(chatName: string, format: ChatExportFormat, usedNames: Set<string>): string {
+  const fileName = getExportFileName(chatName, format);
+  const extension = `.${CHAT_EXPORT_EXTENSIONS[format]}`;
+  const baseName = fileName.slice(0, -extension.length);
+
+  let candidate = fileName;
+  for (let copy = 2; usedNames.has(candidate.toLowerCase()); copy++) {
+    candidate = `${baseName} (${copy})${extension}`;
   }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
 }
 
 /**
@@ -205,6 +701,127 @@ export class ChatController {
       }
     });
 
+    // Suggest a title from the first exchanges of a chat, without renaming it; null for a chat without messages
+    ipcMain.handle('chat-suggest-title', async (event, chatId: number) => {
+      try {
+        const messages = await chatService.getMessages(chatId);
+        return await generateChatTitle(messages, await getLocaleOrDefault(BrowserWindow.fromWebContents(event.sender)));
+      } catch (error) {
+        console.error('Failed to suggest chat title:', error);
+        throw error;
+      }
+    });
+
+    // Update chat system prompt (null restores the model's default)
+    ipcMain.handle('chat-update-system-prompt', async (_event, chatId: number, systemPrompt: string | null) => {
+      try {
+        return await chatService.updateChatSystemPrompt(chatId, systemPrompt);
+      } catch (error) {
+        console.error('Failed to update chat system prompt:', error);
+        throw error;
+      }
+    });
+
+    // Ground the replies of a chat in the knowledge base, or stop doing so
+    ipcMain.handle('chat-update-knowledge-base', async (_event, chatId: number, enabled: boolean) => {
+      try {
+        return await chatService.updateChatKnowledgeBase(chatId, enabled);
+      } catch (error) {
+        console.error('Failed to update chat knowledge base:', error);
+        throw error;
+      }
+    });
+
+    // Pin a chat above the others, or unpin it
+    ipcMain.handle('chat-update-pinned', async (_event, chatId: number, pinned: boolean) => {
+      try {
+        return await chatService.updateChatPinned(chatId, pinned);
+      } catch (error) {
+        console.error('Failed to update chat pinned state:', error);
+        throw error;
+      }
+    });
+
+    // Archive a chat, hiding it from the sidebar, or restore it
+    ipcMain.handle('chat-update-archived', async (_event, chatId: number, archived: boolean) => {
+      try {
+        return await chatService.updateChatArchived(chatId, archived);
+      } catch (error) {
+        console.error('Failed to update chat archived state:', error);
+        throw error;
+      }
+    });
+
+    // Archive or restore several chats at once
+    ipcMain.handle('chat-update-archived-many', async (_event, chatIds: number[], archived: boolean) => {
+      try {
+        return await chatService.updateChatsArchived(chatIds, archived);
+      } catch (error) {
+        console.error('Failed to update chats archived state:', error);
+        throw error;
+      }
+    });
+
+    // Replace the tags of a chat
+    ipcMain.handle('chat-update-tags', async (_event, chatId: number, tags: string[]) => {
+      try {
+        return await chatService.updateChatTags(chatId, tags);
+      } catch (error) {
+        console.error('Failed to update chat tags:', error);
+        throw error;
+      }
+    });
+
+    // Move a chat to a folder, or out of any folder with null
+    ipcMain.handle('chat-move-to-folder', async (_event, chatId: number, folderId: number | null) => {
+      try {
+        return await chatService.moveChatToFolder(chatId, folderId);
+      } catch (error) {
+        console.error('Failed to move chat to folder:', error);
+        throw error;
+      }
+    });
+
+    // Get the chat folders
+    ipcMain.handle('chat-get-folders', async () => {
+      try {
+        return await chatService.getFolders();
+      } catch (error) {
+        console.error('Failed to get chat folders:', error);
+        throw error;
+      }
+    });
+
+    // Create a chat folder
+    ipcMain.handle('chat-create-folder', async (_event, name: string) => {
+      try {
+        return await chatService.createFolder(name);
+      } catch (error) {
+        console.error('Failed to create chat folder:', error);
+        throw error;
+      }
+    });
+
+    // Rename a chat folder
+    ipcMain.handle('chat-rename-folder', async (_event, folderId: number, name: string) => {
+      try {
+        return await chatService.renameFolder(folderId, name);
+      } catch (error) {
+        console.error('Failed to rename chat folder:', error);
+        throw error;
+      }
+    });
+
+    // Delete a chat folder, its chats are kept outside of any folder
+    ipcMain.handle('chat-delete-folder', async (_event, folderId: number) => {
+      try {
+        await chatService.deleteFolder(folderId);
+      } catch (error) {
+        console.error('Failed to delete chat folder:', error);
+        throw error;
+      }
+    });
+
     // Delete chat
     ipcMain.handle('chat-delete', async (_event, chatId: number) => {
       try {
@@ -215,52 +832,267 @@ export class ChatController {
       }
     });
 
+    // Delete several chats at once
+    ipcMain.handle('chat-delete-many', async (_event, chatIds: number[]) => {
+      try {
+        await chatService.deleteChats(chatIds);
+      } catch (error) {
+        console.error('Failed to delete chats:', error);
+        throw error;
+      }
+    });
+
     // Send a message (user message + streamed assistant response)
-    ipcMain.handle('chat-send-message', async (event, chatId: number, content: string) => {
+    ipcMain.handle('chat-send-message', async (
+      event,
+      chatId: number,
+      content: string,
+      attachments: AttachmentDraft[] = []
+    ) => {
       try {
-        // Save user message
+        // Save user message along with its attached files
         const userMessage = await chatService.createMessage({
           chatId,
           content,
           role: 'user',
+          attachments,
         });
 
-        // Get the sender window
+        // Replay the active branch, which now ends with the new user message
+        const branch = await chatService.getMessages(chatId);
         const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        const reply = await replyToMessage(senderWindow, chatId, userMessage, branch);
 
-        // Create a placeholder assistant message
-        const assistantMessage = await chatService.createMessage({
-          chatId,
-          content: '',
-          role: 'assistant',
-        });
+        return { userMessage, ...reply };
+      } catch (error) {
+        console.error('Failed to send message:', error);
+        throw error;
+      }
+    });
 
-        // Generate assistant response with LLM (or fallback to Lorem Ipsum)
-        const assistantResponse = await generateLLMResponse(
+    // Regenerate the last assistant reply, keeping the previous one as a sibling branch
+    ipcMain.handle('chat-regenerate', async (event, chatId: number) => {
+      try {
+        const branch = await chatService.getMessages(chatId);
+        const lastMessage = branch[branch.length - 1];
+        // Tool calls made for the reply are made again along with it
+        const userIndex = branch.map((message) => message.role).lastIndexOf('user');
+
+        if (!lastMessage || lastMessage.role !== 'assistant' || userIndex === -1) {
+          throw new Error(`Chat ${chatId} has no assistant reply to regenerate`);
+        }
+
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        return await replyToMessage(
           senderWindow,
-          content,
           chatId,
-          assistantMessage.id
+          branch[userIndex],
+          branch.slice(0, userIndex + 1)
         );
+      } catch (error) {
+        console.error('Failed to regenerate message:', error);
+        throw error;
+      }
+    });
+
+    // Edit an earlier user message: the new version becomes a sibling branch and is answered
+    ipcMain.handle('chat-edit-message', async (event, chatId: number, messageId: number, content: string) => {
+      try {
+        const original = await chatService.getMessage(messageId);
+        if (!original || original.chatId !== chatId || original.role !== 'user') {
+          throw new Error(`Message ${messageId} is not a user message of chat ${chatId}`);
+        }
 
-        // Update the assistant message with the full response
-        await chatService.updateMessage(assistantMessage.id, assistantResponse);
+        // The new version keeps the files attached to the original
+        const attachments = await chatService.getAttachments([original.id]);
+        const userMessage = await chatService.createMessage({
+          chatId,
+          content,
+          role: 'user',
+          parentId: original.parentId,
+          attachments: attachments.map(({ name, kind, size, content: text }) => ({ name, kind, size, content: text })),
+        });
 
-        // Check if we should auto-name the chat
-        const shouldAutoName = await chatService.shouldAutoNameChat(chatId);
-        if (shouldAutoName) {
-          // Generate a title using the LLM
-          const generatedTitle = await generateChatTitle(content, assistantResponse);
-          await chatService.updateChatName(chatId, generatedTitle);
+        const branch = await chatService.getMessages(chatId);
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        const reply = await replyToMessage(senderWindow, chatId, userMessage, branch);
+
+        return { userMessage, ...reply };
+      } catch (error) {
+        console.error('Failed to edit message:', error);
+        throw error;
+      }
+    });
+
+    // Choose files to attach to a message; returns the files read, or null if canceled
+    ipcMain.handle('chat-pick-attachments', async (event) => {
+      try {
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const result = await dialog.showOpenDialog(senderWindow, {
+          properties: ['openFile', 'multiSelections'],
+          filters: [{ name: 'Documents', extensions: Object.values(ATTACHMENT_EXTENSIONS).flat() }],
+        }) as unknown as { canceled: boolean; filePaths: string[] };
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return null;
         }
 
-        return {
-          userMessage,
-          assistantMessage: { ...assistantMessage, content: assistantResponse },
-          autoNamed: shouldAutoName,
-        };
+        return await readAttachments(result.filePaths);
       } catch (error) {
-        console.error('Failed to send message:', error);
+        console.error('Failed to pick attachments:', error);
+        throw error;
+      }
+    });
+
+    // Read files dropped on the chat to attach them to a message.
+    // The preload script only sends the paths of files the user dropped.
+    ipcMain.handle('chat-read-attachments', async (_event, filePaths: string[]) => {
+      try {
+        if (!Array.isArray(filePaths) || !filePaths.every((filePath) => typeof filePath === 'string' && path.isAbsolute(filePath))) {
+          throw new Error('Invalid file paths');
+        }
+        return await readAttachments(filePaths);
+      } catch (error) {
+        console.error('Failed to read attachments:', error);
+        throw error;
+      }
+    });
+
+    // Show another branch of the message tree
+    ipcMain.handle('chat-switch-branch', async (_event, chatId: number, messageId: number) => {
+      try {
+        return await chatService.switchBranch(chatId, messageId);
+      } catch (error) {
+        console.error('Failed to switch branch:', error);
+        throw error;
+      }
+    });
+
+    // Stop the response being generated for a chat
+    ipcMain.handle('chat-stop-generation', async (_event, chatId: number) => {
+      try {
+        return stopGeneration(chatId);
+      } catch (error) {
+        console.error('Failed to stop generation:', error);
+        throw error;
+      }
+    });
+
+    // Answer a tool call the model asked to make
+    ipcMain.handle('chat-respond-tool-call', async (_event, callId: string, approved: boolean) => {
+      try {
+        return respondToToolCall(callId, approved);
+      } catch (error) {
+        console.error('Failed to respond to tool call:', error);
+        throw error;
+      }
+    });
+
+    // Full-text search across chat names and messages
+    ipcMain.handle('chat-search', async (_event, query: string) => {
+      try {
+        return await chatService.searchChats(query);
+      } catch (error) {
+        console.error('Failed to search chats:', error);
+        throw error;
+      }
+    });
+
+    // Export a chat to a file chosen by the user; returns the file path, or null if canceled
+    ipcMain.handle('chat-export', async (event, chatId: number, format: ChatExportFormat) => {
+      try {
+        const chat = await chatService.getChat(chatId);
+        if (!chat) {
+          throw new Error(`Chat ${chatId} not found`);
+        }
+
+        const content = exportChat(chat, format, await getExportAttachments(chat, format));
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const extension = CHAT_EXPORT_EXTENSIONS[format];
+        const result = await dialog.showSaveDialog(senderWindow, {
+          defaultPath: getExportFileName(chat.name, format),
+          filters: [{ name: format.toUpperCase(), extensions: [extension] }],
+        }) as unknown as { canceled: boolean; filePath?: string };
+
+        if (result.canceled || !result.filePath) {
+          return null;
+        }
+
+        await fs.promises.writeFile(result.filePath, content, 'utf-8');
+        return result.filePath;
+      } catch (error) {
+        console.error('Failed to export chat:', error);
+        throw error;
+      }
+    });
+
+    // Export several chats, one file each, to a folder chosen by the user; returns the folder, or null if canceled
+    ipcMain.handle('chat-export-many', async (event, chatIds: number[], format: ChatExportFormat) => {
+      try {
+        const chats = await Promise.all(chatIds.map(async (chatId) => {
+          const chat = await chatService.getChat(chatId);
+          if (!chat) {
+            throw new Error(`Chat ${chatId} not found`);
+          }
+          return chat;
+        }));
+
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const result = await dialog.showOpenDialog(senderWindow, {
+          properties: ['openDirectory', 'createDirectory'],
+        }) as unknown as { canceled: boolean; filePaths: string[] };
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return null;
+        }
+
+        const directory = result.filePaths[0];
+        const usedNames = new Set((await fs.promises.readdir(directory)).map((name) => name.toLowerCase()));
+        for (const chat of chats) {
+          const fileName = getUniqueExportFileName(chat.name, format, usedNames);
+          const content = exportChat(chat, format, await getExportAttachments(chat, format));
+          await fs.promises.writeFile(path.join(directory, fileName), content, 'utf-8');
+        }
+        return directory;
+      } catch (error) {
+        console.error('Failed to export chats:', error);
+        throw error;
+      }
+    });
+
+    // Import a chat from a JSON export chosen by the user; returns the new chat, or null if canceled
+    ipcMain.handle('chat-import', async (event) => {
+      try {
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const result = await dialog.showOpenDialog(senderWindow, {
+          properties: ['openFile'],
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+        }) as unknown as { canceled: boolean; filePaths: string[] };
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return null;
+        }
+
+        const json = await fs.promises.readFile(result.filePaths[0], 'utf-8');
+        return await chatService.importChat(parseChatJson(json));
+      } catch (error) {
+        console.error('Failed to import chat:', error);
         throw error;
       }
     });
@@ -284,6 +1116,68 @@ export class ChatController {
         throw error;
       }
     });
+
+    // Whether the chat history is encrypted and locked
+    ipcMain.handle('chat-encryption-status', async () => {
+      try {
+        await chatService.initialize();
+        return chatService.getEncryptionStatus();
+      } catch (error) {
+        console.error('Failed to get chat encryption status:', error);
+        throw error;
+      }
+    });
+
+    // Unlock the encrypted history; resolves false for a wrong passphrase
+    ipcMain.handle('chat-unlock', async (_event, passphrase: string) => {
+      try {
+        return await chatService.unlock(passphrase);
+      } catch (error) {
+        console.error('Failed to unlock chat history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('chat-lock', async () => {
+      try {
+        chatService.lock();
+      } catch (error) {
+        console.error('Failed to lock chat history:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('chat-enable-encryption', async (_event, passphrase: string) => {
+      try {
+        await chatService.enableEncryption(passphrase);
+        // The copies of the database taken before migrations hold the history in clear
+        const deleted = migrationService.deleteBackups();
+        if (deleted.length > 0) {
+          console.log(`Deleted ${deleted.length} database backup file(s) holding the history in clear`);
+        }
+      } catch (error) {
+        console.error('Failed to enable chat encryption:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('chat-change-passphrase', async (_event, currentPassphrase: string, newPassphrase: string) => {
+      try {
+        await chatService.changePassphrase(currentPassphrase, newPassphrase);
+      } catch (error) {
+        console.error('Failed to change chat passphrase:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('chat-disable-encryption', async (_event, passphrase: string) => {
+      try {
+        await chatService.disableEncryption(passphrase);
+      } catch (error) {
+        console.error('Failed to disable chat encryption:', error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -294,9 +1188,39 @@ export class ChatController {
     ipcMain.removeHandler('chat-get');
     ipcMain.removeHandler('chat-get-all');
     ipcMain.removeHandler('chat-update-name');
+    ipcMain.removeHandler('chat-suggest-title');
+    ipcMain.removeHandler('chat-update-system-prompt');
+    ipcMain.removeHandler('chat-update-knowledge-base');
+    ipcMain.removeHandler('chat-update-pinned');
+    ipcMain.removeHandler('chat-update-archived');
+    ipcMain.removeHandler('chat-update-archived-many');
+    ipcMain.removeHandler('chat-update-tags');
+    ipcMain.removeHandler('chat-move-to-folder');
+    ipcMain.removeHandler('chat-get-folders');
+    ipcMain.removeHandler('chat-create-folder');
+    ipcMain.removeHandler('chat-rename-folder');
+    ipcMain.removeHandler('chat-delete-folder');
     ipcMain.removeHandler('chat-delete');
+    ipcMain.removeHandler('chat-delete-many');
     ipcMain.removeHandler('chat-send-message');
+    ipcMain.removeHandler('chat-stop-generation');
+    ipcMain.removeHandler('chat-respond-tool-call');
+    ipcMain.removeHandler('chat-regenerate');
+    ipcMain.removeHandler('chat-edit-message');
+    ipcMain.removeHandler('chat-pick-attachments');
+    ipcMain.removeHandler('chat-read-attachments');
+    ipcMain.removeHandler('chat-switch-branch');
+    ipcMain.removeHandler('chat-search');
+    ipcMain.removeHandler('chat-export');
+    ipcMain.removeHandler('chat-export-many');
+    ipcMain.removeHandler('chat-import');
     ipcMain.removeHandler('chat-get-messages');
     ipcMain.removeHandler('chat-get-message-count');
+    ipcMain.removeHandler('chat-encryption-status');
+    ipcMain.removeHandler('chat-unlock');
+    ipcMain.removeHandler('chat-lock');
+    ipcMain.removeHandler('chat-enable-encryption');
+    ipcMain.removeHandler('chat-change-passphrase');
+    ipcMain.removeHandler('chat-disable-encryption');
   }
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import { CodeController } from './code.controller';
+import { runCode } from '../services/code.runner';
+import { codeSettingsService } from '../services/code.settings';
+
+// Mock the runner, which starts the child processes
+jest.mock('../services/code.runner', () => ({
+  runCode: jest.fn(),
+}));
+
+// Mock the settings, saved in a file
+jest.mock('../services/code.settings', () => ({
+  codeSettingsService: {
+    getSettings: jest.fn(),
+    updateSettings: jest.fn(),
+  },
+}));
+
+// Mock electron
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: jest.fn(),
+    removeHandler: jest.fn(),
+  },
+  dialog: {
+    showSaveDialog: jest.fn(),
+  },
+  BrowserWindow: {
+    fromWebContents: jest.fn(),
+  },
+}));
+
+describe('CodeController', () => {
+  let handlersMap: Map<string, Function>;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    handlersMap = new Map();
+    (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+      handlersMap.set(channel, handler);
+    });
+    consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (codeSettingsService.getSettings as jest.Mock).mockReturnValue({ allowRun: true });
+    await CodeController.registerHandlers();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('registerHandlers', () => {
+    it('should register all IPC handlers', () => {
+      expect(ipcMain.handle).toHaveBeenCalledWith('code-get-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('code-update-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('code-save', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('code-run', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('removeHandlers', () => {
+    it('should remove all IPC handlers', () => {
+      CodeController.removeHandlers();
+
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('code-get-settings');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('code-update-settings');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('code-save');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('code-run');
+    });
+  });
+
+  describe('code-get-settings', () => {
+    it('should return the saved settings', async () => {
+      const result = await handlersMap.get('code-get-settings')!({});
+
+      expect(result).toEqual({ allowRun: true });
+    });
+  });
+
+  describe('code-update-settings', () => {
+    it('should save the settings', async () => {
+      (codeSettingsService.updateSettings as jest.Mock).mockReturnValue({ allowRun: false });
+
+      const result = await handlersMap.get('code-update-settings')!({}, { allowRun: false });
+
+      expect(codeSettingsService.updateSettings).toHaveBeenCalledWith({ allowRun: false });
+      expect(result).toEqual({ allowRun: false });
+    });
+
+    it('should throw when the settings cannot be saved', async () => {
+      (codeSettingsService.updateSettings as jest.Mock).mockImplementation(() => {
+        throw new Error('EACCES');
+      });
+
+      await expect(handlersMap.get('code-update-settings')!({}, { allowRun: true })).rejects.toThrow('EACCES');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to update code settings:', expect.any(Error));
+    });
+  });
+
+  describe('code-save', () => {
+    let writeFileSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      writeFileSpy = jest.spyOn(fs.promises, 'writeFile').mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue({});
+    });
+
+    afterEach(() => {
+      writeFileSpy.mockRestore();
+    });
+
+    it('should save the code block with the extension of its language', async () => {
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: false, filePath: '/home/user/snippet.py' });
+
+      const result = await handlersMap.get('code-save')!({ sender: {} }, 'print(1)', 'python');
+
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith({}, expect.objectContaining({ defaultPath: 'snippet.py' }));
+      expect(writeFileSpy).toHaveBeenCalledWith('/home/user/snippet.py', 'print(1)', 'utf-8');
+      expect(result).toBe('/home/user/snippet.py');
+    });
+
+    it('should return null when canceled', async () => {
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: true });
+
+      const result = await handlersMap.get('code-save')!({ sender: {} }, 'hello', null);
+
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith({}, expect.objectContaining({ defaultPath: 'snippet.txt' }));
+      expect(writeFileSpy).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should throw without a window', async () => {
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      await expect(handlersMap.get('code-save')!({ sender: {} }, 'hello', 'js')).rejects.toThrow('No window available for dialog');
+    });
+
+    it('should throw when the file cannot be written', async () => {
+      (dialog.showSaveDialog as jest.Mock).mockResolvedValue({ canceled: false, filePath: '/readonly/snippet.js' });
+      writeFileSpy.mockRejectedValue(new Error('EACCES'));
+
+      await expect(handlersMap.get('code-save')!({ sender: {} }, 'hello', 'js')).rejects.toThrow('EACCES');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to save code block:', expect.any(Error));
+    });
+  });
+
+  describe('code-run', () => {
+    it('should run JavaScript and Python code blocks', async () => {
+      const output = { stdout: '2\n', stderr: '', exitCode: 0, timedOut: false, truncated: false, durationMs: 40 };
+      (runCode as jest.Mock).mockResolvedValue(output);
+
+      const result = await handlersMap.get('code-run')!({}, 'js', 'console.log(1 + 1)');
+
+      expect(runCode).toHaveBeenCalledWith('javascript', 'console.log(1 + 1)');
+      expect(result).toBe(output);
+
+      await handlersMap.get('code-run')!({}, 'py', 'print(1 + 1)');
+
+      expect(runCode).toHaveBeenCalledWith('python', 'print(1 + 1)');
+    });
+
+    it('should refuse to run code until it is allowed in the settings', async () => {
+      (codeSettingsService.getSettings as jest.Mock).mockReturnValue({ allowRun: false });
+
+      await expect(handlersMap.get('code-run')!({}, 'js', 'console.log(1)')).rejects.toThrow('Running code blocks is turned off in the settings');
+      expect(runCode).not.toHaveBeenCalled();
+    });
+
+    it('should refuse other languages', async () => {
+      await expect(handlersMap.get('code-run')!({}, 'bash', 'rm -rf /')).rejects.toThrow('Running bash code is not supported');
+      await expect(handlersMap.get('code-run')!({}, 'ruby', 'puts 1')).rejects.toThrow('Running ruby code is not supported');
+      expect(runCode).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the code cannot be run', async () => {
+      (runCode as jest.Mock).mockRejectedValue(new Error('python3 was not found. Install it to run python code.'));
+
+      await expect(handlersMap.get('code-run')!({}, 'python', 'print(1)')).rejects.toThrow('python3 was not found');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to run code block:', expect.any(Error));
+    });
+  });
+});
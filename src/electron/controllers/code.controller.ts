@@ -0,0 +1,96 @@
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import { runCode } from '../services/code.runner';
+import { codeSettingsService } from '../services/code.settings';
+import { getCodeFileExtension, getRunnableLanguage } from '../services/code.helpers';
+import type { CodeSettings } from '../services/code.helpers';
+
+/**
+ * Code IPC Controller
+ * Handles all IPC communication for the code blocks of replies
+ */
+export class CodeController {
+  /**
+   * Initialize all code-related IPC handlers
+   */
+  static async registerHandlers(): Promise<void> {
+    // Get the code block settings
+    ipcMain.handle('code-get-settings', async () => {
+      try {
+        return codeSettingsService.getSettings();
+      } catch (error) {
+        console.error('Failed to get code settings:', error);
+        throw error;
+      }
+    });
+
+    // Update the code block settings; returns the saved settings
+    ipcMain.handle('code-update-settings', async (_event, changes: Partial<CodeSettings>) => {
+      try {
+        return codeSettingsService.updateSettings(changes);
+      } catch (error) {
+        console.error('Failed to update code settings:', error);
+        throw error;
+      }
+    });
+
+    // Save a code block chosen by the user; returns the file path, or null if canceled
+    ipcMain.handle('code-save', async (event, content: string, language: string | null) => {
+      try {
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const extension = getCodeFileExtension(language);
+        const result = await dialog.showSaveDialog(senderWindow, {
+          defaultPath: `snippet.${extension}`,
+          filters: [
+            { name: extension.toUpperCase(), extensions: [extension] },
+            { name: 'All Files', extensions: ['*'] },
+          ],
+        }) as unknown as { canceled: boolean; filePath?: string };
+
+        if (result.canceled || !result.filePath) {
+          return null;
+        }
+
+        await fs.promises.writeFile(result.filePath, content, 'utf-8');
+        return result.filePath;
+      } catch (error) {
+        console.error('Failed to save code block:', error);
+        throw error;
+      }
+    });
+
+    // Run a JavaScript or Python code block in a child process kept away from the user's files,
+    // once the user has allowed it in the settings
+    ipcMain.handle('code-run', async (_event, language: string, code: string) => {
+      try {
+        if (!codeSettingsService.getSettings().allowRun) {
+          throw new Error('Running code blocks is turned off in the settings');
+        }
+
+        const runnable = getRunnableLanguage(language);
+        if (!runnable) {
+          throw new Error(`Running ${language} code is not supported`);
+        }
+
+        return await runCode(runnable, code);
+      } catch (error) {
+        console.error('Failed to run code block:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Remove all code IPC handlers
+   */
+  static removeHandlers(): void {
+    ipcMain.removeHandler('code-get-settings');
+    ipcMain.removeHandler('code-update-settings');
+    ipcMain.removeHandler('code-save');
+    ipcMain.removeHandler('code-run');
+  }
+}
@@ -0,0 +1,280 @@
+import { ipcMain, dialog, shell, BrowserWindow } from 'electron';
+import { KnowledgeController, getEmbedder, retrieveKnowledge } from './knowledge.controller';
+import { knowledgeService } from '../services/knowledge.service';
+
+// Mock the LLM service, which holds the embedding model
+const mockLLMService = {
+  initialize: jest.fn(),
+  getModelsDirectory: jest.fn(() => '/models'),
+  getEmbeddingModelPath: jest.fn(),
+  loadEmbeddingModel: jest.fn(),
+  embed: jest.fn(),
+};
+
+jest.mock('../services/llm.service', () => ({
+  getLLMService: jest.fn(() => mockLLMService),
+}));
+
+// Mock the knowledge service
+jest.mock('../services/knowledge.service', () => ({
+  knowledgeService: {
+    initialize: jest.fn(),
+    getFolders: jest.fn(),
+    addFolder: jest.fn(),
+    removeFolder: jest.fn(),
+    indexFolder: jest.fn(),
+    search: jest.fn(),
+    isIndexedFile: jest.fn(),
+  },
+}));
+
+// Mock electron
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: jest.fn(),
+    removeHandler: jest.fn(),
+  },
+  dialog: {
+    showOpenDialog: jest.fn(),
+  },
+  shell: {
+    showItemInFolder: jest.fn(),
+  },
+  BrowserWindow: {
+    fromWebContents: jest.fn(),
+    getAllWindows: jest.fn(() => []),
+  },
+}));
+
+describe('KnowledgeController', () => {
+  const mockKnowledgeService = knowledgeService as jest.Mocked<typeof knowledgeService>;
+  let handlersMap: Map<string, Function>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlersMap = new Map();
+    (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+      handlersMap.set(channel, handler);
+    });
+    mockLLMService.getEmbeddingModelPath.mockReturnValue('/models/embed.gguf');
+  });
+
+  describe('registerHandlers', () => {
+    it('should initialize service and register all IPC handlers', async () => {
+      mockKnowledgeService.initialize.mockResolvedValue(undefined);
+
+      await KnowledgeController.registerHandlers();
+
+      expect(mockKnowledgeService.initialize).toHaveBeenCalled();
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-get-folders', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-add-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-remove-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-index-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-get-embedding-model', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-select-embedding-model', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('knowledge-open-source', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledTimes(7);
+    });
+
+    it('should register handlers even if initialization fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockKnowledgeService.initialize.mockRejectedValue(new Error('Init failed'));
+
+      await KnowledgeController.registerHandlers();
+
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to initialize knowledge service:', expect.any(Error));
+      expect(ipcMain.handle).toHaveBeenCalledTimes(7);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('removeHandlers', () => {
+    it('should remove all IPC handlers', () => {
+      KnowledgeController.removeHandlers();
+
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-get-folders');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-add-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-remove-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-index-folder');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-get-embedding-model');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-select-embedding-model');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('knowledge-open-source');
+      expect(ipcMain.removeHandler).toHaveBeenCalledTimes(7);
+    });
+  });
+
+  describe('getEmbedder', () => {
+    it('should embed with the chosen embedding model', async () => {
+      mockLLMService.embed.mockResolvedValue([0.1, 0.2]);
+
+      const embedder = await getEmbedder();
+
+      expect(embedder.modelPath).toBe('/models/embed.gguf');
+      await expect(embedder.embed('Hello')).resolves.toEqual([0.1, 0.2]);
+      expect(mockLLMService.embed).toHaveBeenCalledWith('Hello');
+    });
+
+    it('should throw when no embedding model is selected', async () => {
+      mockLLMService.getEmbeddingModelPath.mockReturnValue(null);
+
+      await expect(getEmbedder()).rejects.toThrow('No embedding model selected');
+    });
+  });
+
+  describe('retrieveKnowledge', () => {
+    it('should search with the embedded question and number the excerpts', async () => {
+      mockLLMService.embed.mockResolvedValue([1, 0]);
+      mockKnowledgeService.search.mockResolvedValue([
+        { path: '/docs/guide.md', position: 0, content: 'Run setup.exe', score: 0.9 },
+      ]);
+
+      const sources = await retrieveKnowledge('How do I install it?');
+
+      expect(mockKnowledgeService.search).toHaveBeenCalledWith([1, 0], '/models/embed.gguf');
+      expect(sources).toEqual([
+        { index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 },
+      ]);
+    });
+  });
+
+  describe('handlers', () => {
+    const senderWindow = { id: 1 };
+
+    beforeEach(async () => {
+      mockKnowledgeService.initialize.mockResolvedValue(undefined);
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(senderWindow);
+      await KnowledgeController.registerHandlers();
+    });
+
+    it('should get the folders', async () => {
+      const folders = [{ id: 1, path: '/docs', fileCount: 2, chunkCount: 5 }];
+      mockKnowledgeService.getFolders.mockResolvedValue(folders as any);
+
+      await expect(handlersMap.get('knowledge-get-folders')!({})).resolves.toEqual(folders);
+    });
+
+    it('should add the chosen folder', async () => {
+      const folder = { id: 1, path: '/docs', embeddingModel: null, indexedAt: null, createdAt: new Date() };
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/docs'] });
+      mockKnowledgeService.addFolder.mockResolvedValue(folder);
+
+      const result = await handlersMap.get('knowledge-add-folder')!({ sender: {} });
+
+      expect(dialog.showOpenDialog).toHaveBeenCalledWith(senderWindow, { properties: ['openDirectory'] });
+      expect(mockKnowledgeService.addFolder).toHaveBeenCalledWith('/docs');
+      expect(result).toEqual(folder);
+    });
+
+    it('should return null when adding a folder is canceled', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      await expect(handlersMap.get('knowledge-add-folder')!({ sender: {} })).resolves.toBeNull();
+      expect(mockKnowledgeService.addFolder).not.toHaveBeenCalled();
+    });
+
+    it('should throw when there is no window for the dialog', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(null);
+
+      await expect(handlersMap.get('knowledge-add-folder')!({ sender: {} })).rejects.toThrow('No window available for dialog');
+      consoleSpy.mockRestore();
+    });
+
+    it('should remove a folder', async () => {
+      mockKnowledgeService.removeFolder.mockResolvedValue(undefined);
+
+      await handlersMap.get('knowledge-remove-folder')!({}, 3);
+
+      expect(mockKnowledgeService.removeFolder).toHaveBeenCalledWith(3);
+    });
+
+    it('should index a folder and send its progress to every window', async () => {
+      const send = jest.fn();
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([{ webContents: { send } }]);
+      const indexResult = { folderId: 3, filesIndexed: 1, filesSkipped: 0, filesRemoved: 0, errors: [] };
+      mockKnowledgeService.indexFolder.mockImplementation(async (_folderId, _embedder, onProgress) => {
+        onProgress?.({ folderId: 3, filesDone: 0, filesTotal: 1, currentFile: '/docs/notes.md' });
+        return indexResult;
+      });
+
+      const result = await handlersMap.get('knowledge-index-folder')!({}, 3);
+
+      expect(mockKnowledgeService.indexFolder).toHaveBeenCalledWith(3, expect.objectContaining({ modelPath: '/models/embed.gguf' }), expect.any(Function));
+      expect(send).toHaveBeenCalledWith('knowledge-index-progress', { folderId: 3, filesDone: 0, filesTotal: 1, currentFile: '/docs/notes.md' });
+      expect(result).toEqual(indexResult);
+    });
+
+    it('should refuse to index a folder twice at once', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      let finishIndexing: () => void = () => {};
+      mockKnowledgeService.indexFolder.mockImplementation(() => new Promise((resolve) => {
+        finishIndexing = () => resolve({ folderId: 3, filesIndexed: 0, filesSkipped: 0, filesRemoved: 0, errors: [] });
+      }));
+
+      const first = handlersMap.get('knowledge-index-folder')!({}, 3);
+      await new Promise(process.nextTick);
+
+      await expect(handlersMap.get('knowledge-index-folder')!({}, 3)).rejects.toThrow('Knowledge folder 3 is already being indexed');
+      finishIndexing();
+      await first;
+      consoleSpy.mockRestore();
+    });
+
+    it('should not index without an embedding model', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockLLMService.getEmbeddingModelPath.mockReturnValue(null);
+
+      await expect(handlersMap.get('knowledge-index-folder')!({}, 3)).rejects.toThrow('No embedding model selected');
+      expect(mockKnowledgeService.indexFolder).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should get the embedding model', async () => {
+      await expect(handlersMap.get('knowledge-get-embedding-model')!({})).resolves.toBe('/models/embed.gguf');
+    });
+
+    it('should load the chosen embedding model', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: false, filePaths: ['/models/nomic.gguf'] });
+      mockLLMService.loadEmbeddingModel.mockResolvedValue(undefined);
+
+      const result = await handlersMap.get('knowledge-select-embedding-model')!({ sender: {} });
+
+      expect(dialog.showOpenDialog).toHaveBeenCalledWith(senderWindow, expect.objectContaining({ defaultPath: '/models' }));
+      expect(mockLLMService.loadEmbeddingModel).toHaveBeenCalledWith('/models/nomic.gguf');
+      expect(result).toBe('/models/nomic.gguf');
+    });
+
+    it('should return null when choosing an embedding model is canceled', async () => {
+      (dialog.showOpenDialog as jest.Mock).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      await expect(handlersMap.get('knowledge-select-embedding-model')!({ sender: {} })).resolves.toBeNull();
+      expect(mockLLMService.loadEmbeddingModel).not.toHaveBeenCalled();
+    });
+
+    it('should show an indexed file in its folder without opening it', async () => {
+      mockKnowledgeService.isIndexedFile.mockResolvedValue(true);
+
+      await handlersMap.get('knowledge-open-source')!({}, '/docs/deploy.sh');
+
+      expect(shell.showItemInFolder).toHaveBeenCalledWith('/docs/deploy.sh');
+    });
+
+    it('should not open a file outside the knowledge base', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockKnowledgeService.isIndexedFile.mockResolvedValue(false);
+
+      await expect(handlersMap.get('knowledge-open-source')!({}, '/etc/passwd')).rejects.toThrow('/etc/passwd is not in the knowledge base');
+      expect(shell.showItemInFolder).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should throw when the knowledge base cannot be read', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockKnowledgeService.isIndexedFile.mockRejectedValue(new Error('Database is locked'));
+
+      await expect(handlersMap.get('knowledge-open-source')!({}, '/docs/notes.md')).rejects.toThrow('Database is locked');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to open knowledge source:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
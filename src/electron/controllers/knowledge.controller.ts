@@ -0,0 +1,198 @@
+import { ipcMain, dialog, shell, BrowserWindow } from 'electron';
+import { knowledgeService } from '../services/knowledge.service';
+import type { Embedder, KnowledgeIndexProgress } from '../services/knowledge.service';
+import { toKnowledgeSources } from '../services/knowledge.helpers';
+import type { KnowledgeSource } from '../services/knowledge.helpers';
+import { initializeLLMService } from './llm.controller.helpers';
+
+let llmServicePromise: Promise<any> | null = null;
+
+async function getLLMService() {
+  if (!llmServicePromise) {
+    llmServicePromise = (async () => {
+      const { getLLMService: getService } = await import('../services/llm.service');
+      const service = getService();
+      await initializeLLMService(service);
+      return service;
+    })();
+  }
+  return llmServicePromise;
+}
+
+/**
+ * Embed with the embedding model chosen in the knowledge base settings
+ */
+export async function getEmbedder(): Promise<Embedder> {
+  const llmService = await getLLMService();
+  const modelPath: string | null = llmService.getEmbeddingModelPath();
+  if (!modelPath) {
+    throw new Error('No embedding model selected. Please choose one in the knowledge base settings.');
+  }
+
+  return { modelPath, embed: (text: string) => llmService.embed(text) };
+}
+
+/**
+ * Find the excerpts of the knowledge base most relevant to a question
+ */
+export async function retrieveKnowledge(question: string): Promise<KnowledgeSource[]> {
+  const embedder = await getEmbedder();
+  const matches = await knowledgeService.search(await embedder.embed(question), embedder.modelPath);
+  return toKnowledgeSources(matches);
+}
+
+// Folders being indexed, a folder is indexed once at a time
+const indexingFolders = new Set<number>();
+
+function sendIndexProgress(progress: KnowledgeIndexProgress): void {
+  BrowserWindow.getAllWindows().forEach(win => {
+    win.webContents.send('knowledge-index-progress', progress);
+  });
+}
+
+/**
+ * Knowledge IPC Controller
+ * Handles all IPC communication for the folders indexed for retrieval
+ */
+export class KnowledgeController {
+  /**
+   * Initialize all knowledge-related IPC handlers
+   */
+  static async registerHandlers(): Promise<void> {
+    try {
+      await knowledgeService.initialize();
+      console.log('Knowledge service initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize knowledge service:', error);
+    }
+
+    // Get the indexed folders with their file and chunk counts
+    ipcMain.handle('knowledge-get-folders', async () => {
+      try {
+        return await knowledgeService.getFolders();
+      } catch (error) {
+        console.error('Failed to get knowledge folders:', error);
+        throw error;
+      }
+    });
+
+    // Choose a folder to add; returns the folder, or null if canceled
+    ipcMain.handle('knowledge-add-folder', async (event) => {
+      try {
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const result = await dialog.showOpenDialog(senderWindow, {
+          properties: ['openDirectory'],
+        }) as unknown as { canceled: boolean; filePaths: string[] };
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return null;
+        }
+
+        return await knowledgeService.addFolder(result.filePaths[0]);
+      } catch (error) {
+        console.error('Failed to add knowledge folder:', error);
+        throw error;
+      }
+    });
+
+    // Remove a folder and its chunks
+    ipcMain.handle('knowledge-remove-folder', async (_event, folderId: number) => {
+      try {
+        await knowledgeService.removeFolder(folderId);
+      } catch (error) {
+        console.error('Failed to remove knowledge folder:', error);
+        throw error;
+      }
+    });
+
+    // Index a folder, its progress is sent to every window
+    ipcMain.handle('knowledge-index-folder', async (_event, folderId: number) => {
+      try {
+        if (indexingFolders.has(folderId)) {
+          throw new Error(`Knowledge folder ${folderId} is already being indexed`);
+        }
+
+        const embedder = await getEmbedder();
+        indexingFolders.add(folderId);
+        try {
+          return await knowledgeService.indexFolder(folderId, embedder, sendIndexProgress);
+        } finally {
+          indexingFolders.delete(folderId);
+        }
+      } catch (error) {
+        console.error('Failed to index knowledge folder:', error);
+        throw error;
+      }
+    });
+
+    // Get the embedding model chosen for the knowledge base
+    ipcMain.handle('knowledge-get-embedding-model', async () => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.getEmbeddingModelPath();
+      } catch (error) {
+        console.error('Failed to get embedding model:', error);
+        throw error;
+      }
+    });
+
+    // Choose and load a GGUF embedding model; returns its path, or null if canceled
+    ipcMain.handle('knowledge-select-embedding-model', async (event): Promise<string | null> => {
+      try {
+        const senderWindow = BrowserWindow.fromWebContents(event.sender);
+        if (!senderWindow) {
+          throw new Error('No window available for dialog');
+        }
+
+        const llmService = await getLLMService();
+        const result = await dialog.showOpenDialog(senderWindow, {
+          properties: ['openFile'],
+          defaultPath: llmService.getModelsDirectory(),
+          filters: [{ name: 'GGUF Models', extensions: ['gguf'] }],
+        }) as unknown as { canceled: boolean; filePaths: string[] };
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return null;
+        }
+
+        await llmService.loadEmbeddingModel(result.filePaths[0]);
+        return result.filePaths[0];
+      } catch (error) {
+        console.error('Failed to select embedding model:', error);
+        throw error;
+      }
+    });
+
+    // Show a file cited by a reply in its folder. It is never opened: the knowledge base may index scripts.
+    ipcMain.handle('knowledge-open-source', async (_event, filePath: string) => {
+      try {
+        // Citations come from the renderer: only files of the knowledge base are opened
+        if (!(await knowledgeService.isIndexedFile(filePath))) {
+          throw new Error(`${filePath} is not in the knowledge base`);
+        }
+
+        shell.showItemInFolder(filePath);
+      } catch (error) {
+        console.error('Failed to open knowledge source:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Remove all knowledge IPC handlers
+   */
+  static removeHandlers(): void {
+    ipcMain.removeHandler('knowledge-get-folders');
+    ipcMain.removeHandler('knowledge-add-folder');
+    ipcMain.removeHandler('knowledge-remove-folder');
+    ipcMain.removeHandler('knowledge-index-folder');
+    ipcMain.removeHandler('knowledge-get-embedding-model');
+    ipcMain.removeHandler('knowledge-select-embedding-model');
+    ipcMain.removeHandler('knowledge-open-source');
+  }
+}
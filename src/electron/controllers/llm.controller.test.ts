@@ -2,30 +2,50 @@ import { LLMController } from './llm.controller';
 import { ipcMain, dialog, BrowserWindow } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
 
 // Mock the LLM service
 const mockLLMService = {
   initialize: jest.fn(),
   listAvailableModels: jest.fn(),
   listInstalledModels: jest.fn(),
-  loadModel: jest.fn(),
   unloadModel: jest.fn(),
-  isModelLoaded: jest.fn(),
   getCurrentModelPath: jest.fn(),
   ensureModelsDirectory: jest.fn(),
   getModelsDirectory: jest.fn(),
   updateConfig: jest.fn(),
   getConfig: jest.fn(),
-  generateResponse: jest.fn(),
+  getSavedConfig: jest.fn(),
+  getLastModel: jest.fn(),
+  isAutoLoadEnabled: jest.fn(),
+  setAutoLoadEnabled: jest.fn(),
   setCustomModelsPath: jest.fn(),
   scanFolderForModels: jest.fn(),
+  getEndpointSettings: jest.fn(),
+  updateEndpointSettings: jest.fn(),
+  getApiServerSettings: jest.fn(),
+  updateApiServerSettings: jest.fn(),
 };
 
 jest.mock('../services/llm.service', () => ({
   getLLMService: jest.fn(() => mockLLMService),
 }));
 
+// Mock the inference service, which routes generation to the provider with a loaded model
+const mockInferenceService = {
+  loadModel: jest.fn(),
+  unloadModel: jest.fn(),
+  isModelLoaded: jest.fn(),
+  getCurrentModelPath: jest.fn(),
+  getActiveModel: jest.fn(),
+  listEndpointModels: jest.fn(),
+  generateResponse: jest.fn(),
+  generateStructured: jest.fn(),
+};
+
+jest.mock('../services/inference.service', () => ({
+  getInferenceService: jest.fn(() => mockInferenceService),
+}));
+
 // Mock electron
 jest.mock('electron', () => ({
   ipcMain: {
@@ -46,16 +66,50 @@ jest.mock('electron', () => ({
 jest.mock('fs', () => ({
   existsSync: jest.fn(),
   unlinkSync: jest.fn(),
-  createWriteStream: jest.fn(),
   writeFileSync: jest.fn(),
   readFileSync: jest.fn(),
   appendFileSync: jest.fn(),
 }));
 
-// Mock https
-jest.mock('https', () => ({
-  get: jest.fn(),
-}));
+// Mock the download queue, keeping the update callback the controller creates it with
+jest.mock('../services/download.service', () => {
+  const queue: any = {
+    enqueue: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    cancel: jest.fn(),
+    list: jest.fn(),
+    onUpdate: null,
+  };
+  const { getPartPath, getValidatorPath } = jest.requireActual('../services/download.service');
+  return {
+    getPartPath,
+    getValidatorPath,
+    DownloadQueue: jest.fn((onUpdate) => {
+      queue.onUpdate = onUpdate;
+      return queue;
+    }),
+    mockQueue: queue,
+  };
+});
+
+const { mockQueue } = jest.requireMock('../services/download.service');
+
+// Mock the API server, created once when the controller module loads
+jest.mock('../services/apiServer.service', () => {
+  const server = {
+    start: jest.fn(),
+    stop: jest.fn(),
+    isRunning: jest.fn(),
+    getStatus: jest.fn(),
+  };
+  return {
+    ApiServer: jest.fn(() => server),
+    mockApiServer: server,
+  };
+});
+
+const { mockApiServer } = jest.requireMock('../services/apiServer.service');
 
 describe('LLMController', () => {
   let handlersMap: Map<string, Function>;
@@ -103,13 +157,32 @@ describe('LLMController', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-is-loaded', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-current-model', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-download-model', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-pause-download', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-resume-download', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-cancel-download', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-list-downloads', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-delete-model', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-update-config', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-config', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-saved-config', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-auto-load', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-set-auto-load', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-load-progress', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-generate-response', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-generate-structured', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-models-directory', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-set-models-directory', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('llm-scan-folder', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-get-active-model', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-endpoint-get-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-endpoint-update-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-endpoint-list-models', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-endpoint-load-model', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-server-get-status', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-server-get-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-server-update-settings', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-server-start', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm-server-stop', expect.any(Function));
     });
   });
 
@@ -258,30 +331,346 @@ describe('LLMController', () => {
     });
 
     it('should load a model', async () => {
-      mockLLMService.loadModel.mockResolvedValue(undefined);
+      mockInferenceService.loadModel.mockResolvedValue(undefined);
 
       const handler = handlersMap.get('llm-load-model')!;
       await handler({}, '/path/to/model.gguf');
 
-      expect(mockLLMService.loadModel).toHaveBeenCalledWith('/path/to/model.gguf', undefined);
+      expect(mockInferenceService.loadModel).toHaveBeenCalledWith('llama-cpp', '/path/to/model.gguf', undefined, {
+        modelId: null,
+        onProgress: expect.any(Function),
+      });
     });
 
     it('should load a model with config', async () => {
-      mockLLMService.loadModel.mockResolvedValue(undefined);
+      mockInferenceService.loadModel.mockResolvedValue(undefined);
       const config = { temperature: 0.8 };
 
       const handler = handlersMap.get('llm-load-model')!;
-      await handler({}, '/path/to/model.gguf', config);
+      await handler({}, '/path/to/model.gguf', config, 'model1');
 
-      expect(mockLLMService.loadModel).toHaveBeenCalledWith('/path/to/model.gguf', config);
+      expect(mockInferenceService.loadModel).toHaveBeenCalledWith('llama-cpp', '/path/to/model.gguf', config, {
+        modelId: 'model1',
+        onProgress: expect.any(Function),
+      });
     });
 
     it('should throw error if loading fails', async () => {
-      mockLLMService.loadModel.mockRejectedValue(new Error('Load failed'));
+      mockInferenceService.loadModel.mockRejectedValue(new Error('Load failed'));
 
       const handler = handlersMap.get('llm-load-model')!;
       await expect(handler({}, '/path/to/model.gguf')).rejects.toThrow('Load failed');
     });
+
+    it('should send load progress to all windows', async () => {
+      const mockWindow = { webContents: { send: jest.fn() } };
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow]);
+      mockInferenceService.loadModel.mockImplementation(async (_provider, _path, _config, options) => {
+        options.onProgress(0.5);
+        options.onProgress(0.501);
+      });
+
+      const handler = handlersMap.get('llm-load-model')!;
+      await handler({}, '/path/to/model.gguf', undefined, 'model1');
+
+      const sent = mockWindow.webContents.send.mock.calls.map(([, progress]) => [progress.status, progress.progress]);
+      expect(sent).toEqual([['loading', 0], ['loading', 50], ['loaded', 100]]);
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('llm-load-progress', {
+        provider: 'llama-cpp',
+        modelPath: '/path/to/model.gguf',
+        modelId: 'model1',
+        status: 'loaded',
+        progress: 100,
+      });
+    });
+
+    it('should send the error when loading fails', async () => {
+      const mockWindow = { webContents: { send: jest.fn() } };
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow]);
+      mockInferenceService.loadModel.mockRejectedValue(new Error('Load failed'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const handler = handlersMap.get('llm-load-model')!;
+      await expect(handler({}, '/path/to/model.gguf')).rejects.toThrow('Load failed');
+
+      expect(mockWindow.webContents.send).toHaveBeenLastCalledWith('llm-load-progress', {
+        provider: 'llama-cpp',
+        modelPath: '/path/to/model.gguf',
+        modelId: null,
+        status: 'failed',
+        progress: 0,
+        error: 'Load failed',
+      });
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should return the progress of the last load', async () => {
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+      mockInferenceService.loadModel.mockResolvedValue(undefined);
+
+      await handlersMap.get('llm-load-model')!({}, '/path/to/model.gguf', undefined, 'model1');
+      const result = await handlersMap.get('llm-get-load-progress')!();
+
+      expect(result).toEqual({ provider: 'llama-cpp', modelPath: '/path/to/model.gguf', modelId: 'model1', status: 'loaded', progress: 100 });
+    });
+  });
+
+  describe('autoLoadLastModel', () => {
+    beforeEach(() => {
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+      mockInferenceService.loadModel.mockResolvedValue(undefined);
+      mockLLMService.isAutoLoadEnabled.mockReturnValue(true);
+      mockLLMService.getLastModel.mockReturnValue({ path: '/models/last.gguf', modelId: 'model1' });
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should load the last model with its saved overrides', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+
+      await LLMController.autoLoadLastModel();
+
+      expect(mockInferenceService.loadModel).toHaveBeenCalledWith('llama-cpp', '/models/last.gguf', undefined, {
+        modelId: 'model1',
+        onProgress: expect.any(Function),
+      });
+      (console.log as jest.Mock).mockRestore();
+    });
+
+    it('should do nothing when auto-load is disabled', async () => {
+      mockLLMService.isAutoLoadEnabled.mockReturnValue(false);
+
+      await LLMController.autoLoadLastModel();
+
+      expect(mockInferenceService.loadModel).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a last model', async () => {
+      mockLLMService.getLastModel.mockReturnValue(null);
+
+      await LLMController.autoLoadLastModel();
+
+      expect(mockInferenceService.loadModel).not.toHaveBeenCalled();
+    });
+
+    it('should skip a last model that no longer exists', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      await LLMController.autoLoadLastModel();
+
+      expect(mockInferenceService.loadModel).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Last model not found, skipping auto-load:', '/models/last.gguf');
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should select the last endpoint model without looking for a file', async () => {
+      mockLLMService.getLastModel.mockReturnValue({ path: 'llama3.2', modelId: null, provider: 'openai-compatible' });
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      await LLMController.autoLoadLastModel();
+
+      expect(mockInferenceService.loadModel).toHaveBeenCalledWith('openai-compatible', 'llama3.2', undefined, {
+        modelId: null,
+        onProgress: expect.any(Function),
+      });
+    });
+
+    it('should log loading errors without throwing', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('Load failed');
+      mockInferenceService.loadModel.mockRejectedValue(error);
+
+      await expect(LLMController.autoLoadLastModel()).resolves.toBeUndefined();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to auto-load last model:', error);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('endpoint handlers', () => {
+    const settings = { baseUrl: 'http://127.0.0.1:11434/v1', apiKey: '' };
+
+    beforeEach(async () => {
+      await LLMController.registerHandlers();
+    });
+
+    it('should get the active model and its provider', async () => {
+      const activeModel = { provider: 'openai-compatible', path: 'llama3.2', modelId: 'llama3.2' };
+      mockInferenceService.getActiveModel.mockReturnValue(activeModel);
+
+      const handler = handlersMap.get('llm-get-active-model')!;
+
+      expect(await handler()).toEqual(activeModel);
+    });
+
+    it('should get and save the endpoint settings', async () => {
+      mockLLMService.getEndpointSettings.mockReturnValue(settings);
+      mockLLMService.updateEndpointSettings.mockReturnValue({ ...settings, apiKey: 'secret' });
+
+      expect(await handlersMap.get('llm-endpoint-get-settings')!()).toEqual(settings);
+      const result = await handlersMap.get('llm-endpoint-update-settings')!({}, { apiKey: 'secret' });
+
+      expect(mockLLMService.updateEndpointSettings).toHaveBeenCalledWith({ apiKey: 'secret' });
+      expect(result).toEqual({ ...settings, apiKey: 'secret' });
+    });
+
+    it('should list the endpoint models', async () => {
+      mockInferenceService.listEndpointModels.mockResolvedValue([{ id: 'llama3.2', ownedBy: 'library' }]);
+
+      const handler = handlersMap.get('llm-endpoint-list-models')!;
+
+      expect(await handler()).toEqual([{ id: 'llama3.2', ownedBy: 'library' }]);
+    });
+
+    it('should log and rethrow errors from an unreachable endpoint', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('fetch failed');
+      mockInferenceService.listEndpointModels.mockRejectedValue(error);
+
+      const handler = handlersMap.get('llm-endpoint-list-models')!;
+
+      await expect(handler()).rejects.toThrow('fetch failed');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to list endpoint models:', error);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should load an endpoint model and report its progress', async () => {
+      const mockWindow = { webContents: { send: jest.fn() } };
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow]);
+      mockInferenceService.loadModel.mockResolvedValue(undefined);
+
+      const handler = handlersMap.get('llm-endpoint-load-model')!;
+      await handler({}, 'llama3.2');
+
+      expect(mockInferenceService.loadModel).toHaveBeenCalledWith('openai-compatible', 'llama3.2', undefined, {
+        modelId: null,
+        onProgress: expect.any(Function),
+      });
+      expect(mockWindow.webContents.send).toHaveBeenLastCalledWith('llm-load-progress', {
+        provider: 'openai-compatible',
+        modelPath: 'llama3.2',
+        modelId: null,
+        status: 'loaded',
+        progress: 100,
+      });
+    });
+  });
+
+  describe('autoStartApiServer', () => {
+    const settings = { enabled: true, port: 8765, apiKey: '', allowRemote: false };
+
+    it('should start the server when it is enabled', async () => {
+      mockLLMService.getApiServerSettings.mockReturnValue(settings);
+
+      await LLMController.autoStartApiServer();
+
+      expect(mockApiServer.start).toHaveBeenCalledWith(settings);
+    });
+
+    it('should do nothing when the server is disabled', async () => {
+      mockLLMService.getApiServerSettings.mockReturnValue({ ...settings, enabled: false });
+
+      await LLMController.autoStartApiServer();
+
+      expect(mockApiServer.start).not.toHaveBeenCalled();
+    });
+
+    it('should log start errors without throwing', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('listen EADDRINUSE');
+      mockLLMService.getApiServerSettings.mockReturnValue(settings);
+      mockApiServer.start.mockRejectedValueOnce(error);
+
+      await expect(LLMController.autoStartApiServer()).resolves.toBeUndefined();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to auto-start API server:', error);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('API server handlers', () => {
+    const settings = { enabled: false, port: 8765, apiKey: '', allowRemote: false };
+    const runningStatus = { running: true, port: 8765, url: 'http://127.0.0.1:8765/v1' };
+
+    beforeEach(async () => {
+      await LLMController.registerHandlers();
+      mockLLMService.getApiServerSettings.mockReturnValue(settings);
+    });
+
+    it('should get the server status', async () => {
+      mockApiServer.getStatus.mockReturnValue(runningStatus);
+
+      const handler = handlersMap.get('llm-server-get-status')!;
+
+      expect(await handler()).toEqual(runningStatus);
+    });
+
+    it('should get the server settings', async () => {
+      const handler = handlersMap.get('llm-server-get-settings')!;
+
+      expect(await handler()).toEqual(settings);
+    });
+
+    it('should save settings without starting a stopped server', async () => {
+      const updated = { ...settings, port: 9000 };
+      mockLLMService.updateApiServerSettings.mockReturnValue(updated);
+      mockApiServer.isRunning.mockReturnValue(false);
+
+      const handler = handlersMap.get('llm-server-update-settings')!;
+      const result = await handler({}, { port: 9000 });
+
+      expect(mockLLMService.updateApiServerSettings).toHaveBeenCalledWith({ port: 9000 });
+      expect(mockApiServer.start).not.toHaveBeenCalled();
+      expect(result).toEqual(updated);
+    });
+
+    it('should restart a running server with the saved settings', async () => {
+      const updated = { ...settings, enabled: true, apiKey: 'secret' };
+      mockLLMService.updateApiServerSettings.mockReturnValue(updated);
+      mockApiServer.isRunning.mockReturnValue(true);
+
+      const handler = handlersMap.get('llm-server-update-settings')!;
+      await handler({}, { apiKey: 'secret' });
+
+      expect(mockApiServer.start).toHaveBeenCalledWith(updated);
+    });
+
+    it('should start the server and enable it at startup', async () => {
+      mockApiServer.start.mockResolvedValue(runningStatus);
+
+      const handler = handlersMap.get('llm-server-start')!;
+      const result = await handler();
+
+      expect(mockApiServer.start).toHaveBeenCalledWith(settings);
+      expect(mockLLMService.updateApiServerSettings).toHaveBeenCalledWith({ enabled: true });
+      expect(result).toEqual(runningStatus);
+    });
+
+    it('should keep the server disabled when it fails to start', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('listen EADDRINUSE');
+      mockApiServer.start.mockRejectedValue(error);
+
+      const handler = handlersMap.get('llm-server-start')!;
+
+      await expect(handler()).rejects.toThrow('listen EADDRINUSE');
+      expect(mockLLMService.updateApiServerSettings).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to start API server:', error);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should stop the server and disable it at startup', async () => {
+      const stoppedStatus = { running: false, port: null, url: null };
+      mockApiServer.stop.mockResolvedValue(undefined);
+      mockApiServer.getStatus.mockReturnValue(stoppedStatus);
+
+      const handler = handlersMap.get('llm-server-stop')!;
+      const result = await handler();
+
+      expect(mockApiServer.stop).toHaveBeenCalled();
+      expect(mockLLMService.updateApiServerSettings).toHaveBeenCalledWith({ enabled: false });
+      expect(result).toEqual(stoppedStatus);
+    });
   });
 
   describe('llm-unload-model handler', () => {
@@ -290,16 +679,16 @@ describe('LLMController', () => {
     });
 
     it('should unload the model', async () => {
-      mockLLMService.unloadModel.mockResolvedValue(undefined);
+      mockInferenceService.unloadModel.mockResolvedValue(undefined);
 
       const handler = handlersMap.get('llm-unload-model')!;
       await handler();
 
-      expect(mockLLMService.unloadModel).toHaveBeenCalled();
+      expect(mockInferenceService.unloadModel).toHaveBeenCalled();
     });
 
     it('should throw error if unloading fails', async () => {
-      mockLLMService.unloadModel.mockRejectedValue(new Error('Unload failed'));
+      mockInferenceService.unloadModel.mockRejectedValue(new Error('Unload failed'));
 
       const handler = handlersMap.get('llm-unload-model')!;
       await expect(handler()).rejects.toThrow('Unload failed');
@@ -312,17 +701,17 @@ describe('LLMController', () => {
     });
 
     it('should return true if model is loaded', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(true);
+      mockInferenceService.isModelLoaded.mockReturnValue(true);
 
       const handler = handlersMap.get('llm-is-loaded')!;
       const result = await handler();
 
-      expect(mockLLMService.isModelLoaded).toHaveBeenCalled();
+      expect(mockInferenceService.isModelLoaded).toHaveBeenCalled();
       expect(result).toBe(true);
     });
 
     it('should return false if model is not loaded', async () => {
-      mockLLMService.isModelLoaded.mockReturnValue(false);
+      mockInferenceService.isModelLoaded.mockReturnValue(false);
 
       const handler = handlersMap.get('llm-is-loaded')!;
       const result = await handler();
@@ -331,7 +720,7 @@ describe('LLMController', () => {
     });
 
     it('should return false if check fails', async () => {
-      mockLLMService.isModelLoaded.mockImplementation(() => {
+      mockInferenceService.isModelLoaded.mockImplementation(() => {
         throw new Error('Check failed');
       });
 
@@ -348,17 +737,17 @@ describe('LLMController', () => {
     });
 
     it('should get current model path', async () => {
-      mockLLMService.getCurrentModelPath.mockReturnValue('/path/to/model.gguf');
+      mockInferenceService.getCurrentModelPath.mockReturnValue('/path/to/model.gguf');
 
       const handler = handlersMap.get('llm-get-current-model')!;
       const result = await handler();
 
-      expect(mockLLMService.getCurrentModelPath).toHaveBeenCalled();
+      expect(mockInferenceService.getCurrentModelPath).toHaveBeenCalled();
       expect(result).toBe('/path/to/model.gguf');
     });
 
     it('should return null if no model loaded', async () => {
-      mockLLMService.getCurrentModelPath.mockReturnValue(null);
+      mockInferenceService.getCurrentModelPath.mockReturnValue(null);
 
       const handler = handlersMap.get('llm-get-current-model')!;
       const result = await handler();
@@ -367,7 +756,7 @@ describe('LLMController', () => {
     });
 
     it('should return null if getting path fails', async () => {
-      mockLLMService.getCurrentModelPath.mockImplementation(() => {
+      mockInferenceService.getCurrentModelPath.mockImplementation(() => {
         throw new Error('Get failed');
       });
 
@@ -379,783 +768,207 @@ describe('LLMController', () => {
   });
 
   describe('llm-download-model handler', () => {
+    const modelInfo = {
+      id: 'model1',
+      name: 'Model 1',
+      filename: 'model1.gguf',
+      url: 'https://example.com/model1.gguf',
+      sha256: 'abc123',
+      size: 1000,
+    };
+
+    const llamaModelInfo = {
+      id: 'llama-3.2-1b',
+      name: 'Llama 3.2 1B',
+      filename: 'llama-3.2-1b.gguf',
+      url: 'https://example.com/llama.gguf',
+      license: 'LLAMA 3.2 COMMUNITY LICENSE AGREEMENT',
+      requiresAttribution: true,
+      attributionText: 'Built with Llama',
+    };
+
+    // Download the model and run the queue's completion callback
+    const downloadAndComplete = async (info: any) => {
+      const handler = handlersMap.get('llm-download-model')!;
+      await handler({}, info);
+      const onComplete = mockQueue.enqueue.mock.calls[0][1];
+      await onComplete();
+    };
+
     beforeEach(async () => {
       await LLMController.registerHandlers();
-    });
-
-    it('should download a model', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
       mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
       mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      // Simulate successful download
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'finish') {
-          setTimeout(callback, 0);
-        }
-        return mockFile;
-      });
+      mockQueue.enqueue.mockReturnValue({ id: 'model1', status: 'downloading', downloadedBytes: 0, totalBytes: 0, progress: 0 });
+    });
 
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+    it('should queue the download of a model', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
 
       const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
+      const result = await handler({}, modelInfo);
 
       expect(mockLLMService.ensureModelsDirectory).toHaveBeenCalled();
-      expect(fs.createWriteStream).toHaveBeenCalledWith('/models/model1.gguf');
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(
+        { id: 'model1', url: 'https://example.com/model1.gguf', destPath: path.join('/models', 'model1.gguf'), sha256: 'abc123' },
+        expect.any(Function)
+      );
+      expect(result).toEqual({ modelId: 'model1', status: 'downloading', downloadedBytes: 0, totalBytes: 0, progress: 0 });
     });
 
-    it('should handle download without content-length header', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
+    it('should throw error if model already downloaded', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
 
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      const handler = handlersMap.get('llm-download-model')!;
+      await expect(handler({}, modelInfo)).rejects.toThrow('Model already downloaded');
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
 
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      // Response without content-length header
-      const mockResponse = {
-        statusCode: 200,
-        headers: {}, // No content-length
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
+    it('should throw error if the model is already queued', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      const error = new Error('Download already in progress: model1');
+      mockQueue.enqueue.mockImplementation(() => {
+        throw error;
       });
 
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'finish') {
-          setTimeout(callback, 0);
-        }
-        return mockFile;
-      });
+      const handler = handlersMap.get('llm-download-model')!;
+      await expect(handler({}, modelInfo)).rejects.toThrow('Download already in progress: model1');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to download model:', error);
 
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+      mockQueue.enqueue.mockReset();
+      consoleErrorSpy.mockRestore();
+    });
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
+    it('should send download updates to all windows', () => {
+      const mockWindow1 = { webContents: { send: jest.fn() } };
+      const mockWindow2 = { webContents: { send: jest.fn() } };
+      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow1, mockWindow2]);
+
+      mockQueue.onUpdate({ id: 'model1', status: 'downloading', downloadedBytes: 500, totalBytes: 1000, progress: 50 });
 
-      expect(fs.createWriteStream).toHaveBeenCalledWith('/models/model1.gguf');
+      const expected = { modelId: 'model1', status: 'downloading', downloadedBytes: 500, totalBytes: 1000, progress: 50 };
+      expect(mockWindow1.webContents.send).toHaveBeenCalledWith('llm-download-progress', expected);
+      expect(mockWindow2.webContents.send).toHaveBeenCalledWith('llm-download-progress', expected);
     });
 
-    it('should handle download with zero total bytes', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
+    it('should create NOTICE file for Llama models', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(false); // file doesn't exist, NOTICE doesn't exist
 
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      await downloadAndComplete(llamaModelInfo);
 
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      // Response with content-length = 0
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '0' },
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        path.join('/models', 'NOTICE'),
+        expect.stringContaining('Llama 3.2 is licensed under the Llama 3.2 Community License'),
+        'utf-8'
+      );
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        path.join('/models', 'NOTICE'),
+        expect.stringContaining(llamaModelInfo.name),
+        'utf-8'
+      );
+    });
 
-      let dataCallback: (chunk: Buffer) => void;
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
+    it('should append to existing NOTICE file for additional Llama models', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true); // file doesn't exist, NOTICE exists
+      (fs.readFileSync as jest.Mock).mockReturnValue('Existing NOTICE content\n- Llama 3.2 3B (llama-3.2-3b.gguf)\n');
 
-      mockResponse.on.mockImplementation((event, callback) => {
-        if (event === 'data') {
-          dataCallback = callback;
-          // Trigger data event even with 0 content-length
-          setTimeout(() => callback(Buffer.alloc(100)), 0);
-        }
-        return mockResponse;
-      });
+      await downloadAndComplete(llamaModelInfo);
 
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'finish') {
-          setTimeout(callback, 10);
-        }
-        return mockFile;
-      });
+      expect(fs.appendFileSync).toHaveBeenCalledWith(
+        path.join('/models', 'NOTICE'),
+        expect.stringContaining(llamaModelInfo.name)
+      );
+    });
 
-      const mockWindow = {
-        webContents: {
-          send: jest.fn(),
-        },
-      };
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow]);
+    it('should not duplicate models in NOTICE file', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true); // file doesn't exist, NOTICE exists
+      (fs.readFileSync as jest.Mock).mockReturnValue('Existing content\n- Llama 3.2 1B (llama-3.2-1b.gguf)\n');
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
+      await downloadAndComplete(llamaModelInfo);
 
-      // Progress should not be sent when totalBytes is 0
-      expect(mockWindow.webContents.send).not.toHaveBeenCalledWith('llm-download-progress', expect.anything());
+      // Should NOT append since model already exists
+      expect(fs.appendFileSync).not.toHaveBeenCalled();
     });
 
-    it('should throw error if model already downloaded', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Model already downloaded');
-    });
-
-    it('should send progress updates during download', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockWindow1 = {
-        webContents: {
-          send: jest.fn(),
-        },
-      };
-      const mockWindow2 = {
-        webContents: {
-          send: jest.fn(),
-        },
-      };
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([mockWindow1, mockWindow2]);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
-
-      let dataCallback: (chunk: Buffer) => void;
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      mockResponse.on.mockImplementation((event, callback) => {
-        if (event === 'data') {
-          dataCallback = callback;
-          // Immediately trigger data events
-          setTimeout(() => {
-            callback(Buffer.alloc(500));
-            callback(Buffer.alloc(500));
-          }, 0);
-        }
-        return mockResponse;
-      });
-
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'finish') {
-          setTimeout(callback, 10);
-        }
-        return mockFile;
-      });
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
-
-      // Both windows should receive progress updates
-      expect(mockWindow1.webContents.send).toHaveBeenCalledWith('llm-download-progress', {
-        modelId: 'model1',
-        progress: expect.any(Number),
-      });
-      expect(mockWindow2.webContents.send).toHaveBeenCalledWith('llm-download-progress', {
-        modelId: 'model1',
-        progress: expect.any(Number),
-      });
-    });
-
-    it('should handle redirect', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      // First call returns redirect
-      const mockRedirectResponse = {
-        statusCode: 301,
-        headers: { location: 'https://example.com/redirected.gguf' },
-      };
-
-      // Second call returns success
-      const mockSuccessResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
-
-      let callCount = 0;
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        if (callCount === 0) {
-          callCount++;
-          callback(mockRedirectResponse);
-        } else {
-          callback(mockSuccessResponse);
-        }
-        return { on: jest.fn() };
-      });
-
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'finish') {
-          setTimeout(callback, 0);
-        }
-        return mockFile;
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
-
-      expect(fs.unlinkSync).toHaveBeenCalled();
-    });
-
-    it('should handle redirect without location header', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockRedirectResponse = {
-        statusCode: 302,
-        headers: {},
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockRedirectResponse);
-        return { on: jest.fn() };
-      });
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Redirect without location header');
-    });
-
-    it('should handle non-200 status code', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 404,
-        headers: {},
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Failed to download: 404');
-    });
-
-    it('should handle https error', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
+    it('should not create NOTICE file for non-Llama models', async () => {
       (fs.existsSync as jest.Mock).mockReturnValue(false);
 
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      let errorCallback: (err: Error) => void;
-      (https.get as jest.Mock).mockImplementation(() => {
-        return {
-          on: (event: string, callback: (err: Error) => void) => {
-            if (event === 'error') {
-              errorCallback = callback;
-              setTimeout(() => errorCallback(new Error('Network error')), 0);
-            }
-          },
-        };
-      });
+      await downloadAndComplete({ ...modelInfo, requiresAttribution: false });
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Network error');
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+      expect(fs.appendFileSync).not.toHaveBeenCalled();
     });
 
-    it('should handle file write error', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      mockFile.on.mockImplementation((event, callback) => {
-        if (event === 'error') {
-          setTimeout(() => callback(new Error('Write error')), 0);
-        }
-        return mockFile;
+    it('should handle NOTICE file creation error gracefully', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(false);
+      (fs.writeFileSync as jest.Mock).mockImplementation(() => {
+        throw new Error('Write failed');
       });
 
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn(),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
+      // Should not throw even if NOTICE creation fails
+      await expect(downloadAndComplete(llamaModelInfo)).resolves.not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to create NOTICE file:', expect.any(Error));
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Write error');
+      (fs.writeFileSync as jest.Mock).mockReset();
+      consoleErrorSpy.mockRestore();
     });
+  });
 
-    it('should cleanup partial download on error', async () => {
-      const modelInfo = {
-        id: 'model1',
-        name: 'Model 1',
-        filename: 'model1.gguf',
-        url: 'https://example.com/model1.gguf',
-        size: 1000,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true);
-      (fs.unlinkSync as jest.Mock).mockReturnValue(undefined);
-
-      const mockFile = {
-        close: jest.fn(),
-        on: jest.fn(),
-      };
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      (https.get as jest.Mock).mockImplementation(() => {
-        return {
-          on: (event: string, callback: (err: Error) => void) => {
-            if (event === 'error') {
-              setTimeout(() => callback(new Error('Network error')), 0);
-            }
-          },
-        };
-      });
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await expect(handler({}, modelInfo)).rejects.toThrow('Network error');
-      expect(fs.unlinkSync).toHaveBeenCalledWith('/models/model1.gguf');
+  describe('download queue handlers', () => {
+    beforeEach(async () => {
+      await LLMController.registerHandlers();
     });
 
-    it('should create NOTICE file for Llama models', async () => {
-      const modelInfo = {
-        id: 'llama-3.2-1b',
-        name: 'Llama 3.2 1B',
-        filename: 'llama-3.2-1b.gguf',
-        url: 'https://example.com/llama.gguf',
-        license: 'LLAMA 3.2 COMMUNITY LICENSE AGREEMENT',
-        requiresAttribution: true,
-        attributionText: 'Built with Llama',
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(false); // file doesn't exist, NOTICE doesn't exist
-
-      const mockFile = {
-        on: jest.fn((event, callback) => {
-          if (event === 'finish') {
-            setTimeout(callback, 10);
-          }
-          return mockFile;
-        }),
-        close: jest.fn(),
-      };
-
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn((file) => {
-          setTimeout(() => {
-            const finishCallback = mockFile.on.mock.calls.find((call: any) => call[0] === 'finish')?.[1];
-            if (finishCallback) finishCallback();
-          }, 10);
-        }),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+    it('should pause a download', async () => {
+      const handler = handlersMap.get('llm-pause-download')!;
+      await handler({}, 'model1');
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
-
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        path.join('/models', 'NOTICE'),
-        expect.stringContaining('Llama 3.2 is licensed under the Llama 3.2 Community License'),
-        'utf-8'
-      );
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        path.join('/models', 'NOTICE'),
-        expect.stringContaining(modelInfo.name),
-        'utf-8'
-      );
+      expect(mockQueue.pause).toHaveBeenCalledWith('model1');
     });
 
-    it('should append to existing NOTICE file for additional Llama models', async () => {
-      const modelInfo = {
-        id: 'llama-3.2-3b',
-        name: 'Llama 3.2 3B',
-        filename: 'llama-3.2-3b.gguf',
-        url: 'https://example.com/llama.gguf',
-        license: 'LLAMA 3.2 COMMUNITY LICENSE AGREEMENT',
-        requiresAttribution: true,
-        attributionText: 'Built with Llama',
-      };
+    it('should resume a download', async () => {
+      const handler = handlersMap.get('llm-resume-download')!;
+      await handler({}, 'model1');
 
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true); // file doesn't exist, NOTICE exists
-
-      const existingNotice = 'Existing NOTICE content\n- Llama 3.2 1B (llama-3.2-1b.gguf)\n';
-      (fs.readFileSync as jest.Mock).mockReturnValue(existingNotice);
-
-      const mockFile = {
-        on: jest.fn((event, callback) => {
-          if (event === 'finish') {
-            setTimeout(callback, 10);
-          }
-          return mockFile;
-        }),
-        close: jest.fn(),
-      };
-
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn((file) => {
-          setTimeout(() => {
-            const finishCallback = mockFile.on.mock.calls.find((call: any) => call[0] === 'finish')?.[1];
-            if (finishCallback) finishCallback();
-          }, 10);
-        }),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
-
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
-
-      expect(fs.appendFileSync).toHaveBeenCalledWith(
-        path.join('/models', 'NOTICE'),
-        expect.stringContaining(modelInfo.name)
-      );
+      expect(mockQueue.resume).toHaveBeenCalledWith('model1');
     });
 
-    it('should not duplicate models in NOTICE file', async () => {
-      const modelInfo = {
-        id: 'llama-3.2-1b',
-        name: 'Llama 3.2 1B',
-        filename: 'llama-3.2-1b.gguf',
-        url: 'https://example.com/llama.gguf',
-        license: 'LLAMA 3.2 COMMUNITY LICENSE AGREEMENT',
-        requiresAttribution: true,
-        attributionText: 'Built with Llama',
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true); // file doesn't exist, NOTICE exists
-
-      const existingNotice = 'Existing content\n- Llama 3.2 1B (llama-3.2-1b.gguf)\n';
-      (fs.readFileSync as jest.Mock).mockReturnValue(existingNotice);
-
-      const mockFile = {
-        on: jest.fn((event, callback) => {
-          if (event === 'finish') {
-            setTimeout(callback, 10);
-          }
-          return mockFile;
-        }),
-        close: jest.fn(),
-      };
-
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn((file) => {
-          setTimeout(() => {
-            const finishCallback = mockFile.on.mock.calls.find((call: any) => call[0] === 'finish')?.[1];
-            if (finishCallback) finishCallback();
-          }, 10);
-        }),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+    it('should cancel a download', async () => {
+      const handler = handlersMap.get('llm-cancel-download')!;
+      await handler({}, 'model1');
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
-
-      // Should NOT append since model already exists
-      expect(fs.appendFileSync).not.toHaveBeenCalled();
+      expect(mockQueue.cancel).toHaveBeenCalledWith('model1');
     });
 
-    it('should not create NOTICE file for non-Llama models', async () => {
-      const modelInfo = {
-        id: 'other-model',
-        name: 'Other Model',
-        filename: 'other.gguf',
-        url: 'https://example.com/other.gguf',
-        license: 'MIT',
-        requiresAttribution: false,
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
-      const mockFile = {
-        on: jest.fn((event, callback) => {
-          if (event === 'finish') {
-            setTimeout(callback, 10);
-          }
-          return mockFile;
-        }),
-        close: jest.fn(),
-      };
-
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn((file) => {
-          setTimeout(() => {
-            const finishCallback = mockFile.on.mock.calls.find((call: any) => call[0] === 'finish')?.[1];
-            if (finishCallback) finishCallback();
-          }, 10);
-        }),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
+    it('should list downloads', async () => {
+      mockQueue.list.mockReturnValue([{ id: 'model1', status: 'paused', downloadedBytes: 500, totalBytes: 1000, progress: 50 }]);
 
-      const handler = handlersMap.get('llm-download-model')!;
-      await handler({}, modelInfo);
+      const handler = handlersMap.get('llm-list-downloads')!;
+      const result = await handler();
 
-      expect(fs.writeFileSync).not.toHaveBeenCalled();
-      expect(fs.appendFileSync).not.toHaveBeenCalled();
+      expect(result).toEqual([{ modelId: 'model1', status: 'paused', downloadedBytes: 500, totalBytes: 1000, progress: 50 }]);
     });
 
-    it('should handle NOTICE file creation error gracefully', async () => {
+    it.each([
+      ['llm-pause-download', 'pause', 'Failed to pause download:'],
+      ['llm-resume-download', 'resume', 'Failed to resume download:'],
+      ['llm-cancel-download', 'cancel', 'Failed to cancel download:'],
+      ['llm-list-downloads', 'list', 'Failed to list downloads:'],
+    ])('should log and rethrow errors from %s', async (channel, method, message) => {
       const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      const modelInfo = {
-        id: 'llama-3.2-1b',
-        name: 'Llama 3.2 1B',
-        filename: 'llama-3.2-1b.gguf',
-        url: 'https://example.com/llama.gguf',
-        license: 'LLAMA 3.2 COMMUNITY LICENSE AGREEMENT',
-        requiresAttribution: true,
-        attributionText: 'Built with Llama',
-      };
-
-      mockLLMService.ensureModelsDirectory.mockResolvedValue(undefined);
-      mockLLMService.getModelsDirectory.mockReturnValue('/models');
-      (fs.existsSync as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(false);
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {
-        throw new Error('Write failed');
+      const error = new Error('No download for model1');
+      mockQueue[method].mockImplementationOnce(() => {
+        throw error;
       });
 
-      const mockFile = {
-        on: jest.fn((event, callback) => {
-          if (event === 'finish') {
-            setTimeout(callback, 10);
-          }
-          return mockFile;
-        }),
-        close: jest.fn(),
-      };
-
-      (fs.createWriteStream as jest.Mock).mockReturnValue(mockFile);
-
-      const mockResponse = {
-        statusCode: 200,
-        headers: { 'content-length': '1000' },
-        on: jest.fn(),
-        pipe: jest.fn((file) => {
-          setTimeout(() => {
-            const finishCallback = mockFile.on.mock.calls.find((call: any) => call[0] === 'finish')?.[1];
-            if (finishCallback) finishCallback();
-          }, 10);
-        }),
-      };
-
-      (https.get as jest.Mock).mockImplementation((url, callback) => {
-        callback(mockResponse);
-        return { on: jest.fn() };
-      });
-
-      (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([]);
-
-      const handler = handlersMap.get('llm-download-model')!;
-
-      // Should not throw even if NOTICE creation fails
-      await expect(handler({}, modelInfo)).resolves.not.toThrow();
-      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to create NOTICE file:', expect.any(Error));
+      const handler = handlersMap.get(channel)!;
+      await expect(handler({}, 'model1')).rejects.toThrow('No download for model1');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(message, error);
 
       consoleErrorSpy.mockRestore();
     });
-
   });
 
   describe('llm-delete-model handler', () => {
@@ -1184,6 +997,28 @@ describe('LLMController', () => {
       expect(fs.unlinkSync).toHaveBeenCalledWith('/models/model1.gguf');
     });
 
+    it('should delete the partial file of an interrupted download', async () => {
+      const modelInfo = {
+        id: 'model1',
+        name: 'Model 1',
+        filename: 'model1.gguf',
+        url: 'https://example.com/model1.gguf',
+        size: 1000,
+      };
+
+      mockLLMService.getModelsDirectory.mockReturnValue('/models');
+      mockLLMService.getCurrentModelPath.mockReturnValue(null);
+      (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => filePath !== '/models/model1.gguf');
+
+      const handler = handlersMap.get('llm-delete-model')!;
+      await handler({}, modelInfo);
+
+      expect((fs.unlinkSync as jest.Mock).mock.calls).toEqual([
+        ['/models/model1.gguf.part'],
+        ['/models/model1.gguf.part.validator'],
+      ]);
+    });
+
     it('should unload model if currently loaded', async () => {
       const modelInfo = {
         id: 'model1',
@@ -1254,7 +1089,16 @@ describe('LLMController', () => {
       const handler = handlersMap.get('llm-update-config')!;
       await handler({}, config);
 
-      expect(mockLLMService.updateConfig).toHaveBeenCalledWith(config);
+      expect(mockLLMService.updateConfig).toHaveBeenCalledWith(config, undefined);
+    });
+
+    it('should update the config of a single model', async () => {
+      const config = { contextSize: 4096 };
+
+      const handler = handlersMap.get('llm-update-config')!;
+      await handler({}, config, 'model1');
+
+      expect(mockLLMService.updateConfig).toHaveBeenCalledWith(config, 'model1');
     });
 
     it('should throw error if update fails', async () => {
@@ -1294,6 +1138,56 @@ describe('LLMController', () => {
     });
   });
 
+  describe('saved config handlers', () => {
+    beforeEach(async () => {
+      await LLMController.registerHandlers();
+    });
+
+    it('should get the saved config of a model', async () => {
+      const savedConfig = { temperature: 0.5, maxTokens: 1024, topP: 0.9, contextSize: 4096, gpuLayers: -1 };
+      mockLLMService.getSavedConfig.mockReturnValue(savedConfig);
+
+      const handler = handlersMap.get('llm-get-saved-config')!;
+      const result = await handler({}, 'model1');
+
+      expect(mockLLMService.getSavedConfig).toHaveBeenCalledWith('model1');
+      expect(result).toEqual(savedConfig);
+    });
+
+    it('should get the auto-load setting', async () => {
+      mockLLMService.isAutoLoadEnabled.mockReturnValue(true);
+
+      const handler = handlersMap.get('llm-get-auto-load')!;
+
+      expect(await handler()).toBe(true);
+    });
+
+    it('should set the auto-load setting', async () => {
+      const handler = handlersMap.get('llm-set-auto-load')!;
+      await handler({}, false);
+
+      expect(mockLLMService.setAutoLoadEnabled).toHaveBeenCalledWith(false);
+    });
+
+    it.each([
+      ['llm-get-saved-config', 'getSavedConfig', 'Failed to get saved config:'],
+      ['llm-get-auto-load', 'isAutoLoadEnabled', 'Failed to get auto-load setting:'],
+      ['llm-set-auto-load', 'setAutoLoadEnabled', 'Failed to set auto-load setting:'],
+    ])('should log and rethrow errors from %s', async (channel, method, message) => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('Settings unavailable');
+      (mockLLMService as any)[method].mockImplementationOnce(() => {
+        throw error;
+      });
+
+      const handler = handlersMap.get(channel)!;
+      await expect(handler({}, true)).rejects.toThrow('Settings unavailable');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(message, error);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('llm-generate-response handler', () => {
     beforeEach(async () => {
       await LLMController.registerHandlers();
@@ -1305,7 +1199,7 @@ describe('LLMController', () => {
         send: jest.fn(),
       };
 
-      mockLLMService.generateResponse.mockImplementation(async (prompt: string, callback: (token: string) => void) => {
+      mockInferenceService.generateResponse.mockImplementation(async (prompt: string, callback: (token: string) => void) => {
         callback('This ');
         callback('is ');
         callback('a ');
@@ -1318,13 +1212,13 @@ describe('LLMController', () => {
       const handler = handlersMap.get('llm-generate-response')!;
       const result = await handler(mockEvent, 'test prompt');
 
-      expect(mockLLMService.generateResponse).toHaveBeenCalledWith('test prompt', expect.any(Function));
+      expect(mockInferenceService.generateResponse).toHaveBeenCalledWith('test prompt', expect.any(Function));
       expect(mockSender.send).toHaveBeenCalledWith('llm-token', expect.any(String));
       expect(result).toBe(mockResponse);
     });
 
     it('should throw error if generation fails', async () => {
-      mockLLMService.generateResponse.mockRejectedValue(new Error('Generation failed'));
+      mockInferenceService.generateResponse.mockRejectedValue(new Error('Generation failed'));
 
       const mockEvent = { sender: { send: jest.fn() } };
       const handler = handlersMap.get('llm-generate-response')!;
@@ -1332,6 +1226,36 @@ describe('LLMController', () => {
     });
   });
 
+  describe('llm-generate-structured handler', () => {
+    const schema = { type: 'object', properties: { title: { type: 'string' } } };
+
+    beforeEach(async () => {
+      await LLMController.registerHandlers();
+    });
+
+    it('should return the generated value', async () => {
+      mockInferenceService.generateStructured.mockResolvedValue({ title: 'Weekend plans' });
+
+      const handler = handlersMap.get('llm-generate-structured')!;
+      const result = await handler({}, 'Name this chat', schema);
+
+      expect(mockInferenceService.generateStructured).toHaveBeenCalledWith('Name this chat', schema);
+      expect(result).toEqual({ title: 'Weekend plans' });
+    });
+
+    it('should log and rethrow errors', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('No model loaded');
+      mockInferenceService.generateStructured.mockRejectedValue(error);
+
+      const handler = handlersMap.get('llm-generate-structured')!;
+      await expect(handler({}, 'Name this chat', schema)).rejects.toThrow('No model loaded');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to generate structured response:', error);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('llm-get-models-directory handler', () => {
     beforeEach(async () => {
       await LLMController.registerHandlers();
@@ -1,9 +1,35 @@
 import { ipcMain, dialog, BrowserWindow } from 'electron';
-import type { ModelInfo, LLMConfig } from '../services/llm.service';
+import type { ModelInfo, LLMConfig, JsonSchema, ApiServerSettings, EndpointSettings } from '../services/llm.service';
+import type { InferenceProviderId } from '../services/inference.provider';
+import type { ActiveModel } from '../services/inference.service';
+import type { EndpointModel } from '../services/openai.provider';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
-import { initializeLLMService, logScanFolderError, cleanupPartialDownload } from './llm.controller.helpers';
+import { DownloadQueue, getPartPath, getValidatorPath } from '../services/download.service';
+import type { DownloadState, DownloadStatus } from '../services/download.service';
+import { ApiServer } from '../services/apiServer.service';
+import type { ApiServerStatus } from '../services/apiServer.service';
+import { initializeLLMService, logScanFolderError } from './llm.controller.helpers';
+
+export interface DownloadProgress {
+  modelId: string;
+  status: DownloadStatus;
+  progress: number;
+  downloadedBytes: number;
+  totalBytes: number;
+  error?: string;
+}
+
+export type ModelLoadStatus = 'loading' | 'loaded' | 'failed';
+
+export interface ModelLoadProgress {
+  provider: InferenceProviderId;
+  modelPath: string; // Model name for endpoints
+  modelId: string | null;
+  status: ModelLoadStatus;
+  progress: number; // 0-100
+  error?: string;
+}
 
 let llmServicePromise: Promise<any> | null = null;
 
@@ -19,7 +45,116 @@ async function getLLMService() {
   return llmServicePromise;
 }
 
+let inferenceServicePromise: Promise<any> | null = null;
+
+async function getInferenceService() {
+  if (!inferenceServicePromise) {
+    inferenceServicePromise = (async () => {
+      // Initializes node-llama-cpp for the local provider
+      await getLLMService();
+      const { getInferenceService: getService } = await import('../services/inference.service');
+      return getService();
+    })();
+  }
+  return inferenceServicePromise;
+}
+
+function toDownloadProgress(state: DownloadState): DownloadProgress {
+  const { id, ...progress } = state;
+  return { modelId: id, ...progress };
+}
+
+// Model downloads run one at a time; every state change is sent to all windows
+const downloadQueue = new DownloadQueue((state) => {
+  BrowserWindow.getAllWindows().forEach(win => {
+    win.webContents.send('llm-download-progress', toDownloadProgress(state));
+  });
+});
+
+// Local OpenAI-compatible server, answering with the loaded model
+const apiServer = new ApiServer(getInferenceService);
+
+// Kept so windows opened while a model loads can show its progress
+let lastLoadProgress: ModelLoadProgress | null = null;
+
+function sendLoadProgress(progress: ModelLoadProgress): void {
+  lastLoadProgress = progress;
+  BrowserWindow.getAllWindows().forEach(win => {
+    win.webContents.send('llm-load-progress', progress);
+  });
+}
+
+/**
+ * Load a model with a provider and report its progress to all windows
+ */
+async function loadModelWithProgress(
+  provider: InferenceProviderId,
+  modelPath: string,
+  config: Partial<LLMConfig> | undefined,
+  modelId: string | null
+): Promise<void> {
+  sendLoadProgress({ provider, modelPath, modelId, status: 'loading', progress: 0 });
+
+  try {
+    const inferenceService = await getInferenceService();
+    await inferenceService.loadModel(provider, modelPath, config, {
+      modelId,
+      onProgress: (loaded: number) => {
+        const progress = Math.round(loaded * 100);
+        if (progress !== lastLoadProgress?.progress) {
+          sendLoadProgress({ provider, modelPath, modelId, status: 'loading', progress });
+        }
+      },
+    });
+    sendLoadProgress({ provider, modelPath, modelId, status: 'loaded', progress: 100 });
+  } catch (error) {
+    sendLoadProgress({ provider, modelPath, modelId, status: 'failed', progress: 0, error: (error as Error).message });
+    throw error;
+  }
+}
+
 export class LLMController {
+  /**
+   * Load the last used model when enabled in the settings.
+   * Errors are logged rather than thrown so a moved or broken model file does not affect startup.
+   */
+  static async autoLoadLastModel(): Promise<void> {
+    try {
+      const llmService = await getLLMService();
+      const lastModel = llmService.getLastModel();
+      if (!llmService.isAutoLoadEnabled() || !lastModel) {
+        return;
+      }
+
+      const provider = lastModel.provider ?? 'llama-cpp';
+      if (provider === 'llama-cpp' && !fs.existsSync(lastModel.path)) {
+        console.warn('Last model not found, skipping auto-load:', lastModel.path);
+        return;
+      }
+
+      await loadModelWithProgress(provider, lastModel.path, undefined, lastModel.modelId);
+      console.log('Last model loaded:', lastModel.path);
+    } catch (error) {
+      console.error('Failed to auto-load last model:', error);
+    }
+  }
+
+  /**
+   * Start the API server when it was left running at the last exit.
+   * Errors are logged rather than thrown so a port taken by another app does not affect startup.
+   */
+  static async autoStartApiServer(): Promise<void> {
+    try {
+      const llmService = await getLLMService();
+      const settings = llmService.getApiServerSettings();
+      if (settings.enabled) {
+        await apiServer.start(settings);
+      }
+    } catch (error) {
+      console.error('Failed to auto-start API server:', error);
+    }
+  }
+
   static async registerHandlers(): Promise<void> {
 
     // List available models from llms.json
@@ -71,52 +206,105 @@ export class LLMController {
       }
     });
 
-    // Load model
-    ipcMain.handle('llm-load-model', async (_event, modelPath: string, config?: Partial<LLMConfig>): Promise<void> => {
+    // Load model, with the saved overrides of modelId when given
+    ipcMain.handle('llm-load-model', async (_event, modelPath: string, config?: Partial<LLMConfig>, modelId?: string): Promise<void> => {
       try {
-        const llmService = await getLLMService();
-        await llmService.loadModel(modelPath, config);
+        await loadModelWithProgress('llama-cpp', modelPath, config, modelId ?? null);
       } catch (error) {
         console.error('Failed to load model:', error);
         throw error;
       }
     });
 
-    // Unload model
+    // Unload the model of the active provider
     ipcMain.handle('llm-unload-model', async (): Promise<void> => {
       try {
-        const llmService = await getLLMService();
-        await llmService.unloadModel();
+        const inferenceService = await getInferenceService();
+        await inferenceService.unloadModel();
       } catch (error) {
         console.error('Failed to unload model:', error);
         throw error;
       }
     });
 
-    // Check if model is loaded
+    // Check if a model is loaded, with any provider
     ipcMain.handle('llm-is-loaded', async (): Promise<boolean> => {
       try {
-        const llmService = await getLLMService();
-        return llmService.isModelLoaded();
+        const inferenceService = await getInferenceService();
+        return inferenceService.isModelLoaded();
       } catch (error) {
         console.error('Failed to check model status:', error);
         return false;
       }
     });
 
-    // Get current model path
+    // Get current model path, or model name for endpoints
     ipcMain.handle('llm-get-current-model', async (): Promise<string | null> => {
       try {
-        const llmService = await getLLMService();
-        return llmService.getCurrentModelPath();
+        const inferenceService = await getInferenceService();
+        return inferenceService.getCurrentModelPath();
       } catch (error) {
         console.error('Failed to get current model:', error);
         return null;
       }
     });
 
-    // Download model
-    ipcMain.handle('llm-download-model', async (_event, modelInfo: ModelInfo): Promise<void> => {
+    // Get the loaded model and the provider running it
+    ipcMain.handle('llm-get-active-model', async (): Promise<ActiveModel | null> => {
+      try {
+        const inferenceService = await getInferenceService();
+        return inferenceService.getActiveModel();
+      } catch (error) {
+        console.error('Failed to get active model:', error);
+        return null;
+      }
+    });
+
+    // Get the OpenAI-compatible endpoint settings
+    ipcMain.handle('llm-endpoint-get-settings', async (): Promise<EndpointSettings> => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.getEndpointSettings();
+      } catch (error) {
+        console.error('Failed to get endpoint settings:', error);
+        throw error;
+      }
+    });
+
+    // Save OpenAI-compatible endpoint settings, used from the next request on
+    ipcMain.handle('llm-endpoint-update-settings', async (_event, changes: Partial<EndpointSettings>): Promise<EndpointSettings> => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.updateEndpointSettings(changes);
+      } catch (error) {
+        console.error('Failed to update endpoint settings:', error);
+        throw error;
+      }
+    });
+
+    // List the models served by the endpoint
+    ipcMain.handle('llm-endpoint-list-models', async (): Promise<EndpointModel[]> => {
+      try {
+        const inferenceService = await getInferenceService();
+        return await inferenceService.listEndpointModels();
+      } catch (error) {
+        console.error('Failed to list endpoint models:', error);
+        throw error;
+      }
+    });
+
+    // Use a model served by the endpoint, unloading the local model
+    ipcMain.handle('llm-endpoint-load-model', async (_event, model: string): Promise<void> => {
+      try {
+        await loadModelWithProgress('openai-compatible', model, undefined, null);
+      } catch (error) {
+        console.error('Failed to load endpoint model:', error);
+        throw error;
+      }
+    });
+
+    // Queue a model download, resumed from its partial file if a previous attempt was interrupted
+    ipcMain.handle('llm-download-model', async (_event, modelInfo: ModelInfo): Promise<DownloadProgress> => {
       try {
         const llmService = await getLLMService();
         await llmService.ensureModelsDirectory();
@@ -128,28 +316,60 @@ export class LLMController {
           throw new Error('Model already downloaded');
         }
 
-        // Download the file
-        await downloadFile(modelInfo.url, filePath, (progress) => {
-          // Send progress updates to renderer
-          const windows = BrowserWindow.getAllWindows();
-          windows.forEach(win => {
-            win.webContents.send('llm-download-progress', {
-              modelId: modelInfo.id,
-              progress,
-            });
-          });
-        });
+        const state = downloadQueue.enqueue(
+          { id: modelInfo.id, url: modelInfo.url, destPath: filePath, sha256: modelInfo.sha256 },
+          () => {
+            // If this is a Llama model, create/update NOTICE file
+            if (modelInfo.requiresAttribution) {
+              createOrUpdateNoticeFile(modelsDir, modelInfo);
+            }
+
+            console.log('Model downloaded successfully:', filePath);
+          }
+        );
+        return toDownloadProgress(state);
+      } catch (error) {
+        console.error('Failed to download model:', error);
+        throw error;
+      }
+    });
 
-        // If this is a Llama model, create/update NOTICE file
-        if (modelInfo.requiresAttribution) {
-          createOrUpdateNoticeFile(modelsDir, modelInfo);
-        }
+    // Pause a download, keeping its partial file
+    ipcMain.handle('llm-pause-download', async (_event, modelId: string): Promise<void> => {
+      try {
+        downloadQueue.pause(modelId);
+      } catch (error) {
+        console.error('Failed to pause download:', error);
+        throw error;
+      }
+    });
 
-        console.log('Model downloaded successfully:', filePath);
+    // Resume a paused or failed download
+    ipcMain.handle('llm-resume-download', async (_event, modelId: string): Promise<void> => {
+      try {
+        downloadQueue.resume(modelId);
       } catch (error) {
-        console.error('Failed to download model:', error);
-        // Clean up partial download
-        await cleanupPartialDownload(getLLMService, modelInfo.filename);
+        console.error('Failed to resume download:', error);
+        throw error;
+      }
+    });
+
+    // Cancel a download and delete its partial file
+    ipcMain.handle('llm-cancel-download', async (_event, modelId: string): Promise<void> => {
+      try {
+        downloadQueue.cancel(modelId);
+      } catch (error) {
+        console.error('Failed to cancel download:', error);
+        throw error;
+      }
+    });
+
+    // List queued, running, paused and failed downloads
+    ipcMain.handle('llm-list-downloads', async (): Promise<DownloadProgress[]> => {
+      try {
+        return downloadQueue.list().map(toDownloadProgress);
+      } catch (error) {
+        console.error('Failed to list downloads:', error);
         throw error;
       }
     });
@@ -166,10 +386,13 @@ export class LLMController {
           await llmService.unloadModel();
         }
 
-        // Delete file
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-          console.log('Model deleted successfully:', filePath);
+        // Delete the file, and what is left of an interrupted download of it
+        const partPath = getPartPath(filePath);
+        for (const target of [filePath, partPath, getValidatorPath(partPath)]) {
+          if (fs.existsSync(target)) {
+            fs.unlinkSync(target);
+            console.log('Model deleted successfully:', target);
+          }
         }
       } catch (error) {
         console.error('Failed to delete model:', error);
@@ -177,11 +400,16 @@ export class LLMController {
       }
     });
 
-    // Update configuration
-    ipcMain.handle('llm-update-config', async (_event, config: Partial<LLMConfig>): Promise<void> => {
+    // Get progress of the model being loaded, or of the last load
+    ipcMain.handle('llm-get-load-progress', async (): Promise<ModelLoadProgress | null> => {
+      return lastLoadProgress;
+    });
+
+    // Save configuration, for every model or for modelId only
+    ipcMain.handle('llm-update-config', async (_event, config: Partial<LLMConfig>, modelId?: string): Promise<void> => {
       try {
         const llmService = await getLLMService();
-        llmService.updateConfig(config);
+        llmService.updateConfig(config, modelId);
       } catch (error) {
         console.error('Failed to update config:', error);
         throw error;
@@ -199,12 +427,45 @@ export class LLMController {
       }
     });
 
+    // Get saved configuration, with the overrides of modelId when given
+    ipcMain.handle('llm-get-saved-config', async (_event, modelId?: string): Promise<LLMConfig> => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.getSavedConfig(modelId);
+      } catch (error) {
+        console.error('Failed to get saved config:', error);
+        throw error;
+      }
+    });
+
+    // Get whether the last model is loaded at startup
+    ipcMain.handle('llm-get-auto-load', async (): Promise<boolean> => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.isAutoLoadEnabled();
+      } catch (error) {
+        console.error('Failed to get auto-load setting:', error);
+        throw error;
+      }
+    });
+
+    // Set whether the last model is loaded at startup
+    ipcMain.handle('llm-set-auto-load', async (_event, enabled: boolean): Promise<void> => {
+      try {
+        const llmService = await getLLMService();
+        llmService.setAutoLoadEnabled(enabled);
+      } catch (error) {
+        console.error('Failed to set auto-load setting:', error);
+        throw error;
+      }
+    });
+
     // Generate response with streaming support
     ipcMain.handle('llm-generate-response', async (event, prompt: string): Promise<string> => {
       try {
-        const llmService = await getLLMService();
+        const inferenceService = await getInferenceService();
         const sender = event.sender;
-        const response = await llmService.generateResponse(prompt, (token: string) => {
+        const response = await inferenceService.generateResponse(prompt, (token: string) => {
           // Send token to renderer process for streaming
           sender.send('llm-token', token);
         });
@@ -215,6 +476,75 @@ export class LLMController {
       }
     });
 
+    // Generate a value matching a JSON schema, parsed and validated in the main process
+    ipcMain.handle('llm-generate-structured', async (_event, prompt: string, jsonSchema: JsonSchema): Promise<unknown> => {
+      try {
+        const inferenceService = await getInferenceService();
+        return await inferenceService.generateStructured(prompt, jsonSchema);
+      } catch (error) {
+        console.error('Failed to generate structured response:', error);
+        throw error;
+      }
+    });
+
+    // Get whether the API server is running, and its address
+    ipcMain.handle('llm-server-get-status', async (): Promise<ApiServerStatus> => {
+      return apiServer.getStatus();
+    });
+
+    // Get the API server settings
+    ipcMain.handle('llm-server-get-settings', async (): Promise<ApiServerSettings> => {
+      try {
+        const llmService = await getLLMService();
+        return llmService.getApiServerSettings();
+      } catch (error) {
+        console.error('Failed to get API server settings:', error);
+        throw error;
+      }
+    });
+
+    // Save API server settings, restarting the server to apply them when it runs
+    ipcMain.handle('llm-server-update-settings', async (_event, changes: Partial<ApiServerSettings>): Promise<ApiServerSettings> => {
+      try {
+        const llmService = await getLLMService();
+        const settings = llmService.updateApiServerSettings(changes);
+        if (apiServer.isRunning()) {
+          await apiServer.start(settings);
+        }
+        return settings;
+      } catch (error) {
+        console.error('Failed to update API server settings:', error);
+        throw error;
+      }
+    });
+
+    // Start the API server, and start it with the app from now on
+    ipcMain.handle('llm-server-start', async (): Promise<ApiServerStatus> => {
+      try {
+        const llmService = await getLLMService();
+        const settings = llmService.getApiServerSettings();
+        const status = await apiServer.start(settings);
+        llmService.updateApiServerSettings({ enabled: true });
+        return status;
+      } catch (error) {
+        console.error('Failed to start API server:', error);
+        throw error;
+      }
+    });
+
+    // Stop the API server, and keep it stopped at the next start
+    ipcMain.handle('llm-server-stop', async (): Promise<ApiServerStatus> => {
+      try {
+        const llmService = await getLLMService();
+        await apiServer.stop();
+        llmService.updateApiServerSettings({ enabled: false });
+        return apiServer.getStatus();
+      } catch (error) {
+        console.error('Failed to stop API server:', error);
+        throw error;
+      }
+    });
+
     // Get models directory
     ipcMain.handle('llm-get-models-directory', async (): Promise<string> => {
       try {
@@ -268,62 +598,6 @@ export class LLMController {
   }
 }
 
-// Helper function to download files with progress tracking
-function downloadFile(url: string, destPath: string, onProgress?: (progress: number) => void): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const file = fs.createWriteStream(destPath);
-    let downloadedBytes = 0;
-    let totalBytes = 0;
-
-    https.get(url, (response) => {
-      // Handle redirects
-      if (response.statusCode === 301 || response.statusCode === 302) {
-        file.close();
-        fs.unlinkSync(destPath);
-        const redirectUrl = response.headers.location;
-        if (redirectUrl) {
-          return downloadFile(redirectUrl, destPath, onProgress).then(resolve).catch(reject);
-        } else {
-          return reject(new Error('Redirect without location header'));
-        }
-      }
-
-      if (response.statusCode !== 200) {
-        file.close();
-        fs.unlinkSync(destPath);
-        return reject(new Error(`Failed to download: ${response.statusCode}`));
-      }
-
-      totalBytes = parseInt(response.headers['content-length'] || '0', 10);
-
-      response.on('data', (chunk) => {
-        downloadedBytes += chunk.length;
-        if (onProgress && totalBytes > 0) {
-          const progress = (downloadedBytes / totalBytes) * 100;
-          onProgress(progress);
-        }
-      });
-
-      response.pipe(file);
-
-      file.on('finish', () => {
-        file.close();
-        resolve();
-      });
-    }).on('error', (err) => {
-      file.close();
-      fs.unlinkSync(destPath);
-      reject(err);
-    });
-
-    file.on('error', (err) => {
-      file.close();
-      fs.unlinkSync(destPath);
-      reject(err);
-    });
-  });
-}
-
 // Helper function to create or update NOTICE file for Llama models
 function createOrUpdateNoticeFile(modelsDir: string, modelInfo: ModelInfo): void {
   try {
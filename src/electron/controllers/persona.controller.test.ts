@@ -0,0 +1,160 @@
+import { ipcMain } from 'electron';
+import { PersonaController } from './persona.controller';
+import { personaService } from '../services/persona.service';
+
+// Mock the persona service
+jest.mock('../services/persona.service', () => ({
+  personaService: {
+    initialize: jest.fn(),
+    getAllPersonas: jest.fn(),
+    createPersona: jest.fn(),
+    updatePersona: jest.fn(),
+    deletePersona: jest.fn(),
+  },
+}));
+
+// Mock ipcMain
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: jest.fn(),
+    removeHandler: jest.fn(),
+  },
+}));
+
+describe('PersonaController', () => {
+  const mockIpcMain = ipcMain as jest.Mocked<typeof ipcMain>;
+  const mockPersonaService = personaService as jest.Mocked<typeof personaService>;
+  let handlersMap: Map<string, Function>;
+
+  const persona = {
+    id: 1,
+    name: 'Translator',
+    systemPrompt: 'Translate everything',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlersMap = new Map();
+    (mockIpcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+      handlersMap.set(channel, handler);
+    });
+  });
+
+  describe('registerHandlers', () => {
+    it('should initialize service and register all IPC handlers', async () => {
+      mockPersonaService.initialize.mockResolvedValue(undefined);
+
+      await PersonaController.registerHandlers();
+
+      expect(mockPersonaService.initialize).toHaveBeenCalled();
+      expect(mockIpcMain.handle).toHaveBeenCalledWith('persona-get-all', expect.any(Function));
+      expect(mockIpcMain.handle).toHaveBeenCalledWith('persona-create', expect.any(Function));
+      expect(mockIpcMain.handle).toHaveBeenCalledWith('persona-update', expect.any(Function));
+      expect(mockIpcMain.handle).toHaveBeenCalledWith('persona-delete', expect.any(Function));
+      expect(mockIpcMain.handle).toHaveBeenCalledTimes(4);
+    });
+
+    it('should register handlers even if initialization fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPersonaService.initialize.mockRejectedValue(new Error('Init failed'));
+
+      await PersonaController.registerHandlers();
+
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to initialize persona service:', expect.any(Error));
+      expect(mockIpcMain.handle).toHaveBeenCalledTimes(4);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('removeHandlers', () => {
+    it('should remove all IPC handlers', () => {
+      PersonaController.removeHandlers();
+
+      expect(mockIpcMain.removeHandler).toHaveBeenCalledWith('persona-get-all');
+      expect(mockIpcMain.removeHandler).toHaveBeenCalledWith('persona-create');
+      expect(mockIpcMain.removeHandler).toHaveBeenCalledWith('persona-update');
+      expect(mockIpcMain.removeHandler).toHaveBeenCalledWith('persona-delete');
+      expect(mockIpcMain.removeHandler).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('IPC Handler Functions', () => {
+    let consoleSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPersonaService.initialize.mockResolvedValue(undefined);
+      await PersonaController.registerHandlers();
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    it('should get all personas', async () => {
+      mockPersonaService.getAllPersonas.mockResolvedValue([persona]);
+
+      const result = await handlersMap.get('persona-get-all')!({});
+
+      expect(result).toEqual([persona]);
+    });
+
+    it('should throw if getting personas fails', async () => {
+      mockPersonaService.getAllPersonas.mockRejectedValue(new Error('Get failed'));
+
+      await expect(handlersMap.get('persona-get-all')!({})).rejects.toThrow('Get failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to get personas:', expect.any(Error));
+    });
+
+    it('should create a persona', async () => {
+      const data = { name: 'Translator', systemPrompt: 'Translate everything' };
+      mockPersonaService.createPersona.mockResolvedValue(persona);
+
+      const result = await handlersMap.get('persona-create')!({}, data);
+
+      expect(mockPersonaService.createPersona).toHaveBeenCalledWith(data);
+      expect(result).toEqual(persona);
+    });
+
+    it('should throw if creating a persona fails', async () => {
+      mockPersonaService.createPersona.mockRejectedValue(new Error('Create failed'));
+
+      await expect(handlersMap.get('persona-create')!({}, {})).rejects.toThrow('Create failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to create persona:', expect.any(Error));
+    });
+
+    it('should update a persona', async () => {
+      const data = { name: 'Translator', systemPrompt: 'Translate to French' };
+      mockPersonaService.updatePersona.mockResolvedValue({ ...persona, ...data });
+
+      const result = await handlersMap.get('persona-update')!({}, 1, data);
+
+      expect(mockPersonaService.updatePersona).toHaveBeenCalledWith(1, data);
+      expect(result.systemPrompt).toBe('Translate to French');
+    });
+
+    it('should throw if updating a persona fails', async () => {
+      mockPersonaService.updatePersona.mockRejectedValue(new Error('Update failed'));
+
+      await expect(handlersMap.get('persona-update')!({}, 1, {})).rejects.toThrow('Update failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to update persona:', expect.any(Error));
+    });
+
+    it('should delete a persona', async () => {
+      mockPersonaService.deletePersona.mockResolvedValue(undefined);
+
+      await handlersMap.get('persona-delete')!({}, 1);
+
+      expect(mockPersonaService.deletePersona).toHaveBeenCalledWith(1);
+    });
+
+    it('should throw if deleting a persona fails', async () => {
+      mockPersonaService.deletePersona.mockRejectedValue(new Error('Delete failed'));
+
+      await expect(handlersMap.get('persona-delete')!({}, 1)).rejects.toThrow('Delete failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to delete persona:', expect.any(Error));
+    });
+  });
+});
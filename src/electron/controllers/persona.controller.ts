@@ -0,0 +1,70 @@
+import { ipcMain } from 'electron';
+import { personaService, PersonaRequest } from '../services/persona.service';
+
+/**
+ * Persona IPC Controller
+ * Handles all IPC communication for the persona (system prompt preset) library
+ */
+export class PersonaController {
+  /**
+   * Initialize all persona-related IPC handlers
+   */
+  static async registerHandlers(): Promise<void> {
+    try {
+      await personaService.initialize();
+      console.log('Persona service initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize persona service:', error);
+    }
+
+    // Get all personas
+    ipcMain.handle('persona-get-all', async () => {
+      try {
+        return await personaService.getAllPersonas();
+      } catch (error) {
+        console.error('Failed to get personas:', error);
+        throw error;
+      }
+    });
+
+    // Create a persona
+    ipcMain.handle('persona-create', async (_event, data: PersonaRequest) => {
+      try {
+        return await personaService.createPersona(data);
+      } catch (error) {
+        console.error('Failed to create persona:', error);
+        throw error;
+      }
+    });
+
+    // Update a persona
+    ipcMain.handle('persona-update', async (_event, id: number, data: PersonaRequest) => {
+      try {
+        return await personaService.updatePersona(id, data);
+      } catch (error) {
+        console.error('Failed to update persona:', error);
+        throw error;
+      }
+    });
+
+    // Delete a persona
+    ipcMain.handle('persona-delete', async (_event, id: number) => {
+      try {
+        await personaService.deletePersona(id);
+      } catch (error) {
+        console.error('Failed to delete persona:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Remove all persona IPC handlers
+   */
+  static removeHandlers(): void {
+    ipcMain.removeHandler('persona-get-all');
+    ipcMain.removeHandler('persona-create');
+    ipcMain.removeHandler('persona-update');
+    ipcMain.removeHandler('persona-delete');
+  }
+}
@@ -0,0 +1,169 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import {
+  RETENTION_FIRST_RUN_DELAY_MS,
+  RETENTION_INTERVAL_MS,
+  RetentionController,
+  applyRetentionPolicy,
+} from './retention.controller';
+import { retentionService } from '../services/retention.service';
+
+// Mock the retention service, it reads the policy file and deletes chats
+jest.mock('../services/retention.service', () => ({
+  retentionService: {
+    getPolicy: jest.fn(),
+    updatePolicy: jest.fn(),
+    preview: jest.fn(),
+    apply: jest.fn(),
+  },
+}));
+
+// Mock electron
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: jest.fn(),
+    removeHandler: jest.fn(),
+  },
+  BrowserWindow: {
+    getAllWindows: jest.fn(),
+  },
+}));
+
+const removed = [{ id: 4, name: 'Old chat', updatedAt: new Date('2025-01-01T00:00:00Z'), reason: 'age' }];
+
+describe('RetentionController', () => {
+  let handlersMap: Map<string, Function>;
+  let consoleSpy: jest.SpyInstance;
+  const send = jest.fn();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    handlersMap = new Map();
+    (ipcMain.handle as jest.Mock).mockImplementation((channel: string, handler: Function) => {
+      handlersMap.set(channel, handler);
+    });
+    (BrowserWindow.getAllWindows as jest.Mock).mockReturnValue([{ webContents: { send } }]);
+    consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    await RetentionController.registerHandlers();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('registerHandlers', () => {
+    it('should register all IPC handlers', () => {
+      expect(ipcMain.handle).toHaveBeenCalledWith('retention-get-policy', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('retention-update-policy', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('retention-preview', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('retention-apply', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('removeHandlers', () => {
+    it('should remove all IPC handlers', () => {
+      RetentionController.removeHandlers();
+
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('retention-get-policy');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('retention-update-policy');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('retention-preview');
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('retention-apply');
+    });
+  });
+
+  describe('policy handlers', () => {
+    it('should return the policy', async () => {
+      const policy = { enabled: true, maxAgeDays: 30, maxChats: null };
+      (retentionService.getPolicy as jest.Mock).mockReturnValue(policy);
+
+      await expect(handlersMap.get('retention-get-policy')!({})).resolves.toEqual(policy);
+    });
+
+    it('should save the policy', async () => {
+      const policy = { enabled: false, maxAgeDays: null, maxChats: 50 };
+      (retentionService.updatePolicy as jest.Mock).mockReturnValue(policy);
+
+      const result = await handlersMap.get('retention-update-policy')!({}, { maxChats: 50 });
+
+      expect(retentionService.updatePolicy).toHaveBeenCalledWith({ maxChats: 50 });
+      expect(result).toEqual(policy);
+    });
+
+    it('should throw error for invalid limits', async () => {
+      (retentionService.updatePolicy as jest.Mock).mockImplementation(() => {
+        throw new Error('Retention limits must be positive whole numbers, got 0');
+      });
+
+      await expect(handlersMap.get('retention-update-policy')!({}, { maxChats: 0 })).rejects.toThrow('positive whole numbers');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to update retention policy:', expect.any(Error));
+    });
+
+    it('should preview the chats a policy would delete', async () => {
+      (retentionService.preview as jest.Mock).mockResolvedValue(removed);
+
+      const result = await handlersMap.get('retention-preview')!({}, { maxAgeDays: 30 });
+
+      expect(retentionService.preview).toHaveBeenCalledWith({ maxAgeDays: 30 });
+      expect(result).toEqual(removed);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyRetentionPolicy', () => {
+    it('should tell the windows which chats were deleted', async () => {
+      (retentionService.apply as jest.Mock).mockResolvedValue(removed);
+
+      await expect(handlersMap.get('retention-apply')!({})).resolves.toEqual(removed);
+      expect(send).toHaveBeenCalledWith('retention-applied', [4]);
+    });
+
+    it('should not notify the windows when nothing was deleted', async () => {
+      (retentionService.apply as jest.Mock).mockResolvedValue([]);
+
+      await applyRetentionPolicy();
+
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedule', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      (retentionService.apply as jest.Mock).mockResolvedValue(removed);
+    });
+
+    afterEach(() => {
+      RetentionController.stopSchedule();
+      jest.useRealTimers();
+    });
+
+    it('should apply the policy shortly after startup, then periodically', async () => {
+      RetentionController.startSchedule();
+      expect(retentionService.apply).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(RETENTION_FIRST_RUN_DELAY_MS);
+      expect(retentionService.apply).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(RETENTION_INTERVAL_MS);
+      expect(retentionService.apply).toHaveBeenCalledTimes(2);
+      expect(send).toHaveBeenCalledWith('retention-applied', [4]);
+    });
+
+    it('should stop applying the policy once stopped', async () => {
+      RetentionController.startSchedule();
+      RetentionController.stopSchedule();
+
+      await jest.advanceTimersByTimeAsync(RETENTION_INTERVAL_MS);
+      expect(retentionService.apply).not.toHaveBeenCalled();
+    });
+
+    it('should log failures of the scheduled job', async () => {
+      (retentionService.apply as jest.Mock).mockRejectedValue(new Error('Database locked'));
+
+      RetentionController.startSchedule();
+      await jest.advanceTimersByTimeAsync(RETENTION_FIRST_RUN_DELAY_MS);
+
+      expect(consoleSpy).toHaveBeenCalledWith('Scheduled retention failed:', expect.any(Error));
+    });
+  });
+});
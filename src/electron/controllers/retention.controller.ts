@@ -0,0 +1,122 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import { retentionService } from '../services/retention.service';
+import type { RetentionCandidate, RetentionPolicy } from '../services/retention.helpers';
+
+// The first run waits for the app to settle, later runs happen a few times a day
+export const RETENTION_FIRST_RUN_DELAY_MS = 60 * 1000;
+export const RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let firstRunTimer: ReturnType<typeof setTimeout> | null = null;
+let intervalTimer: ReturnType<typeof setInterval> | null = null;
+
+function sendRetentionApplied(removed: RetentionCandidate[]): void {
+  BrowserWindow.getAllWindows().forEach(win => {
+    win.webContents.send('retention-applied', removed.map((chat) => chat.id));
+  });
+}
+
+/**
+ * Apply the retention policy and tell the windows which chats were deleted
+ */
+export async function applyRetentionPolicy(): Promise<RetentionCandidate[]> {
+  const removed = await retentionService.apply();
+  if (removed.length > 0) {
+    sendRetentionApplied(removed);
+  }
+  return removed;
+}
+
+async function runScheduledRetention(): Promise<void> {
+  try {
+    await applyRetentionPolicy();
+  } catch (error) {
+    console.error('Scheduled retention failed:', error);
+  }
+}
+
+/**
+ * Retention IPC Controller
+ * Handles all IPC communication for the chat retention policy, and its scheduled job
+ */
+export class RetentionController {
+  /**
+   * Initialize all retention-related IPC handlers
+   */
+  static async registerHandlers(): Promise<void> {
+    // Get the retention policy
+    ipcMain.handle('retention-get-policy', async () => {
+      try {
+        return retentionService.getPolicy();
+      } catch (error) {
+        console.error('Failed to get retention policy:', error);
+        throw error;
+      }
+    });
+
+    // Update the retention policy; returns the saved policy
+    ipcMain.handle('retention-update-policy', async (_event, changes: Partial<RetentionPolicy>) => {
+      try {
+        return retentionService.updatePolicy(changes);
+      } catch (error) {
+        console.error('Failed to update retention policy:', error);
+        throw error;
+      }
+    });
+
+    // List the chats a policy would delete, without deleting them
+    ipcMain.handle('retention-preview', async (_event, policy?: Partial<RetentionPolicy>) => {
+      try {
+        return await retentionService.preview(policy);
+      } catch (error) {
+        console.error('Failed to preview retention policy:', error);
+        throw error;
+      }
+    });
+
+    // Apply the saved policy now; returns the deleted chats
+    ipcMain.handle('retention-apply', async () => {
+      try {
+        return await applyRetentionPolicy();
+      } catch (error) {
+        console.error('Failed to apply retention policy:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Apply the retention policy shortly after startup, then periodically
+   */
+  static startSchedule(): void {
+    RetentionController.stopSchedule();
+    firstRunTimer = setTimeout(() => {
+      firstRunTimer = null;
+      runScheduledRetention();
+    }, RETENTION_FIRST_RUN_DELAY_MS);
+    intervalTimer = setInterval(runScheduledRetention, RETENTION_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the scheduled retention job
+   */
+  static stopSchedule(): void {
+    if (firstRunTimer) {
+      clearTimeout(firstRunTimer);
+      firstRunTimer = null;
+    }
+    if (intervalTimer) {
+      clearInterval(intervalTimer);
+      intervalTimer = null;
+    }
+  }
+
+  /**
+   * Remove all retention IPC handlers
+   */
+  static removeHandlers(): void {
+    ipcMain.removeHandler('retention-get-policy');
+    ipcMain.removeHandler('retention-update-policy');
+    ipcMain.removeHandler('retention-preview');
+    ipcMain.removeHandler('retention-apply');
+  }
+}
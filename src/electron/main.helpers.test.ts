@@ -6,6 +6,7 @@ import {
   buildStartUrl,
   calculateLicenseWindowSize,
   calculateOptimalWindowSize,
+  formatMigrationErrorMessage,
   getBasePath,
   getLocaleOrDefault,
   handleWindowAction,
@@ -505,6 +506,16 @@ describe('main.helpers', () => {
 		});
 	});
 
+	describe('formatMigrationErrorMessage', () => {
+		it('should give the error and where the backups are', () => {
+			const message = formatMigrationErrorMessage(new Error('no such column: folderId'), '/data/database.db');
+
+			expect(message).toContain('will now close');
+			expect(message).toContain('no such column: folderId');
+			expect(message).toContain('/data/database.db');
+		});
+	});
+
 	describe('logLLMInitializationError', () => {
 		it('should log LLM initialization error', () => {
 			const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
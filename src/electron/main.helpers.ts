@@ -196,6 +196,15 @@ export async function getLocaleOrDefault(window: any): Promise<string> {
 	return 'en';
 }
 
+/**
+ * Message shown before quitting when the database schema could not be updated
+ */
+export function formatMigrationErrorMessage(error: Error, dbPath: string): string {
+	return `The chat database could not be updated for this version of the app, which will now close to keep your chats safe.\n\n`
+		+ `${error.message}\n\n`
+		+ `The copies of the database taken before updates are kept next to it: ${dbPath}`;
+}
+
 export function logLLMInitializationError(error: Error): void {
 	console.error('Failed to initialize LLM service:', error);
 }
@@ -18,11 +18,25 @@ jest.mock('./main.helpers', () => {
 	};
 });
 
+// Mock the shared database connection
+const mockDisconnect = jest.fn().mockResolvedValue(undefined);
+jest.mock('./services/database.service', () => ({
+	databaseService: {
+		disconnect: mockDisconnect,
+	},
+}));
+
+// Mock the migration service
+jest.mock('./services/migration.service', () => ({
+	migrationService: {
+		migrate: jest.fn().mockResolvedValue({ applied: [], backupPath: null }),
+	},
+}));
+
 // Mock the high score service
 jest.mock('./services/highScore.service', () => ({
 	highScoreService: {
 		initialize: jest.fn().mockResolvedValue(undefined),
-		close: jest.fn().mockResolvedValue(undefined),
 	},
 }));
 
@@ -37,7 +51,6 @@ jest.mock('./controllers/highScore.controller', () => ({
 jest.mock('./services/chat.service', () => ({
 	chatService: {
 		initialize: jest.fn().mockResolvedValue(undefined),
-		close: jest.fn().mockResolvedValue(undefined),
 	},
 }));
 
@@ -48,6 +61,51 @@ jest.mock('./controllers/chat.controller', () => ({
 	},
 }));
 
+// Mock the persona service
+jest.mock('./services/persona.service', () => ({
+	personaService: {
+		initialize: jest.fn().mockResolvedValue(undefined),
+	},
+}));
+
+// Mock the persona controller
+jest.mock('./controllers/persona.controller', () => ({
+	PersonaController: {
+		registerHandlers: jest.fn(),
+	},
+}));
+
+// Mock the knowledge controller
+jest.mock('./controllers/knowledge.controller', () => ({
+	KnowledgeController: {
+		registerHandlers: jest.fn(),
+	},
+}));
+
+// Mock the code controller
+jest.mock('./controllers/code.controller', () => ({
+	CodeController: {
+		registerHandlers: jest.fn(),
+	},
+}));
+
+// Mock the retention controller
+jest.mock('./controllers/retention.controller', () => ({
+	RetentionController: {
+		registerHandlers: jest.fn(),
+		startSchedule: jest.fn(),
+	},
+}));
+
+// Mock the LLM controller
+jest.mock('./controllers/llm.controller', () => ({
+	LLMController: {
+		registerHandlers: jest.fn(),
+		autoLoadLastModel: jest.fn().mockResolvedValue(undefined),
+		autoStartApiServer: jest.fn().mockResolvedValue(undefined),
+	},
+}));
+
 // Mock path module for Prisma
 jest.mock('path', () => {
 	const actualPath = jest.requireActual('path');
@@ -196,6 +254,40 @@ describe('main.ts', () => {
 		expect(mainWindowInstance.loadURL).toHaveBeenCalled();
 	});
 
+	it('should auto-load the last model after creating the main window', async () => {
+		await import('./main');
+
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		const { LLMController } = jest.requireMock('./controllers/llm.controller');
+		expect(LLMController.autoLoadLastModel).toHaveBeenCalledTimes(1);
+		expect(mockBrowserWindow.mock.invocationCallOrder[0]).toBeLessThan(
+			LLMController.autoLoadLastModel.mock.invocationCallOrder[0]
+		);
+	});
+
+	it('should auto-start the API server after creating the main window', async () => {
+		await import('./main');
+
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		const { LLMController } = jest.requireMock('./controllers/llm.controller');
+		expect(LLMController.autoStartApiServer).toHaveBeenCalledTimes(1);
+		expect(mockBrowserWindow.mock.invocationCallOrder[0]).toBeLessThan(
+			LLMController.autoStartApiServer.mock.invocationCallOrder[0]
+		);
+	});
+
+	it('should start the retention schedule after registering its handlers', async () => {
+		await import('./main');
+
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		const { RetentionController } = jest.requireMock('./controllers/retention.controller');
+		expect(RetentionController.registerHandlers).toHaveBeenCalledTimes(1);
+		expect(RetentionController.startSchedule).toHaveBeenCalledTimes(1);
+	});
+
 	it('should setup macOS menu when on darwin platform', async () => {
 		Object.defineProperty(process, 'platform', {
 			value: 'darwin',
@@ -288,6 +380,7 @@ describe('main.ts', () => {
 		expect(appHandlers['window-all-closed']).toBeDefined();
 		await appHandlers['window-all-closed']();
 
+		expect(mockDisconnect).toHaveBeenCalled();
 		expect(mockApp.quit).toHaveBeenCalled();
 	});
 
@@ -307,6 +400,7 @@ describe('main.ts', () => {
 		expect(appHandlers['window-all-closed']).toBeDefined();
 		appHandlers['window-all-closed']();
 
+		expect(mockDisconnect).not.toHaveBeenCalled();
 		expect(mockApp.quit).not.toHaveBeenCalled();
 	});
 
@@ -751,7 +845,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/highScore.service', () => ({
 			highScoreService: {
 				initialize: jest.fn().mockResolvedValue(undefined),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -839,7 +932,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/highScore.service', () => ({
 			highScoreService: {
 				initialize: jest.fn().mockRejectedValue(new Error('Database connection failed')),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -862,6 +954,92 @@ describe('main.ts', () => {
 		shouldReturnMainWindowStatusValue = originalValues.shouldReturnMainWindowStatusValue;
 	});
 
+	it('should run the database migrations and quit when they fail', async () => {
+		const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+		const originalValues = {
+			shouldShowWindowValue,
+			shouldSendWindowEventValue,
+			shouldCloseWindowValue,
+			shouldReturnMainWindowStatusValue
+		};
+
+		shouldShowWindowValue = false; // Prevent license window from trying to show
+		shouldSendWindowEventValue = true;
+		shouldCloseWindowValue = true;
+		shouldReturnMainWindowStatusValue = true;
+
+		jest.resetModules();
+		mainWindowInstance = null;
+		licenseWindowInstance = null;
+
+		const mockDialog = { showErrorBox: jest.fn() };
+		jest.doMock('electron', () => ({
+			app: mockApp,
+			BrowserWindow: mockBrowserWindow,
+			Menu: mockMenu,
+			dialog: mockDialog,
+			ipcMain: mockIpcMain,
+			screen: mockScreen,
+			shell: mockShell
+		}));
+
+		jest.doMock('path', () => mockPath);
+
+		jest.doMock('./main.helpers', () => {
+			const actual = jest.requireActual('./main.helpers');
+			return {
+				...actual,
+				shouldShowWindow: jest.fn(() => shouldShowWindowValue),
+				shouldSendWindowEvent: jest.fn(() => shouldSendWindowEventValue),
+				shouldCloseWindow: jest.fn(() => shouldCloseWindowValue),
+				shouldReturnMainWindowStatus: jest.fn(() => shouldReturnMainWindowStatusValue)
+			};
+		});
+
+		jest.doMock('./services/database.service', () => ({
+			databaseService: {
+				disconnect: mockDisconnect,
+				getDatabasePath: jest.fn(() => '/data/database.db'),
+			},
+		}));
+
+		const migrate = jest.fn().mockRejectedValue(new Error('Migration failed'));
+		jest.doMock('./services/migration.service', () => ({
+			migrationService: { migrate },
+		}));
+
+		const highScoreInitialize = jest.fn().mockResolvedValue(undefined);
+		jest.doMock('./services/highScore.service', () => ({
+			highScoreService: {
+				initialize: highScoreInitialize,
+			},
+		}));
+
+		await import('./main');
+
+		// Wait a bit for the app.whenReady().then() callback to execute
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		expect(migrate).toHaveBeenCalledTimes(1);
+		expect(consoleSpy).toHaveBeenCalledWith('Failed to migrate database:', expect.any(Error));
+		expect(mockDialog.showErrorBox).toHaveBeenCalledWith('Database update failed', expect.stringContaining('Migration failed'));
+		expect(mockApp.quit).toHaveBeenCalled();
+		// Nothing starts on the outdated schema
+		expect(highScoreInitialize).not.toHaveBeenCalled();
+		expect(mockBrowserWindow).not.toHaveBeenCalled();
+
+		// Later tests import main again and need the migrations to succeed
+		jest.doMock('./services/migration.service', () => ({
+			migrationService: { migrate: jest.fn().mockResolvedValue({ applied: [], backupPath: null }) },
+		}));
+		consoleSpy.mockRestore();
+		shouldShowWindowValue = originalValues.shouldShowWindowValue;
+		shouldSendWindowEventValue = originalValues.shouldSendWindowEventValue;
+		shouldCloseWindowValue = originalValues.shouldCloseWindowValue;
+		shouldReturnMainWindowStatusValue = originalValues.shouldReturnMainWindowStatusValue;
+	});
+
 	it('should handle chat service initialization error and handler registration failure', async () => {
 		// Mock console.error to verify it's called
 		const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
@@ -919,7 +1097,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/highScore.service', () => ({
 			highScoreService: {
 				initialize: jest.fn().mockResolvedValue(undefined),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -934,7 +1111,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/chat.service', () => ({
 			chatService: {
 				initialize: jest.fn().mockRejectedValue(new Error('Chat database connection failed')),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -1017,7 +1193,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/highScore.service', () => ({
 			highScoreService: {
 				initialize: jest.fn().mockResolvedValue(undefined),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -1030,7 +1205,6 @@ describe('main.ts', () => {
 		jest.doMock('./services/chat.service', () => ({
 			chatService: {
 				initialize: jest.fn().mockResolvedValue(undefined),
-				close: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -1038,6 +1212,9 @@ describe('main.ts', () => {
 		jest.doMock('./controllers/llm.controller', () => ({
 			LLMController: {
 				registerHandlers: jest.fn().mockRejectedValue(new Error('LLM initialization failed')),
+				autoLoadLastModel: jest.fn().mockResolvedValue(undefined),
+				autoStartApiServer: jest.fn().mockResolvedValue(undefined),
+		autoStartApiServer: jest.fn().mockResolvedValue(undefined),
 			},
 		}));
 
@@ -1060,6 +1237,102 @@ describe('main.ts', () => {
 		shouldReturnMainWindowStatusValue = originalValues.shouldReturnMainWindowStatusValue;
 	});
 
+	it('should handle persona controller registration error', async () => {
+		// Mock console.error to verify it's called
+		const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+		// Reset the mock variables to safe defaults
+		const originalValues = {
+			shouldShowWindowValue,
+			shouldSendWindowEventValue,
+			shouldCloseWindowValue,
+			shouldReturnMainWindowStatusValue
+		};
+
+		// Reset to safe values
+		shouldShowWindowValue = false;
+		shouldSendWindowEventValue = true;
+		shouldCloseWindowValue = true;
+		shouldReturnMainWindowStatusValue = true;
+
+		// Reset modules
+		jest.resetModules();
+		mainWindowInstance = null;
+		licenseWindowInstance = null;
+
+		// Re-setup mocks
+		jest.doMock('electron', () => ({
+			app: mockApp,
+			BrowserWindow: mockBrowserWindow,
+			Menu: mockMenu,
+			ipcMain: mockIpcMain,
+			screen: mockScreen,
+			shell: mockShell
+		}));
+
+		jest.doMock('path', () => mockPath);
+
+		jest.doMock('./main.helpers', () => {
+			const actual = jest.requireActual('./main.helpers');
+			return {
+				...actual,
+				shouldShowWindow: jest.fn(() => shouldShowWindowValue),
+				shouldSendWindowEvent: jest.fn(() => shouldSendWindowEventValue),
+				shouldCloseWindow: jest.fn(() => shouldCloseWindowValue),
+				shouldReturnMainWindowStatus: jest.fn(() => shouldReturnMainWindowStatusValue)
+			};
+		});
+
+		// Mock high score and chat services to work normally
+		jest.doMock('./controllers/highScore.controller', () => ({
+			HighScoreController: {
+				registerHandlers: jest.fn(),
+			},
+		}));
+
+		jest.doMock('./services/highScore.service', () => ({
+			highScoreService: {
+				initialize: jest.fn().mockResolvedValue(undefined),
+			},
+		}));
+
+		jest.doMock('./controllers/chat.controller', () => ({
+			ChatController: {
+				registerHandlers: jest.fn(),
+			},
+		}));
+
+		jest.doMock('./services/chat.service', () => ({
+			chatService: {
+				initialize: jest.fn().mockResolvedValue(undefined),
+			},
+		}));
+
+		// Mock persona controller to throw an error
+		jest.doMock('./controllers/persona.controller', () => ({
+			PersonaController: {
+				registerHandlers: jest.fn().mockRejectedValue(new Error('Persona registration failed')),
+			},
+		}));
+
+		await import('./main');
+
+		// Wait for initialization
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		expect(consoleSpy).toHaveBeenCalledWith(
+			'Failed to register persona handlers:',
+			expect.any(Error)
+		);
+
+		// Cleanup
+		consoleSpy.mockRestore();
+		shouldShowWindowValue = originalValues.shouldShowWindowValue;
+		shouldSendWindowEventValue = originalValues.shouldSendWindowEventValue;
+		shouldCloseWindowValue = originalValues.shouldCloseWindowValue;
+		shouldReturnMainWindowStatusValue = originalValues.shouldReturnMainWindowStatusValue;
+	});
+
 	it('should handle open-external IPC with valid and invalid URLs', async () => {
 		// Import main to register handlers
 		await import('./main');
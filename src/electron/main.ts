@@ -1,8 +1,12 @@
-import { BrowserWindow, Menu, app, ipcMain, screen, shell } from 'electron';
+import { BrowserWindow, Menu, app, dialog, ipcMain, screen, shell } from 'electron';
 import * as path from 'path';
 import { ChatController } from './controllers/chat.controller';
+import { CodeController } from './controllers/code.controller';
 import { HighScoreController } from './controllers/highScore.controller';
+import { KnowledgeController } from './controllers/knowledge.controller';
 import { LLMController } from './controllers/llm.controller';
+import { PersonaController } from './controllers/persona.controller';
+import { RetentionController } from './controllers/retention.controller';
 import {
   WindowDimensions,
   buildLicenseUrl,
@@ -10,6 +14,7 @@ import {
   buildStartUrl,
   calculateLicenseWindowSize,
   calculateOptimalWindowSize,
+  formatMigrationErrorMessage,
   getBasePath,
   getLocaleOrDefault,
   handleWindowAction,
@@ -27,7 +32,9 @@ import {
   valueOrUndefined
 } from './main.helpers';
 import { chatService } from './services/chat.service';
+import { databaseService } from './services/database.service';
 import { highScoreService } from './services/highScore.service';
+import { migrationService } from './services/migration.service';
 
 const isDev: boolean = process.env.NODE_ENV === 'development';
 
@@ -140,6 +147,17 @@ function createLicenseWindow(): void {
 }
 
 app.whenReady().then(async () => {
+	// Bring the database schema up to date before any service connects
+	try {
+		await migrationService.migrate();
+	} catch (error) {
+		// The services expect the latest schema: starting anyway could lose or corrupt chats
+		console.error('Failed to migrate database:', error);
+		dialog.showErrorBox('Database update failed', formatMigrationErrorMessage(error as Error, databaseService.getDatabasePath()));
+		app.quit();
+		return;
+	}
+
 	// Initialize high score service and register IPC handlers
 	try {
 		// Initialize high score service and register handlers
@@ -172,6 +190,38 @@ app.whenReady().then(async () => {
 		}
 	}
 
+	// Initialize persona service and register IPC handlers
+	try {
+		await PersonaController.registerHandlers();
+		console.log('Persona service and handlers initialized');
+	} catch (error) {
+		console.error('Failed to register persona handlers:', error);
+	}
+
+	// Initialize knowledge service and register IPC handlers
+	try {
+		await KnowledgeController.registerHandlers();
+		console.log('Knowledge service and handlers initialized');
+	} catch (error) {
+		console.error('Failed to register knowledge handlers:', error);
+	}
+
+	// Register the IPC handlers saving and running the code blocks of replies
+	try {
+		await CodeController.registerHandlers();
+		console.log('Code handlers initialized');
+	} catch (error) {
+		console.error('Failed to register code handlers:', error);
+	}
+
+	// Register the IPC handlers of the chat retention policy
+	try {
+		await RetentionController.registerHandlers();
+		console.log('Retention handlers initialized');
+	} catch (error) {
+		console.error('Failed to register retention handlers:', error);
+	}
+
 	// Initialize LLM service and register IPC handlers
 	try {
 		await LLMController.registerHandlers();
@@ -182,6 +232,13 @@ app.whenReady().then(async () => {
 
 	createWindow();
 
+	// Load the last used model in the background, the window reports its progress
+	LLMController.autoLoadLastModel();
+	LLMController.autoStartApiServer();
+
+	// Delete the chats past the retention policy, now and then
+	RetentionController.startSchedule();
+
 	app.on('activate', () => {
 		if (shouldCreateNewWindow(BrowserWindow.getAllWindows().length)) {
 			createWindow();
@@ -197,8 +254,7 @@ app.whenReady().then(async () => {
 
 app.on('window-all-closed', async () => {
 	if (shouldQuitApp(process.platform)) {
-		await highScoreService.close();
-		await chatService.close();
+		await databaseService.disconnect();
 		app.quit();
 	}
 });
@@ -0,0 +1,41 @@
+import type { Migration } from './migration.types';
+
+/**
+ * Tables of the first releases.
+ * Databases created before migrations existed already have them: IF NOT EXISTS keeps this a no-op there.
+ */
+export const createScoresAndChats: Migration = {
+  version: 1,
+  name: 'create_scores_and_chats',
+  async up(db) {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "scores" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "name" TEXT NOT NULL,
+        "score" INTEGER NOT NULL,
+        "game" TEXT NOT NULL,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "chats" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "name" TEXT NOT NULL DEFAULT 'New Chat',
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "messages" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "chatId" INTEGER NOT NULL,
+        "content" TEXT NOT NULL,
+        "role" TEXT NOT NULL,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY ("chatId") REFERENCES "chats"("id") ON DELETE CASCADE
+      )
+    `);
+  },
+};
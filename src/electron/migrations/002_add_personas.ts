@@ -0,0 +1,53 @@
+import type { PersonaRequest } from '../services/persona.service';
+import type { Migration } from './migration.types';
+import { columnExists, tableExists } from './migration.types';
+
+/**
+ * Personas seeded the first time the personas table is created
+ */
+export const DEFAULT_PERSONAS: PersonaRequest[] = [
+  {
+    name: 'Code reviewer',
+    systemPrompt:
+      'You are a meticulous senior software engineer reviewing code. Point out bugs, security issues and ' +
+      'unclear naming, explain why each one matters, and suggest concrete fixes. Be concise and direct.',
+  },
+  {
+    name: 'Translator',
+    systemPrompt:
+      'You are a professional translator. Translate the text you are given into the language the user asks for, ' +
+      'keeping the tone and formatting of the original. Only reply with the translation.',
+  },
+];
+
+export const addPersonas: Migration = {
+  version: 2,
+  name: 'add_personas',
+  async up(db) {
+    if (!(await tableExists(db, 'personas'))) {
+      await db.execute(`
+        CREATE TABLE "personas" (
+          "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+          "name" TEXT NOT NULL,
+          "systemPrompt" TEXT NOT NULL,
+          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      for (const persona of DEFAULT_PERSONAS) {
+        await db.execute(
+          `INSERT INTO "personas" ("name", "systemPrompt") VALUES (?, ?)`,
+          persona.name,
+          persona.systemPrompt
+        );
+      }
+    }
+
+    await db.execute(`CREATE UNIQUE INDEX IF NOT EXISTS "personas_name_key" ON "personas"("name")`);
+
+    if (!(await columnExists(db, 'chats', 'systemPrompt'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "systemPrompt" TEXT`);
+    }
+  },
+};
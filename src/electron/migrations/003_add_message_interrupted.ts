@@ -0,0 +1,12 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addMessageInterrupted: Migration = {
+  version: 3,
+  name: 'add_message_interrupted',
+  async up(db) {
+    if (!(await columnExists(db, 'messages', 'interrupted'))) {
+      await db.execute(`ALTER TABLE "messages" ADD COLUMN "interrupted" BOOLEAN NOT NULL DEFAULT false`);
+    }
+  },
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addMessageBranches: Migration = {
+  version: 4,
+  name: 'add_message_branches',
+  async up(db) {
+    if (!(await columnExists(db, 'chats', 'activeMessageId'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "activeMessageId" INTEGER`);
+    }
+
+    if (!(await columnExists(db, 'messages', 'parentId'))) {
+      await db.execute(
+        `ALTER TABLE "messages" ADD COLUMN "parentId" INTEGER REFERENCES "messages"("id") ON DELETE CASCADE`
+      );
+      // Existing conversations are linear: chain each message to the one before it
+      await db.execute(`
+        UPDATE "messages" SET "parentId" = (
+          SELECT "previous"."id" FROM "messages" AS "previous"
+          WHERE "previous"."chatId" = "messages"."chatId" AND "previous"."id" < "messages"."id"
+          ORDER BY "previous"."id" DESC LIMIT 1
+        )
+      `);
+    }
+  },
+};
@@ -0,0 +1,36 @@
+import type { Migration } from './migration.types';
+import { tableExists } from './migration.types';
+
+/**
+ * Full-text index over chat names and message contents.
+ * Rows use the id of the chat or message as rowid and are kept in sync by the chat service.
+ */
+export const addSearchIndex: Migration = {
+  version: 5,
+  name: 'add_search_index',
+  async up(db) {
+    if (await tableExists(db, 'messages_fts')) return;
+
+    await db.execute(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS "chats_fts" USING fts5(
+        "name",
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    await db.execute(`
+      CREATE VIRTUAL TABLE "messages_fts" USING fts5(
+        "content",
+        "chatId" UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    // Index the existing history
+    await db.execute(`DELETE FROM "chats_fts"`);
+    await db.execute(`INSERT INTO "chats_fts" ("rowid", "name") SELECT "id", "name" FROM "chats"`);
+    await db.execute(`
+      INSERT INTO "messages_fts" ("rowid", "content", "chatId") SELECT "id", "content", "chatId" FROM "messages"
+    `);
+  },
+};
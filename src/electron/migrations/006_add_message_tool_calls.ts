@@ -0,0 +1,12 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addMessageToolCalls: Migration = {
+  version: 6,
+  name: 'add_message_tool_calls',
+  async up(db) {
+    if (!(await columnExists(db, 'messages', 'toolCall'))) {
+      await db.execute(`ALTER TABLE "messages" ADD COLUMN "toolCall" TEXT`);
+    }
+  },
+};
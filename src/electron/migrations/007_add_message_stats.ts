@@ -0,0 +1,21 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+const STATS_COLUMNS: Array<[name: string, type: string]> = [
+  ['promptTokens', 'INTEGER'],
+  ['completionTokens', 'INTEGER'],
+  ['timeToFirstTokenMs', 'INTEGER'],
+  ['tokensPerSecond', 'REAL'],
+];
+
+export const addMessageStats: Migration = {
+  version: 7,
+  name: 'add_message_stats',
+  async up(db) {
+    for (const [name, type] of STATS_COLUMNS) {
+      if (!(await columnExists(db, 'messages', name))) {
+        await db.execute(`ALTER TABLE "messages" ADD COLUMN "${name}" ${type}`);
+      }
+    }
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from './migration.types';
+
+export const addAttachments: Migration = {
+  version: 8,
+  name: 'add_attachments',
+  async up(db) {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "attachments" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "messageId" INTEGER NOT NULL,
+        "name" TEXT NOT NULL,
+        "kind" TEXT NOT NULL,
+        "size" INTEGER NOT NULL,
+        "content" TEXT NOT NULL,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await db.execute(`CREATE INDEX IF NOT EXISTS "attachments_messageId_idx" ON "attachments"("messageId")`);
+  },
+};
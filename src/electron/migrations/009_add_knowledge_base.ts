@@ -0,0 +1,52 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addKnowledgeBase: Migration = {
+  version: 9,
+  name: 'add_knowledge_base',
+  async up(db) {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "knowledge_folders" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "path" TEXT NOT NULL,
+        "embeddingModel" TEXT,
+        "indexedAt" DATETIME,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.execute(`CREATE UNIQUE INDEX IF NOT EXISTS "knowledge_folders_path_key" ON "knowledge_folders"("path")`);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "knowledge_files" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "folderId" INTEGER NOT NULL,
+        "path" TEXT NOT NULL,
+        "size" INTEGER NOT NULL,
+        "modifiedAt" DATETIME NOT NULL,
+        FOREIGN KEY ("folderId") REFERENCES "knowledge_folders"("id") ON DELETE CASCADE
+      )
+    `);
+    await db.execute(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "knowledge_files_folderId_path_key" ON "knowledge_files"("folderId", "path")`
+    );
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "knowledge_chunks" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "fileId" INTEGER NOT NULL,
+        "position" INTEGER NOT NULL,
+        "content" TEXT NOT NULL,
+        "embedding" BLOB NOT NULL,
+        FOREIGN KEY ("fileId") REFERENCES "knowledge_files"("id") ON DELETE CASCADE
+      )
+    `);
+    await db.execute(`CREATE INDEX IF NOT EXISTS "knowledge_chunks_fileId_idx" ON "knowledge_chunks"("fileId")`);
+
+    if (!(await columnExists(db, 'chats', 'knowledgeBase'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "knowledgeBase" BOOLEAN NOT NULL DEFAULT false`);
+    }
+    if (!(await columnExists(db, 'messages', 'sources'))) {
+      await db.execute(`ALTER TABLE "messages" ADD COLUMN "sources" TEXT`);
+    }
+  },
+};
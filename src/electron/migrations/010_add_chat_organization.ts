@@ -0,0 +1,34 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addChatOrganization: Migration = {
+  version: 10,
+  name: 'add_chat_organization',
+  async up(db) {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "chat_folders" (
+        "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+        "name" TEXT NOT NULL,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.execute(`CREATE UNIQUE INDEX IF NOT EXISTS "chat_folders_name_key" ON "chat_folders"("name")`);
+
+    if (!(await columnExists(db, 'chats', 'pinned'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "pinned" BOOLEAN NOT NULL DEFAULT false`);
+    }
+    if (!(await columnExists(db, 'chats', 'archived'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "archived" BOOLEAN NOT NULL DEFAULT false`);
+    }
+    if (!(await columnExists(db, 'chats', 'tags'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "tags" TEXT NOT NULL DEFAULT '[]'`);
+    }
+    if (!(await columnExists(db, 'chats', 'folderId'))) {
+      // Chats of a deleted folder are kept, outside of any folder
+      await db.execute(
+        `ALTER TABLE "chats" ADD COLUMN "folderId" INTEGER REFERENCES "chat_folders"("id") ON DELETE SET NULL`
+      );
+    }
+    await db.execute(`CREATE INDEX IF NOT EXISTS "chats_folderId_idx" ON "chats"("folderId")`);
+  },
+};
@@ -0,0 +1,18 @@
+import type { Migration } from './migration.types';
+
+export const addChatEncryption: Migration = {
+  version: 11,
+  name: 'add_chat_encryption',
+  async up(db) {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS "chat_encryption" (
+        "id" INTEGER NOT NULL PRIMARY KEY,
+        "salt" TEXT NOT NULL,
+        "kdfParams" TEXT NOT NULL,
+        "verifier" TEXT NOT NULL,
+        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" DATETIME NOT NULL
+      )
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addChatNameSetByUser: Migration = {
+  version: 12,
+  name: 'add_chat_name_set_by_user',
+  async up(db) {
+    // Who named the existing chats is unknown, their names count as generated
+    if (!(await columnExists(db, 'chats', 'nameSetByUser'))) {
+      await db.execute(`ALTER TABLE "chats" ADD COLUMN "nameSetByUser" BOOLEAN NOT NULL DEFAULT false`);
+    }
+  },
+};
@@ -0,0 +1,12 @@
+import type { Migration } from './migration.types';
+import { columnExists } from './migration.types';
+
+export const addMessageSummary: Migration = {
+  version: 13,
+  name: 'add_message_summary',
+  async up(db) {
+    if (!(await columnExists(db, 'messages', 'summary'))) {
+      await db.execute(`ALTER TABLE "messages" ADD COLUMN "summary" TEXT`);
+    }
+  },
+};
@@ -0,0 +1,36 @@
+import type { Migration } from './migration.types';
+import { createScoresAndChats } from './001_create_scores_and_chats';
+import { addPersonas } from './002_add_personas';
+import { addMessageInterrupted } from './003_add_message_interrupted';
+import { addMessageBranches } from './004_add_message_branches';
+import { addSearchIndex } from './005_add_search_index';
+import { addMessageToolCalls } from './006_add_message_tool_calls';
+import { addMessageStats } from './007_add_message_stats';
+import { addAttachments } from './008_add_attachments';
+import { addKnowledgeBase } from './009_add_knowledge_base';
+import { addChatOrganization } from './010_add_chat_organization';
+import { addChatEncryption } from './011_add_chat_encryption';
+import { addChatNameSetByUser } from './012_add_chat_name_set_by_user';
+import { addMessageSummary } from './013_add_message_summary';
+
+export type { Migration, MigrationDatabase } from './migration.types';
+
+/**
+ * Every schema change, in the order it is applied.
+ * Never edit a released migration: append a new one with the next version instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  createScoresAndChats,
+  addPersonas,
+  addMessageInterrupted,
+  addMessageBranches,
+  addSearchIndex,
+  addMessageToolCalls,
+  addMessageStats,
+  addAttachments,
+  addKnowledgeBase,
+  addChatOrganization,
+  addChatEncryption,
+  addChatNameSetByUser,
+  addMessageSummary,
+];
@@ -0,0 +1,27 @@
+/**
+ * Raw SQL access given to a migration.
+ * Every statement of a migration runs in the same transaction.
+ */
+export interface MigrationDatabase {
+  execute(sql: string, ...values: unknown[]): Promise<number>;
+  query<T = unknown>(sql: string, ...values: unknown[]): Promise<T[]>;
+}
+
+export interface Migration {
+  version: number; // Strictly increasing, never reused
+  name: string;
+  up(db: MigrationDatabase): Promise<void>;
+}
+
+export async function tableExists(db: MigrationDatabase, table: string): Promise<boolean> {
+  const rows = await db.query<{ name: string }>(
+    `SELECT "name" FROM "sqlite_master" WHERE "type" = 'table' AND "name" = ?`,
+    table
+  );
+  return rows.length > 0;
+}
+
+export async function columnExists(db: MigrationDatabase, table: string, column: string): Promise<boolean> {
+  const columns = await db.query<{ name: string }>(`PRAGMA table_info("${table}")`);
+  return columns.some((row) => row.name === column);
+}
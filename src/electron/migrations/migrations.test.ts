@@ -0,0 +1,331 @@
+import { MIGRATIONS } from './index';
+import type { MigrationDatabase } from './index';
+import { createScoresAndChats } from './001_create_scores_and_chats';
+import { addPersonas, DEFAULT_PERSONAS } from './002_add_personas';
+import { addMessageInterrupted } from './003_add_message_interrupted';
+import { addMessageBranches } from './004_add_message_branches';
+import { addSearchIndex } from './005_add_search_index';
+import { addMessageToolCalls } from './006_add_message_tool_calls';
+import { addMessageStats } from './007_add_message_stats';
+import { addAttachments } from './008_add_attachments';
+import { addKnowledgeBase } from './009_add_knowledge_base';
+import { addChatOrganization } from './010_add_chat_organization';
+import { addChatEncryption } from './011_add_chat_encryption';
+import { addChatNameSetByUser } from './012_add_chat_name_set_by_user';
+import { addMessageSummary } from './013_add_message_summary';
+import { columnExists, tableExists } from './migration.types';
+
+/**
+ * In-memory stand-in for the database: knows which tables and columns exist
+ * and records the statements it is given
+ */
+function createDatabase(schema: Record<string, string[]> = {}) {
+  const statements: Array<{ sql: string; values: unknown[] }> = [];
+  const db: MigrationDatabase = {
+    execute: jest.fn(async (sql: string, ...values: unknown[]) => {
+      statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), values });
+      return 0;
+    }),
+    query: jest.fn(async (sql: string, ...values: unknown[]) => {
+      const pragma = sql.match(/PRAGMA table_info\("(\w+)"\)/);
+      if (pragma) {
+        return (schema[pragma[1]] ?? []).map((name) => ({ name })) as never[];
+      }
+      return (schema[values[0] as string] ? [{ name: values[0] }] : []) as never[];
+    }),
+  };
+  const sql = () => statements.map((statement) => statement.sql);
+  return { db, statements, sql };
+}
+
+describe('migrations', () => {
+  it('should have unique, increasing versions', () => {
+    const versions = MIGRATIONS.map((migration) => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[0]).toBe(1);
+  });
+
+  describe('helpers', () => {
+    it('should tell whether a table exists', async () => {
+      const { db } = createDatabase({ chats: ['id'] });
+
+      await expect(tableExists(db, 'chats')).resolves.toBe(true);
+      await expect(tableExists(db, 'personas')).resolves.toBe(false);
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('sqlite_master'), 'chats');
+    });
+
+    it('should tell whether a column exists', async () => {
+      const { db } = createDatabase({ chats: ['id', 'name'] });
+
+      await expect(columnExists(db, 'chats', 'name')).resolves.toBe(true);
+      await expect(columnExists(db, 'chats', 'systemPrompt')).resolves.toBe(false);
+    });
+  });
+
+  describe('001 create_scores_and_chats', () => {
+    it('should create the scores, chats and messages tables if missing', async () => {
+      const { db, sql } = createDatabase();
+
+      await createScoresAndChats.up(db);
+
+      expect(sql()).toEqual([
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "scores"'),
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "chats"'),
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "messages"'),
+      ]);
+    });
+  });
+
+  describe('002 add_personas', () => {
+    it('should create the personas table and seed the default personas', async () => {
+      const { db, sql, statements } = createDatabase({ chats: ['id', 'name'] });
+
+      await addPersonas.up(db);
+
+      expect(sql()[0]).toContain('CREATE TABLE "personas"');
+      const inserts = statements.filter((statement) => statement.sql.startsWith('INSERT INTO "personas"'));
+      expect(inserts.map((insert) => insert.values)).toEqual(
+        DEFAULT_PERSONAS.map((persona) => [persona.name, persona.systemPrompt])
+      );
+      expect(sql()).toContain('CREATE UNIQUE INDEX IF NOT EXISTS "personas_name_key" ON "personas"("name")');
+      expect(sql()).toContain('ALTER TABLE "chats" ADD COLUMN "systemPrompt" TEXT');
+    });
+
+    it('should not seed personas again on databases that already have the table', async () => {
+      const { db, sql } = createDatabase({ personas: ['id'], chats: ['id', 'systemPrompt'] });
+
+      await addPersonas.up(db);
+
+      expect(sql()).toEqual([
+        'CREATE UNIQUE INDEX IF NOT EXISTS "personas_name_key" ON "personas"("name")',
+      ]);
+    });
+  });
+
+  describe('003 add_message_interrupted', () => {
+    it('should add the interrupted column', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'content'] });
+
+      await addMessageInterrupted.up(db);
+
+      expect(sql()).toEqual([
+        'ALTER TABLE "messages" ADD COLUMN "interrupted" BOOLEAN NOT NULL DEFAULT false',
+      ]);
+    });
+
+    it('should skip databases that already have it', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'interrupted'] });
+
+      await addMessageInterrupted.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+
+  describe('004 add_message_branches', () => {
+    it('should add the branch columns and chain existing messages', async () => {
+      const { db, sql } = createDatabase({ chats: ['id'], messages: ['id'] });
+
+      await addMessageBranches.up(db);
+
+      expect(sql()).toEqual([
+        'ALTER TABLE "chats" ADD COLUMN "activeMessageId" INTEGER',
+        expect.stringContaining('ALTER TABLE "messages" ADD COLUMN "parentId" INTEGER'),
+        expect.stringContaining('UPDATE "messages" SET "parentId"'),
+      ]);
+    });
+
+    it('should only add the columns that are missing', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'activeMessageId'], messages: ['id', 'parentId'] });
+
+      await addMessageBranches.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+
+  describe('005 add_search_index', () => {
+    it('should create the search index and index the existing history', async () => {
+      const { db, sql } = createDatabase({ chats: ['id'] });
+
+      await addSearchIndex.up(db);
+
+      expect(sql()).toEqual([
+        expect.stringContaining('CREATE VIRTUAL TABLE IF NOT EXISTS "chats_fts" USING fts5'),
+        expect.stringContaining('CREATE VIRTUAL TABLE "messages_fts" USING fts5'),
+        'DELETE FROM "chats_fts"',
+        'INSERT INTO "chats_fts" ("rowid", "name") SELECT "id", "name" FROM "chats"',
+        'INSERT INTO "messages_fts" ("rowid", "content", "chatId") SELECT "id", "content", "chatId" FROM "messages"',
+      ]);
+    });
+
+    it('should skip databases that already have it', async () => {
+      const { db, sql } = createDatabase({ messages_fts: ['content'] });
+
+      await addSearchIndex.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+
+  describe('006 add_message_tool_calls', () => {
+    it('should add the tool call column', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'content'] });
+
+      await addMessageToolCalls.up(db);
+
+      expect(sql()).toEqual([
+        'ALTER TABLE "messages" ADD COLUMN "toolCall" TEXT',
+      ]);
+    });
+
+    it('should skip databases that already have it', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'toolCall'] });
+
+      await addMessageToolCalls.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+
+  describe('007 add_message_stats', () => {
+    it('should add the generation stats columns', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'content'] });
+
+      await addMessageStats.up(db);
+
+      expect(sql()).toEqual([
+        'ALTER TABLE "messages" ADD COLUMN "promptTokens" INTEGER',
+        'ALTER TABLE "messages" ADD COLUMN "completionTokens" INTEGER',
+        'ALTER TABLE "messages" ADD COLUMN "timeToFirstTokenMs" INTEGER',
+        'ALTER TABLE "messages" ADD COLUMN "tokensPerSecond" REAL',
+      ]);
+    });
+
+    it('should only add the columns that are missing', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'promptTokens', 'completionTokens', 'timeToFirstTokenMs'] });
+
+      await addMessageStats.up(db);
+
+      expect(sql()).toEqual(['ALTER TABLE "messages" ADD COLUMN "tokensPerSecond" REAL']);
+    });
+  });
+
+  describe('008 add_attachments', () => {
+    it('should create the attachments table and its message index', async () => {
+      const { db, sql } = createDatabase();
+
+      await addAttachments.up(db);
+
+      expect(sql()).toEqual([
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "attachments"'),
+        'CREATE INDEX IF NOT EXISTS "attachments_messageId_idx" ON "attachments"("messageId")',
+      ]);
+      expect(sql()[0]).toContain('FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE');
+    });
+  });
+
+  describe('009 add_knowledge_base', () => {
+    it('should create the knowledge base tables and the chat and message columns', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'name'], messages: ['id', 'content'] });
+
+      await addKnowledgeBase.up(db);
+
+      expect(sql()).toEqual([
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "knowledge_folders"'),
+        'CREATE UNIQUE INDEX IF NOT EXISTS "knowledge_folders_path_key" ON "knowledge_folders"("path")',
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "knowledge_files"'),
+        'CREATE UNIQUE INDEX IF NOT EXISTS "knowledge_files_folderId_path_key" ON "knowledge_files"("folderId", "path")',
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "knowledge_chunks"'),
+        'CREATE INDEX IF NOT EXISTS "knowledge_chunks_fileId_idx" ON "knowledge_chunks"("fileId")',
+        'ALTER TABLE "chats" ADD COLUMN "knowledgeBase" BOOLEAN NOT NULL DEFAULT false',
+        'ALTER TABLE "messages" ADD COLUMN "sources" TEXT',
+      ]);
+      expect(sql()[2]).toContain('FOREIGN KEY ("folderId") REFERENCES "knowledge_folders"("id") ON DELETE CASCADE');
+      expect(sql()[4]).toContain('FOREIGN KEY ("fileId") REFERENCES "knowledge_files"("id") ON DELETE CASCADE');
+    });
+
+    it('should only add the columns that are missing', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'knowledgeBase'], messages: ['id', 'sources'] });
+
+      await addKnowledgeBase.up(db);
+
+      expect(sql().filter((statement) => statement.startsWith('ALTER TABLE'))).toEqual([]);
+    });
+  });
+
+  describe('010 add_chat_organization', () => {
+    it('should create the folders table and the chat columns', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'name'] });
+
+      await addChatOrganization.up(db);
+
+      expect(sql()).toEqual([
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS "chat_folders"'),
+        'CREATE UNIQUE INDEX IF NOT EXISTS "chat_folders_name_key" ON "chat_folders"("name")',
+        'ALTER TABLE "chats" ADD COLUMN "pinned" BOOLEAN NOT NULL DEFAULT false',
+        'ALTER TABLE "chats" ADD COLUMN "archived" BOOLEAN NOT NULL DEFAULT false',
+        'ALTER TABLE "chats" ADD COLUMN "tags" TEXT NOT NULL DEFAULT \'[]\'',
+        'ALTER TABLE "chats" ADD COLUMN "folderId" INTEGER REFERENCES "chat_folders"("id") ON DELETE SET NULL',
+        'CREATE INDEX IF NOT EXISTS "chats_folderId_idx" ON "chats"("folderId")',
+      ]);
+    });
+
+    it('should only add the columns that are missing', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'pinned', 'archived', 'tags', 'folderId'] });
+
+      await addChatOrganization.up(db);
+
+      expect(sql().filter((statement) => statement.startsWith('ALTER TABLE'))).toEqual([]);
+    });
+  });
+
+  describe('011 add_chat_encryption', () => {
+    it('should create the encryption settings table', async () => {
+      const { db, sql } = createDatabase();
+
+      await addChatEncryption.up(db);
+
+      expect(sql()).toEqual([expect.stringContaining('CREATE TABLE IF NOT EXISTS "chat_encryption"')]);
+      expect(sql()[0]).toContain('"verifier" TEXT NOT NULL');
+    });
+  });
+
+  describe('012 add_chat_name_set_by_user', () => {
+    it('should add the column', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'name'] });
+
+      await addChatNameSetByUser.up(db);
+
+      expect(sql()).toEqual(['ALTER TABLE "chats" ADD COLUMN "nameSetByUser" BOOLEAN NOT NULL DEFAULT false']);
+    });
+
+    it('should not add the column twice', async () => {
+      const { db, sql } = createDatabase({ chats: ['id', 'name', 'nameSetByUser'] });
+
+      await addChatNameSetByUser.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+
+  describe('013 add_message_summary', () => {
+    it('should add the column', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'content'] });
+
+      await addMessageSummary.up(db);
+
+      expect(sql()).toEqual(['ALTER TABLE "messages" ADD COLUMN "summary" TEXT']);
+    });
+
+    it('should not add the column twice', async () => {
+      const { db, sql } = createDatabase({ messages: ['id', 'content', 'summary'] });
+
+      await addMessageSummary.up(db);
+
+      expect(sql()).toEqual([]);
+    });
+  });
+});
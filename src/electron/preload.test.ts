@@ -134,6 +134,7 @@ describe('preload.ts', () => {
 		expect(electronAPI.llmGetConfig).toBeDefined();
 		expect(electronAPI.llmGenerateResponse).toBeDefined();
 		expect(electronAPI.llmOnDownloadProgress).toBeDefined();
+		expect(electronAPI.llmOnLoadProgress).toBeDefined();
 		expect(electronAPI.llmOnToken).toBeDefined();
 		expect(electronAPI.llmGetModelsDirectory).toBeDefined();
 		expect(electronAPI.llmSetModelsDirectory).toBeDefined();
@@ -151,7 +152,10 @@ describe('preload.ts', () => {
 		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-select-from-disk');
 
 		await electronAPI.llmLoadModel('/test/path');
-		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/test/path', undefined);
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/test/path', undefined, undefined);
+
+		await electronAPI.llmGetLoadProgress();
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-load-progress');
 
 		await electronAPI.llmUnloadModel();
 		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-unload-model');
@@ -169,7 +173,16 @@ describe('preload.ts', () => {
 		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-delete-model', expect.any(Object));
 
 		await electronAPI.llmUpdateConfig({ temperature: 0.7 });
-		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-update-config', expect.any(Object));
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-update-config', expect.any(Object), undefined);
+
+		await electronAPI.llmGetSavedConfig('test');
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-saved-config', 'test');
+
+		await electronAPI.llmGetAutoLoad();
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-auto-load');
+
+		await electronAPI.llmSetAutoLoad(true);
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-set-auto-load', true);
 
 		await electronAPI.llmGetConfig();
 		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-config');
@@ -177,6 +190,9 @@ describe('preload.ts', () => {
 		await electronAPI.llmGenerateResponse('test prompt');
 		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-generate-response', 'test prompt');
 
+		await electronAPI.llmGenerateStructured('test prompt', { type: 'string' });
+		expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-generate-structured', 'test prompt', { type: 'string' });
+
 		// Test event listeners
 		const progressCallback = jest.fn();
 		const unsubProgress = electronAPI.llmOnDownloadProgress(progressCallback);
@@ -453,7 +469,7 @@ describe('preload.ts', () => {
 			it('should test chatSendMessage if available', async () => {
 				if ('chatSendMessage' in electronAPI) {
 					await electronAPI.chatSendMessage(1, 'Hello');
-					expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-send-message', 1, 'Hello');
+					expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-send-message', 1, 'Hello', []);
 				}
 			});
 
@@ -471,6 +487,23 @@ describe('preload.ts', () => {
 				}
 			});
 
+			it('should test chatRespondToToolCall if available', async () => {
+				if ('chatRespondToToolCall' in electronAPI) {
+					await electronAPI.chatRespondToToolCall('call-1', true);
+					expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-respond-tool-call', 'call-1', true);
+				}
+			});
+
+			it('should test chatOnToolCallRequest if available', () => {
+				if ('chatOnToolCallRequest' in electronAPI) {
+					const removeListener = electronAPI.chatOnToolCallRequest(jest.fn());
+
+					expect(mockIpcRenderer.on).toHaveBeenCalledWith('chat-tool-call-request', expect.any(Function));
+					removeListener();
+					expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('chat-tool-call-request', expect.any(Function));
+				}
+			});
+
 			it('should test chatOnMessageStream if available', () => {
 				if ('chatOnMessageStream' in electronAPI) {
 					const callback = jest.fn();
@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 
 /**
  * Chat Types and Interfaces
@@ -7,27 +7,119 @@ import { contextBridge, ipcRenderer } from 'electron';
 interface ChatRecord {
   id: number;
   name: string;
+  nameSetByUser: boolean; // false while the name is the default or a generated one
+  systemPrompt: string | null;
+  activeMessageId: number | null;
+  knowledgeBase: boolean;
+  pinned: boolean;
+  archived: boolean;
+  tags: string; // JSON array of tag names
+  folderId: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface ChatFolderRecord {
+  id: number;
+  name: string;
+  createdAt: Date;
+}
+
 interface MessageRecord {
   id: number;
   chatId: number;
   content: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
+  interrupted: boolean;
+  parentId: number | null;
+  toolCall: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+  sources: string | null; // JSON of the knowledge base excerpts cited by an assistant reply
+  summary: string | null; // summary of the conversation up to this message, read by the model instead of it
   createdAt: Date;
 }
 
+interface GenerationStats {
+  promptTokens: number;
+  completionTokens: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+}
+
+type AttachmentKind = 'text' | 'markdown' | 'code' | 'pdf';
+
+interface AttachmentSummary {
+  id: number;
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+}
+
+// A file read for a message that is not sent yet, with its extracted text
+interface AttachmentDraft {
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+  content: string;
+}
+
+interface AttachmentReadResult {
+  attachments: AttachmentDraft[];
+  errors: { name: string; error: string }[];
+}
+
+interface MessageBranchRecord extends MessageRecord {
+  siblingIds: number[];
+  attachments: AttachmentSummary[];
+}
+
 interface ChatWithMessages extends ChatRecord {
   messages: MessageRecord[];
 }
 
+interface ChatEncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+}
+
+interface ChatSearchResult {
+  chatId: number;
+  chatName: string;
+  messageId: number | null;
+  role: 'user' | 'assistant' | 'tool' | null;
+  snippet: { text: string; match: boolean }[];
+  rank: number;
+}
+
+type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+// Deltas numbered from 0, the final event carries the full text and the stats
 interface ChatMessageStreamData {
   chatId: number;
   messageId: number;
-  content: string;
+  seq: number;
+  delta: string;
   done: boolean;
+  content?: string;
+  stats?: GenerationStats | null;
+}
+
+interface ToolCallRequest {
+  chatId: number;
+  messageId: number;
+  callId: string;
+  name: string;
+  description: string;
+  params: unknown;
+}
+
+interface ChatToolMessageData {
+  chatId: number;
+  messageId: number;
+  toolMessage: MessageRecord;
 }
 
 /**
@@ -50,19 +142,134 @@ function chatUpdateName(chatId: number, name: string): Promise<ChatRecord> {
   return ipcRenderer.invoke('chat-update-name', chatId, name);
 }
 
+// Resolves null when the chat has no message to name it after
+function chatSuggestTitle(chatId: number): Promise<string | null> {
+  return ipcRenderer.invoke('chat-suggest-title', chatId);
+}
+
+function chatUpdateSystemPrompt(chatId: number, systemPrompt: string | null): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-system-prompt', chatId, systemPrompt);
+}
+
+function chatUpdateKnowledgeBase(chatId: number, enabled: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-knowledge-base', chatId, enabled);
+}
+
+function chatUpdatePinned(chatId: number, pinned: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-pinned', chatId, pinned);
+}
+
+function chatUpdateArchived(chatId: number, archived: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-archived', chatId, archived);
+}
+
+function chatUpdateArchivedMany(chatIds: number[], archived: boolean): Promise<ChatRecord[]> {
+  return ipcRenderer.invoke('chat-update-archived-many', chatIds, archived);
+}
+
+function chatUpdateTags(chatId: number, tags: string[]): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-tags', chatId, tags);
+}
+
+function chatMoveToFolder(chatId: number, folderId: number | null): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-move-to-folder', chatId, folderId);
+}
+
+function chatGetFolders(): Promise<ChatFolderRecord[]> {
+  return ipcRenderer.invoke('chat-get-folders');
+}
+
+function chatCreateFolder(name: string): Promise<ChatFolderRecord> {
+  return ipcRenderer.invoke('chat-create-folder', name);
+}
+
+function chatRenameFolder(folderId: number, name: string): Promise<ChatFolderRecord> {
+  return ipcRenderer.invoke('chat-rename-folder', folderId, name);
+}
+
+function chatDeleteFolder(folderId: number): Promise<void> {
+  return ipcRenderer.invoke('chat-delete-folder', folderId);
+}
+
 function chatDelete(chatId: number): Promise<void> {
   return ipcRenderer.invoke('chat-delete', chatId);
 }
 
-function chatSendMessage(chatId: number, content: string): Promise<{
+function chatDeleteMany(chatIds: number[]): Promise<void> {
+  return ipcRenderer.invoke('chat-delete-many', chatIds);
+}
+
+function chatSendMessage(chatId: number, content: string, attachments: AttachmentDraft[] = []): Promise<{
   userMessage: MessageRecord;
   assistantMessage: MessageRecord;
   autoNamed: boolean;
+  summarized: boolean; // older messages were summarized to fit the context
 }> {
-  return ipcRenderer.invoke('chat-send-message', chatId, content);
+  return ipcRenderer.invoke('chat-send-message', chatId, content, attachments);
+}
+
+function chatPickAttachments(): Promise<AttachmentReadResult | null> {
+  return ipcRenderer.invoke('chat-pick-attachments');
+}
+
+/**
+ * Read files dropped on the window, which the renderer cannot read itself.
+ * Paths are resolved here, so the page can only have files the user dropped read,
+ * files made in the page have no path and are skipped.
+ */
+function chatReadAttachments(files: File[]): Promise<AttachmentReadResult> {
+  const filePaths = files
+    .map((file) => webUtils.getPathForFile(file))
+    .filter((filePath) => filePath !== '');
+  return ipcRenderer.invoke('chat-read-attachments', filePaths);
 }
 
-function chatGetMessages(chatId: number): Promise<MessageRecord[]> {
+function chatRegenerate(chatId: number): Promise<{
+  assistantMessage: MessageRecord;
+  autoNamed: boolean;
+  summarized: boolean;
+}> {
+  return ipcRenderer.invoke('chat-regenerate', chatId);
+}
+
+function chatEditMessage(chatId: number, messageId: number, content: string): Promise<{
+  userMessage: MessageRecord;
+  assistantMessage: MessageRecord;
+  autoNamed: boolean;
+  summarized: boolean;
+}> {
+  return ipcRenderer.invoke('chat-edit-message', chatId, messageId, content);
+}
+
+function chatSwitchBranch(chatId: number, messageId: number): Promise<MessageBranchRecord[]> {
+  return ipcRenderer.invoke('chat-switch-branch', chatId, messageId);
+}
+
+function chatStopGeneration(chatId: number): Promise<boolean> {
+  return ipcRenderer.invoke('chat-stop-generation', chatId);
+}
+
+function chatRespondToToolCall(callId: string, approved: boolean): Promise<boolean> {
+  return ipcRenderer.invoke('chat-respond-tool-call', callId, approved);
+}
+
+function chatSearch(query: string): Promise<ChatSearchResult[]> {
+  return ipcRenderer.invoke('chat-search', query);
+}
+
+function chatExport(chatId: number, format: ChatExportFormat): Promise<string | null> {
+  return ipcRenderer.invoke('chat-export', chatId, format);
+}
+
+function chatExportMany(chatIds: number[], format: ChatExportFormat): Promise<string | null> {
+  return ipcRenderer.invoke('chat-export-many', chatIds, format);
+}
+
+function chatImport(): Promise<ChatRecord | null> {
+  return ipcRenderer.invoke('chat-import');
+}
+
+function chatGetMessages(chatId: number): Promise<MessageBranchRecord[]> {
   return ipcRenderer.invoke('chat-get-messages', chatId);
 }
 
@@ -70,12 +277,87 @@ function chatGetMessageCount(chatId: number): Promise<number> {
   return ipcRenderer.invoke('chat-get-message-count', chatId);
 }
 
+function chatGetEncryptionStatus(): Promise<ChatEncryptionStatus> {
+  return ipcRenderer.invoke('chat-encryption-status');
+}
+
+// Resolves false when the passphrase is wrong
+function chatUnlock(passphrase: string): Promise<boolean> {
+  return ipcRenderer.invoke('chat-unlock', passphrase);
+}
+
+function chatLock(): Promise<void> {
+  return ipcRenderer.invoke('chat-lock');
+}
+
+function chatEnableEncryption(passphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-enable-encryption', passphrase);
+}
+
+function chatChangePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-change-passphrase', currentPassphrase, newPassphrase);
+}
+
+function chatDisableEncryption(passphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-disable-encryption', passphrase);
+}
+
 function chatOnMessageStream(callback: (data: ChatMessageStreamData) => void): () => void {
   const listener = (_event: unknown, data: ChatMessageStreamData) => callback(data);
   ipcRenderer.on('chat-message-stream', listener);
   return () => ipcRenderer.removeListener('chat-message-stream', listener);
 }
 
+function chatOnToolCallRequest(callback: (request: ToolCallRequest) => void): () => void {
+  const listener = (_event: unknown, request: ToolCallRequest) => callback(request);
+  ipcRenderer.on('chat-tool-call-request', listener);
+  return () => ipcRenderer.removeListener('chat-tool-call-request', listener);
+}
+
+function chatOnToolMessage(callback: (data: ChatToolMessageData) => void): () => void {
+  const listener = (_event: unknown, data: ChatToolMessageData) => callback(data);
+  ipcRenderer.on('chat-tool-message', listener);
+  return () => ipcRenderer.removeListener('chat-tool-message', listener);
+}
+
+
+/**
+ * Code Block Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface CodeRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+interface CodeSettings {
+  allowRun: boolean;
+}
+
+/**
+ * Code API functions for preload script
+ * These functions handle IPC communication for the code blocks of replies
+ */
+function codeGetSettings(): Promise<CodeSettings> {
+  return ipcRenderer.invoke('code-get-settings');
+}
+
+function codeUpdateSettings(changes: Partial<CodeSettings>): Promise<CodeSettings> {
+  return ipcRenderer.invoke('code-update-settings', changes);
+}
+
+function codeSave(content: string, language: string | null): Promise<string | null> {
+  return ipcRenderer.invoke('code-save', content, language);
+}
+
+function codeRun(language: string, code: string): Promise<CodeRunResult> {
+  return ipcRenderer.invoke('code-run', language, code);
+}
+
 
 /**
  * Database Types and Interfaces
@@ -124,6 +406,87 @@ function clearScores(game?: string): Promise<void> {
 }
 
 
+/**
+ * Knowledge Base Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface KnowledgeFolderRecord {
+  id: number;
+  path: string;
+  embeddingModel: string | null;
+  indexedAt: Date | null;
+  createdAt: Date;
+}
+
+interface KnowledgeFolderSummary extends KnowledgeFolderRecord {
+  fileCount: number;
+  chunkCount: number;
+}
+
+interface KnowledgeIndexProgress {
+  folderId: number;
+  filesDone: number;
+  filesTotal: number;
+  currentFile: string | null;
+}
+
+interface KnowledgeIndexResult {
+  folderId: number;
+  filesIndexed: number;
+  filesSkipped: number;
+  filesRemoved: number;
+  errors: { name: string; error: string }[];
+}
+
+/**
+ * Knowledge API functions for preload script
+ * These functions handle IPC communication for the folders indexed for retrieval
+ */
+function knowledgeGetFolders(): Promise<KnowledgeFolderSummary[]> {
+  return ipcRenderer.invoke('knowledge-get-folders');
+}
+
+function knowledgeAddFolder(): Promise<KnowledgeFolderRecord | null> {
+  return ipcRenderer.invoke('knowledge-add-folder');
+}
+
+function knowledgeRemoveFolder(folderId: number): Promise<void> {
+  return ipcRenderer.invoke('knowledge-remove-folder', folderId);
+}
+
+function knowledgeIndexFolder(folderId: number): Promise<KnowledgeIndexResult> {
+  return ipcRenderer.invoke('knowledge-index-folder', folderId);
+}
+
+function knowledgeGetEmbeddingModel(): Promise<string | null> {
+  return ipcRenderer.invoke('knowledge-get-embedding-model');
+}
+
+function knowledgeSelectEmbeddingModel(): Promise<string | null> {
+  return ipcRenderer.invoke('knowledge-select-embedding-model');
+}
+
+function knowledgeOpenSource(filePath: string): Promise<void> {
+  return ipcRenderer.invoke('knowledge-open-source', filePath);
+}
+
+function knowledgeOnIndexProgress(callback: (progress: KnowledgeIndexProgress) => void): () => void {
+  const listener = (_event: unknown, progress: KnowledgeIndexProgress) => callback(progress);
+  ipcRenderer.on('knowledge-index-progress', listener);
+  return () => ipcRenderer.removeListener('knowledge-index-progress', listener);
+}
+
+
+export interface GGUFMetadata {
+  architecture: string | null;
+  name: string | null;
+  parameterCount: number | null;
+  quantization: string | null;
+  contextLength: number | null;
+  chatTemplate: string | null;
+  license: string | null;
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
@@ -132,10 +495,13 @@ export interface ModelInfo {
   size: string;
   url: string;
   filename: string;
+  sha256?: string | null;
   recommendedContext: number;
+  maxContext?: number | null;
   type: string;
   installed?: boolean;
   path?: string;
+  metadata?: GGUFMetadata | null;
 }
 
 export interface LLMConfig {
@@ -146,9 +512,57 @@ export interface LLMConfig {
   topK: number;
 }
 
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'canceled';
+
 export interface DownloadProgress {
   modelId: string;
+  status: DownloadStatus;
   progress: number;
+  downloadedBytes: number;
+  totalBytes: number;
+  error?: string;
+}
+
+export type ModelLoadStatus = 'loading' | 'loaded' | 'failed';
+
+export type InferenceProviderId = 'llama-cpp' | 'openai-compatible';
+
+export interface ModelLoadProgress {
+  provider: InferenceProviderId;
+  modelPath: string;
+  modelId: string | null;
+  status: ModelLoadStatus;
+  progress: number;
+  error?: string;
+}
+
+export interface ActiveModel {
+  provider: InferenceProviderId;
+  path: string;
+  modelId: string | null;
+}
+
+export interface EndpointSettings {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface EndpointModel {
+  id: string;
+  ownedBy: string | null;
+}
+
+export interface ApiServerSettings {
+  enabled: boolean;
+  port: number;
+  apiKey: string;
+  allowRemote: boolean;
+}
+
+export interface ApiServerStatus {
+  running: boolean;
+  port: number | null;
+  url: string | null;
 }
 
 function llmListAvailable(): Promise<Array<ModelInfo>> {
@@ -163,8 +577,12 @@ function llmSelectFromDisk(): Promise<string | null> {
   return ipcRenderer.invoke('llm-select-from-disk');
 }
 
-function llmLoadModel(modelPath: string, config?: Partial<LLMConfig>): Promise<void> {
-  return ipcRenderer.invoke('llm-load-model', modelPath, config);
+function llmLoadModel(modelPath: string, config?: Partial<LLMConfig>, modelId?: string): Promise<void> {
+  return ipcRenderer.invoke('llm-load-model', modelPath, config, modelId);
+}
+
+function llmGetLoadProgress(): Promise<ModelLoadProgress | null> {
+  return ipcRenderer.invoke('llm-get-load-progress');
 }
 
 function llmUnloadModel(): Promise<void> {
@@ -179,32 +597,110 @@ function llmGetCurrentModel(): Promise<string | null> {
   return ipcRenderer.invoke('llm-get-current-model');
 }
 
-function llmDownloadModel(modelInfo: ModelInfo): Promise<void> {
+function llmGetActiveModel(): Promise<ActiveModel | null> {
+  return ipcRenderer.invoke('llm-get-active-model');
+}
+
+function llmEndpointGetSettings(): Promise<EndpointSettings> {
+  return ipcRenderer.invoke('llm-endpoint-get-settings');
+}
+
+function llmEndpointUpdateSettings(changes: Partial<EndpointSettings>): Promise<EndpointSettings> {
+  return ipcRenderer.invoke('llm-endpoint-update-settings', changes);
+}
+
+function llmEndpointListModels(): Promise<Array<EndpointModel>> {
+  return ipcRenderer.invoke('llm-endpoint-list-models');
+}
+
+function llmEndpointLoadModel(model: string): Promise<void> {
+  return ipcRenderer.invoke('llm-endpoint-load-model', model);
+}
+
+function llmDownloadModel(modelInfo: ModelInfo): Promise<DownloadProgress> {
   return ipcRenderer.invoke('llm-download-model', modelInfo);
 }
 
+function llmPauseDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-pause-download', modelId);
+}
+
+function llmResumeDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-resume-download', modelId);
+}
+
+function llmCancelDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-cancel-download', modelId);
+}
+
+function llmListDownloads(): Promise<Array<DownloadProgress>> {
+  return ipcRenderer.invoke('llm-list-downloads');
+}
+
 function llmDeleteModel(modelInfo: ModelInfo): Promise<void> {
   return ipcRenderer.invoke('llm-delete-model', modelInfo);
 }
 
-function llmUpdateConfig(config: Partial<LLMConfig>): Promise<void> {
-  return ipcRenderer.invoke('llm-update-config', config);
+function llmUpdateConfig(config: Partial<LLMConfig>, modelId?: string): Promise<void> {
+  return ipcRenderer.invoke('llm-update-config', config, modelId);
 }
 
 function llmGetConfig(): Promise<LLMConfig> {
   return ipcRenderer.invoke('llm-get-config');
 }
 
+function llmGetSavedConfig(modelId?: string): Promise<LLMConfig> {
+  return ipcRenderer.invoke('llm-get-saved-config', modelId);
+}
+
+function llmGetAutoLoad(): Promise<boolean> {
+  return ipcRenderer.invoke('llm-get-auto-load');
+}
+
+function llmSetAutoLoad(enabled: boolean): Promise<void> {
+  return ipcRenderer.invoke('llm-set-auto-load', enabled);
+}
+
+function llmServerGetStatus(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-get-status');
+}
+
+function llmServerGetSettings(): Promise<ApiServerSettings> {
+  return ipcRenderer.invoke('llm-server-get-settings');
+}
+
+function llmServerUpdateSettings(changes: Partial<ApiServerSettings>): Promise<ApiServerSettings> {
+  return ipcRenderer.invoke('llm-server-update-settings', changes);
+}
+
+function llmServerStart(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-start');
+}
+
+function llmServerStop(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-stop');
+}
+
 function llmGenerateResponse(prompt: string): Promise<string> {
   return ipcRenderer.invoke('llm-generate-response', prompt);
 }
 
+function llmGenerateStructured<T = unknown>(prompt: string, jsonSchema: Record<string, unknown>): Promise<T> {
+  return ipcRenderer.invoke('llm-generate-structured', prompt, jsonSchema);
+}
+
 function llmOnDownloadProgress(callback: (progress: DownloadProgress) => void): () => void {
   const listener = (_event: Electron.IpcRendererEvent, progress: DownloadProgress): void => callback(progress);
   ipcRenderer.on('llm-download-progress', listener);
   return (): void => { ipcRenderer.removeListener('llm-download-progress', listener); };
 }
 
+function llmOnLoadProgress(callback: (progress: ModelLoadProgress) => void): () => void {
+  const listener = (_event: Electron.IpcRendererEvent, progress: ModelLoadProgress): void => callback(progress);
+  ipcRenderer.on('llm-load-progress', listener);
+  return (): void => { ipcRenderer.removeListener('llm-load-progress', listener); };
+}
+
 function llmOnToken(callback: (token: string) => void): () => void {
   const listener = (_event: Electron.IpcRendererEvent, token: string): void => callback(token);
   ipcRenderer.on('llm-token', listener);
@@ -223,6 +719,88 @@ function llmScanFolder(folderPath?: string): Promise<Array<ModelInfo>> {
   return ipcRenderer.invoke('llm-scan-folder', folderPath);
 }
 
+
+/**
+ * Persona Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface PersonaRecord {
+  id: number;
+  name: string;
+  systemPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PersonaRequest {
+  name: string;
+  systemPrompt: string;
+}
+
+/**
+ * Persona API functions for preload script
+ * These functions handle IPC communication for the persona library
+ */
+function personaGetAll(): Promise<PersonaRecord[]> {
+  return ipcRenderer.invoke('persona-get-all');
+}
+
+function personaCreate(data: PersonaRequest): Promise<PersonaRecord> {
+  return ipcRenderer.invoke('persona-create', data);
+}
+
+function personaUpdate(id: number, data: PersonaRequest): Promise<PersonaRecord> {
+  return ipcRenderer.invoke('persona-update', id, data);
+}
+
+function personaDelete(id: number): Promise<void> {
+  return ipcRenderer.invoke('persona-delete', id);
+}
+
+
+/**
+ * Retention Policy Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface RetentionPolicy {
+  enabled: boolean;
+  maxAgeDays: number | null;
+  maxChats: number | null;
+}
+
+interface RetentionCandidate {
+  id: number;
+  name: string;
+  updatedAt: Date;
+  reason: 'age' | 'count';
+}
+
+/**
+ * Retention API functions for preload script
+ * These functions handle IPC communication for the chat retention policy
+ */
+function retentionGetPolicy(): Promise<RetentionPolicy> {
+  return ipcRenderer.invoke('retention-get-policy');
+}
+
+function retentionUpdatePolicy(changes: Partial<RetentionPolicy>): Promise<RetentionPolicy> {
+  return ipcRenderer.invoke('retention-update-policy', changes);
+}
+
+function retentionPreview(policy?: Partial<RetentionPolicy>): Promise<RetentionCandidate[]> {
+  return ipcRenderer.invoke('retention-preview', policy);
+}
+
+function retentionApply(): Promise<RetentionCandidate[]> {
+  return ipcRenderer.invoke('retention-apply');
+}
+
+function retentionOnApplied(callback: (chatIds: number[]) => void): () => void {
+  const listener = (_event: unknown, chatIds: number[]) => callback(chatIds);
+  ipcRenderer.on('retention-applied', listener);
+  return () => ipcRenderer.removeListener('retention-applied', listener);
+}
+
 interface NodeAPI {
 	env: string | undefined;
 }
@@ -232,11 +810,50 @@ const ChatApi = {
   chatGet,
   chatGetAll,
   chatUpdateName,
+  chatSuggestTitle,
+  chatUpdateSystemPrompt,
+  chatUpdateKnowledgeBase,
+  chatUpdatePinned,
+  chatUpdateArchived,
+  chatUpdateArchivedMany,
+  chatUpdateTags,
+  chatMoveToFolder,
+  chatGetFolders,
+  chatCreateFolder,
+  chatRenameFolder,
+  chatDeleteFolder,
   chatDelete,
+  chatDeleteMany,
   chatSendMessage,
+  chatPickAttachments,
+  chatReadAttachments,
+  chatRegenerate,
+  chatEditMessage,
+  chatSwitchBranch,
+  chatStopGeneration,
+  chatRespondToToolCall,
+  chatSearch,
+  chatExport,
+  chatExportMany,
+  chatImport,
   chatGetMessages,
   chatGetMessageCount,
-  chatOnMessageStream
+  chatGetEncryptionStatus,
+  chatUnlock,
+  chatLock,
+  chatEnableEncryption,
+  chatChangePassphrase,
+  chatDisableEncryption,
+  chatOnMessageStream,
+  chatOnToolCallRequest,
+  chatOnToolMessage
+};
+
+const CodeApi = {
+  codeGetSettings,
+  codeUpdateSettings,
+  codeSave,
+  codeRun
 };
 
 const HighSCoresApi = {
@@ -248,26 +865,72 @@ const HighSCoresApi = {
   clearScores
 };
 
+const KnowledgeApi = {
+  knowledgeGetFolders,
+  knowledgeAddFolder,
+  knowledgeRemoveFolder,
+  knowledgeIndexFolder,
+  knowledgeGetEmbeddingModel,
+  knowledgeSelectEmbeddingModel,
+  knowledgeOpenSource,
+  knowledgeOnIndexProgress
+};
+
 const LLMApi = {
   llmListAvailable,
   llmListInstalled,
   llmSelectFromDisk,
   llmLoadModel,
+  llmGetLoadProgress,
   llmUnloadModel,
   llmIsLoaded,
   llmGetCurrentModel,
+  llmGetActiveModel,
+  llmEndpointGetSettings,
+  llmEndpointUpdateSettings,
+  llmEndpointListModels,
+  llmEndpointLoadModel,
   llmDownloadModel,
+  llmPauseDownload,
+  llmResumeDownload,
+  llmCancelDownload,
+  llmListDownloads,
   llmDeleteModel,
   llmUpdateConfig,
   llmGetConfig,
+  llmGetSavedConfig,
+  llmGetAutoLoad,
+  llmSetAutoLoad,
+  llmServerGetStatus,
+  llmServerGetSettings,
+  llmServerUpdateSettings,
+  llmServerStart,
+  llmServerStop,
   llmGenerateResponse,
+  llmGenerateStructured,
   llmOnDownloadProgress,
+  llmOnLoadProgress,
   llmOnToken,
   llmGetModelsDirectory,
   llmSetModelsDirectory,
   llmScanFolder
 };
 
+const PersonaApi = {
+  personaGetAll,
+  personaCreate,
+  personaUpdate,
+  personaDelete
+};
+
+const RetentionApi = {
+  retentionGetPolicy,
+  retentionUpdatePolicy,
+  retentionPreview,
+  retentionApply,
+  retentionOnApplied
+};
+
 const electronAPI = {
 	sendMessage: (message: string): Promise<void> => ipcRenderer.invoke('send-message', message),
 	getVersion: (): Promise<string> => ipcRenderer.invoke('get-version'),
@@ -298,8 +961,12 @@ const electronAPI = {
 
 	// API endpoints from modules
   ...ChatApi,
+  ...CodeApi,
   ...HighSCoresApi,
-  ...LLMApi
+  ...KnowledgeApi,
+  ...LLMApi,
+  ...PersonaApi,
+  ...RetentionApi
 };
 
 const nodeAPI: NodeAPI = {
@@ -5,8 +5,13 @@ const mockIpcRenderer = {
   removeListener: jest.fn(),
 };
 
+const mockWebUtils = {
+  getPathForFile: jest.fn(),
+};
+
 jest.mock('electron', () => ({
   ipcRenderer: mockIpcRenderer,
+  webUtils: mockWebUtils,
 }));
 
 import { ChatApi } from './preload.chat';
@@ -55,6 +60,149 @@ describe('ChatApi', () => {
     });
   });
 
+  describe('chatSuggestTitle', () => {
+    it('should invoke chat-suggest-title with chatId', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue('Trip to Lyon');
+      await expect(ChatApi.chatSuggestTitle(1)).resolves.toBe('Trip to Lyon');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-suggest-title', 1);
+    });
+  });
+
+  describe('chatUpdateSystemPrompt', () => {
+    it('should invoke chat-update-system-prompt with chatId and prompt', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ id: 1, systemPrompt: 'Be brief' });
+      await ChatApi.chatUpdateSystemPrompt(1, 'Be brief');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-system-prompt', 1, 'Be brief');
+    });
+  });
+
+  describe('chatUpdateKnowledgeBase', () => {
+    it('should invoke chat-update-knowledge-base with chatId and the toggle', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ id: 1, knowledgeBase: true });
+      await ChatApi.chatUpdateKnowledgeBase(1, true);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-knowledge-base', 1, true);
+    });
+  });
+
+  describe('chat organization', () => {
+    it('should invoke chat-update-pinned and chat-update-archived with chatId and the toggle', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ id: 1 });
+      await ChatApi.chatUpdatePinned(1, true);
+      await ChatApi.chatUpdateArchived(1, false);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-pinned', 1, true);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-archived', 1, false);
+    });
+
+    it('should invoke chat-update-tags with chatId and tags', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ id: 1, tags: '["work"]' });
+      await ChatApi.chatUpdateTags(1, ['work']);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-tags', 1, ['work']);
+    });
+
+    it('should invoke chat-move-to-folder with chatId and folderId', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ id: 1, folderId: null });
+      await ChatApi.chatMoveToFolder(1, null);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-move-to-folder', 1, null);
+    });
+  });
+
+  describe('chat folders', () => {
+    it('should invoke the folder channels', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await ChatApi.chatGetFolders();
+      await ChatApi.chatCreateFolder('Work');
+      await ChatApi.chatRenameFolder(2, 'Projects');
+      await ChatApi.chatDeleteFolder(2);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-get-folders');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-create-folder', 'Work');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-rename-folder', 2, 'Projects');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-delete-folder', 2);
+    });
+  });
+
+  describe('chatRegenerate', () => {
+    it('should invoke chat-regenerate with chatId', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ assistantMessage: { id: 3 }, autoNamed: false });
+      await ChatApi.chatRegenerate(1);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-regenerate', 1);
+    });
+  });
+
+  describe('chatEditMessage', () => {
+    it('should invoke chat-edit-message with chatId, messageId and content', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({});
+      await ChatApi.chatEditMessage(1, 2, 'Edited');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-edit-message', 1, 2, 'Edited');
+    });
+  });
+
+  describe('chatSwitchBranch', () => {
+    it('should invoke chat-switch-branch with chatId and messageId', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue([]);
+      await ChatApi.chatSwitchBranch(1, 4);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-switch-branch', 1, 4);
+    });
+  });
+
+  describe('chatStopGeneration', () => {
+    it('should invoke chat-stop-generation with chatId', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(true);
+      const result = await ChatApi.chatStopGeneration(1);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-stop-generation', 1);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('chatRespondToToolCall', () => {
+    it('should invoke chat-respond-tool-call with the call id and answer', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(true);
+      const result = await ChatApi.chatRespondToToolCall('call-1', false);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-respond-tool-call', 'call-1', false);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('chatSearch', () => {
+    it('should invoke chat-search with the query', async () => {
+      const mockResults = [{ chatId: 1, chatName: 'Chat', messageId: null, role: null, snippet: [], rank: -1 }];
+      mockIpcRenderer.invoke.mockResolvedValue(mockResults);
+      const result = await ChatApi.chatSearch('hello');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-search', 'hello');
+      expect(result).toEqual(mockResults);
+    });
+  });
+
+  describe('bulk operations', () => {
+    it('should invoke the bulk handlers with the chat ids', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await ChatApi.chatUpdateArchivedMany([1, 2], true);
+      await ChatApi.chatDeleteMany([3]);
+      await ChatApi.chatExportMany([1, 2], 'json');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-update-archived-many', [1, 2], true);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-delete-many', [3]);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-export-many', [1, 2], 'json');
+    });
+  });
+
+  describe('chatExport', () => {
+    it('should invoke chat-export with chatId and format', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue('/tmp/chat.md');
+      const result = await ChatApi.chatExport(1, 'markdown');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-export', 1, 'markdown');
+      expect(result).toBe('/tmp/chat.md');
+    });
+  });
+
+  describe('chatImport', () => {
+    it('should invoke chat-import', async () => {
+      const mockChat = { id: 2, name: 'Imported', createdAt: new Date(), updatedAt: new Date() };
+      mockIpcRenderer.invoke.mockResolvedValue(mockChat);
+      const result = await ChatApi.chatImport();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-import');
+      expect(result).toEqual(mockChat);
+    });
+  });
+
   describe('chatDelete', () => {
     it('should invoke chat-delete with chatId', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
@@ -72,7 +220,32 @@ describe('ChatApi', () => {
       };
       mockIpcRenderer.invoke.mockResolvedValue(mockResponse);
       await ChatApi.chatSendMessage(1, 'Hello');
-      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-send-message', 1, 'Hello');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-send-message', 1, 'Hello', []);
+    });
+
+    it('should pass the attached files', async () => {
+      const attachments = [{ name: 'notes.md', kind: 'markdown' as const, size: 7, content: '# Notes' }];
+      mockIpcRenderer.invoke.mockResolvedValue({});
+      await ChatApi.chatSendMessage(1, 'Summarize', attachments);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-send-message', 1, 'Summarize', attachments);
+    });
+  });
+
+  describe('attachments', () => {
+    it('should invoke chat-pick-attachments', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(null);
+      await ChatApi.chatPickAttachments();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-pick-attachments');
+    });
+
+    it('should invoke chat-read-attachments with the paths of the dropped files', async () => {
+      const dropped = { name: 'a.txt' } as File;
+      const madeInPage = { name: 'b.txt' } as File;
+      mockWebUtils.getPathForFile.mockImplementation((file: File) => (file === dropped ? '/tmp/a.txt' : ''));
+      mockIpcRenderer.invoke.mockResolvedValue({ attachments: [], errors: [] });
+      await ChatApi.chatReadAttachments([dropped, madeInPage]);
+      expect(mockWebUtils.getPathForFile).toHaveBeenCalledWith(dropped);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-read-attachments', ['/tmp/a.txt']);
     });
   });
 
@@ -92,6 +265,32 @@ describe('ChatApi', () => {
     });
   });
 
+  describe('encryption', () => {
+    it('should invoke chat-encryption-status', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ enabled: true, locked: true });
+      await expect(ChatApi.chatGetEncryptionStatus()).resolves.toEqual({ enabled: true, locked: true });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-encryption-status');
+    });
+
+    it('should invoke chat-unlock and chat-lock', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(true);
+      await ChatApi.chatUnlock('correct horse battery');
+      await ChatApi.chatLock();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-unlock', 'correct horse battery');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-lock');
+    });
+
+    it('should invoke the enable, change and disable handlers with the passphrases', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await ChatApi.chatEnableEncryption('correct horse battery');
+      await ChatApi.chatChangePassphrase('correct horse battery', 'new passphrase!');
+      await ChatApi.chatDisableEncryption('new passphrase!');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-enable-encryption', 'correct horse battery');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-change-passphrase', 'correct horse battery', 'new passphrase!');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('chat-disable-encryption', 'new passphrase!');
+    });
+  });
+
   describe('chatOnMessageStream', () => {
     it('should register listener and return cleanup function', () => {
       const callback = jest.fn();
@@ -103,7 +302,7 @@ describe('ChatApi', () => {
       const listener = (mockIpcRenderer.on as jest.Mock).mock.calls[0][1];
 
       // Trigger the listener
-      const streamData = { chatId: 1, messageId: 1, content: 'test', done: false };
+      const streamData = { chatId: 1, messageId: 1, seq: 0, delta: 'test', done: false };
       listener(null, streamData);
 
       expect(callback).toHaveBeenCalledWith(streamData);
@@ -113,4 +312,40 @@ describe('ChatApi', () => {
       expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('chat-message-stream', listener);
     });
   });
-});
\ No newline at end of file
+
+  describe('chatOnToolCallRequest', () => {
+    it('should register listener and return cleanup function', () => {
+      const callback = jest.fn();
+      const cleanup = ChatApi.chatOnToolCallRequest(callback);
+
+      expect(mockIpcRenderer.on).toHaveBeenCalledWith('chat-tool-call-request', expect.any(Function));
+
+      const listener = (mockIpcRenderer.on as jest.Mock).mock.calls[0][1];
+      const request = { chatId: 1, messageId: 2, callId: 'call-1', name: 'get_current_time', description: 'Get the time', params: {} };
+      listener(null, request);
+
+      expect(callback).toHaveBeenCalledWith(request);
+
+      cleanup();
+      expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('chat-tool-call-request', listener);
+    });
+  });
+
+  describe('chatOnToolMessage', () => {
+    it('should register listener and return cleanup function', () => {
+      const callback = jest.fn();
+      const cleanup = ChatApi.chatOnToolMessage(callback);
+
+      expect(mockIpcRenderer.on).toHaveBeenCalledWith('chat-tool-message', expect.any(Function));
+
+      const listener = (mockIpcRenderer.on as jest.Mock).mock.calls[0][1];
+      const data = { chatId: 1, messageId: 2, toolMessage: { id: 3, role: 'tool', content: '"noon"' } };
+      listener(null, data);
+
+      expect(callback).toHaveBeenCalledWith(data);
+
+      cleanup();
+      expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('chat-tool-message', listener);
+    });
+  });
+});
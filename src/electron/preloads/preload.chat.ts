@@ -1,4 +1,4 @@
-import { ipcRenderer } from 'electron';
+import { ipcRenderer, webUtils } from 'electron';
 
 /**
  * Chat Types and Interfaces
@@ -7,27 +7,119 @@ import { ipcRenderer } from 'electron';
 interface ChatRecord {
   id: number;
   name: string;
+  nameSetByUser: boolean; // false while the name is the default or a generated one
+  systemPrompt: string | null;
+  activeMessageId: number | null;
+  knowledgeBase: boolean;
+  pinned: boolean;
+  archived: boolean;
+  tags: string; // JSON array of tag names
+  folderId: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface ChatFolderRecord {
+  id: number;
+  name: string;
+  createdAt: Date;
+}
+
 interface MessageRecord {
   id: number;
   chatId: number;
   content: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
+  interrupted: boolean;
+  parentId: number | null;
+  toolCall: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+  sources: string | null; // JSON of the knowledge base excerpts cited by an assistant reply
+  summary: string | null; // summary of the conversation up to this message, read by the model instead of it
   createdAt: Date;
 }
 
+interface GenerationStats {
+  promptTokens: number;
+  completionTokens: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+}
+
+type AttachmentKind = 'text' | 'markdown' | 'code' | 'pdf';
+
+interface AttachmentSummary {
+  id: number;
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+}
+
+// A file read for a message that is not sent yet, with its extracted text
+interface AttachmentDraft {
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+  content: string;
+}
+
+interface AttachmentReadResult {
+  attachments: AttachmentDraft[];
+  errors: { name: string; error: string }[];
+}
+
+interface MessageBranchRecord extends MessageRecord {
+  siblingIds: number[];
+  attachments: AttachmentSummary[];
+}
+
 interface ChatWithMessages extends ChatRecord {
   messages: MessageRecord[];
 }
 
+interface ChatEncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+}
+
+interface ChatSearchResult {
+  chatId: number;
+  chatName: string;
+  messageId: number | null;
+  role: 'user' | 'assistant' | 'tool' | null;
+  snippet: { text: string; match: boolean }[];
+  rank: number;
+}
+
+type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+// Deltas numbered from 0, the final event carries the full text and the stats
 interface ChatMessageStreamData {
   chatId: number;
   messageId: number;
-  content: string;
+  seq: number;
+  delta: string;
   done: boolean;
+  content?: string;
+  stats?: GenerationStats | null;
+}
+
+interface ToolCallRequest {
+  chatId: number;
+  messageId: number;
+  callId: string;
+  name: string;
+  description: string;
+  params: unknown;
+}
+
+interface ChatToolMessageData {
+  chatId: number;
+  messageId: number;
+  toolMessage: MessageRecord;
 }
 
 /**
@@ -50,19 +142,134 @@ function chatUpdateName(chatId: number, name: string): Promise<ChatRecord> {
   return ipcRenderer.invoke('chat-update-name', chatId, name);
 }
 
+// Resolves null when the chat has no message to name it after
+function chatSuggestTitle(chatId: number): Promise<string | null> {
+  return ipcRenderer.invoke('chat-suggest-title', chatId);
+}
+
+function chatUpdateSystemPrompt(chatId: number, systemPrompt: string | null): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-system-prompt', chatId, systemPrompt);
+}
+
+function chatUpdateKnowledgeBase(chatId: number, enabled: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-knowledge-base', chatId, enabled);
+}
+
+function chatUpdatePinned(chatId: number, pinned: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-pinned', chatId, pinned);
+}
+
+function chatUpdateArchived(chatId: number, archived: boolean): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-archived', chatId, archived);
+}
+
+function chatUpdateArchivedMany(chatIds: number[], archived: boolean): Promise<ChatRecord[]> {
+  return ipcRenderer.invoke('chat-update-archived-many', chatIds, archived);
+}
+
+function chatUpdateTags(chatId: number, tags: string[]): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-update-tags', chatId, tags);
+}
+
+function chatMoveToFolder(chatId: number, folderId: number | null): Promise<ChatRecord> {
+  return ipcRenderer.invoke('chat-move-to-folder', chatId, folderId);
+}
+
+function chatGetFolders(): Promise<ChatFolderRecord[]> {
+  return ipcRenderer.invoke('chat-get-folders');
+}
+
+function chatCreateFolder(name: string): Promise<ChatFolderRecord> {
+  return ipcRenderer.invoke('chat-create-folder', name);
+}
+
+function chatRenameFolder(folderId: number, name: string): Promise<ChatFolderRecord> {
+  return ipcRenderer.invoke('chat-rename-folder', folderId, name);
+}
+
+function chatDeleteFolder(folderId: number): Promise<void> {
+  return ipcRenderer.invoke('chat-delete-folder', folderId);
+}
+
 function chatDelete(chatId: number): Promise<void> {
   return ipcRenderer.invoke('chat-delete', chatId);
 }
 
-function chatSendMessage(chatId: number, content: string): Promise<{
+function chatDeleteMany(chatIds: number[]): Promise<void> {
+  return ipcRenderer.invoke('chat-delete-many', chatIds);
+}
+
+function chatSendMessage(chatId: number, content: string, attachments: AttachmentDraft[] = []): Promise<{
   userMessage: MessageRecord;
   assistantMessage: MessageRecord;
   autoNamed: boolean;
+  summarized: boolean; // older messages were summarized to fit the context
 }> {
-  return ipcRenderer.invoke('chat-send-message', chatId, content);
+  return ipcRenderer.invoke('chat-send-message', chatId, content, attachments);
+}
+
+function chatPickAttachments(): Promise<AttachmentReadResult | null> {
+  return ipcRenderer.invoke('chat-pick-attachments');
+}
+
+/**
+ * Read files dropped on the window, which the renderer cannot read itself.
+ * Paths are resolved here, so the page can only have files the user dropped read,
+ * files made in the page have no path and are skipped.
+ */
+function chatReadAttachments(files: File[]): Promise<AttachmentReadResult> {
+  const filePaths = files
+    .map((file) => webUtils.getPathForFile(file))
+    .filter((filePath) => filePath !== '');
+  return ipcRenderer.invoke('chat-read-attachments', filePaths);
+}
+
+function chatRegenerate(chatId: number): Promise<{
+  assistantMessage: MessageRecord;
+  autoNamed: boolean;
+  summarized: boolean;
+}> {
+  return ipcRenderer.invoke('chat-regenerate', chatId);
+}
+
+function chatEditMessage(chatId: number, messageId: number, content: string): Promise<{
+  userMessage: MessageRecord;
+  assistantMessage: MessageRecord;
+  autoNamed: boolean;
+  summarized: boolean;
+}> {
+  return ipcRenderer.invoke('chat-edit-message', chatId, messageId, content);
+}
+
+function chatSwitchBranch(chatId: number, messageId: number): Promise<MessageBranchRecord[]> {
+  return ipcRenderer.invoke('chat-switch-branch', chatId, messageId);
+}
+
+function chatStopGeneration(chatId: number): Promise<boolean> {
+  return ipcRenderer.invoke('chat-stop-generation', chatId);
+}
+
+function chatRespondToToolCall(callId: string, approved: boolean): Promise<boolean> {
+  return ipcRenderer.invoke('chat-respond-tool-call', callId, approved);
+}
+
+function chatSearch(query: string): Promise<ChatSearchResult[]> {
+  return ipcRenderer.invoke('chat-search', query);
+}
+
+function chatExport(chatId: number, format: ChatExportFormat): Promise<string | null> {
+  return ipcRenderer.invoke('chat-export', chatId, format);
 }
 
-function chatGetMessages(chatId: number): Promise<MessageRecord[]> {
+function chatExportMany(chatIds: number[], format: ChatExportFormat): Promise<string | null> {
+  return ipcRenderer.invoke('chat-export-many', chatIds, format);
+}
+
+function chatImport(): Promise<ChatRecord | null> {
+  return ipcRenderer.invoke('chat-import');
+}
+
+function chatGetMessages(chatId: number): Promise<MessageBranchRecord[]> {
   return ipcRenderer.invoke('chat-get-messages', chatId);
 }
 
@@ -70,20 +277,89 @@ function chatGetMessageCount(chatId: number): Promise<number> {
   return ipcRenderer.invoke('chat-get-message-count', chatId);
 }
 
+function chatGetEncryptionStatus(): Promise<ChatEncryptionStatus> {
+  return ipcRenderer.invoke('chat-encryption-status');
+}
+
+// Resolves false when the passphrase is wrong
+function chatUnlock(passphrase: string): Promise<boolean> {
+  return ipcRenderer.invoke('chat-unlock', passphrase);
+}
+
+function chatLock(): Promise<void> {
+  return ipcRenderer.invoke('chat-lock');
+}
+
+function chatEnableEncryption(passphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-enable-encryption', passphrase);
+}
+
+function chatChangePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-change-passphrase', currentPassphrase, newPassphrase);
+}
+
+function chatDisableEncryption(passphrase: string): Promise<void> {
+  return ipcRenderer.invoke('chat-disable-encryption', passphrase);
+}
+
 function chatOnMessageStream(callback: (data: ChatMessageStreamData) => void): () => void {
   const listener = (_event: unknown, data: ChatMessageStreamData) => callback(data);
   ipcRenderer.on('chat-message-stream', listener);
   return () => ipcRenderer.removeListener('chat-message-stream', listener);
 }
 
+function chatOnToolCallRequest(callback: (request: ToolCallRequest) => void): () => void {
+  const listener = (_event: unknown, request: ToolCallRequest) => callback(request);
+  ipcRenderer.on('chat-tool-call-request', listener);
+  return () => ipcRenderer.removeListener('chat-tool-call-request', listener);
+}
+
+function chatOnToolMessage(callback: (data: ChatToolMessageData) => void): () => void {
+  const listener = (_event: unknown, data: ChatToolMessageData) => callback(data);
+  ipcRenderer.on('chat-tool-message', listener);
+  return () => ipcRenderer.removeListener('chat-tool-message', listener);
+}
+
 export const ChatApi = {
   chatCreate,
   chatGet,
   chatGetAll,
   chatUpdateName,
+  chatSuggestTitle,
+  chatUpdateSystemPrompt,
+  chatUpdateKnowledgeBase,
+  chatUpdatePinned,
+  chatUpdateArchived,
+  chatUpdateArchivedMany,
+  chatUpdateTags,
+  chatMoveToFolder,
+  chatGetFolders,
+  chatCreateFolder,
+  chatRenameFolder,
+  chatDeleteFolder,
   chatDelete,
+  chatDeleteMany,
   chatSendMessage,
+  chatPickAttachments,
+  chatReadAttachments,
+  chatRegenerate,
+  chatEditMessage,
+  chatSwitchBranch,
+  chatStopGeneration,
+  chatRespondToToolCall,
+  chatSearch,
+  chatExport,
+  chatExportMany,
+  chatImport,
   chatGetMessages,
   chatGetMessageCount,
-  chatOnMessageStream
+  chatGetEncryptionStatus,
+  chatUnlock,
+  chatLock,
+  chatEnableEncryption,
+  chatChangePassphrase,
+  chatDisableEncryption,
+  chatOnMessageStream,
+  chatOnToolCallRequest,
+  chatOnToolMessage
 };
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Mock ipcRenderer
+const mockIpcRenderer = {
+  invoke: jest.fn(),
+};
+
+jest.mock('electron', () => ({
+  ipcRenderer: mockIpcRenderer,
+}));
+
+import { CodeApi } from './preload.code';
+
+describe('CodeApi', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should invoke code-save with the content and language', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue('/home/user/snippet.py');
+    await expect(CodeApi.codeSave('print(1)', 'python')).resolves.toBe('/home/user/snippet.py');
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('code-save', 'print(1)', 'python');
+  });
+
+  it('should invoke code-run with the language and code', async () => {
+    const output = { stdout: '1\n', stderr: '', exitCode: 0, timedOut: false, truncated: false, durationMs: 30 };
+    mockIpcRenderer.invoke.mockResolvedValue(output);
+    await expect(CodeApi.codeRun('js', 'console.log(1)')).resolves.toBe(output);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('code-run', 'js', 'console.log(1)');
+  });
+});
@@ -0,0 +1,45 @@
+import { ipcRenderer } from 'electron';
+
+/**
+ * Code Block Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface CodeRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+interface CodeSettings {
+  allowRun: boolean;
+}
+
+/**
+ * Code API functions for preload script
+ * These functions handle IPC communication for the code blocks of replies
+ */
+function codeGetSettings(): Promise<CodeSettings> {
+  return ipcRenderer.invoke('code-get-settings');
+}
+
+function codeUpdateSettings(changes: Partial<CodeSettings>): Promise<CodeSettings> {
+  return ipcRenderer.invoke('code-update-settings', changes);
+}
+
+function codeSave(content: string, language: string | null): Promise<string | null> {
+  return ipcRenderer.invoke('code-save', content, language);
+}
+
+function codeRun(language: string, code: string): Promise<CodeRunResult> {
+  return ipcRenderer.invoke('code-run', language, code);
+}
+
+export const CodeApi = {
+  codeGetSettings,
+  codeUpdateSettings,
+  codeSave,
+  codeRun
+};
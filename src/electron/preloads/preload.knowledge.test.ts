@@ -0,0 +1,78 @@
+// Mock ipcRenderer
+const mockIpcRenderer = {
+  invoke: jest.fn(),
+  on: jest.fn(),
+  removeListener: jest.fn(),
+};
+
+jest.mock('electron', () => ({
+  ipcRenderer: mockIpcRenderer,
+}));
+
+import { KnowledgeApi } from './preload.knowledge';
+
+describe('KnowledgeApi', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should invoke knowledge-get-folders', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue([]);
+    await KnowledgeApi.knowledgeGetFolders();
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-get-folders');
+  });
+
+  it('should invoke knowledge-add-folder', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue(null);
+    await KnowledgeApi.knowledgeAddFolder();
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-add-folder');
+  });
+
+  it('should invoke knowledge-remove-folder with id', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue(undefined);
+    await KnowledgeApi.knowledgeRemoveFolder(2);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-remove-folder', 2);
+  });
+
+  it('should invoke knowledge-index-folder with id', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue({ folderId: 2, filesIndexed: 1, filesSkipped: 0, filesRemoved: 0, errors: [] });
+    await KnowledgeApi.knowledgeIndexFolder(2);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-index-folder', 2);
+  });
+
+  it('should invoke knowledge-get-embedding-model', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue('/models/embed.gguf');
+    await expect(KnowledgeApi.knowledgeGetEmbeddingModel()).resolves.toBe('/models/embed.gguf');
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-get-embedding-model');
+  });
+
+  it('should invoke knowledge-select-embedding-model', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue(null);
+    await KnowledgeApi.knowledgeSelectEmbeddingModel();
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-select-embedding-model');
+  });
+
+  it('should invoke knowledge-open-source with the file path', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue(undefined);
+    await KnowledgeApi.knowledgeOpenSource('/docs/notes.md');
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('knowledge-open-source', '/docs/notes.md');
+  });
+
+  describe('knowledgeOnIndexProgress', () => {
+    it('should register listener and return cleanup function', () => {
+      const callback = jest.fn();
+      const cleanup = KnowledgeApi.knowledgeOnIndexProgress(callback);
+
+      expect(mockIpcRenderer.on).toHaveBeenCalledWith('knowledge-index-progress', expect.any(Function));
+
+      const listener = (mockIpcRenderer.on as jest.Mock).mock.calls[0][1];
+      const progress = { folderId: 1, filesDone: 2, filesTotal: 5, currentFile: '/docs/notes.md' };
+      listener(null, progress);
+
+      expect(callback).toHaveBeenCalledWith(progress);
+
+      cleanup();
+      expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('knowledge-index-progress', listener);
+    });
+  });
+});
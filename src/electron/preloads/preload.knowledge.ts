@@ -0,0 +1,82 @@
+import { ipcRenderer } from 'electron';
+
+/**
+ * Knowledge Base Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface KnowledgeFolderRecord {
+  id: number;
+  path: string;
+  embeddingModel: string | null;
+  indexedAt: Date | null;
+  createdAt: Date;
+}
+
+interface KnowledgeFolderSummary extends KnowledgeFolderRecord {
+  fileCount: number;
+  chunkCount: number;
+}
+
+interface KnowledgeIndexProgress {
+  folderId: number;
+  filesDone: number;
+  filesTotal: number;
+  currentFile: string | null;
+}
+
+interface KnowledgeIndexResult {
+  folderId: number;
+  filesIndexed: number;
+  filesSkipped: number;
+  filesRemoved: number;
+  errors: { name: string; error: string }[];
+}
+
+/**
+ * Knowledge API functions for preload script
+ * These functions handle IPC communication for the folders indexed for retrieval
+ */
+function knowledgeGetFolders(): Promise<KnowledgeFolderSummary[]> {
+  return ipcRenderer.invoke('knowledge-get-folders');
+}
+
+function knowledgeAddFolder(): Promise<KnowledgeFolderRecord | null> {
+  return ipcRenderer.invoke('knowledge-add-folder');
+}
+
+function knowledgeRemoveFolder(folderId: number): Promise<void> {
+  return ipcRenderer.invoke('knowledge-remove-folder', folderId);
+}
+
+function knowledgeIndexFolder(folderId: number): Promise<KnowledgeIndexResult> {
+  return ipcRenderer.invoke('knowledge-index-folder', folderId);
+}
+
+function knowledgeGetEmbeddingModel(): Promise<string | null> {
+  return ipcRenderer.invoke('knowledge-get-embedding-model');
+}
+
+function knowledgeSelectEmbeddingModel(): Promise<string | null> {
+  return ipcRenderer.invoke('knowledge-select-embedding-model');
+}
+
+function knowledgeOpenSource(filePath: string): Promise<void> {
+  return ipcRenderer.invoke('knowledge-open-source', filePath);
+}
+
+function knowledgeOnIndexProgress(callback: (progress: KnowledgeIndexProgress) => void): () => void {
+  const listener = (_event: unknown, progress: KnowledgeIndexProgress) => callback(progress);
+  ipcRenderer.on('knowledge-index-progress', listener);
+  return () => ipcRenderer.removeListener('knowledge-index-progress', listener);
+}
+
+export const KnowledgeApi = {
+  knowledgeGetFolders,
+  knowledgeAddFolder,
+  knowledgeRemoveFolder,
+  knowledgeIndexFolder,
+  knowledgeGetEmbeddingModel,
+  knowledgeSelectEmbeddingModel,
+  knowledgeOpenSource,
+  knowledgeOnIndexProgress
+};
@@ -71,13 +71,29 @@ describe('LLMApi', () => {
     it('should invoke llm-load-model with path and config', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
       await LLMApi.llmLoadModel('/path/to/model.gguf', mockConfig);
-      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/path/to/model.gguf', mockConfig);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/path/to/model.gguf', mockConfig, undefined);
+    });
+
+    it('should invoke llm-load-model with the model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmLoadModel('/path/to/model.gguf', undefined, 'model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/path/to/model.gguf', undefined, 'model1');
     });
 
     it('should invoke llm-load-model with path only', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
       await LLMApi.llmLoadModel('/path/to/model.gguf');
-      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/path/to/model.gguf', undefined);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-load-model', '/path/to/model.gguf', undefined, undefined);
+    });
+  });
+
+  describe('llmGetLoadProgress', () => {
+    it('should invoke llm-get-load-progress', async () => {
+      const progress = { provider: 'llama-cpp', modelPath: '/path/to/model.gguf', modelId: null, status: 'loading', progress: 40 };
+      mockIpcRenderer.invoke.mockResolvedValue(progress);
+      const result = await LLMApi.llmGetLoadProgress();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-load-progress');
+      expect(result).toEqual(progress);
     });
   });
 
@@ -119,6 +135,39 @@ describe('LLMApi', () => {
     });
   });
 
+  describe('llmGetActiveModel', () => {
+    it('should invoke llm-get-active-model and return the model with its provider', async () => {
+      const activeModel = { provider: 'openai-compatible', path: 'llama3.2', modelId: 'llama3.2' };
+      mockIpcRenderer.invoke.mockResolvedValue(activeModel);
+      const result = await LLMApi.llmGetActiveModel();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-active-model');
+      expect(result).toEqual(activeModel);
+    });
+  });
+
+  describe('endpoint', () => {
+    it('should invoke llm-endpoint-get-settings and llm-endpoint-update-settings', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ baseUrl: 'http://127.0.0.1:11434/v1', apiKey: '' });
+      await LLMApi.llmEndpointGetSettings();
+      await LLMApi.llmEndpointUpdateSettings({ apiKey: 'secret' });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-endpoint-get-settings');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-endpoint-update-settings', { apiKey: 'secret' });
+    });
+
+    it('should invoke llm-endpoint-list-models', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue([{ id: 'llama3.2', ownedBy: null }]);
+      const result = await LLMApi.llmEndpointListModels();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-endpoint-list-models');
+      expect(result).toEqual([{ id: 'llama3.2', ownedBy: null }]);
+    });
+
+    it('should invoke llm-endpoint-load-model with the model name', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmEndpointLoadModel('llama3.2');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-endpoint-load-model', 'llama3.2');
+    });
+  });
+
   describe('llmDownloadModel', () => {
     it('should invoke llm-download-model with model info', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
@@ -127,6 +176,39 @@ describe('LLMApi', () => {
     });
   });
 
+  describe('llmPauseDownload', () => {
+    it('should invoke llm-pause-download with model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmPauseDownload('model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-pause-download', 'model1');
+    });
+  });
+
+  describe('llmResumeDownload', () => {
+    it('should invoke llm-resume-download with model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmResumeDownload('model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-resume-download', 'model1');
+    });
+  });
+
+  describe('llmCancelDownload', () => {
+    it('should invoke llm-cancel-download with model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmCancelDownload('model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-cancel-download', 'model1');
+    });
+  });
+
+  describe('llmListDownloads', () => {
+    it('should invoke llm-list-downloads', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue([]);
+      const result = await LLMApi.llmListDownloads();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-list-downloads');
+      expect(result).toEqual([]);
+    });
+  });
+
   describe('llmDeleteModel', () => {
     it('should invoke llm-delete-model with model info', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
@@ -139,7 +221,72 @@ describe('LLMApi', () => {
     it('should invoke llm-update-config with config', async () => {
       mockIpcRenderer.invoke.mockResolvedValue(undefined);
       await LLMApi.llmUpdateConfig(mockConfig);
-      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-update-config', mockConfig);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-update-config', mockConfig, undefined);
+    });
+
+    it('should invoke llm-update-config with the model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmUpdateConfig(mockConfig, 'model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-update-config', mockConfig, 'model1');
+    });
+  });
+
+  describe('llmGetSavedConfig', () => {
+    it('should invoke llm-get-saved-config with the model id', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(mockConfig);
+      const result = await LLMApi.llmGetSavedConfig('model1');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-saved-config', 'model1');
+      expect(result).toEqual(mockConfig);
+    });
+  });
+
+  describe('llmGetAutoLoad', () => {
+    it('should invoke llm-get-auto-load', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(true);
+      const result = await LLMApi.llmGetAutoLoad();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-get-auto-load');
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('llmSetAutoLoad', () => {
+    it('should invoke llm-set-auto-load with the setting', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(undefined);
+      await LLMApi.llmSetAutoLoad(false);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-set-auto-load', false);
+    });
+  });
+
+  describe('API server', () => {
+    const settings = { enabled: false, port: 8765, apiKey: '', allowRemote: false };
+    const status = { running: true, port: 8765, url: 'http://127.0.0.1:8765/v1' };
+
+    it('should invoke llm-server-get-status', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(status);
+      const result = await LLMApi.llmServerGetStatus();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-server-get-status');
+      expect(result).toEqual(status);
+    });
+
+    it('should invoke llm-server-get-settings', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(settings);
+      const result = await LLMApi.llmServerGetSettings();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-server-get-settings');
+      expect(result).toEqual(settings);
+    });
+
+    it('should invoke llm-server-update-settings with the changes', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue({ ...settings, port: 9000 });
+      await LLMApi.llmServerUpdateSettings({ port: 9000 });
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-server-update-settings', { port: 9000 });
+    });
+
+    it('should invoke llm-server-start and llm-server-stop', async () => {
+      mockIpcRenderer.invoke.mockResolvedValue(status);
+      await LLMApi.llmServerStart();
+      await LLMApi.llmServerStop();
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-server-start');
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-server-stop');
     });
   });
 
@@ -168,6 +315,16 @@ describe('LLMApi', () => {
     });
   });
 
+  describe('llmGenerateStructured', () => {
+    it('should invoke llm-generate-structured with prompt and schema', async () => {
+      const schema = { type: 'object', properties: { title: { type: 'string' } } };
+      mockIpcRenderer.invoke.mockResolvedValue({ title: 'Weekend plans' });
+      const result = await LLMApi.llmGenerateStructured<{ title: string }>('Name this chat', schema);
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('llm-generate-structured', 'Name this chat', schema);
+      expect(result).toEqual({ title: 'Weekend plans' });
+    });
+  });
+
   describe('llmOnDownloadProgress', () => {
     it('should set up listener for download progress', () => {
       const callback = jest.fn();
@@ -189,6 +346,24 @@ describe('LLMApi', () => {
     });
   });
 
+  describe('llmOnLoadProgress', () => {
+    it('should set up listener for model load progress', () => {
+      const callback = jest.fn();
+      const unsubscribe = LLMApi.llmOnLoadProgress(callback);
+
+      expect(mockIpcRenderer.on).toHaveBeenCalledWith('llm-load-progress', expect.any(Function));
+
+      const listener = mockIpcRenderer.on.mock.calls[0][1];
+      const progress = { provider: 'llama-cpp', modelPath: '/path/to/model.gguf', modelId: null, status: 'loaded', progress: 100 };
+      listener({} as Electron.IpcRendererEvent, progress);
+
+      expect(callback).toHaveBeenCalledWith(progress);
+
+      unsubscribe();
+      expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('llm-load-progress', listener);
+    });
+  });
+
   describe('llmOnToken', () => {
     it('should set up listener for token streaming', () => {
       const callback = jest.fn();
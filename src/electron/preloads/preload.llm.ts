@@ -1,5 +1,15 @@
 import { ipcRenderer } from 'electron';
 
+export interface GGUFMetadata {
+  architecture: string | null;
+  name: string | null;
+  parameterCount: number | null;
+  quantization: string | null;
+  contextLength: number | null;
+  chatTemplate: string | null;
+  license: string | null;
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
@@ -8,10 +18,13 @@ export interface ModelInfo {
   size: string;
   url: string;
   filename: string;
+  sha256?: string | null;
   recommendedContext: number;
+  maxContext?: number | null;
   type: string;
   installed?: boolean;
   path?: string;
+  metadata?: GGUFMetadata | null;
 }
 
 export interface LLMConfig {
@@ -22,9 +35,57 @@ export interface LLMConfig {
   topK: number;
 }
 
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'canceled';
+
 export interface DownloadProgress {
   modelId: string;
+  status: DownloadStatus;
+  progress: number;
+  downloadedBytes: number;
+  totalBytes: number;
+  error?: string;
+}
+
+export type ModelLoadStatus = 'loading' | 'loaded' | 'failed';
+
+export type InferenceProviderId = 'llama-cpp' | 'openai-compatible';
+
+export interface ModelLoadProgress {
+  provider: InferenceProviderId;
+  modelPath: string;
+  modelId: string | null;
+  status: ModelLoadStatus;
   progress: number;
+  error?: string;
+}
+
+export interface ActiveModel {
+  provider: InferenceProviderId;
+  path: string;
+  modelId: string | null;
+}
+
+export interface EndpointSettings {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface EndpointModel {
+  id: string;
+  ownedBy: string | null;
+}
+
+export interface ApiServerSettings {
+  enabled: boolean;
+  port: number;
+  apiKey: string;
+  allowRemote: boolean;
+}
+
+export interface ApiServerStatus {
+  running: boolean;
+  port: number | null;
+  url: string | null;
 }
 
 function llmListAvailable(): Promise<Array<ModelInfo>> {
@@ -39,8 +100,12 @@ function llmSelectFromDisk(): Promise<string | null> {
   return ipcRenderer.invoke('llm-select-from-disk');
 }
 
-function llmLoadModel(modelPath: string, config?: Partial<LLMConfig>): Promise<void> {
-  return ipcRenderer.invoke('llm-load-model', modelPath, config);
+function llmLoadModel(modelPath: string, config?: Partial<LLMConfig>, modelId?: string): Promise<void> {
+  return ipcRenderer.invoke('llm-load-model', modelPath, config, modelId);
+}
+
+function llmGetLoadProgress(): Promise<ModelLoadProgress | null> {
+  return ipcRenderer.invoke('llm-get-load-progress');
 }
 
 function llmUnloadModel(): Promise<void> {
@@ -55,32 +120,110 @@ function llmGetCurrentModel(): Promise<string | null> {
   return ipcRenderer.invoke('llm-get-current-model');
 }
 
-function llmDownloadModel(modelInfo: ModelInfo): Promise<void> {
+function llmGetActiveModel(): Promise<ActiveModel | null> {
+  return ipcRenderer.invoke('llm-get-active-model');
+}
+
+function llmEndpointGetSettings(): Promise<EndpointSettings> {
+  return ipcRenderer.invoke('llm-endpoint-get-settings');
+}
+
+function llmEndpointUpdateSettings(changes: Partial<EndpointSettings>): Promise<EndpointSettings> {
+  return ipcRenderer.invoke('llm-endpoint-update-settings', changes);
+}
+
+function llmEndpointListModels(): Promise<Array<EndpointModel>> {
+  return ipcRenderer.invoke('llm-endpoint-list-models');
+}
+
+function llmEndpointLoadModel(model: string): Promise<void> {
+  return ipcRenderer.invoke('llm-endpoint-load-model', model);
+}
+
+function llmDownloadModel(modelInfo: ModelInfo): Promise<DownloadProgress> {
   return ipcRenderer.invoke('llm-download-model', modelInfo);
 }
 
+function llmPauseDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-pause-download', modelId);
+}
+
+function llmResumeDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-resume-download', modelId);
+}
+
+function llmCancelDownload(modelId: string): Promise<void> {
+  return ipcRenderer.invoke('llm-cancel-download', modelId);
+}
+
+function llmListDownloads(): Promise<Array<DownloadProgress>> {
+  return ipcRenderer.invoke('llm-list-downloads');
+}
+
 function llmDeleteModel(modelInfo: ModelInfo): Promise<void> {
   return ipcRenderer.invoke('llm-delete-model', modelInfo);
 }
 
-function llmUpdateConfig(config: Partial<LLMConfig>): Promise<void> {
-  return ipcRenderer.invoke('llm-update-config', config);
+function llmUpdateConfig(config: Partial<LLMConfig>, modelId?: string): Promise<void> {
+  return ipcRenderer.invoke('llm-update-config', config, modelId);
 }
 
 function llmGetConfig(): Promise<LLMConfig> {
   return ipcRenderer.invoke('llm-get-config');
 }
 
+function llmGetSavedConfig(modelId?: string): Promise<LLMConfig> {
+  return ipcRenderer.invoke('llm-get-saved-config', modelId);
+}
+
+function llmGetAutoLoad(): Promise<boolean> {
+  return ipcRenderer.invoke('llm-get-auto-load');
+}
+
+function llmSetAutoLoad(enabled: boolean): Promise<void> {
+  return ipcRenderer.invoke('llm-set-auto-load', enabled);
+}
+
+function llmServerGetStatus(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-get-status');
+}
+
+function llmServerGetSettings(): Promise<ApiServerSettings> {
+  return ipcRenderer.invoke('llm-server-get-settings');
+}
+
+function llmServerUpdateSettings(changes: Partial<ApiServerSettings>): Promise<ApiServerSettings> {
+  return ipcRenderer.invoke('llm-server-update-settings', changes);
+}
+
+function llmServerStart(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-start');
+}
+
+function llmServerStop(): Promise<ApiServerStatus> {
+  return ipcRenderer.invoke('llm-server-stop');
+}
+
 function llmGenerateResponse(prompt: string): Promise<string> {
   return ipcRenderer.invoke('llm-generate-response', prompt);
 }
 
+function llmGenerateStructured<T = unknown>(prompt: string, jsonSchema: Record<string, unknown>): Promise<T> {
+  return ipcRenderer.invoke('llm-generate-structured', prompt, jsonSchema);
+}
+
 function llmOnDownloadProgress(callback: (progress: DownloadProgress) => void): () => void {
   const listener = (_event: Electron.IpcRendererEvent, progress: DownloadProgress): void => callback(progress);
   ipcRenderer.on('llm-download-progress', listener);
   return (): void => { ipcRenderer.removeListener('llm-download-progress', listener); };
 }
 
+function llmOnLoadProgress(callback: (progress: ModelLoadProgress) => void): () => void {
+  const listener = (_event: Electron.IpcRendererEvent, progress: ModelLoadProgress): void => callback(progress);
+  ipcRenderer.on('llm-load-progress', listener);
+  return (): void => { ipcRenderer.removeListener('llm-load-progress', listener); };
+}
+
 function llmOnToken(callback: (token: string) => void): () => void {
   const listener = (_event: Electron.IpcRendererEvent, token: string): void => callback(token);
   ipcRenderer.on('llm-token', listener);
@@ -104,15 +247,35 @@ export const LLMApi = {
   llmListInstalled,
   llmSelectFromDisk,
   llmLoadModel,
+  llmGetLoadProgress,
   llmUnloadModel,
   llmIsLoaded,
   llmGetCurrentModel,
+  llmGetActiveModel,
+  llmEndpointGetSettings,
+  llmEndpointUpdateSettings,
+  llmEndpointListModels,
+  llmEndpointLoadModel,
   llmDownloadModel,
+  llmPauseDownload,
+  llmResumeDownload,
+  llmCancelDownload,
+  llmListDownloads,
   llmDeleteModel,
   llmUpdateConfig,
   llmGetConfig,
+  llmGetSavedConfig,
+  llmGetAutoLoad,
+  llmSetAutoLoad,
+  llmServerGetStatus,
+  llmServerGetSettings,
+  llmServerUpdateSettings,
+  llmServerStart,
+  llmServerStop,
   llmGenerateResponse,
+  llmGenerateStructured,
   llmOnDownloadProgress,
+  llmOnLoadProgress,
   llmOnToken,
   llmGetModelsDirectory,
   llmSetModelsDirectory,
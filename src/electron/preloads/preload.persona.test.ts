@@ -0,0 +1,42 @@
+// Mock ipcRenderer
+const mockIpcRenderer = {
+  invoke: jest.fn(),
+};
+
+jest.mock('electron', () => ({
+  ipcRenderer: mockIpcRenderer,
+}));
+
+import { PersonaApi } from './preload.persona';
+
+describe('PersonaApi', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should invoke persona-get-all', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue([]);
+    await PersonaApi.personaGetAll();
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('persona-get-all');
+  });
+
+  it('should invoke persona-create with data', async () => {
+    const data = { name: 'Translator', systemPrompt: 'Translate' };
+    mockIpcRenderer.invoke.mockResolvedValue({ id: 1, ...data });
+    await PersonaApi.personaCreate(data);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('persona-create', data);
+  });
+
+  it('should invoke persona-update with id and data', async () => {
+    const data = { name: 'Translator', systemPrompt: 'Translate' };
+    mockIpcRenderer.invoke.mockResolvedValue({ id: 1, ...data });
+    await PersonaApi.personaUpdate(1, data);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('persona-update', 1, data);
+  });
+
+  it('should invoke persona-delete with id', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue(undefined);
+    await PersonaApi.personaDelete(1);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('persona-delete', 1);
+  });
+});
@@ -0,0 +1,45 @@
+import { ipcRenderer } from 'electron';
+
+/**
+ * Persona Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface PersonaRecord {
+  id: number;
+  name: string;
+  systemPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PersonaRequest {
+  name: string;
+  systemPrompt: string;
+}
+
+/**
+ * Persona API functions for preload script
+ * These functions handle IPC communication for the persona library
+ */
+function personaGetAll(): Promise<PersonaRecord[]> {
+  return ipcRenderer.invoke('persona-get-all');
+}
+
+function personaCreate(data: PersonaRequest): Promise<PersonaRecord> {
+  return ipcRenderer.invoke('persona-create', data);
+}
+
+function personaUpdate(id: number, data: PersonaRequest): Promise<PersonaRecord> {
+  return ipcRenderer.invoke('persona-update', id, data);
+}
+
+function personaDelete(id: number): Promise<void> {
+  return ipcRenderer.invoke('persona-delete', id);
+}
+
+export const PersonaApi = {
+  personaGetAll,
+  personaCreate,
+  personaUpdate,
+  personaDelete
+};
@@ -0,0 +1,60 @@
+// Mock ipcRenderer
+const mockIpcRenderer = {
+  invoke: jest.fn(),
+  on: jest.fn(),
+  removeListener: jest.fn(),
+};
+
+jest.mock('electron', () => ({
+  ipcRenderer: mockIpcRenderer,
+}));
+
+import { RetentionApi } from './preload.retention';
+
+describe('RetentionApi', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should invoke retention-get-policy', async () => {
+    const policy = { enabled: false, maxAgeDays: null, maxChats: null };
+    mockIpcRenderer.invoke.mockResolvedValue(policy);
+    await expect(RetentionApi.retentionGetPolicy()).resolves.toBe(policy);
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('retention-get-policy');
+  });
+
+  it('should invoke retention-update-policy with the changes', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue({ enabled: true, maxAgeDays: 30, maxChats: null });
+    await RetentionApi.retentionUpdatePolicy({ enabled: true, maxAgeDays: 30 });
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('retention-update-policy', { enabled: true, maxAgeDays: 30 });
+  });
+
+  it('should invoke retention-preview with the policy to try', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue([]);
+    await RetentionApi.retentionPreview({ maxChats: 10 });
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('retention-preview', { maxChats: 10 });
+  });
+
+  it('should invoke retention-apply', async () => {
+    mockIpcRenderer.invoke.mockResolvedValue([]);
+    await RetentionApi.retentionApply();
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('retention-apply');
+  });
+
+  describe('retentionOnApplied', () => {
+    it('should register listener and return cleanup function', () => {
+      const callback = jest.fn();
+      const cleanup = RetentionApi.retentionOnApplied(callback);
+
+      expect(mockIpcRenderer.on).toHaveBeenCalledWith('retention-applied', expect.any(Function));
+
+      const listener = (mockIpcRenderer.on as jest.Mock).mock.calls[0][1];
+      listener(null, [4, 5]);
+
+      expect(callback).toHaveBeenCalledWith([4, 5]);
+
+      cleanup();
+      expect(mockIpcRenderer.removeListener).toHaveBeenCalledWith('retention-applied', listener);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { ipcRenderer } from 'electron';
+
+/**
+ * Retention Policy Types and Interfaces
+ * Shared between main and renderer processes
+ */
+interface RetentionPolicy {
+  enabled: boolean;
+  maxAgeDays: number | null;
+  maxChats: number | null;
+}
+
+interface RetentionCandidate {
+  id: number;
+  name: string;
+  updatedAt: Date;
+  reason: 'age' | 'count';
+}
+
+/**
+ * Retention API functions for preload script
+ * These functions handle IPC communication for the chat retention policy
+ */
+function retentionGetPolicy(): Promise<RetentionPolicy> {
+  return ipcRenderer.invoke('retention-get-policy');
+}
+
+function retentionUpdatePolicy(changes: Partial<RetentionPolicy>): Promise<RetentionPolicy> {
+  return ipcRenderer.invoke('retention-update-policy', changes);
+}
+
+function retentionPreview(policy?: Partial<RetentionPolicy>): Promise<RetentionCandidate[]> {
+  return ipcRenderer.invoke('retention-preview', policy);
+}
+
+function retentionApply(): Promise<RetentionCandidate[]> {
+  return ipcRenderer.invoke('retention-apply');
+}
+
+function retentionOnApplied(callback: (chatIds: number[]) => void): () => void {
+  const listener = (_event: unknown, chatIds: number[]) => callback(chatIds);
+  ipcRenderer.on('retention-applied', listener);
+  return () => ipcRenderer.removeListener('retention-applied', listener);
+}
+
+export const RetentionApi = {
+  retentionGetPolicy,
+  retentionUpdatePolicy,
+  retentionPreview,
+  retentionApply,
+  retentionOnApplied
+};
@@ -0,0 +1,159 @@
+import {
+  createApiError,
+  createChatCompletionChunk,
+  getContentText,
+  isAuthorized,
+  isLoopbackAddress,
+  isLoopbackHost,
+  parseChatCompletionRequest,
+} from './apiServer.helpers';
+
+describe('API server helpers', () => {
+  describe('isLoopbackAddress', () => {
+    it('should accept loopback addresses', () => {
+      expect(isLoopbackAddress('127.0.0.1')).toBe(true);
+      expect(isLoopbackAddress('127.1.2.3')).toBe(true);
+      expect(isLoopbackAddress('::1')).toBe(true);
+      expect(isLoopbackAddress('::ffff:127.0.0.1')).toBe(true);
+    });
+
+    it('should reject other addresses', () => {
+      expect(isLoopbackAddress('192.168.1.10')).toBe(false);
+      expect(isLoopbackAddress('::ffff:10.0.0.2')).toBe(false);
+      expect(isLoopbackAddress('fe80::1')).toBe(false);
+      expect(isLoopbackAddress('1127.0.0.1')).toBe(false);
+      expect(isLoopbackAddress(undefined)).toBe(false);
+    });
+  });
+
+  describe('isLoopbackHost', () => {
+    it('should accept the names of this machine, with or without a port', () => {
+      expect(isLoopbackHost('127.0.0.1:8765')).toBe(true);
+      expect(isLoopbackHost('localhost')).toBe(true);
+      expect(isLoopbackHost('LocalHost:8765')).toBe(true);
+      expect(isLoopbackHost('[::1]:8765')).toBe(true);
+      expect(isLoopbackHost('[::1]')).toBe(true);
+    });
+
+    it('should reject other names', () => {
+      expect(isLoopbackHost('attacker.example:8765')).toBe(false);
+      expect(isLoopbackHost('localhost.attacker.example')).toBe(false);
+      expect(isLoopbackHost('192.168.1.10:8765')).toBe(false);
+      expect(isLoopbackHost('[::2]:8765')).toBe(false);
+      expect(isLoopbackHost('')).toBe(false);
+      expect(isLoopbackHost(undefined)).toBe(false);
+    });
+  });
+
+  describe('isAuthorized', () => {
+    it('should accept the bearer token matching the key', () => {
+      expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+      expect(isAuthorized('bearer secret', 'secret')).toBe(true);
+    });
+
+    it('should reject a missing or different token', () => {
+      expect(isAuthorized(undefined, 'secret')).toBe(false);
+      expect(isAuthorized('secret', 'secret')).toBe(false);
+      expect(isAuthorized('Bearer other', 'secret')).toBe(false);
+    });
+  });
+
+  describe('createApiError', () => {
+    it('should use the OpenAI error format', () => {
+      expect(createApiError('Invalid API key', 'invalid_request_error', 'invalid_api_key')).toEqual({
+        error: { message: 'Invalid API key', type: 'invalid_request_error', param: null, code: 'invalid_api_key' },
+      });
+    });
+  });
+
+  describe('getContentText', () => {
+    it('should return string content as is', () => {
+      expect(getContentText('Hello')).toBe('Hello');
+    });
+
+    it('should join text parts', () => {
+      expect(getContentText([{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'there' }])).toBe('Hello there');
+    });
+
+    it('should reject parts other than text', () => {
+      expect(() => getContentText([{ type: 'image_url', image_url: { url: 'x' } }]))
+        .toThrow('Unsupported content part: image_url');
+    });
+
+    it('should treat missing content as empty', () => {
+      expect(getContentText(null)).toBe('');
+    });
+  });
+
+  describe('parseChatCompletionRequest', () => {
+    it('should translate messages and sampling options', () => {
+      const request = parseChatCompletionRequest({
+        model: 'any',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'developer', content: 'Answer in French.' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Salut' },
+          { role: 'user', content: 'How are you?' },
+        ],
+        temperature: 0.2,
+        top_p: 0.9,
+        max_tokens: 64,
+        stream: true,
+      });
+
+      expect(request).toEqual({
+        history: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Salut' },
+          { role: 'user', content: 'How are you?' },
+        ],
+        options: {
+          systemPrompt: 'Be brief.\n\nAnswer in French.',
+          temperature: 0.2,
+          topP: 0.9,
+          maxTokens: 64,
+        },
+        stream: true,
+      });
+    });
+
+    it('should prefer max_completion_tokens and default to no system prompt', () => {
+      const request = parseChatCompletionRequest({
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 64,
+        max_completion_tokens: 32,
+      });
+
+      expect(request.options).toEqual({ systemPrompt: null, temperature: undefined, topP: undefined, maxTokens: 32 });
+      expect(request.stream).toBe(false);
+    });
+
+    it('should reject invalid bodies', () => {
+      expect(() => parseChatCompletionRequest([])).toThrow('The request body must be a JSON object');
+      expect(() => parseChatCompletionRequest({ messages: [] })).toThrow('messages must be a non-empty array');
+      expect(() => parseChatCompletionRequest({ messages: [{ role: 'tool', content: '{}' }] }))
+        .toThrow('Unsupported message role: tool');
+      expect(() => parseChatCompletionRequest({ messages: [{ role: 'user', content: 'Hi' }], temperature: 'hot' }))
+        .toThrow('temperature must be a number');
+    });
+
+    it('should require the last message to be from the user', () => {
+      expect(() => parseChatCompletionRequest({
+        messages: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }],
+      })).toThrow('The last message must be from the user');
+    });
+  });
+
+  describe('createChatCompletionChunk', () => {
+    it('should build a streamed event', () => {
+      expect(createChatCompletionChunk('id1', 'model1', 100, { content: 'Hi' })).toEqual({
+        id: 'id1',
+        object: 'chat.completion.chunk',
+        created: 100,
+        model: 'model1',
+        choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: null }],
+      });
+    });
+  });
+});
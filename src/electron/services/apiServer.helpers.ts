@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import type { ChatGenerationOptions, ChatHistoryMessage } from './llm.service';
+
+/**
+ * Helper functions for the OpenAI-compatible API server
+ * These are extracted for testability
+ */
+
+export interface ApiErrorBody {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+}
+
+export interface ChatCompletionRequest {
+  history: ChatHistoryMessage[];
+  options: Pick<ChatGenerationOptions, 'systemPrompt' | 'temperature' | 'topP' | 'maxTokens'>;
+  stream: boolean;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type FinishReason = 'stop' | 'length' | null;
+
+/**
+ * Check whether a socket address belongs to this machine
+ */
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) {
+    return false;
+  }
+  const ipv4 = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+  return address === '::1' || /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(ipv4);
+}
+
+/**
+ * Whether a Host header names this machine. Browsers send the name of the page's site,
+ * so a site whose DNS name was rebound to 127.0.0.1 is told apart from a local client.
+ */
+export function isLoopbackHost(host: string | undefined): boolean {
+  const match = /^(\[[^\]]+\]|[^:]+)(?::\d+)?$/.exec(host ?? '');
+  if (!match) {
+    return false;
+  }
+  return ['localhost', '127.0.0.1', '[::1]'].includes(match[1].toLowerCase());
+}
+
+/**
+ * Check an Authorization header against the API key, in constant time
+ */
+export function isAuthorized(header: string | undefined, apiKey: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+  const given = crypto.createHash('sha256').update(match[1].trim()).digest();
+  const expected = crypto.createHash('sha256').update(apiKey).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Build an error body in the format OpenAI clients expect
+ */
+export function createApiError(message: string, type: string, code: string | null = null): ApiErrorBody {
+  return { error: { message, type, param: null, code } };
+}
+
+/**
+ * Get the text of a message content, given as a string or as an array of parts
+ */
+export function getContentText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (part?.type !== 'text' || typeof part.text !== 'string') {
+          throw new Error(`Unsupported content part: ${part?.type}`);
+        }
+        return part.text;
+      })
+      .join('');
+  }
+  if (content === null || content === undefined) {
+    return '';
+  }
+  throw new Error('Message content must be a string or an array of parts');
+}
+
+function getOptionalNumber(body: Record<string, unknown>, key: string): number | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * Translate a /v1/chat/completions body into a chat history and generation options.
+ * System and developer messages are joined into the system prompt.
+ * Throws with a message meant for the client when the body is invalid.
+ */
+export function parseChatCompletionRequest(body: unknown): ChatCompletionRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('The request body must be a JSON object');
+  }
+  const request = body as Record<string, unknown>;
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new Error('messages must be a non-empty array');
+  }
+
+  const systemPrompts: string[] = [];
+  const history: ChatHistoryMessage[] = [];
+  for (const message of request.messages) {
+    const role = message?.role;
+    const content = getContentText(message?.content);
+    if (role === 'system' || role === 'developer') {
+      systemPrompts.push(content);
+    } else if (role === 'user' || role === 'assistant') {
+      history.push({ role, content });
+    } else {
+      throw new Error(`Unsupported message role: ${role}`);
+    }
+  }
+
+  if (history[history.length - 1]?.role !== 'user') {
+    throw new Error('The last message must be from the user');
+  }
+
+  return {
+    history,
+    options: {
+      systemPrompt: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : null,
+      temperature: getOptionalNumber(request, 'temperature'),
+      topP: getOptionalNumber(request, 'top_p'),
+      maxTokens: getOptionalNumber(request, 'max_completion_tokens') ?? getOptionalNumber(request, 'max_tokens'),
+    },
+    stream: request.stream === true,
+  };
+}
+
+/**
+ * Build a complete /v1/chat/completions response
+ */
+export function createChatCompletion(
+  id: string,
+  model: string,
+  created: number,
+  content: string,
+  finishReason: FinishReason,
+  usage: ChatCompletionUsage
+) {
+  return {
+    id,
+    object: 'chat.completion',
+    created,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+    usage,
+  };
+}
+
+/**
+ * Build one streamed /v1/chat/completions event
+ */
+export function createChatCompletionChunk(
+  id: string,
+  model: string,
+  created: number,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: FinishReason = null
+) {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
@@ -0,0 +1,275 @@
+import * as http from 'http';
+import { ApiServer } from './apiServer.service';
+import { DEFAULT_API_SERVER_SETTINGS } from './llm.service';
+import type { ApiServerSettings } from './llm.service';
+
+jest.mock('./llm.service', () => ({
+  DEFAULT_API_SERVER_SETTINGS: { enabled: false, port: 8765, apiKey: '', allowRemote: false },
+}));
+
+interface TestResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const mockLLMService = {
+  isModelLoaded: jest.fn(),
+  getCurrentModelPath: jest.fn(),
+  getCurrentModelId: jest.fn(),
+  generateChatResponse: jest.fn(),
+  countTokens: jest.fn((text: string) => text.length),
+};
+
+function request(port: number, method: string, urlPath: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path: urlPath, headers }, (res) => {
+      let data = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk) => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: data }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+  });
+}
+
+describe('ApiServer', () => {
+  let server: ApiServer;
+  let port: number;
+
+  const start = async (settings: Partial<ApiServerSettings> = {}) => {
+    const status = await server.start({ ...DEFAULT_API_SERVER_SETTINGS, port: 0, ...settings });
+    port = status.port!;
+    return status;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockLLMService.isModelLoaded.mockReturnValue(true);
+    mockLLMService.getCurrentModelPath.mockReturnValue('/models/llama.gguf');
+    mockLLMService.getCurrentModelId.mockReturnValue(null);
+    server = new ApiServer(async () => mockLLMService as any);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('start and stop', () => {
+    it('should listen on the loopback interface', async () => {
+      const status = await start();
+
+      expect(status).toEqual({ running: true, port: expect.any(Number), url: `http://127.0.0.1:${status.port}/v1` });
+      expect(server.isRunning()).toBe(true);
+    });
+
+    it('should report a stopped server', async () => {
+      await start();
+      await server.stop();
+
+      expect(server.getStatus()).toEqual({ running: false, port: null, url: null });
+      expect(server.isRunning()).toBe(false);
+    });
+
+    it('should reject when the port is in use', async () => {
+      await start();
+      const other = new ApiServer(async () => mockLLMService as any);
+
+      await expect(other.start({ ...DEFAULT_API_SERVER_SETTINGS, port })).rejects.toThrow(/EADDRINUSE/);
+      expect(other.isRunning()).toBe(false);
+    });
+  });
+
+  describe('access', () => {
+    it('should require the API key when one is set', async () => {
+      await start({ apiKey: 'secret' });
+
+      const denied = await request(port, 'GET', '/v1/models');
+      const allowed = await request(port, 'GET', '/v1/models', undefined, { Authorization: 'Bearer secret' });
+
+      expect(denied.status).toBe(401);
+      expect(JSON.parse(denied.body).error.code).toBe('invalid_api_key');
+      expect(allowed.status).toBe(200);
+    });
+
+    it('should reject requests for another host name', async () => {
+      await start();
+
+      const rebound = await request(port, 'GET', '/v1/models', undefined, { Host: `attacker.example:${port}` });
+      const local = await request(port, 'GET', '/v1/models', undefined, { Host: `localhost:${port}` });
+
+      expect(rebound.status).toBe(403);
+      expect(JSON.parse(rebound.body).error.type).toBe('permission_error');
+      expect(local.status).toBe(200);
+    });
+
+    it('should refuse to accept remote connections without an API key', async () => {
+      await expect(start({ allowRemote: true })).rejects.toThrow('Set an API key');
+      expect(server.isRunning()).toBe(false);
+    });
+
+    it('should answer unknown routes and methods with errors', async () => {
+      await start();
+
+      const unknown = await request(port, 'GET', '/v1/embeddings');
+      const wrongMethod = await request(port, 'GET', '/v1/chat/completions');
+
+      expect(unknown.status).toBe(404);
+      expect(wrongMethod.status).toBe(405);
+      expect(wrongMethod.headers.allow).toBe('POST');
+    });
+  });
+
+  describe('GET /v1/models', () => {
+    it('should list the loaded model by its file name', async () => {
+      await start();
+
+      const response = await request(port, 'GET', '/v1/models');
+
+      expect(JSON.parse(response.body)).toEqual({
+        object: 'list',
+        data: [{ id: 'llama', object: 'model', created: 0, owned_by: 'local' }],
+      });
+    });
+
+    it('should prefer the model id and list nothing without a model', async () => {
+      await start();
+      mockLLMService.getCurrentModelId.mockReturnValue('llama-3.2-1b');
+
+      expect(JSON.parse((await request(port, 'GET', '/v1/models')).body).data[0].id).toBe('llama-3.2-1b');
+
+      mockLLMService.isModelLoaded.mockReturnValue(false);
+
+      expect(JSON.parse((await request(port, 'GET', '/v1/models')).body).data).toEqual([]);
+    });
+  });
+
+  describe('POST /v1/chat/completions', () => {
+    const body = {
+      model: 'llama',
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+      temperature: 0.5,
+    };
+
+    it('should return the completion with its usage', async () => {
+      await start();
+      mockLLMService.generateChatResponse.mockResolvedValue('Hello!');
+
+      const response = await request(port, 'POST', '/v1/chat/completions', body);
+
+      expect(response.status).toBe(200);
+      expect(mockLLMService.generateChatResponse).toHaveBeenCalledWith(
+        0,
+        [{ role: 'user', content: 'Hi' }],
+        undefined,
+        expect.objectContaining({ systemPrompt: 'Be brief.', temperature: 0.5, signal: expect.any(AbortSignal) })
+      );
+      expect(JSON.parse(response.body)).toEqual({
+        id: expect.stringMatching(/^chatcmpl-/),
+        object: 'chat.completion',
+        created: expect.any(Number),
+        model: 'llama',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 11, completion_tokens: 6, total_tokens: 17 },
+      });
+    });
+
+    it('should stream the completion as server-sent events', async () => {
+      await start();
+      mockLLMService.generateChatResponse.mockImplementation(async (_chatId, _history, onToken) => {
+        onToken('Hel');
+        onToken('lo');
+        return 'Hello';
+      });
+
+      const response = await request(port, 'POST', '/v1/chat/completions', { ...body, stream: true, max_tokens: 5 });
+
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      const events = response.body.trim().split('\n\n').map((event) => event.replace(/^data: /, ''));
+      expect(events[events.length - 1]).toBe('[DONE]');
+      const chunks = events.slice(0, -1).map((event) => JSON.parse(event).choices[0]);
+      expect(chunks).toEqual([
+        { index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null },
+        { index: 0, delta: { content: 'Hel' }, finish_reason: null },
+        { index: 0, delta: { content: 'lo' }, finish_reason: null },
+        { index: 0, delta: {}, finish_reason: 'length' },
+      ]);
+    });
+
+    it('should send an error event when a streamed generation fails', async () => {
+      await start();
+      mockLLMService.generateChatResponse.mockRejectedValue(new Error('Context is full'));
+
+      const response = await request(port, 'POST', '/v1/chat/completions', { ...body, stream: true });
+
+      const events = response.body.trim().split('\n\n').map((event) => event.replace(/^data: /, ''));
+      expect(JSON.parse(events[1]).error.message).toBe('Context is full');
+      expect(events[2]).toBe('[DONE]');
+    });
+
+    it('should reject invalid requests', async () => {
+      await start();
+
+      const invalidJson = await request(port, 'POST', '/v1/chat/completions', '{');
+      const invalidBody = await request(port, 'POST', '/v1/chat/completions', { messages: [] });
+
+      expect(invalidJson.status).toBe(400);
+      expect(invalidBody.status).toBe(400);
+      expect(JSON.parse(invalidBody.body).error.message).toBe('messages must be a non-empty array');
+      expect(mockLLMService.generateChatResponse).not.toHaveBeenCalled();
+    });
+
+    it('should reject bodies larger than 1 MB', async () => {
+      await start();
+
+      const response = await request(port, 'POST', '/v1/chat/completions', 'x'.repeat(1024 * 1024 + 1));
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should answer 503 when no model is loaded', async () => {
+      await start();
+      mockLLMService.isModelLoaded.mockReturnValue(false);
+
+      const response = await request(port, 'POST', '/v1/chat/completions', body);
+
+      expect(response.status).toBe(503);
+      expect(JSON.parse(response.body).error.code).toBe('model_not_loaded');
+    });
+
+    it('should answer a failed generation with a server error', async () => {
+      await start();
+      mockLLMService.generateChatResponse.mockRejectedValue(new Error('Context is full'));
+
+      const response = await request(port, 'POST', '/v1/chat/completions', body);
+
+      expect(response.status).toBe(500);
+      expect(JSON.parse(response.body).error).toEqual(expect.objectContaining({ message: 'Context is full', type: 'server_error' }));
+    });
+
+    it('should answer requests one at a time', async () => {
+      await start();
+      let running = 0;
+      let maxRunning = 0;
+      mockLLMService.generateChatResponse.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        running--;
+        return 'Hi';
+      });
+
+      await Promise.all([
+        request(port, 'POST', '/v1/chat/completions', body),
+        request(port, 'POST', '/v1/chat/completions', body),
+      ]);
+
+      expect(mockLLMService.generateChatResponse).toHaveBeenCalledTimes(2);
+      expect(maxRunning).toBe(1);
+    });
+  });
+});
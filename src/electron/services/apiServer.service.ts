@@ -0,0 +1,285 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import type { ApiServerSettings } from './llm.service';
+import type { InferenceService } from './inference.service';
+import {
+  createApiError,
+  createChatCompletion,
+  createChatCompletionChunk,
+  isAuthorized,
+  isLoopbackAddress,
+  isLoopbackHost,
+  parseChatCompletionRequest,
+} from './apiServer.helpers';
+import type { ChatCompletionRequest, FinishReason } from './apiServer.helpers';
+
+export interface ApiServerStatus {
+  running: boolean;
+  port: number | null;
+  url: string | null;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// API requests are not stored chats, this id only shows in the LLM service logs
+const API_CHAT_ID = 0;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string, type: string, code: string | null = null): void {
+  sendJson(res, status, createApiError(message, type, code));
+}
+
+/**
+ * Read a request body, or resolve with null when it is larger than maxBytes
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Local HTTP server exposing the loaded model through the OpenAI chat completions API.
+ * Requests are answered one at a time since they share the model's context.
+ */
+export class ApiServer {
+  private server: http.Server | null = null;
+  private settings: ApiServerSettings | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly getInferenceService: () => Promise<InferenceService>) {}
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  getStatus(): ApiServerStatus {
+    const address = this.server?.address();
+    if (!this.server || !address || typeof address === 'string') {
+      return { running: false, port: null, url: null };
+    }
+    const host = this.settings?.allowRemote ? 'localhost' : '127.0.0.1';
+    return { running: true, port: address.port, url: `http://${host}:${address.port}/v1` };
+  }
+
+  /**
+   * Start listening with the given settings, restarting when already running
+   */
+  async start(settings: ApiServerSettings): Promise<ApiServerStatus> {
+    if (settings.allowRemote && !settings.apiKey) {
+      throw new Error('Set an API key to accept connections from other computers');
+    }
+    await this.stop();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('API server request failed:', error);
+        if (!res.headersSent) {
+          sendError(res, 500, (error as Error).message, 'server_error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(settings.port, settings.allowRemote ? '0.0.0.0' : '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.settings = settings;
+    const status = this.getStatus();
+    console.log('API server listening on', status.url);
+    return status;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    this.settings = null;
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      // Ends streams in progress and idle keep-alive connections, which close() waits for
+      server.closeAllConnections();
+    });
+    console.log('API server stopped');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const settings = this.settings;
+    if (!settings) {
+      sendError(res, 503, 'The server is stopping', 'server_error');
+      return;
+    }
+
+    // Web pages can reach the loopback interface too, through a DNS name rebound to it
+    if (!settings.allowRemote && (!isLoopbackAddress(req.socket.remoteAddress) || !isLoopbackHost(req.headers.host))) {
+      sendError(res, 403, 'Only connections from this machine are allowed', 'permission_error');
+      return;
+    }
+
+    if (settings.apiKey && !isAuthorized(req.headers.authorization, settings.apiKey)) {
+      sendError(res, 401, 'Invalid API key', 'invalid_request_error', 'invalid_api_key');
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const routes: Record<string, { method: string; handle: () => Promise<void> }> = {
+      '/v1/models': { method: 'GET', handle: () => this.listModels(res) },
+      '/v1/chat/completions': { method: 'POST', handle: () => this.createChatCompletion(req, res) },
+    };
+
+    const route = routes[pathname.replace(/\/$/, '')];
+    if (!route) {
+      sendError(res, 404, `Unknown route: ${req.method} ${pathname}`, 'invalid_request_error');
+      return;
+    }
+    if (req.method !== route.method) {
+      res.setHeader('Allow', route.method);
+      sendError(res, 405, `Method ${req.method} is not allowed`, 'invalid_request_error');
+      return;
+    }
+    await route.handle();
+  }
+
+  private getModelName(inferenceService: InferenceService): string | null {
+    const modelPath = inferenceService.getCurrentModelPath();
+    if (!inferenceService.isModelLoaded() || !modelPath) {
+      return null;
+    }
+    return inferenceService.getCurrentModelId() ?? path.basename(modelPath, '.gguf');
+  }
+
+  private async listModels(res: http.ServerResponse): Promise<void> {
+    const inferenceService = await this.getInferenceService();
+    const model = this.getModelName(inferenceService);
+    sendJson(res, 200, {
+      object: 'list',
+      data: model ? [{ id: model, object: 'model', created: 0, owned_by: 'local' }] : [],
+    });
+  }
+
+  private async createChatCompletion(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await readBody(req, MAX_BODY_BYTES);
+    if (body === null) {
+      sendError(res, 413, 'The request body is too large', 'invalid_request_error');
+      return;
+    }
+
+    let request: ChatCompletionRequest;
+    try {
+      request = parseChatCompletionRequest(JSON.parse(body));
+    } catch (error) {
+      sendError(res, 400, (error as Error).message, 'invalid_request_error');
+      return;
+    }
+
+    const inferenceService = await this.getInferenceService();
+    const model = this.getModelName(inferenceService);
+    if (!model) {
+      sendError(res, 503, 'No model loaded. Load a model in the app first.', 'server_error', 'model_not_loaded');
+      return;
+    }
+
+    // Stop generating when the client goes away
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
+    await this.enqueue(async () => {
+      if (abortController.signal.aborted) {
+        return;
+      }
+      const id = `chatcmpl-${crypto.randomUUID()}`;
+      const created = Math.floor(Date.now() / 1000);
+      const options = { ...request.options, signal: abortController.signal };
+
+      if (request.stream) {
+        await this.streamChatCompletion(res, inferenceService, request, options, id, model, created);
+        return;
+      }
+
+      const content = await inferenceService.generateChatResponse(API_CHAT_ID, request.history, undefined, options);
+      const promptTokens = [request.options.systemPrompt ?? '', ...request.history.map((message) => message.content)]
+        .reduce((total, text) => total + inferenceService.countTokens(text), 0);
+      const completionTokens = inferenceService.countTokens(content);
+      sendJson(res, 200, createChatCompletion(id, model, created, content, getFinishReason(completionTokens, options.maxTokens), {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      }));
+    });
+  }
+
+  private async streamChatCompletion(
+    res: http.ServerResponse,
+    inferenceService: InferenceService,
+    request: ChatCompletionRequest,
+    options: ChatCompletionRequest['options'] & { signal: AbortSignal },
+    id: string,
+    model: string,
+    created: number
+  ): Promise<void> {
+    const sendEvent = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    sendEvent(createChatCompletionChunk(id, model, created, { role: 'assistant', content: '' }));
+
+    try {
+      const content = await inferenceService.generateChatResponse(API_CHAT_ID, request.history, (token) => {
+        sendEvent(createChatCompletionChunk(id, model, created, { content: token }));
+      }, options);
+      const finishReason = getFinishReason(inferenceService.countTokens(content), options.maxTokens);
+      sendEvent(createChatCompletionChunk(id, model, created, {}, finishReason));
+    } catch (error) {
+      console.error('API server generation failed:', error);
+      sendEvent(createApiError((error as Error).message, 'server_error'));
+    }
+
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function getFinishReason(completionTokens: number, maxTokens: number | undefined): FinishReason {
+  return maxTokens !== undefined && completionTokens >= maxTokens ? 'length' : 'stop';
+}
@@ -0,0 +1,100 @@
+import {
+  fitAttachmentsToBudget,
+  formatMessageWithAttachments,
+  getAttachmentKind,
+  getAttachmentTokenBudget,
+  truncateToTokens,
+} from './attachment.helpers';
+
+// One token per character keeps the budgets easy to follow
+const countTokens = (text: string) => text.length;
+
+describe('attachment helpers', () => {
+  describe('getAttachmentKind', () => {
+    it('should recognize text, Markdown, code and PDF files', () => {
+      expect(getAttachmentKind('notes.txt')).toBe('text');
+      expect(getAttachmentKind('README.md')).toBe('markdown');
+      expect(getAttachmentKind('/home/user/app.tsx')).toBe('code');
+      expect(getAttachmentKind('Report.PDF')).toBe('pdf');
+    });
+
+    it('should reject other files', () => {
+      expect(getAttachmentKind('photo.png')).toBeNull();
+      expect(getAttachmentKind('Makefile')).toBeNull();
+    });
+  });
+
+  describe('getAttachmentTokenBudget', () => {
+    it('should give attachments half of the context', () => {
+      expect(getAttachmentTokenBudget(8192)).toBe(4096);
+      expect(getAttachmentTokenBudget(0)).toBe(0);
+    });
+  });
+
+  describe('truncateToTokens', () => {
+    it('should keep the longest prefix that fits', () => {
+      expect(truncateToTokens('abcdefghij', countTokens, 4)).toBe('abcd');
+      expect(truncateToTokens('abc', countTokens, 10)).toBe('abc');
+      expect(truncateToTokens('abc', countTokens, 0)).toBe('');
+    });
+  });
+
+  describe('fitAttachmentsToBudget', () => {
+    const file = (messageId: number, length: number) => ({ messageId, name: `${messageId}.txt`, content: 'x'.repeat(length) });
+
+    it('should keep every attachment that fits', () => {
+      const fitted = fitAttachmentsToBudget([file(1, 100), file(2, 100)], countTokens, 200);
+
+      expect(fitted.map((attachment) => [attachment.content.length, attachment.truncated, attachment.omitted])).toEqual([
+        [100, false, false],
+        [100, false, false],
+      ]);
+    });
+
+    it('should truncate, then leave out, the attachments of older messages first', () => {
+      const fitted = fitAttachmentsToBudget([file(1, 500), file(2, 500), file(3, 500)], countTokens, 700);
+
+      expect(fitted.map((attachment) => [attachment.messageId, attachment.content.length, attachment.truncated, attachment.omitted])).toEqual([
+        [1, 0, false, true],
+        [2, 200, true, false],
+        [3, 500, false, false],
+      ]);
+    });
+
+    it('should leave out attachments when too little budget remains to truncate them', () => {
+      const fitted = fitAttachmentsToBudget([file(1, 500), file(2, 480)], countTokens, 500);
+
+      expect(fitted[0].omitted).toBe(true);
+      expect(fitted[1].omitted).toBe(false);
+    });
+  });
+
+  describe('formatMessageWithAttachments', () => {
+    it('should return messages without attachments unchanged', () => {
+      expect(formatMessageWithAttachments('Hello', [])).toBe('Hello');
+    });
+
+    it('should put the fenced text of each file before the message', () => {
+      const content = formatMessageWithAttachments('Summarize these', [
+        { name: 'a.md', content: '# Title', truncated: false, omitted: false },
+        { name: 'b.txt', content: 'Start of', truncated: true, omitted: false },
+        { name: 'c.pdf', content: '', truncated: false, omitted: true },
+      ]);
+
+      expect(content).toBe([
+        'Attached file: a.md\n```\n# Title\n```',
+        'Attached file: b.txt (truncated to fit in the context window)\n```\nStart of\n```',
+        'Attached file: c.pdf (left out, it does not fit in the context window)',
+        'Summarize these',
+      ].join('\n\n'));
+    });
+
+    it('should use a fence longer than the backtick runs of the file', () => {
+      const content = formatMessageWithAttachments('Review', [
+        { name: 'README.md', content: '```js\ncode\n```', truncated: false, omitted: false },
+      ]);
+
+      expect(content).toBe('Attached file: README.md\n````\n```js\ncode\n```\n````\n\nReview');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Helper functions for files attached to chat messages: which files are accepted,
+ * and how their text is fitted into the prompt.
+ */
+
+import * as path from 'path';
+
+export type AttachmentKind = 'text' | 'markdown' | 'code' | 'pdf';
+
+/**
+ * A file read for a message that is not sent yet
+ */
+export interface AttachmentDraft {
+  name: string;
+  kind: AttachmentKind;
+  size: number; // Size of the file in bytes
+  content: string; // Extracted text
+}
+
+/**
+ * Extensions accepted for each kind of attachment, without the dot
+ */
+export const ATTACHMENT_EXTENSIONS: Record<AttachmentKind, string[]> = {
+  text: ['txt', 'log', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'env'],
+  markdown: ['md', 'markdown', 'mdx'],
+  code: [
+    'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h',
+    'cpp', 'hpp', 'cc', 'cs', 'php', 'sh', 'bash', 'ps1', 'sql', 'html', 'css', 'scss', 'vue', 'svelte', 'lua', 'r',
+  ],
+  pdf: ['pdf'],
+};
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Share of the context window the attachments of a conversation may use
+ */
+export const ATTACHMENT_TOKEN_BUDGET_RATIO = 0.5;
+
+/**
+ * Attachments that would get fewer tokens than this once truncated are left out instead
+ */
+export const MIN_TRUNCATED_ATTACHMENT_TOKENS = 64;
+
+/**
+ * Get the kind of attachment a file is from its extension, or null when it is not accepted
+ */
+export function getAttachmentKind(fileName: string): AttachmentKind | null {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const kinds = Object.keys(ATTACHMENT_EXTENSIONS) as AttachmentKind[];
+  return kinds.find((kind) => ATTACHMENT_EXTENSIONS[kind].includes(extension)) ?? null;
+}
+
+/**
+ * Get the number of tokens attachments may use for a given context size
+ */
+export function getAttachmentTokenBudget(contextSize: number): number {
+  return Math.max(0, Math.floor(contextSize * ATTACHMENT_TOKEN_BUDGET_RATIO));
+}
+
+/**
+ * Cut `text` to the longest prefix that fits in `maxTokens`
+ */
+export function truncateToTokens(text: string, countTokens: (text: string) => number, maxTokens: number): string {
+  let low = 0;
+  let high = text.length;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, middle)) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return text.slice(0, low);
+}
+
+interface BudgetedAttachment {
+  messageId: number;
+  content: string;
+}
+
+/**
+ * The text of an attachment as it goes into the prompt
+ */
+export type FittedAttachment<T extends BudgetedAttachment> = T & {
+  truncated: boolean; // Only the start of the file fits
+  omitted: boolean; // None of the file fits, content is empty
+};
+
+/**
+ * Fit the attachments of a conversation in the token budget.
+ * Attachments of the latest messages come first: older ones are truncated, then left out.
+ */
+export function fitAttachmentsToBudget<T extends BudgetedAttachment>(
+  attachments: T[],
+  countTokens: (text: string) => number,
+  budget: number
+): FittedAttachment<T>[] {
+  const newestFirst = attachments
+    .map((attachment, index) => ({ attachment, index }))
+    .sort((a, b) => b.attachment.messageId - a.attachment.messageId || a.index - b.index);
+
+  const fitted: FittedAttachment<T>[] = new Array(attachments.length);
+  let remaining = budget;
+
+  for (const { attachment, index } of newestFirst) {
+    const tokens = countTokens(attachment.content);
+
+    if (tokens <= remaining) {
+      fitted[index] = { ...attachment, truncated: false, omitted: false };
+      remaining -= tokens;
+    } else if (remaining >= MIN_TRUNCATED_ATTACHMENT_TOKENS) {
+      const content = truncateToTokens(attachment.content, countTokens, remaining);
+      fitted[index] = { ...attachment, content, truncated: true, omitted: false };
+      remaining = 0;
+    } else {
+      fitted[index] = { ...attachment, content: '', truncated: false, omitted: true };
+    }
+  }
+
+  return fitted;
+}
+
+/**
+ * Fence long enough that no backtick run in `content` closes it
+ */
+function getFence(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+/**
+ * Put the text of the attached files before the message they were sent with
+ */
+export function formatMessageWithAttachments(
+  content: string,
+  attachments: Array<{ name: string; content: string; truncated: boolean; omitted: boolean }>
+): string {
+  if (attachments.length === 0) {
+    return content;
+  }
+
+  const files = attachments.map((attachment) => {
+    if (attachment.omitted) {
+      return `Attached file: ${attachment.name} (left out, it does not fit in the context window)`;
+    }
+
+    const fence = getFence(attachment.content);
+    const note = attachment.truncated ? ' (truncated to fit in the context window)' : '';
+    return `Attached file: ${attachment.name}${note}\n${fence}\n${attachment.content}\n${fence}`;
+  });
+
+  return [...files, content].join('\n\n');
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readAttachment, readAttachments } from './attachment.reader';
+import { MAX_ATTACHMENT_SIZE } from './attachment.helpers';
+
+// Worker threads can't load TypeScript sources: extract in the test thread instead
+jest.mock('./pdf.worker', () => ({
+  extractPdfTextInWorker: jest.fn(async (data: Buffer) => jest.requireActual('./pdf.text').extractPdfText(data)),
+}));
+
+describe('attachment reader', () => {
+  let tempDir: string;
+
+  const writeFile = (name: string, content: string | Buffer) => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'attachment-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readAttachment', () => {
+    it('should read text files as UTF-8 without their byte order mark', async () => {
+      const filePath = writeFile('notes.md', '\uFEFF# Café');
+
+      await expect(readAttachment(filePath)).resolves.toEqual({
+        name: 'notes.md',
+        kind: 'markdown',
+        size: fs.statSync(filePath).size,
+        content: '# Café',
+      });
+    });
+
+    it('should extract the text of PDF files', async () => {
+      const pdf = [
+        '%PDF-1.4',
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+        '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj',
+        '4 0 obj << /Length 36 >> stream',
+        'BT 72 720 Td (Quarterly report) Tj ET',
+        'endstream endobj',
+        'trailer << /Root 1 0 R >>',
+      ].join('\n');
+      const filePath = writeFile('report.pdf', pdf);
+
+      const attachment = await readAttachment(filePath);
+
+      expect(attachment.kind).toBe('pdf');
+      expect(attachment.content).toBe('Quarterly report');
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(readAttachment(writeFile('image.png', 'png'))).rejects.toThrow('Unsupported file type: image.png');
+    });
+
+    it('should reject binary files with a text extension', async () => {
+      await expect(readAttachment(writeFile('data.txt', Buffer.from([0x41, 0x00, 0x42]))))
+        .rejects.toThrow('data.txt is not a text file');
+    });
+
+    it('should reject files without text', async () => {
+      await expect(readAttachment(writeFile('empty.txt', '  \n'))).rejects.toThrow('No text found in empty.txt');
+    });
+
+    it('should reject files over the size limit', async () => {
+      const filePath = writeFile('large.log', '');
+      fs.truncateSync(filePath, MAX_ATTACHMENT_SIZE + 1);
+
+      await expect(readAttachment(filePath)).rejects.toThrow('large.log is larger than 10 MB');
+    });
+  });
+
+  describe('readAttachments', () => {
+    it('should collect the files it reads and the errors of the others', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const good = writeFile('main.py', 'print("hi")');
+      const bad = writeFile('archive.zip', 'zip');
+
+      const result = await readAttachments([good, bad]);
+
+      expect(result.attachments.map((attachment) => attachment.name)).toEqual(['main.py']);
+      expect(result.errors).toEqual([{ name: 'archive.zip', error: 'Unsupported file type: archive.zip' }]);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
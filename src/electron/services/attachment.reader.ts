@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAttachmentKind, MAX_ATTACHMENT_SIZE } from './attachment.helpers';
+import type { AttachmentDraft } from './attachment.helpers';
+import { getErrorMessage } from './llm.service.helpers';
+import { extractPdfTextInWorker } from './pdf.worker';
+
+/**
+ * Files read for a message: the ones that could be attached, and why the others could not
+ */
+export interface AttachmentReadResult {
+  attachments: AttachmentDraft[];
+  errors: Array<{ name: string; error: string }>;
+}
+
+/**
+ * Read a file to attach to a message and extract its text
+ */
+export async function readAttachment(filePath: string): Promise<AttachmentDraft> {
+  const name = path.basename(filePath);
+  const kind = getAttachmentKind(name);
+  if (!kind) {
+    throw new Error(`Unsupported file type: ${name}`);
+  }
+
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+  }
+
+  const data = await fs.promises.readFile(filePath);
+  let content: string;
+  if (kind === 'pdf') {
+    content = await extractPdfTextInWorker(data);
+  } else {
+    // Text files never contain NUL bytes, binary files almost always do
+    if (data.includes(0)) {
+      throw new Error(`${name} is not a text file`);
+    }
+    content = data.toString('utf-8').replace(/^\uFEFF/, '');
+  }
+
+  if (content.trim() === '') {
+    throw new Error(`No text found in ${name}`);
+  }
+
+  return { name, kind, size, content };
+}
+
+/**
+ * Read several files, collecting the error of each file that cannot be attached
+ */
+export async function readAttachments(filePaths: string[]): Promise<AttachmentReadResult> {
+  const result: AttachmentReadResult = { attachments: [], errors: [] };
+
+  for (const filePath of filePaths) {
+    try {
+      result.attachments.push(await readAttachment(filePath));
+    } catch (error) {
+      console.error(`Failed to read attachment ${filePath}:`, error);
+      result.errors.push({ name: path.basename(filePath), error: getErrorMessage(error) });
+    }
+  }
+
+  return result;
+}
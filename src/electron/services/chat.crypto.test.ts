@@ -0,0 +1,102 @@
+import {
+  createSalt,
+  createVerifier,
+  decryptText,
+  deriveKey,
+  encryptText,
+  ENCRYPTED_PREFIX,
+  isEncryptedText,
+  parseKdfParams,
+  verifyKey,
+} from './chat.crypto';
+
+// Cheap parameters, the default ones take a noticeable time on purpose
+const TEST_KDF_PARAMS = { N: 2 ** 10, r: 8, p: 1 };
+
+describe('chat.crypto', () => {
+  let key: Buffer;
+  const salt = createSalt();
+
+  beforeAll(async () => {
+    key = await deriveKey('correct horse battery', salt, TEST_KDF_PARAMS);
+  });
+
+  describe('deriveKey', () => {
+    it('should derive the same 256-bit key from the same passphrase and salt', async () => {
+      const again = await deriveKey('correct horse battery', salt, TEST_KDF_PARAMS);
+
+      expect(key).toHaveLength(32);
+      expect(again.equals(key)).toBe(true);
+    });
+
+    it('should derive another key from another passphrase or salt', async () => {
+      const otherPassphrase = await deriveKey('correct horse battery!', salt, TEST_KDF_PARAMS);
+      const otherSalt = await deriveKey('correct horse battery', createSalt(), TEST_KDF_PARAMS);
+
+      expect(otherPassphrase.equals(key)).toBe(false);
+      expect(otherSalt.equals(key)).toBe(false);
+    });
+
+    it('should treat the composed and decomposed forms of a passphrase alike', async () => {
+      const composed = await deriveKey('caf\u00e9 au lait', salt, TEST_KDF_PARAMS);
+      const decomposed = await deriveKey('cafe\u0301 au lait', salt, TEST_KDF_PARAMS);
+
+      expect(decomposed.equals(composed)).toBe(true);
+    });
+  });
+
+  describe('encryptText', () => {
+    it('should encrypt and decrypt a text', () => {
+      const encrypted = encryptText(key, 'My secret prompt ✨');
+
+      expect(encrypted.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+      expect(encrypted).not.toContain('secret');
+      expect(decryptText(key, encrypted)).toBe('My secret prompt ✨');
+    });
+
+    it('should give a different value each time', () => {
+      expect(encryptText(key, 'Hello')).not.toBe(encryptText(key, 'Hello'));
+      expect(decryptText(key, encryptText(key, ''))).toBe('');
+    });
+
+    it('should refuse to decrypt with another key or a modified value', async () => {
+      const encrypted = encryptText(key, 'Hello');
+      const otherKey = await deriveKey('another passphrase', salt, TEST_KDF_PARAMS);
+      const data = Buffer.from(encrypted.slice(ENCRYPTED_PREFIX.length), 'base64');
+      data[data.length - 1] ^= 1;
+
+      expect(() => decryptText(otherKey, encrypted)).toThrow();
+      expect(() => decryptText(key, ENCRYPTED_PREFIX + data.toString('base64'))).toThrow();
+      expect(() => decryptText(key, 'Hello')).toThrow('Value is not encrypted');
+    });
+  });
+
+  describe('isEncryptedText', () => {
+    it('should recognize encrypted values', () => {
+      expect(isEncryptedText(encryptText(key, 'Hello'))).toBe(true);
+      expect(isEncryptedText('Hello')).toBe(false);
+    });
+  });
+
+  describe('verifyKey', () => {
+    it('should accept the key the verifier was created with only', async () => {
+      const verifier = createVerifier(key);
+      const otherKey = await deriveKey('another passphrase', salt, TEST_KDF_PARAMS);
+
+      expect(verifyKey(key, verifier)).toBe(true);
+      expect(verifyKey(otherKey, verifier)).toBe(false);
+      expect(verifyKey(key, 'garbage')).toBe(false);
+    });
+  });
+
+  describe('parseKdfParams', () => {
+    it('should read stored parameters', () => {
+      expect(parseKdfParams('{"N":131072,"r":8,"p":1}')).toEqual({ N: 131072, r: 8, p: 1 });
+    });
+
+    it('should refuse values that are not scrypt parameters', () => {
+      expect(() => parseKdfParams('{"N":0,"r":8,"p":1}')).toThrow('Invalid key derivation parameters');
+      expect(() => parseKdfParams('null')).toThrow('Invalid key derivation parameters');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import * as crypto from 'crypto';
+
+/**
+ * Parameters of the scrypt key derivation, stored with the salt so they can be raised later
+ */
+export interface KdfParams {
+  N: number; // CPU and memory cost, a power of two
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+// About 128 MB and half a second to derive a key on a laptop
+export const DEFAULT_KDF_PARAMS: KdfParams = { N: 2 ** 17, r: 8, p: 1 };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const CIPHER = 'aes-256-gcm';
+
+// Marks the values encrypted with the key, values written before encryption was enabled have none
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+// Encrypted with the key and stored, only the right passphrase decrypts it
+const VERIFIER_TEXT = 'chat-history';
+
+export function createSalt(): string {
+  return crypto.randomBytes(SALT_LENGTH).toString('base64');
+}
+
+/**
+ * Derive the 256-bit key of a passphrase with scrypt
+ */
+export function deriveKey(passphrase: string, salt: string, params: KdfParams = DEFAULT_KDF_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase.normalize('NFC'),
+      Buffer.from(salt, 'base64'),
+      KEY_LENGTH,
+      // scrypt needs 128 * N * r bytes, more than its default limit
+      { ...params, maxmem: 256 * params.N * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+export function isEncryptedText(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a text with AES-256-GCM and a random IV, the result is stored as text
+ */
+export function encryptText(key: Buffer, text: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+/**
+ * Decrypt a value of encryptText. Throws when the key is not the one it was encrypted with.
+ */
+export function decryptText(key: Buffer, value: string): string {
+  if (!isEncryptedText(value)) {
+    throw new Error('Value is not encrypted');
+  }
+
+  const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  const decipher = crypto.createDecipheriv(CIPHER, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+}
+
+export function createVerifier(key: Buffer): string {
+  return encryptText(key, VERIFIER_TEXT);
+}
+
+/**
+ * Whether a key is the one the verifier was created with
+ */
+export function verifyKey(key: Buffer, verifier: string): boolean {
+  try {
+    return decryptText(key, verifier) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read stored KDF parameters, refusing values that are not scrypt parameters
+ */
+export function parseKdfParams(json: string): KdfParams {
+  const params = JSON.parse(json);
+  const valid = [params?.N, params?.r, params?.p].every((value) => Number.isInteger(value) && value > 0);
+  if (!valid) {
+    throw new Error('Invalid key derivation parameters');
+  }
+  return { N: params.N, r: params.r, p: params.p };
+}
@@ -0,0 +1,293 @@
+import {
+  CHAT_EXPORT_FORMAT_ID,
+  CHAT_EXPORT_VERSION,
+  chatToHtml,
+  chatToJson,
+  chatToMarkdown,
+  escapeHtml,
+  exportChat,
+  parseChatJson,
+} from './chat.export';
+import type { ChatWithMessages } from './chat.service';
+
+// Message 2 was regenerated as message 4, which is the active branch
+const chat: ChatWithMessages = {
+  id: 1,
+  name: 'Test <Chat>',
+  nameSetByUser: true,
+  systemPrompt: 'Be brief\nand kind',
+  activeMessageId: 4,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+  messages: [
+    { id: 1, chatId: 1, content: 'Hello **there**', role: 'user', interrupted: false, parentId: null, toolCall: null, createdAt: new Date('2026-01-01T00:00:01.000Z') },
+    { id: 2, chatId: 1, content: 'Old reply', role: 'assistant', interrupted: false, parentId: 1, toolCall: null, createdAt: new Date('2026-01-01T00:00:02.000Z') },
+    { id: 4, chatId: 1, content: 'New <reply>', role: 'assistant', interrupted: true, parentId: 1, toolCall: null, createdAt: new Date('2026-01-01T00:00:04.000Z') },
+  ],
+};
+
+// The reply was written after calling a tool. As in the database, the reply 2 is created first,
+// then moved under the tool message 3 holding the call.
+const chatWithTool: ChatWithMessages = {
+  ...chat,
+  activeMessageId: 2,
+  messages: [
+    chat.messages[0],
+    { id: 2, chatId: 1, content: 'It is noon', role: 'assistant', interrupted: false, parentId: 3, toolCall: null, createdAt: new Date('2026-01-01T00:00:02.000Z') },
+    {
+      id: 3, chatId: 1, content: '{"time":"12:00"}', role: 'tool', interrupted: false, parentId: 1,
+      toolCall: JSON.stringify({ name: 'get_current_time', params: {}, status: 'completed' }),
+      createdAt: new Date('2026-01-01T00:00:03.000Z'),
+    },
+  ],
+};
+
+describe('chat.export', () => {
+  describe('chatToMarkdown', () => {
+    it('should render the active branch as markdown', () => {
+      expect(chatToMarkdown(chat)).toBe([
+        '# Test <Chat>',
+        '',
+        '> Be brief',
+        '> and kind',
+        '',
+        '## User',
+        '',
+        'Hello **there**',
+        '',
+        '## Assistant (interrupted)',
+        '',
+        'New <reply>',
+        '',
+      ].join('\n'));
+    });
+
+    it('should label tool messages with the tool name', () => {
+      const markdown = chatToMarkdown(chatWithTool);
+
+      expect(markdown).toContain('## Tool: get_current_time\n\n{"time":"12:00"}');
+      expect(markdown.indexOf('## Tool')).toBeLessThan(markdown.indexOf('## Assistant'));
+    });
+
+    it('should omit the system prompt when there is none', () => {
+      const markdown = chatToMarkdown({ ...chat, systemPrompt: null, messages: [] });
+
+      expect(markdown).toBe('# Test <Chat>\n');
+    });
+  });
+
+  describe('chatToJson', () => {
+    const noExtras = { attachments: [], stats: null, sources: null, summary: null };
+
+    it('should write the whole message tree with timestamps', () => {
+      const document = JSON.parse(chatToJson(chat, [], new Date('2026-02-01T00:00:00.000Z')));
+
+      expect(document).toEqual({
+        format: CHAT_EXPORT_FORMAT_ID,
+        version: CHAT_EXPORT_VERSION,
+        exportedAt: '2026-02-01T00:00:00.000Z',
+        chat: {
+          name: 'Test <Chat>',
+          nameSetByUser: true,
+          systemPrompt: 'Be brief\nand kind',
+          activeMessageId: 4,
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-02T00:00:00.000Z',
+          messages: [
+            { id: 1, parentId: null, role: 'user', content: 'Hello **there**', interrupted: false, toolCall: null, ...noExtras, createdAt: '2026-01-01T00:00:01.000Z' },
+            { id: 2, parentId: 1, role: 'assistant', content: 'Old reply', interrupted: false, toolCall: null, ...noExtras, createdAt: '2026-01-01T00:00:02.000Z' },
+            { id: 4, parentId: 1, role: 'assistant', content: 'New <reply>', interrupted: true, toolCall: null, ...noExtras, createdAt: '2026-01-01T00:00:04.000Z' },
+          ],
+        },
+      });
+    });
+
+    it('should round-trip through parseChatJson', () => {
+      const json = chatToJson(chat);
+
+      expect(parseChatJson(json)).toEqual(JSON.parse(json));
+    });
+
+    it('should write attachments, generation stats, knowledge sources and summaries', () => {
+      const sources = [{ index: 1, path: '/docs/a.md', name: 'a.md', position: 0, content: 'Excerpt', score: 0.5 }];
+      const withExtras: ChatWithMessages = {
+        ...chat,
+        messages: [
+          chat.messages[0],
+          {
+            ...chat.messages[2],
+            promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: 40, tokensPerSecond: 20,
+            sources: JSON.stringify(sources), summary: 'Greetings',
+          },
+        ],
+      };
+      const attachments = [
+        { id: 1, messageId: 1, name: 'notes.md', kind: 'markdown' as const, size: 5, content: '# Hi', createdAt: new Date() },
+      ];
+
+      const [question, reply] = parseChatJson(chatToJson(withExtras, attachments)).chat.messages;
+
+      expect(question.attachments).toEqual([{ name: 'notes.md', kind: 'markdown', size: 5, content: '# Hi' }]);
+      expect(question.stats).toBeNull();
+      expect(reply).toEqual(expect.objectContaining({
+        attachments: [],
+        stats: { promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: 40, tokensPerSecond: 20 },
+        sources,
+        summary: 'Greetings',
+      }));
+    });
+
+    it('should write tool calls as objects, before the reply written after them', () => {
+      const document = parseChatJson(chatToJson(chatWithTool));
+
+      expect(document.chat.messages.map((message) => message.id)).toEqual([1, 3, 2]);
+      expect(document.chat.messages[1]).toEqual(expect.objectContaining({
+        role: 'tool',
+        toolCall: { name: 'get_current_time', params: {}, status: 'completed' },
+      }));
+    });
+  });
+
+  describe('chatToHtml', () => {
+    it('should render a standalone page with escaped content', () => {
+      const html = chatToHtml(chat);
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<title>Test &lt;Chat&gt;</title>');
+      expect(html).toContain('<blockquote class="system">Be brief\nand kind</blockquote>');
+      expect(html).toContain('<div class="content">New &lt;reply&gt;</div>');
+      expect(html).toContain('<span class="interrupted">(interrupted)</span>');
+      expect(html).not.toContain('Old reply');
+      expect(html).not.toMatch(/<(link|script)/);
+    });
+
+    it('should render tool messages with the tool name', () => {
+      const html = chatToHtml(chatWithTool);
+
+      expect(html).toContain('<article class="message tool">');
+      expect(html).toContain('<header>Tool: get_current_time');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape html special characters', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+  });
+
+  describe('exportChat', () => {
+    it('should dispatch on the format', () => {
+      expect(exportChat(chat, 'markdown')).toBe(chatToMarkdown(chat));
+      expect(exportChat(chat, 'html')).toBe(chatToHtml(chat));
+      expect(JSON.parse(exportChat(chat, 'json')).chat.name).toBe('Test <Chat>');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => exportChat(chat, 'pdf' as any)).toThrow('Unsupported export format: pdf');
+    });
+  });
+
+  describe('parseChatJson', () => {
+    const valid = () => JSON.parse(chatToJson(chat));
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseChatJson('not json')).toThrow('Invalid chat export: not a JSON file');
+    });
+
+    it('should reject other documents', () => {
+      expect(() => parseChatJson('{"foo": 1}')).toThrow('Invalid chat export: unknown format');
+      expect(() => parseChatJson('null')).toThrow('Invalid chat export: unknown format');
+    });
+
+    it('should reject newer versions', () => {
+      const document = { ...valid(), version: CHAT_EXPORT_VERSION + 1 };
+
+      expect(() => parseChatJson(JSON.stringify(document))).toThrow(
+        `Unsupported chat export version: ${CHAT_EXPORT_VERSION + 1}`
+      );
+    });
+
+    it('should reject a malformed chat', () => {
+      const document = valid();
+      document.chat.createdAt = 'yesterday';
+
+      expect(() => parseChatJson(JSON.stringify(document))).toThrow('Invalid chat export: malformed chat');
+    });
+
+    it('should reject malformed messages', () => {
+      const badRole = valid();
+      badRole.chat.messages[1].role = 'system';
+      const missingParent = valid();
+      missingParent.chat.messages[1].parentId = 3;
+      const badToolCall = valid();
+      badToolCall.chat.messages[1].toolCall = { params: {} };
+
+      expect(() => parseChatJson(JSON.stringify(badRole))).toThrow('Invalid chat export: malformed message 2');
+      expect(() => parseChatJson(JSON.stringify(missingParent))).toThrow('Invalid chat export: malformed message 2');
+      expect(() => parseChatJson(JSON.stringify(badToolCall))).toThrow('Invalid chat export: malformed message 2');
+    });
+
+    it('should accept parents written after their children', () => {
+      const document = valid();
+      document.chat.messages.reverse();
+
+      expect(parseChatJson(JSON.stringify(document)).chat.messages).toHaveLength(document.chat.messages.length);
+    });
+
+    it('should reject messages that form a cycle', () => {
+      const document = valid();
+      document.chat.messages[0].parentId = 2;
+
+      expect(() => parseChatJson(JSON.stringify(document))).toThrow('Invalid chat export: messages do not form a tree');
+    });
+
+    it('should accept exports written before tool calls existed', () => {
+      const document = valid();
+      delete document.chat.messages[0].toolCall;
+
+      expect(parseChatJson(JSON.stringify(document)).chat.messages[0].toolCall).toBeUndefined();
+    });
+
+    it('should accept version 1 exports', () => {
+      const document = valid();
+      document.version = 1;
+      delete document.chat.nameSetByUser;
+      for (const message of document.chat.messages) {
+        delete message.attachments;
+        delete message.stats;
+        delete message.sources;
+        delete message.summary;
+      }
+
+      expect(parseChatJson(JSON.stringify(document)).chat.messages[1]).toEqual({
+        id: 2, parentId: 1, role: 'assistant', content: 'Old reply', interrupted: false, toolCall: null, createdAt: '2026-01-01T00:00:02.000Z',
+      });
+    });
+
+    it('should reject malformed attachments, stats, sources and summaries', () => {
+      const badAttachment = valid();
+      badAttachment.chat.messages[0].attachments = [{ name: 'a.exe', kind: 'binary', size: 1, content: '' }];
+      const badStats = valid();
+      badStats.chat.messages[1].stats = { promptTokens: '12' };
+      const badSources = valid();
+      badSources.chat.messages[1].sources = 'a.md';
+      const badSummary = valid();
+      badSummary.chat.messages[1].summary = 42;
+      const badName = valid();
+      badName.chat.nameSetByUser = 'yes';
+
+      expect(() => parseChatJson(JSON.stringify(badAttachment))).toThrow('Invalid chat export: malformed message 1');
+      expect(() => parseChatJson(JSON.stringify(badStats))).toThrow('Invalid chat export: malformed message 2');
+      expect(() => parseChatJson(JSON.stringify(badSources))).toThrow('Invalid chat export: malformed message 2');
+      expect(() => parseChatJson(JSON.stringify(badSummary))).toThrow('Invalid chat export: malformed message 2');
+      expect(() => parseChatJson(JSON.stringify(badName))).toThrow('Invalid chat export: malformed chat');
+    });
+
+    it('should reject duplicate message ids', () => {
+      const document = valid();
+      document.chat.messages[2].id = 2;
+
+      expect(() => parseChatJson(JSON.stringify(document))).toThrow('Invalid chat export: duplicate message ids');
+    });
+  });
+});
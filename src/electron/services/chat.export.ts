@@ -0,0 +1,298 @@
+import type { AttachmentRecord, ChatWithMessages, GenerationStats, MessageRecord, ToolCallRecord } from './chat.service';
+import { getBranchPath, parseToolCall, sortParentsFirst } from './chat.service.helpers';
+import { ATTACHMENT_EXTENSIONS } from './attachment.helpers';
+import type { AttachmentDraft } from './attachment.helpers';
+import type { KnowledgeSource } from './knowledge.helpers';
+
+/**
+ * Chat export formats.
+ * Markdown and HTML contain the active branch only and are meant to be read;
+ * JSON contains the whole message tree and can be imported back.
+ */
+export type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+export const CHAT_EXPORT_FORMAT_ID = 'electron-boilerplate-chat';
+// Version 2 added attachments, generation stats, knowledge sources, summaries and nameSetByUser
+export const CHAT_EXPORT_VERSION = 2;
+
+export const CHAT_EXPORT_EXTENSIONS: Record<ChatExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+export interface ChatExportMessage {
+  id: number;
+  parentId: number | null;
+  role: MessageRecord['role'];
+  content: string;
+  interrupted: boolean;
+  toolCall?: ToolCallRecord | null; // Missing in exports written before tool calls existed
+  attachments?: AttachmentDraft[]; // This and the fields below are missing in version 1 exports
+  stats?: GenerationStats | null;
+  sources?: KnowledgeSource[] | null;
+  summary?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Versioned JSON document written by `chatToJson`.
+ * Message ids are only meaningful inside the document: they are remapped on import.
+ */
+export interface ChatExportDocument {
+  format: typeof CHAT_EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  chat: {
+    name: string;
+    nameSetByUser?: boolean; // Missing in version 1 exports
+    systemPrompt: string | null;
+    activeMessageId: number | null;
+    createdAt: string;
+    updatedAt: string;
+    messages: ChatExportMessage[];
+  };
+}
+
+const ROLE_LABELS: Record<MessageRecord['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+};
+
+/**
+ * Heading of a message: its role, followed by the tool name for tool messages
+ */
+function getMessageLabel(message: MessageRecord): string {
+  const toolCall = parseToolCall(message.toolCall);
+  return toolCall ? `${ROLE_LABELS[message.role]}: ${toolCall.name}` : ROLE_LABELS[message.role];
+}
+
+function getActiveBranch(chat: ChatWithMessages): MessageRecord[] {
+  const messages = [...chat.messages].sort((a, b) => a.id - b.id);
+  return getBranchPath(messages, chat.activeMessageId);
+}
+
+/**
+ * Render the active branch of a chat as Markdown.
+ * Message contents are already Markdown and are written unchanged.
+ */
+export function chatToMarkdown(chat: ChatWithMessages): string {
+  const lines = [`# ${chat.name}`, ''];
+
+  if (chat.systemPrompt) {
+    lines.push(...chat.systemPrompt.split('\n').map((line) => `> ${line}`), '');
+  }
+
+  for (const message of getActiveBranch(chat)) {
+    const interrupted = message.interrupted ? ' (interrupted)' : '';
+    lines.push(`## ${getMessageLabel(message)}${interrupted}`, '', message.content, '');
+  }
+
+  return lines.join('\n');
+}
+
+function getStats(message: MessageRecord): GenerationStats | null {
+  if (message.promptTokens == null || message.completionTokens == null) {
+    return null;
+  }
+  return {
+    promptTokens: message.promptTokens,
+    completionTokens: message.completionTokens,
+    timeToFirstTokenMs: message.timeToFirstTokenMs,
+    tokensPerSecond: message.tokensPerSecond,
+  };
+}
+
+function parseSources(json: string | null): KnowledgeSource[] | null {
+  if (!json) return null;
+
+  try {
+    const sources = JSON.parse(json);
+    return Array.isArray(sources) ? sources : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a chat with its whole message tree to the versioned JSON format.
+ * `attachments` are the attachments of the chat messages, with their text.
+ */
+export function chatToJson(chat: ChatWithMessages, attachments: AttachmentRecord[] = [], exportedAt: Date = new Date()): string {
+  const document: ChatExportDocument = {
+    format: CHAT_EXPORT_FORMAT_ID,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    chat: {
+      name: chat.name,
+      nameSetByUser: chat.nameSetByUser,
+      systemPrompt: chat.systemPrompt,
+      activeMessageId: chat.activeMessageId,
+      createdAt: new Date(chat.createdAt).toISOString(),
+      updatedAt: new Date(chat.updatedAt).toISOString(),
+      messages: sortParentsFirst(chat.messages)
+        .map((message) => ({
+          id: message.id,
+          parentId: message.parentId,
+          role: message.role,
+          content: message.content,
+          interrupted: message.interrupted,
+          toolCall: parseToolCall(message.toolCall),
+          attachments: attachments
+            .filter((attachment) => attachment.messageId === message.id)
+            .map(({ name, kind, size, content }) => ({ name, kind, size, content })),
+          stats: getStats(message),
+          sources: parseSources(message.sources),
+          summary: message.summary ?? null,
+          createdAt: new Date(message.createdAt).toISOString(),
+        })),
+    },
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the active branch of a chat as a standalone HTML page (no external assets)
+ */
+export function chatToHtml(chat: ChatWithMessages): string {
+  const systemPrompt = chat.systemPrompt
+    ? `<blockquote class="system">${escapeHtml(chat.systemPrompt)}</blockquote>`
+    : '';
+
+  const messages = getActiveBranch(chat)
+    .map((message) => {
+      const interrupted = message.interrupted ? ' <span class="interrupted">(interrupted)</span>' : '';
+      return `    <article class="message ${message.role}">
+      <header>${escapeHtml(getMessageLabel(message))}${interrupted} <time>${new Date(message.createdAt).toISOString()}</time></header>
+      <div class="content">${escapeHtml(message.content)}</div>
+    </article>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(chat.name)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; background: #0f172a; color: #f1f5f9; }
+    .system { border-left: 4px solid #64748b; margin: 0 0 1rem; padding: 0.5rem 1rem; color: #cbd5e1; white-space: pre-wrap; }
+    .message { border-radius: 0.5rem; margin: 1rem 0; padding: 0.75rem 1rem; }
+    .message.user { background: #1e40af; margin-left: 4rem; }
+    .message.assistant { background: #334155; margin-right: 4rem; }
+    .message.tool { background: #1e293b; border: 1px dashed #64748b; margin-right: 4rem; font-size: 0.875rem; }
+    .message header { font-weight: bold; color: #cbd5e1; margin-bottom: 0.5rem; }
+    .message time { font-weight: normal; font-size: 0.75rem; color: #94a3b8; }
+    .interrupted { color: #fbbf24; }
+    .content { white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(chat.name)}</h1>
+  ${systemPrompt}
+  <main>
+${messages}
+  </main>
+</body>
+</html>
+`;
+}
+
+export function exportChat(chat: ChatWithMessages, format: ChatExportFormat, attachments: AttachmentRecord[] = []): string {
+  switch (format) {
+    case 'markdown':
+      return chatToMarkdown(chat);
+    case 'json':
+      return chatToJson(chat, attachments);
+    case 'html':
+      return chatToHtml(chat);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isValidAttachment(attachment: AttachmentDraft): boolean {
+  return !!attachment && typeof attachment.name === 'string' && typeof attachment.content === 'string'
+    && typeof attachment.size === 'number' && Object.keys(ATTACHMENT_EXTENSIONS).includes(attachment.kind);
+}
+
+function isValidStats(stats: GenerationStats): boolean {
+  return typeof stats === 'object' && typeof stats.promptTokens === 'number' && typeof stats.completionTokens === 'number'
+    && (stats.timeToFirstTokenMs === null || typeof stats.timeToFirstTokenMs === 'number')
+    && (stats.tokensPerSecond === null || typeof stats.tokensPerSecond === 'number');
+}
+
+/**
+ * Check the fields added by version 2, which are all optional
+ */
+function isValidMessageExtras(message: ChatExportMessage): boolean {
+  return (message.attachments === undefined || (Array.isArray(message.attachments) && message.attachments.every(isValidAttachment)))
+    && (message.stats == null || isValidStats(message.stats))
+    && (message.sources == null || Array.isArray(message.sources))
+    && (message.summary == null || typeof message.summary === 'string');
+}
+
+/**
+ * Parse and validate a JSON chat export.
+ * Every parent must be in the export, in any order, and the messages must form a tree.
+ * Throws when the document is not a chat export or was written by a newer version.
+ */
+export function parseChatJson(json: string): ChatExportDocument {
+  let document: ChatExportDocument;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid chat export: not a JSON file');
+  }
+
+  if (!document || document.format !== CHAT_EXPORT_FORMAT_ID || !document.chat) {
+    throw new Error('Invalid chat export: unknown format');
+  }
+  if (typeof document.version !== 'number' || document.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported chat export version: ${document.version}`);
+  }
+
+  const { chat } = document;
+  if (typeof chat.name !== 'string' || !isValidDate(chat.createdAt) || !isValidDate(chat.updatedAt)
+    || (chat.nameSetByUser !== undefined && typeof chat.nameSetByUser !== 'boolean')
+    || !Array.isArray(chat.messages)) {
+    throw new Error('Invalid chat export: malformed chat');
+  }
+
+  const ids = new Set(chat.messages.map((message) => message.id));
+  if (ids.size !== chat.messages.length) {
+    throw new Error('Invalid chat export: duplicate message ids');
+  }
+
+  for (const message of chat.messages) {
+    if (typeof message.id !== 'number' || typeof message.content !== 'string'
+      || !Object.keys(ROLE_LABELS).includes(message.role) || !isValidDate(message.createdAt)
+      || (message.toolCall != null && typeof message.toolCall.name !== 'string')
+      || !isValidMessageExtras(message)
+      || (message.parentId !== null && !ids.has(message.parentId))) {
+      throw new Error(`Invalid chat export: malformed message ${message.id}`);
+    }
+  }
+
+  // Messages in a cycle never hang from a root
+  if (sortParentsFirst(chat.messages).length !== chat.messages.length) {
+    throw new Error('Invalid chat export: messages do not form a tree');
+  }
+
+  return document;
+}
@@ -0,0 +1,98 @@
+import {
+  buildTitlePrompt,
+  cleanTitle,
+  getFallbackTitle,
+  getLanguageName,
+  getTitleExchanges,
+  MAX_TITLE_LENGTH,
+} from './chat.naming';
+
+describe('chat.naming', () => {
+  describe('getTitleExchanges', () => {
+    it('should pair the first user messages with their replies', () => {
+      const messages = [
+        { role: 'user' as const, content: 'Hello' },
+        { role: 'assistant' as const, content: 'Hi!' },
+        { role: 'user' as const, content: 'Plan a trip to Lyon' },
+        { role: 'assistant' as const, content: 'Sure' },
+        { role: 'user' as const, content: 'Cheaper please' },
+        { role: 'assistant' as const, content: 'Here you go' },
+        { role: 'user' as const, content: 'Thanks' },
+      ];
+
+      expect(getTitleExchanges(messages)).toEqual([
+        { user: 'Hello', assistant: 'Hi!' },
+        { user: 'Plan a trip to Lyon', assistant: 'Sure' },
+        { user: 'Cheaper please', assistant: 'Here you go' },
+      ]);
+      expect(getTitleExchanges(messages, 1)).toEqual([{ user: 'Hello', assistant: 'Hi!' }]);
+    });
+
+    it('should skip tool and empty messages and join the replies around tool calls', () => {
+      const messages = [
+        { role: 'assistant' as const, content: 'Orphan reply' },
+        { role: 'user' as const, content: 'Weather in Paris?' },
+        { role: 'assistant' as const, content: 'Let me check.' },
+        { role: 'tool' as const, content: '{"temperature":21}' },
+        { role: 'assistant' as const, content: 'It is 21°C.' },
+        { role: 'user' as const, content: 'And tomorrow?' },
+        { role: 'assistant' as const, content: '  ' },
+      ];
+
+      expect(getTitleExchanges(messages)).toEqual([
+        { user: 'Weather in Paris?', assistant: 'Let me check.\nIt is 21°C.' },
+        { user: 'And tomorrow?', assistant: '' },
+      ]);
+    });
+  });
+
+  describe('getLanguageName', () => {
+    it('should name the UI languages, English when unknown', () => {
+      expect(getLanguageName('fr')).toBe('French');
+      expect(getLanguageName('fr-CA')).toBe('French');
+      expect(getLanguageName('en-US')).toBe('English');
+      expect(getLanguageName('de')).toBe('English');
+    });
+  });
+
+  describe('buildTitlePrompt', () => {
+    it('should ask for a title in the UI language from every exchange', () => {
+      const prompt = buildTitlePrompt([
+        { user: 'Hello', assistant: 'Hi there' },
+        { user: 'Plan a trip', assistant: 'Sure' },
+      ], 'fr');
+
+      expect(prompt).toContain('Generate a very short title');
+      expect(prompt).toContain('written in French');
+      expect(prompt).toContain('User: Hello\nAssistant: Hi there\n\nUser: Plan a trip\nAssistant: Sure');
+    });
+
+    it('should cut long messages', () => {
+      const prompt = buildTitlePrompt([{ user: 'a'.repeat(2000), assistant: 'ok' }], 'en');
+
+      expect(prompt).toContain(`User: ${'a'.repeat(500)}…\n`);
+      expect(prompt).not.toContain('a'.repeat(501));
+    });
+  });
+
+  describe('getFallbackTitle', () => {
+    it('should name the chat after its first message, in the UI language', () => {
+      const exchanges = [{ user: 'Hello world this is a test of a long message', assistant: '' }];
+
+      expect(getFallbackTitle(exchanges, 'en')).toBe('Chat about Hello world this is a test of ...');
+      expect(getFallbackTitle(exchanges, 'fr')).toBe('Discussion sur Hello world this is a test of ...');
+    });
+  });
+
+  describe('cleanTitle', () => {
+    it('should remove quotes, the final period and line breaks', () => {
+      expect(cleanTitle('  "Trip to Lyon."  ')).toBe('Trip to Lyon');
+      expect(cleanTitle('« Voyage à Lyon »')).toBe('Voyage à Lyon');
+      expect(cleanTitle('Trip\nto Lyon')).toBe('Trip to Lyon');
+    });
+
+    it('should cut titles that are too long', () => {
+      expect(cleanTitle('x'.repeat(80))).toHaveLength(MAX_TITLE_LENGTH);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type { MessageRecord } from './chat.service';
+
+// Number of exchanges at the start of a chat its title is generated from
+export const TITLE_EXCHANGE_COUNT = 3;
+
+export const MAX_TITLE_LENGTH = 50;
+
+// Long messages are cut in the prompt, their start is enough to name the chat
+const MAX_EXCERPT_LENGTH = 500;
+
+// Constrains the model to a single, short title instead of free text
+export const CHAT_TITLE_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: MAX_TITLE_LENGTH },
+  },
+};
+
+// Languages of the UI, by i18n code
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  fr: 'French',
+};
+
+const FALLBACK_TITLE_PREFIXES: Record<string, string> = {
+  en: 'Chat about',
+  fr: 'Discussion sur',
+};
+
+/**
+ * A user message and the reply to it
+ */
+export interface TitleExchange {
+  user: string;
+  assistant: string;
+}
+
+/**
+ * The first exchanges of a branch. Tool messages and empty messages are skipped,
+ * and the replies written around tool calls are joined.
+ */
+export function getTitleExchanges(
+  messages: Pick<MessageRecord, 'role' | 'content'>[],
+  count: number = TITLE_EXCHANGE_COUNT
+): TitleExchange[] {
+  const exchanges: TitleExchange[] = [];
+  for (const message of messages) {
+    const content = message.content.trim();
+    if (message.role === 'tool' || content === '') continue;
+
+    if (message.role === 'user') {
+      if (exchanges.length === count) break;
+      exchanges.push({ user: content, assistant: '' });
+    } else if (exchanges.length > 0) {
+      const exchange = exchanges[exchanges.length - 1];
+      exchange.assistant = exchange.assistant ? `${exchange.assistant}\n${content}` : content;
+    }
+  }
+  return exchanges;
+}
+
+// The base language of an i18n code, e.g. fr for fr-CA
+function getBaseLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * The English name of a UI language, English when unknown
+ */
+export function getLanguageName(locale: string): string {
+  return LANGUAGE_NAMES[getBaseLanguage(locale)] ?? LANGUAGE_NAMES.en;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text;
+}
+
+/**
+ * Ask the model for a title summarizing the exchanges, written in the UI language
+ */
+export function buildTitlePrompt(exchanges: TitleExchange[], locale: string): string {
+  const conversation = exchanges
+    .map((exchange) => `User: ${truncate(exchange.user)}\nAssistant: ${truncate(exchange.assistant)}`)
+    .join('\n\n');
+
+  return `Generate a very short title (3-5 words maximum) summarizing this conversation, written in ${getLanguageName(locale)}. Respond with JSON containing the title.
+
+${conversation}`;
+}
+
+/**
+ * Title used when the model cannot name the chat, from its first message
+ */
+export function getFallbackTitle(exchanges: TitleExchange[], locale: string): string {
+  const prefix = FALLBACK_TITLE_PREFIXES[getBaseLanguage(locale)] ?? FALLBACK_TITLE_PREFIXES.en;
+  return `${prefix} ${(exchanges[0]?.user ?? '').substring(0, 30)}...`;
+}
+
+/**
+ * Tidy a title written by the model: no surrounding quotes, final period or line breaks
+ */
+export function cleanTitle(title: string): string {
+  return title
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'«“]+|["'»”]+$/g, '')
+    .replace(/\.$/, '')
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH);
+}
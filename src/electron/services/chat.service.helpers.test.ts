@@ -0,0 +1,216 @@
+import {
+  findTextMatch,
+  getBranchPath,
+  getLatestLeafId,
+  getSiblingIds,
+  MAX_TAG_LENGTH,
+  normalizeTags,
+  parseSnippet,
+  parseToolCall,
+  SEARCH_MATCH_END,
+  SEARCH_MATCH_START,
+  sortParentsFirst,
+  toFtsQuery,
+} from './chat.service.helpers';
+
+// 1 ─┬─ 2 ── 3
+//    └─ 4 ─┬─ 5
+//          └─ 6
+const tree = [
+  { id: 1, parentId: null },
+  { id: 2, parentId: 1 },
+  { id: 3, parentId: 2 },
+  { id: 4, parentId: 1 },
+  { id: 5, parentId: 4 },
+  { id: 6, parentId: 4 },
+];
+
+describe('chat.service.helpers', () => {
+  describe('getSiblingIds', () => {
+    it('should return the messages sharing the same parent', () => {
+      expect(getSiblingIds(tree, tree[1])).toEqual([2, 4]);
+      expect(getSiblingIds(tree, tree[4])).toEqual([5, 6]);
+    });
+
+    it('should treat root messages as siblings', () => {
+      const roots = [
+        { id: 3, parentId: null },
+        { id: 1, parentId: null },
+        { id: 2, parentId: 1 },
+      ];
+
+      expect(getSiblingIds(roots, roots[0])).toEqual([1, 3]);
+    });
+
+    it('should return only the message itself when it has no siblings', () => {
+      expect(getSiblingIds(tree, tree[2])).toEqual([3]);
+    });
+  });
+
+  describe('getLatestLeafId', () => {
+    it('should follow the newest child down to a leaf', () => {
+      expect(getLatestLeafId(tree, 1)).toBe(6);
+      expect(getLatestLeafId(tree, 2)).toBe(3);
+    });
+
+    it('should return the message itself when it is a leaf', () => {
+      expect(getLatestLeafId(tree, 5)).toBe(5);
+    });
+  });
+
+  describe('sortParentsFirst', () => {
+    it('should list each branch after its parent, siblings oldest first', () => {
+      expect(sortParentsFirst([...tree].reverse()).map((m) => m.id)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should put a reply after the tool message created after it', () => {
+      // The reply 2 was moved under the tool message 3
+      const messages = [{ id: 1, parentId: null }, { id: 2, parentId: 3 }, { id: 3, parentId: 1 }];
+
+      expect(sortParentsFirst(messages).map((m) => m.id)).toEqual([1, 3, 2]);
+    });
+
+    it('should leave out messages without a root', () => {
+      const messages = [{ id: 1, parentId: null }, { id: 2, parentId: 3 }, { id: 3, parentId: 2 }, { id: 4, parentId: 9 }];
+
+      expect(sortParentsFirst(messages).map((m) => m.id)).toEqual([1]);
+    });
+  });
+
+  describe('getBranchPath', () => {
+    it('should return the path from the root to the leaf', () => {
+      expect(getBranchPath(tree, 3).map((m) => m.id)).toEqual([1, 2, 3]);
+      expect(getBranchPath(tree, 5).map((m) => m.id)).toEqual([1, 4, 5]);
+    });
+
+    it('should fall back to the most recent message', () => {
+      expect(getBranchPath(tree, null).map((m) => m.id)).toEqual([1, 4, 6]);
+      expect(getBranchPath(tree, 42).map((m) => m.id)).toEqual([1, 4, 6]);
+    });
+
+    it('should return an empty path for an empty chat', () => {
+      expect(getBranchPath([], null)).toEqual([]);
+    });
+
+    it('should stop on cycles', () => {
+      const cyclic = [
+        { id: 1, parentId: 2 },
+        { id: 2, parentId: 1 },
+      ];
+
+      expect(getBranchPath(cyclic, 2).map((m) => m.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('toFtsQuery', () => {
+    it('should quote every word and match the last one as a prefix', () => {
+      expect(toFtsQuery('rust  lifetime')).toBe('"rust" "lifetime"*');
+    });
+
+    it('should match FTS5 operators literally', () => {
+      expect(toFtsQuery('a OR "b" NEAR(c')).toBe('"a" "OR" """b""" "NEAR(c"*');
+    });
+
+    it('should return an empty query for blank input', () => {
+      expect(toFtsQuery('  \n ')).toBe('');
+    });
+  });
+
+  describe('findTextMatch', () => {
+    it('should highlight every word of the query, ignoring case', () => {
+      expect(findTextMatch('Mix the Flour and the milk', 'flour MILK')).toEqual({
+        snippet: [
+          { text: 'Mix the ', match: false },
+          { text: 'Flour', match: true },
+          { text: ' and the ', match: false },
+          { text: 'milk', match: true },
+        ],
+        hits: 2,
+      });
+    });
+
+    it('should not match when a word is missing', () => {
+      expect(findTextMatch('Mix the flour', 'flour eggs')).toBeNull();
+      expect(findTextMatch('Mix the flour', '  ')).toBeNull();
+    });
+
+    it('should count every occurrence', () => {
+      expect(findTextMatch('tea, tea and more tea', 'tea')?.hits).toBe(3);
+    });
+
+    it('should keep the text around the first match of a long text', () => {
+      const text = `${'a'.repeat(100)} needle ${'b'.repeat(300)}`;
+
+      const snippet = findTextMatch(text, 'needle')!.snippet;
+
+      expect(snippet[0]).toEqual({ text: '…', match: false });
+      expect(snippet[1].text).toBe('a'.repeat(29) + ' ');
+      expect(snippet[2]).toEqual({ text: 'needle', match: true });
+      expect(snippet[snippet.length - 1]).toEqual({ text: '…', match: false });
+    });
+
+    it('should highlight overlapping words once', () => {
+      expect(findTextMatch('breadcrumbs', 'bread crumb')!.snippet).toEqual([
+        { text: 'bread', match: true },
+        { text: 'crumb', match: true },
+        { text: 's', match: false },
+      ]);
+      expect(findTextMatch('breadcrumbs', 'bread read')!.snippet).toEqual([
+        { text: 'bread', match: true },
+        { text: 'crumbs', match: false },
+      ]);
+    });
+  });
+
+  describe('parseSnippet', () => {
+    it('should split matched and plain text', () => {
+      const snippet = `…mix ${SEARCH_MATCH_START}flour${SEARCH_MATCH_END} and ${SEARCH_MATCH_START}milk${SEARCH_MATCH_END}`;
+
+      expect(parseSnippet(snippet)).toEqual([
+        { text: '…mix ', match: false },
+        { text: 'flour', match: true },
+        { text: ' and ', match: false },
+        { text: 'milk', match: true },
+      ]);
+    });
+
+    it('should return a single segment without matches', () => {
+      expect(parseSnippet('plain')).toEqual([{ text: 'plain', match: false }]);
+      expect(parseSnippet('')).toEqual([]);
+    });
+  });
+
+  describe('parseToolCall', () => {
+    it('should parse a stored tool call', () => {
+      const json = JSON.stringify({ name: 'get_current_time', params: {}, status: 'completed' });
+
+      expect(parseToolCall(json)).toEqual({ name: 'get_current_time', params: {}, status: 'completed' });
+    });
+
+    it('should return null for messages without a tool call', () => {
+      expect(parseToolCall(null)).toBeNull();
+      expect(parseToolCall(undefined)).toBeNull();
+      expect(parseToolCall('')).toBeNull();
+    });
+
+    it('should return null for malformed values', () => {
+      expect(parseToolCall('not json')).toBeNull();
+      expect(parseToolCall('null')).toBeNull();
+      expect(parseToolCall('{"params":{}}')).toBeNull();
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('should trim tags and drop empty ones', () => {
+      expect(normalizeTags(['  work ', '', '   ', 'side   project'])).toEqual(['work', 'side project']);
+    });
+
+    it('should drop repeats differing only by case, keeping the first', () => {
+      expect(normalizeTags(['Work', 'ideas', 'work', 'IDEAS'])).toEqual(['Work', 'ideas']);
+    });
+
+    it('should cut long tags', () => {
+      expect(normalizeTags(['x'.repeat(50)])).toEqual(['x'.repeat(MAX_TAG_LENGTH)]);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Helper functions for the chat service.
+ * Messages of a chat form a tree: every message points to the message it answers (or follows) through
+ * `parentId`; regenerated replies and edited prompts become siblings that
+ * share the same parent.
+ */
+
+import type { ToolCallRecord } from './chat.service';
+
+interface TreeMessage {
+  id: number;
+  parentId: number | null;
+}
+
+/**
+ * Return the ids of the messages sharing the parent of `message`, oldest first
+ */
+export function getSiblingIds<T extends TreeMessage>(messages: T[], message: T): number[] {
+  return messages
+    .filter((m) => m.parentId === message.parentId)
+    .map((m) => m.id)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Follow the most recent child of each message down to a leaf.
+ * Used when switching to a sibling so the newest continuation of that branch is shown.
+ */
+export function getLatestLeafId<T extends TreeMessage>(messages: T[], messageId: number): number {
+  let leafId = messageId;
+
+  for (;;) {
+    const children = messages.filter((m) => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = Math.max(...children.map((m) => m.id));
+  }
+}
+
+/**
+ * Order messages so that every parent comes before its children, each branch in turn, siblings oldest first.
+ * Ids do not follow the tree: a reply is moved under the tool message created after it.
+ * Messages whose parent is missing or that form a cycle are left out.
+ */
+export function sortParentsFirst<T extends TreeMessage>(messages: T[]): T[] {
+  const children = new Map<number | null, T[]>();
+  for (const message of [...messages].sort((a, b) => a.id - b.id)) {
+    children.set(message.parentId, [...(children.get(message.parentId) ?? []), message]);
+  }
+
+  const sorted: T[] = [];
+  const stack = [...(children.get(null) ?? [])].reverse();
+  while (stack.length > 0) {
+    const message = stack.pop()!;
+    sorted.push(message);
+    stack.push(...[...(children.get(message.id) ?? [])].reverse());
+  }
+  return sorted;
+}
+
+/**
+ * Return the messages from the root of the tree down to `leafId`.
+ * Falls back to the most recent message when `leafId` is null or unknown.
+ */
+export function getBranchPath<T extends TreeMessage>(messages: T[], leafId: number | null): T[] {
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  let current: T | undefined = (leafId !== null ? byId.get(leafId) : undefined)
+    ?? messages.reduce((latest, m) => (m.id > latest.id ? m : latest));
+
+  const path: T[] = [];
+  const visited = new Set<number>();
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Marks wrapped around matched terms by the FTS5 `snippet()`/`highlight()` functions.
+ * Control characters cannot be typed in a message, so they never clash with content.
+ */
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Turn free text typed in the search box into an FTS5 query.
+ * Every word is quoted so FTS5 operators in the input are matched literally,
+ * and the last word is a prefix so results show up while typing.
+ */
+export function toFtsQuery(input: string): string {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '""'))
+    .filter((term) => term !== '');
+
+  return terms
+    .map((term, index) => `"${term}"${index === terms.length - 1 ? '*' : ''}`)
+    .join(' ');
+}
+
+/**
+ * Split a snippet returned by FTS5 into plain and matched segments
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let match = false;
+  let text = '';
+
+  for (const char of snippet) {
+    if (char === SEARCH_MATCH_START || char === SEARCH_MATCH_END) {
+      if (text) segments.push({ text, match });
+      match = char === SEARCH_MATCH_START;
+      text = '';
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, match });
+
+  return segments;
+}
+
+// Characters of context kept before the first match of a snippet, and the snippet length
+const SNIPPET_CONTEXT = 30;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Match a text against free text typed in the search box, without the FTS5 index.
+ * Every word must appear in the text, ignoring case. Returns the snippet around
+ * the first match with the matched words highlighted, and the number of matches.
+ */
+export function findTextMatch(text: string, input: string): { snippet: SnippetSegment[]; hits: number } | null {
+  const terms = input.toLowerCase().split(/\s+/).filter((term) => term !== '');
+  const lower = text.toLowerCase();
+  if (terms.length === 0 || !terms.every((term) => lower.includes(term))) {
+    return null;
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const snippet: SnippetSegment[] = [];
+  let position = start;
+  for (const [matchStart, matchEnd] of ranges) {
+    // Overlapping matches are highlighted once
+    if (matchEnd <= position || matchStart >= end) continue;
+    const from = Math.max(matchStart, position);
+    if (from > position) snippet.push({ text: text.slice(position, from), match: false });
+    snippet.push({ text: text.slice(from, Math.min(matchEnd, end)), match: true });
+    position = Math.min(matchEnd, end);
+  }
+  if (position < end) snippet.push({ text: text.slice(position, end), match: false });
+
+  if (start > 0) snippet.unshift({ text: '…', match: false });
+  if (end < text.length) snippet.push({ text: '…', match: false });
+
+  return { snippet, hits: ranges.length };
+}
+
+/**
+ * Read the tool call stored with a tool message.
+ * Returns null for other messages and for values that are not a tool call.
+ */
+export function parseToolCall(json: string | null | undefined): ToolCallRecord | null {
+  if (!json) return null;
+
+  try {
+    const toolCall = JSON.parse(json);
+    return toolCall && typeof toolCall.name === 'string' ? toolCall : null;
+  } catch {
+    return null;
+  }
+}
+
+// Longest tag kept, longer ones are cut
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Clean up the tags given to a chat: trimmed, without empty ones or
+ * repeats differing only by case, in the order given
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const name = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    normalized.push(name);
+  }
+  return normalized;
+}
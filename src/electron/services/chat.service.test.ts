@@ -1,7 +1,13 @@
 import { ChatService } from './chat.service';
 import { PrismaClient } from '../generated/prisma';
-import * as fs from 'fs';
-import * as path from 'path';
+import { chatToJson, parseChatJson } from './chat.export';
+import { createVerifier, decryptText, deriveKey, encryptText, isEncryptedText } from './chat.crypto';
+
+// Cheap key derivation, the default parameters take a noticeable time on purpose
+jest.mock('./chat.crypto', () => ({
+  ...jest.requireActual('./chat.crypto'),
+  DEFAULT_KDF_PARAMS: { N: 1024, r: 8, p: 1 },
+}));
 
 // Mock Electron's app module
 jest.mock('electron', () => ({
@@ -10,14 +16,9 @@ jest.mock('electron', () => ({
   },
 }));
 
-// Mock fs module
-jest.mock('fs');
-
 // Mock PrismaClient
 jest.mock('../generated/prisma', () => {
   const mockPrismaClient = {
-    $connect: jest.fn(),
-    $disconnect: jest.fn(),
     $queryRaw: jest.fn(),
     $executeRaw: jest.fn(),
     chat: {
@@ -30,9 +31,27 @@ jest.mock('../generated/prisma', () => {
     message: {
       create: jest.fn(),
       findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
       count: jest.fn(),
       update: jest.fn(),
     },
+    attachment: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    chatFolder: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    chatEncryption: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
   };
 
   return {
@@ -40,74 +59,51 @@ jest.mock('../generated/prisma', () => {
   };
 });
 
+// SQL of the raw queries sent through a tagged template mock, with `?` for values
+const rawSql = (mock: jest.Mock): string[] =>
+  mock.mock.calls.map(([strings]: [TemplateStringsArray]) => strings.join('?').replace(/\s+/g, ' ').trim());
+
 describe('ChatService', () => {
   let chatService: ChatService;
   let mockPrisma: any;
+  let mockDatabase: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Mock fs methods before creating service
-    (fs.existsSync as jest.Mock).mockReturnValue(true);
-    (fs.mkdirSync as jest.Mock).mockReturnValue(undefined);
-
-    chatService = new ChatService();
-    mockPrisma = (chatService as any).prisma;
+    mockPrisma = new PrismaClient();
+    mockDatabase = {
+      client: mockPrisma,
+      connect: jest.fn().mockResolvedValue(undefined),
+      transaction: jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrisma)),
+      compact: jest.fn().mockResolvedValue(undefined),
+    };
+    chatService = new ChatService(mockDatabase);
 
     // Reset all mock implementations to default successful state
-    mockPrisma.$connect.mockResolvedValue(undefined);
-    mockPrisma.$disconnect.mockResolvedValue(undefined);
     mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
     mockPrisma.$executeRaw.mockResolvedValue(undefined);
-  });
-
-  afterEach(async () => {
-    try {
-      await chatService.close();
-    } catch (error) {
-      // Ignore errors during cleanup
-    }
+    mockPrisma.chatEncryption.findUnique.mockResolvedValue(null);
   });
 
   describe('initialize', () => {
     it('should initialize the service successfully', async () => {
-      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
       await chatService.initialize();
 
-      expect(mockPrisma.$connect).toHaveBeenCalled();
-      expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+      expect(mockDatabase.connect).toHaveBeenCalled();
+      // The schema is created by the migrations
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
     });
 
     it('should not initialize twice', async () => {
-      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
-      await chatService.initialize();
-      await chatService.initialize();
-
-      expect(mockPrisma.$connect).toHaveBeenCalledTimes(1);
-    });
-
-    it('should create tables if they do not exist', async () => {
-      mockPrisma.$queryRaw.mockRejectedValue(new Error('Table does not exist'));
-      mockPrisma.$executeRaw.mockResolvedValue(undefined);
-
       await chatService.initialize();
-
-      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(2);
-    });
-
-    it('should create database directory if it does not exist', async () => {
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
       await chatService.initialize();
 
-      expect(fs.mkdirSync).toHaveBeenCalledWith(expect.any(String), { recursive: true });
+      expect(mockDatabase.connect).toHaveBeenCalledTimes(1);
     });
 
     it('should throw error if initialization fails', async () => {
-      mockPrisma.$connect.mockRejectedValue(new Error('Connection failed'));
+      mockDatabase.connect.mockRejectedValue(new Error('Connection failed'));
 
       await expect(chatService.initialize()).rejects.toThrow('Connection failed');
     });
@@ -128,6 +124,8 @@ describe('ChatService', () => {
       expect(mockPrisma.chat.create).toHaveBeenCalledWith({
         data: { name: 'New Chat' },
       });
+      expect(rawSql(mockPrisma.$executeRaw)).toContain('INSERT INTO "chats_fts" ("rowid", "name") VALUES (?, ?)');
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 1, 'New Chat');
       expect(result).toEqual(mockChat);
     });
 
@@ -238,11 +236,36 @@ describe('ChatService', () => {
 
       expect(mockPrisma.chat.update).toHaveBeenCalledWith({
         where: { id: 1 },
-        data: { name: 'Updated Chat' },
+        data: { name: 'Updated Chat', nameSetByUser: true },
       });
+      expect(rawSql(mockPrisma.$executeRaw)).toContain('UPDATE "chats_fts" SET "name" = ? WHERE "rowid" = ?');
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 'Updated Chat', 1);
       expect(result).toEqual(mockChat);
     });
 
+    it('should not mark a generated name as chosen by the user', async () => {
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, name: 'New Chat', nameSetByUser: false });
+      mockPrisma.chat.update.mockResolvedValue({ id: 1, name: 'Trip to Lyon', nameSetByUser: false });
+
+      await chatService.updateChatName(1, 'Trip to Lyon', false);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'Trip to Lyon', nameSetByUser: false },
+      });
+    });
+
+    it('should never replace the name chosen by the user with a generated one', async () => {
+      const chat = { id: 1, name: 'My trip', nameSetByUser: true };
+      mockPrisma.chat.findUnique.mockResolvedValue(chat);
+
+      const result = await chatService.updateChatName(1, 'Trip to Lyon', false);
+
+      expect(mockPrisma.chat.update).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(result).toEqual(chat);
+    });
+
     it('should throw error if update fails', async () => {
       mockPrisma.chat.update.mockRejectedValue(new Error('Update failed'));
 
@@ -250,20 +273,257 @@ describe('ChatService', () => {
     });
   });
 
+  describe('updateChatSystemPrompt', () => {
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+    });
+
+    it('should update the chat system prompt', async () => {
+      const mockChat = { id: 1, name: 'Chat', systemPrompt: 'Be brief', createdAt: new Date(), updatedAt: new Date() };
+      mockPrisma.chat.update.mockResolvedValue(mockChat);
+
+      const result = await chatService.updateChatSystemPrompt(1, '  Be brief ');
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { systemPrompt: 'Be brief' },
+      });
+      expect(result).toEqual(mockChat);
+    });
+
+    it('should clear the system prompt when empty or null', async () => {
+      mockPrisma.chat.update.mockResolvedValue({});
+
+      await chatService.updateChatSystemPrompt(1, '   ');
+      await chatService.updateChatSystemPrompt(1, null);
+
+      expect(mockPrisma.chat.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 1 },
+        data: { systemPrompt: null },
+      });
+      expect(mockPrisma.chat.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 1 },
+        data: { systemPrompt: null },
+      });
+    });
+
+    it('should throw error if update fails', async () => {
+      mockPrisma.chat.update.mockRejectedValue(new Error('Update failed'));
+
+      await expect(chatService.updateChatSystemPrompt(1, 'Prompt')).rejects.toThrow('Update failed');
+    });
+  });
+
+  describe('updateChatKnowledgeBase', () => {
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should turn the knowledge base on or off for a chat', async () => {
+      const mockChat = { id: 1, name: 'Chat', knowledgeBase: true };
+      mockPrisma.chat.update.mockResolvedValue(mockChat);
+
+      const result = await chatService.updateChatKnowledgeBase(1, true);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { knowledgeBase: true },
+      });
+      expect(result).toEqual(mockChat);
+    });
+
+    it('should throw error if update fails', async () => {
+      mockPrisma.chat.update.mockRejectedValue(new Error('Update failed'));
+
+      await expect(chatService.updateChatKnowledgeBase(1, false)).rejects.toThrow('Update failed');
+    });
+  });
+
+  describe('chat organization', () => {
+    const updatedAt = new Date('2025-01-02T10:00:00Z');
+
+    beforeEach(async () => {
+      await chatService.initialize();
+      mockPrisma.chat.findUnique.mockResolvedValue({ updatedAt });
+      mockPrisma.chat.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 1, name: 'Chat', ...data }));
+    });
+
+    it('should pin a chat without moving it among the recent chats', async () => {
+      const result = await chatService.updateChatPinned(1, true);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { pinned: true, updatedAt },
+      });
+      expect(result.pinned).toBe(true);
+    });
+
+    it('should archive a chat', async () => {
+      await chatService.updateChatArchived(1, true);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { archived: true, updatedAt },
+      });
+    });
+
+    it('should store the normalized tags as JSON', async () => {
+      await chatService.updateChatTags(1, [' work ', 'Work', 'ideas', '']);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { tags: '["work","ideas"]', updatedAt },
+      });
+    });
+
+    it('should move a chat to a folder and out of it', async () => {
+      await chatService.moveChatToFolder(1, 3);
+      await chatService.moveChatToFolder(1, null);
+
+      expect(mockPrisma.chat.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 1 },
+        data: { folderId: 3, updatedAt },
+      });
+      expect(mockPrisma.chat.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 1 },
+        data: { folderId: null, updatedAt },
+      });
+    });
+
+    it('should throw if the chat does not exist', async () => {
+      mockPrisma.chat.findUnique.mockResolvedValue(null);
+
+      await expect(chatService.updateChatPinned(99, true)).rejects.toThrow('Chat 99 not found');
+      expect(mockPrisma.chat.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if update fails', async () => {
+      mockPrisma.chat.update.mockRejectedValue(new Error('Update failed'));
+
+      await expect(chatService.updateChatArchived(1, false)).rejects.toThrow('Update failed');
+    });
+  });
+
+  describe('updateChatsArchived', () => {
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should archive each chat, keeping their places among the recent chats', async () => {
+      const updatedAt = new Date('2025-01-02T10:00:00Z');
+      mockPrisma.chat.findUnique.mockResolvedValue({ updatedAt });
+      mockPrisma.chat.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+
+      const result = await chatService.updateChatsArchived([1, 2], true);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { archived: true, updatedAt } });
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({ where: { id: 2 }, data: { archived: true, updatedAt } });
+      expect(result.map((chat) => chat.id)).toEqual([1, 2]);
+    });
+
+    it('should throw error if a chat does not exist', async () => {
+      mockPrisma.chat.findUnique.mockResolvedValue(null);
+
+      await expect(chatService.updateChatsArchived([7], true)).rejects.toThrow('Chat 7 not found');
+    });
+  });
+
+  describe('chat folders', () => {
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should get the folders ordered by name', async () => {
+      const folders = [{ id: 1, name: 'Research' }, { id: 2, name: 'Work' }];
+      mockPrisma.chatFolder.findMany.mockResolvedValue(folders);
+
+      const result = await chatService.getFolders();
+
+      expect(mockPrisma.chatFolder.findMany).toHaveBeenCalledWith({ orderBy: { name: 'asc' } });
+      expect(result).toEqual(folders);
+    });
+
+    it('should create a folder with a trimmed name', async () => {
+      mockPrisma.chatFolder.create.mockResolvedValue({ id: 1, name: 'Work' });
+
+      await chatService.createFolder('  Work ');
+
+      expect(mockPrisma.chatFolder.create).toHaveBeenCalledWith({ data: { name: 'Work' } });
+    });
+
+    it('should rename a folder', async () => {
+      mockPrisma.chatFolder.update.mockResolvedValue({ id: 1, name: 'Projects' });
+
+      await chatService.renameFolder(1, 'Projects');
+
+      expect(mockPrisma.chatFolder.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { name: 'Projects' } });
+    });
+
+    it('should refuse empty folder names', async () => {
+      await expect(chatService.createFolder('   ')).rejects.toThrow('Folder name cannot be empty');
+      await expect(chatService.renameFolder(1, '')).rejects.toThrow('Folder name cannot be empty');
+      expect(mockPrisma.chatFolder.create).not.toHaveBeenCalled();
+      expect(mockPrisma.chatFolder.update).not.toHaveBeenCalled();
+    });
+
+    it('should delete a folder', async () => {
+      mockPrisma.chatFolder.delete.mockResolvedValue({});
+
+      await chatService.deleteFolder(1);
+
+      expect(mockPrisma.chatFolder.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+
+    it('should throw error if a folder name is taken', async () => {
+      mockPrisma.chatFolder.create.mockRejectedValue(new Error('Unique constraint failed'));
+
+      await expect(chatService.createFolder('Work')).rejects.toThrow('Unique constraint failed');
+    });
+  });
+
+  describe('deleteChats', () => {
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should delete the chats and their search entries in a transaction', async () => {
+      mockPrisma.chat.delete.mockResolvedValue({});
+
+      await chatService.deleteChats([1, 2]);
+
+      expect(mockDatabase.transaction).toHaveBeenCalled();
+      expect(mockPrisma.chat.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(mockPrisma.chat.delete).toHaveBeenCalledWith({ where: { id: 2 } });
+      expect(rawSql(mockPrisma.$executeRaw).filter((sql) => sql.startsWith('DELETE'))).toHaveLength(4);
+    });
+
+    it('should throw error if a deletion fails', async () => {
+      mockPrisma.chat.delete.mockRejectedValue(new Error('Record to delete does not exist'));
+
+      await expect(chatService.deleteChats([9])).rejects.toThrow('Record to delete does not exist');
+    });
+  });
+
   describe('deleteChat', () => {
     beforeEach(async () => {
       mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
       await chatService.initialize();
     });
 
-    it('should delete a chat', async () => {
+    it('should delete a chat and its search entries in a transaction', async () => {
       mockPrisma.chat.delete.mockResolvedValue({});
 
       await chatService.deleteChat(1);
 
+      expect(mockDatabase.transaction).toHaveBeenCalled();
       expect(mockPrisma.chat.delete).toHaveBeenCalledWith({
         where: { id: 1 },
       });
+      expect(rawSql(mockPrisma.$executeRaw)).toEqual(expect.arrayContaining([
+        'DELETE FROM "chats_fts" WHERE "rowid" = ?',
+        'DELETE FROM "messages_fts" WHERE "chatId" = ?',
+      ]));
     });
 
     it('should throw error if deletion fails', async () => {
@@ -289,6 +549,8 @@ describe('ChatService', () => {
       };
       mockPrisma.message.create.mockResolvedValue(mockMessage);
       mockPrisma.chat.update.mockResolvedValue({});
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: null });
+      mockPrisma.message.findFirst.mockResolvedValue(null);
 
       const result = await chatService.createMessage({
         chatId: 1,
@@ -301,15 +563,101 @@ describe('ChatService', () => {
           chatId: 1,
           content: 'Hello',
           role: 'user',
+          parentId: null,
         },
       });
       expect(mockPrisma.chat.update).toHaveBeenCalledWith({
         where: { id: 1 },
-        data: { updatedAt: expect.any(Date) },
+        data: { updatedAt: expect.any(Date), activeMessageId: 1 },
       });
+      expect(rawSql(mockPrisma.$executeRaw)).toContain(
+        'INSERT INTO "messages_fts" ("rowid", "content", "chatId") VALUES (?, ?, ?)'
+      );
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 1, 'Hello', 1);
+      expect(mockDatabase.transaction).toHaveBeenCalled();
       expect(result).toEqual(mockMessage);
     });
 
+    it('should write the message and its search entry in one transaction', async () => {
+      mockPrisma.message.create.mockResolvedValue({ id: 8, chatId: 1 });
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: 5 });
+      mockPrisma.$executeRaw.mockRejectedValueOnce(new Error('disk I/O error'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(chatService.createMessage({ chatId: 1, content: 'Next', role: 'user' })).rejects.toThrow('disk I/O error');
+
+      expect(mockPrisma.message.create).toHaveBeenCalled();
+      expect(mockDatabase.transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.chat.update).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should append to the active branch by default', async () => {
+      mockPrisma.message.create.mockResolvedValue({ id: 8, chatId: 1 });
+      mockPrisma.chat.update.mockResolvedValue({});
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: 5 });
+
+      await chatService.createMessage({ chatId: 1, content: 'Next', role: 'user' });
+
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ parentId: 5 }),
+      });
+      expect(mockPrisma.message.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the latest message when no branch is active', async () => {
+      mockPrisma.message.create.mockResolvedValue({ id: 8, chatId: 1 });
+      mockPrisma.chat.update.mockResolvedValue({});
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: null });
+      mockPrisma.message.findFirst.mockResolvedValue({ id: 7 });
+
+      await chatService.createMessage({ chatId: 1, content: 'Next', role: 'user' });
+
+      expect(mockPrisma.message.findFirst).toHaveBeenCalledWith({
+        where: { chatId: 1 },
+        orderBy: { id: 'desc' },
+      });
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ parentId: 7 }),
+      });
+    });
+
+    it('should use the given parent for branches', async () => {
+      mockPrisma.message.create.mockResolvedValue({ id: 8, chatId: 1 });
+      mockPrisma.chat.update.mockResolvedValue({});
+
+      await chatService.createMessage({ chatId: 1, content: 'Edited', role: 'user', parentId: 2 });
+
+      expect(mockPrisma.chat.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ parentId: 2 }),
+      });
+    });
+
+    it('should store the attachments with the message', async () => {
+      const attachment = { name: 'notes.md', kind: 'markdown', size: 12, content: '# Notes' };
+      mockPrisma.message.create.mockResolvedValue({ id: 8, chatId: 1 });
+      mockPrisma.chat.update.mockResolvedValue({});
+
+      await chatService.createMessage({ chatId: 1, content: 'Summarize', role: 'user', parentId: 2, attachments: [attachment] });
+
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ attachments: { create: [attachment] } }),
+      });
+    });
+
+    it('should store the knowledge base excerpts given for a reply as JSON', async () => {
+      const source = { index: 1, path: '/docs/notes.md', name: 'notes.md', position: 0, content: 'Notes', score: 0.9 };
+      mockPrisma.message.create.mockResolvedValue({ id: 9, chatId: 1 });
+      mockPrisma.chat.update.mockResolvedValue({});
+
+      await chatService.createMessage({ chatId: 1, content: '', role: 'assistant', parentId: 8, sources: [source] });
+
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sources: JSON.stringify([source]) }),
+      });
+    });
+
     it('should throw error if message creation fails', async () => {
       mockPrisma.message.create.mockRejectedValue(new Error('Creation failed'));
 
@@ -323,6 +671,49 @@ describe('ChatService', () => {
     });
   });
 
+  describe('createToolMessage', () => {
+    const toolCall = { name: 'get_current_time', params: {}, status: 'completed' as const };
+
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should insert the tool message between the reply and its parent', async () => {
+      const toolMessage = { id: 9, chatId: 1, content: '"12:00"', role: 'tool', parentId: 4 };
+      mockPrisma.message.findUnique.mockResolvedValue({ id: 5, chatId: 1, parentId: 4 });
+      mockPrisma.message.create.mockResolvedValue(toolMessage);
+      mockPrisma.message.update.mockResolvedValue({});
+
+      const result = await chatService.createToolMessage(5, '"12:00"', toolCall);
+
+      expect(mockDatabase.transaction).toHaveBeenCalled();
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: {
+          chatId: 1,
+          content: '"12:00"',
+          role: 'tool',
+          toolCall: JSON.stringify(toolCall),
+          parentId: 4,
+        },
+      });
+      expect(mockPrisma.message.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { parentId: 9 },
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 9, '"12:00"', 1);
+      // The reply stays the leaf of the active branch
+      expect(mockPrisma.chat.update).not.toHaveBeenCalled();
+      expect(result).toEqual(toolMessage);
+    });
+
+    it('should throw when the reply does not exist', async () => {
+      mockPrisma.message.findUnique.mockResolvedValue(null);
+
+      await expect(chatService.createToolMessage(5, 'result', toolCall)).rejects.toThrow('Message 5 not found');
+      expect(mockPrisma.message.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateMessage', () => {
     beforeEach(async () => {
       mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
@@ -343,11 +734,37 @@ describe('ChatService', () => {
 
       expect(mockPrisma.message.update).toHaveBeenCalledWith({
         where: { id: 1 },
-        data: { content: 'Updated content' },
+        data: { content: 'Updated content', interrupted: false },
       });
+      expect(rawSql(mockPrisma.$executeRaw)).toContain('UPDATE "messages_fts" SET "content" = ? WHERE "rowid" = ?');
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 'Updated content', 1);
+      expect(mockDatabase.transaction).toHaveBeenCalled();
       expect(result).toEqual(mockUpdatedMessage);
     });
 
+    it('should flag a message as interrupted', async () => {
+      mockPrisma.message.update.mockResolvedValue({ id: 1, content: 'Partial', interrupted: true });
+
+      await chatService.updateMessage(1, 'Partial', true);
+
+      expect(mockPrisma.message.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { content: 'Partial', interrupted: true },
+      });
+    });
+
+    it('should store the generation stats of a reply', async () => {
+      const stats = { promptTokens: 42, completionTokens: 10, timeToFirstTokenMs: 150, tokensPerSecond: 25 };
+      mockPrisma.message.update.mockResolvedValue({ id: 2, content: 'Reply', interrupted: false, ...stats });
+
+      await chatService.updateMessage(2, 'Reply', false, stats);
+
+      expect(mockPrisma.message.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { content: 'Reply', interrupted: false, ...stats },
+      });
+    });
+
     it('should throw error if message update fails', async () => {
       mockPrisma.message.update.mockRejectedValue(new Error('Update failed'));
 
@@ -355,26 +772,81 @@ describe('ChatService', () => {
     });
   });
 
+  describe('updateMessageSummary', () => {
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+    });
+
+    it('should store the summary without changing the message', async () => {
+      const mockUpdatedMessage = { id: 4, chatId: 1, content: 'Sure', role: 'assistant' as const, summary: 'Trip to Lyon' };
+      mockPrisma.message.update.mockResolvedValue(mockUpdatedMessage);
+
+      const result = await chatService.updateMessageSummary(4, 'Trip to Lyon');
+
+      expect(mockPrisma.message.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { summary: 'Trip to Lyon' },
+      });
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(result).toEqual(mockUpdatedMessage);
+    });
+
+    it('should throw error if the summary cannot be stored', async () => {
+      mockPrisma.message.update.mockRejectedValue(new Error('Update failed'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(chatService.updateMessageSummary(4, 'Trip to Lyon')).rejects.toThrow('Update failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to update message summary:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('getMessages', () => {
     beforeEach(async () => {
       mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
       await chatService.initialize();
     });
 
-    it('should get all messages for a chat', async () => {
+    it('should get the messages of the active branch', async () => {
+      const attachments = [{ id: 4, name: 'notes.md', kind: 'markdown', size: 12 }];
       const mockMessages = [
-        { id: 1, chatId: 1, content: 'Hello', role: 'user', createdAt: new Date() },
-        { id: 2, chatId: 1, content: 'Hi', role: 'assistant', createdAt: new Date() },
+        { id: 1, chatId: 1, content: 'Hello', role: 'user', parentId: null, createdAt: new Date(), attachments },
+        { id: 2, chatId: 1, content: 'Hi', role: 'assistant', parentId: 1, createdAt: new Date(), attachments: [] },
+        { id: 3, chatId: 1, content: 'Hey', role: 'assistant', parentId: 1, createdAt: new Date(), attachments: [] },
       ];
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: 2 });
       mockPrisma.message.findMany.mockResolvedValue(mockMessages);
 
       const result = await chatService.getMessages(1);
 
       expect(mockPrisma.message.findMany).toHaveBeenCalledWith({
         where: { chatId: 1 },
-        orderBy: { createdAt: 'asc' },
+        orderBy: { id: 'asc' },
+        include: {
+          attachments: {
+            select: { id: true, name: true, kind: true, size: true },
+            orderBy: { id: 'asc' },
+          },
+        },
       });
-      expect(result).toEqual(mockMessages);
+      expect(result).toEqual([
+        { ...mockMessages[0], siblingIds: [1] },
+        { ...mockMessages[1], siblingIds: [2, 3] },
+      ]);
+    });
+
+    it('should show the latest branch when none is active', async () => {
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: null });
+      mockPrisma.message.findMany.mockResolvedValue([
+        { id: 1, chatId: 1, content: 'Hello', role: 'user', parentId: null },
+        { id: 2, chatId: 1, content: 'Hi', role: 'assistant', parentId: 1 },
+        { id: 3, chatId: 1, content: 'Hey', role: 'assistant', parentId: 1 },
+      ]);
+
+      const result = await chatService.getMessages(1);
+
+      expect(result.map((message) => message.id)).toEqual([1, 3]);
     });
 
     it('should throw error if query fails', async () => {
@@ -384,6 +856,320 @@ describe('ChatService', () => {
     });
   });
 
+  describe('getAttachments', () => {
+    beforeEach(async () => {
+      await chatService.initialize();
+    });
+
+    it('should get the attachments of the given messages', async () => {
+      const attachments = [{ id: 4, messageId: 1, name: 'notes.md', kind: 'markdown', size: 12, content: '# Notes' }];
+      mockPrisma.attachment.findMany.mockResolvedValue(attachments);
+
+      const result = await chatService.getAttachments([1, 3]);
+
+      expect(mockPrisma.attachment.findMany).toHaveBeenCalledWith({
+        where: { messageId: { in: [1, 3] } },
+        orderBy: { id: 'asc' },
+      });
+      expect(result).toEqual(attachments);
+    });
+
+    it('should throw error if query fails', async () => {
+      mockPrisma.attachment.findMany.mockRejectedValue(new Error('Query failed'));
+
+      await expect(chatService.getAttachments([1])).rejects.toThrow('Query failed');
+    });
+  });
+
+  describe('getMessage', () => {
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+    });
+
+    it('should get a message by id', async () => {
+      const mockMessage = { id: 2, chatId: 1, content: 'Hi', role: 'assistant', parentId: 1 };
+      mockPrisma.message.findUnique.mockResolvedValue(mockMessage);
+
+      const result = await chatService.getMessage(2);
+
+      expect(mockPrisma.message.findUnique).toHaveBeenCalledWith({ where: { id: 2 } });
+      expect(result).toEqual(mockMessage);
+    });
+
+    it('should throw error if query fails', async () => {
+      mockPrisma.message.findUnique.mockRejectedValue(new Error('Query failed'));
+
+      await expect(chatService.getMessage(2)).rejects.toThrow('Query failed');
+    });
+  });
+
+  describe('switchBranch', () => {
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+    });
+
+    it('should activate the newest leaf below the selected message', async () => {
+      const tree = [
+        { id: 1, parentId: null },
+        { id: 2, parentId: 1 },
+        { id: 3, parentId: 2 },
+        { id: 4, parentId: 1 },
+        { id: 5, parentId: 4 },
+        { id: 6, parentId: 4 },
+      ];
+      mockPrisma.message.findMany
+        .mockResolvedValueOnce(tree)
+        .mockResolvedValueOnce(tree.map((m) => ({ ...m, chatId: 1, content: '', role: 'user' })));
+      mockPrisma.chat.update.mockResolvedValue({});
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: 6 });
+
+      const result = await chatService.switchBranch(1, 4);
+
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { activeMessageId: 6 },
+      });
+      expect(result.map((message) => message.id)).toEqual([1, 4, 6]);
+    });
+
+    it('should reject messages from another chat', async () => {
+      mockPrisma.message.findMany.mockResolvedValue([{ id: 1, parentId: null }]);
+
+      await expect(chatService.switchBranch(1, 99)).rejects.toThrow('Message 99 does not belong to chat 1');
+      expect(mockPrisma.chat.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importChat', () => {
+    const document = {
+      format: 'electron-boilerplate-chat' as const,
+      version: 1,
+      exportedAt: '2026-01-03T00:00:00.000Z',
+      chat: {
+        name: 'Imported',
+        systemPrompt: 'Be brief',
+        activeMessageId: 30,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-02T00:00:00.000Z',
+        messages: [
+          { id: 20, parentId: 10, role: 'assistant' as const, content: 'Hi', interrupted: true, createdAt: '2026-01-01T00:01:00.000Z' },
+          { id: 10, parentId: null, role: 'user' as const, content: 'Hello', interrupted: false, createdAt: '2026-01-01T00:00:30.000Z' },
+          { id: 30, parentId: 10, role: 'assistant' as const, content: 'Hey', interrupted: false, createdAt: '2026-01-01T00:02:00.000Z' },
+        ],
+      },
+    };
+
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+    });
+
+    it('should import a version 1 export with the defaults of the newer fields', async () => {
+      let nextId = 100;
+      mockPrisma.chat.create.mockResolvedValue({ id: 7, name: 'Imported' });
+      mockPrisma.message.create.mockImplementation(async () => ({ id: nextId++ }));
+      mockPrisma.chat.update.mockResolvedValue({ id: 7, name: 'Imported', activeMessageId: 102 });
+
+      const result = await chatService.importChat(document);
+
+      expect(mockDatabase.transaction).toHaveBeenCalled();
+      expect(mockPrisma.chat.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Imported',
+          nameSetByUser: false,
+          systemPrompt: 'Be brief',
+          createdAt: new Date('2026-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+        },
+      });
+      expect(mockPrisma.message.create.mock.calls.map(([args]: any[]) => args.data)).toEqual([
+        { chatId: 7, content: 'Hello', role: 'user', interrupted: false, toolCall: null, sources: null, summary: null, parentId: null, createdAt: new Date('2026-01-01T00:00:30.000Z') },
+        { chatId: 7, content: 'Hi', role: 'assistant', interrupted: true, toolCall: null, sources: null, summary: null, parentId: 100, createdAt: new Date('2026-01-01T00:01:00.000Z') },
+        { chatId: 7, content: 'Hey', role: 'assistant', interrupted: false, toolCall: null, sources: null, summary: null, parentId: 100, createdAt: new Date('2026-01-01T00:02:00.000Z') },
+      ]);
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { activeMessageId: 102, updatedAt: new Date('2026-01-02T00:00:00.000Z') },
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 7, 'Imported');
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 101, 'Hi', 7);
+      expect(result).toEqual({ id: 7, name: 'Imported', activeMessageId: 102 });
+    });
+
+    it('should keep everything an export holds through a round trip', async () => {
+      const createdAt = new Date('2026-01-01T00:00:00.000Z');
+      const sources = [{ index: 1, path: '/docs/plan.md', name: 'plan.md', position: 0, content: 'Leave on Friday', score: 0.8 }];
+      const stats = { promptTokens: 120, completionTokens: 30, timeToFirstTokenMs: 250, tokensPerSecond: 12.5 };
+      const message = {
+        chatId: 1, interrupted: false, toolCall: null, promptTokens: null, completionTokens: null,
+        timeToFirstTokenMs: null, tokensPerSecond: null, sources: null, summary: null, createdAt,
+      };
+      const exported = {
+        id: 1, name: 'Trip', nameSetByUser: true, systemPrompt: null, activeMessageId: 2, knowledgeBase: true,
+        pinned: false, archived: false, tags: '[]', folderId: null, createdAt, updatedAt: createdAt,
+        messages: [
+          { ...message, id: 1, role: 'user' as const, content: 'When do we leave?', parentId: null },
+          {
+            ...message, id: 2, role: 'assistant' as const, content: 'On Friday [1]', parentId: 1,
+            ...stats, sources: JSON.stringify(sources), summary: 'The user plans a trip',
+          },
+        ],
+      };
+      const attachments = [{ id: 5, messageId: 1, name: 'notes.txt', kind: 'text' as const, size: 9, content: 'Bring tea', createdAt }];
+      let nextId = 100;
+      mockPrisma.chat.create.mockResolvedValue({ id: 7, name: 'Trip' });
+      mockPrisma.message.create.mockImplementation(async () => ({ id: nextId++ }));
+      mockPrisma.chat.update.mockResolvedValue({ id: 7, name: 'Trip', activeMessageId: 101 });
+
+      await chatService.importChat(parseChatJson(chatToJson(exported, attachments)));
+
+      expect(mockPrisma.chat.create.mock.calls[0][0].data.nameSetByUser).toBe(true);
+      const [question, reply] = mockPrisma.message.create.mock.calls.map(([args]: any[]) => args.data);
+      expect(question.attachments).toEqual({ create: [{ name: 'notes.txt', kind: 'text', size: 9, content: 'Bring tea' }] });
+      expect(reply).toEqual(expect.objectContaining({
+        ...stats,
+        sources: JSON.stringify(sources),
+        summary: 'The user plans a trip',
+        parentId: 100,
+      }));
+      expect(reply.attachments).toBeUndefined();
+    });
+
+    it('should rebuild a chat whose reply was moved under a later tool message', async () => {
+      const createdAt = new Date('2026-01-01T00:00:00.000Z');
+      const message = {
+        chatId: 1, interrupted: false, toolCall: null, promptTokens: null, completionTokens: null,
+        timeToFirstTokenMs: null, tokensPerSecond: null, sources: null, summary: null, createdAt,
+      };
+      const toolCall = { name: 'get_current_time', params: {}, status: 'completed' as const };
+      const exported = {
+        id: 1, name: 'Time', nameSetByUser: false, systemPrompt: null, activeMessageId: 2, knowledgeBase: false,
+        pinned: false, archived: false, tags: '[]', folderId: null, createdAt, updatedAt: createdAt,
+        messages: [
+          { ...message, id: 1, role: 'user' as const, content: 'What time is it?', parentId: null },
+          { ...message, id: 2, role: 'assistant' as const, content: 'It is noon', parentId: 3 },
+          { ...message, id: 3, role: 'tool' as const, content: '{"time":"12:00"}', parentId: 1, toolCall: JSON.stringify(toolCall) },
+        ],
+      };
+      let nextId = 100;
+      mockPrisma.chat.create.mockResolvedValue({ id: 7, name: 'Time' });
+      mockPrisma.message.create.mockImplementation(async () => ({ id: nextId++ }));
+      mockPrisma.chat.update.mockResolvedValue({ id: 7, name: 'Time', activeMessageId: 102 });
+
+      await chatService.importChat(parseChatJson(chatToJson(exported)));
+
+      expect(mockPrisma.message.create.mock.calls.map(([args]: any[]) => [args.data.role, args.data.parentId])).toEqual([
+        ['user', null],
+        ['tool', 100],
+        ['assistant', 101],
+      ]);
+      expect(mockPrisma.message.create.mock.calls[1][0].data.toolCall).toBe(JSON.stringify(toolCall));
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { activeMessageId: 102, updatedAt: createdAt },
+      });
+    });
+
+    it('should import a chat without messages', async () => {
+      mockPrisma.chat.create.mockResolvedValue({ id: 8 });
+      mockPrisma.chat.update.mockResolvedValue({ id: 8 });
+
+      await chatService.importChat({
+        ...document,
+        chat: { ...document.chat, systemPrompt: null, activeMessageId: null, messages: [] },
+      });
+
+      expect(mockPrisma.message.create).not.toHaveBeenCalled();
+      expect(mockPrisma.chat.update).toHaveBeenCalledWith({
+        where: { id: 8 },
+        data: { activeMessageId: null, updatedAt: new Date('2026-01-02T00:00:00.000Z') },
+      });
+    });
+
+    it('should throw error if import fails', async () => {
+      mockDatabase.transaction.mockRejectedValue(new Error('Import failed'));
+
+      await expect(chatService.importChat(document)).rejects.toThrow('Import failed');
+    });
+  });
+
+  describe('searchChats', () => {
+    beforeEach(async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+      await chatService.initialize();
+      mockPrisma.$queryRaw.mockReset();
+    });
+
+    it('should merge chat and message matches by rank', async () => {
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([
+          { chatId: BigInt(2), chatName: 'Pancakes', messageId: null, role: null, snippet: '\u0002Pancakes\u0003', rank: -0.5 },
+        ])
+        .mockResolvedValueOnce([
+          { chatId: 1, chatName: 'Cooking', messageId: BigInt(7), role: 'assistant', snippet: 'Use \u0002pancake\u0003 mix', rank: -2 },
+          { chatId: 1, chatName: 'Cooking', messageId: 3, role: 'user', snippet: '\u0002pancakes\u0003?', rank: -0.1 },
+        ]);
+
+      const results = await chatService.searchChats('pancake');
+
+      expect(results).toEqual([
+        {
+          chatId: 1,
+          chatName: 'Cooking',
+          messageId: 7,
+          role: 'assistant',
+          snippet: [{ text: 'Use ', match: false }, { text: 'pancake', match: true }, { text: ' mix', match: false }],
+          rank: -2,
+        },
+        { chatId: 2, chatName: 'Pancakes', messageId: null, role: null, snippet: [{ text: 'Pancakes', match: true }], rank: -0.5 },
+        {
+          chatId: 1,
+          chatName: 'Cooking',
+          messageId: 3,
+          role: 'user',
+          snippet: [{ text: 'pancakes', match: true }, { text: '?', match: false }],
+          rank: -0.1,
+        },
+      ]);
+    });
+
+    it('should query both indexes with the escaped query', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([]);
+
+      await chatService.searchChats('say "hi', 10);
+
+      const sql = rawSql(mockPrisma.$queryRaw);
+      expect(sql[0]).toContain('FROM "chats_fts" JOIN "chats"');
+      expect(sql[1]).toContain('FROM "messages_fts" JOIN "messages"');
+      expect(mockPrisma.$queryRaw.mock.calls[1]).toContain('"say" """hi"*');
+      expect(mockPrisma.$queryRaw.mock.calls[1]).toContain(10);
+    });
+
+    it('should limit the merged results', async () => {
+      const row = (rank: number) => ({ chatId: 1, chatName: 'Chat', messageId: rank, role: 'user', snippet: 'x', rank });
+      mockPrisma.$queryRaw.mockResolvedValueOnce([row(-1)]).mockResolvedValueOnce([row(-3), row(-2)]);
+
+      const results = await chatService.searchChats('x', 2);
+
+      expect(results.map((result) => result.rank)).toEqual([-3, -2]);
+    });
+
+    it('should return no results for a blank query', async () => {
+      const results = await chatService.searchChats('   ');
+
+      expect(results).toEqual([]);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if search fails', async () => {
+      mockPrisma.$queryRaw.mockRejectedValue(new Error('fts5: syntax error'));
+
+      await expect(chatService.searchChats('x')).rejects.toThrow('fts5: syntax error');
+    });
+  });
+
   describe('getMessageCount', () => {
     beforeEach(async () => {
       mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
@@ -442,6 +1228,13 @@ describe('ChatService', () => {
       expect(result).toBe(false);
     });
 
+    it('should return false when the user chose "New Chat" as name', async () => {
+      mockPrisma.message.count.mockResolvedValue(4);
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, name: 'New Chat', nameSetByUser: true });
+
+      await expect(chatService.shouldAutoNameChat(1)).resolves.toBe(false);
+    });
+
     it('should return false when chat name is not "New Chat"', async () => {
       mockPrisma.message.count.mockResolvedValue(4);
       mockPrisma.chat.findUnique.mockResolvedValue({
@@ -465,68 +1258,344 @@ describe('ChatService', () => {
     });
   });
 
-  describe('close', () => {
-    it('should disconnect prisma when initialized', async () => {
-      mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+  describe('encryption', () => {
+    const passphrase = 'correct horse battery';
+    const salt = 'c2FsdHNhbHRzYWx0c2FsdA==';
+    const kdfParams = '{"N":1024,"r":8,"p":1}';
+    let key: Buffer;
+    let settings: { id: number; salt: string; kdfParams: string; verifier: string };
+
+    beforeAll(async () => {
+      key = await deriveKey(passphrase, salt, { N: 1024, r: 8, p: 1 });
+      settings = { id: 1, salt, kdfParams, verifier: createVerifier(key) };
+    });
+
+    const initializeEncrypted = async (unlocked: boolean = true) => {
+      mockPrisma.chatEncryption.findUnique.mockResolvedValue(settings);
       await chatService.initialize();
+      if (unlocked) {
+        await chatService.unlock(passphrase);
+      }
+    };
 
-      await chatService.close();
+    it('should report a history stored in clear', async () => {
+      await chatService.initialize();
 
-      expect(mockPrisma.$disconnect).toHaveBeenCalled();
+      expect(mockPrisma.chatEncryption.findUnique).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(chatService.getEncryptionStatus()).toEqual({ enabled: false, locked: false });
     });
 
-    it('should not disconnect when not initialized', async () => {
-      await chatService.close();
+    it('should be locked until unlocked with the right passphrase', async () => {
+      await initializeEncrypted(false);
+      expect(chatService.getEncryptionStatus()).toEqual({ enabled: true, locked: true });
+
+      await expect(chatService.unlock('wrong passphrase')).resolves.toBe(false);
+      expect(chatService.getEncryptionStatus().locked).toBe(true);
+
+      await expect(chatService.unlock(passphrase)).resolves.toBe(true);
+      expect(chatService.getEncryptionStatus()).toEqual({ enabled: true, locked: false });
 
-      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+      chatService.lock();
+      expect(chatService.getEncryptionStatus().locked).toBe(true);
     });
-  });
 
-  describe('getDatabaseUrl', () => {
-    it('should return dev path in development', () => {
-      process.env.NODE_ENV = 'development';
-      const service = new ChatService();
-      const url = (service as any).getDatabaseUrl();
+    it('should refuse to read or write the history while locked', async () => {
+      await initializeEncrypted(false);
+      mockPrisma.chat.findMany.mockResolvedValue([{ id: 1, name: encryptText(key, 'Secret') }]);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
-      expect(url).toContain('prisma/database.db');
+      await expect(chatService.getAllChats()).rejects.toThrow('Chat history is locked');
+      await expect(chatService.createChat('Secret')).rejects.toThrow('Chat history is locked');
+      expect(mockPrisma.chat.create).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
     });
 
-    it('should return userData path in production', () => {
-      process.env.NODE_ENV = 'production';
-      const service = new ChatService();
-      const url = (service as any).getDatabaseUrl();
+    it('should store chat names encrypted and keep them out of the search index', async () => {
+      await initializeEncrypted();
+      mockPrisma.chat.create.mockImplementation(async ({ data }: any) => ({ id: 1, ...data }));
+
+      const chat = await chatService.createChat('Tax return');
 
-      expect(url).toContain('/mock/user/data');
+      const stored = mockPrisma.chat.create.mock.calls[0][0].data.name;
+      expect(isEncryptedText(stored)).toBe(true);
+      expect(decryptText(key, stored)).toBe('Tax return');
+      expect(chat.name).toBe('Tax return');
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
     });
-  });
 
-  describe('getDatabasePath', () => {
-    it('should return dev path in development', () => {
-      const originalEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = 'development';
+    it('should store message contents encrypted', async () => {
+      await initializeEncrypted();
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: null });
+      mockPrisma.message.findFirst.mockResolvedValue(null);
+      mockPrisma.message.create.mockImplementation(async ({ data }: any) => ({ id: 7, ...data }));
+      mockPrisma.message.update.mockImplementation(async ({ data }: any) => ({ id: 7, chatId: 1, ...data }));
+
+      const message = await chatService.createMessage({ chatId: 1, content: 'My salary is 42', role: 'user' });
+      const updated = await chatService.updateMessage(7, 'My salary is 43');
+
+      expect(decryptText(key, mockPrisma.message.create.mock.calls[0][0].data.content)).toBe('My salary is 42');
+      expect(decryptText(key, mockPrisma.message.update.mock.calls[0][0].data.content)).toBe('My salary is 43');
+      expect(message.content).toBe('My salary is 42');
+      expect(updated.content).toBe('My salary is 43');
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+
+    it('should store summaries encrypted', async () => {
+      await initializeEncrypted();
+      mockPrisma.message.update.mockImplementation(async ({ data }: any) => ({ id: 7, content: encryptText(key, 'Sure'), ...data }));
+
+      const message = await chatService.updateMessageSummary(7, 'The user earns 42');
+
+      expect(decryptText(key, mockPrisma.message.update.mock.calls[0][0].data.summary)).toBe('The user earns 42');
+      expect(message.summary).toBe('The user earns 42');
+      expect(message.content).toBe('Sure');
+    });
+
+    it('should store attachments, knowledge sources and tool calls encrypted', async () => {
+      await initializeEncrypted();
+      const sources = [{ index: 1, path: '/docs/payslip.pdf', name: 'payslip.pdf', position: 0, content: 'Net salary: 42', score: 0.9 }];
+      const toolCall = { name: 'search_chats', params: { query: 'salary' } };
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, activeMessageId: 4 });
+      mockPrisma.message.create.mockImplementation(async ({ data }: any) => ({ id: 7, chatId: 1, ...data }));
+      mockPrisma.message.findUnique.mockResolvedValue({ id: 8, chatId: 1, parentId: 7 });
+      mockPrisma.chat.update.mockResolvedValue({});
+      mockPrisma.message.update.mockResolvedValue({});
+
+      const reply = await chatService.createMessage({
+        chatId: 1,
+        content: 'You earn 42',
+        role: 'assistant',
+        sources,
+        attachments: [{ name: 'payslip.txt', kind: 'text', size: 14, content: 'Net salary: 42' }],
+      });
+      const tool = await chatService.createToolMessage(8, '"Net salary: 42"', toolCall);
+
+      const { data: replyData } = mockPrisma.message.create.mock.calls[0][0];
+      const { data: toolData } = mockPrisma.message.create.mock.calls[1][0];
+      expect(decryptText(key, replyData.sources)).toBe(JSON.stringify(sources));
+      expect(decryptText(key, replyData.attachments.create[0].content)).toBe('Net salary: 42');
+      expect(decryptText(key, toolData.toolCall)).toBe(JSON.stringify(toolCall));
+      expect(JSON.parse(reply.sources!)).toEqual(sources);
+      expect(JSON.parse(tool.toolCall!)).toEqual(toolCall);
+
+      mockPrisma.attachment.findMany.mockResolvedValue([
+        { id: 3, messageId: 7, name: 'payslip.txt', kind: 'text', size: 14, content: encryptText(key, 'Net salary: 42') },
+      ]);
 
-      const service = new ChatService();
-      const dbPath = (service as any).getDatabasePath();
+      const attachments = await chatService.getAttachments([7]);
 
-      expect(dbPath).toContain('prisma/database.db');
-      process.env.NODE_ENV = originalEnv;
+      expect(attachments[0].content).toBe('Net salary: 42');
     });
 
-    it('should return userData path in production', () => {
-      const originalEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = 'production';
+    it('should decrypt the history, keeping values written before encryption as they are', async () => {
+      await initializeEncrypted();
+      mockPrisma.chat.findMany.mockResolvedValue([
+        { id: 1, name: encryptText(key, 'Tax return') },
+        { id: 2, name: 'Older chat' },
+      ]);
 
-      const service = new ChatService();
-      const dbPath = (service as any).getDatabasePath();
+      const chats = await chatService.getAllChats();
+
+      expect(chats.map((chat) => chat.name)).toEqual(['Tax return', 'Older chat']);
+    });
+
+    it('should search the decrypted history in memory', async () => {
+      await initializeEncrypted();
+      mockPrisma.chat.findMany.mockResolvedValue([
+        { id: 1, name: encryptText(key, 'Tax return') },
+        { id: 2, name: encryptText(key, 'Holidays') },
+      ]);
+      mockPrisma.message.findMany.mockResolvedValue([
+        { id: 5, chatId: 2, role: 'user', content: encryptText(key, 'Book a tax-free shop visit, tax refund') },
+        { id: 6, chatId: 2, role: 'assistant', content: encryptText(key, 'Sure') },
+      ]);
+
+      const results = await chatService.searchChats('tax');
+
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+      expect(results.map((result) => [result.chatId, result.messageId, result.rank])).toEqual([
+        [2, 5, -2],
+        [1, null, -1],
+      ]);
+      expect(results[0].chatName).toBe('Holidays');
+      expect(results[1].snippet).toEqual([
+        { text: 'Tax', match: true },
+        { text: ' return', match: false },
+      ]);
+    });
 
-      expect(dbPath).toContain('/mock/user/data/database.db');
-      process.env.NODE_ENV = originalEnv;
+    it('should still auto-name an encrypted "New Chat"', async () => {
+      await initializeEncrypted();
+      mockPrisma.message.count.mockResolvedValue(4);
+      mockPrisma.chat.findUnique.mockResolvedValue({ id: 1, name: encryptText(key, 'New Chat') });
+
+      await expect(chatService.shouldAutoNameChat(1)).resolves.toBe(true);
+    });
+
+    describe('enableEncryption', () => {
+      const updatedAt = new Date('2025-03-01T10:00:00Z');
+
+      beforeEach(async () => {
+        await chatService.initialize();
+        mockPrisma.chat.findMany.mockResolvedValue([{ id: 1, name: 'Tax return', updatedAt }]);
+        mockPrisma.message.findMany.mockResolvedValue([
+          { id: 5, content: 'My salary is 42', summary: 'The user earns 42', sources: '[{"name":"payslip.pdf"}]', toolCall: null },
+          { id: 6, content: '"42"', summary: null, sources: null, toolCall: '{"name":"search_chats","params":{"query":"salary"}}' },
+        ]);
+        mockPrisma.attachment.findMany.mockResolvedValue([{ id: 3, content: 'Net salary: 42' }]);
+        mockPrisma.chat.update.mockResolvedValue({});
+        mockPrisma.message.update.mockResolvedValue({});
+        mockPrisma.attachment.update.mockResolvedValue({});
+      });
+
+      it('should encrypt the whole history and empty the search index', async () => {
+        await chatService.enableEncryption(passphrase);
+
+        const { data: chatData } = mockPrisma.chat.update.mock.calls[0][0];
+        const { data: messageData } = mockPrisma.message.update.mock.calls[0][0];
+        const { data: toolData } = mockPrisma.message.update.mock.calls[1][0];
+        const { data: attachmentData } = mockPrisma.attachment.update.mock.calls[0][0];
+        const { data: created } = mockPrisma.chatEncryption.create.mock.calls[0][0];
+        const newKey = await deriveKey(passphrase, created.salt, JSON.parse(created.kdfParams));
+
+        expect(decryptText(newKey, chatData.name)).toBe('Tax return');
+        expect(chatData.updatedAt).toBe(updatedAt);
+        expect(decryptText(newKey, messageData.content)).toBe('My salary is 42');
+        expect(decryptText(newKey, messageData.summary)).toBe('The user earns 42');
+        expect(decryptText(newKey, messageData.sources)).toBe('[{"name":"payslip.pdf"}]');
+        expect(messageData.toolCall).toBeNull();
+        expect(decryptText(newKey, toolData.toolCall)).toBe('{"name":"search_chats","params":{"query":"salary"}}');
+        expect(decryptText(newKey, attachmentData.content)).toBe('Net salary: 42');
+        expect(mockPrisma.attachment.update.mock.calls[0][0].where).toEqual({ id: 3 });
+        expect(created.id).toBe(1);
+        expect(rawSql(mockPrisma.$executeRaw)).toEqual(['DELETE FROM "chats_fts"', 'DELETE FROM "messages_fts"']);
+        expect(mockDatabase.transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 300000 });
+        expect(mockDatabase.compact).toHaveBeenCalled();
+        expect(chatService.getEncryptionStatus()).toEqual({ enabled: true, locked: false });
+      });
+
+      it('should refuse a short passphrase', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+        await expect(chatService.enableEncryption('short')).rejects.toThrow('Passphrase must be at least 8 characters');
+        expect(mockDatabase.transaction).not.toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+
+      it('should leave the history in clear when rewriting it fails', async () => {
+        mockPrisma.message.update.mockRejectedValue(new Error('Disk full'));
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+        await expect(chatService.enableEncryption(passphrase)).rejects.toThrow('Disk full');
+        expect(chatService.getEncryptionStatus()).toEqual({ enabled: false, locked: false });
+        expect(mockDatabase.compact).not.toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+
+      it('should refuse to encrypt an encrypted history again', async () => {
+        const service = new ChatService(mockDatabase);
+        mockPrisma.chatEncryption.findUnique.mockResolvedValue(settings);
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+        await expect(service.enableEncryption(passphrase)).rejects.toThrow('Chat history is already encrypted');
+        consoleSpy.mockRestore();
+      });
+    });
+
+    describe('changePassphrase', () => {
+      beforeEach(async () => {
+        await initializeEncrypted();
+        mockPrisma.chat.findMany.mockResolvedValue([
+          { id: 1, name: encryptText(key, 'Tax return'), updatedAt: new Date() },
+        ]);
+        mockPrisma.message.findMany.mockResolvedValue([
+          { id: 5, content: encryptText(key, 'My salary is 42'), summary: null, sources: null, toolCall: null },
+        ]);
+        mockPrisma.attachment.findMany.mockResolvedValue([]);
+        mockPrisma.chat.update.mockResolvedValue({});
+        mockPrisma.message.update.mockResolvedValue({});
+      });
+
+      it('should encrypt the history again with the new passphrase', async () => {
+        await chatService.changePassphrase(passphrase, 'new passphrase!');
+
+        const { data } = mockPrisma.chatEncryption.update.mock.calls[0][0];
+        const newKey = await deriveKey('new passphrase!', data.salt, JSON.parse(data.kdfParams));
+        const { data: messageData } = mockPrisma.message.update.mock.calls[0][0];
+
+        expect(data.salt).not.toBe(salt);
+        expect(decryptText(newKey, messageData.content)).toBe('My salary is 42');
+        expect(messageData.summary).toBeNull();
+        expect(() => decryptText(key, messageData.content)).toThrow();
+        expect(mockDatabase.compact).toHaveBeenCalled();
+
+        chatService.lock();
+        await expect(chatService.unlock(passphrase)).resolves.toBe(false);
+        await expect(chatService.unlock('new passphrase!')).resolves.toBe(true);
+      });
+
+      it('should refuse a wrong current passphrase', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+        await expect(chatService.changePassphrase('wrong passphrase', 'new passphrase!')).rejects.toThrow('Wrong passphrase');
+        expect(mockDatabase.transaction).not.toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+    });
+
+    describe('disableEncryption', () => {
+      beforeEach(async () => {
+        await initializeEncrypted();
+        mockPrisma.chat.findMany.mockResolvedValue([
+          { id: 1, name: encryptText(key, 'Tax return'), updatedAt: new Date() },
+        ]);
+        mockPrisma.message.findMany.mockResolvedValue([
+          {
+            id: 5,
+            content: encryptText(key, 'My salary is 42'),
+            summary: encryptText(key, 'The user earns 42'),
+            sources: encryptText(key, '[{"name":"payslip.pdf"}]'),
+            toolCall: null,
+          },
+        ]);
+        mockPrisma.attachment.findMany.mockResolvedValue([{ id: 3, content: encryptText(key, 'Net salary: 42') }]);
+        mockPrisma.chat.update.mockResolvedValue({});
+        mockPrisma.message.update.mockResolvedValue({});
+        mockPrisma.attachment.update.mockResolvedValue({});
+      });
+
+      it('should store the history in clear again and rebuild the search index', async () => {
+        await chatService.disableEncryption(passphrase);
+
+        expect(mockPrisma.chat.update.mock.calls[0][0].data.name).toBe('Tax return');
+        expect(mockPrisma.message.update.mock.calls[0][0].data.content).toBe('My salary is 42');
+        expect(mockPrisma.message.update.mock.calls[0][0].data.summary).toBe('The user earns 42');
+        expect(mockPrisma.message.update.mock.calls[0][0].data.sources).toBe('[{"name":"payslip.pdf"}]');
+        expect(mockPrisma.attachment.update.mock.calls[0][0].data.content).toBe('Net salary: 42');
+        expect(rawSql(mockPrisma.$executeRaw)).toEqual([
+          'DELETE FROM "chats_fts"',
+          'DELETE FROM "messages_fts"',
+          'INSERT INTO "chats_fts" ("rowid", "name") SELECT "id", "name" FROM "chats"',
+          'INSERT INTO "messages_fts" ("rowid", "content", "chatId") SELECT "id", "content", "chatId" FROM "messages"',
+        ]);
+        expect(mockPrisma.chatEncryption.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+        expect(chatService.getEncryptionStatus()).toEqual({ enabled: false, locked: false });
+      });
+
+      it('should refuse a wrong passphrase', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+        await expect(chatService.disableEncryption('wrong passphrase')).rejects.toThrow('Wrong passphrase');
+        expect(mockPrisma.chatEncryption.delete).not.toHaveBeenCalled();
+        expect(chatService.getEncryptionStatus().enabled).toBe(true);
+        consoleSpy.mockRestore();
+      });
     });
   });
 
   describe('ensureInitialized', () => {
     it('should call initialize if not already initialized', async () => {
-      const service = new ChatService();
+      const service = new ChatService(mockDatabase);
       (service as any).initialized = false;
 
       const initializeSpy = jest.spyOn(service, 'initialize');
@@ -536,7 +1605,7 @@ describe('ChatService', () => {
     });
 
     it('should not call initialize if already initialized', async () => {
-      const service = new ChatService();
+      const service = new ChatService(mockDatabase);
       await service.initialize();
 
       const initializeSpy = jest.spyOn(service, 'initialize');
@@ -1,78 +1,207 @@
-import { PrismaClient } from '../generated/prisma';
-import * as path from 'path';
-import * as fs from 'fs';
-import { app } from 'electron';
+import type { PrismaClient } from '../generated/prisma';
+import { databaseService } from './database.service';
+import type { DatabaseService, TransactionClient } from './database.service';
+import {
+  createSalt,
+  createVerifier,
+  decryptText,
+  DEFAULT_KDF_PARAMS,
+  deriveKey,
+  encryptText,
+  isEncryptedText,
+  MIN_PASSPHRASE_LENGTH,
+  parseKdfParams,
+  verifyKey,
+} from './chat.crypto';
+import {
+  findTextMatch,
+  getBranchPath,
+  getLatestLeafId,
+  getSiblingIds,
+  normalizeTags,
+  parseSnippet,
+  SEARCH_MATCH_END,
+  SEARCH_MATCH_START,
+  sortParentsFirst,
+  toFtsQuery,
+} from './chat.service.helpers';
+import type { SnippetSegment } from './chat.service.helpers';
+import type { ChatExportDocument } from './chat.export';
+import type { AttachmentDraft, AttachmentKind } from './attachment.helpers';
+import type { KnowledgeSource } from './knowledge.helpers';
 
 export interface ChatRecord {
   id: number;
   name: string;
+  nameSetByUser: boolean; // false while the name is the default or a generated one
+  systemPrompt: string | null;
+  activeMessageId: number | null;
+  knowledgeBase: boolean; // Replies are grounded in the indexed folders when true
+  pinned: boolean;
+  archived: boolean;
+  tags: string; // JSON array of tag names
+  folderId: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A folder grouping chats in the sidebar
+ */
+export interface ChatFolderRecord {
+  id: number;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * How a chat is organized in the sidebar, changed without touching its conversation
+ */
+type ChatOrganization = Partial<Pick<ChatRecord, 'pinned' | 'archived' | 'tags' | 'folderId'>>;
+
 export interface MessageRecord {
   id: number;
   chatId: number;
-  content: string;
-  role: 'user' | 'assistant';
+  content: string; // For tool messages, the result given back to the model
+  role: 'user' | 'assistant' | 'tool';
+  interrupted: boolean;
+  parentId: number | null;
+  toolCall: string | null; // JSON of a ToolCallRecord, for tool messages only
+  promptTokens: number | null; // Generation stats, for assistant replies only
+  completionTokens: number | null;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+  sources: string | null; // JSON of the KnowledgeSource list cited by an assistant reply
+  summary: string | null; // Summary of the conversation up to this message, sent to the model instead of it
   createdAt: Date;
 }
 
+/**
+ * Measures of how an assistant reply was generated
+ */
+export interface GenerationStats {
+  promptTokens: number;
+  completionTokens: number;
+  timeToFirstTokenMs: number | null; // null when no token was generated
+  tokensPerSecond: number | null;
+}
+
+/**
+ * A tool call made by the model while generating a reply, stored with its result
+ */
+export interface ToolCallRecord {
+  name: string;
+  params: unknown;
+  status: 'completed' | 'denied' | 'failed';
+}
+
+/**
+ * A file attached to a message, without its text
+ */
+export interface AttachmentSummary {
+  id: number;
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+}
+
+export interface AttachmentRecord extends AttachmentSummary {
+  messageId: number;
+  content: string; // Text extracted from the file
+  createdAt: Date;
+}
+
+/**
+ * A message of the active branch along with the ids of its alternative versions
+ * (itself included), used to flip between regenerated or edited variants
+ */
+export interface MessageBranchRecord extends MessageRecord {
+  siblingIds: number[];
+  attachments: AttachmentSummary[];
+}
+
 export interface ChatWithMessages extends ChatRecord {
   messages: MessageRecord[];
 }
 
-export interface CreateMessageRequest {
+/**
+ * A search hit: either a chat whose name matches (messageId is null) or a message
+ */
+export interface ChatSearchResult {
   chatId: number;
-  content: string;
-  role: 'user' | 'assistant';
+  chatName: string;
+  messageId: number | null;
+  role: MessageRecord['role'] | null;
+  snippet: SnippetSegment[];
+  rank: number; // bm25 score, lower is more relevant
 }
 
-export class ChatService {
-  private prisma: PrismaClient;
-  private initialized: boolean = false;
+interface RawSearchRow {
+  chatId: number | bigint;
+  chatName: string;
+  messageId: number | bigint | null;
+  role: MessageRecord['role'] | null;
+  snippet: string;
+  rank: number;
+}
 
-  constructor() {
-    this.prisma = new PrismaClient({
-      datasources: {
-        db: {
-          url: this.getDatabaseUrl(),
-        },
-      },
-    });
-  }
+/**
+ * Whether the chat history is encrypted, and whether its key is in memory
+ */
+export interface EncryptionStatus {
+  enabled: boolean;
+  locked: boolean; // true while encrypted and the passphrase was not given yet
+}
 
-  private getDatabaseUrl(): string {
-    const isDev = process.env.NODE_ENV === 'development';
+interface EncryptionSettings {
+  salt: string;
+  kdfParams: string;
+  verifier: string;
+}
 
-    if (isDev) {
-      const dbPath = path.join(process.cwd(), 'prisma', 'database.db');
-      return `file:${dbPath}`;
-    }
+// Message columns stored encrypted along with the content
+type OpenableMessage = { content: string } & Partial<Pick<MessageRecord, 'summary' | 'sources' | 'toolCall'>>;
 
-    const userDataPath = app.getPath('userData');
-    const dbPath = path.join(userDataPath, 'database.db');
-    return `file:${dbPath}`;
-  }
+// The settings row of the encrypted history
+const ENCRYPTION_SETTINGS_ID = 1;
 
-  private getDatabasePath(): string {
-    const isDev = process.env.NODE_ENV === 'development';
+// Encrypting or decrypting a long history rewrites every message in one transaction
+const HISTORY_REWRITE_TIMEOUT_MS = 5 * 60 * 1000;
 
-    if (isDev) {
-      return path.join(process.cwd(), 'prisma', 'database.db');
-    }
+export interface CreateMessageRequest {
+  chatId: number;
+  content: string;
+  role: 'user' | 'assistant';
+  parentId?: number | null; // Defaults to the leaf of the active branch
+  attachments?: AttachmentDraft[];
+  sources?: KnowledgeSource[]; // Knowledge base excerpts given to the model for an assistant reply
+}
+
+/**
+ * Stores the chats and their messages.
+ * When the history is encrypted, chat names and message contents are stored encrypted
+ * with a key derived from the user's passphrase. The key is only kept in memory, and
+ * the search index is left empty as it would hold the text in clear.
+ */
+export class ChatService {
+  private prisma: PrismaClient;
+  private initialized: boolean = false;
+  private encryption: EncryptionSettings | null = null;
+  private encryptionKey: Buffer | null = null;
 
-    const userDataPath = app.getPath('userData');
-    return path.join(userDataPath, 'database.db');
+  constructor(private readonly database: DatabaseService = databaseService) {
+    this.prisma = database.client;
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      await this.ensureDatabaseExists();
-      await this.prisma.$connect();
-      await this.ensureTablesExist();
+      // The schema is created by the migrations
+      await this.database.connect();
+      this.encryption = await this.prisma.chatEncryption.findUnique({
+        where: { id: ENCRYPTION_SETTINGS_ID },
+      });
 
       this.initialized = true;
       console.log('Chat service initialized successfully');
@@ -82,59 +211,21 @@ export class ChatService {
     }
   }
 
-  private async ensureDatabaseExists(): Promise<void> {
-    const dbPath = this.getDatabasePath();
-    const dbDir = path.dirname(dbPath);
-
-    if (!fs.existsSync(dbDir)) {
-      fs.mkdirSync(dbDir, { recursive: true });
-    }
-
-    if (!fs.existsSync(dbPath)) {
-      console.log('Creating new database at:', dbPath);
-    }
-  }
-
-  private async ensureTablesExist(): Promise<void> {
-    try {
-      await this.prisma.$queryRaw`SELECT 1 FROM chats LIMIT 1`;
-      console.log('Chat tables exist');
-    } catch (error) {
-      console.log('Creating chat tables...');
-      await this.prisma.$executeRaw`
-        CREATE TABLE IF NOT EXISTS "chats" (
-          "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-          "name" TEXT NOT NULL DEFAULT 'New Chat',
-          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-          "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
-
-      await this.prisma.$executeRaw`
-        CREATE TABLE IF NOT EXISTS "messages" (
-          "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-          "chatId" INTEGER NOT NULL,
-          "content" TEXT NOT NULL,
-          "role" TEXT NOT NULL,
-          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY ("chatId") REFERENCES "chats"("id") ON DELETE CASCADE
-        )
-      `;
-      console.log('Chat tables created successfully');
-    }
-  }
-
   async createChat(name?: string): Promise<ChatRecord> {
     await this.ensureInitialized();
 
     try {
+      const chatName = name || 'New Chat';
       const chat = await this.prisma.chat.create({
         data: {
-          name: name || 'New Chat',
+          name: this.seal(chatName),
         },
       });
+      if (!this.encryption) {
+        await this.prisma.$executeRaw`INSERT INTO "chats_fts" ("rowid", "name") VALUES (${chat.id}, ${chatName})`;
+      }
 
-      return chat;
+      return this.openChat(chat);
     } catch (error) {
       console.error('Failed to create chat:', error);
       throw error;
@@ -154,7 +245,11 @@ export class ChatService {
         },
       });
 
-      return chat as ChatWithMessages | null;
+      if (!chat) return null;
+      return {
+        ...this.openChat(chat),
+        messages: chat.messages.map((message) => this.openMessage(message as MessageRecord)),
+      };
     } catch (error) {
       console.error('Failed to get chat:', error);
       throw error;
@@ -169,35 +264,209 @@ export class ChatService {
         orderBy: { updatedAt: 'desc' },
       });
 
-      return chats;
+      return chats.map((chat) => this.openChat(chat));
     } catch (error) {
       console.error('Failed to get all chats:', error);
       throw error;
     }
   }
 
-  async updateChatName(chatId: number, name: string): Promise<ChatRecord> {
+  /**
+   * Rename a chat. A generated name (`setByUser` false) never replaces one the user chose:
+   * the chat is returned unchanged instead.
+   */
+  async updateChatName(chatId: number, name: string, setByUser: boolean = true): Promise<ChatRecord> {
     await this.ensureInitialized();
 
     try {
+      if (!setByUser) {
+        const current = await this.prisma.chat.findUnique({ where: { id: chatId } });
+        if (current?.nameSetByUser) {
+          return this.openChat(current);
+        }
+      }
+
       const chat = await this.prisma.chat.update({
         where: { id: chatId },
-        data: { name },
+        data: { name: this.seal(name), nameSetByUser: setByUser },
       });
+      if (!this.encryption) {
+        await this.prisma.$executeRaw`UPDATE "chats_fts" SET "name" = ${name} WHERE "rowid" = ${chatId}`;
+      }
 
-      return chat;
+      return this.openChat(chat);
     } catch (error) {
       console.error('Failed to update chat name:', error);
       throw error;
     }
   }
 
-  async deleteChat(chatId: number): Promise<void> {
+  async updateChatSystemPrompt(chatId: number, systemPrompt: string | null): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      const chat = await this.prisma.chat.update({
+        where: { id: chatId },
+        data: { systemPrompt: systemPrompt?.trim() || null },
+      });
+
+      return this.openChat(chat);
+    } catch (error) {
+      console.error('Failed to update chat system prompt:', error);
+      throw error;
+    }
+  }
+
+  async updateChatKnowledgeBase(chatId: number, enabled: boolean): Promise<ChatRecord> {
     await this.ensureInitialized();
 
     try {
-      await this.prisma.chat.delete({
+      const chat = await this.prisma.chat.update({
         where: { id: chatId },
+        data: { knowledgeBase: enabled },
+      });
+
+      return this.openChat(chat);
+    } catch (error) {
+      console.error('Failed to update chat knowledge base:', error);
+      throw error;
+    }
+  }
+
+  async updateChatPinned(chatId: number, pinned: boolean): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.updateChatOrganization(chatId, { pinned });
+    } catch (error) {
+      console.error('Failed to update chat pinned state:', error);
+      throw error;
+    }
+  }
+
+  async updateChatArchived(chatId: number, archived: boolean): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.updateChatOrganization(chatId, { archived });
+    } catch (error) {
+      console.error('Failed to update chat archived state:', error);
+      throw error;
+    }
+  }
+
+  async updateChatTags(chatId: number, tags: string[]): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.updateChatOrganization(chatId, { tags: JSON.stringify(normalizeTags(tags)) });
+    } catch (error) {
+      console.error('Failed to update chat tags:', error);
+      throw error;
+    }
+  }
+
+  async moveChatToFolder(chatId: number, folderId: number | null): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.updateChatOrganization(chatId, { folderId });
+    } catch (error) {
+      console.error('Failed to move chat to folder:', error);
+      throw error;
+    }
+  }
+
+  async updateChatsArchived(chatIds: number[], archived: boolean): Promise<ChatRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      const chats: ChatRecord[] = [];
+      for (const chatId of chatIds) {
+        chats.push(await this.updateChatOrganization(chatId, { archived }));
+      }
+      return chats;
+    } catch (error) {
+      console.error('Failed to update chats archived state:', error);
+      throw error;
+    }
+  }
+
+  async getFolders(): Promise<ChatFolderRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.prisma.chatFolder.findMany({
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('Failed to get chat folders:', error);
+      throw error;
+    }
+  }
+
+  async createFolder(name: string): Promise<ChatFolderRecord> {
+    await this.ensureInitialized();
+
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        throw new Error('Folder name cannot be empty');
+      }
+
+      return await this.prisma.chatFolder.create({
+        data: { name: trimmed },
+      });
+    } catch (error) {
+      console.error('Failed to create chat folder:', error);
+      throw error;
+    }
+  }
+
+  async renameFolder(folderId: number, name: string): Promise<ChatFolderRecord> {
+    await this.ensureInitialized();
+
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        throw new Error('Folder name cannot be empty');
+      }
+
+      return await this.prisma.chatFolder.update({
+        where: { id: folderId },
+        data: { name: trimmed },
+      });
+    } catch (error) {
+      console.error('Failed to rename chat folder:', error);
+      throw error;
+    }
+  }
+
+  async deleteFolder(folderId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      // Its chats are kept, outside of any folder
+      await this.prisma.chatFolder.delete({
+        where: { id: folderId },
+      });
+    } catch (error) {
+      console.error('Failed to delete chat folder:', error);
+      throw error;
+    }
+  }
+
+  async deleteChat(chatId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      // The search index is cleaned up in the same transaction so it never points to a deleted chat
+      await this.database.transaction(async (tx) => {
+        await tx.chat.delete({
+          where: { id: chatId },
+        });
+        await tx.$executeRaw`DELETE FROM "chats_fts" WHERE "rowid" = ${chatId}`;
+        await tx.$executeRaw`DELETE FROM "messages_fts" WHERE "chatId" = ${chatId}`;
       });
     } catch (error) {
       console.error('Failed to delete chat:', error);
@@ -205,43 +474,328 @@ export class ChatService {
     }
   }
 
+  /**
+   * Delete several chats at once: either all of them are deleted or none is
+   */
+  async deleteChats(chatIds: number[]): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.database.transaction(async (tx) => {
+        for (const chatId of chatIds) {
+          await tx.chat.delete({
+            where: { id: chatId },
+          });
+          await tx.$executeRaw`DELETE FROM "chats_fts" WHERE "rowid" = ${chatId}`;
+          await tx.$executeRaw`DELETE FROM "messages_fts" WHERE "chatId" = ${chatId}`;
+        }
+      });
+    } catch (error) {
+      console.error('Failed to delete chats:', error);
+      throw error;
+    }
+  }
+
   async createMessage(messageData: CreateMessageRequest): Promise<MessageRecord> {
     await this.ensureInitialized();
 
     try {
-      const message = await this.prisma.message.create({
-        data: {
-          chatId: messageData.chatId,
-          content: messageData.content,
-          role: messageData.role,
-        },
+      const parentId = messageData.parentId !== undefined
+        ? messageData.parentId
+        : await this.getActiveLeafId(messageData.chatId);
+
+      // The search entry is written in the same transaction so it always matches the message
+      return await this.database.transaction(async (tx) => {
+        const message = await tx.message.create({
+          data: {
+            chatId: messageData.chatId,
+            content: this.seal(messageData.content),
+            role: messageData.role,
+            parentId,
+            ...(messageData.sources?.length ? { sources: this.seal(JSON.stringify(messageData.sources)) } : {}),
+            ...(messageData.attachments?.length
+              ? { attachments: { create: messageData.attachments.map((attachment) => ({ ...attachment, content: this.seal(attachment.content) })) } }
+              : {}),
+          },
+        });
+        if (!this.encryption) {
+          await tx.$executeRaw`
+            INSERT INTO "messages_fts" ("rowid", "content", "chatId") VALUES (${message.id}, ${messageData.content}, ${message.chatId})
+          `;
+        }
+
+        // The new message becomes the leaf of the active branch
+        await tx.chat.update({
+          where: { id: messageData.chatId },
+          data: { updatedAt: new Date(), activeMessageId: message.id },
+        });
+
+        return this.openMessage(message as MessageRecord);
       });
+    } catch (error) {
+      console.error('Failed to create message:', error);
+      throw error;
+    }
+  }
 
-      // Update chat's updatedAt timestamp
-      await this.prisma.chat.update({
-        where: { id: messageData.chatId },
-        data: { updatedAt: new Date() },
+  /**
+   * Store the result of a tool call made while generating the reply `replyId`.
+   * The tool message is inserted between the reply and its parent, so replaying
+   * the branch gives the call before the text the model wrote after it.
+   */
+  async createToolMessage(replyId: number, content: string, toolCall: ToolCallRecord): Promise<MessageRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.database.transaction(async (tx) => {
+        const reply = await tx.message.findUnique({ where: { id: replyId } });
+        if (!reply) {
+          throw new Error(`Message ${replyId} not found`);
+        }
+
+        const message = await tx.message.create({
+          data: {
+            chatId: reply.chatId,
+            content: this.seal(content),
+            role: 'tool',
+            toolCall: this.seal(JSON.stringify(toolCall)),
+            parentId: reply.parentId,
+          },
+        });
+        await tx.message.update({
+          where: { id: replyId },
+          data: { parentId: message.id },
+        });
+        if (!this.encryption) {
+          await tx.$executeRaw`
+            INSERT INTO "messages_fts" ("rowid", "content", "chatId") VALUES (${message.id}, ${content}, ${reply.chatId})
+          `;
+        }
+
+        return this.openMessage(message as MessageRecord);
       });
+    } catch (error) {
+      console.error('Failed to create tool message:', error);
+      throw error;
+    }
+  }
 
-      return message as MessageRecord;
+  /**
+   * Get the messages of the active branch, from the first message to the active leaf
+   */
+  async getMessages(chatId: number): Promise<MessageBranchRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      const [chat, messages] = await Promise.all([
+        this.prisma.chat.findUnique({ where: { id: chatId } }),
+        this.prisma.message.findMany({
+          where: { chatId },
+          orderBy: { id: 'asc' },
+          include: {
+            attachments: {
+              select: { id: true, name: true, kind: true, size: true },
+              orderBy: { id: 'asc' },
+            },
+          },
+        }),
+      ]);
+
+      const records = messages as Array<MessageRecord & { attachments: AttachmentSummary[] }>;
+      return getBranchPath(records, chat?.activeMessageId ?? null)
+        .map((message) => ({
+          ...this.openMessage(message),
+          siblingIds: getSiblingIds(records, message),
+        }));
     } catch (error) {
-      console.error('Failed to create message:', error);
+      console.error('Failed to get messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the attachments of messages, with their text, in the order they were attached
+   */
+  async getAttachments(messageIds: number[]): Promise<AttachmentRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      const attachments = await this.prisma.attachment.findMany({
+        where: { messageId: { in: messageIds } },
+        orderBy: { id: 'asc' },
+      });
+
+      return (attachments as AttachmentRecord[])
+        .map((attachment) => ({ ...attachment, content: this.open(attachment.content) }));
+    } catch (error) {
+      console.error('Failed to get attachments:', error);
       throw error;
     }
   }
 
-  async getMessages(chatId: number): Promise<MessageRecord[]> {
+  async getMessage(messageId: number): Promise<MessageRecord | null> {
+    await this.ensureInitialized();
+
+    try {
+      const message = await this.prisma.message.findUnique({
+        where: { id: messageId },
+      });
+
+      return message ? this.openMessage(message as MessageRecord) : null;
+    } catch (error) {
+      console.error('Failed to get message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make the branch containing `messageId` the active one.
+   * The newest continuation below that message becomes the active leaf.
+   */
+  async switchBranch(chatId: number, messageId: number): Promise<MessageBranchRecord[]> {
     await this.ensureInitialized();
 
     try {
       const messages = await this.prisma.message.findMany({
         where: { chatId },
-        orderBy: { createdAt: 'asc' },
+        select: { id: true, parentId: true },
       });
 
-      return messages as MessageRecord[];
+      if (!messages.some((message) => message.id === messageId)) {
+        throw new Error(`Message ${messageId} does not belong to chat ${chatId}`);
+      }
+
+      await this.prisma.chat.update({
+        where: { id: chatId },
+        data: { activeMessageId: getLatestLeafId(messages, messageId) },
+      });
     } catch (error) {
-      console.error('Failed to get messages:', error);
+      console.error('Failed to switch branch:', error);
+      throw error;
+    }
+
+    return this.getMessages(chatId);
+  }
+
+  /**
+   * Create a new chat from a JSON export, keeping its message tree and timestamps.
+   * Fields missing in version 1 exports get their default values.
+   * Runs in a transaction so a failing import leaves no partial chat behind.
+   */
+  async importChat(document: ChatExportDocument): Promise<ChatRecord> {
+    await this.ensureInitialized();
+
+    try {
+      const { chat: exported } = document;
+      // Each parent is created first so its new id is known to its children
+      const messages = sortParentsFirst(exported.messages);
+
+      return await this.database.transaction(async (tx) => {
+        const chat = await tx.chat.create({
+          data: {
+            name: this.seal(exported.name),
+            nameSetByUser: exported.nameSetByUser ?? false,
+            systemPrompt: exported.systemPrompt ?? null,
+            createdAt: new Date(exported.createdAt),
+            updatedAt: new Date(exported.updatedAt),
+          },
+        });
+        if (!this.encryption) {
+          await tx.$executeRaw`INSERT INTO "chats_fts" ("rowid", "name") VALUES (${chat.id}, ${exported.name})`;
+        }
+
+        // Exported ids are remapped to the ids of the new rows
+        const idMap = new Map<number, number>();
+        for (const message of messages) {
+          const created = await tx.message.create({
+            data: {
+              chatId: chat.id,
+              content: this.seal(message.content),
+              role: message.role,
+              interrupted: message.interrupted ?? false,
+              toolCall: message.toolCall ? this.seal(JSON.stringify(message.toolCall)) : null,
+              ...message.stats,
+              sources: message.sources?.length ? this.seal(JSON.stringify(message.sources)) : null,
+              summary: message.summary ? this.seal(message.summary) : null,
+              parentId: message.parentId !== null ? idMap.get(message.parentId) : null,
+              createdAt: new Date(message.createdAt),
+              ...(message.attachments?.length
+                ? { attachments: { create: message.attachments.map(({ name, kind, size, content }) => ({ name, kind, size, content: this.seal(content) })) } }
+                : {}),
+            },
+          });
+          idMap.set(message.id, created.id);
+          if (!this.encryption) {
+            await tx.$executeRaw`
+              INSERT INTO "messages_fts" ("rowid", "content", "chatId") VALUES (${created.id}, ${message.content}, ${chat.id})
+            `;
+          }
+        }
+
+        const imported = await tx.chat.update({
+          where: { id: chat.id },
+          data: {
+            activeMessageId: exported.activeMessageId !== null ? idMap.get(exported.activeMessageId) ?? null : null,
+            updatedAt: new Date(exported.updatedAt),
+          },
+        });
+        return this.openChat(imported);
+      });
+    } catch (error) {
+      console.error('Failed to import chat:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search chat names and message contents, most relevant first
+   */
+  async searchChats(query: string, limit: number = 50): Promise<ChatSearchResult[]> {
+    await this.ensureInitialized();
+
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    if (this.encryption) {
+      return this.searchDecryptedChats(query, limit);
+    }
+
+    try {
+      const [chatRows, messageRows] = await Promise.all([
+        this.prisma.$queryRaw<RawSearchRow[]>`
+          SELECT "chats"."id" AS "chatId", "chats"."name" AS "chatName", NULL AS "messageId", NULL AS "role",
+            highlight("chats_fts", 0, ${SEARCH_MATCH_START}, ${SEARCH_MATCH_END}) AS "snippet",
+            bm25("chats_fts") AS "rank"
+          FROM "chats_fts" JOIN "chats" ON "chats"."id" = "chats_fts"."rowid"
+          WHERE "chats_fts" MATCH ${ftsQuery}
+          ORDER BY "rank" LIMIT ${limit}
+        `,
+        this.prisma.$queryRaw<RawSearchRow[]>`
+          SELECT "messages"."chatId" AS "chatId", "chats"."name" AS "chatName", "messages"."id" AS "messageId",
+            "messages"."role" AS "role",
+            snippet("messages_fts", 0, ${SEARCH_MATCH_START}, ${SEARCH_MATCH_END}, '…', 16) AS "snippet",
+            bm25("messages_fts") AS "rank"
+          FROM "messages_fts"
+          JOIN "messages" ON "messages"."id" = "messages_fts"."rowid"
+          JOIN "chats" ON "chats"."id" = "messages"."chatId"
+          WHERE "messages_fts" MATCH ${ftsQuery}
+          ORDER BY "rank" LIMIT ${limit}
+        `,
+      ]);
+
+      return [...chatRows, ...messageRows]
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, limit)
+        .map((row) => ({
+          chatId: Number(row.chatId),
+          chatName: row.chatName,
+          messageId: row.messageId === null ? null : Number(row.messageId),
+          role: row.role,
+          snippet: parseSnippet(row.snippet),
+          rank: row.rank,
+        }));
+    } catch (error) {
+      console.error('Failed to search chats:', error);
       throw error;
     }
   }
@@ -261,22 +815,86 @@ export class ChatService {
     }
   }
 
-  async updateMessage(messageId: number, content: string): Promise<MessageRecord> {
+  async updateMessage(
+    messageId: number,
+    content: string,
+    interrupted: boolean = false,
+    stats: GenerationStats | null = null
+  ): Promise<MessageRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.database.transaction(async (tx) => {
+        const message = await tx.message.update({
+          where: { id: messageId },
+          data: { content: this.seal(content), interrupted, ...stats },
+        });
+        if (!this.encryption) {
+          await tx.$executeRaw`UPDATE "messages_fts" SET "content" = ${content} WHERE "rowid" = ${messageId}`;
+        }
+
+        return this.openMessage(message as MessageRecord);
+      });
+    } catch (error) {
+      console.error('Failed to update message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the summary of the conversation up to and including a message.
+   * The messages it condenses are kept, only the model reads the summary instead.
+   */
+  async updateMessageSummary(messageId: number, summary: string): Promise<MessageRecord> {
     await this.ensureInitialized();
 
     try {
       const message = await this.prisma.message.update({
         where: { id: messageId },
-        data: { content },
+        data: { summary: this.seal(summary) },
       });
 
-      return message as MessageRecord;
+      return this.openMessage(message as MessageRecord);
     } catch (error) {
-      console.error('Failed to update message:', error);
+      console.error('Failed to update message summary:', error);
       throw error;
     }
   }
 
+  /**
+   * Organizing a chat is not activity in it: its place among the recent chats is kept
+   */
+  private async updateChatOrganization(chatId: number, data: ChatOrganization): Promise<ChatRecord> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+      select: { updatedAt: true },
+    });
+    if (!chat) {
+      throw new Error(`Chat ${chatId} not found`);
+    }
+
+    const updated = await this.prisma.chat.update({
+      where: { id: chatId },
+      data: { ...data, updatedAt: chat.updatedAt },
+    });
+    return this.openChat(updated);
+  }
+
+  private async getActiveLeafId(chatId: number): Promise<number | null> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+    });
+    if (chat?.activeMessageId) {
+      return chat.activeMessageId;
+    }
+
+    const latest = await this.prisma.message.findFirst({
+      where: { chatId },
+      orderBy: { id: 'desc' },
+    });
+    return latest?.id ?? null;
+  }
+
   async shouldAutoNameChat(chatId: number): Promise<boolean> {
     await this.ensureInitialized();
 
@@ -286,21 +904,291 @@ export class ChatService {
         where: { id: chatId },
       });
 
-      // Auto-name after 4 messages and only if it's still "New Chat"
-      return count >= 4 && chat?.name === 'New Chat';
+      // Auto-name after 4 messages and only if it's still "New Chat", unless the user chose that name
+      return count >= 4 && !!chat && !chat.nameSetByUser && this.open(chat.name) === 'New Chat';
     } catch (error) {
       console.error('Failed to check auto-name condition:', error);
       return false;
     }
   }
 
-  async close(): Promise<void> {
-    if (this.initialized) {
-      await this.prisma.$disconnect();
-      this.initialized = false;
+  getEncryptionStatus(): EncryptionStatus {
+    return {
+      enabled: this.encryption !== null,
+      locked: this.encryption !== null && this.encryptionKey === null,
+    };
+  }
+
+  /**
+   * Derive the key of the encrypted history from its passphrase and keep it in memory.
+   * Resolves false when the passphrase is not the right one.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    try {
+      if (!this.encryption) {
+        throw new Error('Chat history is not encrypted');
+      }
+
+      const key = await this.deriveStoredKey(passphrase, this.encryption);
+      if (!key) return false;
+
+      this.encryptionKey = key;
+      return true;
+    } catch (error) {
+      console.error('Failed to unlock chat history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the key, the history cannot be read until unlocked again
+   */
+  lock(): void {
+    this.encryptionKey?.fill(0);
+    this.encryptionKey = null;
+  }
+
+  /**
+   * Encrypt the chat names, messages and attachments of the whole history with a passphrase.
+   * There is no way to recover the history without the passphrase.
+   */
+  async enableEncryption(passphrase: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      if (this.encryption) {
+        throw new Error('Chat history is already encrypted');
+      }
+      this.checkPassphrase(passphrase);
+
+      const salt = createSalt();
+      const key = await deriveKey(passphrase, salt, DEFAULT_KDF_PARAMS);
+      const settings: EncryptionSettings = {
+        salt,
+        kdfParams: JSON.stringify(DEFAULT_KDF_PARAMS),
+        verifier: createVerifier(key),
+      };
+
+      await this.database.transaction(async (tx) => {
+        await this.rewriteHistory(tx, (text) => encryptText(key, text));
+        // The search index holds the text in clear
+        await tx.$executeRaw`DELETE FROM "chats_fts"`;
+        await tx.$executeRaw`DELETE FROM "messages_fts"`;
+        await tx.chatEncryption.create({ data: { id: ENCRYPTION_SETTINGS_ID, ...settings } });
+      }, { timeout: HISTORY_REWRITE_TIMEOUT_MS });
+
+      this.encryption = settings;
+      this.encryptionKey = key;
+      // Rewriting rows leaves the clear text in free pages of the database file
+      await this.database.compact();
+    } catch (error) {
+      console.error('Failed to enable chat encryption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypt the history again with a key derived from a new passphrase
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      const currentKey = await this.requirePassphraseKey(currentPassphrase);
+      this.checkPassphrase(newPassphrase);
+
+      const salt = createSalt();
+      const key = await deriveKey(newPassphrase, salt, DEFAULT_KDF_PARAMS);
+      const settings: EncryptionSettings = {
+        salt,
+        kdfParams: JSON.stringify(DEFAULT_KDF_PARAMS),
+        verifier: createVerifier(key),
+      };
+
+      await this.database.transaction(async (tx) => {
+        await this.rewriteHistory(tx, (value) => encryptText(key, this.decryptWith(currentKey, value)));
+        await tx.chatEncryption.update({ where: { id: ENCRYPTION_SETTINGS_ID }, data: settings });
+      }, { timeout: HISTORY_REWRITE_TIMEOUT_MS });
+
+      this.lock();
+      this.encryption = settings;
+      this.encryptionKey = key;
+      await this.database.compact();
+    } catch (error) {
+      console.error('Failed to change chat passphrase:', error);
+      throw error;
     }
   }
 
+  /**
+   * Decrypt the whole history and store it in clear again, searchable as before
+   */
+  async disableEncryption(passphrase: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      const key = await this.requirePassphraseKey(passphrase);
+
+      await this.database.transaction(async (tx) => {
+        await this.rewriteHistory(tx, (value) => this.decryptWith(key, value));
+        await tx.$executeRaw`DELETE FROM "chats_fts"`;
+        await tx.$executeRaw`DELETE FROM "messages_fts"`;
+        await tx.$executeRaw`INSERT INTO "chats_fts" ("rowid", "name") SELECT "id", "name" FROM "chats"`;
+        await tx.$executeRaw`
+          INSERT INTO "messages_fts" ("rowid", "content", "chatId") SELECT "id", "content", "chatId" FROM "messages"
+        `;
+        await tx.chatEncryption.delete({ where: { id: ENCRYPTION_SETTINGS_ID } });
+      }, { timeout: HISTORY_REWRITE_TIMEOUT_MS });
+
+      this.lock();
+      this.encryption = null;
+      await this.database.compact();
+    } catch (error) {
+      console.error('Failed to disable chat encryption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search the decrypted history in memory, the search index is empty while it is encrypted
+   */
+  private async searchDecryptedChats(query: string, limit: number): Promise<ChatSearchResult[]> {
+    try {
+      const [chats, messages] = await Promise.all([
+        this.prisma.chat.findMany({ select: { id: true, name: true } }),
+        this.prisma.message.findMany({ select: { id: true, chatId: true, role: true, content: true } }),
+      ]);
+      const chatNames = new Map(chats.map((chat) => [chat.id, this.open(chat.name)]));
+
+      const results: ChatSearchResult[] = [];
+      for (const [chatId, chatName] of chatNames) {
+        const match = findTextMatch(chatName, query);
+        if (match) {
+          results.push({ chatId, chatName, messageId: null, role: null, snippet: match.snippet, rank: -match.hits });
+        }
+      }
+      for (const message of messages) {
+        const match = findTextMatch(this.open(message.content), query);
+        if (match) {
+          results.push({
+            chatId: message.chatId,
+            chatName: chatNames.get(message.chatId) ?? '',
+            messageId: message.id,
+            role: message.role as ChatSearchResult['role'],
+            snippet: match.snippet,
+            rank: -match.hits,
+          });
+        }
+      }
+
+      return results.sort((a, b) => a.rank - b.rank).slice(0, limit);
+    } catch (error) {
+      console.error('Failed to search chats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rewrite every chat name, message and attachment text, in place
+   */
+  private async rewriteHistory(tx: TransactionClient, transform: (value: string) => string): Promise<void> {
+    const chats = await tx.chat.findMany({ select: { id: true, name: true, updatedAt: true } });
+    for (const chat of chats) {
+      await tx.chat.update({
+        where: { id: chat.id },
+        data: { name: transform(chat.name), updatedAt: chat.updatedAt },
+      });
+    }
+
+    const messages = await tx.message.findMany({
+      select: { id: true, content: true, summary: true, sources: true, toolCall: true },
+    });
+    for (const message of messages) {
+      await tx.message.update({
+        where: { id: message.id },
+        data: {
+          content: transform(message.content),
+          summary: message.summary === null ? null : transform(message.summary),
+          sources: message.sources === null ? null : transform(message.sources),
+          toolCall: message.toolCall === null ? null : transform(message.toolCall),
+        },
+      });
+    }
+
+    const attachments = await tx.attachment.findMany({ select: { id: true, content: true } });
+    for (const attachment of attachments) {
+      await tx.attachment.update({
+        where: { id: attachment.id },
+        data: { content: transform(attachment.content) },
+      });
+    }
+  }
+
+  private checkPassphrase(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private async deriveStoredKey(passphrase: string, settings: EncryptionSettings): Promise<Buffer | null> {
+    const key = await deriveKey(passphrase, settings.salt, parseKdfParams(settings.kdfParams));
+    return verifyKey(key, settings.verifier) ? key : null;
+  }
+
+  private async requirePassphraseKey(passphrase: string): Promise<Buffer> {
+    if (!this.encryption) {
+      throw new Error('Chat history is not encrypted');
+    }
+
+    const key = await this.deriveStoredKey(passphrase, this.encryption);
+    if (!key) {
+      throw new Error('Wrong passphrase');
+    }
+    return key;
+  }
+
+  private requireKey(): Buffer {
+    if (!this.encryptionKey) {
+      throw new Error('Chat history is locked');
+    }
+    return this.encryptionKey;
+  }
+
+  // Values written before encryption was enabled are kept as they are
+  private decryptWith(key: Buffer, value: string): string {
+    return isEncryptedText(value) ? decryptText(key, value) : value;
+  }
+
+  /**
+   * Encrypt a chat name, message or attachment text to store it, when the history is encrypted
+   */
+  private seal(text: string): string {
+    return this.encryption ? encryptText(this.requireKey(), text) : text;
+  }
+
+  /**
+   * Decrypt a stored chat name, message or attachment text
+   */
+  private open(value: string): string {
+    return this.encryption && isEncryptedText(value) ? decryptText(this.requireKey(), value) : value;
+  }
+
+  private openChat<T extends { name: string }>(chat: T): T {
+    return { ...chat, name: this.open(chat.name) };
+  }
+
+  private openMessage<T extends OpenableMessage>(message: T): T {
+    return {
+      ...message,
+      content: this.open(message.content),
+      ...(message.summary ? { summary: this.open(message.summary) } : {}),
+      ...(message.sources ? { sources: this.open(message.sources) } : {}),
+      ...(message.toolCall ? { toolCall: this.open(message.toolCall) } : {}),
+    };
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
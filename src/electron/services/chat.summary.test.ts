@@ -0,0 +1,108 @@
+import {
+  buildSummaryPrompt,
+  countMessageTokens,
+  formatSummaryMessage,
+  getLatestSummaryIndex,
+  getSummarizedCount,
+} from './chat.summary';
+import { MESSAGE_TOKEN_OVERHEAD } from './llm.service.helpers';
+
+// One token per character keeps the budgets easy to follow
+const countTokens = (text: string) => text.length;
+
+describe('chat.summary', () => {
+  describe('getLatestSummaryIndex', () => {
+    it('should find the last message holding a summary', () => {
+      expect(getLatestSummaryIndex([
+        { summary: null },
+        { summary: 'First part' },
+        { summary: null },
+        { summary: 'First and second parts' },
+        { summary: null },
+      ])).toBe(3);
+    });
+
+    it('should return -1 when the branch was never summarized', () => {
+      expect(getLatestSummaryIndex([{ summary: null }, { summary: undefined as unknown as null }])).toBe(-1);
+      expect(getLatestSummaryIndex([])).toBe(-1);
+    });
+  });
+
+  describe('formatSummaryMessage', () => {
+    it('should introduce the summary', () => {
+      expect(formatSummaryMessage('Trip to Lyon')).toBe('Summary of the earlier conversation:\nTrip to Lyon');
+    });
+  });
+
+  describe('countMessageTokens', () => {
+    it('should add the chat template tokens', () => {
+      expect(countMessageTokens('Hello', countTokens)).toBe(5 + MESSAGE_TOKEN_OVERHEAD);
+    });
+  });
+
+  describe('getSummarizedCount', () => {
+    const message = (role: 'user' | 'assistant' | 'tool', length: number) => ({ role, content: 'x'.repeat(length) });
+    const size = (length: number) => length + MESSAGE_TOKEN_OVERHEAD;
+
+    it('should take the whole exchanges fitting in the budget', () => {
+      const messages = [
+        message('user', 10), message('assistant', 40),
+        message('user', 10), message('assistant', 40),
+        message('user', 10), message('assistant', 40),
+        message('user', 10),
+      ];
+
+      expect(getSummarizedCount(messages, countTokens, size(10) * 2 + size(40) * 2)).toBe(4);
+      expect(getSummarizedCount(messages, countTokens, size(10) * 2 + size(40) * 2 - 1)).toBe(2);
+    });
+
+    it('should never take the prompt being answered', () => {
+      const messages = [message('user', 10), message('assistant', 10), message('user', 10)];
+
+      expect(getSummarizedCount(messages, countTokens, 10000)).toBe(2);
+    });
+
+    it('should take a first exchange larger than the budget on its own', () => {
+      const messages = [message('user', 500), message('tool', 500), message('assistant', 500), message('user', 10)];
+
+      expect(getSummarizedCount(messages, countTokens, 100)).toBe(3);
+    });
+
+    it('should take nothing when only the exchange being answered is left', () => {
+      expect(getSummarizedCount([message('user', 500)], countTokens, 100)).toBe(0);
+      expect(getSummarizedCount([message('user', 500), message('tool', 500)], countTokens, 100)).toBe(0);
+      expect(getSummarizedCount([], countTokens, 100)).toBe(0);
+    });
+  });
+
+  describe('buildSummaryPrompt', () => {
+    const messages = [
+      { role: 'user' as const, content: 'Weather in Lyon?', toolCall: null, summary: null },
+      { role: 'tool' as const, content: '{"temperature":21}', toolCall: '{"name":"get_weather","params":{}}', summary: null },
+      { role: 'assistant' as const, content: 'It is 21°C.', toolCall: null, summary: null },
+      { role: 'assistant' as const, content: ' ', toolCall: null, summary: null },
+    ];
+
+    it('should ask for a summary of the messages', () => {
+      const prompt = buildSummaryPrompt(null, messages);
+
+      expect(prompt).toContain('Summarize the conversation below');
+      expect(prompt).toContain('in the language of the conversation');
+      expect(prompt).toMatch(/\n\nUser: Weather in Lyon\?\n\nResult of get_weather: \{"temperature":21\}\n\nAssistant: It is 21°C\.$/);
+      expect(prompt).not.toContain('Summary of the earlier conversation');
+    });
+
+    it('should fold the previous summary into the new one', () => {
+      const prompt = buildSummaryPrompt('The user plans a trip to Lyon.', messages);
+
+      expect(prompt).toContain('Summary of the earlier conversation:\nThe user plans a trip to Lyon.\n\nUser: Weather in Lyon?');
+    });
+
+    it('should cut huge messages', () => {
+      const prompt = buildSummaryPrompt(null, [{ role: 'user', content: 'a'.repeat(10000), toolCall: null, summary: null }]);
+
+      expect(prompt).toContain(`User: ${'a'.repeat(4000)}…`);
+      expect(prompt).not.toContain('a'.repeat(4001));
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import type { MessageRecord } from './chat.service';
+import { parseToolCall } from './chat.service.helpers';
+import { MESSAGE_TOKEN_OVERHEAD } from './llm.service.helpers';
+
+// Share of the history budget condensed by one summary, so the prompt asking for it fits the context
+export const SUMMARY_CHUNK_RATIO = 0.5;
+
+// A single huge message is cut in the prompt, its start is enough to summarize it
+const MAX_EXCERPT_LENGTH = 4000;
+
+type SummarizedMessage = Pick<MessageRecord, 'role' | 'content' | 'toolCall' | 'summary'>;
+
+/**
+ * Index of the last message of a branch holding a summary, -1 when none does.
+ * The summary covers the conversation up to and including that message.
+ */
+export function getLatestSummaryIndex(branch: Pick<MessageRecord, 'summary'>[]): number {
+  for (let i = branch.length - 1; i >= 0; i--) {
+    if (branch[i].summary) return i;
+  }
+  return -1;
+}
+
+/**
+ * The message standing for the summarized conversation at the start of the history sent to the model
+ */
+export function formatSummaryMessage(summary: string): string {
+  return `Summary of the earlier conversation:\n${summary}`;
+}
+
+/**
+ * Tokens a message takes in the history, with the chat template around it
+ */
+export function countMessageTokens(content: string, countTokens: (text: string) => number): number {
+  return countTokens(content) + MESSAGE_TOKEN_OVERHEAD;
+}
+
+/**
+ * Number of messages at the start of `messages` to condense into a summary.
+ * As many as fit in `budget` are taken, and the messages kept always start with a
+ * user message, so whole exchanges are summarized. A first exchange larger than the
+ * budget is taken on its own. The last message, the prompt being answered, is never taken.
+ * Returns 0 when there is nothing to condense.
+ */
+export function getSummarizedCount(
+  messages: Pick<MessageRecord, 'role' | 'content'>[],
+  countTokens: (text: string) => number,
+  budget: number
+): number {
+  let count = 0;
+  let usedTokens = 0;
+
+  for (let i = 1; i < messages.length; i++) {
+    usedTokens += countMessageTokens(messages[i - 1].content, countTokens);
+    if (messages[i].role !== 'user') continue;
+    if (count > 0 && usedTokens > budget) break;
+    count = i;
+  }
+  return count;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text;
+}
+
+function formatMessage(message: SummarizedMessage): string {
+  if (message.role === 'tool') {
+    return `Result of ${parseToolCall(message.toolCall)?.name ?? 'a tool'}: ${truncate(message.content)}`;
+  }
+  return `${message.role === 'user' ? 'User' : 'Assistant'}: ${truncate(message.content)}`;
+}
+
+/**
+ * Ask the model to condense messages, along with the summary of the conversation before them
+ */
+export function buildSummaryPrompt(previousSummary: string | null, messages: SummarizedMessage[]): string {
+  const conversation = messages
+    .filter((message) => message.content.trim() !== '')
+    .map(formatMessage)
+    .join('\n\n');
+  const earlier = previousSummary ? `${formatSummaryMessage(previousSummary)}\n\n` : '';
+
+  return `Summarize the conversation below so that it can be continued without it. Keep the facts, names, numbers, decisions and open questions, drop greetings and repetitions. Write the summary in the language of the conversation, in at most 200 words, without any introduction.
+
+${earlier}${conversation}`;
+}
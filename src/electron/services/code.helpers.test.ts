@@ -0,0 +1,90 @@
+import {
+  DEFAULT_CODE_SETTINGS,
+  MAX_CODE_OUTPUT,
+  appendOutput,
+  getCodeFileExtension,
+  getPermissionFlag,
+  getRunnableLanguage,
+  mergeCodeSettings,
+} from './code.helpers';
+
+describe('code.helpers', () => {
+  describe('getRunnableLanguage', () => {
+    it('should recognize JavaScript and Python fences', () => {
+      expect(getRunnableLanguage('js')).toBe('javascript');
+      expect(getRunnableLanguage('JavaScript')).toBe('javascript');
+      expect(getRunnableLanguage('py')).toBe('python');
+      expect(getRunnableLanguage('python3')).toBe('python');
+    });
+
+    it('should not run other languages', () => {
+      expect(getRunnableLanguage('typescript')).toBeNull();
+      expect(getRunnableLanguage('bash')).toBeNull();
+      expect(getRunnableLanguage(null)).toBeNull();
+      expect(getRunnableLanguage('')).toBeNull();
+    });
+  });
+
+  describe('mergeCodeSettings', () => {
+    it('should not allow running code by default', () => {
+      expect(DEFAULT_CODE_SETTINGS).toEqual({ allowRun: false });
+    });
+
+    it('should apply the changes', () => {
+      expect(mergeCodeSettings(DEFAULT_CODE_SETTINGS, { allowRun: true })).toEqual({ allowRun: true });
+      expect(mergeCodeSettings({ allowRun: true }, {})).toEqual({ allowRun: true });
+    });
+
+    it('should ignore values of the wrong type', () => {
+      expect(mergeCodeSettings(DEFAULT_CODE_SETTINGS, { allowRun: 'yes' } as any)).toEqual({ allowRun: false });
+    });
+  });
+
+  describe('getCodeFileExtension', () => {
+    it('should map language names to extensions', () => {
+      expect(getCodeFileExtension('javascript')).toBe('js');
+      expect(getCodeFileExtension('Python')).toBe('py');
+      expect(getCodeFileExtension('bash')).toBe('sh');
+      expect(getCodeFileExtension('c++')).toBe('cpp');
+    });
+
+    it('should keep short names that are extensions already', () => {
+      expect(getCodeFileExtension('ts')).toBe('ts');
+      expect(getCodeFileExtension('json')).toBe('json');
+    });
+
+    it('should fall back to a text file', () => {
+      expect(getCodeFileExtension(null)).toBe('txt');
+      expect(getCodeFileExtension('../../etc')).toBe('txt');
+      expect(getCodeFileExtension('averyveryverylongname')).toBe('txt');
+    });
+  });
+
+  describe('getPermissionFlag', () => {
+    it('should use the stable flag from Node 22.13', () => {
+      expect(getPermissionFlag('22.13.0')).toBe('--permission');
+      expect(getPermissionFlag('v24.1.0')).toBe('--permission');
+    });
+
+    it('should use the experimental flag before', () => {
+      expect(getPermissionFlag('22.12.0')).toBe('--experimental-permission');
+      expect(getPermissionFlag('20.19.5')).toBe('--experimental-permission');
+    });
+  });
+
+  describe('appendOutput', () => {
+    it('should append chunks under the limit', () => {
+      expect(appendOutput('a', 'b')).toEqual({ output: 'ab', truncated: false });
+    });
+
+    it('should cut the output at the limit', () => {
+      const almostFull = 'x'.repeat(MAX_CODE_OUTPUT - 2);
+
+      const result = appendOutput(almostFull, 'abcd');
+
+      expect(result.output).toBe(`${almostFull}ab`);
+      expect(result.truncated).toBe(true);
+      expect(appendOutput(result.output, 'e')).toEqual({ output: result.output, truncated: true });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Helper functions for the code blocks of replies: saving them as files and running them
+ */
+
+export type RunnableLanguage = 'javascript' | 'python';
+
+/**
+ * Output of a code block run in a child process
+ */
+export interface CodeRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null; // null when the process was killed
+  timedOut: boolean;
+  truncated: boolean; // The output went over MAX_CODE_OUTPUT and the process was stopped
+  durationMs: number;
+}
+
+/**
+ * Settings of the code blocks, saved in code-settings.json
+ */
+export interface CodeSettings {
+  allowRun: boolean; // Show the run button, off until the user turns it on
+}
+
+export const DEFAULT_CODE_SETTINGS: CodeSettings = {
+  allowRun: false,
+};
+
+/**
+ * Apply changes to the settings, ignoring values of the wrong type
+ */
+export function mergeCodeSettings(settings: CodeSettings, changes: Partial<CodeSettings>): CodeSettings {
+  return {
+    allowRun: typeof changes.allowRun === 'boolean' ? changes.allowRun : settings.allowRun,
+  };
+}
+
+export const CODE_RUN_TIMEOUT_MS = 10_000;
+export const MAX_CODE_OUTPUT = 64 * 1024;
+
+const RUNNABLE_LANGUAGES: Record<string, RunnableLanguage> = {
+  javascript: 'javascript',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  python: 'python',
+  py: 'python',
+  python3: 'python',
+};
+
+const CODE_FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  python: 'py',
+  bash: 'sh',
+  shell: 'sh',
+  zsh: 'sh',
+  markdown: 'md',
+  csharp: 'cs',
+  cpp: 'cpp',
+  'c++': 'cpp',
+  rust: 'rs',
+  golang: 'go',
+  ruby: 'rb',
+  kotlin: 'kt',
+  text: 'txt',
+  plaintext: 'txt',
+};
+
+/**
+ * The language a code block can be run with, from the name in its fence (```js), or null
+ */
+export function getRunnableLanguage(language: string | null | undefined): RunnableLanguage | null {
+  if (!language) return null;
+  return RUNNABLE_LANGUAGES[language.toLowerCase()] ?? null;
+}
+
+/**
+ * File extension for a code block; short names such as "js" or "py" are extensions already
+ */
+export function getCodeFileExtension(language: string | null | undefined): string {
+  const normalized = language?.toLowerCase().trim() ?? '';
+  if (CODE_FILE_EXTENSIONS[normalized]) return CODE_FILE_EXTENSIONS[normalized];
+  return /^[a-z0-9]{1,10}$/.test(normalized) ? normalized : 'txt';
+}
+
+/**
+ * Node flag enabling the permission model, stable since Node 22.13 and experimental before
+ */
+export function getPermissionFlag(nodeVersion: string): string {
+  const [major, minor] = nodeVersion.replace(/^v/, '').split('.').map(Number);
+  return major > 22 || (major === 22 && minor >= 13) ? '--permission' : '--experimental-permission';
+}
+
+/**
+ * Appends a chunk of output, up to MAX_CODE_OUTPUT characters.
+ * Returns the new output and whether some of the chunk was dropped.
+ */
+export function appendOutput(output: string, chunk: string): { output: string; truncated: boolean } {
+  const room = MAX_CODE_OUTPUT - output.length;
+  if (chunk.length <= room) {
+    return { output: output + chunk, truncated: false };
+  }
+  return { output: output + chunk.slice(0, Math.max(room, 0)), truncated: true };
+}
@@ -0,0 +1,141 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getRunCommand, runCode } from './code.runner';
+import { MAX_CODE_OUTPUT } from './code.helpers';
+import { PYTHON_SANDBOX } from './code.sandbox';
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+const itWithPython = hasPython && process.platform !== 'win32' ? it : it.skip;
+
+const listWorkDirs = () => fs.readdirSync(os.tmpdir()).filter((name) => name.startsWith('code-run-'));
+
+describe('code.runner', () => {
+  describe('getRunCommand', () => {
+    it('should run JavaScript with Node under the permission model', () => {
+      const { command, args, env } = getRunCommand('javascript', '/tmp/code-run-1');
+
+      expect(command).toBe(process.execPath);
+      expect(args[0]).toMatch(/^--(experimental-)?permission$/);
+      expect(args[args.length - 1]).toBe('-');
+      expect(env.ELECTRON_RUN_AS_NODE).toBe('1');
+    });
+
+    it('should run Python isolated, under the sandbox program', () => {
+      const { args } = getRunCommand('python', '/tmp/code-run-1');
+
+      expect(args).toEqual(['-I', '-B', '-X', 'utf8', '-c', PYTHON_SANDBOX]);
+    });
+
+    it('should not pass the app environment', () => {
+      process.env.OPENAI_API_KEY = 'secret';
+
+      const { env } = getRunCommand('python', '/tmp/code-run-1');
+
+      expect(env.OPENAI_API_KEY).toBeUndefined();
+      expect(env.PATH).toBe(process.env.PATH);
+      expect(env.HOME).toBe('/tmp/code-run-1');
+      delete process.env.OPENAI_API_KEY;
+    });
+  });
+
+  describe('runCode', () => {
+    it('should run JavaScript and collect stdout, stderr and the exit code', async () => {
+      const result = await runCode('javascript', 'console.log("hello"); console.error("oops"); process.exit(3);');
+
+      expect(result.stdout).toBe('hello\n');
+      expect(result.stderr).toContain('oops');
+      expect(result.exitCode).toBe(3);
+      expect(result.timedOut).toBe(false);
+      expect(result.truncated).toBe(false);
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should deny JavaScript access to the file system', async () => {
+      const result = await runCode('javascript', `require('fs').readFileSync(${JSON.stringify(__filename)});`);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain('ERR_ACCESS_DENIED');
+    });
+
+    it('should kill code running past the timeout', async () => {
+      const result = await runCode('javascript', 'while (true) {}', 500);
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBeNull();
+    });
+
+    it('should stop code writing too much output', async () => {
+      const result = await runCode('javascript', 'while (true) { console.log("x".repeat(1000)); }');
+
+      expect(result.truncated).toBe(true);
+      expect(result.timedOut).toBe(false);
+      expect(result.stdout.length).toBe(MAX_CODE_OUTPUT);
+    });
+
+    it('should remove the temporary working directory', async () => {
+      const before = listWorkDirs();
+
+      await runCode('javascript', 'console.log(process.cwd());');
+
+      expect(listWorkDirs()).toEqual(before);
+    });
+
+    it('should run in a temporary working directory', async () => {
+      const result = await runCode('javascript', 'console.log(process.cwd());');
+
+      expect(path.basename(result.stdout.trim())).toMatch(/^code-run-/);
+      expect(result.exitCode).toBe(0);
+    });
+
+    itWithPython('should run Python in an empty working directory it can write to', async () => {
+      const result = await runCode(
+        'python',
+        'import os, json\nprint(os.listdir("."))\nopen("out.txt", "w").write("saved")\nprint(open("out.txt").read())\nprint(json.dumps(os.getcwd()))'
+      );
+
+      const [files, saved, cwd] = result.stdout.trim().split('\n');
+      expect(files).toBe('[]');
+      expect(saved).toBe('saved');
+      expect(path.basename(JSON.parse(cwd))).toMatch(/^code-run-/);
+      expect(result.exitCode).toBe(0);
+    });
+
+    itWithPython('should report Python errors on stderr', async () => {
+      const result = await runCode('python', 'raise ValueError("bad input")');
+
+      expect(result.stderr).toContain('ValueError: bad input');
+      expect(result.exitCode).toBe(1);
+    });
+
+    itWithPython.each([
+      ['reading files outside its folder', `open(${JSON.stringify(__filename)}).read()`],
+      ['writing files outside its folder', 'open("../escaped.txt", "w")'],
+      ['listing other folders', 'import os\nos.listdir("/")'],
+      ['the network', 'import socket\nsocket.create_connection(("127.0.0.1", 9))'],
+      ['starting processes', 'import subprocess\nsubprocess.run(["ls"])'],
+      ['starting processes without subprocess', 'import _posixsubprocess\n_posixsubprocess.fork_exec()'],
+      ['native code', 'import ctypes'],
+      ['walking all objects', 'import gc\ngc.get_objects()'],
+      ['tracing the sandbox', 'import sys\nsys.settrace(lambda *args: None)'],
+      ['replacing the builtins it relies on', `import builtins\nbuiltins.len = builtins.type = lambda value: str\nopen(${JSON.stringify(__filename)})`],
+    ])('should deny Python %s', async (_name, code) => {
+      const result = await runCode('python', code);
+
+      expect(result.stderr).toMatch(/(PermissionError|ImportError): .*not allowed in the sandbox/);
+      expect(result.exitCode).toBe(1);
+    });
+
+    it('should explain when the interpreter is not installed', async () => {
+      const originalPath = process.env.PATH;
+      process.env.PATH = '';
+
+      try {
+        await expect(runCode('python', 'print(1)')).rejects.toThrow('was not found. Install it to run python code.');
+      } finally {
+        process.env.PATH = originalPath;
+      }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { appendOutput, CODE_RUN_TIMEOUT_MS, getPermissionFlag } from './code.helpers';
+import type { CodeRunResult, RunnableLanguage } from './code.helpers';
+import { PYTHON_SANDBOX } from './code.sandbox';
+
+interface RunCommand {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Command running a program read from stdin.
+ * JavaScript runs in Node under the permission model: no file system, child processes or
+ * workers, but the network is still reachable. Python runs isolated from the user's
+ * environment, under the audit hook sandbox of code.sandbox.ts: no network, child processes
+ * or files outside its working directory.
+ */
+export function getRunCommand(language: RunnableLanguage, workDir: string): RunCommand {
+  // Only what the interpreters need, the app environment may hold API keys
+  const env: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    HOME: workDir,
+    TMPDIR: workDir,
+    ...(process.platform === 'win32' ? { SYSTEMROOT: process.env.SYSTEMROOT, USERPROFILE: workDir } : {}),
+  };
+
+  if (language === 'python') {
+    return {
+      command: process.platform === 'win32' ? 'python' : 'python3',
+      args: ['-I', '-B', '-X', 'utf8', '-c', PYTHON_SANDBOX],
+      env,
+    };
+  }
+
+  return {
+    // The Electron binary runs as plain Node with ELECTRON_RUN_AS_NODE
+    command: process.execPath,
+    args: [getPermissionFlag(process.versions.node), '-'],
+    env: { ...env, ELECTRON_RUN_AS_NODE: '1' },
+  };
+}
+
+/**
+ * Run a code block in a child process with an empty temporary working directory.
+ * The process is killed once the timeout is reached or the output gets too large.
+ */
+export async function runCode(
+  language: RunnableLanguage,
+  code: string,
+  timeoutMs: number = CODE_RUN_TIMEOUT_MS
+): Promise<CodeRunResult> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'code-run-'));
+  const { command, args, env } = getRunCommand(language, workDir);
+
+  try {
+    return await new Promise<CodeRunResult>((resolve, reject) => {
+      const startedAt = Date.now();
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let truncated = false;
+
+      const child = spawn(command, args, {
+        cwd: workDir,
+        env,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+        // Own process group, so the processes it starts are killed with it
+        detached: process.platform !== 'win32',
+      });
+
+      const kill = () => {
+        try {
+          if (process.platform !== 'win32' && child.pid) {
+            process.kill(-child.pid, 'SIGKILL');
+          } else {
+            child.kill('SIGKILL');
+          }
+        } catch {
+          // Already exited
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutMs);
+
+      const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        const current = stream === 'stdout' ? stdout : stderr;
+        const result = appendOutput(current, chunk.toString('utf-8'));
+        if (stream === 'stdout') stdout = result.output;
+        else stderr = result.output;
+        if (result.truncated && !truncated) {
+          truncated = true;
+          kill();
+        }
+      };
+
+      child.stdout.on('data', collect('stdout'));
+      child.stderr.on('data', collect('stderr'));
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        if (error.code === 'ENOENT') {
+          reject(new Error(`${command} was not found. Install it to run ${language} code.`));
+        } else {
+          reject(error);
+        }
+      });
+
+      child.on('close', (exitCode) => {
+        clearTimeout(timer);
+        resolve({ stdout, stderr, exitCode, timedOut, truncated, durationMs: Date.now() - startedAt });
+      });
+
+      // The program is read from stdin, which is then closed
+      child.stdin.on('error', () => {
+        // The process may exit before reading all of it
+      });
+      child.stdin.end(code);
+    });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
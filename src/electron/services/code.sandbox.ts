@@ -0,0 +1,149 @@
+/**
+ * Program started with `python -c` to run a code block read from stdin. Before running it,
+ * it installs an audit hook (PEP 578) that refuses the network, starting processes, native
+ * code (ctypes, extensions outside the installation) and files outside the working folder,
+ * except reading the Python installation. Memory and written file sizes are limited where
+ * the resource module exists.
+ *
+ * Audit hooks run in the same process as the code, so this keeps ordinary code in its folder
+ * rather than being a hard security boundary like an OS sandbox.
+ */
+export const PYTHON_SANDBOX = String.raw`
+import sys
+
+def _install_sandbox():
+    import os
+    # Everything the hook uses is bound here: the code can't patch builtins or globals it reads
+    text_type, bytes_type, int_type, get_type, length = str, bytes, int, type, len
+    denied, import_denied = PermissionError, ImportError
+    windows = os.name == 'nt'
+    separator = chr(92)
+    encoding = sys.getfilesystemencoding()
+
+    def normalize(path, base):
+        # Lexical only: resolving links would need calls the code can interfere with.
+        # Relative paths climbing out of the working directory are refused.
+        if windows:
+            path = path.replace(separator, '/').lower()
+        absolute = path.startswith('/') or (windows and path[1:2] == ':')
+        parts = [] if absolute else base.split('/')[1:]
+        floor = 0 if absolute else length(parts)
+        for part in path.split('/'):
+            if part == '' or part == '.':
+                continue
+            if part == '..':
+                if length(parts) <= floor and not absolute:
+                    return None
+                if parts:
+                    parts.pop()
+            else:
+                parts.append(part)
+        return '/' + '/'.join(parts)
+
+    work_dir = normalize(os.getcwd(), '')
+    # The Python installation, and the time zone database read by zoneinfo
+    time_zone_dirs = (__import__('sysconfig').get_config_var('TZPATH') or '').split(os.pathsep)
+    library_dirs = tuple(normalize(entry, work_dir) for entry in sys.path + time_zone_dirs if entry)
+    extension_suffixes = tuple(__import__('_imp').extension_suffixes())
+
+    def inside(path, roots):
+        for root in roots:
+            if path == root or path.startswith(root + '/'):
+                return True
+        return False
+
+    def check_path(event, path, writing):
+        kind = get_type(path)
+        if kind is int_type or path is None:
+            # File descriptors only come from files opened here, directories included
+            if writing and kind is int_type and event != 'os.truncate':
+                raise denied(event + ' on a file descriptor is not allowed in the sandbox')
+            return
+        if kind is bytes_type:
+            path = path.decode(encoding, 'surrogateescape')
+        elif kind is not text_type:
+            raise denied(event + ' needs the path as a string in the sandbox')
+        normalized = normalize(path, work_dir)
+        roots = (work_dir,) if writing else (work_dir,) + library_dirs
+        if normalized is None or not inside(normalized, roots):
+            raise denied(event + ' outside the working folder is not allowed in the sandbox: ' + path)
+
+    blocked_events = frozenset((
+        'subprocess.Popen', 'os.system', 'os.exec', 'os.posix_spawn', 'os.spawn', 'os.fork',
+        'os.forkpty', 'os.startfile', 'os.kill', 'os.killpg', 'os.symlink', 'os.link', 'os.chdir',
+        'os.add_dll_directory', 'pty.spawn', 'sys.settrace', 'sys.setprofile', 'sys._current_frames',
+        'gc.get_objects', 'gc.get_referrers', 'gc.get_referents',
+        'resource.setrlimit', 'resource.prlimit', 'sqlite3.enable_load_extension', 'sqlite3.load_extension',
+    ))
+    blocked_prefixes = ('socket.', 'ctypes.', '_winapi.', 'winreg.', 'sys.monitoring.', 'sys.remote_exec')
+    blocked_modules = frozenset((
+        '_ctypes', 'readline', '_gdbm', '_dbm', '_tkinter', '_testcapi', '_testinternalcapi',
+        '_xxsubinterpreters', '_xxinterpchannels', '_interpreters', '_interpchannels', '_interpqueues',
+    ))
+    write_events = frozenset((
+        'os.mkdir', 'os.rmdir', 'os.remove', 'os.truncate', 'os.chmod', 'os.chown', 'os.chflags',
+        'os.lchflags', 'os.utime', 'os.setxattr', 'os.removexattr',
+    ))
+    read_events = frozenset(('os.listdir', 'os.scandir', 'os.getxattr', 'os.listxattr'))
+
+    def hook(event, args):
+        if event in blocked_events or (event.startswith(blocked_prefixes) and event != 'socket.__new__'):
+            raise denied(event + ' is not allowed in the sandbox')
+        if event == 'open':
+            path, mode = args[0], args[1]
+            # os.open has no mode and can open directories, so it is treated as a write
+            reading = mode is not None and not (
+                'w' in mode or 'a' in mode or 'x' in mode or '+' in mode
+            )
+            check_path(event, path, not reading)
+        elif event == 'os.rename':
+            check_path(event, args[0], True)
+            check_path(event, args[1], True)
+        elif event in write_events:
+            check_path(event, args[0], True)
+        elif event in read_events:
+            check_path(event, args[0], False)
+        elif event == 'sqlite3.connect':
+            database = args[0]
+            if database != ':memory:' and database != '':
+                check_path(event, database, True)
+        elif event == 'import':
+            name, filename = args[0], args[1]
+            if get_type(name) is text_type and name.rpartition('.')[2] in blocked_modules:
+                raise import_denied('Importing ' + name + ' is not allowed in the sandbox', name=name)
+            # Native extensions only load from the Python installation
+            if get_type(filename) is text_type and filename.endswith(extension_suffixes):
+                normalized = normalize(filename, work_dir)
+                if normalized is None or inside(normalized, (work_dir,)) or not inside(normalized, library_dirs):
+                    raise import_denied('Loading ' + filename + ' is not allowed in the sandbox', name=name)
+
+    if not windows:
+        # Spawns processes without an audit event; subprocess itself is refused by its own event
+        import _posixsubprocess
+
+        def fork_exec(*args):
+            raise denied('Starting processes is not allowed in the sandbox')
+
+        _posixsubprocess.fork_exec = fork_exec
+        try:
+            import resource
+            for limit, value in ((resource.RLIMIT_AS, 1 << 30), (resource.RLIMIT_FSIZE, 64 << 20)):
+                resource.setrlimit(limit, (value, value))
+        except (ImportError, ValueError, OSError):
+            pass
+
+    sys.addaudithook(hook)
+
+_code = sys.stdin.read()
+_install_sandbox()
+del _install_sandbox
+_module = type(sys)('__main__')
+sys.modules['__main__'] = _module
+try:
+    exec(compile(_code, '<code>', 'exec'), _module.__dict__)
+except SystemExit:
+    raise
+except BaseException as _error:
+    sys.__excepthook__(type(_error), _error, _error.__traceback__.tb_next)
+    sys.exit(1)
+`;
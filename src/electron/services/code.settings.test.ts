@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeSettingsService } from './code.settings';
+
+// Mock Electron's app module
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => '/mock/user/data'),
+  },
+}));
+
+describe('CodeSettingsService', () => {
+  let tempDir: string;
+  let configPath: string;
+  let service: CodeSettingsService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-settings-'));
+    configPath = path.join(tempDir, 'code-settings.json');
+    service = new CodeSettingsService(configPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should not allow running code by default', () => {
+    expect(service.getSettings()).toEqual({ allowRun: false });
+  });
+
+  it('should save the settings', () => {
+    expect(service.updateSettings({ allowRun: true })).toEqual({ allowRun: true });
+
+    expect(new CodeSettingsService(configPath).getSettings()).toEqual({ allowRun: true });
+  });
+
+  it('should fall back to the defaults when the file cannot be read', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(configPath, '{ not json');
+
+    expect(service.getSettings()).toEqual({ allowRun: false });
+    expect(console.error).toHaveBeenCalledWith('Failed to read code settings:', expect.any(SyntaxError));
+    (console.error as jest.Mock).mockRestore();
+  });
+});
@@ -0,0 +1,49 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_CODE_SETTINGS, mergeCodeSettings } from './code.helpers';
+import type { CodeSettings } from './code.helpers';
+
+/**
+ * Reads and saves the code block settings in code-settings.json
+ */
+export class CodeSettingsService {
+  constructor(private readonly configPath?: string) {}
+
+  getSettings(): CodeSettings {
+    const configPath = this.getConfigPath();
+    if (!fs.existsSync(configPath)) {
+      return { ...DEFAULT_CODE_SETTINGS };
+    }
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(configPath, 'utf-8')) || {};
+      return mergeCodeSettings(DEFAULT_CODE_SETTINGS, stored);
+    } catch (error) {
+      console.error('Failed to read code settings:', error);
+      return { ...DEFAULT_CODE_SETTINGS };
+    }
+  }
+
+  updateSettings(changes: Partial<CodeSettings>): CodeSettings {
+    const settings = mergeCodeSettings(this.getSettings(), changes);
+    const configPath = this.getConfigPath();
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify(settings, null, 2));
+    return settings;
+  }
+
+  private getConfigPath(): string {
+    if (this.configPath) return this.configPath;
+
+    const isDev = process.env.NODE_ENV === 'development';
+    if (isDev) {
+      return path.join(process.cwd(), 'code-settings.json');
+    } else {
+      return path.join(app.getPath('userData'), 'code-settings.json');
+    }
+  }
+}
+
+export const codeSettingsService = new CodeSettingsService();
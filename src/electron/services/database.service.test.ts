@@ -0,0 +1,179 @@
+import { DatabaseService } from './database.service';
+import { PrismaClient } from '../generated/prisma';
+import * as fs from 'fs';
+
+// Mock Electron's app module
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => '/mock/user/data'),
+  },
+}));
+
+// Mock fs module
+jest.mock('fs');
+
+// Mock PrismaClient
+jest.mock('../generated/prisma', () => {
+  const mockPrismaClient = {
+    $connect: jest.fn(),
+    $disconnect: jest.fn(),
+    $queryRawUnsafe: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+describe('DatabaseService', () => {
+  let database: DatabaseService;
+  let mockPrisma: any;
+  const originalEnv = process.env.NODE_ENV;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NODE_ENV = 'production';
+
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.mkdirSync as jest.Mock).mockReturnValue(undefined);
+
+    database = new DatabaseService();
+    mockPrisma = database.client;
+
+    mockPrisma.$connect.mockResolvedValue(undefined);
+    mockPrisma.$disconnect.mockResolvedValue(undefined);
+    mockPrisma.$queryRawUnsafe.mockResolvedValue([]);
+    mockPrisma.$transaction.mockImplementation((fn: (tx: any) => Promise<unknown>) => fn(mockPrisma));
+
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env.NODE_ENV = originalEnv;
+  });
+
+  describe('getDatabasePath', () => {
+    it('should return the project database in development', () => {
+      process.env.NODE_ENV = 'development';
+
+      expect(database.getDatabasePath()).toBe(`${process.cwd()}/prisma/database.db`);
+    });
+
+    it('should return the userData database in production', () => {
+      expect(database.getDatabasePath()).toBe('/mock/user/data/database.db');
+    });
+  });
+
+  describe('getDatabaseUrl', () => {
+    it('should use a single connection', () => {
+      expect(database.getDatabaseUrl()).toBe('file:/mock/user/data/database.db?connection_limit=1');
+    });
+
+    it('should be given to the client', () => {
+      expect(PrismaClient).toHaveBeenCalledWith({
+        datasources: { db: { url: 'file:/mock/user/data/database.db?connection_limit=1' } },
+      });
+    });
+  });
+
+  describe('connect', () => {
+    it('should connect and enable WAL mode and the busy timeout', async () => {
+      await database.connect();
+
+      expect(mockPrisma.$connect).toHaveBeenCalled();
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith('PRAGMA journal_mode = WAL');
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith('PRAGMA busy_timeout = 5000');
+    });
+
+    it('should share one connection between callers', async () => {
+      await Promise.all([database.connect(), database.connect()]);
+      await database.connect();
+
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create the database directory if it does not exist', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      await database.connect();
+
+      expect(fs.mkdirSync).toHaveBeenCalledWith('/mock/user/data', { recursive: true });
+      expect(console.log).toHaveBeenCalledWith('Creating new database at:', '/mock/user/data/database.db');
+    });
+
+    it('should rethrow connection errors and retry on the next call', async () => {
+      mockPrisma.$connect.mockRejectedValueOnce(new Error('Connection failed'));
+
+      await expect(database.connect()).rejects.toThrow('Connection failed');
+      expect(console.error).toHaveBeenCalledWith('Failed to connect to database:', expect.any(Error));
+
+      await database.connect();
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('transaction', () => {
+    it('should connect and run the callback in a transaction', async () => {
+      const result = await database.transaction(async (tx) => {
+        expect(tx).toBe(mockPrisma);
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(mockPrisma.$connect).toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 10000 });
+    });
+
+    it('should pass the timeout option', async () => {
+      await database.transaction(async () => undefined, { timeout: 60000 });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 60000 });
+    });
+
+    it('should reject when the callback throws', async () => {
+      await expect(database.transaction(async () => {
+        throw new Error('Rolled back');
+      })).rejects.toThrow('Rolled back');
+    });
+  });
+
+  describe('compact', () => {
+    it('should rewrite the database file and truncate the write-ahead log', async () => {
+      await database.compact();
+
+      expect(mockPrisma.$connect).toHaveBeenCalled();
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith('VACUUM');
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenLastCalledWith('PRAGMA wal_checkpoint(TRUNCATE)');
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should disconnect when connected', async () => {
+      await database.connect();
+
+      await database.disconnect();
+
+      expect(mockPrisma.$disconnect).toHaveBeenCalled();
+    });
+
+    it('should not disconnect when not connected', async () => {
+      await database.disconnect();
+
+      expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect after a disconnect', async () => {
+      await database.connect();
+      await database.disconnect();
+      await database.connect();
+
+      expect(mockPrisma.$connect).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { PrismaClient } from '../generated/prisma';
+import type { Prisma } from '../generated/prisma';
+import * as path from 'path';
+import * as fs from 'fs';
+import { app } from 'electron';
+
+export type TransactionClient = Prisma.TransactionClient;
+
+export interface TransactionOptions {
+  timeout?: number; // Milliseconds before the transaction is rolled back
+}
+
+const BUSY_TIMEOUT_MS = 5000;
+const DEFAULT_TRANSACTION_TIMEOUT_MS = 10000;
+
+/**
+ * Owns the single connection to database.db shared by every service.
+ * The connection pool is limited to one connection so writes from different services
+ * are serialized instead of failing with "database is locked".
+ */
+export class DatabaseService {
+  private prisma: PrismaClient;
+  private connection: Promise<void> | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      datasources: {
+        db: {
+          url: this.getDatabaseUrl(),
+        },
+      },
+    });
+  }
+
+  get client(): PrismaClient {
+    return this.prisma;
+  }
+
+  getDatabasePath(): string {
+    const isDev = process.env.NODE_ENV === 'development';
+
+    if (isDev) {
+      return path.join(process.cwd(), 'prisma', 'database.db');
+    }
+
+    const userDataPath = app.getPath('userData');
+    return path.join(userDataPath, 'database.db');
+  }
+
+  getDatabaseUrl(): string {
+    return `file:${this.getDatabasePath()}?connection_limit=1`;
+  }
+
+  /**
+   * Open the connection and configure it. Concurrent and repeated calls share the same connection.
+   */
+  async connect(): Promise<void> {
+    if (!this.connection) {
+      this.connection = this.openConnection().catch((error) => {
+        this.connection = null;
+        throw error;
+      });
+    }
+
+    return this.connection;
+  }
+
+  private async openConnection(): Promise<void> {
+    try {
+      this.ensureDatabaseDirectoryExists();
+      await this.prisma.$connect();
+
+      // Both pragmas return a row, which $executeRaw does not allow on SQLite
+      await this.prisma.$queryRawUnsafe('PRAGMA journal_mode = WAL');
+      await this.prisma.$queryRawUnsafe(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+      console.log('Database connected:', this.getDatabasePath());
+    } catch (error) {
+      console.error('Failed to connect to database:', error);
+      throw error;
+    }
+  }
+
+  private ensureDatabaseDirectoryExists(): void {
+    const dbPath = this.getDatabasePath();
+    const dbDir = path.dirname(dbPath);
+
+    if (!fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+    }
+
+    if (!fs.existsSync(dbPath)) {
+      console.log('Creating new database at:', dbPath);
+    }
+  }
+
+  /**
+   * Run `fn` in a transaction: every query made through `tx` is rolled back if it throws
+   */
+  async transaction<T>(fn: (tx: TransactionClient) => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    await this.connect();
+
+    return this.prisma.$transaction(fn, {
+      timeout: options.timeout ?? DEFAULT_TRANSACTION_TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Rewrite the database file and truncate the write-ahead log,
+   * so deleted or overwritten content does not stay in free pages
+   */
+  async compact(): Promise<void> {
+    await this.connect();
+
+    // VACUUM cannot run in a transaction, and the checkpoint returns a row
+    await this.prisma.$queryRawUnsafe('VACUUM');
+    await this.prisma.$queryRawUnsafe('PRAGMA wal_checkpoint(TRUNCATE)');
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connection) {
+      this.connection = null;
+      await this.prisma.$disconnect();
+    }
+  }
+}
+
+export const databaseService = new DatabaseService();
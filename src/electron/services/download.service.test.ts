@@ -0,0 +1,448 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import {
+  DownloadOptions,
+  DownloadQueue,
+  DownloadState,
+  computeSha256,
+  downloadFile,
+  getPartPath,
+  getResponseValidator,
+  getValidatorPath,
+  parseContentRangeTotal,
+} from './download.service';
+
+const payload = crypto.randomBytes(256 * 1024);
+const payloadSha256 = crypto.createHash('sha256').update(payload).digest('hex');
+
+/**
+ * Local stand-in for the model host: serves `payload` with Range and If-Range support.
+ * `dropAfter` closes the connection after that many bytes of the body to simulate a dropped download,
+ * and changing `etag` simulates a new version of the file.
+ */
+interface ServerOptions {
+  dropAfter?: number;
+  ignoreRange?: boolean;
+  delayMs?: number;
+  etag?: string;
+}
+
+function startServer(options: ServerOptions = {}) {
+  const requests: Array<{ url: string; range?: string; ifRange?: string }> = [];
+  options.etag ??= '"v1"';
+
+  const server = http.createServer((req, res) => {
+    requests.push({ url: req.url!, range: req.headers.range, ifRange: req.headers['if-range'] });
+
+    if (req.url === '/redirect') {
+      res.writeHead(302, { Location: '/model.gguf' });
+      return res.end();
+    }
+    if (req.url === '/redirect-loop') {
+      res.writeHead(302, { Location: '/redirect-loop' });
+      return res.end();
+    }
+    if (req.url === '/no-location') {
+      res.writeHead(302);
+      return res.end();
+    }
+    if (req.url !== '/model.gguf') {
+      res.writeHead(404);
+      return res.end();
+    }
+
+    let start = 0;
+    const range = req.headers.range?.match(/^bytes=(\d+)-$/);
+    const unchanged = req.headers['if-range'] === undefined || req.headers['if-range'] === options.etag;
+    if (range && unchanged && !options.ignoreRange) {
+      start = parseInt(range[1], 10);
+      if (start >= payload.length) {
+        res.writeHead(416, { 'Content-Range': `bytes */${payload.length}` });
+        return res.end();
+      }
+      res.writeHead(206, {
+        'Content-Length': payload.length - start,
+        'Content-Range': `bytes ${start}-${payload.length - 1}/${payload.length}`,
+        ETag: options.etag,
+      });
+    } else {
+      res.writeHead(200, { 'Content-Length': payload.length, ETag: options.etag });
+    }
+
+    const body = payload.subarray(start);
+    if (options.dropAfter !== undefined) {
+      res.write(body.subarray(0, options.dropAfter), () => res.destroy());
+      return;
+    }
+    if (options.delayMs) {
+      // Send the body in slow chunks so the download can be paused midway
+      let offset = 0;
+      const timer = setInterval(() => {
+        if (res.destroyed) return clearInterval(timer);
+        const chunk = body.subarray(offset, offset + 16 * 1024);
+        offset += chunk.length;
+        if (offset >= body.length) {
+          clearInterval(timer);
+          res.end(chunk);
+        } else {
+          res.write(chunk);
+        }
+      }, options.delayMs);
+      res.on('close', () => clearInterval(timer));
+      return;
+    }
+    res.end(body);
+  });
+
+  return new Promise<{ server: http.Server; baseUrl: string; requests: typeof requests; options: ServerOptions }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests, options });
+    });
+  });
+}
+
+function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - started > timeoutMs) return reject(new Error('Timed out'));
+      setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+describe('download.service', () => {
+  let tempDir: string;
+  let destPath: string;
+  let stand: Awaited<ReturnType<typeof startServer>>;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'download-test-'));
+    destPath = path.join(tempDir, 'model.gguf');
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    if (stand) {
+      stand.server.closeAllConnections();
+      await new Promise((resolve) => stand.server.close(resolve));
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('helpers', () => {
+    it('should name the part file after the destination', () => {
+      expect(getPartPath('/models/a.gguf')).toBe('/models/a.gguf.part');
+    });
+
+    it('should parse the total size of a Content-Range header', () => {
+      expect(parseContentRangeTotal('bytes 100-199/200')).toBe(200);
+      expect(parseContentRangeTotal('bytes */200')).toBe(200);
+      expect(parseContentRangeTotal(undefined)).toBe(0);
+    });
+
+    it('should prefer a strong ETag as the validator of a response', () => {
+      const lastModified = 'Wed, 21 Oct 2026 07:28:00 GMT';
+
+      expect(getResponseValidator({ etag: '"abc"', 'last-modified': lastModified })).toBe('"abc"');
+      expect(getResponseValidator({ etag: 'W/"abc"', 'last-modified': lastModified })).toBe(lastModified);
+      expect(getResponseValidator({ etag: 'W/"abc"' })).toBeNull();
+      expect(getResponseValidator({})).toBeNull();
+    });
+
+    it('should compute the SHA-256 of a file', async () => {
+      fs.writeFileSync(destPath, payload);
+
+      await expect(computeSha256(destPath)).resolves.toBe(payloadSha256);
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should download and verify a file', async () => {
+      stand = await startServer();
+      const onProgress = jest.fn();
+      const onVerify = jest.fn();
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256, onProgress, onVerify });
+
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+      expect(fs.existsSync(getPartPath(destPath))).toBe(false);
+      expect(fs.existsSync(getValidatorPath(getPartPath(destPath)))).toBe(false);
+      expect(onProgress).toHaveBeenLastCalledWith(payload.length, payload.length);
+      expect(onVerify).toHaveBeenCalled();
+    });
+
+    it('should accept an uppercase checksum', async () => {
+      stand = await startServer();
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256.toUpperCase() });
+
+      expect(fs.existsSync(destPath)).toBe(true);
+    });
+
+    it('should skip verification without a checksum', async () => {
+      stand = await startServer();
+      const onVerify = jest.fn();
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { onVerify });
+
+      expect(fs.existsSync(destPath)).toBe(true);
+      expect(onVerify).not.toHaveBeenCalled();
+    });
+
+    it('should keep the part file when the connection drops and resume with a Range request', async () => {
+      stand = await startServer({ dropAfter: 100 * 1024 });
+
+      await expect(downloadFile(`${stand.baseUrl}/model.gguf`, destPath)).rejects.toThrow();
+      const partSize = fs.statSync(getPartPath(destPath)).size;
+      expect(partSize).toBeGreaterThan(0);
+      expect(partSize).toBeLessThan(payload.length);
+      expect(fs.existsSync(destPath)).toBe(false);
+
+      stand.options.dropAfter = undefined;
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256 });
+
+      expect(stand.requests[1]).toEqual({ url: '/model.gguf', range: `bytes=${partSize}-`, ifRange: '"v1"' });
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should start over when the file changed since the part file was started', async () => {
+      stand = await startServer({ dropAfter: 100 * 1024 });
+
+      await expect(downloadFile(`${stand.baseUrl}/model.gguf`, destPath)).rejects.toThrow();
+      stand.options.dropAfter = undefined;
+      stand.options.etag = '"v2"';
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256 });
+
+      expect(stand.requests[1].ifRange).toBe('"v1"');
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should start over when the server ignores the range', async () => {
+      stand = await startServer({ ignoreRange: true });
+      fs.writeFileSync(getPartPath(destPath), Buffer.from('stale bytes'));
+      fs.writeFileSync(getValidatorPath(getPartPath(destPath)), '"v1"');
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256 });
+
+      expect(stand.requests[0].range).toBe('bytes=11-');
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should start over when the part file has no validator', async () => {
+      stand = await startServer();
+      fs.writeFileSync(getPartPath(destPath), Buffer.from('stale bytes'));
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256 });
+
+      expect(stand.requests[0].range).toBeUndefined();
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should finish a part file that is already complete', async () => {
+      stand = await startServer();
+      fs.writeFileSync(getPartPath(destPath), payload);
+      fs.writeFileSync(getValidatorPath(getPartPath(destPath)), '"v1"');
+
+      await downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: payloadSha256 });
+
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should delete the part file when the checksum does not match', async () => {
+      stand = await startServer();
+
+      await expect(downloadFile(`${stand.baseUrl}/model.gguf`, destPath, { sha256: 'a'.repeat(64) }))
+        .rejects.toThrow('Checksum mismatch');
+
+      expect(fs.existsSync(getPartPath(destPath))).toBe(false);
+      expect(fs.existsSync(destPath)).toBe(false);
+    });
+
+    it('should follow redirects', async () => {
+      stand = await startServer();
+
+      await downloadFile(`${stand.baseUrl}/redirect`, destPath);
+
+      expect(stand.requests.map((request) => request.url)).toEqual(['/redirect', '/model.gguf']);
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should reject redirects without location and redirect loops', async () => {
+      stand = await startServer();
+
+      await expect(downloadFile(`${stand.baseUrl}/no-location`, destPath)).rejects.toThrow('Redirect without location header');
+      await expect(downloadFile(`${stand.baseUrl}/redirect-loop`, destPath)).rejects.toThrow('Too many redirects');
+    });
+
+    it('should reject error statuses', async () => {
+      stand = await startServer();
+
+      await expect(downloadFile(`${stand.baseUrl}/missing.gguf`, destPath)).rejects.toThrow('Failed to download: 404');
+    });
+
+    it('should stop when aborted and keep the part file', async () => {
+      stand = await startServer({ delayMs: 5 });
+      const controller = new AbortController();
+
+      const download = downloadFile(`${stand.baseUrl}/model.gguf`, destPath, {
+        signal: controller.signal,
+        onProgress: (downloadedBytes) => {
+          if (downloadedBytes >= 32 * 1024) controller.abort();
+        },
+      });
+
+      await expect(download).rejects.toThrow();
+      expect(fs.existsSync(getPartPath(destPath))).toBe(true);
+      expect(fs.existsSync(destPath)).toBe(false);
+    });
+  });
+
+  describe('DownloadQueue', () => {
+    let updates: DownloadState[];
+    let queue: DownloadQueue;
+
+    const statusesOf = (id: string) => updates.filter((update) => update.id === id).map((update) => update.status);
+    const lastStatusOf = (id: string) => statusesOf(id).pop();
+
+    beforeEach(() => {
+      updates = [];
+      queue = new DownloadQueue((state) => updates.push(state));
+    });
+
+    it('should download, verify and report progress', async () => {
+      stand = await startServer();
+      const onComplete = jest.fn();
+
+      queue.enqueue({ id: 'model', url: `${stand.baseUrl}/model.gguf`, destPath, sha256: payloadSha256 }, onComplete);
+      await waitFor(() => lastStatusOf('model') === 'completed');
+
+      expect(statusesOf('model')).toEqual(expect.arrayContaining(['queued', 'downloading', 'verifying', 'completed']));
+      expect(updates.some((update) => update.progress > 0 && update.progress < 100)).toBe(true);
+      expect(onComplete).toHaveBeenCalled();
+      expect(queue.list()).toEqual([]);
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should run one download at a time, in order', async () => {
+      stand = await startServer();
+      const secondPath = path.join(tempDir, 'second.gguf');
+
+      queue.enqueue({ id: 'first', url: `${stand.baseUrl}/model.gguf`, destPath });
+      queue.enqueue({ id: 'second', url: `${stand.baseUrl}/model.gguf`, destPath: secondPath });
+
+      expect(queue.list().map((state) => state.status)).toEqual(['downloading', 'queued']);
+      await waitFor(() => lastStatusOf('second') === 'completed');
+
+      const firstCompleted = updates.findIndex((update) => update.id === 'first' && update.status === 'completed');
+      const secondStarted = updates.findIndex((update) => update.id === 'second' && update.status === 'downloading');
+      expect(firstCompleted).toBeLessThan(secondStarted);
+      expect(fs.existsSync(secondPath)).toBe(true);
+    });
+
+    it('should refuse to queue the same download twice', async () => {
+      stand = await startServer({ delayMs: 5 });
+
+      queue.enqueue({ id: 'model', url: `${stand.baseUrl}/model.gguf`, destPath });
+
+      expect(() => queue.enqueue({ id: 'model', url: `${stand.baseUrl}/model.gguf`, destPath }))
+        .toThrow('Download already in progress: model');
+      queue.cancel('model');
+    });
+
+    it('should pause and resume from the part file', async () => {
+      stand = await startServer({ delayMs: 5 });
+
+      queue.enqueue({ id: 'model', url: `${stand.baseUrl}/model.gguf`, destPath, sha256: payloadSha256 });
+      await waitFor(() => updates.some((update) => update.downloadedBytes >= 32 * 1024));
+
+      queue.pause('model');
+      expect(queue.list()[0].status).toBe('paused');
+      await waitFor(() => stand.requests.length === 1 && fs.existsSync(getPartPath(destPath)));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const partSize = fs.statSync(getPartPath(destPath)).size;
+      expect(partSize).toBeGreaterThan(0);
+
+      stand.options.delayMs = 0;
+      queue.resume('model');
+      await waitFor(() => lastStatusOf('model') === 'completed');
+
+      expect(stand.requests[1].range).toBe(`bytes=${partSize}-`);
+      expect(fs.readFileSync(destPath).equals(payload)).toBe(true);
+    });
+
+    it('should cancel a running download and delete its part file', async () => {
+      stand = await startServer({ delayMs: 5 });
+
+      queue.enqueue({ id: 'model', url: `${stand.baseUrl}/model.gguf`, destPath });
+      await waitFor(() => updates.some((update) => update.downloadedBytes > 0));
+
+      queue.cancel('model');
+
+      expect(lastStatusOf('model')).toBe('canceled');
+      expect(queue.list()).toEqual([]);
+      await waitFor(() => !fs.existsSync(getPartPath(destPath)));
+      expect(fs.existsSync(destPath)).toBe(false);
+    });
+
+    it('should cancel a paused download and delete its part file', async () => {
+      fs.writeFileSync(getPartPath(destPath), Buffer.from('partial'));
+      fs.writeFileSync(getValidatorPath(getPartPath(destPath)), '"v1"');
+      const download = jest.fn((_url: string, _destPath: string, options: DownloadOptions = {}) =>
+        new Promise<void>((_resolve, reject) => options.signal?.addEventListener('abort', () => reject(new Error('Aborted'))))
+      );
+      queue = new DownloadQueue((state) => updates.push(state), download);
+
+      queue.enqueue({ id: 'model', url: 'http://127.0.0.1/model.gguf', destPath });
+      expect(updates[0].downloadedBytes).toBe(7);
+      queue.pause('model');
+      queue.cancel('model');
+
+      await waitFor(() => !fs.existsSync(getPartPath(destPath)));
+      expect(fs.existsSync(getValidatorPath(getPartPath(destPath)))).toBe(false);
+    });
+
+    it('should report failures and allow retrying', async () => {
+      const download = jest.fn()
+        .mockRejectedValueOnce(new Error('Failed to download: 500'))
+        .mockResolvedValueOnce(undefined);
+      queue = new DownloadQueue((state) => updates.push(state), download);
+
+      queue.enqueue({ id: 'model', url: 'http://127.0.0.1/model.gguf', destPath });
+      await waitFor(() => lastStatusOf('model') === 'failed');
+
+      expect(queue.list()[0]).toEqual(expect.objectContaining({ status: 'failed', error: 'Failed to download: 500' }));
+      expect(console.error).toHaveBeenCalledWith('Failed to download file:', expect.any(Error));
+
+      queue.resume('model');
+      await waitFor(() => lastStatusOf('model') === 'completed');
+      expect(download).toHaveBeenCalledTimes(2);
+    });
+
+    it('should allow queueing a failed download again', async () => {
+      const download = jest.fn()
+        .mockRejectedValueOnce(new Error('Offline'))
+        .mockResolvedValueOnce(undefined);
+      queue = new DownloadQueue((state) => updates.push(state), download);
+
+      queue.enqueue({ id: 'model', url: 'http://127.0.0.1/model.gguf', destPath });
+      await waitFor(() => lastStatusOf('model') === 'failed');
+      queue.enqueue({ id: 'model', url: 'http://127.0.0.1/model.gguf', destPath });
+      await waitFor(() => lastStatusOf('model') === 'completed');
+    });
+
+    it('should throw for unknown downloads', () => {
+      expect(() => queue.pause('unknown')).toThrow('No download for unknown');
+      expect(() => queue.resume('unknown')).toThrow('No download for unknown');
+      expect(() => queue.cancel('unknown')).toThrow('No download for unknown');
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+
+export interface DownloadOptions {
+  sha256?: string | null; // Expected hex digest of the whole file, skipped when missing
+  signal?: AbortSignal;
+  onProgress?: (downloadedBytes: number, totalBytes: number) => void; // totalBytes is 0 when unknown
+  onVerify?: () => void;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'canceled';
+
+export interface DownloadRequest {
+  id: string;
+  url: string;
+  destPath: string;
+  sha256?: string | null;
+}
+
+export interface DownloadState {
+  id: string;
+  status: DownloadStatus;
+  downloadedBytes: number;
+  totalBytes: number;
+  progress: number; // 0-100
+  error?: string;
+}
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+/**
+ * Data is written next to the destination and only renamed once complete and verified,
+ * so an interrupted download can be resumed and never looks installed
+ */
+export function getPartPath(destPath: string): string {
+  return `${destPath}.part`;
+}
+
+function getPartSize(partPath: string): number {
+  return fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+}
+
+/**
+ * The validator of the response a part file was started from, sent back as `If-Range`
+ * so the server only resumes when the remote file has not changed since
+ */
+export function getValidatorPath(partPath: string): string {
+  return `${partPath}.validator`;
+}
+
+/**
+ * If-Range only accepts a strong ETag, so a weak one falls back to Last-Modified
+ */
+export function getResponseValidator(headers: http.IncomingHttpHeaders): string | null {
+  const etag = headers.etag;
+  if (etag && !etag.startsWith('W/')) {
+    return etag;
+  }
+  return headers['last-modified'] || null;
+}
+
+function readValidator(partPath: string): string | null {
+  const validatorPath = getValidatorPath(partPath);
+  return fs.existsSync(validatorPath) ? fs.readFileSync(validatorPath, 'utf-8') : null;
+}
+
+function saveValidator(partPath: string, validator: string | null): void {
+  if (validator) {
+    fs.writeFileSync(getValidatorPath(partPath), validator);
+  } else {
+    removeValidator(partPath);
+  }
+}
+
+function removeValidator(partPath: string): void {
+  fs.rmSync(getValidatorPath(partPath), { force: true });
+}
+
+/**
+ * Total size from a `Content-Range: bytes 100-199/200` (or `bytes *\/200`) header
+ */
+export function parseContentRangeTotal(header: string | undefined): number {
+  const match = header?.match(/\/(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+export async function computeSha256(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Download `url` to `destPath`, resuming from the `.part` file left by a previous attempt
+ * with an HTTP Range request guarded by If-Range. The `.part` file is kept when the download
+ * fails or is aborted, and deleted when the checksum does not match.
+ */
+export async function downloadFile(url: string, destPath: string, options: DownloadOptions = {}): Promise<void> {
+  const partPath = getPartPath(destPath);
+  await downloadToPartFile(url, partPath, options, MAX_REDIRECTS);
+  removeValidator(partPath);
+
+  if (options.sha256) {
+    options.onVerify?.();
+    const actual = await computeSha256(partPath);
+    if (actual !== options.sha256.toLowerCase()) {
+      fs.unlinkSync(partPath);
+      throw new Error(`Checksum mismatch: expected ${options.sha256}, got ${actual}`);
+    }
+  }
+
+  fs.renameSync(partPath, destPath);
+}
+
+function downloadToPartFile(url: string, partPath: string, options: DownloadOptions, redirectsLeft: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Without the validator of the first response, the part file may belong to another version of the file
+    const validator = readValidator(partPath);
+    const offset = validator ? getPartSize(partPath) : 0;
+    const client = url.startsWith('https:') ? https : http;
+    const headers: Record<string, string> = offset > 0 ? { Range: `bytes=${offset}-`, 'If-Range': validator! } : {};
+    let onError = reject;
+
+    const request = client.get(url, { headers, signal: options.signal }, (response) => {
+      const statusCode = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUS_CODES.includes(statusCode)) {
+        response.resume();
+        const location = response.headers.location;
+        if (!location) {
+          return reject(new Error('Redirect without location header'));
+        }
+        if (redirectsLeft <= 0) {
+          return reject(new Error('Too many redirects'));
+        }
+        const redirectUrl = new URL(location, url).toString();
+        return downloadToPartFile(redirectUrl, partPath, options, redirectsLeft - 1).then(resolve, reject);
+      }
+
+      // The requested range starts at the end of the file: the part file is already complete
+      if (statusCode === 416 && offset > 0) {
+        response.resume();
+        if (parseContentRangeTotal(response.headers['content-range']) === offset) {
+          options.onProgress?.(offset, offset);
+          return resolve();
+        }
+        fs.unlinkSync(partPath);
+        return downloadToPartFile(url, partPath, options, redirectsLeft).then(resolve, reject);
+      }
+
+      if (statusCode !== 200 && statusCode !== 206) {
+        response.resume();
+        return reject(new Error(`Failed to download: ${statusCode}`));
+      }
+
+      // A 200 means the server ignored the range or the file changed since the part file was started: start over
+      const resumed = statusCode === 206;
+      if (!resumed) {
+        try {
+          saveValidator(partPath, getResponseValidator(response.headers));
+        } catch (error) {
+          response.resume();
+          return reject(error);
+        }
+      }
+      let downloadedBytes = resumed ? offset : 0;
+      const contentLength = parseInt(response.headers['content-length'] || '0', 10);
+      const totalBytes = resumed
+        ? parseContentRangeTotal(response.headers['content-range']) || (contentLength > 0 ? offset + contentLength : 0)
+        : contentLength;
+
+      response.on('data', (chunk: Buffer) => {
+        downloadedBytes += chunk.length;
+        options.onProgress?.(downloadedBytes, totalBytes);
+      });
+
+      // Data received before a failure is flushed to the part file so the next attempt can resume from it
+      const file = fs.createWriteStream(partPath, { flags: resumed ? 'a' : 'w' });
+      let failed = false;
+      const fail = (error: Error) => {
+        if (failed) return;
+        failed = true;
+        response.unpipe(file);
+        file.end(() => reject(error));
+      };
+
+      onError = fail;
+      response.on('error', fail);
+      response.on('aborted', () => fail(new Error('Connection closed before the download completed')));
+      file.on('error', (error) => {
+        failed = true;
+        response.destroy();
+        reject(error);
+      });
+      file.on('finish', () => {
+        if (failed) return;
+        if (totalBytes > 0 && downloadedBytes < totalBytes) {
+          reject(new Error('Connection closed before the download completed'));
+        } else {
+          resolve();
+        }
+      });
+      response.pipe(file);
+    });
+
+    request.on('error', (error) => onError(error));
+  });
+}
+
+interface QueueEntry {
+  request: DownloadRequest;
+  state: DownloadState;
+  controller: AbortController | null;
+  onComplete?: () => void | Promise<void>;
+}
+
+/**
+ * Downloads files one at a time, in the order they were queued.
+ * Every state change is reported through `onUpdate`; finished and canceled downloads leave the queue.
+ */
+export class DownloadQueue {
+  private entries = new Map<string, QueueEntry>();
+  private activeId: string | null = null;
+
+  constructor(
+    private readonly onUpdate: (state: DownloadState) => void,
+    private readonly download: typeof downloadFile = downloadFile
+  ) {}
+
+  enqueue(request: DownloadRequest, onComplete?: () => void | Promise<void>): DownloadState {
+    const existing = this.entries.get(request.id);
+    if (existing && existing.state.status !== 'failed') {
+      throw new Error(`Download already in progress: ${request.id}`);
+    }
+    this.entries.delete(request.id);
+
+    const entry: QueueEntry = {
+      request,
+      state: {
+        id: request.id,
+        status: 'queued',
+        downloadedBytes: getPartSize(getPartPath(request.destPath)),
+        totalBytes: 0,
+        progress: 0,
+      },
+      controller: null,
+      onComplete,
+    };
+    this.entries.set(request.id, entry);
+    this.emit(entry);
+    this.processNext();
+
+    return { ...entry.state };
+  }
+
+  /**
+   * Stop a download and keep its part file so it can be resumed
+   */
+  pause(id: string): void {
+    const entry = this.getEntry(id);
+    if (entry.state.status !== 'queued' && entry.state.status !== 'downloading') return;
+
+    this.setState(entry, { status: 'paused' });
+    entry.controller?.abort();
+  }
+
+  resume(id: string): void {
+    const entry = this.getEntry(id);
+    if (entry.state.status !== 'paused' && entry.state.status !== 'failed') return;
+
+    this.setState(entry, { status: 'queued', error: undefined });
+    this.processNext();
+  }
+
+  /**
+   * Stop a download and delete what was downloaded so far
+   */
+  cancel(id: string): void {
+    const entry = this.getEntry(id);
+
+    this.entries.delete(id);
+    this.setState(entry, { status: 'canceled' });
+    if (entry.controller) {
+      // The part file is deleted once the running download has released it
+      entry.controller.abort();
+    } else {
+      this.removePartFile(entry);
+    }
+  }
+
+  list(): DownloadState[] {
+    return [...this.entries.values()].map((entry) => ({ ...entry.state }));
+  }
+
+  private getEntry(id: string): QueueEntry {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error(`No download for ${id}`);
+    }
+    return entry;
+  }
+
+  private processNext(): void {
+    if (this.activeId) return;
+
+    const next = [...this.entries.values()].find((entry) => entry.state.status === 'queued');
+    if (!next) return;
+
+    this.activeId = next.request.id;
+    this.run(next).finally(() => {
+      this.activeId = null;
+      this.processNext();
+    });
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    const { request } = entry;
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.setState(entry, { status: 'downloading' });
+
+    try {
+      await this.download(request.url, request.destPath, {
+        sha256: request.sha256,
+        signal: controller.signal,
+        onProgress: (downloadedBytes, totalBytes) => this.updateProgress(entry, downloadedBytes, totalBytes),
+        onVerify: () => this.setState(entry, { status: 'verifying' }),
+      });
+
+      this.entries.delete(request.id);
+      this.setState(entry, { status: 'completed', progress: 100 });
+      await entry.onComplete?.();
+    } catch (error) {
+      // Paused or canceled: the part file is kept to resume later, or deleted on cancel
+      if (controller.signal.aborted) {
+        if (entry.state.status === 'canceled') {
+          this.removePartFile(entry);
+        }
+        return;
+      }
+
+      console.error('Failed to download file:', error);
+      this.setState(entry, { status: 'failed', error: (error as Error).message });
+    } finally {
+      entry.controller = null;
+    }
+  }
+
+  /**
+   * Progress is reported at most once per percent to avoid flooding the renderer
+   */
+  private updateProgress(entry: QueueEntry, downloadedBytes: number, totalBytes: number): void {
+    if (entry.state.status !== 'downloading') return;
+
+    const progress = totalBytes > 0 ? (downloadedBytes / totalBytes) * 100 : 0;
+    const changed = Math.floor(progress) !== Math.floor(entry.state.progress) || totalBytes !== entry.state.totalBytes;
+
+    entry.state = { ...entry.state, downloadedBytes, totalBytes, progress };
+    if (changed) {
+      this.emit(entry);
+    }
+  }
+
+  private setState(entry: QueueEntry, changes: Partial<DownloadState>): void {
+    entry.state = { ...entry.state, ...changes };
+    this.emit(entry);
+  }
+
+  private emit(entry: QueueEntry): void {
+    this.onUpdate({ ...entry.state });
+  }
+
+  private removePartFile(entry: QueueEntry): void {
+    try {
+      const partPath = getPartPath(entry.request.destPath);
+      if (fs.existsSync(partPath)) {
+        fs.unlinkSync(partPath);
+      }
+      removeValidator(partPath);
+    } catch (error) {
+      console.error('Failed to delete partial download:', error);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readGGUFMetadata } from './gguf.metadata';
+
+type TestValue =
+  | { type: 'uint32'; value: number }
+  | { type: 'uint64'; value: bigint }
+  | { type: 'float32'; value: number }
+  | { type: 'bool'; value: boolean }
+  | { type: 'string'; value: string }
+  | { type: 'string[]'; value: string[] }
+  | { type: 'int32[]'; value: number[] };
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function uint64(value: number | bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+function ggufString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf-8');
+  return Buffer.concat([uint64(bytes.length), bytes]);
+}
+
+function encodeValue(value: TestValue): Buffer {
+  switch (value.type) {
+    case 'uint32':
+      return Buffer.concat([uint32(4), uint32(value.value)]);
+    case 'uint64':
+      return Buffer.concat([uint32(10), uint64(value.value)]);
+    case 'float32': {
+      const buffer = Buffer.alloc(4);
+      buffer.writeFloatLE(value.value);
+      return Buffer.concat([uint32(6), buffer]);
+    }
+    case 'bool':
+      return Buffer.concat([uint32(7), Buffer.from([value.value ? 1 : 0])]);
+    case 'string':
+      return Buffer.concat([uint32(8), ggufString(value.value)]);
+    case 'string[]':
+      return Buffer.concat([uint32(9), uint32(8), uint64(value.value.length), ...value.value.map(ggufString)]);
+    case 'int32[]': {
+      const items = value.value.map((item) => {
+        const buffer = Buffer.alloc(4);
+        buffer.writeInt32LE(item);
+        return buffer;
+      });
+      return Buffer.concat([uint32(9), uint32(5), uint64(items.length), ...items]);
+    }
+  }
+}
+
+/**
+ * Build the header of a GGUF file: magic, version, counts, key-value pairs and tensor infos
+ */
+function buildGGUF(values: Record<string, TestValue>, tensors: number[][] = [], version = 3): Buffer {
+  const entries = Object.entries(values).map(([key, value]) => Buffer.concat([ggufString(key), encodeValue(value)]));
+  const tensorInfos = tensors.map((dimensions, i) =>
+    Buffer.concat([ggufString(`tensor.${i}`), uint32(dimensions.length), ...dimensions.map(uint64), uint32(0), uint64(0)])
+  );
+
+  return Buffer.concat([
+    Buffer.from('GGUF', 'ascii'),
+    uint32(version),
+    uint64(tensors.length),
+    uint64(entries.length),
+    ...entries,
+    ...tensorInfos,
+  ]);
+}
+
+describe('readGGUFMetadata', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gguf-test-'));
+    filePath = path.join(tempDir, 'model.gguf');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read the model metadata', () => {
+    fs.writeFileSync(filePath, buildGGUF({
+      'general.architecture': { type: 'string', value: 'llama' },
+      'general.name': { type: 'string', value: 'Llama 3.2 1B Instruct' },
+      'general.file_type': { type: 'uint32', value: 15 },
+      'general.license': { type: 'string', value: 'llama3.2' },
+      'llama.context_length': { type: 'uint32', value: 131072 },
+      'llama.rope.freq_base': { type: 'float32', value: 500000 },
+      'tokenizer.ggml.add_bos_token': { type: 'bool', value: true },
+      'tokenizer.ggml.tokens': { type: 'string[]', value: ['<s>', 'hello', 'world'] },
+      'tokenizer.ggml.token_type': { type: 'int32[]', value: [3, 1, 1] },
+      'tokenizer.chat_template': { type: 'string', value: '{% for message in messages %}{{ message.content }}{% endfor %}' },
+    }, [[2048, 128256], [2048]]));
+
+    expect(readGGUFMetadata(filePath)).toEqual({
+      architecture: 'llama',
+      name: 'Llama 3.2 1B Instruct',
+      parameterCount: 2048 * 128256 + 2048,
+      quantization: 'Q4_K_M',
+      contextLength: 131072,
+      chatTemplate: '{% for message in messages %}{{ message.content }}{% endfor %}',
+      license: 'llama3.2',
+    });
+  });
+
+  it('should return null for missing fields', () => {
+    fs.writeFileSync(filePath, buildGGUF({}));
+
+    expect(readGGUFMetadata(filePath)).toEqual({
+      architecture: null,
+      name: null,
+      parameterCount: null,
+      quantization: null,
+      contextLength: null,
+      chatTemplate: null,
+      license: null,
+    });
+  });
+
+  it('should read 64-bit context lengths and the license name field', () => {
+    fs.writeFileSync(filePath, buildGGUF({
+      'general.architecture': { type: 'string', value: 'qwen2' },
+      'general.license.name': { type: 'string', value: 'apache-2.0' },
+      'qwen2.context_length': { type: 'uint64', value: BigInt(32768) },
+    }));
+
+    const metadata = readGGUFMetadata(filePath);
+
+    expect(metadata.contextLength).toBe(32768);
+    expect(metadata.license).toBe('apache-2.0');
+  });
+
+  it('should skip tokenizer arrays larger than the read buffer', () => {
+    const tokens = Array.from({ length: 100000 }, (_, i) => `token-${i}`);
+    fs.writeFileSync(filePath, buildGGUF({
+      'general.architecture': { type: 'string', value: 'llama' },
+      'tokenizer.ggml.tokens': { type: 'string[]', value: tokens },
+      'tokenizer.chat_template': { type: 'string', value: 'template' },
+    }));
+
+    expect(readGGUFMetadata(filePath).chatTemplate).toBe('template');
+  });
+
+  it('should leave unknown file types unnamed', () => {
+    fs.writeFileSync(filePath, buildGGUF({ 'general.file_type': { type: 'uint32', value: 999 } }));
+
+    expect(readGGUFMetadata(filePath).quantization).toBeNull();
+  });
+
+  it('should reject files that are not GGUF', () => {
+    fs.writeFileSync(filePath, Buffer.from('not a model file at all'));
+
+    expect(() => readGGUFMetadata(filePath)).toThrow('Not a GGUF file');
+  });
+
+  it('should reject unsupported versions', () => {
+    fs.writeFileSync(filePath, buildGGUF({}, [], 1));
+
+    expect(() => readGGUFMetadata(filePath)).toThrow('Unsupported GGUF version: 1');
+  });
+
+  it('should reject truncated files', () => {
+    const header = buildGGUF({ 'general.name': { type: 'string', value: 'Truncated model' } });
+    fs.writeFileSync(filePath, header.subarray(0, header.length - 4));
+
+    expect(() => readGGUFMetadata(filePath)).toThrow('Unexpected end of GGUF file');
+  });
+
+  it('should close the file when reading fails', () => {
+    const closeSpy = jest.spyOn(fs, 'closeSync');
+    fs.writeFileSync(filePath, Buffer.from('nope'));
+
+    expect(() => readGGUFMetadata(filePath)).toThrow();
+    expect(closeSpy).toHaveBeenCalled();
+
+    closeSpy.mockRestore();
+  });
+});
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+
+/**
+ * Header fields of a GGUF model file, null when the file does not provide them
+ */
+export interface GGUFMetadata {
+  architecture: string | null;
+  name: string | null;
+  parameterCount: number | null; // Sum of the tensor sizes
+  quantization: string | null; // e.g. "Q4_K_M"
+  contextLength: number | null; // Context length the model was trained with
+  chatTemplate: string | null; // Jinja template used to format chats
+  license: string | null;
+}
+
+type GGUFValue = number | bigint | boolean | string | null;
+
+const GGUF_MAGIC = 'GGUF';
+const READ_CHUNK_SIZE = 1024 * 1024;
+const MAX_STRING_LENGTH = 64 * 1024 * 1024;
+
+enum GGUFValueType {
+  UINT8 = 0,
+  INT8 = 1,
+  UINT16 = 2,
+  INT16 = 3,
+  UINT32 = 4,
+  INT32 = 5,
+  FLOAT32 = 6,
+  BOOL = 7,
+  STRING = 8,
+  ARRAY = 9,
+  UINT64 = 10,
+  INT64 = 11,
+  FLOAT64 = 12,
+}
+
+const VALUE_SIZES: Partial<Record<GGUFValueType, number>> = {
+  [GGUFValueType.UINT8]: 1,
+  [GGUFValueType.INT8]: 1,
+  [GGUFValueType.UINT16]: 2,
+  [GGUFValueType.INT16]: 2,
+  [GGUFValueType.UINT32]: 4,
+  [GGUFValueType.INT32]: 4,
+  [GGUFValueType.FLOAT32]: 4,
+  [GGUFValueType.BOOL]: 1,
+  [GGUFValueType.UINT64]: 8,
+  [GGUFValueType.INT64]: 8,
+  [GGUFValueType.FLOAT64]: 8,
+};
+
+// Values of `general.file_type`, named after llama.cpp's LLAMA_FTYPE_MOSTLY_* constants
+const FILE_TYPES: Record<number, string> = {
+  0: 'F32',
+  1: 'F16',
+  2: 'Q4_0',
+  3: 'Q4_1',
+  7: 'Q8_0',
+  8: 'Q5_0',
+  9: 'Q5_1',
+  10: 'Q2_K',
+  11: 'Q3_K_S',
+  12: 'Q3_K_M',
+  13: 'Q3_K_L',
+  14: 'Q4_K_S',
+  15: 'Q4_K_M',
+  16: 'Q5_K_S',
+  17: 'Q5_K_M',
+  18: 'Q6_K',
+  19: 'IQ2_XXS',
+  20: 'IQ2_XS',
+  21: 'Q2_K_S',
+  22: 'IQ3_XS',
+  23: 'IQ3_XXS',
+  24: 'IQ1_S',
+  25: 'IQ4_NL',
+  26: 'IQ3_S',
+  27: 'IQ3_M',
+  28: 'IQ2_S',
+  29: 'IQ2_M',
+  30: 'IQ4_XS',
+  31: 'IQ1_M',
+  32: 'BF16',
+  36: 'TQ1_0',
+  37: 'TQ2_0',
+};
+
+/**
+ * Reads a file sequentially through a buffer, so skipping the large tokenizer arrays
+ * does not require loading the model into memory
+ */
+class BufferedFileReader {
+  private buffer = Buffer.alloc(0);
+  private bufferStart = 0;
+  private position = 0;
+
+  constructor(private readonly fd: number) {}
+
+  private ensure(length: number): Buffer {
+    const offset = this.position - this.bufferStart;
+    if (offset >= 0 && offset + length <= this.buffer.length) {
+      return this.buffer;
+    }
+
+    const buffer = Buffer.alloc(Math.max(length, READ_CHUNK_SIZE));
+    const bytesRead = fs.readSync(this.fd, buffer, 0, buffer.length, this.position);
+    if (bytesRead < length) {
+      throw new Error('Unexpected end of GGUF file');
+    }
+
+    this.buffer = buffer.subarray(0, bytesRead);
+    this.bufferStart = this.position;
+    return this.buffer;
+  }
+
+  private read<T>(length: number, parse: (buffer: Buffer, offset: number) => T): T {
+    const buffer = this.ensure(length);
+    const offset = this.position - this.bufferStart;
+    this.position += length;
+    return parse(buffer, offset);
+  }
+
+  skip(length: number): void {
+    this.position += length;
+  }
+
+  readUInt8(): number {
+    return this.read(1, (buffer, offset) => buffer.readUInt8(offset));
+  }
+
+  readUInt32(): number {
+    return this.read(4, (buffer, offset) => buffer.readUInt32LE(offset));
+  }
+
+  readUInt64(): bigint {
+    return this.read(8, (buffer, offset) => buffer.readBigUInt64LE(offset));
+  }
+
+  readLength(): number {
+    const length = this.readUInt64();
+    if (length > BigInt(MAX_STRING_LENGTH)) {
+      throw new Error('Invalid GGUF file');
+    }
+    return Number(length);
+  }
+
+  readString(): string {
+    const length = this.readLength();
+    return this.read(length, (buffer, offset) => buffer.toString('utf-8', offset, offset + length));
+  }
+
+  readValue(type: GGUFValueType): GGUFValue {
+    switch (type) {
+      case GGUFValueType.UINT8: return this.readUInt8();
+      case GGUFValueType.INT8: return this.read(1, (buffer, offset) => buffer.readInt8(offset));
+      case GGUFValueType.UINT16: return this.read(2, (buffer, offset) => buffer.readUInt16LE(offset));
+      case GGUFValueType.INT16: return this.read(2, (buffer, offset) => buffer.readInt16LE(offset));
+      case GGUFValueType.UINT32: return this.readUInt32();
+      case GGUFValueType.INT32: return this.read(4, (buffer, offset) => buffer.readInt32LE(offset));
+      case GGUFValueType.FLOAT32: return this.read(4, (buffer, offset) => buffer.readFloatLE(offset));
+      case GGUFValueType.BOOL: return this.readUInt8() !== 0;
+      case GGUFValueType.STRING: return this.readString();
+      case GGUFValueType.UINT64: return this.readUInt64();
+      case GGUFValueType.INT64: return this.read(8, (buffer, offset) => buffer.readBigInt64LE(offset));
+      case GGUFValueType.FLOAT64: return this.read(8, (buffer, offset) => buffer.readDoubleLE(offset));
+      case GGUFValueType.ARRAY:
+        this.skipArray();
+        return null;
+      default:
+        throw new Error(`Unknown GGUF value type: ${type}`);
+    }
+  }
+
+  /**
+   * Arrays only hold the tokenizer vocabulary and similar data, which is not needed here
+   */
+  private skipArray(): void {
+    const itemType = this.readUInt32() as GGUFValueType;
+    const count = Number(this.readUInt64());
+    const itemSize = VALUE_SIZES[itemType];
+
+    if (itemSize !== undefined) {
+      this.skip(itemSize * count);
+      return;
+    }
+    for (let i = 0; i < count; i++) {
+      this.readValue(itemType);
+    }
+  }
+}
+
+function toNumber(value: GGUFValue | undefined): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return null;
+}
+
+function toString(value: GGUFValue | undefined): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Read the metadata from the header of a GGUF file (versions 2 and 3) without loading the model
+ */
+export function readGGUFMetadata(filePath: string): GGUFMetadata {
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    const reader = new BufferedFileReader(fd);
+
+    const magic = String.fromCharCode(reader.readUInt8(), reader.readUInt8(), reader.readUInt8(), reader.readUInt8());
+    if (magic !== GGUF_MAGIC) {
+      throw new Error('Not a GGUF file');
+    }
+
+    const version = reader.readUInt32();
+    if (version < 2 || version > 3) {
+      throw new Error(`Unsupported GGUF version: ${version}`);
+    }
+
+    const tensorCount = Number(reader.readUInt64());
+    const keyValueCount = Number(reader.readUInt64());
+
+    const values = new Map<string, GGUFValue>();
+    for (let i = 0; i < keyValueCount; i++) {
+      const key = reader.readString();
+      const type = reader.readUInt32() as GGUFValueType;
+      values.set(key, reader.readValue(type));
+    }
+
+    // Tensor infos follow the key-value pairs: name, dimensions, type and offset
+    let parameterCount = 0;
+    for (let i = 0; i < tensorCount; i++) {
+      reader.readString();
+      const dimensionCount = reader.readUInt32();
+      let elements = 1;
+      for (let d = 0; d < dimensionCount; d++) {
+        elements *= Number(reader.readUInt64());
+      }
+      reader.skip(4 + 8);
+      parameterCount += elements;
+    }
+
+    const architecture = toString(values.get('general.architecture'));
+    const fileType = toNumber(values.get('general.file_type'));
+
+    return {
+      architecture,
+      name: toString(values.get('general.name')),
+      parameterCount: tensorCount > 0 ? parameterCount : null,
+      quantization: fileType !== null ? FILE_TYPES[fileType] ?? null : null,
+      contextLength: architecture ? toNumber(values.get(`${architecture}.context_length`)) : null,
+      chatTemplate: toString(values.get('tokenizer.chat_template')),
+      license: toString(values.get('general.license')) ?? toString(values.get('general.license.name')),
+    };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -1,27 +1,8 @@
 import { HighScoreService } from './highScore.service';
-import { PrismaClient } from '../generated/prisma';
-import * as fs from 'fs';
-
-// Mock fs module
-jest.mock('fs', () => ({
-  existsSync: jest.fn().mockReturnValue(true),
-  mkdirSync: jest.fn(),
-}));
 
 // Mock Prisma Client
 jest.mock('../generated/prisma', () => ({
-  PrismaClient: jest.fn().mockImplementation(() => ({
-    $connect: jest.fn(),
-    $disconnect: jest.fn(),
-    $queryRaw: jest.fn(),
-    $executeRaw: jest.fn(),
-    score: {
-      create: jest.fn(),
-      findMany: jest.fn(),
-      delete: jest.fn(),
-      deleteMany: jest.fn(),
-    },
-  })),
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
 }));
 
 // Mock electron app
@@ -34,12 +15,11 @@ jest.mock('electron', () => ({
 describe('HighScoreService', () => {
   let service: HighScoreService;
   let mockPrismaInstance: any;
+  let mockDatabase: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
     mockPrismaInstance = {
-      $connect: jest.fn(),
-      $disconnect: jest.fn(),
       $queryRaw: jest.fn(),
       $executeRaw: jest.fn(),
       score: {
@@ -49,79 +29,20 @@ describe('HighScoreService', () => {
         deleteMany: jest.fn(),
       },
     };
-    (PrismaClient as jest.Mock).mockImplementation(() => mockPrismaInstance);
-    service = new HighScoreService();
-  });
-
-  describe('getDatabaseUrl', () => {
-    it('should return file URL for development', () => {
-      process.env.NODE_ENV = 'development';
-      const service = new HighScoreService();
-      expect(service['getDatabaseUrl']()).toBe(`file:${process.cwd()}/prisma/database.db`);
-    });
-
-    it('should return userData path for production', () => {
-      process.env.NODE_ENV = 'production';
-      const service = new HighScoreService();
-      expect(service['getDatabaseUrl']()).toBe('file:/mock/userData/database.db');
-    });
-  });
-
-  describe('getDatabasePath', () => {
-    it('should return path for development', () => {
-      process.env.NODE_ENV = 'development';
-      const service = new HighScoreService();
-      expect(service['getDatabasePath']()).toBe(`${process.cwd()}/prisma/database.db`);
-    });
-
-    it('should return userData path for production', () => {
-      process.env.NODE_ENV = 'production';
-      const service = new HighScoreService();
-      expect(service['getDatabasePath']()).toBe('/mock/userData/database.db');
-    });
-  });
-
-  describe('ensureDatabaseExists', () => {
-    it('should create directory if it does not exist (line 84)', async () => {
-      const mockFs = fs as jest.Mocked<typeof fs>;
-
-      // Mock directory doesn't exist
-      mockFs.existsSync.mockReturnValueOnce(false).mockReturnValueOnce(true);
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
-      mockPrismaInstance.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
-      await service.initialize();
-
-      expect(mockFs.mkdirSync).toHaveBeenCalledWith(expect.any(String), { recursive: true });
-    });
-
-    it('should log message when database file does not exist (line 89)', async () => {
-      const mockFs = fs as jest.Mocked<typeof fs>;
-
-      // Mock directory exists but database file doesn't exist
-      mockFs.existsSync.mockReturnValueOnce(true).mockReturnValueOnce(false);
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
-      mockPrismaInstance.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
-
-      await service.initialize();
-
-      expect(consoleSpy).toHaveBeenCalledWith('Creating new database at:', expect.any(String));
-      consoleSpy.mockRestore();
-    });
+    mockDatabase = {
+      client: mockPrismaInstance,
+      connect: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new HighScoreService(mockDatabase);
   });
 
   describe('initialize', () => {
     it('should connect to database', async () => {
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
-      // Mock successful table query (table exists)
-      mockPrismaInstance.$queryRaw.mockResolvedValue([{ 1: 1 }]);
-
       await service.initialize();
 
-      expect(mockPrismaInstance.$connect).toHaveBeenCalled();
-      expect(mockPrismaInstance.$queryRaw).toHaveBeenCalled();
+      expect(mockDatabase.connect).toHaveBeenCalled();
+      // The scores table is created by the migrations
+      expect(mockPrismaInstance.$executeRaw).not.toHaveBeenCalled();
       expect(service['initialized']).toBe(true);
     });
 
@@ -130,26 +51,12 @@ describe('HighScoreService', () => {
 
       await service.initialize();
 
-      expect(mockPrismaInstance.$connect).not.toHaveBeenCalled();
-    });
-
-    it('should create table if it does not exist', async () => {
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
-      // Mock table doesn't exist error
-      mockPrismaInstance.$queryRaw.mockRejectedValue(new Error('no such table: scores'));
-      mockPrismaInstance.$executeRaw.mockResolvedValue(undefined);
-
-      await service.initialize();
-
-      expect(mockPrismaInstance.$executeRaw).toHaveBeenCalledWith(
-        expect.arrayContaining([expect.stringContaining('CREATE TABLE IF NOT EXISTS')])
-      );
-      expect(service['initialized']).toBe(true);
+      expect(mockDatabase.connect).not.toHaveBeenCalled();
     });
 
     it('should throw error if connection fails', async () => {
       const error = new Error('Connection failed');
-      mockPrismaInstance.$connect.mockRejectedValue(error);
+      mockDatabase.connect.mockRejectedValue(error);
 
       await expect(service.initialize()).rejects.toThrow('Connection failed');
     });
@@ -173,12 +80,11 @@ describe('HighScoreService', () => {
 
     it('should initialize if not already initialized', async () => {
       const mockScore = { id: 1, ...scoreData, createdAt: new Date() };
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
       mockPrismaInstance.score.create.mockResolvedValue(mockScore);
 
       await service.saveScore(scoreData);
 
-      expect(mockPrismaInstance.$connect).toHaveBeenCalled();
+      expect(mockDatabase.connect).toHaveBeenCalled();
       expect(mockPrismaInstance.score.create).toHaveBeenCalled();
     });
 
@@ -380,34 +286,13 @@ describe('HighScoreService', () => {
     });
   });
 
-  describe('close', () => {
-    it('should disconnect from database if initialized', async () => {
-      service['initialized'] = true;
-      mockPrismaInstance.$disconnect.mockResolvedValue(undefined);
-
-      await service.close();
-
-      expect(mockPrismaInstance.$disconnect).toHaveBeenCalled();
-      expect(service['initialized']).toBe(false);
-    });
-
-    it('should not disconnect if not initialized', async () => {
-      service['initialized'] = false;
-
-      await service.close();
-
-      expect(mockPrismaInstance.$disconnect).not.toHaveBeenCalled();
-    });
-  });
-
   describe('ensureInitialized', () => {
     it('should initialize if not already initialized', async () => {
       service['initialized'] = false;
-      mockPrismaInstance.$connect.mockResolvedValue(undefined);
 
       await service['ensureInitialized']();
 
-      expect(mockPrismaInstance.$connect).toHaveBeenCalled();
+      expect(mockDatabase.connect).toHaveBeenCalled();
       expect(service['initialized']).toBe(true);
     });
 
@@ -416,7 +301,7 @@ describe('HighScoreService', () => {
 
       await service['ensureInitialized']();
 
-      expect(mockPrismaInstance.$connect).not.toHaveBeenCalled();
+      expect(mockDatabase.connect).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
@@ -1,7 +1,6 @@
-import { PrismaClient } from '../generated/prisma';
-import * as path from 'path';
-import * as fs from 'fs';
-import { app } from 'electron';
+import type { PrismaClient } from '../generated/prisma';
+import { databaseService } from './database.service';
+import type { DatabaseService } from './database.service';
 
 export interface ScoreRecord {
   id: number;
@@ -21,51 +20,16 @@ export class HighScoreService {
   private prisma: PrismaClient;
   private initialized: boolean = false;
 
-  constructor() {
-    this.prisma = new PrismaClient({
-      datasources: {
-        db: {
-          url: this.getDatabaseUrl(),
-        },
-      },
-    });
-  }
-
-  private getDatabaseUrl(): string {
-    const isDev = process.env.NODE_ENV === 'development';
-
-    if (isDev) {
-      const dbPath = path.join(process.cwd(), 'prisma', 'database.db');
-      return `file:${dbPath}`;
-    }
-
-    const userDataPath = app.getPath('userData');
-    const dbPath = path.join(userDataPath, 'database.db');
-    return `file:${dbPath}`;
-  }
-
-  private getDatabasePath(): string {
-    const isDev = process.env.NODE_ENV === 'development';
-
-    if (isDev) {
-      return path.join(process.cwd(), 'prisma', 'database.db');
-    }
-
-    const userDataPath = app.getPath('userData');
-    return path.join(userDataPath, 'database.db');
+  constructor(private readonly database: DatabaseService = databaseService) {
+    this.prisma = database.client;
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      // Ensure database exists and has proper schema
-      await this.ensureDatabaseExists();
-
-      await this.prisma.$connect();
-
-      // Check if tables exist, create them if not
-      await this.ensureTablesExist();
+      // The schema is created by the migrations
+      await this.database.connect();
 
       this.initialized = true;
       console.log('Database connected and initialized successfully');
@@ -75,42 +39,6 @@ export class HighScoreService {
     }
   }
 
-  private async ensureDatabaseExists(): Promise<void> {
-    const dbPath = this.getDatabasePath();
-    const dbDir = path.dirname(dbPath);
-
-    // Ensure directory exists
-    if (!fs.existsSync(dbDir)) {
-      fs.mkdirSync(dbDir, { recursive: true });
-    }
-
-    // If database doesn't exist, it will be created when we connect
-    if (!fs.existsSync(dbPath)) {
-      console.log('Creating new database at:', dbPath);
-    }
-  }
-
-  private async ensureTablesExist(): Promise<void> {
-    try {
-      // Try to query the scores table
-      await this.prisma.$queryRaw`SELECT 1 FROM scores LIMIT 1`;
-      console.log('Scores table exists');
-    } catch (error) {
-      // Table doesn't exist, create it
-      console.log('Creating scores table...');
-      await this.prisma.$executeRaw`
-        CREATE TABLE IF NOT EXISTS "scores" (
-          "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-          "name" TEXT NOT NULL,
-          "score" INTEGER NOT NULL,
-          "game" TEXT NOT NULL,
-          "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
-      console.log('Scores table created successfully');
-    }
-  }
-
   async saveScore(scoreData: CreateScoreRequest): Promise<ScoreRecord> {
     await this.ensureInitialized();
 
@@ -211,13 +139,6 @@ export class HighScoreService {
     }
   }
 
-  async close(): Promise<void> {
-    if (this.initialized) {
-      await this.prisma.$disconnect();
-      this.initialized = false;
-    }
-  }
-
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
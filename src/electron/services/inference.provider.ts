@@ -0,0 +1,53 @@
+import type {
+  ChatGenerationOptions,
+  ChatHistoryMessage,
+  JsonSchema,
+  LLMConfig,
+  LoadModelOptions,
+} from './llm.service';
+
+export type InferenceProviderId = 'llama-cpp' | 'openai-compatible';
+
+/**
+ * A backend that runs the model. At most one provider has a model loaded at a time.
+ */
+export interface InferenceProvider {
+  readonly id: InferenceProviderId;
+
+  /**
+   * Load a model: a GGUF file path for llama-cpp, a model name for endpoints
+   */
+  loadModel(model: string, config?: Partial<LLMConfig>, options?: LoadModelOptions): Promise<void>;
+  unloadModel(): Promise<void>;
+  isModelLoaded(): boolean;
+  getCurrentModelPath(): string | null;
+  getCurrentModelId(): string | null;
+
+  /**
+   * Configuration generation runs with, including the context size
+   */
+  getConfig(): LLMConfig;
+
+  /**
+   * Generate a reply to a single prompt, without chat history
+   */
+  generateResponse(prompt: string, onToken?: (token: string) => void): Promise<string>;
+
+  /**
+   * Generate a value matching `jsonSchema`, parsed from the model's JSON output
+   */
+  generateStructured<T = unknown>(prompt: string, jsonSchema: JsonSchema): Promise<T>;
+
+  /**
+   * Stream the next assistant reply for a chat whose history ends with the user prompt.
+   * Aborting `options.signal` resolves with the text produced so far.
+   */
+  generateChatResponse(
+    chatId: number,
+    history: ChatHistoryMessage[],
+    onToken?: (token: string) => void,
+    options?: ChatGenerationOptions
+  ): Promise<string>;
+
+  countTokens(text: string): number;
+}
@@ -0,0 +1,164 @@
+import { InferenceService, getInferenceService } from './inference.service';
+import { OpenAICompatibleProvider } from './openai.provider';
+
+jest.mock('./llm.service', () => ({
+  getLLMService: jest.fn(() => ({
+    id: 'llama-cpp',
+    getEndpointSettings: jest.fn(),
+    getSavedConfig: jest.fn(),
+    isModelLoaded: jest.fn(() => false),
+  })),
+}));
+
+jest.mock('./openai.provider', () => ({
+  OpenAICompatibleProvider: jest.fn(),
+}));
+
+// Provider double that tracks the loaded model like the real ones
+function createProvider(id: 'llama-cpp' | 'openai-compatible') {
+  let model: string | null = null;
+  return {
+    id,
+    loadModel: jest.fn(async (name: string) => { model = name; }),
+    unloadModel: jest.fn(async () => { model = null; }),
+    isModelLoaded: jest.fn(() => model !== null),
+    getCurrentModelPath: jest.fn(() => model),
+    getCurrentModelId: jest.fn(() => (model ? `${id}:${model}` : null)),
+    generateResponse: jest.fn(),
+    generateStructured: jest.fn(),
+    generateChatResponse: jest.fn(),
+    countTokens: jest.fn(),
+    getConfig: jest.fn(),
+    listModels: jest.fn(),
+    setLastModel: jest.fn(),
+  };
+}
+
+describe('InferenceService', () => {
+  let local: ReturnType<typeof createProvider>;
+  let endpoint: ReturnType<typeof createProvider>;
+  let service: InferenceService;
+
+  beforeEach(() => {
+    local = createProvider('llama-cpp');
+    endpoint = createProvider('openai-compatible');
+    service = new InferenceService(local as any, endpoint as any);
+  });
+
+  describe('loadModel', () => {
+    it('should load a model with the given provider', async () => {
+      const options = { modelId: 'model1' };
+
+      await service.loadModel('llama-cpp', '/models/a.gguf', { contextSize: 2048 }, options);
+
+      expect(local.loadModel).toHaveBeenCalledWith('/models/a.gguf', { contextSize: 2048 }, options);
+      expect(service.getActiveProvider()).toBe(local);
+      expect(service.isModelLoaded()).toBe(true);
+    });
+
+    it('should unload the model of the other provider once the new one is loaded', async () => {
+      await service.loadModel('llama-cpp', '/models/a.gguf');
+
+      await service.loadModel('openai-compatible', 'llama3.2');
+
+      expect(local.unloadModel).toHaveBeenCalled();
+      expect(endpoint.loadModel.mock.invocationCallOrder[0]).toBeLessThan(local.unloadModel.mock.invocationCallOrder[0]);
+      expect(service.getActiveProvider()).toBe(endpoint);
+    });
+
+    it('should keep the previous model when loading fails', async () => {
+      await service.loadModel('llama-cpp', '/models/a.gguf');
+      endpoint.loadModel.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(service.loadModel('openai-compatible', 'llama3.2')).rejects.toThrow('fetch failed');
+
+      expect(local.unloadModel).not.toHaveBeenCalled();
+      expect(service.getActiveProvider()).toBe(local);
+    });
+
+    it('should remember endpoint models as the last model', async () => {
+      await service.loadModel('openai-compatible', 'llama3.2');
+
+      expect(local.setLastModel).toHaveBeenCalledWith({ path: 'llama3.2', modelId: null, provider: 'openai-compatible' });
+    });
+
+    it('should leave remembering local models to the local provider', async () => {
+      await service.loadModel('llama-cpp', '/models/a.gguf');
+
+      expect(local.setLastModel).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(service.loadModel('other' as any, 'model')).rejects.toThrow('Unknown inference provider: other');
+    });
+  });
+
+  describe('active model', () => {
+    it('should describe the loaded model and its provider', async () => {
+      expect(service.getActiveModel()).toBeNull();
+      expect(service.getCurrentModelPath()).toBeNull();
+
+      await service.loadModel('openai-compatible', 'llama3.2');
+
+      expect(service.getActiveModel()).toEqual({
+        provider: 'openai-compatible',
+        path: 'llama3.2',
+        modelId: 'openai-compatible:llama3.2',
+      });
+      expect(service.getCurrentModelPath()).toBe('llama3.2');
+      expect(service.getCurrentModelId()).toBe('openai-compatible:llama3.2');
+    });
+
+    it('should unload the active model', async () => {
+      await service.loadModel('openai-compatible', 'llama3.2');
+
+      await service.unloadModel();
+
+      expect(endpoint.unloadModel).toHaveBeenCalled();
+      expect(service.isModelLoaded()).toBe(false);
+    });
+  });
+
+  describe('generation', () => {
+    it('should use the provider with a loaded model', async () => {
+      await service.loadModel('openai-compatible', 'llama3.2');
+      const history = [{ role: 'user' as const, content: 'Hi' }];
+      const onToken = jest.fn();
+      endpoint.generateChatResponse.mockResolvedValue('Hello');
+      endpoint.generateResponse.mockResolvedValue('Hey');
+      endpoint.generateStructured.mockResolvedValue({ title: 'Greetings' });
+      endpoint.countTokens.mockReturnValue(3);
+      endpoint.getConfig.mockReturnValue({ contextSize: 8192 });
+
+      expect(await service.generateChatResponse(1, history, onToken, { maxTokens: 8 })).toBe('Hello');
+      expect(await service.generateResponse('Hi', onToken)).toBe('Hey');
+      expect(await service.generateStructured('Name it', {})).toEqual({ title: 'Greetings' });
+      expect(service.countTokens('Hello')).toBe(3);
+      expect(service.getConfig()).toEqual({ contextSize: 8192 });
+
+      expect(endpoint.generateChatResponse).toHaveBeenCalledWith(1, history, onToken, { maxTokens: 8 });
+      expect(local.generateChatResponse).not.toHaveBeenCalled();
+    });
+
+    it('should require a loaded model', async () => {
+      await expect(service.generateResponse('Hi')).rejects.toThrow('No model loaded. Please load a model first.');
+      expect(() => service.countTokens('Hi')).toThrow('No model loaded. Please load a model first.');
+    });
+
+    it('should list the endpoint models', async () => {
+      endpoint.listModels.mockResolvedValue([{ id: 'llama3.2', ownedBy: null }]);
+
+      expect(await service.listEndpointModels()).toEqual([{ id: 'llama3.2', ownedBy: null }]);
+    });
+  });
+});
+
+describe('getInferenceService', () => {
+  it('should return a single instance reading the endpoint settings from the LLM service', () => {
+    const instance = getInferenceService();
+
+    expect(getInferenceService()).toBe(instance);
+    expect(OpenAICompatibleProvider).toHaveBeenCalledTimes(1);
+    expect(OpenAICompatibleProvider).toHaveBeenCalledWith(expect.any(Function), expect.any(Function));
+  });
+});
@@ -0,0 +1,147 @@
+import { getLLMService } from './llm.service';
+import type {
+  ChatGenerationOptions,
+  ChatHistoryMessage,
+  JsonSchema,
+  LLMConfig,
+  LLMService,
+  LoadModelOptions,
+} from './llm.service';
+import type { InferenceProvider, InferenceProviderId } from './inference.provider';
+import { OpenAICompatibleProvider } from './openai.provider';
+import type { EndpointModel } from './openai.provider';
+
+export interface ActiveModel {
+  provider: InferenceProviderId;
+  path: string; // Model name for endpoints
+  modelId: string | null;
+}
+
+/**
+ * Routes generation to the provider that has a model loaded.
+ * Loading a model with one provider unloads the model of the others.
+ */
+export class InferenceService {
+  private readonly providers: InferenceProvider[];
+
+  constructor(
+    private readonly llmService: LLMService,
+    private readonly endpointProvider: OpenAICompatibleProvider
+  ) {
+    this.providers = [llmService, endpointProvider];
+  }
+
+  getProvider(id: InferenceProviderId): InferenceProvider {
+    const provider = this.providers.find((candidate) => candidate.id === id);
+    if (!provider) {
+      throw new Error(`Unknown inference provider: ${id}`);
+    }
+    return provider;
+  }
+
+  getActiveProvider(): InferenceProvider | null {
+    return this.providers.find((provider) => provider.isModelLoaded()) ?? null;
+  }
+
+  /**
+   * Load a model with a provider. The model of the previous provider stays loaded
+   * until the new one is ready, so a failed load leaves it usable.
+   */
+  async loadModel(
+    providerId: InferenceProviderId,
+    model: string,
+    config?: Partial<LLMConfig>,
+    options: LoadModelOptions = {}
+  ): Promise<void> {
+    const provider = this.getProvider(providerId);
+    await provider.loadModel(model, config, options);
+
+    for (const other of this.providers) {
+      if (other !== provider && other.isModelLoaded()) {
+        await other.unloadModel();
+      }
+    }
+
+    // The local provider remembers its own models as it loads them
+    if (provider !== this.llmService) {
+      this.llmService.setLastModel({ path: model, modelId: options.modelId ?? null, provider: providerId });
+    }
+  }
+
+  async unloadModel(): Promise<void> {
+    await this.getActiveProvider()?.unloadModel();
+  }
+
+  listEndpointModels(): Promise<EndpointModel[]> {
+    return this.endpointProvider.listModels();
+  }
+
+  isModelLoaded(): boolean {
+    return this.getActiveProvider() !== null;
+  }
+
+  getActiveModel(): ActiveModel | null {
+    const provider = this.getActiveProvider();
+    const modelPath = provider?.getCurrentModelPath();
+    if (!provider || !modelPath) {
+      return null;
+    }
+    return { provider: provider.id, path: modelPath, modelId: provider.getCurrentModelId() };
+  }
+
+  getCurrentModelPath(): string | null {
+    return this.getActiveProvider()?.getCurrentModelPath() ?? null;
+  }
+
+  getCurrentModelId(): string | null {
+    return this.getActiveProvider()?.getCurrentModelId() ?? null;
+  }
+
+  async generateResponse(prompt: string, onToken?: (token: string) => void): Promise<string> {
+    return this.requireActiveProvider().generateResponse(prompt, onToken);
+  }
+
+  async generateStructured<T = unknown>(prompt: string, jsonSchema: JsonSchema): Promise<T> {
+    return this.requireActiveProvider().generateStructured<T>(prompt, jsonSchema);
+  }
+
+  async generateChatResponse(
+    chatId: number,
+    history: ChatHistoryMessage[],
+    onToken?: (token: string) => void,
+    options: ChatGenerationOptions = {}
+  ): Promise<string> {
+    return this.requireActiveProvider().generateChatResponse(chatId, history, onToken, options);
+  }
+
+  countTokens(text: string): number {
+    return this.requireActiveProvider().countTokens(text);
+  }
+
+  getConfig(): LLMConfig {
+    return this.requireActiveProvider().getConfig();
+  }
+
+  private requireActiveProvider(): InferenceProvider {
+    const provider = this.getActiveProvider();
+    if (!provider) {
+      throw new Error('No model loaded. Please load a model first.');
+    }
+    return provider;
+  }
+}
+
+// Singleton instance
+let inferenceService: InferenceService | null = null;
+
+export function getInferenceService(): InferenceService {
+  if (!inferenceService) {
+    const llmService = getLLMService();
+    const endpointProvider = new OpenAICompatibleProvider(
+      () => llmService.getEndpointSettings(),
+      () => llmService.getSavedConfig()
+    );
+    inferenceService = new InferenceService(llmService, endpointProvider);
+  }
+  return inferenceService;
+}
@@ -0,0 +1,138 @@
+import {
+  chunkText,
+  cosineSimilarity,
+  decodeEmbedding,
+  encodeEmbedding,
+  formatKnowledgePrompt,
+  rankChunks,
+  toKnowledgeSources,
+} from './knowledge.helpers';
+
+describe('knowledge.helpers', () => {
+  describe('chunkText', () => {
+    it('should keep short text in a single chunk', () => {
+      expect(chunkText('  A short note.\n')).toEqual(['A short note.']);
+    });
+
+    it('should return no chunks for blank text', () => {
+      expect(chunkText(' \n\n ')).toEqual([]);
+    });
+
+    it('should cut long text at paragraph breaks', () => {
+      const first = 'a'.repeat(60);
+      const second = 'b'.repeat(60);
+
+      expect(chunkText(`${first}\n\n${second}`, 100, 0)).toEqual([first, second]);
+    });
+
+    it('should cut at word breaks when there is no paragraph or line break', () => {
+      const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+
+      const chunks = chunkText(words, 50, 0);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => {
+        expect(chunk.length).toBeLessThanOrEqual(50);
+        expect(chunk).toMatch(/^word\d+( word\d+)*$/);
+      });
+    });
+
+    it('should repeat the end of each chunk at the start of the next one', () => {
+      const words = Array.from({ length: 40 }, (_, i) => `w${i}`).join(' ');
+
+      const [first, second] = chunkText(words, 60, 20);
+      const lastWordOfFirst = first.split(' ').pop()!;
+
+      expect(second.split(' ')).toContain(lastWordOfFirst);
+      expect(second.startsWith(lastWordOfFirst)).toBe(false);
+    });
+
+    it('should cut text without any break at the size limit', () => {
+      expect(chunkText('x'.repeat(250), 100, 0)).toEqual(['x'.repeat(100), 'x'.repeat(100), 'x'.repeat(50)]);
+    });
+
+    it('should normalize Windows line endings', () => {
+      expect(chunkText('one\r\ntwo')).toEqual(['one\ntwo']);
+    });
+  });
+
+  describe('encodeEmbedding / decodeEmbedding', () => {
+    it('should store four little-endian bytes per value', () => {
+      const data = encodeEmbedding([1, -0.5]);
+
+      expect(data.byteLength).toBe(8);
+      expect(Buffer.from(data).readFloatLE(4)).toBe(-0.5);
+    });
+
+    it('should read back the stored values', () => {
+      expect(decodeEmbedding(encodeEmbedding([0.25, 0.5, -2]))).toEqual([0.25, 0.5, -2]);
+    });
+
+    it('should read values from a view into a larger buffer', () => {
+      const data = Buffer.concat([Buffer.from([9]), Buffer.from(encodeEmbedding([0.75]))]).subarray(1);
+
+      expect(decodeEmbedding(data)).toEqual([0.75]);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should be 1 for vectors pointing the same way', () => {
+      expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    });
+
+    it('should be 0 for orthogonal vectors', () => {
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it('should be 0 when the dimensions differ or a vector is empty or null', () => {
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  describe('rankChunks', () => {
+    it('should keep the most similar chunks first', () => {
+      const chunks = [
+        { id: 1, embedding: [0, 1] },
+        { id: 2, embedding: [1, 0] },
+        { id: 3, embedding: [1, 1] },
+      ];
+
+      const ranked = rankChunks([1, 0], chunks, 2);
+
+      expect(ranked.map((chunk) => chunk.id)).toEqual([2, 3]);
+      expect(ranked[0].score).toBeCloseTo(1);
+    });
+  });
+
+  describe('toKnowledgeSources', () => {
+    it('should number the excerpts from 1 and name them after their file', () => {
+      const sources = toKnowledgeSources([
+        { path: '/docs/guide.md', position: 2, content: 'Install it', score: 0.8 },
+        { path: '/docs/faq.txt', position: 0, content: 'Ask us', score: 0.5 },
+      ]);
+
+      expect(sources).toEqual([
+        { index: 1, path: '/docs/guide.md', name: 'guide.md', position: 2, content: 'Install it', score: 0.8 },
+        { index: 2, path: '/docs/faq.txt', name: 'faq.txt', position: 0, content: 'Ask us', score: 0.5 },
+      ]);
+    });
+  });
+
+  describe('formatKnowledgePrompt', () => {
+    it('should put the numbered excerpts before the question', () => {
+      const sources = toKnowledgeSources([{ path: '/docs/guide.md', position: 0, content: 'Run setup.exe', score: 1 }]);
+
+      const prompt = formatKnowledgePrompt('How do I install it?', sources);
+
+      expect(prompt).toContain('[1] guide.md\nRun setup.exe');
+      expect(prompt).toContain('like [1]');
+      expect(prompt.endsWith('Question: How do I install it?')).toBe(true);
+    });
+
+    it('should leave the question unchanged without excerpts', () => {
+      expect(formatKnowledgePrompt('Hello', [])).toBe('Hello');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Helper functions for the knowledge base: how files are cut into chunks,
+ * how embeddings are stored and compared, and how excerpts go into the prompt.
+ */
+
+import * as path from 'path';
+
+/**
+ * Characters per chunk. Small enough for the context of common embedding models.
+ */
+export const KNOWLEDGE_CHUNK_SIZE = 1000;
+
+/**
+ * Characters repeated at the start of each chunk from the end of the previous one,
+ * so a sentence cut in two is still found whole in one of them
+ */
+export const KNOWLEDGE_CHUNK_OVERLAP = 200;
+
+/**
+ * Number of excerpts given to the model for each question
+ */
+export const KNOWLEDGE_TOP_K = 5;
+
+/**
+ * An excerpt of an indexed file cited by a reply
+ */
+export interface KnowledgeSource {
+  index: number; // Number the model cites the excerpt with, from 1
+  path: string;
+  name: string; // File name, without its directory
+  position: number; // Order of the chunk in its file, from 0
+  content: string;
+  score: number; // Cosine similarity to the question
+}
+
+/**
+ * Cut `text` into overlapping chunks of at most `size` characters.
+ * Chunks end at a paragraph, line, sentence or word break when one is close to the limit.
+ */
+export function chunkText(
+  text: string,
+  size: number = KNOWLEDGE_CHUNK_SIZE,
+  overlap: number = KNOWLEDGE_CHUNK_OVERLAP
+): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+
+    if (end < normalized.length) {
+      const tail = normalized.slice(start + Math.floor(size / 2), end);
+      const breakAt = ['\n\n', '\n', '. ', ' ']
+        .map((separator) => {
+          const index = tail.lastIndexOf(separator);
+          return index === -1 ? -1 : index + separator.length;
+        })
+        .find((index) => index > 0);
+      if (breakAt !== undefined) {
+        end = start + Math.floor(size / 2) + breakAt;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) {
+      break;
+    }
+
+    // Start the next chunk on a word inside the overlap
+    let next = Math.max(end - overlap, start + 1);
+    const space = normalized.slice(next, end).search(/\s/);
+    if (space !== -1) {
+      next += space + 1;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Store an embedding as little-endian float32 values
+ */
+export function encodeEmbedding(vector: number[]): Uint8Array<ArrayBuffer> {
+  const view = new DataView(new ArrayBuffer(vector.length * 4));
+  vector.forEach((value, index) => view.setFloat32(index * 4, value, true));
+  return new Uint8Array(view.buffer);
+}
+
+export function decodeEmbedding(data: Uint8Array): number[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const vector: number[] = [];
+  for (let offset = 0; offset + 4 <= view.byteLength; offset += 4) {
+    vector.push(view.getFloat32(offset, true));
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two embeddings, 0 when their dimensions differ or one is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Keep the `k` chunks most similar to `query`, most similar first
+ */
+export function rankChunks<T extends { embedding: number[] }>(
+  query: number[],
+  chunks: T[],
+  k: number = KNOWLEDGE_TOP_K
+): Array<T & { score: number }> {
+  return chunks
+    .map((chunk) => ({ ...chunk, score: cosineSimilarity(query, chunk.embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * Number the excerpts found for a question, in the order they are given to the model
+ */
+export function toKnowledgeSources(
+  matches: Array<{ path: string; position: number; content: string; score: number }>
+): KnowledgeSource[] {
+  return matches.map((match, index) => ({
+    index: index + 1,
+    path: match.path,
+    name: path.basename(match.path),
+    position: match.position,
+    content: match.content,
+    score: match.score,
+  }));
+}
+
+/**
+ * Put the excerpts before the question, asking the model to cite them by number
+ */
+export function formatKnowledgePrompt(question: string, sources: KnowledgeSource[]): string {
+  if (sources.length === 0) {
+    return question;
+  }
+
+  const excerpts = sources.map((source) => `[${source.index}] ${source.name}\n${source.content}`);
+  return [
+    'Answer the question below using the following excerpts from the user\'s documents when they are relevant. '
+      + 'Cite the excerpts you use with their number in brackets, like [1].',
+    ...excerpts,
+    `Question: ${question}`,
+  ].join('\n\n');
+}
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KnowledgeService, listKnowledgeFiles } from './knowledge.service';
+import { PrismaClient } from '../generated/prisma';
+import { decodeEmbedding, encodeEmbedding } from './knowledge.helpers';
+
+// Mock Electron's app module
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => '/mock/user/data'),
+  },
+}));
+
+// Mock PrismaClient
+jest.mock('../generated/prisma', () => {
+  const mockPrismaClient = {
+    knowledgeFolder: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    knowledgeFile: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+      count: jest.fn(),
+    },
+    knowledgeChunk: {
+      findMany: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+describe('KnowledgeService', () => {
+  let knowledgeService: KnowledgeService;
+  let mockPrisma: any;
+  let mockDatabase: any;
+  let tempDir: string;
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const embedder = {
+    modelPath: '/models/embed.gguf',
+    embed: jest.fn(async (text: string) => [text.length, 1]),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-test-'));
+
+    mockPrisma = new PrismaClient();
+    mockDatabase = {
+      client: mockPrisma,
+      connect: jest.fn().mockResolvedValue(undefined),
+      transaction: jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrisma)),
+    };
+    knowledgeService = new KnowledgeService(mockDatabase);
+
+    mockPrisma.knowledgeFile.findMany.mockResolvedValue([]);
+    mockPrisma.knowledgeFolder.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('listKnowledgeFiles', () => {
+    it('should list supported files of the folder and its subfolders in path order', async () => {
+      const notes = writeFile('notes.md', '# Notes');
+      const code = writeFile('src/app.ts', 'export {}');
+      writeFile('photo.png', 'binary');
+
+      await expect(listKnowledgeFiles(tempDir)).resolves.toEqual([notes, code].sort());
+    });
+
+    it('should skip hidden folders, hidden files and installed packages', async () => {
+      writeFile('.git/config.txt', 'hidden');
+      writeFile('.env', 'SECRET=1');
+      writeFile('node_modules/pkg/index.js', 'module.exports = {}');
+      const readme = writeFile('README.md', '# Readme');
+
+      await expect(listKnowledgeFiles(tempDir)).resolves.toEqual([readme]);
+    });
+  });
+
+  describe('getFolders', () => {
+    it('should count the files and chunks of each folder', async () => {
+      const folder = { id: 1, path: '/docs', embeddingModel: null, indexedAt: null, createdAt: new Date() };
+      mockPrisma.knowledgeFolder.findMany.mockResolvedValue([folder]);
+      mockPrisma.knowledgeFile.findMany.mockResolvedValue([
+        { folderId: 1, _count: { chunks: 3 } },
+        { folderId: 1, _count: { chunks: 2 } },
+        { folderId: 2, _count: { chunks: 7 } },
+      ]);
+
+      await expect(knowledgeService.getFolders()).resolves.toEqual([{ ...folder, fileCount: 2, chunkCount: 5 }]);
+      expect(mockPrisma.knowledgeFolder.findMany).toHaveBeenCalledWith({ orderBy: { path: 'asc' } });
+    });
+  });
+
+  describe('addFolder', () => {
+    it('should add a folder by its absolute path', async () => {
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(null);
+      mockPrisma.knowledgeFolder.create.mockResolvedValue({ id: 1, path: tempDir });
+
+      await knowledgeService.addFolder(tempDir);
+
+      expect(mockPrisma.knowledgeFolder.create).toHaveBeenCalledWith({ data: { path: path.resolve(tempDir) } });
+    });
+
+    it('should reject files', async () => {
+      const filePath = writeFile('notes.md', '# Notes');
+
+      await expect(knowledgeService.addFolder(filePath)).rejects.toThrow('is not a folder');
+      expect(mockPrisma.knowledgeFolder.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject folders already in the knowledge base', async () => {
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue({ id: 1, path: tempDir });
+
+      await expect(knowledgeService.addFolder(tempDir)).rejects.toThrow('is already in the knowledge base');
+    });
+  });
+
+  describe('removeFolder', () => {
+    it('should delete the folder, its files and chunks going with it', async () => {
+      mockPrisma.knowledgeFolder.delete.mockResolvedValue({});
+
+      await knowledgeService.removeFolder(3);
+
+      expect(mockPrisma.knowledgeFolder.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+    });
+  });
+
+  describe('indexFolder', () => {
+    const folderWith = (embeddingModel: string | null) => ({
+      id: 1, path: tempDir, embeddingModel, indexedAt: null, createdAt: new Date(),
+    });
+
+    it('should chunk, embed and store each file', async () => {
+      const filePath = writeFile('notes.md', '# Notes');
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith(null));
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(embedder.embed).toHaveBeenCalledWith('# Notes');
+      const { data } = mockPrisma.knowledgeFile.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({ folderId: 1, path: filePath, size: 7 }));
+      expect(data.chunks.create).toHaveLength(1);
+      expect(data.chunks.create[0]).toEqual(expect.objectContaining({ position: 0, content: '# Notes' }));
+      expect(decodeEmbedding(data.chunks.create[0].embedding)).toEqual([7, 1]);
+      expect(mockPrisma.knowledgeFolder.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { embeddingModel: '/models/embed.gguf', indexedAt: expect.any(Date) },
+      });
+      expect(result).toEqual({ folderId: 1, filesIndexed: 1, filesSkipped: 0, filesRemoved: 0, errors: [] });
+    });
+
+    it('should skip files unchanged since the last indexing', async () => {
+      const filePath = writeFile('notes.md', '# Notes');
+      const { size, mtime } = fs.statSync(filePath);
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith('/models/embed.gguf'));
+      mockPrisma.knowledgeFile.findMany.mockResolvedValue([{ id: 4, folderId: 1, path: filePath, size, modifiedAt: mtime }]);
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(embedder.embed).not.toHaveBeenCalled();
+      expect(result.filesSkipped).toBe(1);
+    });
+
+    it('should replace the chunks of changed files', async () => {
+      const filePath = writeFile('notes.md', '# Notes, edited');
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith('/models/embed.gguf'));
+      mockPrisma.knowledgeFile.findMany.mockResolvedValue([
+        { id: 4, folderId: 1, path: filePath, size: 7, modifiedAt: new Date(0) },
+      ]);
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(mockDatabase.transaction).toHaveBeenCalled();
+      expect(mockPrisma.knowledgeFile.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+      expect(mockPrisma.knowledgeFile.create).toHaveBeenCalled();
+      expect(result.filesIndexed).toBe(1);
+    });
+
+    it('should remove files deleted from the folder', async () => {
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith('/models/embed.gguf'));
+      mockPrisma.knowledgeFile.findMany.mockResolvedValue([
+        { id: 4, folderId: 1, path: path.join(tempDir, 'gone.md'), size: 7, modifiedAt: new Date(0) },
+      ]);
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(mockPrisma.knowledgeFile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [4] } } });
+      expect(result.filesRemoved).toBe(1);
+    });
+
+    it('should index every file again when the embedding model changed', async () => {
+      const filePath = writeFile('notes.md', '# Notes');
+      const { size, mtime } = fs.statSync(filePath);
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith('/models/other.gguf'));
+      mockPrisma.knowledgeFile.findMany.mockResolvedValue([{ id: 4, folderId: 1, path: filePath, size, modifiedAt: mtime }]);
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(mockPrisma.knowledgeFile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [4] } } });
+      expect(mockPrisma.knowledgeFile.delete).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ filesIndexed: 1, filesSkipped: 0, filesRemoved: 0 }));
+    });
+
+    it('should report files that cannot be read and index the others', async () => {
+      writeFile('empty.txt', '   ');
+      writeFile('notes.md', '# Notes');
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith(null));
+
+      const result = await knowledgeService.indexFolder(1, embedder);
+
+      expect(result.filesIndexed).toBe(1);
+      expect(result.errors).toEqual([{ name: 'empty.txt', error: 'No text found in empty.txt' }]);
+    });
+
+    it('should report its progress file by file', async () => {
+      const filePath = writeFile('notes.md', '# Notes');
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(folderWith(null));
+      const onProgress = jest.fn();
+
+      await knowledgeService.indexFolder(1, embedder, onProgress);
+
+      expect(onProgress.mock.calls).toEqual([
+        [{ folderId: 1, filesDone: 0, filesTotal: 1, currentFile: filePath }],
+        [{ folderId: 1, filesDone: 1, filesTotal: 1, currentFile: null }],
+      ]);
+    });
+
+    it('should throw for unknown folders', async () => {
+      mockPrisma.knowledgeFolder.findUnique.mockResolvedValue(null);
+
+      await expect(knowledgeService.indexFolder(9, embedder)).rejects.toThrow('Knowledge folder 9 not found');
+    });
+  });
+
+  describe('search', () => {
+    it('should return the chunks most similar to the question, from folders indexed with the model', async () => {
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValue([
+        { position: 0, content: 'Cats', embedding: encodeEmbedding([0, 1]), file: { path: '/docs/cats.md' } },
+        { position: 1, content: 'Dogs', embedding: encodeEmbedding([1, 0]), file: { path: '/docs/dogs.md' } },
+      ]);
+
+      const matches = await knowledgeService.search([1, 0.1], '/models/embed.gguf', 1);
+
+      expect(mockPrisma.knowledgeChunk.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { file: { folder: { embeddingModel: '/models/embed.gguf' } } },
+      }));
+      expect(matches).toEqual([{ path: '/docs/dogs.md', position: 1, content: 'Dogs', score: expect.any(Number) }]);
+    });
+  });
+
+  describe('isIndexedFile', () => {
+    it('should tell whether a file belongs to the knowledge base', async () => {
+      mockPrisma.knowledgeFile.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await expect(knowledgeService.isIndexedFile('/docs/notes.md')).resolves.toBe(true);
+      await expect(knowledgeService.isIndexedFile('/etc/passwd')).resolves.toBe(false);
+      expect(mockPrisma.knowledgeFile.count).toHaveBeenCalledWith({ where: { path: '/docs/notes.md' } });
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PrismaClient } from '../generated/prisma';
+import { databaseService } from './database.service';
+import type { DatabaseService } from './database.service';
+import { getAttachmentKind } from './attachment.helpers';
+import { readAttachment } from './attachment.reader';
+import { chunkText, decodeEmbedding, encodeEmbedding, KNOWLEDGE_TOP_K, rankChunks } from './knowledge.helpers';
+import { getErrorMessage } from './llm.service.helpers';
+
+export interface KnowledgeFolderRecord {
+  id: number;
+  path: string;
+  embeddingModel: string | null; // Model the chunks were embedded with, null until indexed
+  indexedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface KnowledgeFolderSummary extends KnowledgeFolderRecord {
+  fileCount: number;
+  chunkCount: number;
+}
+
+/**
+ * Computes the embeddings of a knowledge base. Vectors of different models cannot be compared,
+ * so each folder remembers the model it was indexed with.
+ */
+export interface Embedder {
+  modelPath: string;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface KnowledgeIndexProgress {
+  folderId: number;
+  filesDone: number;
+  filesTotal: number;
+  currentFile: string | null; // File being read and embedded, null once every file is done
+}
+
+export interface KnowledgeIndexResult {
+  folderId: number;
+  filesIndexed: number;
+  filesSkipped: number; // Unchanged since the last indexing
+  filesRemoved: number; // Deleted from the folder since the last indexing
+  errors: Array<{ name: string; error: string }>;
+}
+
+/**
+ * A chunk of an indexed file similar to a question
+ */
+export interface KnowledgeMatch {
+  path: string;
+  position: number;
+  content: string;
+  score: number;
+}
+
+// Folders never worth indexing: hidden ones (.git, .venv...) and installed packages
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * List the files of a folder and its subfolders that can be indexed, in path order
+ */
+export async function listKnowledgeFiles(folderPath: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+
+    const entryPath = path.join(folderPath, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...await listKnowledgeFiles(entryPath));
+      }
+    } else if (entry.isFile() && getAttachmentKind(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+
+  return files.sort();
+}
+
+export class KnowledgeService {
+  private prisma: PrismaClient;
+  private initialized: boolean = false;
+
+  constructor(private readonly database: DatabaseService = databaseService) {
+    this.prisma = database.client;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      // The schema is created by the migrations
+      await this.database.connect();
+
+      this.initialized = true;
+      console.log('Knowledge service initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize knowledge service:', error);
+      throw error;
+    }
+  }
+
+  async getFolders(): Promise<KnowledgeFolderSummary[]> {
+    await this.ensureInitialized();
+
+    try {
+      const [folders, files] = await Promise.all([
+        this.prisma.knowledgeFolder.findMany({ orderBy: { path: 'asc' } }),
+        this.prisma.knowledgeFile.findMany({
+          select: { folderId: true, _count: { select: { chunks: true } } },
+        }),
+      ]);
+
+      return folders.map((folder) => {
+        const folderFiles = files.filter((file) => file.folderId === folder.id);
+        return {
+          ...folder,
+          fileCount: folderFiles.length,
+          chunkCount: folderFiles.reduce((total, file) => total + file._count.chunks, 0),
+        };
+      });
+    } catch (error) {
+      console.error('Failed to get knowledge folders:', error);
+      throw error;
+    }
+  }
+
+  async addFolder(folderPath: string): Promise<KnowledgeFolderRecord> {
+    await this.ensureInitialized();
+
+    try {
+      const resolved = path.resolve(folderPath);
+      const stats = await fs.promises.stat(resolved);
+      if (!stats.isDirectory()) {
+        throw new Error(`${resolved} is not a folder`);
+      }
+
+      const existing = await this.prisma.knowledgeFolder.findUnique({ where: { path: resolved } });
+      if (existing) {
+        throw new Error(`${resolved} is already in the knowledge base`);
+      }
+
+      return await this.prisma.knowledgeFolder.create({ data: { path: resolved } });
+    } catch (error) {
+      console.error('Failed to add knowledge folder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a folder along with the chunks indexed from it. The files themselves are left untouched.
+   */
+  async removeFolder(folderId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.prisma.knowledgeFolder.delete({ where: { id: folderId } });
+    } catch (error) {
+      console.error('Failed to remove knowledge folder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Chunk and embed the files of a folder. Files unchanged since the last indexing are skipped,
+   * unless the folder was indexed with another embedding model. Files that cannot be read are
+   * reported in the result and do not stop the others.
+   */
+  async indexFolder(
+    folderId: number,
+    embedder: Embedder,
+    onProgress?: (progress: KnowledgeIndexProgress) => void
+  ): Promise<KnowledgeIndexResult> {
+    await this.ensureInitialized();
+
+    try {
+      const folder = await this.prisma.knowledgeFolder.findUnique({ where: { id: folderId } });
+      if (!folder) {
+        throw new Error(`Knowledge folder ${folderId} not found`);
+      }
+
+      const filePaths = await listKnowledgeFiles(folder.path);
+      const modelChanged = folder.embeddingModel !== embedder.modelPath;
+      const indexedFiles = await this.prisma.knowledgeFile.findMany({ where: { folderId } });
+
+      // Chunks of another model cannot be searched along with the new ones
+      const staleFiles = indexedFiles.filter((file) => modelChanged || !filePaths.includes(file.path));
+      if (staleFiles.length > 0) {
+        await this.prisma.knowledgeFile.deleteMany({ where: { id: { in: staleFiles.map((file) => file.id) } } });
+      }
+      const knownFiles = new Map(indexedFiles
+        .filter((file) => !staleFiles.includes(file))
+        .map((file) => [file.path, file]));
+
+      const result: KnowledgeIndexResult = {
+        folderId,
+        filesIndexed: 0,
+        filesSkipped: 0,
+        filesRemoved: staleFiles.filter((file) => !filePaths.includes(file.path)).length,
+        errors: [],
+      };
+
+      for (const [index, filePath] of filePaths.entries()) {
+        onProgress?.({ folderId, filesDone: index, filesTotal: filePaths.length, currentFile: filePath });
+
+        try {
+          const { size, mtime } = await fs.promises.stat(filePath);
+          const known = knownFiles.get(filePath);
+          if (known && known.size === size && known.modifiedAt.getTime() === mtime.getTime()) {
+            result.filesSkipped++;
+            continue;
+          }
+
+          const { content } = await readAttachment(filePath);
+          const chunks: Array<{ position: number; content: string; embedding: Uint8Array<ArrayBuffer> }> = [];
+          for (const [position, chunk] of chunkText(content).entries()) {
+            chunks.push({ position, content: chunk, embedding: encodeEmbedding(await embedder.embed(chunk)) });
+          }
+
+          await this.database.transaction(async (tx) => {
+            if (known) {
+              await tx.knowledgeFile.delete({ where: { id: known.id } });
+            }
+            await tx.knowledgeFile.create({
+              data: { folderId, path: filePath, size, modifiedAt: mtime, chunks: { create: chunks } },
+            });
+          });
+          result.filesIndexed++;
+        } catch (error) {
+          console.error(`Failed to index ${filePath}:`, error);
+          result.errors.push({ name: path.relative(folder.path, filePath), error: getErrorMessage(error) });
+        }
+      }
+
+      await this.prisma.knowledgeFolder.update({
+        where: { id: folderId },
+        data: { embeddingModel: embedder.modelPath, indexedAt: new Date() },
+      });
+      onProgress?.({ folderId, filesDone: filePaths.length, filesTotal: filePaths.length, currentFile: null });
+
+      return result;
+    } catch (error) {
+      console.error('Failed to index knowledge folder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the chunks most similar to an embedded question, among the folders indexed with `modelPath`
+   */
+  async search(query: number[], modelPath: string, k: number = KNOWLEDGE_TOP_K): Promise<KnowledgeMatch[]> {
+    await this.ensureInitialized();
+
+    try {
+      const chunks = await this.prisma.knowledgeChunk.findMany({
+        where: { file: { folder: { embeddingModel: modelPath } } },
+        select: { position: true, content: true, embedding: true, file: { select: { path: true } } },
+      });
+
+      const ranked = rankChunks(query, chunks.map((chunk) => ({
+        path: chunk.file.path,
+        position: chunk.position,
+        content: chunk.content,
+        embedding: decodeEmbedding(chunk.embedding),
+      })), k);
+
+      return ranked.map(({ embedding: _embedding, ...match }) => match);
+    } catch (error) {
+      console.error('Failed to search the knowledge base:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether `filePath` was indexed, so only files of the knowledge base are opened from citations
+   */
+  async isIndexedFile(filePath: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    try {
+      return (await this.prisma.knowledgeFile.count({ where: { path: filePath } })) > 0;
+    } catch (error) {
+      console.error('Failed to look up knowledge file:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+}
+
+export const knowledgeService = new KnowledgeService();
@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const catalog = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../llms.json'), 'utf-8'));
+
+describe('llms.json', () => {
+  it.each(catalog.models.map((model: any) => [model.id, model]))('should download %s from its file name', (_id, model: any) => {
+    expect(model.url).toMatch(/^https:\/\//);
+    expect(path.posix.basename(new URL(model.url).pathname)).toBe(model.filename);
+  });
+
+  // Digests are filled in by scripts/update-model-hashes.js, which needs access to Hugging Face
+  it('should give digests as SHA-256 hex strings', () => {
+    for (const model of catalog.models) {
+      expect([null, expect.stringMatching(/^[0-9a-f]{64}$/)]).toContainEqual(model.sha256);
+    }
+  });
+});
@@ -1,4 +1,14 @@
-import { getModelPathIfExists, getGpuModeDescription, getErrorMessage } from './llm.service.helpers';
+import {
+  getModelPathIfExists,
+  getGpuModeDescription,
+  getErrorMessage,
+  getHistoryTokenBudget,
+  getRecommendedContext,
+  trimHistoryToTokenBudget,
+  toLlamaChatHistory,
+  MESSAGE_TOKEN_OVERHEAD,
+} from './llm.service.helpers';
+import type { ChatHistoryMessage } from './llm.service';
 import * as fs from 'fs';
 
 jest.mock('fs');
@@ -69,4 +79,122 @@ describe('LLM Service Helpers', () => {
       expect(result).toBe('undefined');
     });
   });
-});
\ No newline at end of file
+
+  describe('getRecommendedContext', () => {
+    it('should suggest the default for models trained with longer contexts', () => {
+      expect(getRecommendedContext(131072)).toBe(10000);
+    });
+
+    it('should suggest the trained length when it is shorter', () => {
+      expect(getRecommendedContext(2048)).toBe(2048);
+    });
+
+    it('should suggest the default when the trained length is unknown', () => {
+      expect(getRecommendedContext(null)).toBe(10000);
+      expect(getRecommendedContext(undefined)).toBe(10000);
+    });
+  });
+
+  describe('getHistoryTokenBudget', () => {
+    it('should keep a quarter of the context for the reply', () => {
+      expect(getHistoryTokenBudget(10000)).toBe(7500);
+    });
+
+    it('should never return a negative budget', () => {
+      expect(getHistoryTokenBudget(0)).toBe(0);
+    });
+  });
+
+  describe('trimHistoryToTokenBudget', () => {
+    const countWords = (text: string) => text.split(' ').length;
+    const history: ChatHistoryMessage[] = [
+      { role: 'user', content: 'first question' },
+      { role: 'assistant', content: 'first answer' },
+      { role: 'user', content: 'second question' },
+      { role: 'assistant', content: 'second answer' },
+      { role: 'user', content: 'third question' },
+    ];
+
+    it('should keep the whole history when it fits', () => {
+      expect(trimHistoryToTokenBudget(history, countWords, 1000)).toEqual(history);
+    });
+
+    it('should drop the oldest messages first', () => {
+      const budget = 3 * (2 + MESSAGE_TOKEN_OVERHEAD);
+
+      expect(trimHistoryToTokenBudget(history, countWords, budget)).toEqual(history.slice(2));
+    });
+
+    it('should not start the trimmed history with an assistant reply', () => {
+      const budget = 2 * (2 + MESSAGE_TOKEN_OVERHEAD);
+
+      expect(trimHistoryToTokenBudget(history, countWords, budget)).toEqual(history.slice(4));
+    });
+
+    it('should always keep the latest message', () => {
+      expect(trimHistoryToTokenBudget(history, countWords, 0)).toEqual(history.slice(4));
+    });
+
+    it('should return an empty history unchanged', () => {
+      expect(trimHistoryToTokenBudget([], countWords, 100)).toEqual([]);
+    });
+  });
+
+  describe('toLlamaChatHistory', () => {
+    it('should map user and assistant messages to chat history items', () => {
+      const result = toLlamaChatHistory([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' },
+      ]);
+
+      expect(result).toEqual([
+        { type: 'user', text: 'Hello' },
+        { type: 'model', response: ['Hi'] },
+      ]);
+    });
+
+    it('should attach tool calls to the model response that follows them', () => {
+      const result = toLlamaChatHistory([
+        { role: 'user', content: 'What time is it?' },
+        { role: 'tool', content: '{"dateTime":"2026-03-01T12:00:00.000Z"}', toolCall: { name: 'get_current_time', params: {} } },
+        { role: 'tool', content: 'The user denied this tool call', toolCall: { name: 'search_chats', params: { query: 'time' } } },
+        { role: 'assistant', content: 'It is noon' },
+      ]);
+
+      expect(result).toEqual([
+        { type: 'user', text: 'What time is it?' },
+        {
+          type: 'model',
+          response: [
+            { type: 'functionCall', name: 'get_current_time', params: {}, result: { dateTime: '2026-03-01T12:00:00.000Z' } },
+            { type: 'functionCall', name: 'search_chats', params: { query: 'time' }, result: 'The user denied this tool call' },
+            'It is noon',
+          ],
+        },
+      ]);
+    });
+
+    it('should keep tool calls whose reply is missing as their own response', () => {
+      const result = toLlamaChatHistory([
+        { role: 'user', content: 'What time is it?' },
+        { role: 'tool', content: '"noon"', toolCall: { name: 'get_current_time', params: {} } },
+        { role: 'user', content: 'Never mind' },
+      ]);
+
+      expect(result).toEqual([
+        { type: 'user', text: 'What time is it?' },
+        { type: 'model', response: [{ type: 'functionCall', name: 'get_current_time', params: {}, result: 'noon' }] },
+        { type: 'user', text: 'Never mind' },
+      ]);
+    });
+
+    it('should skip tool messages without a tool call', () => {
+      const result = toLlamaChatHistory([
+        { role: 'tool', content: 'orphan' },
+        { role: 'assistant', content: 'Hi' },
+      ]);
+
+      expect(result).toEqual([{ type: 'model', response: ['Hi'] }]);
+    });
+  });
+});
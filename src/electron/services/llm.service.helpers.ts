@@ -1,4 +1,5 @@
 import * as fs from 'fs';
+import type { ChatHistoryMessage } from './llm.service';
 
 /**
  * Helper functions for LLM Service
@@ -24,4 +25,124 @@ export function getGpuModeDescription(useGpu: boolean): string {
  */
 export function getErrorMessage(error: any): string {
   return error?.message || String(error);
-}
\ No newline at end of file
+}
+/**
+ * Context size suggested for models found on disk. Their trained length can be far more
+ * (131072 tokens for Llama 3.2) than the memory of most computers holds.
+ */
+export const DEFAULT_RECOMMENDED_CONTEXT = 10000;
+
+/**
+ * Context size suggested for a model trained with `contextLength` tokens, when known
+ */
+export function getRecommendedContext(contextLength: number | null | undefined): number {
+  return Math.min(contextLength || DEFAULT_RECOMMENDED_CONTEXT, DEFAULT_RECOMMENDED_CONTEXT);
+}
+
+/**
+ * Share of the context window kept free for the model's reply
+ */
+export const RESPONSE_TOKEN_RESERVE_RATIO = 0.25;
+
+/**
+ * Approximate number of tokens the chat template adds around each message
+ */
+export const MESSAGE_TOKEN_OVERHEAD = 8;
+
+/**
+ * Get the number of tokens the chat history may use for a given context size
+ */
+export function getHistoryTokenBudget(contextSize: number): number {
+  return Math.max(0, contextSize - Math.ceil(contextSize * RESPONSE_TOKEN_RESERVE_RATIO));
+}
+
+/**
+ * Drop the oldest messages until the history fits in the token budget.
+ * The latest message is always kept, and the trimmed history never starts
+ * with an assistant reply whose question was dropped.
+ */
+export function trimHistoryToTokenBudget<T extends ChatHistoryMessage>(
+  messages: T[],
+  countTokens: (text: string) => number,
+  budget: number
+): T[] {
+  const kept: T[] = [];
+  let usedTokens = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const messageTokens = countTokens(messages[i].content) + MESSAGE_TOKEN_OVERHEAD;
+    if (kept.length > 0 && usedTokens + messageTokens > budget) {
+      break;
+    }
+    kept.unshift(messages[i]);
+    usedTokens += messageTokens;
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+
+  return kept;
+}
+
+interface LlamaFunctionCallItem {
+  type: 'functionCall';
+  name: string;
+  params: unknown;
+  result: unknown;
+}
+
+export type LlamaHistoryItem =
+  | { type: 'user'; text: string }
+  | { type: 'model'; response: Array<string | LlamaFunctionCallItem> };
+
+/**
+ * Read a stored tool result back into the value the tool returned.
+ * Results that are not JSON (e.g. the message of a denied call) are kept as text.
+ */
+function parseToolResult(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Convert stored chat messages to node-llama-cpp chat history items.
+ * Tool messages become function calls at the start of the model response that follows them.
+ */
+export function toLlamaChatHistory(messages: ChatHistoryMessage[]): LlamaHistoryItem[] {
+  const items: LlamaHistoryItem[] = [];
+  let pendingCalls: LlamaFunctionCallItem[] = [];
+
+  const flushCalls = () => {
+    if (pendingCalls.length > 0) {
+      items.push({ type: 'model', response: pendingCalls });
+      pendingCalls = [];
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      if (message.toolCall) {
+        pendingCalls.push({
+          type: 'functionCall',
+          name: message.toolCall.name,
+          params: message.toolCall.params,
+          result: parseToolResult(message.content),
+        });
+      }
+    } else if (message.role === 'user') {
+      // Calls of a reply that was never written (e.g. stopped generation)
+      flushCalls();
+      items.push({ type: 'user', text: message.content });
+    } else {
+      items.push({ type: 'model', response: [...pendingCalls, message.content] });
+      pendingCalls = [];
+    }
+  }
+  flushCalls();
+
+  return items;
+}
@@ -1,6 +1,12 @@
-import { LLMService, getLLMService } from './llm.service';
+import { LLMService, getLLMService, DEFAULT_LLM_CONFIG, DEFAULT_API_SERVER_SETTINGS, DEFAULT_ENDPOINT_SETTINGS } from './llm.service';
 import * as fs from 'fs';
 import * as path from 'path';
+import { readGGUFMetadata } from './gguf.metadata';
+
+// Mock the GGUF header reader
+jest.mock('./gguf.metadata', () => ({
+  readGGUFMetadata: jest.fn(),
+}));
 
 // Mock electron
 jest.mock('electron', () => ({
@@ -29,6 +35,7 @@ describe('LLMService', () => {
   let service: LLMService;
   let mockGetLlama: jest.Mock;
   let mockLlama: any;
+  let mockGrammar: any;
   let mockModel: any;
   let mockContext: any;
   let mockSession: any;
@@ -60,6 +67,9 @@ describe('LLMService', () => {
     // Create mocks for llama objects
     mockSession = {
       prompt: jest.fn().mockResolvedValue(undefined),
+      getChatHistory: jest.fn().mockReturnValue([{ type: 'system', text: 'Default system prompt' }]),
+      setChatHistory: jest.fn(),
+      sequence: { contextTokens: [] },
     };
 
     mockContext = {
@@ -71,10 +81,16 @@ describe('LLMService', () => {
       createContext: jest.fn().mockResolvedValue(mockContext),
       dispose: jest.fn().mockResolvedValue(undefined),
       detokenize: jest.fn((tokens: number[]) => 'token'),
+      tokenize: jest.fn((text: string) => text.split(' ')),
+    };
+
+    mockGrammar = {
+      parse: jest.fn((json: string) => JSON.parse(json)),
     };
 
     mockLlama = {
       loadModel: jest.fn().mockResolvedValue(mockModel),
+      createGrammarForJsonSchema: jest.fn().mockResolvedValue(mockGrammar),
     };
 
     mockGetLlama = jest.fn().mockResolvedValue(mockLlama);
@@ -188,6 +204,8 @@ describe('LLMService', () => {
 
   describe('setCustomModelsPath', () => {
     it('should write custom models path to config', () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('{}');
+
       service.setCustomModelsPath('/new/path');
 
       expect(fs.writeFileSync).toHaveBeenCalledWith(
@@ -203,6 +221,17 @@ describe('LLMService', () => {
 
       expect(fs.mkdirSync).toHaveBeenCalledWith(expect.any(String), { recursive: true });
     });
+
+    it('should keep the other saved settings', () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ modelsPath: '/old', config: { topK: 20 } }));
+
+      service.setCustomModelsPath('/new/path');
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        expect.any(String),
+        JSON.stringify({ modelsPath: '/new/path', config: { topK: 20 } }, null, 2)
+      );
+    });
   });
 
   describe('scanFolderForModels', () => {
@@ -225,6 +254,49 @@ describe('LLMService', () => {
       expect(result[0].installed).toBe(true);
       expect(result[0].type).toBe('custom');
     });
+
+    it('should fill in model info from the GGUF header', () => {
+      const metadata = {
+        architecture: 'llama',
+        name: 'Llama 3.2 1B Instruct',
+        parameterCount: 1235814400,
+        quantization: 'Q4_K_M',
+        contextLength: 131072,
+        chatTemplate: '{{ messages }}',
+        license: 'llama3.2',
+      };
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readdirSync as jest.Mock).mockReturnValue(['model1.gguf']);
+      (readGGUFMetadata as jest.Mock).mockReturnValueOnce(metadata);
+
+      const result = service.scanFolderForModels('/models');
+
+      expect(readGGUFMetadata).toHaveBeenCalledWith('/models/model1.gguf');
+      expect(result[0].license).toBe('llama3.2');
+      expect(result[0].recommendedContext).toBe(10000);
+      expect(result[0].maxContext).toBe(131072);
+      expect(result[0].metadata).toEqual(metadata);
+    });
+
+    it('should list models whose header cannot be read with default values', () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readdirSync as jest.Mock).mockReturnValue(['broken.gguf']);
+      (readGGUFMetadata as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Not a GGUF file');
+      });
+
+      const result = service.scanFolderForModels('/models');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].license).toBe('Unknown');
+      expect(result[0].recommendedContext).toBe(10000);
+      expect(result[0].maxContext).toBeNull();
+      expect(result[0].metadata).toBeNull();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to read GGUF metadata of /models/broken.gguf:', expect.any(Error));
+
+      consoleErrorSpy.mockRestore();
+    });
   });
 
   describe('ensureModelsDirectory', () => {
@@ -553,6 +625,10 @@ describe('LLMService', () => {
     });
   });
 
+  it('should be the llama-cpp inference provider', () => {
+    expect(service.id).toBe('llama-cpp');
+  });
+
   describe('isModelLoaded', () => {
     beforeEach(async () => {
       await service.initialize();
@@ -585,6 +661,15 @@ describe('LLMService', () => {
 
       expect(service.getCurrentModelPath()).toBe('/model.gguf');
     });
+
+    it('should return the id of the loaded model', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      expect(service.getCurrentModelId()).toBeNull();
+
+      await service.loadModel('/model.gguf', undefined, { modelId: 'model1' });
+
+      expect(service.getCurrentModelId()).toBe('model1');
+    });
   });
 
   describe('generateResponse', () => {
@@ -642,6 +727,513 @@ describe('LLMService', () => {
         topK: 50,
       }));
     });
+
+    it('should reset the session to the system prompt before prompting', async () => {
+      await service.generateResponse('test');
+
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith([
+        { type: 'system', text: 'Default system prompt' },
+      ]);
+    });
+  });
+
+  describe('generateStructured', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string', maxLength: 50 },
+      },
+    };
+
+    beforeEach(async () => {
+      await service.initialize();
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      await service.loadModel('/model.gguf');
+      jest.clearAllMocks();
+    });
+
+    it('should prompt with a grammar built from the schema and return the parsed value', async () => {
+      mockSession.prompt.mockResolvedValue('{"title": "Weekend plans"}');
+
+      const result = await service.generateStructured<{ title: string }>('Name this chat', schema);
+
+      expect(mockLlama.createGrammarForJsonSchema).toHaveBeenCalledWith(schema);
+      expect(mockSession.prompt).toHaveBeenCalledWith('Name this chat', expect.objectContaining({ grammar: mockGrammar }));
+      expect(mockGrammar.parse).toHaveBeenCalledWith('{"title": "Weekend plans"}');
+      expect(result).toEqual({ title: 'Weekend plans' });
+    });
+
+    it('should reset the session to the system prompt before prompting', async () => {
+      mockSession.prompt.mockResolvedValue('{"title": "Test"}');
+
+      await service.generateStructured('Name this chat', schema);
+
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith([
+        { type: 'system', text: 'Default system prompt' },
+      ]);
+    });
+
+    it('should use config values for generation', async () => {
+      service.updateConfig({ temperature: 0.2, topP: 0.5, topK: 10 });
+      mockSession.prompt.mockResolvedValue('{"title": "Test"}');
+
+      await service.generateStructured('Name this chat', schema);
+
+      expect(mockSession.prompt).toHaveBeenCalledWith('Name this chat', expect.objectContaining({
+        temperature: 0.2,
+        topP: 0.5,
+        topK: 10,
+      }));
+    });
+
+    it('should throw error if no model loaded', async () => {
+      await service.unloadModel();
+
+      await expect(service.generateStructured('test', schema)).rejects.toThrow('No model loaded');
+    });
+
+    it('should log and rethrow when the output does not match the schema', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const error = new Error('Expected a string');
+      mockSession.prompt.mockResolvedValue('{"title": 1}');
+      mockGrammar.parse.mockImplementation(() => {
+        throw error;
+      });
+
+      await expect(service.generateStructured('test', schema)).rejects.toThrow('Expected a string');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to generate structured response:', error);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should reject schemas the grammar cannot be built from', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockLlama.createGrammarForJsonSchema.mockRejectedValue(new Error('Unsupported schema'));
+
+      await expect(service.generateStructured('test', { type: 'date' })).rejects.toThrow('Unsupported schema');
+      expect(mockSession.prompt).not.toHaveBeenCalled();
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('generateChatResponse', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      await service.loadModel('/model.gguf');
+      jest.clearAllMocks();
+    });
+
+    it('should replay the chat history and prompt with the last user message', async () => {
+      mockSession.prompt.mockImplementation(async (_prompt: string, options: any) => {
+        options.onToken([1]);
+      });
+      mockModel.detokenize.mockReturnValue('reply');
+
+      const result = await service.generateChatResponse(1, [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there' },
+        { role: 'user', content: 'How are you?' },
+      ]);
+
+      expect(result).toBe('reply');
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith([
+        { type: 'system', text: 'Default system prompt' },
+        { type: 'user', text: 'Hello' },
+        { type: 'model', response: ['Hi there'] },
+      ]);
+      expect(mockSession.prompt).toHaveBeenCalledWith('How are you?', expect.any(Object));
+    });
+
+    it('should use the chat system prompt instead of the default one', async () => {
+      await service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }], undefined, {
+        systemPrompt: 'You are a translator',
+      });
+
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith([
+        { type: 'system', text: 'You are a translator' },
+      ]);
+    });
+
+    it('should stream tokens to the callback', async () => {
+      const onTokenCallback = jest.fn();
+      mockSession.prompt.mockImplementation(async (_prompt: string, options: any) => {
+        options.onToken([1]);
+      });
+      mockModel.detokenize.mockReturnValue('token');
+
+      await service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }], onTokenCallback);
+
+      expect(onTokenCallback).toHaveBeenCalledWith('token');
+    });
+
+    it('should stop on abort and return the partial response', async () => {
+      const abortController = new AbortController();
+      mockSession.prompt.mockImplementation(async (_prompt: string, options: any) => {
+        options.onToken([1]);
+        abortController.abort();
+        if (!options.signal.aborted) {
+          options.onToken([2]);
+        }
+      });
+      mockModel.detokenize.mockReturnValue('partial');
+
+      const result = await service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }], undefined, {
+        signal: abortController.signal,
+      });
+
+      expect(result).toBe('partial');
+      expect(mockSession.prompt).toHaveBeenCalledWith('Hello', expect.objectContaining({
+        signal: abortController.signal,
+        stopOnAbortSignal: true,
+      }));
+    });
+
+    it('should apply the sampling overrides of a reply', async () => {
+      await service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }], undefined, {
+        temperature: 0,
+        topP: 0.5,
+        maxTokens: 16,
+      });
+
+      expect(mockSession.prompt).toHaveBeenCalledWith('Hello', expect.objectContaining({
+        temperature: 0,
+        topP: 0.5,
+        topK: DEFAULT_LLM_CONFIG.topK,
+        maxTokens: 16,
+      }));
+    });
+
+    it('should report the tokens of the prompt and of the reply', async () => {
+      const onUsage = jest.fn();
+      mockSession.prompt.mockImplementation(async (_prompt: string, options: any) => {
+        options.onToken([1, 2]);
+        options.onToken([3]);
+        mockSession.sequence.contextTokens = new Array(45).fill(0);
+      });
+
+      await service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }], undefined, { onUsage });
+
+      expect(onUsage).toHaveBeenCalledWith({ promptTokens: 42, completionTokens: 3 });
+    });
+
+    it('should let the model call the given functions', async () => {
+      const functions = {
+        get_current_time: { description: 'Get the time', handler: jest.fn() },
+      };
+
+      await service.generateChatResponse(1, [{ role: 'user', content: 'What time is it?' }], undefined, { functions });
+
+      expect(mockSession.prompt).toHaveBeenCalledWith('What time is it?', expect.objectContaining({ functions }));
+    });
+
+    it('should replay stored tool calls as function calls', async () => {
+      await service.generateChatResponse(1, [
+        { role: 'user', content: 'What time is it?' },
+        { role: 'tool', content: '"noon"', toolCall: { name: 'get_current_time', params: {} } },
+        { role: 'assistant', content: 'It is noon' },
+        { role: 'user', content: 'Thanks' },
+      ]);
+
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith(expect.arrayContaining([
+        {
+          type: 'model',
+          response: [{ type: 'functionCall', name: 'get_current_time', params: {}, result: 'noon' }, 'It is noon'],
+        },
+      ]));
+    });
+
+    it('should trim the oldest messages when the history exceeds the context size', async () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      service.updateConfig({ contextSize: 40 });
+
+      await service.generateChatResponse(1, [
+        { role: 'user', content: 'one two three four five six seven eight' },
+        { role: 'assistant', content: 'one two three four five six seven eight' },
+        { role: 'user', content: 'short question' },
+      ]);
+
+      expect(mockSession.setChatHistory).toHaveBeenCalledWith([
+        { type: 'system', text: 'Default system prompt' },
+      ]);
+      expect(mockSession.prompt).toHaveBeenCalledWith('short question', expect.any(Object));
+      expect(consoleSpy).toHaveBeenCalledWith('Chat 1: trimmed 2 oldest messages to fit the context window');
+      consoleSpy.mockRestore();
+    });
+
+    it('should prompt concurrent chats one at a time with their own history', async () => {
+      let sessionHistory: unknown[] = [];
+      const promptedHistories: Record<string, unknown[]> = {};
+      let finishFirstPrompt!: () => void;
+      mockSession.setChatHistory.mockImplementation((history: unknown[]) => {
+        sessionHistory = history;
+      });
+      mockSession.prompt
+        .mockImplementationOnce(async (prompt: string) => {
+          promptedHistories[prompt] = sessionHistory;
+          await new Promise<void>((resolve) => {
+            finishFirstPrompt = resolve;
+          });
+          // The history must still be the one of this chat when generation ends
+          promptedHistories[`${prompt} (end)`] = sessionHistory;
+        })
+        .mockImplementationOnce(async (prompt: string) => {
+          promptedHistories[prompt] = sessionHistory;
+        });
+
+      const first = service.generateChatResponse(1, [
+        { role: 'user', content: 'First chat' },
+        { role: 'assistant', content: 'Reply in the first chat' },
+        { role: 'user', content: 'First question' },
+      ]);
+      const second = service.generateChatResponse(2, [
+        { role: 'user', content: 'Second chat' },
+        { role: 'assistant', content: 'Reply in the second chat' },
+        { role: 'user', content: 'Second question' },
+      ]);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockSession.prompt).toHaveBeenCalledTimes(1);
+      finishFirstPrompt();
+      await Promise.all([first, second]);
+
+      const historyOf = (chat: string) => [
+        { type: 'system', text: 'Default system prompt' },
+        { type: 'user', text: `${chat} chat` },
+        { type: 'model', response: [`Reply in the ${chat.toLowerCase()} chat`] },
+      ];
+      expect(promptedHistories).toEqual({
+        'First question': historyOf('First'),
+        'First question (end)': historyOf('First'),
+        'Second question': historyOf('Second'),
+      });
+    });
+
+    it('should run the next generation after a failed one', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSession.prompt.mockRejectedValueOnce(new Error('Generation failed'));
+
+      const failed = service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }]);
+      const next = service.generateResponse('Name this chat');
+
+      await expect(failed).rejects.toThrow('Generation failed');
+      await expect(next).resolves.toBe('');
+      expect(mockSession.prompt).toHaveBeenLastCalledWith('Name this chat', expect.any(Object));
+      consoleSpy.mockRestore();
+    });
+
+    it('should throw error if history does not end with a user message', async () => {
+      await expect(
+        service.generateChatResponse(1, [{ role: 'assistant', content: 'Hi' }])
+      ).rejects.toThrow('Chat 1 history must end with a user message');
+      await expect(service.generateChatResponse(1, [])).rejects.toThrow('must end with a user message');
+    });
+
+    it('should throw error if no model loaded', async () => {
+      await service.unloadModel();
+
+      await expect(
+        service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }])
+      ).rejects.toThrow('No model loaded');
+    });
+
+    it('should throw error if generation fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSession.prompt.mockRejectedValue(new Error('Generation failed'));
+
+      await expect(
+        service.generateChatResponse(1, [{ role: 'user', content: 'Hello' }])
+      ).rejects.toThrow('Generation failed');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to generate response for chat 1:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('countTokens', () => {
+    it('should count tokens with the loaded model', async () => {
+      await service.initialize();
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      await service.loadModel('/model.gguf');
+
+      expect(service.countTokens('three small words')).toBe(3);
+    });
+
+    it('should throw error if no model loaded', () => {
+      expect(() => service.countTokens('text')).toThrow('No model loaded');
+    });
+  });
+
+  describe('saved configuration', () => {
+    // Keep llm-config.json in memory so writes are visible to later reads
+    const useSettingsFile = (initial: object) => {
+      let contents = JSON.stringify(initial);
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockImplementation(() => contents);
+      (fs.writeFileSync as jest.Mock).mockImplementation((_path: string, data: string) => {
+        contents = data;
+      });
+      return () => JSON.parse(contents);
+    };
+
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it('should start with the saved configuration', () => {
+      useSettingsFile({ config: { temperature: 0.2 } });
+
+      const freshService = new LLMService();
+
+      expect(freshService.getConfig()).toEqual({ ...DEFAULT_LLM_CONFIG, temperature: 0.2 });
+    });
+
+    it('should return the defaults when nothing is saved', () => {
+      useSettingsFile({});
+
+      expect(service.getSavedConfig()).toEqual(DEFAULT_LLM_CONFIG);
+    });
+
+    it('should apply the overrides of a model', () => {
+      useSettingsFile({
+        config: { temperature: 0.2, topK: 20 },
+        modelConfigs: { model1: { topK: 60 } },
+      });
+
+      expect(service.getSavedConfig('model1')).toEqual({ ...DEFAULT_LLM_CONFIG, temperature: 0.2, topK: 60 });
+      expect(service.getSavedConfig('model2')).toEqual({ ...DEFAULT_LLM_CONFIG, temperature: 0.2, topK: 20 });
+    });
+
+    it('should save configuration changes for every model', () => {
+      const readSettings = useSettingsFile({ modelsPath: '/models', config: { topK: 20 } });
+
+      service.updateConfig({ temperature: 0.3 });
+
+      expect(readSettings()).toEqual({ modelsPath: '/models', config: { topK: 20, temperature: 0.3 } });
+      expect(service.getConfig().temperature).toBe(0.3);
+    });
+
+    it('should save overrides for one model without changing the loaded model', () => {
+      const readSettings = useSettingsFile({ modelConfigs: { model1: { topK: 60 } } });
+      const temperature = service.getConfig().temperature;
+
+      service.updateConfig({ temperature: 0.1 }, 'model1');
+
+      expect(readSettings().modelConfigs).toEqual({ model1: { topK: 60, temperature: 0.1 } });
+      expect(service.getConfig().temperature).toBe(temperature);
+    });
+
+    it('should apply overrides to the loaded model right away', async () => {
+      useSettingsFile({});
+      await service.loadModel('/model1.gguf', undefined, { modelId: 'model1' });
+
+      service.updateConfig({ temperature: 0.1 }, 'model1');
+
+      expect(service.getConfig().temperature).toBe(0.1);
+    });
+
+    it('should load a model with its overrides and remember it', async () => {
+      const readSettings = useSettingsFile({ config: { temperature: 0.2 }, modelConfigs: { model1: { contextSize: 4096 } } });
+
+      await service.loadModel('/model1.gguf', undefined, { modelId: 'model1' });
+
+      expect(mockModel.createContext).toHaveBeenCalledWith({ contextSize: 4096 });
+      expect(service.getConfig().temperature).toBe(0.2);
+      expect(readSettings().lastModel).toEqual({ path: '/model1.gguf', modelId: 'model1' });
+      expect(service.getLastModel()).toEqual({ path: '/model1.gguf', modelId: 'model1' });
+    });
+
+    it('should not save the configuration given for one load', async () => {
+      const readSettings = useSettingsFile({});
+
+      await service.loadModel('/model1.gguf', { temperature: 0.9 }, { modelId: 'model1' });
+
+      expect(service.getConfig().temperature).toBe(0.9);
+      expect(readSettings().config).toBeUndefined();
+      expect(readSettings().modelConfigs).toBeUndefined();
+    });
+
+    it('should remember models picked from disk without an id', async () => {
+      useSettingsFile({});
+
+      await service.loadModel('/custom.gguf');
+
+      expect(service.getLastModel()).toEqual({ path: '/custom.gguf', modelId: null });
+    });
+
+    it('should report load progress', async () => {
+      useSettingsFile({});
+      const onProgress = jest.fn();
+
+      await service.loadModel('/model1.gguf', undefined, { onProgress });
+
+      expect(mockLlama.loadModel).toHaveBeenCalledWith(expect.objectContaining({ onLoadProgress: onProgress }));
+    });
+
+    it('should not remember a model that failed to load', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const readSettings = useSettingsFile({});
+      mockLlama.loadModel.mockRejectedValue(new Error('Invalid model'));
+
+      await expect(service.loadModel('/broken.gguf')).rejects.toThrow('Failed to load model');
+
+      expect(readSettings().lastModel).toBeUndefined();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should return null when no model was loaded before', () => {
+      useSettingsFile({});
+
+      expect(service.getLastModel()).toBeNull();
+    });
+
+    it('should save whether the last model is loaded at startup', () => {
+      const readSettings = useSettingsFile({});
+
+      expect(service.isAutoLoadEnabled()).toBe(false);
+      service.setAutoLoadEnabled(true);
+
+      expect(readSettings().autoLoadLastModel).toBe(true);
+      expect(service.isAutoLoadEnabled()).toBe(true);
+    });
+
+    it('should return the default server settings when nothing is saved', () => {
+      useSettingsFile({});
+
+      expect(service.getApiServerSettings()).toEqual(DEFAULT_API_SERVER_SETTINGS);
+    });
+
+    it('should save server settings changes', () => {
+      const readSettings = useSettingsFile({ apiServer: { port: 9000 } });
+
+      const settings = service.updateApiServerSettings({ apiKey: 'secret' });
+
+      expect(settings).toEqual({ ...DEFAULT_API_SERVER_SETTINGS, port: 9000, apiKey: 'secret' });
+      expect(readSettings().apiServer).toEqual(settings);
+      expect(service.getApiServerSettings()).toEqual(settings);
+    });
+
+    it('should save the last model of another provider', () => {
+      const readSettings = useSettingsFile({});
+
+      service.setLastModel({ path: 'llama3.2', modelId: null, provider: 'openai-compatible' });
+
+      expect(readSettings().lastModel).toEqual({ path: 'llama3.2', modelId: null, provider: 'openai-compatible' });
+      expect(service.getLastModel()).toEqual({ path: 'llama3.2', modelId: null, provider: 'openai-compatible' });
+    });
+
+    it('should return the default endpoint settings when nothing is saved', () => {
+      useSettingsFile({});
+
+      expect(service.getEndpointSettings()).toEqual(DEFAULT_ENDPOINT_SETTINGS);
+    });
+
+    it('should save endpoint settings changes', () => {
+      const readSettings = useSettingsFile({ endpoint: { apiKey: 'secret' } });
+
+      const settings = service.updateEndpointSettings({ baseUrl: 'http://localhost:8080/v1' });
+
+      expect(settings).toEqual({ baseUrl: 'http://localhost:8080/v1', apiKey: 'secret' });
+      expect(readSettings().endpoint).toEqual(settings);
+    });
   });
 
   describe('updateConfig', () => {
@@ -679,6 +1271,96 @@ describe('LLMService', () => {
     });
   });
 
+  describe('embedding model', () => {
+    let mockEmbeddingContext: any;
+    let mockEmbeddingModel: any;
+
+    beforeEach(() => {
+      mockEmbeddingContext = {
+        getEmbeddingFor: jest.fn().mockResolvedValue({ vector: [0.1, 0.2, 0.3] }),
+        dispose: jest.fn().mockResolvedValue(undefined),
+      };
+      mockEmbeddingModel = {
+        createEmbeddingContext: jest.fn().mockResolvedValue(mockEmbeddingContext),
+        dispose: jest.fn().mockResolvedValue(undefined),
+      };
+      mockLlama.loadModel.mockResolvedValue(mockEmbeddingModel);
+    });
+
+    it('should load the model with an embedding context and remember it', async () => {
+      await service.loadEmbeddingModel('/models/embed.gguf');
+
+      expect(mockLlama.loadModel).toHaveBeenCalledWith({ modelPath: '/models/embed.gguf' });
+      expect(mockEmbeddingModel.createEmbeddingContext).toHaveBeenCalled();
+      expect(service.getEmbeddingModelPath()).toBe('/models/embed.gguf');
+      const written = JSON.parse((fs.writeFileSync as jest.Mock).mock.calls[0][1]);
+      expect(written.embeddingModelPath).toBe('/models/embed.gguf');
+    });
+
+    it('should keep the chat model loaded', async () => {
+      mockLlama.loadModel.mockResolvedValueOnce(mockModel);
+      await service.loadModel('/model.gguf');
+
+      await service.loadEmbeddingModel('/models/embed.gguf');
+
+      expect(service.isModelLoaded()).toBe(true);
+      expect(mockModel.dispose).not.toHaveBeenCalled();
+    });
+
+    it('should replace a previously loaded embedding model', async () => {
+      await service.loadEmbeddingModel('/models/first.gguf');
+      await service.loadEmbeddingModel('/models/second.gguf');
+
+      expect(mockEmbeddingContext.dispose).toHaveBeenCalledTimes(1);
+      expect(mockEmbeddingModel.dispose).toHaveBeenCalledTimes(1);
+      expect(service.getEmbeddingModelPath()).toBe('/models/second.gguf');
+    });
+
+    it('should throw when the file does not exist', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      await expect(service.loadEmbeddingModel('/missing.gguf')).rejects.toThrow('Model file not found: /missing.gguf');
+    });
+
+    it('should release the model when the embedding context cannot be created', async () => {
+      mockEmbeddingModel.createEmbeddingContext.mockRejectedValue(new Error('Not an embedding model'));
+
+      await expect(service.loadEmbeddingModel('/models/chat.gguf')).rejects.toThrow('Not an embedding model');
+      expect(mockEmbeddingModel.dispose).toHaveBeenCalled();
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should embed text as a plain array', async () => {
+      await service.loadEmbeddingModel('/models/embed.gguf');
+
+      await expect(service.embed('hello')).resolves.toEqual([0.1, 0.2, 0.3]);
+      expect(mockEmbeddingContext.getEmbeddingFor).toHaveBeenCalledWith('hello');
+    });
+
+    it('should load the saved embedding model on first use', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ embeddingModelPath: '/models/saved.gguf' }));
+
+      await service.embed('hello');
+
+      expect(mockLlama.loadModel).toHaveBeenCalledWith({ modelPath: '/models/saved.gguf' });
+    });
+
+    it('should throw when no embedding model was chosen', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('{}');
+
+      await expect(service.embed('hello')).rejects.toThrow('No embedding model selected');
+    });
+
+    it('should unload the embedding model on dispose', async () => {
+      await service.loadEmbeddingModel('/models/embed.gguf');
+
+      await service.dispose();
+
+      expect(mockEmbeddingContext.dispose).toHaveBeenCalled();
+      expect(mockEmbeddingModel.dispose).toHaveBeenCalled();
+    });
+  });
+
   describe('dispose', () => {
     beforeEach(async () => {
       await service.initialize();
@@ -1,13 +1,26 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { app } from 'electron';
-import { getModelPathIfExists, getGpuModeDescription, getErrorMessage } from './llm.service.helpers';
+import {
+  getModelPathIfExists,
+  getGpuModeDescription,
+  getErrorMessage,
+  getHistoryTokenBudget,
+  getRecommendedContext,
+  trimHistoryToTokenBudget,
+  toLlamaChatHistory,
+} from './llm.service.helpers';
+import { readGGUFMetadata } from './gguf.metadata';
+import type { GGUFMetadata } from './gguf.metadata';
+import type { InferenceProvider, InferenceProviderId } from './inference.provider';
 
 // Dynamic import types
 type Llama = any;
 type LlamaModel = any;
 type LlamaContext = any;
 type LlamaChatSession = any;
+type LlamaChatHistoryItem = any;
+type LlamaEmbeddingContext = any;
 
 export interface ModelInfo {
   id: string;
@@ -17,11 +30,14 @@ export interface ModelInfo {
   size: string;
   url: string;
   filename: string;
+  sha256?: string | null; // Hex digest checked after downloading, not verified when missing
   recommendedContext: number;
+  maxContext?: number | null; // Context length the model was trained with, when read from its file
   type: string;
   installed?: boolean;
   path?: string;
   requiresAttribution?: boolean;
+  metadata?: GGUFMetadata | null; // Read from the file header of models found on disk
 }
 
 export interface LLMConfig {
@@ -32,20 +48,134 @@ export interface LLMConfig {
   topK: number;
 }
 
-export class LLMService {
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  contextSize: 10000,
+  gpuLayers: -1, // Auto-detect
+  temperature: 0.7,
+  topP: 0.9,
+  topK: 40,
+};
+
+export interface LastModel {
+  path: string; // Model name for endpoints
+  modelId: string | null; // ModelInfo.id, null for files picked from disk
+  provider?: InferenceProviderId; // llama-cpp when missing
+}
+
+/**
+ * Contents of llm-config.json
+ */
+export interface StoredLLMSettings {
+  modelsPath?: string;
+  config?: Partial<LLMConfig>; // Applies to every model
+  modelConfigs?: Record<string, Partial<LLMConfig>>; // Overrides keyed by ModelInfo.id
+  lastModel?: LastModel;
+  autoLoadLastModel?: boolean;
+  apiServer?: Partial<ApiServerSettings>;
+  endpoint?: Partial<EndpointSettings>;
+  embeddingModelPath?: string; // GGUF file used to index and search the knowledge base
+}
+
+/**
+ * OpenAI-compatible endpoint used by the openai-compatible provider
+ */
+export interface EndpointSettings {
+  baseUrl: string; // Including the /v1 path, e.g. http://127.0.0.1:11434/v1 for Ollama
+  apiKey: string; // Sent as a bearer token when not empty
+}
+
+export const DEFAULT_ENDPOINT_SETTINGS: EndpointSettings = {
+  baseUrl: 'http://127.0.0.1:11434/v1',
+  apiKey: '',
+};
+
+/**
+ * Settings of the local OpenAI-compatible server
+ */
+export interface ApiServerSettings {
+  enabled: boolean; // Started with the app when true
+  port: number;
+  apiKey: string; // Required as a bearer token when not empty, and always when allowRemote is true
+  allowRemote: boolean; // Accept connections from other machines, loopback only when false
+}
+
+export const DEFAULT_API_SERVER_SETTINGS: ApiServerSettings = {
+  enabled: false,
+  port: 8765,
+  apiKey: '',
+  allowRemote: false,
+};
+
+export interface LoadModelOptions {
+  modelId?: string | null; // Applies the model's saved overrides and is remembered with the last model
+  onProgress?: (progress: number) => void; // Fraction of the model file loaded, from 0 to 1
+}
+
+/**
+ * JSON schema for structured generation. node-llama-cpp supports a subset of the spec:
+ * objects, arrays, strings (with length limits), numbers, booleans, null, enum, const and oneOf.
+ * Objects reject additional properties and require all of their properties unless stated otherwise.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string; // For tool messages, the result given back to the model
+  toolCall?: { name: string; params: unknown } | null; // Set on tool messages
+}
+
+/**
+ * A function the model may call while generating a reply.
+ * The value returned by `handler` is given back to the model, which then continues its reply.
+ */
+export interface ChatFunction {
+  description?: string;
+  params?: JsonSchema;
+  handler(params: any): unknown;
+}
+
+export interface ChatGenerationOptions {
+  systemPrompt?: string | null; // Replaces the model's default system prompt when set
+  signal?: AbortSignal; // Stops generation and keeps the text produced so far
+  functions?: Record<string, ChatFunction>; // Functions the model may call, keyed by name
+  temperature?: number; // Sampling overrides for this reply, the configuration applies otherwise
+  topP?: number;
+  topK?: number;
+  maxTokens?: number; // Ends the reply after this many tokens
+  onUsage?: (usage: GenerationUsage) => void; // Called once the reply is generated, or stopped
+}
+
+/**
+ * Tokens used by a reply, as counted by the provider
+ */
+export interface GenerationUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Runs GGUF models in-process with node-llama-cpp, and owns the LLM settings file
+ */
+export class LLMService implements InferenceProvider {
+  readonly id = 'llama-cpp';
   private llama: Llama | null = null;
   private model: LlamaModel | null = null;
   private context: LlamaContext | null = null;
   private session: LlamaChatSession | null = null;
+  private systemChatHistory: LlamaChatHistoryItem[] = [];
   private initialized: boolean = false;
   private currentModelPath: string | null = null;
-  private config: LLMConfig = {
-    contextSize: 10000,
-    gpuLayers: -1, // Auto-detect
-    temperature: 0.7,
-    topP: 0.9,
-    topK: 40,
-  };
+  private currentModelId: string | null = null;
+  private config: LLMConfig;
+  private embeddingModel: LlamaModel | null = null;
+  private embeddingContext: LlamaEmbeddingContext | null = null;
+  private embeddingModelPath: string | null = null;
+  // Tail of the generations waiting for the chat session, see runExclusive
+  private generationQueue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.config = this.getSavedConfig();
+  }
 
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -82,20 +212,27 @@ export class LLMService {
   }
 
   getCustomModelsPath(): string | null {
+    return this.readSettings().modelsPath || null;
+  }
+
+  setCustomModelsPath(modelsPath: string): void {
+    this.writeSettings({ modelsPath });
+  }
+
+  private readSettings(): StoredLLMSettings {
     const configPath = this.getConfigPath();
     if (fs.existsSync(configPath)) {
       try {
-        const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-        return config.modelsPath || null;
+        return JSON.parse(fs.readFileSync(configPath, 'utf-8')) || {};
       } catch (error) {
         console.error('Failed to read models config:', error);
-        return null;
+        return {};
       }
     }
-    return null;
+    return {};
   }
 
-  setCustomModelsPath(modelsPath: string): void {
+  private writeSettings(changes: Partial<StoredLLMSettings>): void {
     const configPath = this.getConfigPath();
     const configDir = path.dirname(configPath);
 
@@ -103,8 +240,8 @@ export class LLMService {
       fs.mkdirSync(configDir, { recursive: true });
     }
 
-    const config = { modelsPath };
-    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    const settings = { ...this.readSettings(), ...changes };
+    fs.writeFileSync(configPath, JSON.stringify(settings, null, 2));
   }
 
   private getConfigPath(): string {
@@ -128,23 +265,38 @@ export class LLMService {
       const filePath = path.join(folderPath, filename);
       const stats = fs.statSync(filePath);
       const sizeInMB = (stats.size / (1024 * 1024)).toFixed(1);
+      const metadata = this.readModelMetadata(filePath);
 
       return {
         id: `custom-${filename}`,
         name: filename.replace('.gguf', ''),
-        license: 'Unknown',
+        license: metadata?.license || 'Unknown',
         description: 'Custom model from local folder',
         size: `${sizeInMB}MB`,
         url: '',
         filename,
-        recommendedContext: 10000,
+        recommendedContext: getRecommendedContext(metadata?.contextLength),
+        maxContext: metadata?.contextLength ?? null,
         type: 'custom',
         installed: true,
-        path: filePath
+        path: filePath,
+        metadata,
       };
     });
   }
 
+  /**
+   * A file with an unreadable header is still listed, with the defaults used for unknown models
+   */
+  private readModelMetadata(filePath: string): GGUFMetadata | null {
+    try {
+      return readGGUFMetadata(filePath);
+    } catch (error) {
+      console.error(`Failed to read GGUF metadata of ${filePath}:`, error);
+      return null;
+    }
+  }
+
   async ensureModelsDirectory(): Promise<void> {
     const modelsDir = this.getModelsDirectory();
     if (!fs.existsSync(modelsDir)) {
@@ -189,15 +341,17 @@ export class LLMService {
     return models.filter(m => m.installed);
   }
 
-  async loadModel(modelPath: string, config?: Partial<LLMConfig>): Promise<void> {
+  /**
+   * Load a model with the saved configuration, the model's overrides and then `config`,
+   * which applies to this load only. The model is remembered as the last loaded model.
+   */
+  async loadModel(modelPath: string, config?: Partial<LLMConfig>, options: LoadModelOptions = {}): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
     }
 
-    // Update config if provided
-    if (config) {
-      this.config = { ...this.config, ...config };
-    }
+    const modelId = options.modelId ?? null;
+    this.config = { ...this.getSavedConfig(modelId), ...config };
 
     // Unload existing model if any
     if (this.model) {
@@ -238,6 +392,7 @@ export class LLMService {
           this.model = await this.llama!.loadModel({
             modelPath,
             gpuLayers: gpuLayers,
+            onLoadProgress: options.onProgress,
           });
 
           // Create context with current context size
@@ -252,10 +407,16 @@ export class LLMService {
             contextSequence: this.context.getSequence(),
           });
 
+          // Keep the chat wrapper's default system prompt so it survives history replays
+          this.systemChatHistory = this.session.getChatHistory()
+            .filter((item: LlamaChatHistoryItem) => item.type === 'system');
+
           // Update config with successful settings
           this.config.contextSize = contextSize;
           this.config.gpuLayers = gpuLayers;
           this.currentModelPath = modelPath;
+          this.currentModelId = modelId;
+          this.writeSettings({ lastModel: { path: modelPath, modelId } });
 
           const adjustments: string[] = [];
           if (contextSize < originalContextSize) {
@@ -322,6 +483,7 @@ export class LLMService {
     this.context = null;
     this.session = null;
     this.currentModelPath = null;
+    this.currentModelId = null;
 
     const errorMessage = getErrorMessage(lastError);
     throw new Error(
@@ -335,6 +497,7 @@ export class LLMService {
     if (this.session) {
       this.session = null;
     }
+    this.systemChatHistory = [];
     if (this.context) {
       await this.context.dispose();
       this.context = null;
@@ -344,6 +507,7 @@ export class LLMService {
       this.model = null;
     }
     this.currentModelPath = null;
+    this.currentModelId = null;
     console.log('Model unloaded successfully');
   }
 
@@ -355,44 +519,291 @@ export class LLMService {
     return this.currentModelPath;
   }
 
+  getCurrentModelId(): string | null {
+    return this.currentModelId;
+  }
+
   async generateResponse(prompt: string, onToken?: (token: string) => void): Promise<string> {
-    if (!this.isModelLoaded()) {
+    return this.runExclusive(async () => {
+      try {
+        // One-off prompts must not inherit the history of a previous chat
+        this.session!.setChatHistory([...this.systemChatHistory]);
+        return await this.promptSession(prompt, onToken);
+      } catch (error) {
+        console.error('Failed to generate response:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Generate a value matching `jsonSchema`. Sampling is constrained by a grammar built from the
+   * schema, and the output is parsed and validated against it before being returned.
+   */
+  async generateStructured<T = unknown>(prompt: string, jsonSchema: JsonSchema): Promise<T> {
+    return this.runExclusive(async () => {
+      try {
+        const grammar = await this.llama!.createGrammarForJsonSchema(jsonSchema);
+
+        this.session!.setChatHistory([...this.systemChatHistory]);
+        const response = await this.session!.prompt(prompt, {
+          grammar,
+          temperature: this.config.temperature,
+          topP: this.config.topP,
+          topK: this.config.topK,
+        });
+
+        return grammar.parse(response) as T;
+      } catch (error) {
+        console.error('Failed to generate structured response:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Generate the next assistant reply for a chat.
+   * The session is re-seeded with the chat's stored history (trimmed to fit the
+   * context window) so each chat keeps its own context regardless of which chat
+   * was prompted before. The last message in the history must be the user prompt.
+   * Aborting `options.signal` ends generation early and resolves with the partial text.
+   */
+  async generateChatResponse(
+    chatId: number,
+    history: ChatHistoryMessage[],
+    onToken?: (token: string) => void,
+    options: ChatGenerationOptions = {}
+  ): Promise<string> {
+    const lastMessage = history[history.length - 1];
+    if (!lastMessage || lastMessage.role !== 'user') {
+      throw new Error(`Chat ${chatId} history must end with a user message`);
+    }
+
+    return this.runExclusive(async () => {
+      try {
+        const systemChatHistory = options.systemPrompt
+          ? [{ type: 'system', text: options.systemPrompt }]
+          : this.systemChatHistory;
+        const systemTokens = systemChatHistory
+          .reduce((total: number, item: LlamaChatHistoryItem) => total + this.countTokens(String(item.text)), 0);
+        const budget = getHistoryTokenBudget(this.config.contextSize) - systemTokens;
+        const trimmedHistory = trimHistoryToTokenBudget(history, (text) => this.countTokens(text), budget);
+
+        if (trimmedHistory.length < history.length) {
+          console.log(`Chat ${chatId}: trimmed ${history.length - trimmedHistory.length} oldest messages to fit the context window`);
+        }
+
+        this.session!.setChatHistory([
+          ...systemChatHistory,
+          ...toLlamaChatHistory(trimmedHistory.slice(0, -1)),
+        ]);
+
+        return await this.promptSession(lastMessage.content, onToken, options);
+      } catch (error) {
+        console.error(`Failed to generate response for chat ${chatId}:`, error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run a task on the chat session once the tasks queued before it have finished.
+   * Every generation replaces the session history then prompts, so two of them
+   * interleaving would answer one chat with the history of another.
+   * The model may have been unloaded while the task waited, so it is checked here.
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.generationQueue.then(() => {
+      if (!this.isModelLoaded()) {
+        throw new Error('No model loaded. Please load a model first.');
+      }
+      return task();
+    });
+    this.generationQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  countTokens(text: string): number {
+    if (!this.model) {
       throw new Error('No model loaded. Please load a model first.');
     }
+    return this.model.tokenize(text).length;
+  }
 
-    try {
-      let fullResponse = '';
-
-      await this.session!.prompt(prompt, {
-        temperature: this.config.temperature,
-        topP: this.config.topP,
-        topK: this.config.topK,
-        onToken: (tokens: number[]) => {
-          const tokenText = this.model!.detokenize(tokens);
-          fullResponse += tokenText;
-          if (onToken) {
-            onToken(tokenText);
-          }
-        },
-      });
+  private async promptSession(
+    prompt: string,
+    onToken?: (token: string) => void,
+    options: ChatGenerationOptions = {}
+  ): Promise<string> {
+    let fullResponse = '';
+    let completionTokens = 0;
+
+    await this.session!.prompt(prompt, {
+      temperature: options.temperature ?? this.config.temperature,
+      topP: options.topP ?? this.config.topP,
+      topK: options.topK ?? this.config.topK,
+      maxTokens: options.maxTokens,
+      signal: options.signal,
+      stopOnAbortSignal: true,
+      functions: options.functions,
+      onToken: (tokens: number[]) => {
+        completionTokens += tokens.length;
+        const tokenText = this.model!.detokenize(tokens);
+        fullResponse += tokenText;
+        if (onToken) {
+          onToken(tokenText);
+        }
+      },
+    });
+
+    // The context holds the prompt, with the chat template and history, followed by the reply
+    const contextTokens: number = this.session!.sequence.contextTokens.length;
+    options.onUsage?.({ promptTokens: Math.max(contextTokens - completionTokens, 0), completionTokens });
+
+    return fullResponse;
+  }
+
+  /**
+   * Load a GGUF embedding model next to the chat model and remember it for the knowledge base
+   */
+  async loadEmbeddingModel(modelPath: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    if (this.embeddingModel) {
+      await this.unloadEmbeddingModel();
+    }
+
+    if (!fs.existsSync(modelPath)) {
+      throw new Error(`Model file not found: ${modelPath}`);
+    }
 
-      return fullResponse;
+    try {
+      this.embeddingModel = await this.llama!.loadModel({ modelPath });
+      this.embeddingContext = await this.embeddingModel.createEmbeddingContext();
+      this.embeddingModelPath = modelPath;
+      this.writeSettings({ embeddingModelPath: modelPath });
+      console.log(`Embedding model loaded: ${modelPath}`);
     } catch (error) {
-      console.error('Failed to generate response:', error);
+      console.error('Failed to load embedding model:', error);
+      await this.unloadEmbeddingModel();
       throw error;
     }
   }
 
-  updateConfig(config: Partial<LLMConfig>): void {
-    this.config = { ...this.config, ...config };
+  async unloadEmbeddingModel(): Promise<void> {
+    if (this.embeddingContext) {
+      await this.embeddingContext.dispose();
+      this.embeddingContext = null;
+    }
+    if (this.embeddingModel) {
+      await this.embeddingModel.dispose();
+      this.embeddingModel = null;
+    }
+    this.embeddingModelPath = null;
   }
 
+  /**
+   * Embedding model chosen for the knowledge base, loaded or not
+   */
+  getEmbeddingModelPath(): string | null {
+    return this.embeddingModelPath ?? this.readSettings().embeddingModelPath ?? null;
+  }
+
+  /**
+   * Compute the embedding of `text`, loading the saved embedding model on first use
+   */
+  async embed(text: string): Promise<number[]> {
+    if (!this.embeddingContext) {
+      const modelPath = this.getEmbeddingModelPath();
+      if (!modelPath) {
+        throw new Error('No embedding model selected. Please choose one in the knowledge base settings.');
+      }
+      await this.loadEmbeddingModel(modelPath);
+    }
+
+    const embedding = await this.embeddingContext.getEmbeddingFor(text);
+    return Array.from(embedding.vector as readonly number[]);
+  }
+
+  /**
+   * Save configuration changes, for every model or as overrides for one model.
+   * Changes to the loaded model apply right away; contextSize and gpuLayers take effect on its next load.
+   */
+  updateConfig(config: Partial<LLMConfig>, modelId?: string | null): void {
+    const settings = this.readSettings();
+
+    if (modelId) {
+      const modelConfigs = { ...settings.modelConfigs, [modelId]: { ...settings.modelConfigs?.[modelId], ...config } };
+      this.writeSettings({ modelConfigs });
+    } else {
+      this.writeSettings({ config: { ...settings.config, ...config } });
+    }
+
+    if (!modelId || modelId === this.currentModelId) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  /**
+   * Configuration of the loaded model, including adjustments made while loading it
+   */
   getConfig(): LLMConfig {
     return { ...this.config };
   }
 
+  /**
+   * Saved configuration, with the overrides of `modelId` applied when given
+   */
+  getSavedConfig(modelId?: string | null): LLMConfig {
+    const settings = this.readSettings();
+    return {
+      ...DEFAULT_LLM_CONFIG,
+      ...settings.config,
+      ...(modelId ? settings.modelConfigs?.[modelId] : {}),
+    };
+  }
+
+  getLastModel(): LastModel | null {
+    return this.readSettings().lastModel || null;
+  }
+
+  setLastModel(lastModel: LastModel): void {
+    this.writeSettings({ lastModel });
+  }
+
+  isAutoLoadEnabled(): boolean {
+    return this.readSettings().autoLoadLastModel === true;
+  }
+
+  setAutoLoadEnabled(enabled: boolean): void {
+    this.writeSettings({ autoLoadLastModel: enabled });
+  }
+
+  getApiServerSettings(): ApiServerSettings {
+    return { ...DEFAULT_API_SERVER_SETTINGS, ...this.readSettings().apiServer };
+  }
+
+  updateApiServerSettings(changes: Partial<ApiServerSettings>): ApiServerSettings {
+    const apiServer = { ...this.getApiServerSettings(), ...changes };
+    this.writeSettings({ apiServer });
+    return apiServer;
+  }
+
+  getEndpointSettings(): EndpointSettings {
+    return { ...DEFAULT_ENDPOINT_SETTINGS, ...this.readSettings().endpoint };
+  }
+
+  updateEndpointSettings(changes: Partial<EndpointSettings>): EndpointSettings {
+    const endpoint = { ...this.getEndpointSettings(), ...changes };
+    this.writeSettings({ endpoint });
+    return endpoint;
+  }
+
   async dispose(): Promise<void> {
     await this.unloadModel();
+    await this.unloadEmbeddingModel();
     this.llama = null;
     this.initialized = false;
   }
@@ -0,0 +1,220 @@
+import { MigrationService } from './migration.service';
+import type { Migration } from '../migrations';
+import * as fs from 'fs';
+
+// Mock fs module
+jest.mock('fs');
+
+// The shared connection is replaced by the mock database given to each service
+jest.mock('./database.service', () => ({ databaseService: {} }));
+
+// Mock the released migrations so the tests only depend on their own
+jest.mock('../migrations', () => ({ MIGRATIONS: [] }));
+
+const rawSql = (mock: jest.Mock): string[] =>
+  mock.mock.calls.map((call) => (call[0] as string[]).join('?').replace(/\s+/g, ' ').trim());
+
+function createMigration(version: number, up: Migration['up'] = jest.fn().mockResolvedValue(undefined)): Migration {
+  return { version, name: `migration_${version}`, up };
+}
+
+describe('MigrationService', () => {
+  let mockPrisma: any;
+  let mockDatabase: any;
+
+  const createService = (migrations: Migration[]) => new MigrationService(migrations, mockDatabase);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readdirSync as jest.Mock).mockReturnValue([]);
+
+    mockPrisma = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $executeRaw: jest.fn().mockResolvedValue(0),
+      $executeRawUnsafe: jest.fn().mockResolvedValue(0),
+      $queryRawUnsafe: jest.fn().mockResolvedValue([]),
+    };
+    mockDatabase = {
+      client: mockPrisma,
+      getDatabasePath: jest.fn(() => '/mock/user/data/database.db'),
+      connect: jest.fn().mockResolvedValue(undefined),
+      transaction: jest.fn((fn: (tx: any) => Promise<unknown>) => fn(mockPrisma)),
+    };
+
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create the migrations table', async () => {
+    await createService([]).migrate();
+
+    expect(mockDatabase.connect).toHaveBeenCalled();
+    expect(rawSql(mockPrisma.$executeRaw)[0]).toContain('CREATE TABLE IF NOT EXISTS "_migrations"');
+  });
+
+  it('should apply pending migrations in version order and record them', async () => {
+    const order: number[] = [];
+    const first = createMigration(1, jest.fn(async () => { order.push(1); }));
+    const second = createMigration(2, jest.fn(async () => { order.push(2); }));
+
+    const result = await createService([second, first]).migrate();
+
+    expect(order).toEqual([1, 2]);
+    expect(result.applied).toEqual([
+      { version: 1, name: 'migration_1' },
+      { version: 2, name: 'migration_2' },
+    ]);
+    expect(mockDatabase.transaction).toHaveBeenCalledTimes(2);
+    expect(mockDatabase.transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 60000 });
+    expect(rawSql(mockPrisma.$executeRaw)).toContain('INSERT INTO "_migrations" ("version", "name") VALUES (?, ?)');
+    expect(mockPrisma.$executeRaw).toHaveBeenCalledWith(expect.anything(), 2, 'migration_2');
+  });
+
+  it('should skip migrations that were already applied', async () => {
+    mockPrisma.$queryRaw.mockResolvedValue([{ version: BigInt(1) }]);
+    const first = createMigration(1);
+    const second = createMigration(2);
+
+    const result = await createService([first, second]).migrate();
+
+    expect(first.up).not.toHaveBeenCalled();
+    expect(second.up).toHaveBeenCalled();
+    expect(result.applied).toEqual([{ version: 2, name: 'migration_2' }]);
+  });
+
+  it('should give migrations raw SQL access inside the transaction', async () => {
+    mockPrisma.$queryRawUnsafe.mockResolvedValue([{ name: 'id' }]);
+    const migration = createMigration(1, async (db) => {
+      await db.execute('ALTER TABLE "chats" ADD COLUMN "x" TEXT DEFAULT ?', 'y');
+      await expect(db.query('PRAGMA table_info("chats")')).resolves.toEqual([{ name: 'id' }]);
+    });
+
+    await createService([migration]).migrate();
+
+    expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith('ALTER TABLE "chats" ADD COLUMN "x" TEXT DEFAULT ?', 'y');
+    expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith('PRAGMA table_info("chats")');
+  });
+
+  const vacuumCalls = () => mockPrisma.$executeRaw.mock.calls.filter((call: unknown[]) => (call[0] as string[])[0].startsWith('VACUUM INTO'));
+
+  it('should snapshot an existing database before applying migrations', async () => {
+    const result = await createService([createMigration(1)]).migrate();
+
+    expect(result.backupPath).toMatch(/^\/mock\/user\/data\/database\.db\..+\.bak$/);
+    expect(vacuumCalls()).toEqual([[['VACUUM INTO ', ''], result.backupPath]]);
+    const vacuumIndex = rawSql(mockPrisma.$executeRaw).findIndex((sql) => sql.startsWith('VACUUM INTO'));
+    expect(mockPrisma.$executeRaw.mock.invocationCallOrder[vacuumIndex])
+      .toBeLessThan(mockDatabase.transaction.mock.invocationCallOrder[0]);
+  });
+
+  it('should delete a partial snapshot and apply nothing when the backup fails', async () => {
+    mockPrisma.$executeRaw.mockImplementation(async (strings: string[]) => {
+      if (strings[0].startsWith('VACUUM INTO')) throw new Error('Disk full');
+      return 0;
+    });
+    const migration = createMigration(1);
+
+    await expect(createService([migration]).migrate()).rejects.toThrow('Disk full');
+
+    expect(fs.rmSync).toHaveBeenCalledWith(expect.stringMatching(/\.bak$/), { force: true });
+    expect(migration.up).not.toHaveBeenCalled();
+  });
+
+  it('should keep only the three newest backups', async () => {
+    (fs.readdirSync as jest.Mock).mockReturnValue([
+      'database.db',
+      'database.db.2025-04-01T10-00-00-000Z.bak',
+      'database.db.2025-01-01T10-00-00-000Z.bak',
+      'database.db.2025-01-01T10-00-00-000Z.bak-wal',
+      'database.db.2025-03-01T10-00-00-000Z.bak',
+      'database.db.2025-02-01T10-00-00-000Z.bak',
+    ]);
+
+    await createService([createMigration(1)]).migrate();
+
+    expect((fs.unlinkSync as jest.Mock).mock.calls).toEqual([
+      ['/mock/user/data/database.db.2025-01-01T10-00-00-000Z.bak'],
+      ['/mock/user/data/database.db.2025-01-01T10-00-00-000Z.bak-wal'],
+    ]);
+  });
+
+  it('should still migrate when old backups cannot be pruned', async () => {
+    (fs.readdirSync as jest.Mock).mockImplementation(() => { throw new Error('EACCES'); });
+
+    const result = await createService([createMigration(1)]).migrate();
+
+    expect(result.applied).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith('Failed to prune database backups:', expect.any(Error));
+  });
+
+  it('should not back up when there is nothing to migrate', async () => {
+    mockPrisma.$queryRaw.mockResolvedValue([{ version: 1 }]);
+
+    const result = await createService([createMigration(1)]).migrate();
+
+    expect(result).toEqual({ applied: [], backupPath: null });
+    expect(vacuumCalls()).toEqual([]);
+  });
+
+  it('should not back up a database that does not exist yet', async () => {
+    (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+    const result = await createService([createMigration(1)]).migrate();
+
+    expect(vacuumCalls()).toEqual([]);
+    expect(result.backupPath).toBeNull();
+    expect(result.applied).toHaveLength(1);
+  });
+
+  it('should delete the backups and their write-ahead logs', () => {
+    (fs.readdirSync as jest.Mock).mockReturnValue([
+      'database.db',
+      'database.db-wal',
+      'database.db.2025-03-01T10-00-00-000Z.bak',
+      'database.db.2025-03-01T10-00-00-000Z.bak-wal',
+      'database.db.2025-04-01T10-00-00-000Z.bak',
+      'models.bak',
+    ]);
+    (fs.unlinkSync as jest.Mock).mockImplementation((file: string) => {
+      if (file.includes('2025-04-01')) throw new Error('EBUSY');
+    });
+
+    const deleted = createService([]).deleteBackups();
+
+    expect(fs.readdirSync).toHaveBeenCalledWith('/mock/user/data');
+    expect(deleted).toEqual([
+      '/mock/user/data/database.db.2025-03-01T10-00-00-000Z.bak',
+      '/mock/user/data/database.db.2025-03-01T10-00-00-000Z.bak-wal',
+    ]);
+    expect(fs.unlinkSync).toHaveBeenCalledTimes(3);
+    expect(console.error).toHaveBeenCalledWith(
+      'Failed to delete database backup:', '/mock/user/data/database.db.2025-04-01T10-00-00-000Z.bak', expect.any(Error)
+    );
+  });
+
+  it('should warn when the database was migrated by a newer version', async () => {
+    mockPrisma.$queryRaw.mockResolvedValue([{ version: 1 }, { version: 3 }]);
+
+    await createService([createMigration(1)]).migrate();
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('versions 3'));
+  });
+
+  it('should stop at the first failing migration and rethrow', async () => {
+    const failing = createMigration(1, jest.fn().mockRejectedValue(new Error('Bad SQL')));
+    const next = createMigration(2);
+
+    await expect(createService([failing, next]).migrate()).rejects.toThrow('Bad SQL');
+
+    expect(next.up).not.toHaveBeenCalled();
+    expect(rawSql(mockPrisma.$executeRaw).some((sql) => sql.startsWith('INSERT INTO "_migrations"'))).toBe(false);
+    expect(console.error).toHaveBeenCalledWith('Failed to migrate database:', expect.any(Error));
+  });
+});
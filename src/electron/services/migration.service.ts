@@ -0,0 +1,184 @@
+import type { PrismaClient } from '../generated/prisma';
+import * as fs from 'fs';
+import * as path from 'path';
+import { databaseService } from './database.service';
+import type { DatabaseService } from './database.service';
+import { MIGRATIONS } from '../migrations';
+import type { Migration, MigrationDatabase } from '../migrations';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+}
+
+export interface MigrationResult {
+  applied: AppliedMigration[];
+  backupPath: string | null; // Copy of the database taken before applying, null when nothing was backed up
+}
+
+const MIGRATION_TIMEOUT_MS = 60000;
+const MAX_BACKUPS = 3;
+
+/**
+ * Applies the pending schema migrations to database.db and records the applied versions
+ * in the `_migrations` table. Meant to run once at startup, before the other services use the database.
+ */
+export class MigrationService {
+  private prisma: PrismaClient;
+
+  constructor(
+    private readonly migrations: Migration[] = MIGRATIONS,
+    private readonly database: DatabaseService = databaseService
+  ) {
+    this.prisma = database.client;
+  }
+
+  async migrate(): Promise<MigrationResult> {
+    const dbPath = this.database.getDatabasePath();
+    const databaseExisted = fs.existsSync(dbPath);
+
+    try {
+      await this.database.connect();
+      await this.ensureMigrationsTableExists();
+
+      const appliedVersions = await this.getAppliedVersions();
+      const latestKnownVersion = Math.max(0, ...this.migrations.map((migration) => migration.version));
+      const unknownVersions = appliedVersions.filter((version) => version > latestKnownVersion);
+      if (unknownVersions.length > 0) {
+        console.warn(`Database was migrated by a newer version of the app (versions ${unknownVersions.join(', ')})`);
+      }
+
+      const pending = [...this.migrations]
+        .sort((a, b) => a.version - b.version)
+        .filter((migration) => !appliedVersions.includes(migration.version));
+
+      if (pending.length === 0) {
+        return { applied: [], backupPath: null };
+      }
+
+      const backupPath = databaseExisted ? await this.backupDatabase(dbPath) : null;
+      const applied: AppliedMigration[] = [];
+
+      for (const migration of pending) {
+        console.log(`Applying migration ${migration.version} ${migration.name}...`);
+        await this.applyMigration(migration);
+        applied.push({ version: migration.version, name: migration.name });
+      }
+
+      console.log(`Applied ${applied.length} database migration(s)`);
+      return { applied, backupPath };
+    } catch (error) {
+      console.error('Failed to migrate database:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the copies of the database taken before migrations, along with their write-ahead logs
+   * @returns The paths of the deleted files
+   */
+  deleteBackups(): string[] {
+    return this.deleteBackupFiles(this.listBackupFiles());
+  }
+
+  private async ensureMigrationsTableExists(): Promise<void> {
+    await this.prisma.$executeRaw`
+      CREATE TABLE IF NOT EXISTS "_migrations" (
+        "version" INTEGER NOT NULL PRIMARY KEY,
+        "name" TEXT NOT NULL,
+        "appliedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+  }
+
+  private async getAppliedVersions(): Promise<number[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ version: number | bigint }>>`
+      SELECT "version" FROM "_migrations" ORDER BY "version"
+    `;
+    return rows.map((row) => Number(row.version));
+  }
+
+  /**
+   * Run a migration and record it in the same transaction, so a failing migration leaves no trace
+   */
+  private async applyMigration(migration: Migration): Promise<void> {
+    await this.database.transaction(
+      async (tx) => {
+        const db: MigrationDatabase = {
+          execute: (sql, ...values) => tx.$executeRawUnsafe(sql, ...values),
+          query: (sql, ...values) => tx.$queryRawUnsafe(sql, ...values),
+        };
+
+        await migration.up(db);
+        await tx.$executeRaw`
+          INSERT INTO "_migrations" ("version", "name") VALUES (${migration.version}, ${migration.name})
+        `;
+      },
+      { timeout: MIGRATION_TIMEOUT_MS }
+    );
+  }
+
+  /**
+   * Snapshot the database next to it before changing the schema, then drop the oldest snapshots.
+   * VACUUM INTO writes a consistent copy that includes the write-ahead log, which copying the files could not.
+   * @returns The path of the backup file
+   */
+  private async backupDatabase(dbPath: string): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${dbPath}.${timestamp}.bak`;
+
+    try {
+      await this.prisma.$executeRaw`VACUUM INTO ${backupPath}`;
+    } catch (error) {
+      fs.rmSync(backupPath, { force: true });
+      throw error;
+    }
+    console.log('Database backed up to:', backupPath);
+
+    try {
+      this.pruneBackups();
+    } catch (error) {
+      console.error('Failed to prune database backups:', error);
+    }
+    return backupPath;
+  }
+
+  /**
+   * Keep the MAX_BACKUPS newest backups. Older versions of the app also copied the write-ahead log
+   * as `<backup>-wal`, which goes with its backup.
+   */
+  private pruneBackups(): void {
+    const files = this.listBackupFiles();
+    const kept = new Set(files.filter((file) => file.endsWith('.bak')).slice(-MAX_BACKUPS));
+    this.deleteBackupFiles(files.filter((file) => !kept.has(file.replace(/-wal$/, ''))));
+  }
+
+  /**
+   * Paths of the backups and their write-ahead logs, oldest first as their names start with the date
+   */
+  private listBackupFiles(): string[] {
+    const dbPath = this.database.getDatabasePath();
+    const directory = path.dirname(dbPath);
+    const prefix = `${path.basename(dbPath)}.`;
+
+    return fs.readdirSync(directory)
+      .filter((file) => file.startsWith(prefix) && /\.bak(-wal)?$/.test(file))
+      .sort()
+      .map((file) => path.join(directory, file));
+  }
+
+  private deleteBackupFiles(files: string[]): string[] {
+    const deleted: string[] = [];
+    for (const file of files) {
+      try {
+        fs.unlinkSync(file);
+        deleted.push(file);
+      } catch (error) {
+        console.error('Failed to delete database backup:', file, error);
+      }
+    }
+    return deleted;
+  }
+}
+
+export const migrationService = new MigrationService();
@@ -0,0 +1,97 @@
+import {
+  estimateTokenCount,
+  getEndpointErrorMessage,
+  getEndpointUrl,
+  readServerSentEvents,
+  toOpenAIMessages,
+} from './openai.provider.helpers';
+
+async function collect(events: AsyncGenerator<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  for (const part of parts) {
+    yield encoder.encode(part);
+  }
+}
+
+describe('OpenAI-compatible provider helpers', () => {
+  describe('getEndpointUrl', () => {
+    it('should join the base URL and path', () => {
+      expect(getEndpointUrl('http://localhost:8080/v1', '/models')).toBe('http://localhost:8080/v1/models');
+      expect(getEndpointUrl('http://localhost:8080/v1/', '/models')).toBe('http://localhost:8080/v1/models');
+    });
+  });
+
+  describe('toOpenAIMessages', () => {
+    it('should convert the history with the system prompt first', () => {
+      expect(toOpenAIMessages([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'Bye' },
+      ], 'Be brief.')).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'Bye' },
+      ]);
+    });
+
+    it('should leave out tool messages', () => {
+      expect(toOpenAIMessages([
+        { role: 'user', content: 'What time is it?' },
+        { role: 'tool', content: '{"time":"12:00"}', toolCall: { name: 'get_current_time', params: {} } },
+        { role: 'assistant', content: 'It is noon.' },
+      ])).toEqual([
+        { role: 'user', content: 'What time is it?' },
+        { role: 'assistant', content: 'It is noon.' },
+      ]);
+    });
+  });
+
+  describe('estimateTokenCount', () => {
+    it('should count about four characters per token', () => {
+      expect(estimateTokenCount('')).toBe(0);
+      expect(estimateTokenCount('Hello')).toBe(2);
+      expect(estimateTokenCount('a'.repeat(400))).toBe(100);
+    });
+  });
+
+  describe('getEndpointErrorMessage', () => {
+    it('should read OpenAI and Ollama error bodies', () => {
+      expect(getEndpointErrorMessage('{"error":{"message":"Invalid API key"}}')).toBe('Invalid API key');
+      expect(getEndpointErrorMessage('{"error":"model not found"}')).toBe('model not found');
+    });
+
+    it('should fall back to the raw body', () => {
+      expect(getEndpointErrorMessage('Bad Gateway\n')).toBe('Bad Gateway');
+      expect(getEndpointErrorMessage('')).toBe('No error details');
+    });
+  });
+
+  describe('readServerSentEvents', () => {
+    it('should yield the data of each event', async () => {
+      const events = await collect(readServerSentEvents(chunks('data: {"a":1}\n\ndata: [DONE]\n\n')));
+
+      expect(events).toEqual(['{"a":1}', '[DONE]']);
+    });
+
+    it('should buffer events split across chunks', async () => {
+      const events = await collect(readServerSentEvents(chunks('data: {"a"', ':1}\r\n', '\r\ndata: [DONE]')));
+
+      expect(events).toEqual(['{"a":1}', '[DONE]']);
+    });
+
+    it('should skip comments and events without data', async () => {
+      const events = await collect(readServerSentEvents(chunks(': keep-alive\n\nevent: ping\n\ndata: x\n\n')));
+
+      expect(events).toEqual(['x']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import type { ChatHistoryMessage } from './llm.service';
+
+/**
+ * Helper functions for the OpenAI-compatible provider
+ * These are extracted for testability
+ */
+
+export interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Join the endpoint's base URL and an API path, with or without a trailing slash on the base URL
+ */
+export function getEndpointUrl(baseUrl: string, apiPath: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${apiPath}`;
+}
+
+/**
+ * Convert a chat history to OpenAI chat messages.
+ * Tool messages are left out: function calling is only offered by local models,
+ * and endpoints reject tool results that do not answer one of their own calls.
+ */
+export function toOpenAIMessages(history: ChatHistoryMessage[], systemPrompt?: string | null): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+  for (const message of history) {
+    if (message.role !== 'tool') {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Rough token count for endpoints, which do not expose their tokenizer.
+ * English text averages about four characters per token.
+ */
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Get the message of an endpoint's error response.
+ * OpenAI nests it as `error.message`, Ollama and others send `error` as a string.
+ */
+export function getEndpointErrorMessage(body: string): string {
+  try {
+    const { error } = JSON.parse(body);
+    if (typeof error === 'string') return error;
+    if (typeof error?.message === 'string') return error.message;
+  } catch {
+    // Not JSON, the body is the message
+  }
+  return body.trim() || 'No error details';
+}
+
+function getEventData(event: string): string | null {
+  const lines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice('data:'.length).trimStart());
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+/**
+ * Yield the data of each server-sent event in a response body.
+ * Events split across chunks are buffered until complete.
+ */
+export async function* readServerSentEvents(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      const data = getEventData(event);
+      if (data !== null) yield data;
+    }
+  }
+
+  const data = getEventData(buffer + decoder.decode());
+  if (data !== null) yield data;
+}
@@ -0,0 +1,262 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from './openai.provider';
+import type { EndpointSettings, LLMConfig } from './llm.service';
+
+jest.mock('./llm.service', () => ({}));
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const config: LLMConfig = { contextSize: 4096, gpuLayers: -1, temperature: 0.7, topP: 0.9, topK: 40 };
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let settings: EndpointSettings;
+  let provider: OpenAICompatibleProvider;
+  let requests: ReceivedRequest[];
+  // Replaces the default answer of /v1/chat/completions
+  let completionHandler: ((req: ReceivedRequest, res: http.ServerResponse) => void) | null;
+
+  const streamTokens = (res: http.ServerResponse, tokens: string[]) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const token of tokens) {
+      res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: token }, finish_reason: null }] })}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  };
+
+  // Mock endpoint serving the models llama3.2 and qwen2.5
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => { data += chunk; });
+      req.on('end', () => {
+        const received = { method: req.method!, url: req.url!, headers: req.headers, body: data ? JSON.parse(data) : null };
+        requests.push(received);
+
+        if (settings.apiKey && req.headers.authorization !== `Bearer ${settings.apiKey}`) {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'Invalid API key' } }));
+        } else if (req.url === '/v1/models') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3.2', owned_by: 'library' }, { id: 'qwen2.5' }] }));
+        } else if (req.url === '/v1/chat/completions' && completionHandler) {
+          completionHandler(received, res);
+        } else if (req.url === '/v1/chat/completions') {
+          streamTokens(res, ['Hel', 'lo']);
+        } else {
+          res.writeHead(404);
+          res.end('Not found');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    requests = [];
+    completionHandler = null;
+    settings = { baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`, apiKey: '' };
+    provider = new OpenAICompatibleProvider(() => settings, () => config);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('models', () => {
+    it('should list the served models', async () => {
+      expect(await provider.listModels()).toEqual([
+        { id: 'llama3.2', ownedBy: 'library' },
+        { id: 'qwen2.5', ownedBy: null },
+      ]);
+    });
+
+    it('should select a served model', async () => {
+      const onProgress = jest.fn();
+
+      await provider.loadModel('llama3.2', undefined, { onProgress });
+
+      expect(provider.isModelLoaded()).toBe(true);
+      expect(provider.getCurrentModelPath()).toBe('llama3.2');
+      expect(provider.getCurrentModelId()).toBe('llama3.2');
+      expect(onProgress).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject a model the endpoint does not serve', async () => {
+      await expect(provider.loadModel('mistral')).rejects.toThrow(`Model mistral is not served by ${settings.baseUrl}`);
+      expect(provider.isModelLoaded()).toBe(false);
+    });
+
+    it('should apply the load overrides to the saved configuration', async () => {
+      await provider.loadModel('llama3.2', { contextSize: 16384 });
+
+      expect(provider.getConfig()).toEqual({ ...config, contextSize: 16384 });
+    });
+
+    it('should unload the selected model', async () => {
+      await provider.loadModel('llama3.2');
+      await provider.unloadModel();
+
+      expect(provider.isModelLoaded()).toBe(false);
+      expect(provider.getCurrentModelPath()).toBeNull();
+    });
+
+    it('should send the API key and report rejected requests', async () => {
+      settings.apiKey = 'secret';
+
+      await provider.listModels();
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+
+      provider = new OpenAICompatibleProvider(() => ({ ...settings, apiKey: 'wrong' }), () => config);
+      await expect(provider.listModels()).rejects.toThrow('The endpoint answered 401: Invalid API key');
+    });
+  });
+
+  describe('generation', () => {
+    beforeEach(async () => {
+      await provider.loadModel('llama3.2');
+      requests = [];
+    });
+
+    it('should require a selected model', async () => {
+      await provider.unloadModel();
+
+      await expect(provider.generateResponse('Hi')).rejects.toThrow('No model loaded. Please load a model first.');
+    });
+
+    it('should stream a chat reply', async () => {
+      const onToken = jest.fn();
+
+      const response = await provider.generateChatResponse(1, [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+        { role: 'user', content: 'How are you?' },
+      ], onToken, { systemPrompt: 'Be brief.', maxTokens: 32 });
+
+      expect(response).toBe('Hello');
+      expect(onToken.mock.calls).toEqual([['Hel'], ['lo']]);
+      expect(requests[0].body).toEqual({
+        model: 'llama3.2',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello' },
+          { role: 'user', content: 'How are you?' },
+        ],
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: 0.7,
+        top_p: 0.9,
+        max_tokens: 32,
+      });
+    });
+
+    it('should apply the sampling of the reply, then of the load', async () => {
+      await provider.loadModel('llama3.2', { temperature: 0.2 });
+
+      await provider.generateChatResponse(1, [{ role: 'user', content: 'Hi' }], undefined, { topP: 0.5 });
+
+      expect(requests[requests.length - 1].body).toEqual(expect.objectContaining({ temperature: 0.2, top_p: 0.5 }));
+    });
+
+    it('should require the history to end with a user message', async () => {
+      await expect(provider.generateChatResponse(3, [{ role: 'assistant', content: 'Hello' }]))
+        .rejects.toThrow('Chat 3 history must end with a user message');
+    });
+
+    it('should reject errors sent in the stream', async () => {
+      completionHandler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end('data: {"error":{"message":"Context length exceeded"}}\n\n');
+      };
+
+      await expect(provider.generateChatResponse(1, [{ role: 'user', content: 'Hi' }]))
+        .rejects.toThrow('Context length exceeded');
+    });
+
+    it('should keep the text produced before being stopped', async () => {
+      const abortController = new AbortController();
+      completionHandler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Once upon' } }] })}\n\n`);
+        // The rest of the reply never comes, the client stops waiting
+      };
+
+      const response = await provider.generateChatResponse(1, [{ role: 'user', content: 'Tell a story' }], () => {
+        abortController.abort();
+      }, { signal: abortController.signal });
+
+      expect(response).toBe('Once upon');
+    });
+
+    it('should report the usage sent by the endpoint', async () => {
+      const onUsage = jest.fn();
+      completionHandler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`);
+        res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 1 } })}\n\n`);
+        res.end('data: [DONE]\n\n');
+      };
+
+      await provider.generateChatResponse(1, [{ role: 'user', content: 'Hi' }], undefined, { onUsage });
+
+      expect(onUsage).toHaveBeenCalledWith({ promptTokens: 12, completionTokens: 1 });
+    });
+
+    it('should estimate the usage when the endpoint does not send it', async () => {
+      const onUsage = jest.fn();
+
+      await provider.generateChatResponse(1, [{ role: 'user', content: 'How are you?' }], undefined, { onUsage });
+
+      expect(onUsage).toHaveBeenCalledWith({ promptTokens: 3, completionTokens: 2 });
+    });
+
+    it('should generate a one-off reply', async () => {
+      const response = await provider.generateResponse('Hi');
+
+      expect(response).toBe('Hello');
+      expect(requests[0].body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    });
+
+    it('should generate a value matching a JSON schema', async () => {
+      const schema = { type: 'object', properties: { title: { type: 'string' } } };
+      completionHandler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: '{"title":"Weekend plans"}' } }] }));
+      };
+
+      const result = await provider.generateStructured('Name this chat', schema);
+
+      expect(result).toEqual({ title: 'Weekend plans' });
+      expect(requests[0].body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'response', schema, strict: true },
+      });
+    });
+
+    it('should reject structured output that is not JSON', async () => {
+      completionHandler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: 'Weekend plans' } }] }));
+      };
+
+      await expect(provider.generateStructured('Name this chat', {})).rejects.toThrow('The endpoint returned invalid JSON: Weekend plans');
+    });
+
+    it('should estimate token counts', () => {
+      expect(provider.countTokens('Hello there')).toBe(3);
+    });
+  });
+});
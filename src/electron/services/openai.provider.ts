@@ -0,0 +1,232 @@
+import type { InferenceProvider } from './inference.provider';
+import type {
+  ChatGenerationOptions,
+  ChatHistoryMessage,
+  EndpointSettings,
+  GenerationUsage,
+  JsonSchema,
+  LLMConfig,
+  LoadModelOptions,
+} from './llm.service';
+import {
+  estimateTokenCount,
+  getEndpointErrorMessage,
+  getEndpointUrl,
+  readServerSentEvents,
+  toOpenAIMessages,
+} from './openai.provider.helpers';
+import type { OpenAIMessage } from './openai.provider.helpers';
+
+export interface EndpointModel {
+  id: string;
+  ownedBy: string | null;
+}
+
+/**
+ * Generates with a model served by an OpenAI-compatible endpoint, such as a llama.cpp server
+ * or Ollama. Loading a model only selects it: the endpoint keeps it in memory.
+ */
+export class OpenAICompatibleProvider implements InferenceProvider {
+  readonly id = 'openai-compatible';
+  private currentModel: string | null = null;
+  private configOverrides: Partial<LLMConfig> = {};
+
+  /**
+   * Settings and configuration are read on every request so saved changes apply right away
+   */
+  constructor(
+    private readonly getSettings: () => EndpointSettings,
+    private readonly readConfig: () => LLMConfig
+  ) {}
+
+  async listModels(): Promise<EndpointModel[]> {
+    const response = await this.request('/models', { method: 'GET' });
+    const { data } = await response.json() as { data?: Array<{ id: string; owned_by?: string }> };
+    return (data ?? []).map((model) => ({ id: model.id, ownedBy: model.owned_by ?? null }));
+  }
+
+  async loadModel(model: string, config?: Partial<LLMConfig>, options: LoadModelOptions = {}): Promise<void> {
+    const models = await this.listModels();
+    if (!models.some((served) => served.id === model)) {
+      throw new Error(`Model ${model} is not served by ${this.getSettings().baseUrl}`);
+    }
+
+    this.currentModel = model;
+    this.configOverrides = config ?? {};
+    options.onProgress?.(1);
+    console.log('Endpoint model selected:', model);
+  }
+
+  async unloadModel(): Promise<void> {
+    this.currentModel = null;
+    this.configOverrides = {};
+  }
+
+  isModelLoaded(): boolean {
+    return this.currentModel !== null;
+  }
+
+  getCurrentModelPath(): string | null {
+    return this.currentModel;
+  }
+
+  getCurrentModelId(): string | null {
+    return this.currentModel;
+  }
+
+  async generateResponse(prompt: string, onToken?: (token: string) => void): Promise<string> {
+    this.assertModelLoaded();
+
+    try {
+      return await this.streamCompletion([{ role: 'user', content: prompt }], onToken);
+    } catch (error) {
+      console.error('Failed to generate response:', error);
+      throw error;
+    }
+  }
+
+  async generateStructured<T = unknown>(prompt: string, jsonSchema: JsonSchema): Promise<T> {
+    this.assertModelLoaded();
+
+    try {
+      const config = this.getConfig();
+      const response = await this.request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: this.currentModel,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: config.temperature,
+          top_p: config.topP,
+          response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema, strict: true } },
+        }),
+      });
+      const completion = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const content = completion.choices?.[0]?.message?.content ?? '';
+
+      try {
+        return JSON.parse(content) as T;
+      } catch {
+        throw new Error(`The endpoint returned invalid JSON: ${content.slice(0, 100)}`);
+      }
+    } catch (error) {
+      console.error('Failed to generate structured response:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The endpoint applies its own context limit, so the whole history is sent.
+   * Function calling is only offered by local models and `options.functions` is ignored.
+   */
+  async generateChatResponse(
+    chatId: number,
+    history: ChatHistoryMessage[],
+    onToken?: (token: string) => void,
+    options: ChatGenerationOptions = {}
+  ): Promise<string> {
+    this.assertModelLoaded();
+
+    const lastMessage = history[history.length - 1];
+    if (!lastMessage || lastMessage.role !== 'user') {
+      throw new Error(`Chat ${chatId} history must end with a user message`);
+    }
+
+    try {
+      return await this.streamCompletion(toOpenAIMessages(history, options.systemPrompt), onToken, options);
+    } catch (error) {
+      console.error(`Failed to generate response for chat ${chatId}:`, error);
+      throw error;
+    }
+  }
+
+  countTokens(text: string): number {
+    return estimateTokenCount(text);
+  }
+
+  /**
+   * Saved configuration with the overrides given when the model was loaded
+   */
+  getConfig(): LLMConfig {
+    return { ...this.readConfig(), ...this.configOverrides };
+  }
+
+  private assertModelLoaded(): void {
+    if (!this.isModelLoaded()) {
+      throw new Error('No model loaded. Please load a model first.');
+    }
+  }
+
+  private async streamCompletion(
+    messages: OpenAIMessage[],
+    onToken?: (token: string) => void,
+    options: ChatGenerationOptions = {}
+  ): Promise<string> {
+    const config = this.getConfig();
+    let fullResponse = '';
+    let usage: GenerationUsage | null = null;
+
+    try {
+      // top_k is left out, OpenAI rejects parameters it does not know
+      const response = await this.request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: this.currentModel,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: options.temperature ?? config.temperature,
+          top_p: options.topP ?? config.topP,
+          max_tokens: options.maxTokens,
+        }),
+        signal: options.signal,
+      });
+
+      for await (const data of readServerSentEvents(response.body as unknown as AsyncIterable<Uint8Array>)) {
+        if (data === '[DONE]') break;
+
+        const event = JSON.parse(data);
+        if (event.error) {
+          throw new Error(getEndpointErrorMessage(data));
+        }
+        if (event.usage) {
+          usage = { promptTokens: event.usage.prompt_tokens, completionTokens: event.usage.completion_tokens };
+        }
+        const token: string | undefined = event.choices?.[0]?.delta?.content;
+        if (token) {
+          fullResponse += token;
+          onToken?.(token);
+        }
+      }
+    } catch (error) {
+      // Same as local models: stopping keeps the text produced so far
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+    }
+
+    // Endpoints that do not report usage, or replies stopped before it was sent, are estimated
+    options.onUsage?.(usage ?? {
+      promptTokens: estimateTokenCount(messages.map((message) => message.content).join('\n')),
+      completionTokens: estimateTokenCount(fullResponse),
+    });
+
+    return fullResponse;
+  }
+
+  private async request(apiPath: string, init: RequestInit): Promise<Response> {
+    const { baseUrl, apiKey } = this.getSettings();
+    const response = await fetch(getEndpointUrl(baseUrl, apiPath), {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const message = getEndpointErrorMessage(await response.text());
+      throw new Error(`The endpoint answered ${response.status}: ${message}`);
+    }
+    return response;
+  }
+}
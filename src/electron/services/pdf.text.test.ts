@@ -0,0 +1,193 @@
+import * as zlib from 'zlib';
+import { extractPdfText } from './pdf.text';
+
+type TestObject = string | { dict: string; stream: Buffer | string };
+
+/**
+ * Build a PDF file from numbered object bodies. The cross-reference table is left out:
+ * the extractor finds objects by scanning the file.
+ */
+function buildPdf(objects: Record<number, TestObject>, trailer = '<< /Root 1 0 R >>'): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+
+  for (const [num, object] of Object.entries(objects)) {
+    if (typeof object === 'string') {
+      parts.push(Buffer.from(`${num} 0 obj\n${object}\nendobj\n`, 'latin1'));
+    } else {
+      const data = Buffer.isBuffer(object.stream) ? object.stream : Buffer.from(object.stream, 'latin1');
+      const dict = object.dict.replace(/>>$/, ` /Length ${data.length} >>`);
+      parts.push(
+        Buffer.from(`${num} 0 obj\n${dict}\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream\nendobj\n', 'latin1')
+      );
+    }
+  }
+
+  parts.push(Buffer.from(`trailer\n${trailer}\n%%EOF\n`, 'latin1'));
+  return Buffer.concat(parts);
+}
+
+/**
+ * A one-page document whose page draws `content` with the Helvetica font F1
+ */
+function singlePagePdf(content: string | Buffer, contentDict = '<< >>'): Buffer {
+  return buildPdf({
+    1: '<< /Type /Catalog /Pages 2 0 R >>',
+    2: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    3: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    4: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    5: { dict: contentDict, stream: content },
+  });
+}
+
+describe('extractPdfText', () => {
+  it('should read the text of a page line by line', () => {
+    const pdf = singlePagePdf('BT /F1 12 Tf 72 720 Td (Hello world) Tj 0 -14 Td (Second line) Tj ET');
+
+    expect(extractPdfText(pdf)).toBe('Hello world\nSecond line');
+  });
+
+  it('should inflate compressed content streams', () => {
+    const content = zlib.deflateSync(Buffer.from('BT /F1 12 Tf 72 720 Td (Compressed text) Tj ET'));
+
+    expect(extractPdfText(singlePagePdf(content, '<< /Filter /FlateDecode >>'))).toBe('Compressed text');
+  });
+
+  it('should turn wide TJ gaps into spaces and ignore kerning', () => {
+    const pdf = singlePagePdf('BT /F1 12 Tf 72 720 Td [(Ke) 20 (rned) -350 (words)] TJ ET');
+
+    expect(extractPdfText(pdf)).toBe('Kerned words');
+  });
+
+  it('should break lines on T* and the quote operators', () => {
+    const pdf = singlePagePdf(`BT /F1 12 Tf 14 TL 72 720 Td (One) Tj T* (Two) Tj (Three) ' 0 0 (Four) " ET`);
+
+    expect(extractPdfText(pdf)).toBe('One\nTwo\nThree\nFour');
+  });
+
+  it('should separate text blocks placed on new lines with text matrices', () => {
+    const pdf = singlePagePdf(
+      'BT /F1 12 Tf 1 0 0 1 72 720 Tm (Title) Tj ET BT /F1 12 Tf 1 0 0 1 72 700 Tm (Body) Tj ET'
+    );
+
+    expect(extractPdfText(pdf)).toBe('Title\nBody');
+  });
+
+  it('should decode escapes in literal strings', () => {
+    const pdf = singlePagePdf('BT /F1 12 Tf 72 720 Td (\\(a\\) b\\\\c \\351t\\351 (nested)) Tj ET');
+
+    expect(extractPdfText(pdf)).toBe('(a) b\\c été (nested)');
+  });
+
+  it('should map character codes through ToUnicode CMaps', () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin',
+      '12 dict begin begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0048> <0002> <00E9> endbfchar',
+      '1 beginbfrange <0003> <0005> <006C> endbfrange',
+      'endcmap CMapName currentdict /CMap defineresource pop end end',
+    ].join('\n');
+    const pdf = buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      2: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      3: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> >> /Contents 5 0 R >>',
+      4: '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 6 0 R >>',
+      5: { dict: '<< >>', stream: 'BT /F2 12 Tf 72 720 Td <0001000200030003> Tj ET' },
+      6: { dict: '<< >>', stream: cmap },
+    });
+
+    expect(extractPdfText(pdf)).toBe('Héll');
+  });
+
+  it('should read pages in order with the resources they inherit', () => {
+    const pdf = buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      2: '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      3: '<< /Type /Page /Parent 2 0 R /Contents [6 0 R 7 0 R] >>',
+      4: '<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>',
+      5: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      6: { dict: '<< >>', stream: 'BT /F1 12 Tf 72 720 Td' },
+      7: { dict: '<< >>', stream: '(First page) Tj ET' },
+      8: { dict: '<< >>', stream: 'BT /F1 12 Tf 72 720 Td (Second page) Tj ET' },
+    });
+
+    expect(extractPdfText(pdf)).toBe('First page\n\nSecond page');
+  });
+
+  it('should read objects stored in object streams', () => {
+    const objects = [
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ];
+    let offset = 0;
+    const header = objects.map((object, i) => {
+      const entry = `${i + 2} ${offset}`;
+      offset += object.length + 1;
+      return entry;
+    }).join(' ') + '\n';
+    const body = objects.join('\n');
+    const pdf = buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      5: { dict: '<< >>', stream: 'BT /F1 12 Tf 72 720 Td (From an object stream) Tj ET' },
+      6: {
+        dict: `<< /Type /ObjStm /N 3 /First ${header.length} /Filter /FlateDecode >>`,
+        stream: zlib.deflateSync(Buffer.from(header + body, 'latin1')),
+      },
+    });
+
+    expect(extractPdfText(pdf)).toBe('From an object stream');
+  });
+
+  it('should read the text of form XObjects', () => {
+    const pdf = buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      2: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      3: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> /XObject << /X1 6 0 R >> >> /Contents 5 0 R >>',
+      4: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      5: { dict: '<< >>', stream: 'q /X1 Do Q' },
+      6: { dict: '<< /Type /XObject /Subtype /Form /BBox [0 0 612 792] >>', stream: 'BT /F1 12 Tf 72 720 Td (Inside a form) Tj ET' },
+    });
+
+    expect(extractPdfText(pdf)).toBe('Inside a form');
+  });
+
+  it('should skip the data of inline images', () => {
+    const pdf = singlePagePdf('BI /W 2 /H 1 /BPC 8 /CS /G ID \x00) BT\nEI BT /F1 12 Tf 72 720 Td (After the image) Tj ET');
+
+    expect(extractPdfText(pdf)).toBe('After the image');
+  });
+
+  it('should return an empty string for pages without text', () => {
+    expect(extractPdfText(singlePagePdf('0 0 100 100 re f'))).toBe('');
+  });
+
+  it('should stop inflating streams past the decompressed size limit', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const bomb = zlib.deflateSync(Buffer.alloc(65 * 1024 * 1024, 0x20));
+
+    expect(() => extractPdfText(singlePagePdf(bomb, '<< /Filter /FlateDecode >>'))).toThrow(
+      'The PDF decompresses to more than 64 MB'
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Skipping unreadable PDF content stream:',
+      expect.objectContaining({ code: 'ERR_BUFFER_TOO_LARGE' })
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('should reject files that are not PDFs', () => {
+    expect(() => extractPdfText(Buffer.from('plain text'))).toThrow('Not a PDF file');
+  });
+
+  it('should reject encrypted files', () => {
+    const pdf = buildPdf(
+      { 1: '<< /Type /Catalog /Pages 2 0 R >>', 2: '<< /Type /Pages /Kids [] /Count 0 >>' },
+      '<< /Root 1 0 R /Encrypt 3 0 R >>'
+    );
+
+    expect(() => extractPdfText(pdf)).toThrow('Encrypted PDF files are not supported');
+  });
+});
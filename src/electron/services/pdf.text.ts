@@ -0,0 +1,812 @@
+import * as zlib from 'zlib';
+
+interface PdfName {
+  kind: 'name';
+  name: string;
+}
+
+interface PdfRef {
+  kind: 'ref';
+  num: number;
+}
+
+interface PdfStream {
+  kind: 'stream';
+  dict: PdfDict;
+  data: Buffer;
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+type PdfValue = number | boolean | null | Buffer | PdfName | PdfRef | PdfStream | PdfDict | PdfValue[];
+
+type PdfToken =
+  | { type: 'value'; value: number | boolean | null | Buffer | PdfName }
+  | { type: 'keyword'; value: string }
+  | { type: 'delimiter'; value: '[' | ']' | '<<' | '>>' | '{' | '}' };
+
+/**
+ * Font of a text run: how many bytes each character code takes and how codes map to text
+ */
+interface PdfFont {
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+}
+
+const PDF_HEADER = '%PDF-';
+const MAX_REF_DEPTH = 32;
+const MAX_FORM_DEPTH = 8;
+// Decompressed stream data per file, so a small file can't inflate into gigabytes
+const MAX_DECODED_SIZE = 64 * 1024 * 1024;
+// TJ offsets are in thousandths of an em; gaps wider than this separate words
+const WORD_GAP = 200;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+const ESCAPES: Record<number, number> = {
+  0x6e: 0x0a, // \n
+  0x72: 0x0d, // \r
+  0x74: 0x09, // \t
+  0x62: 0x08, // \b
+  0x66: 0x0c, // \f
+};
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+function hexValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
+
+/**
+ * Splits PDF syntax (file bodies, content streams and CMaps) into tokens
+ */
+class PdfLexer {
+  position: number;
+
+  constructor(private readonly data: Buffer, position = 0) {
+    this.position = position;
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.position < this.data.length) {
+      const byte = this.data[this.position];
+      if (WHITESPACE.has(byte)) {
+        this.position++;
+      } else if (byte === 0x25) {
+        while (this.position < this.data.length && this.data[this.position] !== 0x0a && this.data[this.position] !== 0x0d) {
+          this.position++;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  nextToken(): PdfToken | null {
+    this.skipWhitespaceAndComments();
+    if (this.position >= this.data.length) {
+      return null;
+    }
+
+    const byte = this.data[this.position];
+    const next = this.data[this.position + 1];
+
+    if (byte === 0x28) return { type: 'value', value: this.readLiteralString() };
+    if (byte === 0x3c && next === 0x3c) {
+      this.position += 2;
+      return { type: 'delimiter', value: '<<' };
+    }
+    if (byte === 0x3e && next === 0x3e) {
+      this.position += 2;
+      return { type: 'delimiter', value: '>>' };
+    }
+    if (byte === 0x3c) return { type: 'value', value: this.readHexString() };
+    if (byte === 0x2f) return { type: 'value', value: this.readName() };
+    if (byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d) {
+      this.position++;
+      return { type: 'delimiter', value: String.fromCharCode(byte) as '[' | ']' | '{' | '}' };
+    }
+    if (!isRegular(byte)) {
+      // Stray ')' or '>': skip it
+      this.position++;
+      return this.nextToken();
+    }
+
+    const start = this.position;
+    while (this.position < this.data.length && isRegular(this.data[this.position])) {
+      this.position++;
+    }
+    const word = this.data.toString('latin1', start, this.position);
+
+    if (NUMBER_PATTERN.test(word)) return { type: 'value', value: parseFloat(word) };
+    if (word === 'true') return { type: 'value', value: true };
+    if (word === 'false') return { type: 'value', value: false };
+    if (word === 'null') return { type: 'value', value: null };
+    return { type: 'keyword', value: word };
+  }
+
+  private readLiteralString(): Buffer {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.position++;
+
+    while (this.position < this.data.length) {
+      const byte = this.data[this.position++];
+
+      if (byte === 0x5c) {
+        const escaped = this.data[this.position++];
+        if (escaped >= 0x30 && escaped <= 0x37) {
+          let code = escaped - 0x30;
+          for (let i = 0; i < 2 && this.data[this.position] >= 0x30 && this.data[this.position] <= 0x37; i++) {
+            code = code * 8 + this.data[this.position++] - 0x30;
+          }
+          bytes.push(code & 0xff);
+        } else if (escaped === 0x0d) {
+          // Line continuation
+          if (this.data[this.position] === 0x0a) this.position++;
+        } else if (escaped !== 0x0a) {
+          bytes.push(ESCAPES[escaped] ?? escaped);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (depth === 0) break;
+        depth--;
+        bytes.push(byte);
+      } else if (byte === 0x0d) {
+        // End of lines inside strings read as a single line feed
+        if (this.data[this.position] === 0x0a) this.position++;
+        bytes.push(0x0a);
+      } else {
+        bytes.push(byte);
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  private readHexString(): Buffer {
+    const nibbles: number[] = [];
+    this.position++;
+
+    while (this.position < this.data.length) {
+      const byte = this.data[this.position++];
+      if (byte === 0x3e) break;
+      const value = hexValue(byte);
+      if (value >= 0) nibbles.push(value);
+    }
+    if (nibbles.length % 2 === 1) nibbles.push(0);
+
+    const bytes = Buffer.alloc(nibbles.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = nibbles[2 * i] * 16 + nibbles[2 * i + 1];
+    }
+    return bytes;
+  }
+
+  private readName(): PdfName {
+    const bytes: number[] = [];
+    this.position++;
+
+    while (this.position < this.data.length && isRegular(this.data[this.position])) {
+      const byte = this.data[this.position++];
+      const high = hexValue(this.data[this.position]);
+      const low = hexValue(this.data[this.position + 1]);
+      if (byte === 0x23 && high >= 0 && low >= 0) {
+        bytes.push(high * 16 + low);
+        this.position += 2;
+      } else {
+        bytes.push(byte);
+      }
+    }
+
+    return { kind: 'name', name: Buffer.from(bytes).toString('latin1') };
+  }
+
+  /**
+   * Skip the data of an inline image, which follows its ID operator up to EI
+   */
+  skipInlineImage(): void {
+    for (let i = this.position + 1; i < this.data.length - 1; i++) {
+      if (
+        this.data[i] === 0x45 &&
+        this.data[i + 1] === 0x49 &&
+        WHITESPACE.has(this.data[i - 1]) &&
+        (i + 2 >= this.data.length || !isRegular(this.data[i + 2]))
+      ) {
+        this.position = i + 2;
+        return;
+      }
+    }
+    this.position = this.data.length;
+  }
+}
+
+/**
+ * Read the value that starts with `token`, including arrays, dictionaries
+ * and indirect references ("12 0 R")
+ */
+function parseValue(lexer: PdfLexer, token: PdfToken): PdfValue {
+  if (token.type === 'value') {
+    if (typeof token.value === 'number' && Number.isInteger(token.value)) {
+      const start = lexer.position;
+      const generation = lexer.nextToken();
+      const keyword = lexer.nextToken();
+      if (generation?.type === 'value' && typeof generation.value === 'number' && keyword?.type === 'keyword' && keyword.value === 'R') {
+        return { kind: 'ref', num: token.value };
+      }
+      lexer.position = start;
+    }
+    return token.value;
+  }
+
+  if (token.type === 'delimiter' && token.value === '[') {
+    const items: PdfValue[] = [];
+    for (let next = lexer.nextToken(); next && !(next.type === 'delimiter' && next.value === ']'); next = lexer.nextToken()) {
+      items.push(parseValue(lexer, next));
+    }
+    return items;
+  }
+
+  if (token.type === 'delimiter' && token.value === '<<') {
+    const dict: PdfDict = new Map();
+    for (let next = lexer.nextToken(); next && !(next.type === 'delimiter' && next.value === '>>'); next = lexer.nextToken()) {
+      const key = parseValue(lexer, next);
+      const valueToken = lexer.nextToken();
+      if (!valueToken) break;
+      if (isName(key)) {
+        dict.set(key.name, parseValue(lexer, valueToken));
+      }
+    }
+    return dict;
+  }
+
+  return null;
+}
+
+/**
+ * Run `onOperator` for each operator of a content stream or CMap, with the operands before it
+ */
+function readOperations(
+  data: Buffer,
+  onOperator: (operator: string, operands: PdfValue[], lexer: PdfLexer) => void
+): void {
+  const lexer = new PdfLexer(data);
+  let operands: PdfValue[] = [];
+
+  for (let token = lexer.nextToken(); token; token = lexer.nextToken()) {
+    if (token.type === 'keyword') {
+      onOperator(token.value, operands, lexer);
+      operands = [];
+    } else {
+      operands.push(parseValue(lexer, token));
+    }
+  }
+}
+
+function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) &&
+    !Buffer.isBuffer(value) && value.kind === 'name' && (name === undefined || value.name === name)
+  );
+}
+
+function isStream(value: PdfValue | undefined): value is PdfStream {
+  return typeof value === 'object' && value !== null && !(value instanceof Map) && !Array.isArray(value) &&
+    !Buffer.isBuffer(value) && value.kind === 'stream';
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+function decodeUtf16(bytes: Buffer): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bytes.readUInt16BE(i));
+  }
+  return text;
+}
+
+function readCode(bytes: Buffer): number {
+  let code = 0;
+  for (const byte of bytes) {
+    code = code * 256 + byte;
+  }
+  return code;
+}
+
+/**
+ * Parse the code to text mappings of a ToUnicode CMap
+ */
+function parseToUnicode(data: Buffer): { codeLength: number | null; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  let codeLength: number | null = null;
+
+  readOperations(data, (operator, operands) => {
+    const strings = operands; // The codes and targets listed since the begin operator
+    if (operator === 'endcodespacerange' && Buffer.isBuffer(strings[0]) && codeLength === null) {
+      codeLength = strings[0].length;
+    } else if (operator === 'endbfchar') {
+      for (let i = 0; i + 1 < strings.length; i += 2) {
+        const source = strings[i];
+        const target = strings[i + 1];
+        if (Buffer.isBuffer(source) && Buffer.isBuffer(target)) {
+          map.set(readCode(source), decodeUtf16(target));
+        }
+      }
+    } else if (operator === 'endbfrange') {
+      for (let i = 0; i + 2 < strings.length; i += 3) {
+        const low = strings[i];
+        const high = strings[i + 1];
+        const target = strings[i + 2];
+        if (!Buffer.isBuffer(low) || !Buffer.isBuffer(high)) continue;
+
+        const first = readCode(low);
+        const last = readCode(high);
+        for (let code = first; code <= last && code - first < 0x10000; code++) {
+          if (Array.isArray(target)) {
+            const item = target[code - first];
+            if (Buffer.isBuffer(item)) map.set(code, decodeUtf16(item));
+          } else if (Buffer.isBuffer(target) && target.length >= 2) {
+            // Ranges increment the last character of the target
+            const text = decodeUtf16(target);
+            map.set(code, text.slice(0, -1) + String.fromCharCode(text.charCodeAt(text.length - 1) + code - first));
+          }
+        }
+      }
+    }
+  });
+
+  return { codeLength, map };
+}
+
+/**
+ * Collects the text of a page, adding line breaks and spaces where the text moves
+ */
+class TextWriter {
+  private text = '';
+  private lineY: number | null = null;
+  private pendingNewLine = false;
+  private pendingSpace = false;
+
+  newLine(): void {
+    this.pendingNewLine = true;
+  }
+
+  space(): void {
+    this.pendingSpace = true;
+  }
+
+  write(text: string, y: number): void {
+    if (text.length === 0) return;
+
+    if (this.lineY !== null && Math.abs(y - this.lineY) > 1) {
+      this.pendingNewLine = true;
+    }
+    if (this.text.length > 0 && this.pendingNewLine) {
+      this.text = this.text.trimEnd() + '\n';
+    } else if (this.pendingSpace && this.text.length > 0 && !/\s$/.test(this.text)) {
+      this.text += ' ';
+    }
+
+    this.text += text;
+    this.lineY = y;
+    this.pendingNewLine = false;
+    this.pendingSpace = false;
+  }
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * Indirect objects of a PDF file, found by scanning for "N G obj" rather than through the
+ * cross-reference table, so files with a damaged table or appended updates still read
+ */
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+  private readonly trailers: PdfDict[] = [];
+  private readonly fonts = new Map<PdfDict, PdfFont>();
+  private decodedSize = 0;
+
+  constructor(private readonly data: Buffer) {
+    this.readObjects();
+    this.readObjectStreams();
+    this.readTrailers();
+  }
+
+  private readObjects(): void {
+    const text = this.data.toString('latin1');
+    const pattern = /(\d+)\s+\d+\s+obj\b/g;
+
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const lexer = new PdfLexer(this.data, match.index + match[0].length);
+      const token = lexer.nextToken();
+      if (!token) break;
+
+      let value = parseValue(lexer, token);
+      const afterValue = lexer.position;
+      const keyword = lexer.nextToken();
+
+      if (isDict(value) && keyword?.type === 'keyword' && keyword.value === 'stream') {
+        const stream = this.readStreamData(value, lexer.position);
+        value = stream.stream;
+        lexer.position = stream.end;
+      } else {
+        lexer.position = afterValue;
+      }
+
+      // Later definitions replace earlier ones, as in incremental updates
+      this.objects.set(Number(match[1]), value);
+      pattern.lastIndex = lexer.position;
+    }
+  }
+
+  private readStreamData(dict: PdfDict, position: number): { stream: PdfStream; end: number } {
+    let start = position;
+    if (this.data[start] === 0x0d) start++;
+    if (this.data[start] === 0x0a) start++;
+
+    // The length may be an indirect object that is not read yet, so check it against endstream
+    const length = dict.get('Length');
+    if (typeof length === 'number' && length >= 0) {
+      const end = start + length;
+      const after = this.data.toString('latin1', end, Math.min(end + 32, this.data.length));
+      if (/^\s*endstream/.test(after)) {
+        return { stream: { kind: 'stream', dict, data: this.data.subarray(start, end) }, end: end + after.indexOf('endstream') + 9 };
+      }
+    }
+
+    const endIndex = this.data.indexOf('endstream', start, 'latin1');
+    const end = endIndex >= 0 ? endIndex : this.data.length;
+    let dataEnd = end;
+    if (this.data[dataEnd - 1] === 0x0a) dataEnd--;
+    if (this.data[dataEnd - 1] === 0x0d) dataEnd--;
+    return {
+      stream: { kind: 'stream', dict, data: this.data.subarray(start, Math.max(start, dataEnd)) },
+      end: endIndex >= 0 ? end + 9 : end,
+    };
+  }
+
+  /**
+   * Objects compressed into object streams (PDF 1.5 and later)
+   */
+  private readObjectStreams(): void {
+    for (const value of Array.from(this.objects.values())) {
+      if (!isStream(value) || !isName(value.dict.get('Type'), 'ObjStm')) continue;
+
+      let data: Buffer;
+      try {
+        data = this.decodeStream(value);
+      } catch {
+        continue;
+      }
+
+      const count = this.resolve(value.dict.get('N'));
+      const first = this.resolve(value.dict.get('First'));
+      if (typeof count !== 'number' || typeof first !== 'number') continue;
+
+      const header = new PdfLexer(data);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.nextToken();
+        const offset = header.nextToken();
+        if (num?.type !== 'value' || offset?.type !== 'value') break;
+        entries.push([Number(num.value), Number(offset.value)]);
+      }
+
+      for (const [num, offset] of entries) {
+        const lexer = new PdfLexer(data, first + offset);
+        const token = lexer.nextToken();
+        if (token && !this.objects.has(num)) {
+          this.objects.set(num, parseValue(lexer, token));
+        }
+      }
+    }
+  }
+
+  /**
+   * Trailer dictionaries, from "trailer" sections and cross-reference streams
+   */
+  private readTrailers(): void {
+    const text = this.data.toString('latin1');
+    const pattern = /trailer\s*<</g;
+
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const lexer = new PdfLexer(this.data, match.index + 'trailer'.length);
+      const token = lexer.nextToken();
+      const trailer = token ? parseValue(lexer, token) : null;
+      if (isDict(trailer)) this.trailers.push(trailer);
+    }
+
+    for (const value of this.objects.values()) {
+      if (isStream(value) && isName(value.dict.get('Type'), 'XRef')) {
+        this.trailers.push(value.dict);
+      }
+    }
+  }
+
+  isEncrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has('Encrypt'));
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let depth = 0; depth < MAX_REF_DEPTH; depth++) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Map ||
+        Buffer.isBuffer(value) || value.kind !== 'ref') {
+        return value;
+      }
+      value = this.objects.get(value.num);
+    }
+    return undefined;
+  }
+
+  private getDict(dict: PdfDict | null, key: string): PdfDict | null {
+    const value = dict ? this.resolve(dict.get(key)) : undefined;
+    if (isDict(value)) return value;
+    if (isStream(value)) return value.dict;
+    return null;
+  }
+
+  decodeStream(stream: PdfStream): Buffer {
+    const filter = this.resolve(stream.dict.get('Filter'));
+    const filters = Array.isArray(filter) ? filter.map((item) => this.resolve(item)) : filter ? [filter] : [];
+    let data = stream.data;
+
+    for (const item of filters) {
+      const name = isName(item) ? item.name : String(item);
+      if (name === 'FlateDecode' || name === 'Fl') {
+        if (this.isOverDecodedSize()) {
+          throw new Error('PDF streams decompress to too much data');
+        }
+        try {
+          data = zlib.inflateSync(data, {
+            finishFlush: zlib.constants.Z_SYNC_FLUSH,
+            maxOutputLength: MAX_DECODED_SIZE - this.decodedSize,
+          });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            this.decodedSize = MAX_DECODED_SIZE;
+          }
+          throw error;
+        }
+        this.decodedSize += data.length;
+      } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+        data = new PdfLexer(Buffer.concat([Buffer.from('<'), data])).nextToken()?.value as Buffer;
+      } else {
+        throw new Error(`Unsupported PDF filter: ${name}`);
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Whether the streams decoded so far used up MAX_DECODED_SIZE, after which none are inflated
+   */
+  isOverDecodedSize(): boolean {
+    return this.decodedSize >= MAX_DECODED_SIZE;
+  }
+
+  private getCatalog(): PdfDict | null {
+    for (let i = this.trailers.length - 1; i >= 0; i--) {
+      const root = this.getDict(this.trailers[i], 'Root');
+      if (root) return root;
+    }
+    for (const value of this.objects.values()) {
+      if (isDict(value) && isName(value.get('Type'), 'Catalog')) return value;
+    }
+    return null;
+  }
+
+  /**
+   * Pages in reading order, with the resources they inherit from the page tree
+   */
+  getPages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict, inherited: PdfDict | null) => {
+      if (visited.has(node)) return;
+      visited.add(node);
+
+      const resources = this.getDict(node, 'Resources') ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          const child = this.resolve(kid);
+          if (isDict(child)) walk(child, resources);
+        }
+      } else if (!isName(node.get('Type'), 'Pages')) {
+        pages.push({ page: node, resources });
+      }
+    };
+
+    const root = this.getDict(this.getCatalog(), 'Pages');
+    if (root) walk(root, null);
+    return pages;
+  }
+
+  getPageContents(page: PdfDict): Buffer {
+    const contents = this.resolve(page.get('Contents'));
+    const streams = Array.isArray(contents) ? contents.map((item) => this.resolve(item)) : [contents];
+    const parts: Buffer[] = [];
+
+    for (const stream of streams) {
+      if (!isStream(stream)) continue;
+      try {
+        parts.push(this.decodeStream(stream), Buffer.from('\n'));
+      } catch (error) {
+        console.warn('Skipping unreadable PDF content stream:', error);
+      }
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  getFont(resources: PdfDict | null, name: string): PdfFont | null {
+    const font = this.getDict(this.getDict(resources, 'Font'), name);
+    if (!font) return null;
+
+    const cached = this.fonts.get(font);
+    if (cached) return cached;
+
+    // Composite fonts use two-byte codes unless their CMap says otherwise
+    const result: PdfFont = { codeLength: isName(font.get('Subtype'), 'Type0') ? 2 : 1, toUnicode: null };
+    const toUnicode = this.resolve(font.get('ToUnicode'));
+    if (isStream(toUnicode)) {
+      try {
+        const cmap = parseToUnicode(this.decodeStream(toUnicode));
+        result.toUnicode = cmap.map;
+        result.codeLength = cmap.codeLength ?? result.codeLength;
+      } catch (error) {
+        console.warn(`Skipping unreadable ToUnicode map of font ${name}:`, error);
+      }
+    }
+
+    this.fonts.set(font, result);
+    return result;
+  }
+
+  getXObject(resources: PdfDict | null, name: string): PdfStream | null {
+    const xObjects = this.getDict(resources, 'XObject');
+    const xObject = xObjects ? this.resolve(xObjects.get(name)) : undefined;
+    return isStream(xObject) ? xObject : null;
+  }
+
+  /**
+   * Text of the page or form, read from its text showing operators
+   */
+  readText(content: Buffer, resources: PdfDict | null, writer: TextWriter, depth = 0): void {
+    let font: PdfFont | null = null;
+    let y = 0;
+
+    const show = (value: PdfValue) => {
+      if (Buffer.isBuffer(value)) writer.write(decodeText(font, value), y);
+    };
+
+    readOperations(content, (operator, operands, lexer) => {
+      switch (operator) {
+        case 'BT':
+          y = 0;
+          break;
+        case 'Tf':
+          font = isName(operands[0]) ? this.getFont(resources, operands[0].name) : null;
+          break;
+        case 'Td':
+        case 'TD': {
+          const [tx, ty] = operands;
+          if (typeof ty === 'number') y += ty;
+          if (ty === 0 && typeof tx === 'number' && tx !== 0) writer.space();
+          break;
+        }
+        case 'Tm': {
+          // Moves along the same line separate words, moves to another line break it
+          const f = operands[5];
+          if (typeof f === 'number') y = f;
+          writer.space();
+          break;
+        }
+        case 'T*':
+          writer.newLine();
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case "'":
+          writer.newLine();
+          show(operands[0]);
+          break;
+        case '"':
+          writer.newLine();
+          show(operands[2]);
+          break;
+        case 'TJ':
+          if (Array.isArray(operands[0])) {
+            for (const item of operands[0]) {
+              if (typeof item === 'number' && item < -WORD_GAP) {
+                writer.space();
+              } else {
+                show(item);
+              }
+            }
+          }
+          break;
+        case 'Do': {
+          const form = isName(operands[0]) ? this.getXObject(resources, operands[0].name) : null;
+          if (form && isName(form.dict.get('Subtype'), 'Form') && depth < MAX_FORM_DEPTH) {
+            try {
+              this.readText(this.decodeStream(form), this.getDict(form.dict, 'Resources') ?? resources, writer, depth + 1);
+            } catch (error) {
+              console.warn('Skipping unreadable PDF form:', error);
+            }
+          }
+          break;
+        }
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+      }
+    });
+  }
+}
+
+/**
+ * Text of a string shown with `font`. Without a ToUnicode map, one-byte codes are read
+ * as Latin-1, which matches the standard encodings for common text.
+ */
+function decodeText(font: PdfFont | null, bytes: Buffer): string {
+  if (!font?.toUnicode) {
+    return font && font.codeLength > 1 ? '' : bytes.toString('latin1');
+  }
+
+  let text = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = readCode(bytes.subarray(i, i + font.codeLength));
+    text += font.toUnicode.get(code) ?? (font.codeLength === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+}
+
+/**
+ * Extract the text of a PDF file, page by page, with pages separated by a blank line.
+ * Only text drawn with fonts is found: scanned pages have none.
+ */
+export function extractPdfText(data: Buffer): string {
+  if (data.toString('latin1', 0, 1024).indexOf(PDF_HEADER) < 0) {
+    throw new Error('Not a PDF file');
+  }
+
+  const document = new PdfDocument(data);
+  if (document.isEncrypted()) {
+    throw new Error('Encrypted PDF files are not supported');
+  }
+
+  const pages = document.getPages().map(({ page, resources }) => {
+    const writer = new TextWriter();
+    document.readText(document.getPageContents(page), resources, writer);
+    return writer
+      .toString()
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim();
+  });
+
+  // Unreadable streams are skipped, but text missing everything past the limit is not returned
+  if (document.isOverDecodedSize()) {
+    throw new Error(`The PDF decompresses to more than ${MAX_DECODED_SIZE / (1024 * 1024)} MB`);
+  }
+
+  return pages.filter((text) => text.length > 0).join('\n\n');
+}
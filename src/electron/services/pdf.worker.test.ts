@@ -0,0 +1,76 @@
+import { EventEmitter } from 'events';
+import { extractPdfTextInWorker } from './pdf.worker';
+
+class MockWorker extends EventEmitter {
+  static instances: MockWorker[] = [];
+  terminate = jest.fn().mockResolvedValue(0);
+
+  constructor(
+    public filename: string,
+    public options: { workerData: { pdf: Buffer }; resourceLimits: object }
+  ) {
+    super();
+    MockWorker.instances.push(this);
+  }
+}
+
+jest.mock('worker_threads', () => ({
+  isMainThread: true,
+  parentPort: null,
+  workerData: null,
+  Worker: jest.fn((filename: string, options: any) => new MockWorker(filename, options)),
+}));
+
+describe('extractPdfTextInWorker', () => {
+  beforeEach(() => {
+    MockWorker.instances = [];
+  });
+
+  it('should send the file to a worker running this module with a memory limit', async () => {
+    const data = Buffer.from('%PDF-1.7');
+
+    const promise = extractPdfTextInWorker(data);
+    const [worker] = MockWorker.instances;
+    worker.emit('message', { text: 'Quarterly report' });
+
+    await expect(promise).resolves.toBe('Quarterly report');
+    expect(worker.filename).toMatch(/pdf\.worker\.(ts|js)$/);
+    expect(worker.options.workerData.pdf).toBe(data);
+    expect(worker.options.resourceLimits).toEqual({ maxOldGenerationSizeMb: 512 });
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it('should reject with the error of the worker', async () => {
+    const promise = extractPdfTextInWorker(Buffer.from('plain text'));
+    MockWorker.instances[0].emit('message', { error: 'Not a PDF file' });
+
+    await expect(promise).rejects.toThrow('Not a PDF file');
+  });
+
+  it('should reject when the worker crashes or runs out of memory', async () => {
+    const promise = extractPdfTextInWorker(Buffer.from('%PDF-1.7'));
+    MockWorker.instances[0].emit('error', new Error('Worker terminated due to reaching memory limit'));
+
+    await expect(promise).rejects.toThrow('reaching memory limit');
+  });
+
+  it('should reject when the worker exits without an answer', async () => {
+    const promise = extractPdfTextInWorker(Buffer.from('%PDF-1.7'));
+    MockWorker.instances[0].emit('exit', 1);
+
+    await expect(promise).rejects.toThrow('The PDF reader stopped with exit code 1');
+  });
+
+  it('should stop the worker after the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const promise = extractPdfTextInWorker(Buffer.from('%PDF-1.7'), 2000);
+      jest.advanceTimersByTime(2000);
+
+      await expect(promise).rejects.toThrow('Reading the PDF took more than 2 seconds');
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
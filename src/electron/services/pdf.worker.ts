@@ -0,0 +1,52 @@
+import { isMainThread, parentPort, Worker, workerData } from 'worker_threads';
+import { getErrorMessage } from './llm.service.helpers';
+import { extractPdfText } from './pdf.text';
+
+export const PDF_WORKER_TIMEOUT_MS = 30_000;
+const PDF_WORKER_MEMORY_MB = 512;
+
+type PdfWorkerMessage = { text: string } | { error: string };
+
+/**
+ * Extract the text of a PDF file in a worker thread, so a large or malformed file
+ * can't freeze the main process. The worker is stopped after the timeout.
+ */
+export function extractPdfTextInWorker(data: Buffer, timeoutMs: number = PDF_WORKER_TIMEOUT_MS): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const worker = new Worker(__filename, {
+      workerData: { pdf: data },
+      resourceLimits: { maxOldGenerationSizeMb: PDF_WORKER_MEMORY_MB },
+    });
+    let settled = false;
+
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      callback();
+      void worker.terminate();
+    };
+
+    const timer = setTimeout(() => {
+      settle(() => reject(new Error(`Reading the PDF took more than ${timeoutMs / 1000} seconds`)));
+    }, timeoutMs);
+
+    worker.once('message', (message: PdfWorkerMessage) => {
+      settle(() => ('text' in message ? resolve(message.text) : reject(new Error(message.error))));
+    });
+    worker.once('error', (error) => settle(() => reject(error)));
+    worker.once('exit', (code) => {
+      settle(() => reject(new Error(`The PDF reader stopped with exit code ${code}`)));
+    });
+  });
+}
+
+if (!isMainThread && workerData?.pdf) {
+  let message: PdfWorkerMessage;
+  try {
+    message = { text: extractPdfText(Buffer.from(workerData.pdf)) };
+  } catch (error) {
+    message = { error: getErrorMessage(error) };
+  }
+  parentPort?.postMessage(message);
+}
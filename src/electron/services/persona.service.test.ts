@@ -0,0 +1,171 @@
+import { PersonaService } from './persona.service';
+import { PrismaClient } from '../generated/prisma';
+
+// Mock Electron's app module
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => '/mock/user/data'),
+  },
+}));
+
+// Mock PrismaClient
+jest.mock('../generated/prisma', () => {
+  const mockPrismaClient = {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    persona: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+describe('PersonaService', () => {
+  let personaService: PersonaService;
+  let mockPrisma: any;
+  let mockDatabase: any;
+
+  const persona = {
+    id: 1,
+    name: 'Translator',
+    systemPrompt: 'Translate everything',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPrisma = new PrismaClient();
+    mockDatabase = {
+      client: mockPrisma,
+      connect: jest.fn().mockResolvedValue(undefined),
+    };
+    personaService = new PersonaService(mockDatabase);
+
+    mockPrisma.$queryRaw.mockResolvedValue([{ 1: 1 }]);
+    mockPrisma.$executeRaw.mockResolvedValue(undefined);
+  });
+
+  describe('initialize', () => {
+    it('should initialize the service successfully', async () => {
+      await personaService.initialize();
+
+      expect(mockDatabase.connect).toHaveBeenCalled();
+      // The table and the default personas are created by the migrations
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+    });
+
+    it('should not initialize twice', async () => {
+      await personaService.initialize();
+      await personaService.initialize();
+
+      expect(mockDatabase.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error if initialization fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockDatabase.connect.mockRejectedValue(new Error('Connection failed'));
+
+      await expect(personaService.initialize()).rejects.toThrow('Connection failed');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getAllPersonas', () => {
+    it('should return personas ordered by name', async () => {
+      mockPrisma.persona.findMany.mockResolvedValue([persona]);
+
+      const result = await personaService.getAllPersonas();
+
+      expect(mockPrisma.persona.findMany).toHaveBeenCalledWith({ orderBy: { name: 'asc' } });
+      expect(result).toEqual([persona]);
+    });
+
+    it('should throw error if query fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPrisma.persona.findMany.mockRejectedValue(new Error('Query failed'));
+
+      await expect(personaService.getAllPersonas()).rejects.toThrow('Query failed');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('createPersona', () => {
+    it('should create a persona with trimmed values', async () => {
+      mockPrisma.persona.create.mockResolvedValue(persona);
+
+      const result = await personaService.createPersona({
+        name: '  Translator ',
+        systemPrompt: ' Translate everything ',
+      });
+
+      expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+        data: { name: 'Translator', systemPrompt: 'Translate everything' },
+      });
+      expect(result).toEqual(persona);
+    });
+
+    it('should reject a persona without a name or system prompt', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(personaService.createPersona({ name: ' ', systemPrompt: 'Prompt' }))
+        .rejects.toThrow('Persona name and system prompt are required');
+      await expect(personaService.createPersona({ name: 'Name', systemPrompt: '' }))
+        .rejects.toThrow('Persona name and system prompt are required');
+      expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('updatePersona', () => {
+    it('should update a persona', async () => {
+      mockPrisma.persona.update.mockResolvedValue(persona);
+
+      const result = await personaService.updatePersona(1, {
+        name: 'Translator',
+        systemPrompt: 'Translate everything',
+      });
+
+      expect(mockPrisma.persona.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'Translator', systemPrompt: 'Translate everything' },
+      });
+      expect(result).toEqual(persona);
+    });
+
+    it('should throw error if update fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPrisma.persona.update.mockRejectedValue(new Error('Update failed'));
+
+      await expect(personaService.updatePersona(1, { name: 'A', systemPrompt: 'B' }))
+        .rejects.toThrow('Update failed');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('deletePersona', () => {
+    it('should delete a persona', async () => {
+      mockPrisma.persona.delete.mockResolvedValue(persona);
+
+      await personaService.deletePersona(1);
+
+      expect(mockPrisma.persona.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+
+    it('should throw error if delete fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPrisma.persona.delete.mockRejectedValue(new Error('Delete failed'));
+
+      await expect(personaService.deletePersona(1)).rejects.toThrow('Delete failed');
+      consoleSpy.mockRestore();
+    });
+  });
+});
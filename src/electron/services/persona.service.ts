@@ -0,0 +1,112 @@
+import type { PrismaClient } from '../generated/prisma';
+import { databaseService } from './database.service';
+import type { DatabaseService } from './database.service';
+
+export interface PersonaRecord {
+  id: number;
+  name: string;
+  systemPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PersonaRequest {
+  name: string;
+  systemPrompt: string;
+}
+
+export class PersonaService {
+  private prisma: PrismaClient;
+  private initialized: boolean = false;
+
+  constructor(private readonly database: DatabaseService = databaseService) {
+    this.prisma = database.client;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      // The schema is created by the migrations
+      await this.database.connect();
+
+      this.initialized = true;
+      console.log('Persona service initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize persona service:', error);
+      throw error;
+    }
+  }
+
+  async getAllPersonas(): Promise<PersonaRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.prisma.persona.findMany({
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('Failed to get personas:', error);
+      throw error;
+    }
+  }
+
+  async createPersona(data: PersonaRequest): Promise<PersonaRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.prisma.persona.create({
+        data: this.validate(data),
+      });
+    } catch (error) {
+      console.error('Failed to create persona:', error);
+      throw error;
+    }
+  }
+
+  async updatePersona(id: number, data: PersonaRequest): Promise<PersonaRecord> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.prisma.persona.update({
+        where: { id },
+        data: this.validate(data),
+      });
+    } catch (error) {
+      console.error('Failed to update persona:', error);
+      throw error;
+    }
+  }
+
+  async deletePersona(id: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.prisma.persona.delete({
+        where: { id },
+      });
+    } catch (error) {
+      console.error('Failed to delete persona:', error);
+      throw error;
+    }
+  }
+
+  private validate(data: PersonaRequest): PersonaRequest {
+    const name = data.name.trim();
+    const systemPrompt = data.systemPrompt.trim();
+
+    if (!name || !systemPrompt) {
+      throw new Error('Persona name and system prompt are required');
+    }
+
+    return { name, systemPrompt };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+}
+
+export const personaService = new PersonaService();
@@ -0,0 +1,71 @@
+import { DEFAULT_RETENTION_POLICY, mergeRetentionPolicy, selectChatsToRemove } from './retention.helpers';
+
+const now = new Date('2025-03-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const chats = [
+  { id: 1, name: 'Today', pinned: false, updatedAt: daysAgo(0) },
+  { id: 2, name: 'Last week', pinned: false, updatedAt: daysAgo(7) },
+  { id: 3, name: 'Pinned and old', pinned: true, updatedAt: daysAgo(400) },
+  { id: 4, name: 'Last month', pinned: false, updatedAt: daysAgo(31) },
+  { id: 5, name: 'Last year', pinned: false, updatedAt: daysAgo(365) },
+];
+
+describe('retention.helpers', () => {
+  describe('selectChatsToRemove', () => {
+    it('should select the chats without activity for too long', () => {
+      const result = selectChatsToRemove(chats, { maxAgeDays: 30, maxChats: null }, now);
+
+      expect(result).toEqual([
+        { id: 4, name: 'Last month', updatedAt: daysAgo(31), reason: 'age' },
+        { id: 5, name: 'Last year', updatedAt: daysAgo(365), reason: 'age' },
+      ]);
+    });
+
+    it('should keep the most recently active chats up to the limit', () => {
+      const result = selectChatsToRemove(chats, { maxAgeDays: null, maxChats: 2 }, now);
+
+      expect(result.map((chat) => [chat.id, chat.reason])).toEqual([[4, 'count'], [5, 'count']]);
+    });
+
+    it('should report chats past both limits for their age', () => {
+      const result = selectChatsToRemove(chats, { maxAgeDays: 100, maxChats: 1 }, now);
+
+      expect(result.map((chat) => [chat.id, chat.reason])).toEqual([[2, 'count'], [4, 'count'], [5, 'age']]);
+    });
+
+    it('should never select pinned chats', () => {
+      const result = selectChatsToRemove(chats, { maxAgeDays: 1, maxChats: 1 }, now);
+
+      expect(result.map((chat) => chat.id)).not.toContain(3);
+    });
+
+    it('should select nothing without limits', () => {
+      expect(selectChatsToRemove(chats, { maxAgeDays: null, maxChats: null }, now)).toEqual([]);
+    });
+  });
+
+  describe('mergeRetentionPolicy', () => {
+    it('should apply the changes', () => {
+      expect(mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { enabled: true, maxAgeDays: 90 })).toEqual({
+        enabled: true,
+        maxAgeDays: 90,
+        maxChats: null,
+      });
+    });
+
+    it('should remove a limit set to null or left empty', () => {
+      const policy = { enabled: true, maxAgeDays: 90, maxChats: 100 };
+
+      expect(mergeRetentionPolicy(policy, { maxAgeDays: null })).toEqual({ ...policy, maxAgeDays: null });
+      expect(mergeRetentionPolicy(policy, { maxChats: '' as unknown as null })).toEqual({ ...policy, maxChats: null });
+    });
+
+    it('should refuse limits that are not positive whole numbers', () => {
+      expect(() => mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { maxAgeDays: 0 })).toThrow(
+        'Retention limits must be positive whole numbers, got 0'
+      );
+      expect(() => mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, { maxChats: 2.5 })).toThrow('got 2.5');
+    });
+  });
+});
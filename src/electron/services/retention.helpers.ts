@@ -0,0 +1,87 @@
+/**
+ * Helper functions for the chat retention policy
+ */
+
+/**
+ * Which chats are deleted automatically. Pinned chats are always kept and not counted.
+ */
+export interface RetentionPolicy {
+  enabled: boolean; // Applied by the scheduled job when true
+  maxAgeDays: number | null; // Delete chats without activity for this many days, null for no limit
+  maxChats: number | null; // Keep at most this many chats, the most recently active ones, null for no limit
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  maxAgeDays: null,
+  maxChats: null,
+};
+
+export type RetentionReason = 'age' | 'count';
+
+/**
+ * A chat the policy would delete, and why
+ */
+export interface RetentionCandidate {
+  id: number;
+  name: string;
+  updatedAt: Date;
+  reason: RetentionReason;
+}
+
+interface RetainedChat {
+  id: number;
+  name: string;
+  pinned: boolean;
+  updatedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A limit as stored: a positive whole number, or null when there is no limit
+ */
+function toLimit(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Retention limits must be positive whole numbers, got ${String(value)}`);
+  }
+  return limit;
+}
+
+/**
+ * Merge changes into a policy, validating the limits
+ */
+export function mergeRetentionPolicy(policy: RetentionPolicy, changes: Partial<RetentionPolicy>): RetentionPolicy {
+  return {
+    enabled: changes.enabled ?? policy.enabled,
+    maxAgeDays: 'maxAgeDays' in changes ? toLimit(changes.maxAgeDays) : policy.maxAgeDays,
+    maxChats: 'maxChats' in changes ? toLimit(changes.maxChats) : policy.maxChats,
+  };
+}
+
+/**
+ * The chats a policy deletes, most recently active first.
+ * A chat past both limits is reported for its age.
+ */
+export function selectChatsToRemove(
+  chats: RetainedChat[],
+  policy: Pick<RetentionPolicy, 'maxAgeDays' | 'maxChats'>,
+  now: Date = new Date()
+): RetentionCandidate[] {
+  const unpinned = chats
+    .filter((chat) => !chat.pinned)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+  const candidates: RetentionCandidate[] = [];
+  unpinned.forEach((chat, index) => {
+    const updatedAt = new Date(chat.updatedAt);
+    const tooOld = policy.maxAgeDays !== null && now.getTime() - updatedAt.getTime() > policy.maxAgeDays * DAY_MS;
+    const overLimit = policy.maxChats !== null && index >= policy.maxChats;
+    if (tooOld || overLimit) {
+      candidates.push({ id: chat.id, name: chat.name, updatedAt, reason: tooOld ? 'age' : 'count' });
+    }
+  });
+  return candidates;
+}
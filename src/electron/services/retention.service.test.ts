@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RetentionService } from './retention.service';
+
+// Mock Electron's app module
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => '/mock/user/data'),
+  },
+}));
+
+// Mock the chat service, its module creates a database connection
+jest.mock('./chat.service', () => ({
+  chatService: {},
+}));
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe('RetentionService', () => {
+  let tempDir: string;
+  let configPath: string;
+  let mockChats: { getAllChats: jest.Mock; deleteChats: jest.Mock; getEncryptionStatus: jest.Mock };
+  let service: RetentionService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-'));
+    configPath = path.join(tempDir, 'chat-retention.json');
+    mockChats = {
+      getAllChats: jest.fn().mockResolvedValue([
+        { id: 1, name: 'Recent', pinned: false, updatedAt: daysAgo(1) },
+        { id: 2, name: 'Old', pinned: false, updatedAt: daysAgo(60) },
+        { id: 3, name: 'Old but pinned', pinned: true, updatedAt: daysAgo(60) },
+      ]),
+      deleteChats: jest.fn().mockResolvedValue(undefined),
+      getEncryptionStatus: jest.fn().mockReturnValue({ enabled: false, locked: false }),
+    };
+    service = new RetentionService(mockChats as any, configPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('policy', () => {
+    it('should be disabled by default', () => {
+      expect(service.getPolicy()).toEqual({ enabled: false, maxAgeDays: null, maxChats: null });
+    });
+
+    it('should save the policy', () => {
+      const policy = service.updatePolicy({ enabled: true, maxAgeDays: 30 });
+
+      expect(policy).toEqual({ enabled: true, maxAgeDays: 30, maxChats: null });
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf-8'))).toEqual(policy);
+      expect(service.updatePolicy({ maxChats: 10 })).toEqual({ enabled: true, maxAgeDays: 30, maxChats: 10 });
+    });
+
+    it('should not save invalid limits', () => {
+      expect(() => service.updatePolicy({ maxAgeDays: -1 })).toThrow('positive whole numbers');
+      expect(fs.existsSync(configPath)).toBe(false);
+    });
+
+    it('should fall back to the default policy when the file is unreadable', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      fs.writeFileSync(configPath, 'not json');
+
+      expect(service.getPolicy()).toEqual({ enabled: false, maxAgeDays: null, maxChats: null });
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to read retention policy:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('preview', () => {
+    it('should list the chats the saved policy would delete without deleting them', async () => {
+      service.updatePolicy({ maxAgeDays: 30 });
+
+      const result = await service.preview();
+
+      expect(result.map((chat) => chat.id)).toEqual([2]);
+      expect(mockChats.deleteChats).not.toHaveBeenCalled();
+    });
+
+    it('should preview a policy that is not saved yet', async () => {
+      const result = await service.preview({ maxChats: 1 });
+
+      expect(result.map((chat) => [chat.id, chat.reason])).toEqual([[2, 'count']]);
+      expect(service.getPolicy().maxChats).toBeNull();
+    });
+  });
+
+  describe('apply', () => {
+    it('should delete the chats selected by the policy', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      service.updatePolicy({ enabled: true, maxAgeDays: 30 });
+
+      const result = await service.apply();
+
+      expect(mockChats.deleteChats).toHaveBeenCalledWith([2]);
+      expect(result.map((chat) => chat.id)).toEqual([2]);
+      (console.log as jest.Mock).mockRestore();
+    });
+
+    it('should delete nothing while the policy is disabled', async () => {
+      service.updatePolicy({ enabled: false, maxAgeDays: 30 });
+
+      await expect(service.apply()).resolves.toEqual([]);
+      expect(mockChats.getAllChats).not.toHaveBeenCalled();
+      expect(mockChats.deleteChats).not.toHaveBeenCalled();
+    });
+
+    it('should delete nothing while the encrypted history is locked', async () => {
+      mockChats.getEncryptionStatus.mockReturnValue({ enabled: true, locked: true });
+      service.updatePolicy({ enabled: true, maxAgeDays: 30 });
+
+      await expect(service.apply()).resolves.toEqual([]);
+      expect(mockChats.getAllChats).not.toHaveBeenCalled();
+    });
+
+    it('should not call the database when nothing is selected', async () => {
+      service.updatePolicy({ enabled: true, maxAgeDays: 365 });
+
+      await expect(service.apply()).resolves.toEqual([]);
+      expect(mockChats.deleteChats).not.toHaveBeenCalled();
+    });
+  });
+});
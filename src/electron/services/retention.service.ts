@@ -0,0 +1,79 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { chatService } from './chat.service';
+import type { ChatService } from './chat.service';
+import { DEFAULT_RETENTION_POLICY, mergeRetentionPolicy, selectChatsToRemove } from './retention.helpers';
+import type { RetentionCandidate, RetentionPolicy } from './retention.helpers';
+
+/**
+ * Deletes old chats following the retention policy saved in chat-retention.json
+ */
+export class RetentionService {
+  constructor(
+    private readonly chats: ChatService = chatService,
+    private readonly configPath?: string
+  ) {}
+
+  getPolicy(): RetentionPolicy {
+    const configPath = this.getConfigPath();
+    if (!fs.existsSync(configPath)) {
+      return { ...DEFAULT_RETENTION_POLICY };
+    }
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(configPath, 'utf-8')) || {};
+      return mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, stored);
+    } catch (error) {
+      console.error('Failed to read retention policy:', error);
+      return { ...DEFAULT_RETENTION_POLICY };
+    }
+  }
+
+  updatePolicy(changes: Partial<RetentionPolicy>): RetentionPolicy {
+    const policy = mergeRetentionPolicy(this.getPolicy(), changes);
+    const configPath = this.getConfigPath();
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify(policy, null, 2));
+    return policy;
+  }
+
+  /**
+   * Dry run: the chats a policy would delete now, the saved one unless another is given
+   */
+  async preview(policy: Partial<RetentionPolicy> = {}): Promise<RetentionCandidate[]> {
+    const effective = mergeRetentionPolicy(this.getPolicy(), policy);
+    const chats = await this.chats.getAllChats();
+    return selectChatsToRemove(chats, effective);
+  }
+
+  /**
+   * Delete the chats the saved policy selects. Nothing is deleted while it is disabled,
+   * or while the encrypted history is locked as the chat names cannot be read.
+   */
+  async apply(): Promise<RetentionCandidate[]> {
+    const policy = this.getPolicy();
+    if (!policy.enabled || this.chats.getEncryptionStatus().locked) return [];
+
+    const candidates = selectChatsToRemove(await this.chats.getAllChats(), policy);
+    if (candidates.length > 0) {
+      await this.chats.deleteChats(candidates.map((candidate) => candidate.id));
+      console.log(`Retention policy deleted ${candidates.length} chats`);
+    }
+    return candidates;
+  }
+
+  private getConfigPath(): string {
+    if (this.configPath) return this.configPath;
+
+    const isDev = process.env.NODE_ENV === 'development';
+    if (isDev) {
+      return path.join(process.cwd(), 'chat-retention.json');
+    } else {
+      return path.join(app.getPath('userData'), 'chat-retention.json');
+    }
+  }
+}
+
+export const retentionService = new RetentionService();
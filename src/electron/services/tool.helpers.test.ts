@@ -0,0 +1,38 @@
+import { getToolParamsError } from './tool.helpers';
+
+describe('tool.helpers', () => {
+  describe('getToolParamsError', () => {
+    const schema = {
+      type: 'object',
+      properties: { query: { type: 'string' }, limit: { type: 'integer' } },
+      required: ['query'],
+    };
+
+    it('should accept params matching the schema', () => {
+      expect(getToolParamsError(schema, { query: 'flour' })).toBeNull();
+      expect(getToolParamsError(schema, { query: 'flour', limit: 3 })).toBeNull();
+    });
+
+    it('should report missing required params', () => {
+      expect(getToolParamsError(schema, {})).toBe('query is required');
+      expect(getToolParamsError(schema, { limit: 3 })).toBe('query is required');
+    });
+
+    it('should report params of the wrong type', () => {
+      expect(getToolParamsError(schema, { query: 42 })).toBe('query must be of type string');
+      expect(getToolParamsError(schema, { query: 'flour', limit: 1.5 })).toBe('limit must be of type integer');
+      expect(getToolParamsError(schema, { query: null })).toBe('query must be of type string');
+    });
+
+    it('should only accept an object', () => {
+      expect(getToolParamsError(schema, 'flour')).toBe('params must be an object');
+      expect(getToolParamsError(schema, ['flour'])).toBe('params must be an object');
+      expect(getToolParamsError(undefined, null)).toBe('params must be an object');
+    });
+
+    it('should accept any object for tools without a schema', () => {
+      expect(getToolParamsError(undefined, {})).toBeNull();
+      expect(getToolParamsError(undefined, { zone: 'UTC' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import type { JsonSchema } from './llm.service';
+
+/**
+ * Helper functions for the tools the model may call
+ * These are extracted for testability
+ */
+
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  array: (value) => Array.isArray(value),
+  object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+};
+
+/**
+ * Why the params of a tool call do not match the tool's schema, or null when they do.
+ * The schema steers the model but nothing forces it to follow it, so calls are checked
+ * before being shown to the user. Only the required and top-level property types are checked.
+ */
+export function getToolParamsError(schema: JsonSchema | undefined, params: unknown): string | null {
+  if (!TYPE_CHECKS.object(params)) {
+    return 'params must be an object';
+  }
+  if (!schema) {
+    return null;
+  }
+
+  const values = params as Record<string, unknown>;
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string }>;
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+
+  const missing = required.find((name) => values[name] === undefined);
+  if (missing) {
+    return `${missing} is required`;
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    const type = properties[name]?.type;
+    if (type && TYPE_CHECKS[type] && !TYPE_CHECKS[type](value)) {
+      return `${name} must be of type ${type}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+import { BUILT_IN_TOOLS, ToolRegistry, toolRegistry } from './tool.registry';
+import type { ToolDefinition } from './tool.registry';
+
+jest.mock('./chat.service', () => ({
+  chatService: {
+    searchChats: jest.fn(),
+  },
+}));
+
+jest.mock('./highScore.service', () => ({
+  highScoreService: {
+    getAllHighScores: jest.fn(),
+  },
+}));
+
+const { chatService: mockChatService } = jest.requireMock('./chat.service');
+const { highScoreService: mockHighScoreService } = jest.requireMock('./highScore.service');
+
+const getTool = (name: string): ToolDefinition => {
+  const tool = toolRegistry.get(name);
+  if (!tool) throw new Error(`Missing tool ${name}`);
+  return tool;
+};
+
+describe('ToolRegistry', () => {
+  const tool: ToolDefinition = {
+    name: 'echo',
+    description: 'Repeat the input',
+    execute: jest.fn(async (params) => params),
+  };
+
+  it('should register and look up tools', () => {
+    const registry = new ToolRegistry();
+
+    registry.register(tool);
+
+    expect(registry.get('echo')).toBe(tool);
+    expect(registry.get('missing')).toBeUndefined();
+    expect(registry.list()).toEqual([tool]);
+  });
+
+  it('should reject duplicate names', () => {
+    const registry = new ToolRegistry();
+    registry.register(tool);
+
+    expect(() => registry.register({ ...tool })).toThrow('Tool echo is already registered');
+  });
+
+  it('should unregister tools', () => {
+    const registry = new ToolRegistry();
+    registry.register(tool);
+
+    expect(registry.unregister('echo')).toBe(true);
+    expect(registry.unregister('echo')).toBe(false);
+    expect(registry.list()).toEqual([]);
+  });
+});
+
+describe('built-in tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be registered in the shared registry', () => {
+    expect(toolRegistry.list().map((tool) => tool.name)).toEqual(BUILT_IN_TOOLS.map((tool) => tool.name));
+  });
+
+  it('should get the current time', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+
+    const result = await getTool('get_current_time').execute({});
+
+    expect(result).toEqual({ dateTime: '2026-03-01T12:00:00.000Z', timeZone: expect.any(String) });
+    jest.useRealTimers();
+  });
+
+  it('should get the best scores across games', async () => {
+    mockHighScoreService.getAllHighScores.mockResolvedValue([
+      { id: 1, name: 'Ada', score: 1200, game: 'lineDestroyer', createdAt: new Date('2026-01-01T00:00:00.000Z') },
+    ]);
+
+    const result = await getTool('get_high_scores').execute({});
+
+    expect(mockHighScoreService.getAllHighScores).toHaveBeenCalledWith(10);
+    expect(result).toEqual([
+      { name: 'Ada', game: 'lineDestroyer', score: 1200, date: '2026-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should search chats and flatten the snippets', async () => {
+    mockChatService.searchChats.mockResolvedValue([
+      {
+        chatId: 1,
+        chatName: 'Baking',
+        messageId: 3,
+        role: 'user',
+        snippet: [{ text: 'mix ', match: false }, { text: 'flour', match: true }],
+        rank: -1,
+      },
+    ]);
+
+    const result = await getTool('search_chats').execute({ query: 'flour' });
+
+    expect(mockChatService.searchChats).toHaveBeenCalledWith('flour', 5);
+    expect(result).toEqual([{ chat: 'Baking', role: 'user', text: 'mix flour' }]);
+  });
+
+  it('should describe the params of tools that take some', () => {
+    expect(getTool('search_chats').parameters).toEqual({
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    });
+    expect(getTool('get_current_time').parameters).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { chatService } from './chat.service';
+import { highScoreService } from './highScore.service';
+import type { JsonSchema } from './llm.service';
+
+/**
+ * A tool the model may call while writing a chat reply.
+ * Every call is confirmed by the user before `execute` runs.
+ */
+export interface ToolDefinition<Params = Record<string, unknown>> {
+  name: string; // snake_case, as the model refers to it
+  description: string; // Tells the model when to use the tool
+  parameters?: JsonSchema; // Schema of the params object, omitted for tools without params
+  execute(params: Params): Promise<unknown>; // Called with params matching `parameters`; the result must be JSON serializable
+}
+
+/**
+ * Tools shown to the model, keyed by name
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+}
+
+const MAX_HIGH_SCORES = 10;
+const MAX_SEARCH_RESULTS = 5;
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'get_current_time',
+    description: 'Get the current date and time of the user',
+    async execute() {
+      return {
+        dateTime: new Date().toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+    },
+  },
+  {
+    name: 'get_high_scores',
+    description: `Get the user's ${MAX_HIGH_SCORES} best game scores, across all games`,
+    async execute() {
+      const scores = await highScoreService.getAllHighScores(MAX_HIGH_SCORES);
+      return scores.map((score) => ({
+        name: score.name,
+        game: score.game,
+        score: score.score,
+        date: new Date(score.createdAt).toISOString(),
+      }));
+    },
+  },
+  {
+    name: 'search_chats',
+    description: "Search the user's previous chats for messages containing the given words",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+      },
+      required: ['query'],
+    },
+    async execute({ query }: { query: string }) {
+      const results = await chatService.searchChats(query, MAX_SEARCH_RESULTS);
+      return results.map((result) => ({
+        chat: result.chatName,
+        role: result.role,
+        text: result.snippet.map((segment) => segment.text).join(''),
+      }));
+    },
+  },
+];
+
+export const toolRegistry = new ToolRegistry();
+BUILT_IN_TOOLS.forEach((tool) => toolRegistry.register(tool));
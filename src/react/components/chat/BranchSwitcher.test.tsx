@@ -0,0 +1,60 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import BranchSwitcher from './BranchSwitcher';
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+jest.mock('lucide-react', () => ({
+  ChevronLeft: () => <span>Previous Icon</span>,
+  ChevronRight: () => <span>Next Icon</span>,
+}));
+
+describe('BranchSwitcher', () => {
+  it('should render nothing when there is a single version', () => {
+    const { container } = render(<BranchSwitcher messageId={1} siblingIds={[1]} onSwitch={jest.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should render nothing when the message is not among the siblings', () => {
+    const { container } = render(<BranchSwitcher messageId={9} siblingIds={[1, 2]} onSwitch={jest.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show the position of the message', () => {
+    render(<BranchSwitcher messageId={4} siblingIds={[2, 4, 6]} onSwitch={jest.fn()} />);
+
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+  });
+
+  it('should switch to the previous and next versions', () => {
+    const onSwitch = jest.fn();
+    render(<BranchSwitcher messageId={4} siblingIds={[2, 4, 6]} onSwitch={onSwitch} />);
+
+    fireEvent.click(screen.getByLabelText('previousBranch'));
+    fireEvent.click(screen.getByLabelText('nextBranch'));
+
+    expect(onSwitch).toHaveBeenNthCalledWith(1, 2);
+    expect(onSwitch).toHaveBeenNthCalledWith(2, 6);
+  });
+
+  it('should disable the buttons at the ends', () => {
+    render(<BranchSwitcher messageId={2} siblingIds={[2, 4]} onSwitch={jest.fn()} />);
+
+    expect(screen.getByLabelText('previousBranch')).toBeDisabled();
+    expect(screen.getByLabelText('nextBranch')).not.toBeDisabled();
+  });
+
+  it('should disable the buttons when disabled', () => {
+    render(<BranchSwitcher messageId={4} siblingIds={[2, 4, 6]} disabled onSwitch={jest.fn()} />);
+
+    expect(screen.getByLabelText('previousBranch')).toBeDisabled();
+    expect(screen.getByLabelText('nextBranch')).toBeDisabled();
+  });
+});
@@ -0,0 +1,47 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+interface BranchSwitcherProps {
+  messageId: number;
+  siblingIds: number[];
+  disabled?: boolean;
+  onSwitch: (messageId: number) => void;
+}
+
+/**
+ * Flips between the alternative versions of a message ("2 / 3")
+ */
+const BranchSwitcher = ({ messageId, siblingIds, disabled, onSwitch }: BranchSwitcherProps) => {
+  const { t } = useTranslation();
+  const index = siblingIds.indexOf(messageId);
+
+  if (siblingIds.length < 2 || index === -1) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-slate-300">
+      <button
+        type="button"
+        aria-label={t('previousBranch')}
+        className="rounded p-1 hover:bg-slate-700 disabled:opacity-40"
+        disabled={disabled || index === 0}
+        onClick={() => onSwitch(siblingIds[index - 1])}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <span>
+        {index + 1} / {siblingIds.length}
+      </span>
+      <button
+        type="button"
+        aria-label={t('nextBranch')}
+        className="rounded p-1 hover:bg-slate-700 disabled:opacity-40"
+        disabled={disabled || index === siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[index + 1])}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,197 @@
+import {
+  COMPOSER_MAX_HEIGHT,
+  INITIAL_HISTORY_STATE,
+  addToHistory,
+  browseHistory,
+  findModel,
+  getCommandSuggestions,
+  isCaretOnFirstLine,
+  isCaretOnLastLine,
+  loadDraft,
+  parseSlashCommand,
+  resizeComposer,
+  saveDraft,
+  setDraftsKept,
+} from './ChatComposer.helpers';
+
+describe('ChatComposer.helpers', () => {
+  describe('parseSlashCommand', () => {
+    it('should read the command and its arguments', () => {
+      expect(parseSlashCommand('/rename Trip plans')).toEqual({ name: 'rename', args: 'Trip plans' });
+      expect(parseSlashCommand('  /clear  ')).toEqual({ name: 'clear', args: '' });
+      expect(parseSlashCommand('/EXPORT json')).toEqual({ name: 'export', args: 'json' });
+    });
+
+    it('should keep the new lines of multiline arguments', () => {
+      expect(parseSlashCommand('/system Be brief.\nAnswer in French.')).toEqual({
+        name: 'system',
+        args: 'Be brief.\nAnswer in French.',
+      });
+    });
+
+    it('should not read messages or unknown commands as commands', () => {
+      expect(parseSlashCommand('Hello')).toBeNull();
+      expect(parseSlashCommand('/usr/bin is missing')).toBeNull();
+      expect(parseSlashCommand('/shrug')).toBeNull();
+      expect(parseSlashCommand('What does /rename do?')).toBeNull();
+    });
+  });
+
+  describe('getCommandSuggestions', () => {
+    it('should list the commands starting with what was typed', () => {
+      expect(getCommandSuggestions('/').map((c) => c.name)).toEqual(['rename', 'clear', 'model', 'system', 'export']);
+      expect(getCommandSuggestions('/re').map((c) => c.name)).toEqual(['rename']);
+      expect(getCommandSuggestions('/x')).toEqual([]);
+    });
+
+    it('should stop suggesting once the arguments are typed', () => {
+      expect(getCommandSuggestions('/rename ')).toEqual([]);
+      expect(getCommandSuggestions('Hello /re')).toEqual([]);
+    });
+  });
+
+  describe('browseHistory', () => {
+    const history = ['first', 'second'];
+
+    it('should go back from the draft to the latest input, keeping the draft aside', () => {
+      expect(browseHistory(history, INITIAL_HISTORY_STATE, 'up', 'draft')).toEqual({
+        state: { index: 1, draft: 'draft' },
+        value: 'second',
+      });
+    });
+
+    it('should go back to older inputs and stop at the oldest', () => {
+      const result = browseHistory(history, { index: 1, draft: 'draft' }, 'up', 'second');
+
+      expect(result).toEqual({ state: { index: 0, draft: 'draft' }, value: 'first' });
+      expect(browseHistory(history, result!.state, 'up', 'first')).toBeNull();
+    });
+
+    it('should go forward and restore the draft after the latest input', () => {
+      const result = browseHistory(history, { index: 0, draft: 'draft' }, 'down', 'first');
+
+      expect(result).toEqual({ state: { index: 1, draft: 'draft' }, value: 'second' });
+      expect(browseHistory(history, result!.state, 'down', 'second')).toEqual({
+        state: INITIAL_HISTORY_STATE,
+        value: 'draft',
+      });
+    });
+
+    it('should do nothing without history or when not browsing', () => {
+      expect(browseHistory([], INITIAL_HISTORY_STATE, 'up', '')).toBeNull();
+      expect(browseHistory(history, INITIAL_HISTORY_STATE, 'down', '')).toBeNull();
+    });
+  });
+
+  describe('addToHistory', () => {
+    it('should add sent inputs and skip repeats and blank ones', () => {
+      const history = addToHistory(['first'], 'second');
+
+      expect(history).toEqual(['first', 'second']);
+      expect(addToHistory(history, 'second')).toBe(history);
+      expect(addToHistory(history, '  ')).toBe(history);
+      expect(addToHistory(history, 'first')).toEqual(['first', 'second', 'first']);
+    });
+  });
+
+  describe('caret position', () => {
+    it('should tell whether the caret is on the first line', () => {
+      expect(isCaretOnFirstLine('one\ntwo', 2)).toBe(true);
+      expect(isCaretOnFirstLine('one\ntwo', 5)).toBe(false);
+    });
+
+    it('should tell whether the caret is on the last line', () => {
+      expect(isCaretOnLastLine('one\ntwo', 5)).toBe(true);
+      expect(isCaretOnLastLine('one\ntwo', 2)).toBe(false);
+    });
+  });
+
+  describe('drafts', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should store the draft of each chat', () => {
+      saveDraft(1, 'Half written');
+      saveDraft(2, 'Other chat');
+
+      expect(loadDraft(1)).toBe('Half written');
+      expect(loadDraft(2)).toBe('Other chat');
+      expect(loadDraft(3)).toBe('');
+    });
+
+    it('should forget empty drafts', () => {
+      saveDraft(1, 'Half written');
+      saveDraft(1, '  ');
+
+      expect(localStorage.getItem('chatDraft:1')).toBeNull();
+    });
+
+    it('should forget the drafts and keep no new ones while the history is encrypted', () => {
+      saveDraft(1, 'Half written');
+      localStorage.setItem('theme', 'dark');
+
+      setDraftsKept(false);
+      saveDraft(2, 'Other chat');
+
+      expect(loadDraft(1)).toBe('');
+      expect(loadDraft(2)).toBe('');
+      expect(localStorage.getItem('theme')).toBe('dark');
+
+      setDraftsKept(true);
+      saveDraft(2, 'Other chat');
+
+      expect(loadDraft(2)).toBe('Other chat');
+    });
+
+    it('should not throw when the storage is unavailable', () => {
+      const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(() => saveDraft(1, 'Half written')).not.toThrow();
+      setItem.mockRestore();
+    });
+  });
+
+  describe('resizeComposer', () => {
+    it('should grow with the content up to the maximum height', () => {
+      const element = document.createElement('textarea');
+      Object.defineProperty(element, 'scrollHeight', { value: 80, configurable: true });
+
+      resizeComposer(element);
+      expect(element.style.height).toBe('80px');
+
+      Object.defineProperty(element, 'scrollHeight', { value: 1000, configurable: true });
+      resizeComposer(element);
+      expect(element.style.height).toBe(`${COMPOSER_MAX_HEIGHT}px`);
+    });
+
+    it('should handle a missing element', () => {
+      expect(() => resizeComposer(null)).not.toThrow();
+    });
+  });
+
+  describe('findModel', () => {
+    const models = [
+      { id: 'llama-3.2-1b', name: 'Llama 3.2 1B', filename: 'llama-3.2-1b.gguf', path: '/models/llama-3.2-1b.gguf' },
+      { id: 'llama-3.2-3b', name: 'Llama 3.2 3B', filename: 'llama-3.2-3b.gguf', path: '/models/llama-3.2-3b.gguf' },
+      { id: 'qwen', name: 'Qwen 2.5', filename: 'qwen2.5.gguf', path: '/models/qwen2.5.gguf' },
+    ];
+
+    it('should find a model by id, name or file name', () => {
+      expect(findModel(models, 'llama-3.2-3b')).toBe(models[1]);
+      expect(findModel(models, 'llama 3.2 1b')).toBe(models[0]);
+      expect(findModel(models, 'qwen2.5.gguf')).toBe(models[2]);
+    });
+
+    it('should find the only model whose name contains the query', () => {
+      expect(findModel(models, 'qwen 2')).toBe(models[2]);
+    });
+
+    it('should not guess between several matching models', () => {
+      expect(findModel(models, 'llama')).toBeNull();
+      expect(findModel(models, '')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Helper functions for the chat composer: slash commands, input history and drafts
+ */
+
+export type SlashCommandName = 'rename' | 'clear' | 'model' | 'system' | 'export';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  usage: string;
+  description: string; // i18n key
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'rename', usage: '/rename <name>', description: 'commands.rename' },
+  { name: 'clear', usage: '/clear', description: 'commands.clear' },
+  { name: 'model', usage: '/model [name]', description: 'commands.model' },
+  { name: 'system', usage: '/system [prompt]', description: 'commands.system' },
+  { name: 'export', usage: '/export [markdown|json|html]', description: 'commands.export' },
+];
+
+export interface ParsedSlashCommand {
+  name: SlashCommandName;
+  args: string;
+}
+
+/**
+ * Reads a slash command typed in the composer, e.g. "/rename Trip plans".
+ * Anything else, unknown commands included, is sent as a message.
+ */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = /^\/(\w+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  if (!match) return null;
+
+  const command = SLASH_COMMANDS.find((c) => c.name === match[1].toLowerCase());
+  return command ? { name: command.name, args: (match[2] ?? '').trim() } : null;
+}
+
+/**
+ * Lists the commands starting with what was typed after the slash, while the command name is being typed
+ */
+export function getCommandSuggestions(input: string): SlashCommand[] {
+  if (!/^\/\w*$/.test(input)) return [];
+
+  const prefix = input.slice(1).toLowerCase();
+  return SLASH_COMMANDS.filter((c) => c.name.startsWith(prefix));
+}
+
+/**
+ * Position in the input history: null while editing the draft, otherwise the entry shown.
+ * The draft is kept aside while older entries are browsed.
+ */
+export interface HistoryState {
+  index: number | null;
+  draft: string;
+}
+
+export const INITIAL_HISTORY_STATE: HistoryState = { index: null, draft: '' };
+
+/**
+ * Moves through the input history, oldest entry first.
+ * Returns null when there is nothing to move to, so the key keeps its default behavior.
+ */
+export function browseHistory(
+  history: string[],
+  state: HistoryState,
+  direction: 'up' | 'down',
+  value: string
+): { state: HistoryState; value: string } | null {
+  if (direction === 'up') {
+    if (history.length === 0 || state.index === 0) return null;
+
+    const index = state.index === null ? history.length - 1 : state.index - 1;
+    const draft = state.index === null ? value : state.draft;
+    return { state: { index, draft }, value: history[index] };
+  }
+
+  if (state.index === null) return null;
+
+  if (state.index >= history.length - 1) {
+    return { state: INITIAL_HISTORY_STATE, value: state.draft };
+  }
+  const index = state.index + 1;
+  return { state: { index, draft: state.draft }, value: history[index] };
+}
+
+/**
+ * Adds a sent input to the history, skipping repeats of the last entry
+ */
+export function addToHistory(history: string[], entry: string): string[] {
+  if (!entry.trim() || history[history.length - 1] === entry) return history;
+  return [...history, entry];
+}
+
+/**
+ * Whether the caret is on the first line, where the up arrow browses the history instead of moving up
+ */
+export function isCaretOnFirstLine(value: string, caret: number): boolean {
+  return !value.slice(0, caret).includes('\n');
+}
+
+/**
+ * Whether the caret is on the last line, where the down arrow browses the history instead of moving down
+ */
+export function isCaretOnLastLine(value: string, caret: number): boolean {
+  return !value.slice(caret).includes('\n');
+}
+
+const DRAFT_KEY_PREFIX = 'chatDraft:';
+
+// localStorage is written in clear on disk, so drafts are not kept while the chat history is encrypted
+let draftsKept = true;
+
+/**
+ * Keeps drafts or stops keeping them, forgetting the stored ones
+ */
+export function setDraftsKept(kept: boolean): void {
+  draftsKept = kept;
+  if (kept) return;
+
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(DRAFT_KEY_PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch {
+    // Storage may be disabled, then no draft was stored either
+  }
+}
+
+/**
+ * Reads the unsent text of a chat, kept while navigating between chats and pages
+ */
+export function loadDraft(chatId: number): string {
+  try {
+    return localStorage.getItem(`${DRAFT_KEY_PREFIX}${chatId}`) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Stores the unsent text of a chat, or forgets it once empty
+ */
+export function saveDraft(chatId: number, draft: string): void {
+  try {
+    if (draftsKept && draft.trim()) {
+      localStorage.setItem(`${DRAFT_KEY_PREFIX}${chatId}`, draft);
+    } else {
+      localStorage.removeItem(`${DRAFT_KEY_PREFIX}${chatId}`);
+    }
+  } catch {
+    // Storage may be full or disabled, the draft is only lost on navigation
+  }
+}
+
+// Height in pixels the composer grows to before scrolling
+export const COMPOSER_MAX_HEIGHT = 240;
+
+/**
+ * Grows the composer with its content, up to COMPOSER_MAX_HEIGHT
+ */
+export function resizeComposer(element: HTMLTextAreaElement | null): void {
+  if (!element) return;
+
+  element.style.height = 'auto';
+  element.style.height = `${Math.min(element.scrollHeight, COMPOSER_MAX_HEIGHT)}px`;
+}
+
+interface InstalledModel {
+  id: string;
+  name: string;
+  filename: string;
+  path?: string;
+}
+
+/**
+ * Finds the installed model named in a /model command: an exact id, name or file name,
+ * otherwise the only model whose name contains the query
+ */
+export function findModel<T extends InstalledModel>(models: T[], query: string): T | null {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const exact = models.find((model) =>
+    [model.id, model.name, model.filename].some((value) => value.toLowerCase() === normalized)
+  );
+  if (exact) return exact;
+
+  const partial = models.filter((model) =>
+    model.name.toLowerCase().includes(normalized) || model.filename.toLowerCase().includes(normalized)
+  );
+  return partial.length === 1 ? partial[0] : null;
+}
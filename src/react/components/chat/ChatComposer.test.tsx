@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ChatComposer from './ChatComposer';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+// Keeps the value like ChatInterface does
+const Composer = ({ history = [], onSend = jest.fn(), initialValue = '' }: { history?: string[]; onSend?: (value: string) => void; initialValue?: string }) => {
+  const [value, setValue] = useState(initialValue);
+  return <ChatComposer value={value} onChange={setValue} onSend={onSend} history={history} placeholder="composerPlaceholder" />;
+};
+
+const getComposer = () => screen.getByPlaceholderText('composerPlaceholder') as HTMLTextAreaElement;
+
+describe('ChatComposer', () => {
+  it('should render a multiline composer', () => {
+    render(<Composer />);
+
+    expect(getComposer().tagName).toBe('TEXTAREA');
+    expect(getComposer()).toHaveAttribute('id', 'chat-input-field');
+  });
+
+  it('should send on Enter', () => {
+    const onSend = jest.fn();
+    render(<Composer onSend={onSend} initialValue="Hello" />);
+
+    fireEvent.keyDown(getComposer(), { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith('Hello');
+  });
+
+  it('should not send on Shift+Enter', () => {
+    const onSend = jest.fn();
+    render(<Composer onSend={onSend} initialValue="Hello" />);
+
+    fireEvent.keyDown(getComposer(), { key: 'Enter', shiftKey: true });
+
+    expect(onSend).not.toHaveBeenCalled();
+  });
+
+  it('should browse the input history with the arrows and restore the draft', () => {
+    render(<Composer history={['first', 'second']} initialValue="draft" />);
+    const composer = getComposer();
+    composer.setSelectionRange(0, 0);
+
+    fireEvent.keyDown(composer, { key: 'ArrowUp' });
+    expect(composer.value).toBe('second');
+
+    fireEvent.keyDown(composer, { key: 'ArrowUp' });
+    expect(composer.value).toBe('first');
+
+    composer.setSelectionRange(composer.value.length, composer.value.length);
+    fireEvent.keyDown(composer, { key: 'ArrowDown' });
+    expect(composer.value).toBe('second');
+
+    composer.setSelectionRange(composer.value.length, composer.value.length);
+    fireEvent.keyDown(composer, { key: 'ArrowDown' });
+    expect(composer.value).toBe('draft');
+  });
+
+  it('should move the caret instead of browsing when it is not on the first line', () => {
+    render(<Composer history={['first']} initialValue={'one\ntwo'} />);
+    const composer = getComposer();
+    composer.setSelectionRange(6, 6);
+
+    fireEvent.keyDown(composer, { key: 'ArrowUp' });
+
+    expect(composer.value).toBe('one\ntwo');
+  });
+
+  it('should suggest slash commands and complete them with Tab', () => {
+    render(<Composer />);
+    const composer = getComposer();
+
+    fireEvent.change(composer, { target: { value: '/re' } });
+
+    expect(screen.getByText('/rename <name>')).toBeInTheDocument();
+    expect(screen.getByText('commands.rename')).toBeInTheDocument();
+    expect(screen.queryByText('/clear')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(composer, { key: 'Tab' });
+
+    expect(composer.value).toBe('/rename ');
+    expect(document.getElementById('chat-command-suggestions')).toBeNull();
+  });
+
+  it('should complete a clicked suggestion', () => {
+    render(<Composer />);
+    fireEvent.change(getComposer(), { target: { value: '/' } });
+
+    fireEvent.click(screen.getByText('/export [markdown|json|html]'));
+
+    expect(getComposer().value).toBe('/export ');
+  });
+});
@@ -0,0 +1,117 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { handleKeyDown } from './ChatInterface.helpers';
+import {
+  HistoryState,
+  INITIAL_HISTORY_STATE,
+  browseHistory,
+  getCommandSuggestions,
+  isCaretOnFirstLine,
+  isCaretOnLastLine,
+  resizeComposer,
+} from './ChatComposer.helpers';
+
+interface ChatComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSend: (value: string) => void;
+  history: string[]; // Inputs sent in this chat, oldest first
+  disabled?: boolean;
+  placeholder?: string;
+  inputRef?: React.RefObject<HTMLTextAreaElement | null>;
+}
+
+/**
+ * Auto-growing message input. Enter sends, Shift+Enter starts a new line, the arrows
+ * browse the inputs sent before and typing "/" suggests the slash commands.
+ */
+const ChatComposer = ({ value, onChange, onSend, history, disabled, placeholder, inputRef }: ChatComposerProps) => {
+  const { t } = useTranslation();
+  const localRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = inputRef ?? localRef;
+  const [historyState, setHistoryState] = useState<HistoryState>(INITIAL_HISTORY_STATE);
+  const suggestions = getCommandSuggestions(value);
+
+  useLayoutEffect(() => {
+    resizeComposer(textareaRef.current);
+  }, [value]);
+
+  const handleChange = (newValue: string) => {
+    // Editing a recalled input makes it the draft
+    setHistoryState(INITIAL_HISTORY_STATE);
+    onChange(newValue);
+  };
+
+  const handleSend = (message: string) => {
+    setHistoryState(INITIAL_HISTORY_STATE);
+    onSend(message);
+  };
+
+  const completeCommand = (name: string) => {
+    handleChange(`/${name} `);
+    textareaRef.current?.focus();
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault();
+      completeCommand(suggestions[0].name);
+      return;
+    }
+
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const noSelection = selectionStart === selectionEnd && !e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey;
+    const direction =
+      e.key === 'ArrowUp' && noSelection && isCaretOnFirstLine(value, selectionStart) ? 'up'
+        : e.key === 'ArrowDown' && noSelection && isCaretOnLastLine(value, selectionEnd) ? 'down'
+          : null;
+    if (direction) {
+      const result = browseHistory(history, historyState, direction, value);
+      if (result) {
+        e.preventDefault();
+        setHistoryState(result.state);
+        onChange(result.value);
+      }
+      return;
+    }
+
+    handleKeyDown(e, value, handleSend);
+  };
+
+  return (
+    <div className="relative mr-3 flex-1">
+      {suggestions.length > 0 && (
+        <ul
+          id="chat-command-suggestions"
+          className="absolute bottom-full left-0 mb-4 w-full overflow-hidden rounded-xl border border-slate-600 bg-slate-800 shadow-lg"
+        >
+          {suggestions.map((command) => (
+            <li key={command.name}>
+              <button
+                type="button"
+                className="flex w-full items-baseline gap-3 px-4 py-2 text-left hover:bg-slate-700"
+                onClick={() => completeCommand(command.name)}
+              >
+                <span className="font-mono text-sm text-slate-100">{command.usage}</span>
+                <span className="text-xs text-slate-400">{t(command.description)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        id="chat-input-field"
+        ref={textareaRef}
+        rows={1}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={placeholder}
+        className="block w-full resize-none bg-slate-800 px-6 py-4 text-base outline-none placeholder:text-slate-400 text-slate-100"
+        disabled={disabled}
+        onKeyDown={handleComposerKeyDown}
+      />
+    </div>
+  );
+};
+
+export default ChatComposer;
@@ -8,12 +8,34 @@ import {
   getMessageCardClasses,
   getMessageContainerClasses,
   updateStreamingMessage,
+  getMessageStats,
+  formatGenerationStats,
+  markMessageInterrupted,
+  toChatMessages,
+  getSummarizedMessageCount,
+  formatFileSize,
+  addAttachments,
+  toAttachmentSummaries,
+  parseToolCall,
+  parseSources,
+  setMessageSources,
+  insertToolMessage,
+  formatToolParams,
   canSendMessage,
   scrollToBottom,
+  scrollToMessage,
   focusInput,
   markdownComponents,
 } from './ChatInterface.helpers';
 
+// Mock the code block, tested on its own
+jest.mock('./CodeBlock', () => ({
+  __esModule: true,
+  default: ({ language, code, children }: { language: string | null; code: string; children?: React.ReactNode }) => (
+    <div data-testid="code-block" data-language={language ?? ''} data-code={code}>{children}</div>
+  ),
+}));
+
 describe('ChatInterface.helpers', () => {
   describe('handleKeyDown', () => {
     beforeEach(() => {
@@ -32,7 +54,8 @@ describe('ChatInterface.helpers', () => {
       const mockOnSend = jest.fn();
       const mockEvent = {
         key: 'Enter',
-      } as React.KeyboardEvent<HTMLInputElement>;
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
 
       handleKeyDown(mockEvent, 'Hello', mockOnSend);
 
@@ -48,7 +71,8 @@ describe('ChatInterface.helpers', () => {
       const mockOnSend = jest.fn();
       const mockEvent = {
         key: 'Enter',
-      } as React.KeyboardEvent<HTMLInputElement>;
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
 
       handleKeyDown(mockEvent, '', mockOnSend);
 
@@ -59,7 +83,8 @@ describe('ChatInterface.helpers', () => {
       const mockOnSend = jest.fn();
       const mockEvent = {
         key: 'Enter',
-      } as React.KeyboardEvent<HTMLInputElement>;
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
 
       handleKeyDown(mockEvent, '   ', mockOnSend);
 
@@ -70,7 +95,8 @@ describe('ChatInterface.helpers', () => {
       const mockOnSend = jest.fn();
       const mockEvent = {
         key: 'a',
-      } as React.KeyboardEvent<HTMLInputElement>;
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
 
       handleKeyDown(mockEvent, 'Hello', mockOnSend);
 
@@ -82,7 +108,8 @@ describe('ChatInterface.helpers', () => {
       const mockOnSend = jest.fn();
       const mockEvent = {
         key: 'Enter',
-      } as React.KeyboardEvent<HTMLInputElement>;
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
 
       handleKeyDown(mockEvent, 'Hello', mockOnSend);
 
@@ -93,6 +120,44 @@ describe('ChatInterface.helpers', () => {
 
       expect(document.getElementById).toHaveBeenCalledWith('chat-input-field');
     });
+
+    it('should not add a new line when Enter sends the message', () => {
+      const mockEvent = {
+        key: 'Enter',
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+
+      handleKeyDown(mockEvent, '', jest.fn());
+
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+    });
+
+    it('should start a new line when Shift+Enter is pressed', () => {
+      const mockOnSend = jest.fn();
+      const mockEvent = {
+        key: 'Enter',
+        shiftKey: true,
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+
+      handleKeyDown(mockEvent, 'Hello', mockOnSend);
+
+      expect(mockOnSend).not.toHaveBeenCalled();
+      expect(mockEvent.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it('should not send while an input method is composing', () => {
+      const mockOnSend = jest.fn();
+      const mockEvent = {
+        key: 'Enter',
+        nativeEvent: { isComposing: true },
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+
+      handleKeyDown(mockEvent, 'Hello', mockOnSend);
+
+      expect(mockOnSend).not.toHaveBeenCalled();
+    });
   });
 
   describe('handleSendClick', () => {
@@ -199,6 +264,13 @@ describe('ChatInterface.helpers', () => {
       expect(result).toContain('border-slate-400');
       expect(result).toContain('w-3/4');
     });
+
+    it('should return compact classes for tool messages', () => {
+      const result = getMessageCardClasses('tool');
+
+      expect(result).toContain('border-dashed');
+      expect(result).not.toContain('p-6');
+    });
   });
 
   describe('getMessageContainerClasses', () => {
@@ -215,16 +287,234 @@ describe('ChatInterface.helpers', () => {
       expect(result).toContain('flex');
       expect(result).toContain('justify-end');
     });
+
+    it('should align tool messages with the assistant', () => {
+      expect(getMessageContainerClasses('tool')).toContain('justify-start');
+    });
+  });
+
+  describe('toChatMessages', () => {
+    it('should map stored messages to display messages', () => {
+      const result = toChatMessages([
+        { id: 1, content: 'Hello', role: 'user', siblingIds: [1, 3] },
+        { id: 2, content: 'Hi', role: 'assistant', interrupted: true, siblingIds: [2] },
+      ]);
+
+      expect(result).toEqual([
+        { author: 'user', message: 'Hello', id: 1, interrupted: undefined, siblingIds: [1, 3] },
+        { author: 'assistant', message: 'Hi', id: 2, interrupted: true, siblingIds: [2] },
+      ]);
+    });
+
+    it('should parse the tool call of tool messages', () => {
+      const toolCall = { name: 'get_current_time', params: {}, status: 'completed' };
+
+      const [result] = toChatMessages([
+        { id: 3, content: '"noon"', role: 'tool', siblingIds: [3], toolCall: JSON.stringify(toolCall) },
+      ]);
+
+      expect(result).toEqual({ author: 'tool', message: '"noon"', id: 3, interrupted: undefined, siblingIds: [3], toolCall });
+    });
+
+    it('should keep the generation stats of replies', () => {
+      const [result] = toChatMessages([
+        { id: 2, content: 'Hi', role: 'assistant', siblingIds: [2], promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: 200, tokensPerSecond: 30 },
+      ]);
+
+      expect(result.stats).toEqual({ promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: 200, tokensPerSecond: 30 });
+    });
+
+    it('should keep the attachments of user messages', () => {
+      const attachments = [{ id: 4, name: 'notes.md', kind: 'markdown' as const, size: 12 }];
+
+      const [withFiles, withoutFiles] = toChatMessages([
+        { id: 1, content: 'Summarize', role: 'user', siblingIds: [1], attachments },
+        { id: 3, content: 'Thanks', role: 'user', siblingIds: [3], attachments: [] },
+      ]);
+
+      expect(withFiles.attachments).toEqual(attachments);
+      expect(withoutFiles).not.toHaveProperty('attachments');
+    });
+
+    it('should parse the knowledge base sources of replies', () => {
+      const sources = [{ index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 }];
+
+      const [withSources, withoutSources] = toChatMessages([
+        { id: 2, content: 'Run setup.exe [1]', role: 'assistant', siblingIds: [2], sources: JSON.stringify(sources) },
+        { id: 4, content: 'Hi', role: 'assistant', siblingIds: [4], sources: null },
+      ]);
+
+      expect(withSources.sources).toEqual(sources);
+      expect(withoutSources).not.toHaveProperty('sources');
+    });
+
+    it('should keep the summaries of the conversation', () => {
+      const [summarized, notSummarized] = toChatMessages([
+        { id: 2, content: 'Sure', role: 'assistant', siblingIds: [2], summary: 'Trip to Lyon' },
+        { id: 3, content: 'Thanks', role: 'user', siblingIds: [3], summary: null },
+      ]);
+
+      expect(summarized.summary).toBe('Trip to Lyon');
+      expect(notSummarized).not.toHaveProperty('summary');
+    });
+  });
+
+  describe('getSummarizedMessageCount', () => {
+    it('should count the messages covered by the latest summary', () => {
+      expect(getSummarizedMessageCount([
+        { author: 'user', message: 'Hello' },
+        { author: 'assistant', message: 'Hi', summary: 'Greetings' },
+        { author: 'user', message: 'Trip to Lyon?' },
+        { author: 'assistant', message: 'Sure', summary: 'Greetings, trip to Lyon' },
+        { author: 'user', message: 'Thanks' },
+      ])).toBe(4);
+    });
+
+    it('should return 0 when the branch was never summarized', () => {
+      expect(getSummarizedMessageCount([{ author: 'user', message: 'Hello' }])).toBe(0);
+      expect(getSummarizedMessageCount([])).toBe(0);
+    });
+  });
+
+  describe('sources', () => {
+    const source = { index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 };
+
+    it('should parse stored sources', () => {
+      expect(parseSources(JSON.stringify([source]))).toEqual([source]);
+    });
+
+    it('should return no sources when they are missing or malformed', () => {
+      expect(parseSources(null)).toEqual([]);
+      expect(parseSources(undefined)).toEqual([]);
+      expect(parseSources('{oops')).toEqual([]);
+      expect(parseSources('{"path":"/docs/guide.md"}')).toEqual([]);
+      expect(parseSources('[{"name":"guide.md"}]')).toEqual([]);
+    });
+
+    it('should set the sources of an answered reply', () => {
+      const messages = [
+        { author: 'user' as const, message: 'How do I install it?', id: 1 },
+        { author: 'assistant' as const, message: 'Run setup.exe [1]', id: 2 },
+      ];
+
+      const result = setMessageSources(messages, { id: 2, content: 'Run setup.exe [1]', role: 'assistant', sources: JSON.stringify([source]) });
+
+      expect(result[0]).toBe(messages[0]);
+      expect(result[1].sources).toEqual([source]);
+    });
+
+    it('should leave the messages unchanged for a reply without sources', () => {
+      const messages = [{ author: 'assistant' as const, message: 'Hi', id: 2 }];
+
+      expect(setMessageSources(messages, { id: 2, content: 'Hi', role: 'assistant', sources: null })).toBe(messages);
+    });
+  });
+
+  describe('attachments', () => {
+    const draft = (name: string, content = 'text') => ({ name, kind: 'text' as const, size: content.length, content });
+
+    it('should format file sizes', () => {
+      expect(formatFileSize(512)).toBe('512 B');
+      expect(formatFileSize(1536)).toBe('1.5 KB');
+      expect(formatFileSize(2 * 1024 * 1024)).toBe('2.0 MB');
+    });
+
+    it('should add new files and skip the ones already attached', () => {
+      const current = [draft('a.txt')];
+
+      expect(addAttachments(current, [draft('a.txt'), draft('a.txt', 'other'), draft('b.txt')])).toEqual([
+        draft('a.txt'),
+        draft('a.txt', 'other'),
+        draft('b.txt'),
+      ]);
+      expect(current).toHaveLength(1);
+    });
+
+    it('should drop the text of attachments for display', () => {
+      expect(toAttachmentSummaries([draft('a.txt')])).toEqual([{ name: 'a.txt', kind: 'text', size: 4 }]);
+    });
+  });
+
+  describe('parseToolCall', () => {
+    it('should parse a stored tool call', () => {
+      expect(parseToolCall('{"name":"search_chats","params":{"query":"flour"},"status":"denied"}')).toEqual({
+        name: 'search_chats',
+        params: { query: 'flour' },
+        status: 'denied',
+      });
+    });
+
+    it('should return null for missing or malformed tool calls', () => {
+      expect(parseToolCall(null)).toBeNull();
+      expect(parseToolCall(undefined)).toBeNull();
+      expect(parseToolCall('{oops')).toBeNull();
+      expect(parseToolCall('{"params":{}}')).toBeNull();
+    });
+  });
+
+  describe('insertToolMessage', () => {
+    const record = {
+      id: 5,
+      content: '"noon"',
+      role: 'tool' as const,
+      toolCall: '{"name":"get_current_time","params":{},"status":"completed"}',
+    };
+
+    it('should insert the tool message before its reply', () => {
+      const messages = [
+        { author: 'user' as const, message: 'What time is it?', id: 1 },
+        { author: 'assistant' as const, message: 'Let me check', id: 2 },
+      ];
+
+      const result = insertToolMessage(messages, 2, record);
+
+      expect(result.map((m) => m.id)).toEqual([1, 5, 2]);
+      expect(result[1]).toEqual(expect.objectContaining({ author: 'tool', toolCall: expect.objectContaining({ name: 'get_current_time' }) }));
+    });
+
+    it('should append the tool message when the reply is not shown yet', () => {
+      const messages = [{ author: 'user' as const, message: 'What time is it?', id: 1 }];
+
+      expect(insertToolMessage(messages, 2, record).map((m) => m.id)).toEqual([1, 5]);
+    });
+  });
+
+  describe('formatToolParams', () => {
+    it('should pretty-print params', () => {
+      expect(formatToolParams({ query: 'flour' })).toBe('{\n  "query": "flour"\n}');
+    });
+
+    it('should show missing params as an empty object', () => {
+      expect(formatToolParams(undefined)).toBe('{}');
+    });
+  });
+
+  describe('markMessageInterrupted', () => {
+    it('should flag only the matching message', () => {
+      const messages = [
+        { author: 'user' as const, message: 'Hello', id: 1 },
+        { author: 'assistant' as const, message: 'Partial', id: 2 },
+      ];
+
+      const result = markMessageInterrupted(messages, 2);
+
+      expect(result[0]).toEqual(messages[0]);
+      expect(result[1]).toEqual({ author: 'assistant', message: 'Partial', id: 2, interrupted: true });
+      expect(messages[1]).not.toHaveProperty('interrupted');
+    });
   });
 
   describe('updateStreamingMessage', () => {
-    it('should update existing message', () => {
+    const delta = (messageId: number, seq: number, text: string) => ({ chatId: 1, messageId, seq, delta: text, done: false });
+
+    it('should append deltas to an existing message', () => {
       const messages = [
         { author: 'user' as const, message: 'Hello', id: 1 },
-        { author: 'assistant' as const, message: 'Hi', id: 2 },
+        { author: 'assistant' as const, message: '', id: 2 },
       ];
 
-      const result = updateStreamingMessage(messages, 2, 'Hi there!');
+      let result = updateStreamingMessage(messages, delta(2, 0, 'Hi'));
+      result = updateStreamingMessage(result, delta(2, 1, ' there!'));
 
       expect(result[1].message).toBe('Hi there!');
       expect(result).toHaveLength(2);
@@ -235,25 +525,74 @@ describe('ChatInterface.helpers', () => {
         { author: 'user' as const, message: 'Hello', id: 1 },
       ];
 
-      const result = updateStreamingMessage(messages, 2, 'New message');
+      const result = updateStreamingMessage(messages, delta(2, 0, 'New message'));
 
       expect(result).toHaveLength(2);
       expect(result[1]).toEqual({
         author: 'assistant',
         message: 'New message',
         id: 2,
+        stream: { nextSeq: 1, pending: {} },
       });
     });
 
-    it('should handle empty messages array', () => {
-      const result = updateStreamingMessage([], 1, 'First message');
+    it('should put deltas received out of order back in sequence', () => {
+      let result = updateStreamingMessage([], delta(1, 1, ' world'));
+      expect(result[0].message).toBe('');
 
-      expect(result).toHaveLength(1);
-      expect(result[0]).toEqual({
-        author: 'assistant',
-        message: 'First message',
-        id: 1,
+      result = updateStreamingMessage(result, delta(1, 2, '!'));
+      result = updateStreamingMessage(result, delta(1, 0, 'Hello'));
+
+      expect(result[0].message).toBe('Hello world!');
+      expect(result[0].stream).toEqual({ nextSeq: 3, pending: {} });
+    });
+
+    it('should ignore deltas already applied', () => {
+      const messages = updateStreamingMessage([], delta(1, 0, 'Hello'));
+
+      expect(updateStreamingMessage(messages, delta(1, 0, 'Hello'))).toBe(messages);
+    });
+
+    it('should use the full text and the stats of the final event', () => {
+      const stats = { promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: 200, tokensPerSecond: 30 };
+      // The listener missed the first delta
+      const messages = updateStreamingMessage([], delta(1, 1, ' world'));
+
+      const result = updateStreamingMessage(messages, {
+        chatId: 1, messageId: 1, seq: 2, delta: '', done: true, content: 'Hello world', stats,
       });
+
+      expect(result[0]).toEqual({ author: 'assistant', message: 'Hello world', id: 1, stats });
+      expect(result[0].stream).toBeUndefined();
+    });
+  });
+
+  describe('getMessageStats', () => {
+    it('should read the stats stored with a reply', () => {
+      expect(getMessageStats({
+        id: 1, content: 'Hi', role: 'assistant', promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: null, tokensPerSecond: 30,
+      })).toEqual({ promptTokens: 12, completionTokens: 3, timeToFirstTokenMs: null, tokensPerSecond: 30 });
+    });
+
+    it('should return null for messages without stats', () => {
+      expect(getMessageStats({ id: 1, content: 'Hi', role: 'user', promptTokens: null, completionTokens: null })).toBeNull();
+      expect(getMessageStats({ id: 1, content: 'Hi', role: 'user' })).toBeNull();
+    });
+  });
+
+  describe('formatGenerationStats', () => {
+    const t = (key: string, options?: Record<string, unknown>) => `${key} ${JSON.stringify(options)}`;
+
+    it('should format the tokens, the time to first token and the speed', () => {
+      expect(formatGenerationStats({ promptTokens: 12, completionTokens: 48, timeToFirstTokenMs: 350, tokensPerSecond: 24.06 }, t)).toBe(
+        'messageStatsTokens {"prompt":12,"completion":48} · messageStatsFirstToken {"seconds":"0.35"} · messageStatsSpeed {"speed":"24.1"}'
+      );
+    });
+
+    it('should leave out the timing it does not have', () => {
+      expect(formatGenerationStats({ promptTokens: 12, completionTokens: 0, timeToFirstTokenMs: null, tokensPerSecond: null }, t)).toBe(
+        'messageStatsTokens {"prompt":12,"completion":0}'
+      );
     });
   });
 
@@ -297,11 +636,29 @@ describe('ChatInterface.helpers', () => {
     });
   });
 
+  describe('scrollToMessage', () => {
+    it('should scroll the message into view', () => {
+      const container = document.createElement('div');
+      const message = document.createElement('div');
+      message.setAttribute('data-message-id', '7');
+      message.scrollIntoView = jest.fn();
+      container.appendChild(message);
+
+      expect(scrollToMessage(container, 7)).toBe(true);
+      expect(message.scrollIntoView).toHaveBeenCalledWith({ block: 'center' });
+    });
+
+    it('should return false when the message is not rendered', () => {
+      expect(scrollToMessage(document.createElement('div'), 7)).toBe(false);
+      expect(scrollToMessage(null, 7)).toBe(false);
+    });
+  });
+
   describe('focusInput', () => {
     it('should focus input when element is provided', () => {
       const mockElement = {
         focus: jest.fn(),
-      } as unknown as HTMLInputElement;
+      } as unknown as HTMLTextAreaElement;
 
       focusInput(mockElement);
 
@@ -400,5 +757,27 @@ describe('ChatInterface.helpers', () => {
 
       expect(mockWindowOpen).toHaveBeenCalledWith('https://example.com', '_blank', 'noopener,noreferrer');
     });
+
+    it('should render fenced code blocks with the code block component', () => {
+      const PreComponent = markdownComponents.pre;
+      const { getByTestId } = render(
+        <PreComponent>
+          <code className="hljs language-python"><span className="hljs-built_in">print</span>{'(1)\n'}</code>
+        </PreComponent>
+      );
+
+      const block = getByTestId('code-block');
+      expect(block).toHaveAttribute('data-language', 'python');
+      expect(block).toHaveAttribute('data-code', 'print(1)');
+      expect(block.querySelector('.hljs-built_in')).toHaveTextContent('print');
+    });
+
+    it('should render other preformatted content as is', () => {
+      const PreComponent = markdownComponents.pre;
+      const { container, queryByTestId } = render(<PreComponent>Plain text</PreComponent>);
+
+      expect(queryByTestId('code-block')).not.toBeInTheDocument();
+      expect(container.querySelector('pre')).toHaveTextContent('Plain text');
+    });
   });
 });
\ No newline at end of file
@@ -4,11 +4,131 @@
  */
 
 import React from 'react';
+import CodeBlock from './CodeBlock';
+import { getCodeBlockContent } from './CodeBlock.helpers';
+
+export type AttachmentKind = 'text' | 'markdown' | 'code' | 'pdf';
+
+/**
+ * A file attached to a message, shown without its text
+ */
+export interface Attachment {
+  id?: number;
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+}
+
+/**
+ * A file read for the message being written, with the text sent to the model
+ */
+export interface AttachmentDraft extends Attachment {
+  content: string;
+}
+
+/**
+ * Files read by the main process, and the errors of those that could not be attached
+ */
+export interface AttachmentReadResult {
+  attachments: AttachmentDraft[];
+  errors: { name: string; error: string }[];
+}
 
 export interface Message {
-  author: 'user' | 'assistant';
+  author: 'user' | 'assistant' | 'tool';
   message: string;
   id?: number;
+  interrupted?: boolean;
+  siblingIds?: number[];
+  toolCall?: ToolCall | null; // Set on tool messages, whose message is the tool result
+  stats?: GenerationStats | null; // Set on generated replies
+  stream?: StreamState; // Set while the reply is being streamed
+  attachments?: Attachment[]; // Files sent with a user message
+  sources?: KnowledgeSource[]; // Knowledge base excerpts a reply was grounded in
+  summary?: string; // Summary of the conversation up to this message, read by the model instead of it
+}
+
+/**
+ * An excerpt of the knowledge base given to the model, cited in the reply as [index]
+ */
+export interface KnowledgeSource {
+  index: number;
+  path: string;
+  name: string;
+  position: number;
+  content: string;
+  score: number;
+}
+
+/**
+ * Measures of how an assistant reply was generated
+ */
+export interface GenerationStats {
+  promptTokens: number;
+  completionTokens: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+}
+
+/**
+ * Reassembly of a streamed reply: the next delta expected, and those received ahead of it
+ */
+export interface StreamState {
+  nextSeq: number;
+  pending: Record<number, string>;
+}
+
+/**
+ * A piece of a streamed reply. The final event carries the full text and the stats.
+ */
+export interface MessageStreamEvent {
+  chatId: number;
+  messageId: number;
+  seq: number;
+  delta: string;
+  done: boolean;
+  content?: string;
+  stats?: GenerationStats | null;
+}
+
+/**
+ * Stored message as returned by the chat IPC API
+ */
+export interface MessageRecord {
+  id: number;
+  content: string;
+  role: 'user' | 'assistant' | 'tool';
+  interrupted?: boolean;
+  siblingIds?: number[];
+  toolCall?: string | null; // JSON of a ToolCall
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  timeToFirstTokenMs?: number | null;
+  tokensPerSecond?: number | null;
+  attachments?: Attachment[];
+  sources?: string | null; // JSON of the KnowledgeSource list
+  summary?: string | null;
+}
+
+/**
+ * A tool call made by the model, stored with tool messages
+ */
+export interface ToolCall {
+  name: string;
+  params: unknown;
+  status: 'completed' | 'denied' | 'failed';
+}
+
+/**
+ * A tool call the model wants to make, waiting for the user's confirmation
+ */
+export interface ToolCallRequest {
+  chatId: number;
+  messageId: number;
+  callId: string;
+  name: string;
+  description: string;
+  params: unknown;
 }
 
 export interface ChatState {
@@ -20,18 +140,22 @@ export interface ChatState {
 }
 
 /**
- * Handles the key down event for the input field
+ * Handles the key down event for the composer: Enter sends, Shift+Enter starts a new line
  */
 export function handleKeyDown(
-  e: React.KeyboardEvent<HTMLInputElement>,
+  e: React.KeyboardEvent<HTMLTextAreaElement>,
   inputValue: string,
   onSend: (message: string) => void
 ): void {
-  if (e.key === 'Enter' && inputValue.trim()) {
+  // Enter also confirms the characters of input methods, e.g. for Japanese
+  if (e.key !== 'Enter' || e.shiftKey || e.nativeEvent?.isComposing) return;
+
+  e.preventDefault();
+  if (inputValue.trim()) {
     onSend(inputValue);
     //focus the input field
     setTimeout(() => {
-      const inputField = document.getElementById('chat-input-field') as HTMLInputElement;
+      const inputField = document.getElementById('chat-input-field') as HTMLTextAreaElement;
       if (inputField) {
         inputField.focus();
       }
@@ -50,7 +174,7 @@ export function handleSendClick(
     onSend(inputValue);
     //focus the input field
     setTimeout(() => {
-      const inputField = document.getElementById('chat-input-field') as HTMLInputElement;
+      const inputField = document.getElementById('chat-input-field') as HTMLTextAreaElement;
       if (inputField) {
         inputField.focus();
       }
@@ -80,6 +204,10 @@ export function shouldDisplayChatName(chatName: string): boolean {
  * Determines the CSS classes for a message card based on author
  */
 export function getMessageCardClasses(author: string): string {
+  if (author === 'tool') {
+    return 'p-3 border border-dashed rounded-xl bg-slate-900 border-slate-500 w-3/4';
+  }
+
   const baseClasses = 'p-6 border-2 rounded-2xl';
   const authorClasses = author === 'assistant'
     ? 'bg-slate-800 border-slate-400 w-3/4'
@@ -93,41 +221,216 @@ export function getMessageCardClasses(author: string): string {
  */
 export function getMessageContainerClasses(author: string): string {
   const baseClasses = 'flex flex-row w-full pb-4';
-  const alignmentClass = author === 'assistant' ? 'justify-start' : 'justify-end';
+  const alignmentClass = author === 'user' ? 'justify-end' : 'justify-start';
 
   return `${baseClasses} ${alignmentClass}`;
 }
 
 
 /**
- * Updates a streaming message in the messages array
+ * Applies a streamed reply event to the messages array.
+ * Deltas are appended in sequence order, those arriving early wait for the missing ones.
+ * The final event replaces the text with the full reply, in case the start was missed.
  */
 export function updateStreamingMessage(
   messages: Message[],
-  messageId: number,
-  content: string
+  event: MessageStreamEvent
 ): Message[] {
-  const existingIndex = messages.findIndex(m => m.id === messageId);
-
-  if (existingIndex !== -1) {
-    // Update existing message
-    const updatedMessages = [...messages];
-    updatedMessages[existingIndex] = {
-      ...updatedMessages[existingIndex],
-      message: content,
+  const existingIndex = messages.findIndex(m => m.id === event.messageId);
+  const existing: Message = existingIndex !== -1
+    ? messages[existingIndex]
+    : { author: 'assistant', message: '', id: event.messageId };
+
+  let updated: Message;
+  if (event.done) {
+    updated = {
+      ...existing,
+      message: event.content ?? existing.message,
+      stats: event.stats ?? null,
+      stream: undefined,
     };
-    return updatedMessages;
   } else {
+    const stream = existing.stream ?? { nextSeq: 0, pending: {} };
+    if (event.seq < stream.nextSeq) {
+      return messages; // Already applied
+    }
+
+    const pending = { ...stream.pending, [event.seq]: event.delta };
+    let nextSeq = stream.nextSeq;
+    let message = existing.message;
+    while (pending[nextSeq] !== undefined) {
+      message += pending[nextSeq];
+      delete pending[nextSeq];
+      nextSeq++;
+    }
+    updated = { ...existing, message, stream: { nextSeq, pending } };
+  }
+
+  if (existingIndex === -1) {
     // Add new streaming message
-    return [
-      ...messages,
-      {
-        author: 'assistant',
-        message: content,
-        id: messageId,
-      },
-    ];
+    return [...messages, updated];
+  }
+  const updatedMessages = [...messages];
+  updatedMessages[existingIndex] = updated;
+  return updatedMessages;
+}
+
+/**
+ * Reads the generation stats stored with a reply, or null if it has none
+ */
+export function getMessageStats(record: MessageRecord): GenerationStats | null {
+  if (record.promptTokens == null || record.completionTokens == null) return null;
+
+  return {
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    timeToFirstTokenMs: record.timeToFirstTokenMs ?? null,
+    tokensPerSecond: record.tokensPerSecond ?? null,
+  };
+}
+
+/**
+ * Formats generation stats for display, e.g. "12 + 48 tokens · 0.35 s to first token · 24.1 tokens/s"
+ */
+export function formatGenerationStats(
+  stats: GenerationStats,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  const parts = [t('messageStatsTokens', { prompt: stats.promptTokens, completion: stats.completionTokens })];
+  if (stats.timeToFirstTokenMs !== null) {
+    parts.push(t('messageStatsFirstToken', { seconds: (stats.timeToFirstTokenMs / 1000).toFixed(2) }));
+  }
+  if (stats.tokensPerSecond !== null) {
+    parts.push(t('messageStatsSpeed', { speed: stats.tokensPerSecond.toFixed(1) }));
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Converts stored messages of the active branch to messages for display
+ */
+export function toChatMessages(records: MessageRecord[]): Message[] {
+  return records.map((record) => {
+    const stats = getMessageStats(record);
+    const sources = parseSources(record.sources);
+    return {
+      author: record.role,
+      message: record.content,
+      id: record.id,
+      interrupted: record.interrupted,
+      siblingIds: record.siblingIds,
+      ...(record.role === 'tool' ? { toolCall: parseToolCall(record.toolCall) } : {}),
+      ...(stats ? { stats } : {}),
+      ...(record.attachments?.length ? { attachments: record.attachments } : {}),
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(record.summary ? { summary: record.summary } : {}),
+    };
+  });
+}
+
+/**
+ * Number of messages at the start of the branch covered by its latest summary, 0 when it has none
+ */
+export function getSummarizedMessageCount(messages: Message[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].summary) return i + 1;
   }
+  return 0;
+}
+
+/**
+ * Reads the knowledge base sources stored with a reply, or an empty list if they are missing or malformed
+ */
+export function parseSources(json: string | null | undefined): KnowledgeSource[] {
+  if (!json) return [];
+
+  try {
+    const sources = JSON.parse(json);
+    return Array.isArray(sources) ? sources.filter((source) => source && typeof source.path === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Shows the sources of a reply once its generation is done, the stream does not carry them
+ */
+export function setMessageSources(messages: Message[], record: MessageRecord): Message[] {
+  const sources = parseSources(record.sources);
+  if (sources.length === 0) return messages;
+
+  return messages.map(m => (m.id === record.id ? { ...m, sources } : m));
+}
+
+/**
+ * Formats a file size for display, e.g. "512 B", "1.5 KB" or "2.0 MB"
+ */
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Adds newly read files to the pending attachments, skipping files already attached
+ */
+export function addAttachments(current: AttachmentDraft[], added: AttachmentDraft[]): AttachmentDraft[] {
+  const result = [...current];
+  for (const attachment of added) {
+    if (!result.some((a) => a.name === attachment.name && a.size === attachment.size && a.content === attachment.content)) {
+      result.push(attachment);
+    }
+  }
+  return result;
+}
+
+/**
+ * Drops the extracted text of attachments, which the chat does not show
+ */
+export function toAttachmentSummaries(attachments: AttachmentDraft[]): Attachment[] {
+  return attachments.map(({ name, kind, size }) => ({ name, kind, size }));
+}
+
+/**
+ * Reads the tool call stored with a tool message, or null if it is missing or malformed
+ */
+export function parseToolCall(json: string | null | undefined): ToolCall | null {
+  if (!json) return null;
+
+  try {
+    const toolCall = JSON.parse(json);
+    return toolCall && typeof toolCall.name === 'string' ? toolCall : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shows a tool message that was stored while the reply `replyId` was being generated.
+ * Tool calls come before the reply, which may not be displayed yet.
+ */
+export function insertToolMessage(messages: Message[], replyId: number, record: MessageRecord): Message[] {
+  const [toolMessage] = toChatMessages([record]);
+  const replyIndex = messages.findIndex(m => m.id === replyId);
+
+  if (replyIndex === -1) {
+    return [...messages, toolMessage];
+  }
+  return [...messages.slice(0, replyIndex), toolMessage, ...messages.slice(replyIndex)];
+}
+
+/**
+ * Formats tool call params for display
+ */
+export function formatToolParams(params: unknown): string {
+  return JSON.stringify(params ?? {}, null, 2);
+}
+
+/**
+ * Flags a message as interrupted after its generation was stopped
+ */
+export function markMessageInterrupted(messages: Message[], messageId: number): Message[] {
+  return messages.map(m => (m.id === messageId ? { ...m, interrupted: true } : m));
 }
 
 /**
@@ -147,11 +450,25 @@ export function scrollToBottom(element: HTMLDivElement | null): void {
   }
 }
 
+/**
+ * Scrolls the message with the given id into view
+ * @param element - The chat history element containing the messages
+ * @param messageId - The stored id of the message
+ * @returns Whether the message was found
+ */
+export function scrollToMessage(element: HTMLDivElement | null, messageId: number): boolean {
+  const messageElement = element?.querySelector<HTMLElement>(`[data-message-id="${messageId}"]`);
+  if (!messageElement) return false;
+
+  messageElement.scrollIntoView?.({ block: 'center' });
+  return true;
+}
+
 /**
  * Focuses an input element
  * @param element - The input element to focus, or null if not available
  */
-export function focusInput(element: HTMLInputElement | null): void {
+export function focusInput(element: HTMLTextAreaElement | null): void {
   if (element) {
     element.focus();
   }
@@ -189,5 +506,12 @@ export const markdownComponents = {
         {children}
       </a>
     );
+  },
+  pre: ({ children }: { children?: React.ReactNode }) => {
+    // Fenced blocks, highlighted by rehype-highlight, get actions, inline code keeps the default rendering
+    const block = getCodeBlockContent(children);
+    return block
+      ? <CodeBlock language={block.language} code={block.code}>{block.highlighted}</CodeBlock>
+      : <pre>{children}</pre>;
   }
 };
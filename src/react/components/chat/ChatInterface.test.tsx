@@ -31,7 +31,17 @@ jest.mock('../ui/button', () => {
 
 // Mock lucide-react icons
 jest.mock('lucide-react', () => ({
-  Send: () => <span>Send Icon</span>
+  Send: () => <span>Send Icon</span>,
+  Square: () => <span>Stop Icon</span>,
+  Pencil: () => <span>Edit Icon</span>,
+  RefreshCw: () => <span>Regenerate Icon</span>,
+  Wrench: () => <span>Tool Icon</span>,
+  Paperclip: () => <span>Attach Icon</span>,
+  X: () => <span>Remove Icon</span>,
+  FileText: () => <span>File Icon</span>,
+  Library: () => <span>Knowledge Base Icon</span>,
+  BookOpen: () => <span>Source Icon</span>,
+  ScrollText: () => <span>Summary Icon</span>
 }));
 
 // Mock react-markdown
@@ -54,6 +64,11 @@ jest.mock('remark-breaks', () => ({
   default: jest.fn()
 }));
 
+jest.mock('rehype-highlight', () => ({
+  __esModule: true,
+  default: jest.fn()
+}));
+
 // Mock the sidebar components
 jest.mock('../ui/sidebar', () => {
   const React = require('react');
@@ -63,12 +78,42 @@ jest.mock('../ui/sidebar', () => {
   };
 });
 
+// Mock the persona picker
+jest.mock('./PersonaPicker', () => ({
+  __esModule: true,
+  default: ({ chatId, systemPrompt }: { chatId: number | null; systemPrompt: string | null }) => (
+    <div data-testid="persona-picker" data-chat-id={chatId ?? ''}>
+      {systemPrompt}
+    </div>
+  ),
+}));
+
+// Mock the branch switcher
+jest.mock('./BranchSwitcher', () => ({
+  __esModule: true,
+  default: ({ messageId, siblingIds, onSwitch }: { messageId: number; siblingIds: number[]; onSwitch: (id: number) => void }) =>
+    siblingIds.length > 1 ? (
+      <button data-testid={`branch-switcher-${messageId}`} onClick={() => onSwitch(siblingIds[0])}>
+        switch
+      </button>
+    ) : null,
+}));
+
 // Mock window.electronAPI
 const mockChatCreate = jest.fn();
 const mockChatGet = jest.fn();
 const mockChatGetMessages = jest.fn();
 const mockChatSendMessage = jest.fn();
 const mockChatOnMessageStream = jest.fn();
+const mockChatStopGeneration = jest.fn();
+const mockChatRegenerate = jest.fn();
+const mockChatEditMessage = jest.fn();
+const mockChatSwitchBranch = jest.fn();
+const mockChatOnToolCallRequest = jest.fn();
+const mockChatOnToolMessage = jest.fn();
+const mockChatRespondToToolCall = jest.fn();
+const mockChatPickAttachments = jest.fn();
+const mockChatReadAttachments = jest.fn();
 
 beforeAll(() => {
   (global as any).window.electronAPI = {
@@ -77,6 +122,15 @@ beforeAll(() => {
     chatGetMessages: mockChatGetMessages,
     chatSendMessage: mockChatSendMessage,
     chatOnMessageStream: mockChatOnMessageStream,
+    chatStopGeneration: mockChatStopGeneration,
+    chatRegenerate: mockChatRegenerate,
+    chatEditMessage: mockChatEditMessage,
+    chatSwitchBranch: mockChatSwitchBranch,
+    chatOnToolCallRequest: mockChatOnToolCallRequest,
+    chatOnToolMessage: mockChatOnToolMessage,
+    chatRespondToToolCall: mockChatRespondToToolCall,
+    chatPickAttachments: mockChatPickAttachments,
+    chatReadAttachments: mockChatReadAttachments,
   };
 });
 
@@ -89,6 +143,8 @@ describe('ChatInterface', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockChatOnMessageStream.mockReturnValue(() => {});
+    mockChatOnToolCallRequest.mockReturnValue(() => {});
+    mockChatOnToolMessage.mockReturnValue(() => {});
     mockChatGetMessages.mockResolvedValue([]);
   });
 
@@ -157,12 +213,12 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
 
     await waitFor(() => {
-      expect(mockChatSendMessage).toHaveBeenCalledWith(1, 'Hello');
+      expect(mockChatSendMessage).toHaveBeenCalledWith(1, 'Hello', []);
     });
 
     // User message should be visible
@@ -191,15 +247,14 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
-    const buttons = container.querySelectorAll('button');
-    const sendButton = Array.from(buttons).find(btn => !btn.hasAttribute('data-testid')) as HTMLButtonElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+    const sendButton = screen.getByLabelText('sendMessage') as HTMLButtonElement;
 
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.click(sendButton);
 
     await waitFor(() => {
-      expect(mockChatSendMessage).toHaveBeenCalledWith(1, 'Hello');
+      expect(mockChatSendMessage).toHaveBeenCalledWith(1, 'Hello', []);
     });
   });
 
@@ -217,7 +272,7 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.keyDown(input, { key: 'Enter' });
 
     expect(mockChatSendMessage).not.toHaveBeenCalled();
@@ -243,7 +298,7 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
 
@@ -281,7 +336,7 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
 
@@ -321,7 +376,7 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
 
@@ -350,7 +405,7 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
 
@@ -382,13 +437,9 @@ describe('ChatInterface', () => {
       expect(mockChatOnMessageStream).toHaveBeenCalled();
     });
 
-    // Simulate streaming message
-    streamCallback({
-      chatId: 1,
-      messageId: 2,
-      content: 'Streaming...',
-      done: false,
-    });
+    // Simulate streaming deltas
+    streamCallback({ chatId: 1, messageId: 2, seq: 0, delta: 'Streaming', done: false });
+    streamCallback({ chatId: 1, messageId: 2, seq: 1, delta: '...', done: false });
 
     await waitFor(() => {
       expect(screen.getByText('Streaming...')).toBeInTheDocument();
@@ -398,13 +449,17 @@ describe('ChatInterface', () => {
     streamCallback({
       chatId: 1,
       messageId: 2,
-      content: 'Streaming complete',
+      seq: 2,
+      delta: '',
       done: true,
+      content: 'Streaming complete',
+      stats: { promptTokens: 12, completionTokens: 48, timeToFirstTokenMs: 350, tokensPerSecond: 24 },
     });
 
     await waitFor(() => {
       expect(screen.getByText('Streaming complete')).toBeInTheDocument();
     });
+    expect(screen.getByText('messageStatsTokens · messageStatsFirstToken · messageStatsSpeed')).toBeInTheDocument();
   });
 
   it('should ignore streaming messages from other chats', async () => {
@@ -432,7 +487,8 @@ describe('ChatInterface', () => {
     streamCallback({
       chatId: 999,
       messageId: 2,
-      content: 'Other chat message',
+      seq: 0,
+      delta: 'Other chat message',
       done: false,
     });
 
@@ -466,9 +522,8 @@ describe('ChatInterface', () => {
       expect(mockChatCreate).toHaveBeenCalled();
     });
 
-    const input = container.querySelector('input') as HTMLInputElement;
-    const buttons = container.querySelectorAll('button');
-    const sendButton = Array.from(buttons).find(btn => !btn.hasAttribute('data-testid')) as HTMLButtonElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+    const sendButton = screen.getByLabelText('sendMessage') as HTMLButtonElement;
 
     fireEvent.change(input, { target: { value: 'Hello' } });
     fireEvent.keyDown(input, { key: 'Enter' });
@@ -479,13 +534,501 @@ describe('ChatInterface', () => {
     });
   });
 
+  it('should stop generation while streaming', async () => {
+    mockChatCreate.mockResolvedValue({
+      id: 1,
+      name: 'Test Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    mockChatSendMessage.mockReturnValue(new Promise(() => {}));
+    mockChatStopGeneration.mockResolvedValue(true);
+
+    const { container } = renderWithProvider(<ChatInterface />);
+
+    await waitFor(() => {
+      expect(mockChatCreate).toHaveBeenCalled();
+    });
+
+    expect(screen.queryByLabelText('stopGeneration')).not.toBeInTheDocument();
+
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    const stopButton = await screen.findByLabelText('stopGeneration');
+    fireEvent.click(stopButton);
+
+    await waitFor(() => {
+      expect(mockChatStopGeneration).toHaveBeenCalledWith(1);
+    });
+  });
+
+  it('should handle stop generation error', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockChatCreate.mockResolvedValue({
+      id: 1,
+      name: 'Test Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    mockChatSendMessage.mockReturnValue(new Promise(() => {}));
+    mockChatStopGeneration.mockRejectedValue(new Error('Stop failed'));
+
+    const { container } = renderWithProvider(<ChatInterface />);
+
+    await waitFor(() => {
+      expect(mockChatCreate).toHaveBeenCalled();
+    });
+
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    fireEvent.click(await screen.findByLabelText('stopGeneration'));
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to stop generation:', expect.any(Error));
+    });
+    consoleSpy.mockRestore();
+  });
+
+  it('should mark the assistant message as interrupted after stopping', async () => {
+    mockChatCreate.mockResolvedValue({
+      id: 1,
+      name: 'Test Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    let streamCallback: ((data: any) => void) | undefined;
+    mockChatOnMessageStream.mockImplementation((callback) => {
+      streamCallback = callback;
+      return () => {};
+    });
+    mockChatSendMessage.mockImplementation(async () => {
+      streamCallback?.({ chatId: 1, messageId: 2, seq: 0, delta: '', done: true, content: 'Partial', stats: null });
+      return {
+        userMessage: { id: 1, chatId: 1, content: 'Hello', role: 'user', createdAt: new Date() },
+        assistantMessage: { id: 2, chatId: 1, content: 'Partial', role: 'assistant', interrupted: true, createdAt: new Date() },
+        autoNamed: false,
+      };
+    });
+
+    const { container } = renderWithProvider(<ChatInterface />);
+
+    await waitFor(() => {
+      expect(mockChatCreate).toHaveBeenCalled();
+    });
+
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(screen.getByText('Partial')).toBeInTheDocument();
+      expect(screen.getByText('messageInterrupted')).toBeInTheDocument();
+    });
+  });
+
+  it('should show stored interrupted messages', async () => {
+    mockChatGet.mockResolvedValue({
+      id: 5,
+      name: 'Existing Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    mockChatGetMessages.mockResolvedValue([
+      { id: 1, chatId: 5, content: 'Hello', role: 'user', interrupted: false, createdAt: new Date() },
+      { id: 2, chatId: 5, content: 'Cut short', role: 'assistant', interrupted: true, createdAt: new Date() },
+    ]);
+
+    renderWithProvider(<ChatInterface chatId={5} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Cut short')).toBeInTheDocument();
+      expect(screen.getAllByText('messageInterrupted')).toHaveLength(1);
+    });
+  });
+
+  describe('branches', () => {
+    const existingChat = {
+      id: 5,
+      name: 'Existing Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const storedBranch = [
+      { id: 1, chatId: 5, content: 'Hello', role: 'user', interrupted: false, parentId: null, siblingIds: [1], createdAt: new Date() },
+      { id: 2, chatId: 5, content: 'Hi there', role: 'assistant', interrupted: false, parentId: 1, siblingIds: [2], createdAt: new Date() },
+    ];
+
+    it('should regenerate the last assistant message', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValueOnce(storedBranch).mockResolvedValueOnce([
+        storedBranch[0],
+        { ...storedBranch[1], id: 3, content: 'Hello again', siblingIds: [2, 3] },
+      ]);
+      mockChatRegenerate.mockResolvedValue({
+        assistantMessage: { id: 3, chatId: 5, content: 'Hello again', role: 'assistant' },
+        autoNamed: false,
+      });
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hi there')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('regenerate'));
+
+      await waitFor(() => {
+        expect(mockChatRegenerate).toHaveBeenCalledWith(5);
+        expect(screen.getByText('Hello again')).toBeInTheDocument();
+        expect(screen.getByTestId('branch-switcher-3')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Hi there')).not.toBeInTheDocument();
+    });
+
+    it('should handle regenerate error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(storedBranch);
+      mockChatRegenerate.mockRejectedValue(new Error('Regenerate failed'));
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hi there')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('regenerate'));
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to regenerate message:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should edit a user message and resend it', async () => {
+      const onChatNamed = jest.fn();
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValueOnce(storedBranch).mockResolvedValueOnce([
+        { ...storedBranch[0], id: 3, content: 'Hello, edited', siblingIds: [1, 3] },
+        { ...storedBranch[1], id: 4, content: 'Edited reply', parentId: 3 },
+      ]);
+      mockChatEditMessage.mockResolvedValue({
+        userMessage: { id: 3, chatId: 5, content: 'Hello, edited', role: 'user' },
+        assistantMessage: { id: 4, chatId: 5, content: 'Edited reply', role: 'assistant' },
+        autoNamed: true,
+      });
+
+      renderWithProvider(<ChatInterface chatId={5} onChatNamed={onChatNamed} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hello')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('editMessage'));
+
+      const textarea = screen.getByRole('textbox', { name: 'editMessage' });
+      expect(textarea).toHaveValue('Hello');
+      fireEvent.change(textarea, { target: { value: 'Hello, edited' } });
+      fireEvent.click(screen.getByText('saveAndResend'));
+
+      await waitFor(() => {
+        expect(mockChatEditMessage).toHaveBeenCalledWith(5, 1, 'Hello, edited');
+        expect(screen.getByText('Edited reply')).toBeInTheDocument();
+        expect(screen.getByTestId('branch-switcher-3')).toBeInTheDocument();
+        expect(onChatNamed).toHaveBeenCalled();
+      });
+    });
+
+    it('should cancel editing a message', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(storedBranch);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hello')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('editMessage'));
+      fireEvent.click(screen.getByText('cancelEdit'));
+
+      expect(screen.queryByRole('textbox', { name: 'editMessage' })).not.toBeInTheDocument();
+      expect(screen.getByText('Hello')).toBeInTheDocument();
+      expect(mockChatEditMessage).not.toHaveBeenCalled();
+    });
+
+    it('should handle edit error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(storedBranch);
+      mockChatEditMessage.mockRejectedValue(new Error('Edit failed'));
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hello')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('editMessage'));
+      fireEvent.click(screen.getByText('saveAndResend'));
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to edit message:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should switch to another branch', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([
+        storedBranch[0],
+        { ...storedBranch[1], id: 3, content: 'Second reply', siblingIds: [2, 3] },
+      ]);
+      mockChatSwitchBranch.mockResolvedValue(storedBranch);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Second reply')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('branch-switcher-3'));
+
+      await waitFor(() => {
+        expect(mockChatSwitchBranch).toHaveBeenCalledWith(5, 2);
+        expect(screen.getByText('Hi there')).toBeInTheDocument();
+      });
+    });
+
+    it('should handle switch branch error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([
+        storedBranch[0],
+        { ...storedBranch[1], id: 3, content: 'Second reply', siblingIds: [2, 3] },
+      ]);
+      mockChatSwitchBranch.mockRejectedValue(new Error('Switch failed'));
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Second reply')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('branch-switcher-3'));
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to switch branch:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('focused message', () => {
+    const existingChat = {
+      id: 5,
+      name: 'Existing Chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should highlight the focused message of the active branch', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([
+        { id: 1, chatId: 5, content: 'Hello', role: 'user', siblingIds: [1], createdAt: new Date() },
+        { id: 2, chatId: 5, content: 'Hi there', role: 'assistant', siblingIds: [2], createdAt: new Date() },
+      ]);
+
+      const { container } = renderWithProvider(<ChatInterface chatId={5} focusMessageId={1} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Hello')).toBeInTheDocument();
+      });
+
+      expect(mockChatSwitchBranch).not.toHaveBeenCalled();
+      const focused = container.querySelector('[data-message-id="1"]');
+      expect(focused?.querySelector('.ring-2')).not.toBeNull();
+      expect(container.querySelector('[data-message-id="2"] .ring-2')).toBeNull();
+    });
+
+    it('should switch to the branch containing the focused message', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([
+        { id: 1, chatId: 5, content: 'Hello', role: 'user', siblingIds: [1], createdAt: new Date() },
+        { id: 3, chatId: 5, content: 'Newer reply', role: 'assistant', siblingIds: [2, 3], createdAt: new Date() },
+      ]);
+      mockChatSwitchBranch.mockResolvedValue([
+        { id: 1, chatId: 5, content: 'Hello', role: 'user', siblingIds: [1], createdAt: new Date() },
+        { id: 2, chatId: 5, content: 'Older reply', role: 'assistant', siblingIds: [2, 3], createdAt: new Date() },
+      ]);
+
+      renderWithProvider(<ChatInterface chatId={5} focusMessageId={2} />);
+
+      await waitFor(() => {
+        expect(mockChatSwitchBranch).toHaveBeenCalledWith(5, 2);
+        expect(screen.getByText('Older reply')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Newer reply')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('summarized messages', () => {
+    const existingChat = {
+      id: 5,
+      name: 'Long chat',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const summarizedBranch = [
+      { id: 1, chatId: 5, content: 'Plan a trip to Lyon', role: 'user', siblingIds: [1], createdAt: new Date() },
+      { id: 2, chatId: 5, content: 'Here is a plan', role: 'assistant', siblingIds: [2], summary: 'The user plans a trip to Lyon.', createdAt: new Date() },
+      { id: 3, chatId: 5, content: 'Where to eat?', role: 'user', siblingIds: [3], createdAt: new Date() },
+    ];
+
+    it('should fold the summarized messages behind the summary', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(summarizedBranch);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Where to eat?')).toBeInTheDocument();
+      });
+      expect(screen.getByText('earlierMessagesSummarized')).toBeInTheDocument();
+      expect(screen.getByText('The user plans a trip to Lyon.')).toBeInTheDocument();
+      expect(screen.queryByText('Plan a trip to Lyon')).not.toBeInTheDocument();
+      expect(screen.queryByText('Here is a plan')).not.toBeInTheDocument();
+    });
+
+    it('should expand to the full messages', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(summarizedBranch);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      const toggle = await screen.findByText('showSummarizedMessages');
+      fireEvent.click(toggle);
+
+      expect(screen.getByText('Plan a trip to Lyon')).toBeInTheDocument();
+      expect(screen.getByText('Here is a plan')).toBeInTheDocument();
+      expect(screen.getByText('hideSummarizedMessages')).toHaveAttribute('aria-expanded', 'true');
+
+      fireEvent.click(screen.getByText('hideSummarizedMessages'));
+
+      expect(screen.queryByText('Plan a trip to Lyon')).not.toBeInTheDocument();
+    });
+
+    it('should show the summarized messages when one of them is focused', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue(summarizedBranch);
+
+      renderWithProvider(<ChatInterface chatId={5} focusMessageId={1} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Plan a trip to Lyon')).toBeInTheDocument();
+      });
+      expect(screen.getByText('hideSummarizedMessages')).toBeInTheDocument();
+    });
+
+    it('should show no marker for a chat that was never summarized', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([summarizedBranch[0], { ...summarizedBranch[1], summary: null }]);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Plan a trip to Lyon')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('earlierMessagesSummarized')).not.toBeInTheDocument();
+    });
+
+    it('should reload the messages once older ones were summarized for a reply', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+      mockChatGetMessages.mockResolvedValue([{ ...summarizedBranch[0] }, { ...summarizedBranch[1], summary: null }]);
+      mockChatSendMessage.mockResolvedValue({
+        userMessage: { id: 3, chatId: 5, content: 'Where to eat?', role: 'user', createdAt: new Date() },
+        assistantMessage: { id: 4, chatId: 5, content: 'Try a bouchon', role: 'assistant', createdAt: new Date() },
+        autoNamed: false,
+        summarized: true,
+      });
+
+      const { container } = renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Plan a trip to Lyon')).toBeInTheDocument();
+      });
+      mockChatGetMessages.mockResolvedValue([
+        ...summarizedBranch,
+        { id: 4, chatId: 5, content: 'Try a bouchon', role: 'assistant', siblingIds: [4], createdAt: new Date() },
+      ]);
+
+      const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+      fireEvent.change(input, { target: { value: 'Where to eat?' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(screen.getByText('earlierMessagesSummarized')).toBeInTheDocument();
+      });
+      expect(mockChatGetMessages).toHaveBeenCalledTimes(2);
+      expect(screen.queryByText('Plan a trip to Lyon')).not.toBeInTheDocument();
+      expect(screen.getByText('Try a bouchon')).toBeInTheDocument();
+    });
+  });
+
+  describe('renamed chat', () => {
+    const existingChat = {
+      id: 5,
+      name: 'Chat about Hello...',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should show the name the chat was given from the sidebar', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+
+      const { rerender } = renderWithProvider(<ChatInterface chatId={5} renamedChat={null} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat about Hello...')).toBeInTheDocument();
+      });
+
+      rerender(<SidebarProvider><ChatInterface chatId={5} renamedChat={{ id: 5, name: 'Small talk' }} /></SidebarProvider>);
+
+      expect(screen.getByText('Small talk')).toBeInTheDocument();
+    });
+
+    it('should ignore the renaming of another chat', async () => {
+      mockChatGet.mockResolvedValue(existingChat);
+
+      const { rerender } = renderWithProvider(<ChatInterface chatId={5} renamedChat={null} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat about Hello...')).toBeInTheDocument();
+      });
+
+      rerender(<SidebarProvider><ChatInterface chatId={5} renamedChat={{ id: 7, name: 'Groceries' }} /></SidebarProvider>);
+
+      expect(screen.getByText('Chat about Hello...')).toBeInTheDocument();
+      expect(screen.queryByText('Groceries')).not.toBeInTheDocument();
+    });
+  });
+
   it('should not send message before chatId is initialized', async () => {
     // Make chatCreate hang so chatId stays null
     mockChatCreate.mockImplementation(() => new Promise(() => {}));
 
     const { container } = renderWithProvider(<ChatInterface />);
 
-    const input = container.querySelector('input') as HTMLInputElement;
+    const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
 
     // Try to send a message before chatId is set
     fireEvent.change(input, { target: { value: 'Hello' } });
@@ -527,6 +1070,24 @@ describe('ChatInterface', () => {
     });
   });
 
+  it('should pass the chat system prompt to the persona picker', async () => {
+    mockChatGet.mockResolvedValue({
+      id: 5,
+      name: 'Existing Chat',
+      systemPrompt: 'Translate text',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    renderWithProvider(<ChatInterface chatId={5} />);
+
+    await waitFor(() => {
+      const picker = screen.getByTestId('persona-picker');
+      expect(picker).toHaveAttribute('data-chat-id', '5');
+      expect(picker).toHaveTextContent('Translate text');
+    });
+  });
+
   it('should call onChatCreated when new chat is created', async () => {
     const mockOnChatCreated = jest.fn();
     mockChatCreate.mockResolvedValue({
@@ -613,4 +1174,612 @@ describe('ChatInterface', () => {
     });
   });
 
-});
\ No newline at end of file
+  describe('tool calls', () => {
+    const toolCallRequest = {
+      chatId: 1,
+      messageId: 2,
+      callId: 'call-1',
+      name: 'search_chats',
+      description: 'Search chats',
+      params: { query: 'flour' },
+    };
+
+    beforeEach(() => {
+      mockChatCreate.mockResolvedValue({
+        id: 1,
+        name: 'Test Chat',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockChatRespondToToolCall.mockResolvedValue(true);
+    });
+
+    const renderWithToolCallRequest = async () => {
+      let requestCallback: any;
+      mockChatOnToolCallRequest.mockImplementation((callback) => {
+        requestCallback = callback;
+        return () => {};
+      });
+
+      renderWithProvider(<ChatInterface />);
+
+      await waitFor(() => {
+        expect(mockChatOnToolCallRequest).toHaveBeenCalled();
+      });
+      requestCallback(toolCallRequest);
+
+      await waitFor(() => {
+        expect(screen.getByText('toolCallTitle')).toBeInTheDocument();
+      });
+    };
+
+    it('should ask to confirm tool calls and allow them', async () => {
+      await renderWithToolCallRequest();
+
+      expect(screen.getByText('Search chats')).toBeInTheDocument();
+      expect(screen.getByText(/"query": "flour"/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('allowToolCall'));
+
+      await waitFor(() => {
+        expect(mockChatRespondToToolCall).toHaveBeenCalledWith('call-1', true);
+      });
+      expect(screen.queryByText('toolCallTitle')).not.toBeInTheDocument();
+    });
+
+    it('should deny tool calls', async () => {
+      await renderWithToolCallRequest();
+
+      fireEvent.click(screen.getByText('denyToolCall'));
+
+      await waitFor(() => {
+        expect(mockChatRespondToToolCall).toHaveBeenCalledWith('call-1', false);
+      });
+      expect(screen.queryByText('toolCallTitle')).not.toBeInTheDocument();
+    });
+
+    it('should log errors when answering a tool call fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockChatRespondToToolCall.mockRejectedValue(new Error('Answer failed'));
+      await renderWithToolCallRequest();
+
+      fireEvent.click(screen.getByText('allowToolCall'));
+
+      await waitFor(() => {
+        expect(consoleError).toHaveBeenCalledWith('Failed to respond to tool call:', expect.any(Error));
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should drop pending tool calls when generation ends', async () => {
+      let streamCallback: any;
+      mockChatOnMessageStream.mockImplementation((callback) => {
+        streamCallback = callback;
+        return () => {};
+      });
+      await renderWithToolCallRequest();
+
+      streamCallback({ chatId: 1, messageId: 2, seq: 0, delta: '', done: true, content: '', stats: null });
+
+      await waitFor(() => {
+        expect(screen.queryByText('toolCallTitle')).not.toBeInTheDocument();
+      });
+    });
+
+    it('should ignore tool calls of other chats', async () => {
+      let requestCallback: any;
+      mockChatOnToolCallRequest.mockImplementation((callback) => {
+        requestCallback = callback;
+        return () => {};
+      });
+
+      renderWithProvider(<ChatInterface />);
+
+      await waitFor(() => {
+        expect(mockChatOnToolCallRequest).toHaveBeenCalled();
+      });
+      requestCallback({ ...toolCallRequest, chatId: 2 });
+
+      expect(screen.queryByText('toolCallTitle')).not.toBeInTheDocument();
+    });
+
+    it('should show tool messages as they are stored', async () => {
+      let toolMessageCallback: any;
+      mockChatOnToolMessage.mockImplementation((callback) => {
+        toolMessageCallback = callback;
+        return () => {};
+      });
+
+      renderWithProvider(<ChatInterface />);
+
+      await waitFor(() => {
+        expect(mockChatOnToolMessage).toHaveBeenCalled();
+      });
+      toolMessageCallback({
+        chatId: 1,
+        messageId: 2,
+        toolMessage: {
+          id: 3,
+          content: '[{"chat":"Baking"}]',
+          role: 'tool',
+          toolCall: JSON.stringify({ name: 'search_chats', params: { query: 'flour' }, status: 'completed' }),
+        },
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('[{"chat":"Baking"}]')).toBeInTheDocument();
+      });
+      expect(screen.getByText('toolMessage')).toBeInTheDocument();
+    });
+
+    it('should show the status of stored tool messages', async () => {
+      (window.electronAPI as any).chatGet = jest.fn().mockResolvedValue({ id: 5, name: 'Tools', systemPrompt: null });
+      (window.electronAPI as any).chatGetMessages = jest.fn().mockResolvedValue([
+        { id: 1, content: 'Search my chats', role: 'user', siblingIds: [1] },
+        {
+          id: 2,
+          content: 'The user denied this tool call.',
+          role: 'tool',
+          siblingIds: [2],
+          toolCall: JSON.stringify({ name: 'search_chats', params: { query: 'flour' }, status: 'denied' }),
+        },
+        { id: 3, content: 'I could not search.', role: 'assistant', siblingIds: [3] },
+      ]);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('toolCallDenied')).toBeInTheDocument();
+      });
+      expect(screen.getByText('The user denied this tool call.')).toBeInTheDocument();
+      // Tool messages cannot be edited
+      expect(screen.getAllByLabelText('editMessage')).toHaveLength(1);
+    });
+  });
+  describe('attachments', () => {
+    const draft = { name: 'notes.md', kind: 'markdown', size: 2048, content: '# Notes' };
+
+    beforeEach(() => {
+      mockChatCreate.mockResolvedValue({ id: 1, name: 'New Chat', createdAt: new Date(), updatedAt: new Date() });
+      mockChatSendMessage.mockResolvedValue({
+        userMessage: { id: 1, chatId: 1, content: 'Summarize', role: 'user', createdAt: new Date() },
+        assistantMessage: { id: 2, chatId: 1, content: '', role: 'assistant', createdAt: new Date() },
+        autoNamed: false,
+      });
+    });
+
+    it('should add picked files to the composer', async () => {
+      mockChatPickAttachments.mockResolvedValue({ attachments: [draft], errors: [] });
+
+      renderWithProvider(<ChatInterface />);
+      fireEvent.click(screen.getByLabelText('attachFiles'));
+
+      await waitFor(() => {
+        expect(screen.getByText('notes.md')).toBeInTheDocument();
+      });
+      expect(screen.getByText('2.0 KB')).toBeInTheDocument();
+    });
+
+    it('should keep the composer unchanged when the dialog is canceled', async () => {
+      mockChatPickAttachments.mockResolvedValue(null);
+
+      const { container } = renderWithProvider(<ChatInterface />);
+      fireEvent.click(screen.getByLabelText('attachFiles'));
+
+      await waitFor(() => {
+        expect(mockChatPickAttachments).toHaveBeenCalled();
+      });
+      expect(container.querySelector('#chat-attachments')).toBeNull();
+    });
+
+    it('should show the files that could not be read', async () => {
+      mockChatPickAttachments.mockResolvedValue({
+        attachments: [],
+        errors: [{ name: 'photo.png', error: 'Unsupported file type: photo.png' }],
+      });
+
+      renderWithProvider(<ChatInterface />);
+      fireEvent.click(screen.getByLabelText('attachFiles'));
+
+      await waitFor(() => {
+        expect(screen.getByText('attachmentError')).toBeInTheDocument();
+      });
+    });
+
+    it('should remove a pending file', async () => {
+      mockChatPickAttachments.mockResolvedValue({ attachments: [draft], errors: [] });
+
+      renderWithProvider(<ChatInterface />);
+      fireEvent.click(screen.getByLabelText('attachFiles'));
+      await waitFor(() => {
+        expect(screen.getByText('notes.md')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('removeAttachment'));
+
+      expect(screen.queryByText('notes.md')).not.toBeInTheDocument();
+    });
+
+    it('should send pending files with the message and clear them', async () => {
+      mockChatPickAttachments.mockResolvedValue({ attachments: [draft], errors: [] });
+
+      const { container } = renderWithProvider(<ChatInterface />);
+      await waitFor(() => {
+        expect(mockChatCreate).toHaveBeenCalled();
+      });
+      fireEvent.click(screen.getByLabelText('attachFiles'));
+      await waitFor(() => {
+        expect(screen.getByText('notes.md')).toBeInTheDocument();
+      });
+
+      const input = container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+      fireEvent.change(input, { target: { value: 'Summarize' } });
+      fireEvent.click(screen.getByLabelText('sendMessage'));
+
+      await waitFor(() => {
+        expect(mockChatSendMessage).toHaveBeenCalledWith(1, 'Summarize', [draft]);
+      });
+      expect(container.querySelector('#chat-attachments')).toBeNull();
+      // The sent message shows its file
+      expect(screen.getByText('notes.md')).toBeInTheDocument();
+    });
+
+    it('should read dropped files', async () => {
+      mockChatReadAttachments.mockResolvedValue({ attachments: [draft], errors: [] });
+
+      const { container } = renderWithProvider(<ChatInterface />);
+      const file = new File(['# Notes'], 'notes.md');
+      fireEvent.drop(container.querySelector('.pt-12') as HTMLElement, {
+        dataTransfer: { files: [file], types: ['Files'] },
+      });
+
+      await waitFor(() => {
+        expect(mockChatReadAttachments).toHaveBeenCalledWith([file]);
+      });
+      expect(await screen.findByText('notes.md')).toBeInTheDocument();
+    });
+
+    it('should show the drop hint while files are dragged over', () => {
+      const { container } = renderWithProvider(<ChatInterface />);
+
+      fireEvent.dragOver(container.querySelector('.pt-12') as HTMLElement, {
+        dataTransfer: { files: [], types: ['Files'] },
+      });
+
+      expect(screen.getByText('dropFilesHere')).toBeInTheDocument();
+    });
+
+    it('should show the files of stored messages', async () => {
+      (window.electronAPI as any).chatGet = jest.fn().mockResolvedValue({ id: 5, name: 'Files', systemPrompt: null });
+      (window.electronAPI as any).chatGetMessages = jest.fn().mockResolvedValue([
+        {
+          id: 1,
+          content: 'Read this',
+          role: 'user',
+          siblingIds: [1],
+          attachments: [{ id: 7, name: 'report.pdf', kind: 'pdf', size: 512 }],
+        },
+      ]);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('report.pdf')).toBeInTheDocument();
+      });
+      expect(screen.getByText('512 B')).toBeInTheDocument();
+    });
+  });
+
+  describe('knowledge base', () => {
+    const mockChatUpdateKnowledgeBase = jest.fn();
+    const mockKnowledgeOpenSource = jest.fn();
+    const sources = [
+      { index: 1, path: '/docs/guide.md', name: 'guide.md', position: 0, content: 'Run setup.exe', score: 0.9 },
+    ];
+
+    beforeEach(() => {
+      Object.assign(window.electronAPI, {
+        chatGet: mockChatGet,
+        chatGetMessages: mockChatGetMessages,
+        chatUpdateKnowledgeBase: mockChatUpdateKnowledgeBase,
+        knowledgeOpenSource: mockKnowledgeOpenSource,
+      });
+      mockChatGet.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: null, knowledgeBase: false });
+    });
+
+    it('should turn the knowledge base on for the chat', async () => {
+      mockChatUpdateKnowledgeBase.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: null, knowledgeBase: true });
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+      await waitFor(() => {
+        expect(screen.getByText('Docs')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByLabelText('useKnowledgeBase'));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('stopUsingKnowledgeBase')).toHaveAttribute('aria-pressed', 'true');
+      });
+      expect(mockChatUpdateKnowledgeBase).toHaveBeenCalledWith(5, true);
+    });
+
+    it('should show the stored sources of a reply and open them', async () => {
+      mockChatGet.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: null, knowledgeBase: true });
+      mockChatGetMessages.mockResolvedValue([
+        { id: 1, content: 'How do I install it?', role: 'user', siblingIds: [1] },
+        { id: 2, content: 'Run setup.exe [1]', role: 'assistant', siblingIds: [2], sources: JSON.stringify(sources) },
+      ]);
+      mockKnowledgeOpenSource.mockResolvedValue(undefined);
+
+      renderWithProvider(<ChatInterface chatId={5} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('messageSources')).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText('stopUsingKnowledgeBase')).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('openSource'));
+
+      expect(mockKnowledgeOpenSource).toHaveBeenCalledWith('/docs/guide.md');
+    });
+
+    it('should show the sources of a sent message once it is answered', async () => {
+      let streamListener: (data: any) => void = () => {};
+      mockChatOnMessageStream.mockImplementation((callback) => {
+        streamListener = callback;
+        return () => {};
+      });
+      mockChatSendMessage.mockImplementation(async () => {
+        streamListener({ chatId: 5, messageId: 2, seq: 0, delta: '', done: true, content: 'Run setup.exe [1]' });
+        return {
+          userMessage: { id: 1, content: 'How do I install it?', role: 'user' },
+          assistantMessage: { id: 2, content: 'Run setup.exe [1]', role: 'assistant', sources: JSON.stringify(sources) },
+          autoNamed: false,
+        };
+      });
+
+      const { container } = renderWithProvider(<ChatInterface chatId={5} />);
+      await waitFor(() => {
+        expect(screen.getByText('Docs')).toBeInTheDocument();
+      });
+      fireEvent.change(container.querySelector('#chat-input-field') as HTMLTextAreaElement, { target: { value: 'How do I install it?' } });
+      fireEvent.click(screen.getByLabelText('sendMessage'));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('openSource')).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('composer', () => {
+    const mockChatUpdateName = jest.fn();
+    const mockChatUpdateSystemPrompt = jest.fn();
+    const mockChatExport = jest.fn();
+    const mockLlmGetActiveModel = jest.fn();
+    const mockLlmListInstalled = jest.fn();
+    const mockLlmGetSavedConfig = jest.fn();
+    const mockLlmLoadModel = jest.fn();
+
+    beforeEach(() => {
+      Object.assign(window.electronAPI, {
+        chatGet: mockChatGet,
+        chatGetMessages: mockChatGetMessages,
+        chatUpdateName: mockChatUpdateName,
+        chatUpdateSystemPrompt: mockChatUpdateSystemPrompt,
+        chatExport: mockChatExport,
+        llmGetActiveModel: mockLlmGetActiveModel,
+        llmListInstalled: mockLlmListInstalled,
+        llmGetSavedConfig: mockLlmGetSavedConfig,
+        llmLoadModel: mockLlmLoadModel,
+      });
+      mockChatGet.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: null, knowledgeBase: false });
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    const renderChat = async (props: Partial<React.ComponentProps<typeof ChatInterface>> = {}) => {
+      const result = renderWithProvider(<ChatInterface chatId={5} {...props} />);
+      await waitFor(() => {
+        expect(screen.getByText('Docs')).toBeInTheDocument();
+      });
+      return result;
+    };
+
+    const getComposer = (container: HTMLElement) => container.querySelector('#chat-input-field') as HTMLTextAreaElement;
+
+    const runCommand = (container: HTMLElement, command: string) => {
+      fireEvent.change(getComposer(container), { target: { value: command } });
+      fireEvent.keyDown(getComposer(container), { key: 'Enter' });
+    };
+
+    it('should keep the draft of a chat across navigation', async () => {
+      const { container, unmount } = await renderChat();
+      fireEvent.change(getComposer(container), { target: { value: 'Half written\nquestion' } });
+      unmount();
+
+      const remounted = await renderChat();
+
+      expect(getComposer(remounted.container).value).toBe('Half written\nquestion');
+    });
+
+    it('should forget the draft once it is sent', async () => {
+      mockChatSendMessage.mockResolvedValue({
+        userMessage: { id: 1, content: 'Hello', role: 'user' },
+        assistantMessage: { id: 2, content: 'Hi', role: 'assistant' },
+        autoNamed: false,
+      });
+      const { container } = await renderChat();
+
+      runCommand(container, 'Hello');
+
+      await waitFor(() => {
+        expect(mockChatSendMessage).toHaveBeenCalledWith(5, 'Hello', []);
+      });
+      expect(localStorage.getItem('chatDraft:5')).toBeNull();
+    });
+
+    it('should recall the stored user messages with the up arrow', async () => {
+      mockChatGetMessages.mockResolvedValue([
+        { id: 1, content: 'First question', role: 'user', siblingIds: [1] },
+        { id: 2, content: 'Answer', role: 'assistant', siblingIds: [2] },
+      ]);
+      const { container } = await renderChat();
+
+      fireEvent.keyDown(getComposer(container), { key: 'ArrowUp' });
+
+      expect(getComposer(container).value).toBe('First question');
+    });
+
+    it('should rename the chat with /rename', async () => {
+      const onChatNamed = jest.fn();
+      mockChatUpdateName.mockResolvedValue({ id: 5, name: 'Trip plans' });
+      const { container } = await renderChat({ onChatNamed });
+
+      runCommand(container, '/rename Trip plans');
+
+      await waitFor(() => {
+        expect(screen.getByText('Trip plans')).toBeInTheDocument();
+      });
+      expect(mockChatUpdateName).toHaveBeenCalledWith(5, 'Trip plans');
+      expect(onChatNamed).toHaveBeenCalled();
+      expect(mockChatSendMessage).not.toHaveBeenCalled();
+      expect(getComposer(container).value).toBe('');
+    });
+
+    it('should show the usage of a command missing its arguments', async () => {
+      const { container } = await renderChat();
+
+      runCommand(container, '/rename');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.usage')).toBeInTheDocument();
+      });
+      expect(mockChatUpdateName).not.toHaveBeenCalled();
+    });
+
+    it('should start a new chat with /clear', async () => {
+      const onNewChat = jest.fn();
+      const { container } = await renderChat({ onNewChat });
+
+      runCommand(container, '/clear');
+
+      await waitFor(() => {
+        expect(onNewChat).toHaveBeenCalled();
+      });
+    });
+
+    it('should set the system prompt with /system', async () => {
+      mockChatUpdateSystemPrompt.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: 'Be brief' });
+      const { container } = await renderChat();
+
+      runCommand(container, '/system Be brief');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('persona-picker')).toHaveTextContent('Be brief');
+      });
+      expect(mockChatUpdateSystemPrompt).toHaveBeenCalledWith(5, 'Be brief');
+      expect(screen.getByText('commands.systemSet')).toBeInTheDocument();
+    });
+
+    it('should clear the system prompt with /system alone', async () => {
+      mockChatUpdateSystemPrompt.mockResolvedValue({ id: 5, name: 'Docs', systemPrompt: null });
+      const { container } = await renderChat();
+
+      runCommand(container, '/system');
+
+      await waitFor(() => {
+        expect(mockChatUpdateSystemPrompt).toHaveBeenCalledWith(5, null);
+      });
+    });
+
+    it('should export the chat with /export', async () => {
+      mockChatExport.mockResolvedValue('/home/user/Docs.json');
+      const { container } = await renderChat();
+
+      runCommand(container, '/export json');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.exported')).toBeInTheDocument();
+      });
+      expect(mockChatExport).toHaveBeenCalledWith(5, 'json');
+    });
+
+    it('should refuse unknown export formats', async () => {
+      const { container } = await renderChat();
+
+      runCommand(container, '/export pdf');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.usage')).toBeInTheDocument();
+      });
+      expect(mockChatExport).not.toHaveBeenCalled();
+    });
+
+    it('should show the loaded model with /model', async () => {
+      mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/qwen.gguf', modelId: null });
+      const { container } = await renderChat();
+
+      runCommand(container, '/model');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.modelCurrent')).toBeInTheDocument();
+      });
+    });
+
+    it('should load an installed model with /model', async () => {
+      mockLlmListInstalled.mockResolvedValue([
+        { id: 'qwen', name: 'Qwen 2.5', filename: 'qwen2.5.gguf', path: '/models/qwen2.5.gguf', recommendedContext: 4096 },
+      ]);
+      mockLlmGetSavedConfig.mockResolvedValue({ contextSize: 8192 });
+      mockLlmLoadModel.mockResolvedValue(undefined);
+      const { container } = await renderChat();
+
+      runCommand(container, '/model qwen');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.modelLoaded')).toBeInTheDocument();
+      });
+      expect(mockLlmLoadModel).toHaveBeenCalledWith('/models/qwen2.5.gguf', { contextSize: 4096 }, 'qwen');
+    });
+
+    it('should report a model that is not installed', async () => {
+      mockLlmListInstalled.mockResolvedValue([]);
+      const { container } = await renderChat();
+
+      runCommand(container, '/model mistral');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.modelNotFound')).toBeInTheDocument();
+      });
+      expect(mockLlmLoadModel).not.toHaveBeenCalled();
+    });
+
+    it('should show the error of a failed command', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockChatUpdateName.mockRejectedValue(new Error('Database locked'));
+      const { container } = await renderChat();
+
+      runCommand(container, '/rename Trip plans');
+
+      await waitFor(() => {
+        expect(screen.getByText('commands.failed')).toBeInTheDocument();
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should send unknown commands as messages', async () => {
+      mockChatSendMessage.mockResolvedValue({
+        userMessage: { id: 1, content: '/shrug', role: 'user' },
+        assistantMessage: { id: 2, content: 'Hi', role: 'assistant' },
+        autoNamed: false,
+      });
+      const { container } = await renderChat();
+
+      runCommand(container, '/shrug');
+
+      await waitFor(() => {
+        expect(mockChatSendMessage).toHaveBeenCalledWith(5, '/shrug', []);
+      });
+    });
+  });
+});
@@ -1,40 +1,101 @@
-import { Send } from 'lucide-react';
+import { BookOpen, FileText, Library, Paperclip, Pencil, RefreshCw, ScrollText, Send, Square, Wrench, X } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkBreaks from 'remark-breaks';
+import rehypeHighlight from 'rehype-highlight';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { SidebarTrigger } from '../ui/sidebar';
+import PersonaPicker from './PersonaPicker';
+import BranchSwitcher from './BranchSwitcher';
+import ChatComposer from './ChatComposer';
 import {
+  AttachmentDraft,
+  AttachmentReadResult,
+  KnowledgeSource,
   Message,
+  MessageRecord,
+  ToolCallRequest,
   canSendMessage,
   getMessageCardClasses,
   getMessageContainerClasses,
-  handleKeyDown,
   handleSendClick,
+  markMessageInterrupted,
+  toChatMessages,
+  getSummarizedMessageCount,
   updateStreamingMessage,
+  formatGenerationStats,
   scrollToBottom,
+  scrollToMessage,
   focusInput,
   markdownComponents,
+  insertToolMessage,
+  formatToolParams,
+  formatFileSize,
+  addAttachments,
+  toAttachmentSummaries,
+  setMessageSources,
 } from './ChatInterface.helpers';
+import {
+  ParsedSlashCommand,
+  SLASH_COMMANDS,
+  addToHistory,
+  findModel,
+  loadDraft,
+  parseSlashCommand,
+  saveDraft,
+} from './ChatComposer.helpers';
+
+const EXPORT_FORMATS = ['markdown', 'json', 'html'] as const;
+
+interface InstalledModel {
+  id: string;
+  name: string;
+  filename: string;
+  path?: string;
+  recommendedContext: number;
+}
 
 interface ChatInterfaceProps {
   chatId?: number | null;
   onChatCreated?: (chatId: number) => void;
   onChatNamed?: () => void;
+  onNewChat?: () => void; // Called by the /clear command
+  focusMessageId?: number | null; // Message to bring into view, e.g. picked from search results
+  renamedChat?: { id: number; name: string } | null; // Latest chat renamed outside of the interface
 }
 
-const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatInterfaceProps) => {
+const ChatInterface = ({
+  chatId: propChatId,
+  onChatCreated,
+  onChatNamed,
+  onNewChat,
+  focusMessageId,
+  renamedChat,
+}: ChatInterfaceProps) => {
   const { t } = useTranslation();
   const [chatId, setChatId] = useState<number | null>(propChatId || null);
   const [chatName, setChatName] = useState<string>('New Chat');
+  const [systemPrompt, setSystemPrompt] = useState<string | null>(null);
+  const [knowledgeBase, setKnowledgeBase] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
+  const [inputHistory, setInputHistory] = useState<string[]>([]);
+  const [commandNotice, setCommandNotice] = useState<{ message: string; error: boolean } | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const [showSummarizedMessages, setShowSummarizedMessages] = useState(false);
+  const [toolCallRequests, setToolCallRequests] = useState<ToolCallRequest[]>([]);
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const pendingScrollMessageIdRef = useRef<number | null>(null);
   const chatHistoryRef = useRef<HTMLDivElement>(null);
-  const chatInputFieldRef = useRef<HTMLInputElement>(null);
+  const chatInputFieldRef = useRef<HTMLTextAreaElement>(null);
 
   // Initialize or load chat
   useEffect(() => {
@@ -43,22 +104,41 @@ const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatI
         if (propChatId) {
           // Load existing chat
           const chat = await window.electronAPI.chatGet(propChatId);
-          const chatMessages = await window.electronAPI.chatGetMessages(propChatId);
+          let chatMessages = await window.electronAPI.chatGetMessages(propChatId);
+
+          if (focusMessageId) {
+            // The message may belong to a branch that is not shown
+            if (!chatMessages.some((message: MessageRecord) => message.id === focusMessageId)) {
+              chatMessages = await window.electronAPI.chatSwitchBranch(propChatId, focusMessageId);
+            }
+            pendingScrollMessageIdRef.current = focusMessageId;
+          }
 
           setChatId(chat.id);
           setChatName(chat.name);
-          setMessages(
-            chatMessages.map((msg) => ({
-              author: msg.role,
-              message: msg.content,
-            }))
-          );
+          setSystemPrompt(chat.systemPrompt);
+          setKnowledgeBase(chat.knowledgeBase);
+          const loadedMessages = toChatMessages(chatMessages);
+          setMessages(loadedMessages);
+          // A focused message among the summarized ones is shown along with them
+          const focusIndex = loadedMessages.findIndex((message) => message.id === focusMessageId);
+          setShowSummarizedMessages(focusIndex !== -1 && focusIndex < getSummarizedMessageCount(loadedMessages));
+          setInputValue(loadDraft(chat.id));
+          setInputHistory(chatMessages
+            .filter((message: MessageRecord) => message.role === 'user')
+            .map((message: MessageRecord) => message.content));
+          setHighlightedMessageId(focusMessageId ?? null);
         } else {
           // Create new chat
           const chat = await window.electronAPI.chatCreate();
           setChatId(chat.id);
           setChatName(chat.name);
+          setSystemPrompt(null);
+          setKnowledgeBase(false);
           setMessages([]);
+          setShowSummarizedMessages(false);
+          setInputValue('');
+          setInputHistory([]);
 
           if (onChatCreated) {
             onChatCreated(chat.id);
@@ -70,7 +150,13 @@ const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatI
     };
 
     initializeChat();
-  }, [propChatId]);
+  }, [propChatId, focusMessageId]);
+
+  useEffect(() => {
+    if (renamedChat && renamedChat.id === chatId) {
+      setChatName(renamedChat.name);
+    }
+  }, [renamedChat]);
 
   // Set up streaming message listener
   useEffect(() => {
@@ -78,10 +164,12 @@ const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatI
 
     const cleanup = window.electronAPI.chatOnMessageStream((data) => {
       if (data.chatId === chatId) {
-        setMessages((prev) => updateStreamingMessage(prev, data.messageId, data.content));
+        setMessages((prev) => updateStreamingMessage(prev, data));
 
         if (data.done) {
           setIsStreaming(false);
+          // Calls still waiting were denied when generation stopped
+          setToolCallRequests([]);
         }
       }
     });
@@ -89,40 +177,93 @@ const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatI
     return cleanup;
   }, [chatId]);
 
-  // Scroll to bottom when messages change
+  // Set up tool call listeners: confirmation requests, then the stored calls and results
+  useEffect(() => {
+    if (!chatId) return;
+
+    const cleanupRequests = window.electronAPI.chatOnToolCallRequest((request: ToolCallRequest) => {
+      if (request.chatId === chatId) {
+        setToolCallRequests((prev) => [...prev, request]);
+      }
+    });
+    const cleanupMessages = window.electronAPI.chatOnToolMessage((data: { chatId: number; messageId: number; toolMessage: MessageRecord }) => {
+      if (data.chatId === chatId) {
+        setMessages((prev) => insertToolMessage(prev, data.messageId, data.toolMessage));
+      }
+    });
+
+    return () => {
+      cleanupRequests();
+      cleanupMessages();
+      setToolCallRequests([]);
+    };
+  }, [chatId]);
+
+  // Scroll to bottom when messages change, or to the focused message once it is loaded
   useEffect(() => {
-    scrollToBottom(chatHistoryRef.current);
+    const messageId = pendingScrollMessageIdRef.current;
+    pendingScrollMessageIdRef.current = null;
+
+    if (messageId === null || !scrollToMessage(chatHistoryRef.current, messageId)) {
+      scrollToBottom(chatHistoryRef.current);
+    }
   }, [messages]);
 
+  const handleInputChange = (value: string) => {
+    setInputValue(value);
+    if (chatId) {
+      saveDraft(chatId, value);
+    }
+  };
+
   const handleSend = async (message: string) => {
     if (!chatId || !canSendMessage(message, isStreaming)) return;
 
+    setInputHistory((prev) => addToHistory(prev, message));
+    setCommandNotice(null);
+    saveDraft(chatId, '');
+
+    const command = parseSlashCommand(message);
+    if (command) {
+      setInputValue('');
+      await runSlashCommand(command);
+      return;
+    }
+
     try {
+      const sentAttachments = attachments;
+
       // Add user message immediately
-      setMessages((prev) => [
-        ...prev,
-        {
-          author: 'user',
-          message: message,
-        },
-      ]);
+      const userMessage: Message = {
+        author: 'user',
+        message: message,
+        ...(sentAttachments.length > 0 ? { attachments: toAttachmentSummaries(sentAttachments) } : {}),
+      };
+      setMessages((prev) => [...prev, userMessage]);
 
       setInputValue('');
+      setAttachments([]);
+      setAttachmentErrors([]);
       setIsStreaming(true);
 
       // Send message to backend
-      const result = await window.electronAPI.chatSendMessage(chatId, message);
-
-      // Update chat name if auto-named
-      if (result.autoNamed) {
-        // Fetch the updated chat to get the new name
-        const updatedChat = await window.electronAPI.chatGet(chatId);
-        setChatName(updatedChat.name);
-        // Notify parent component to refresh sidebar
-        if (onChatNamed) {
-          onChatNamed();
-        }
+      const result = await window.electronAPI.chatSendMessage(chatId, message, sentAttachments);
+
+      // Keep the stored id so the message can be edited later
+      setMessages((prev) =>
+        prev.map((m) => (m === userMessage ? { ...m, id: result.userMessage.id } : m))
+      );
+
+      if (result.assistantMessage.interrupted) {
+        setMessages((prev) => markMessageInterrupted(prev, result.assistantMessage.id));
       }
+      setMessages((prev) => setMessageSources(prev, result.assistantMessage));
+      // The summary is stored with one of the earlier messages
+      if (result.summarized) {
+        await reloadMessages();
+      }
+
+      await handleAutoNamed(result.autoNamed);
 
       //focus the input field
       focusInput(chatInputFieldRef.current);
@@ -132,55 +273,561 @@ const ChatInterface = ({ chatId: propChatId, onChatCreated, onChatNamed }: ChatI
     }
   };
 
+  const showCommandUsage = (name: ParsedSlashCommand['name']) => {
+    const usage = SLASH_COMMANDS.find((command) => command.name === name)?.usage;
+    setCommandNotice({ message: t('commands.usage', { usage }), error: true });
+  };
+
+  // Slash commands map onto the chat and model IPC calls, their outcome is shown above the composer
+  const runSlashCommand = async ({ name, args }: ParsedSlashCommand) => {
+    if (!chatId) return;
+
+    try {
+      switch (name) {
+        case 'rename': {
+          if (!args) {
+            showCommandUsage(name);
+            return;
+          }
+          const chat = await window.electronAPI.chatUpdateName(chatId, args);
+          setChatName(chat.name);
+          onChatNamed?.();
+          setCommandNotice({ message: t('commands.renamed', { name: chat.name }), error: false });
+          break;
+        }
+        case 'clear':
+          // The conversation stays in the history, a new one starts
+          onNewChat?.();
+          break;
+        case 'model': {
+          if (!args) {
+            const activeModel = await window.electronAPI.llmGetActiveModel();
+            setCommandNotice({
+              message: activeModel
+                ? t('commands.modelCurrent', { name: activeModel.modelId ?? activeModel.path.split(/[\\/]/).pop() })
+                : t('commands.noModel'),
+              error: false,
+            });
+            return;
+          }
+          const models: InstalledModel[] = await window.electronAPI.llmListInstalled();
+          const model = findModel(models, args);
+          if (!model?.path) {
+            setCommandNotice({
+              message: t('commands.modelNotFound', { name: args, models: models.map((m) => m.name).join(', ') }),
+              error: true,
+            });
+            return;
+          }
+          setCommandNotice({ message: t('commands.modelLoading', { name: model.name }), error: false });
+          // The saved context size is an upper bound, models trained with less use their own length
+          const saved = await window.electronAPI.llmGetSavedConfig(model.id);
+          await window.electronAPI.llmLoadModel(
+            model.path,
+            { contextSize: Math.min(model.recommendedContext, saved.contextSize) },
+            model.id
+          );
+          setCommandNotice({ message: t('commands.modelLoaded', { name: model.name }), error: false });
+          break;
+        }
+        case 'system': {
+          const chat = await window.electronAPI.chatUpdateSystemPrompt(chatId, args || null);
+          setSystemPrompt(chat.systemPrompt);
+          setCommandNotice({ message: t(args ? 'commands.systemSet' : 'commands.systemCleared'), error: false });
+          break;
+        }
+        case 'export': {
+          const format = (args || 'markdown').toLowerCase();
+          if (!EXPORT_FORMATS.some((f) => f === format)) {
+            showCommandUsage(name);
+            return;
+          }
+          const filePath = await window.electronAPI.chatExport(chatId, format);
+          if (filePath) {
+            setCommandNotice({ message: t('commands.exported', { path: filePath }), error: false });
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to run /${name}:`, error);
+      setCommandNotice({ message: t('commands.failed', { command: `/${name}`, error: (error as Error).message }), error: true });
+    }
+  };
+
+  const handleAttachmentsRead = (result: AttachmentReadResult) => {
+    setAttachments((prev) => addAttachments(prev, result.attachments));
+    setAttachmentErrors(result.errors.map(({ name, error }) => t('attachmentError', { name, error })));
+  };
+
+  const handlePickAttachments = async () => {
+    try {
+      const result = await window.electronAPI.chatPickAttachments();
+      if (result) {
+        handleAttachmentsRead(result);
+      }
+    } catch (error) {
+      console.error('Failed to pick attachments:', error);
+    }
+  };
+
+  const handleRemoveAttachment = (attachment: AttachmentDraft) => {
+    setAttachments((prev) => prev.filter((a) => a !== attachment));
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  // Dropped files are read by the main process, which gets their paths from the preload script
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (isStreaming) return;
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
+
+    try {
+      handleAttachmentsRead(await window.electronAPI.chatReadAttachments(files));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+    }
+  };
+
+  const handleAutoNamed = async (autoNamed: boolean) => {
+    if (!chatId || !autoNamed) return;
+
+    // Fetch the updated chat to get the new name
+    const updatedChat = await window.electronAPI.chatGet(chatId);
+    setChatName(updatedChat.name);
+    // Notify parent component to refresh sidebar
+    if (onChatNamed) {
+      onChatNamed();
+    }
+  };
+
+  const reloadMessages = async () => {
+    if (!chatId) return;
+
+    const chatMessages = await window.electronAPI.chatGetMessages(chatId);
+    setMessages(toChatMessages(chatMessages));
+  };
+
+  const handleRegenerate = async () => {
+    if (!chatId || isStreaming) return;
+
+    try {
+      // The previous reply stays stored as a sibling branch
+      setMessages((prev) => prev.slice(0, -1));
+      setIsStreaming(true);
+
+      const result = await window.electronAPI.chatRegenerate(chatId);
+      await reloadMessages();
+      await handleAutoNamed(result.autoNamed);
+    } catch (error) {
+      console.error('Failed to regenerate message:', error);
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setEditingMessageId(message.id ?? null);
+    setEditValue(message.message);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditValue('');
+  };
+
+  const handleSubmitEdit = async (index: number) => {
+    const messageId = editingMessageId;
+    const content = editValue;
+    if (!chatId || messageId === null || !canSendMessage(content, isStreaming)) return;
+
+    try {
+      // Later messages belong to the old branch, which stays stored as a sibling.
+      // The new version keeps the files of the original.
+      setMessages((prev) => [
+        ...prev.slice(0, index),
+        { author: 'user', message: content, attachments: prev[index]?.attachments },
+      ]);
+      handleCancelEdit();
+      setIsStreaming(true);
+
+      const result = await window.electronAPI.chatEditMessage(chatId, messageId, content);
+      await reloadMessages();
+      await handleAutoNamed(result.autoNamed);
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const handleSwitchBranch = async (messageId: number) => {
+    if (!chatId || isStreaming) return;
+
+    try {
+      const branch = await window.electronAPI.chatSwitchBranch(chatId, messageId);
+      setMessages(toChatMessages(branch));
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+    }
+  };
+
+  const handleToolCallResponse = async (request: ToolCallRequest, approved: boolean) => {
+    setToolCallRequests((prev) => prev.filter((r) => r.callId !== request.callId));
+
+    try {
+      await window.electronAPI.chatRespondToToolCall(request.callId, approved);
+    } catch (error) {
+      console.error('Failed to respond to tool call:', error);
+    }
+  };
+
+  const handleToggleKnowledgeBase = async () => {
+    if (!chatId) return;
+
+    try {
+      const chat = await window.electronAPI.chatUpdateKnowledgeBase(chatId, !knowledgeBase);
+      setKnowledgeBase(chat.knowledgeBase);
+    } catch (error) {
+      console.error('Failed to update knowledge base:', error);
+    }
+  };
+
+  const handleOpenSource = async (source: KnowledgeSource) => {
+    try {
+      await window.electronAPI.knowledgeOpenSource(source.path);
+    } catch (error) {
+      console.error('Failed to open source:', error);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!chatId) return;
+
+    try {
+      await window.electronAPI.chatStopGeneration(chatId);
+    } catch (error) {
+      console.error('Failed to stop generation:', error);
+    }
+  };
+
+  // The messages covered by the latest summary are folded behind it until expanded
+  const summarizedCount = getSummarizedMessageCount(messages);
+  const hiddenCount = showSummarizedMessages ? 0 : summarizedCount;
+
   return (
-    <div className="flex flex-col h-full pt-12">
+    <div
+      className={`flex flex-col h-full pt-12 ${isDraggingFiles ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div id="chat-name-container" className="flex-shrink-0 w-full p-4 flex items-center gap-4">
         <SidebarTrigger />
         <h1 className="text-2xl font-bold text-slate-100">{chatName}</h1>
+        <PersonaPicker chatId={chatId} systemPrompt={systemPrompt} onChange={setSystemPrompt} />
+        <button
+          type="button"
+          aria-label={knowledgeBase ? t('stopUsingKnowledgeBase') : t('useKnowledgeBase')}
+          aria-pressed={knowledgeBase}
+          title={knowledgeBase ? t('stopUsingKnowledgeBase') : t('useKnowledgeBase')}
+          className={`rounded p-2 hover:bg-slate-700 ${knowledgeBase ? 'bg-blue-600 text-white' : 'text-slate-300'}`}
+          disabled={!chatId}
+          onClick={handleToggleKnowledgeBase}
+        >
+          <Library className="h-5 w-5" />
+        </button>
       </div>
       <div
         ref={chatHistoryRef}
         id="chat-history-container"
         className="flex-1 overflow-y-auto w-full p-4 min-h-0"
       >
-        {messages.map((message, index) => (
+        {summarizedCount > 0 && (
+          <div id="chat-summary-marker" className="flex justify-center mb-4">
+            <Card className="w-full max-w-2xl p-3 border border-dashed rounded-2xl bg-slate-800/60 border-slate-600">
+              <CardHeader className="p-0">
+                <CardTitle className="flex items-center gap-2 text-sm text-slate-300">
+                  <ScrollText className="h-4 w-4" />
+                  {t('earlierMessagesSummarized', { count: summarizedCount })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 pt-2">
+                <p className="whitespace-pre-wrap break-words text-sm text-slate-400">
+                  {messages[summarizedCount - 1].summary}
+                </p>
+                <button
+                  type="button"
+                  aria-expanded={showSummarizedMessages}
+                  className="mt-2 text-xs text-blue-300 hover:underline"
+                  onClick={() => setShowSummarizedMessages((prev) => !prev)}
+                >
+                  {showSummarizedMessages ? t('hideSummarizedMessages') : t('showSummarizedMessages')}
+                </button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+        {messages.map((message, index) => index < hiddenCount ? null : message.author === 'tool' ? (
           <div
             key={message.id || index}
+            data-message-id={message.id}
             className={getMessageContainerClasses(message.author)}
           >
             <Card className={getMessageCardClasses(message.author)}>
+              <CardHeader className="p-0">
+                <CardTitle className="flex items-center gap-2 text-sm text-slate-300">
+                  <Wrench className="h-4 w-4" />
+                  {t('toolMessage', { name: message.toolCall?.name })}
+                  {message.toolCall?.status === 'denied' && (
+                    <span className="text-xs text-amber-400">{t('toolCallDenied')}</span>
+                  )}
+                  {message.toolCall?.status === 'failed' && (
+                    <span className="text-xs text-red-400">{t('toolCallFailed')}</span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 pt-2">
+                <pre className="whitespace-pre-wrap break-words text-xs text-slate-400">
+                  {formatToolParams(message.toolCall?.params)}
+                </pre>
+                <pre className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap break-words text-xs text-slate-200">
+                  {message.message}
+                </pre>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div
+            key={message.id || index}
+            data-message-id={message.id}
+            className={getMessageContainerClasses(message.author)}
+          >
+            <Card
+              className={`${getMessageCardClasses(message.author)} ${
+                message.id !== undefined && message.id === highlightedMessageId ? 'ring-2 ring-amber-400' : ''
+              }`}
+            >
               <CardHeader>
                 <CardTitle className="text-slate-300">{message.author}</CardTitle>
+                {message.interrupted && (
+                  <span className="text-xs text-amber-400">{t('messageInterrupted')}</span>
+                )}
+                <div className="flex items-center gap-1">
+                  {message.id !== undefined && message.siblingIds && (
+                    <BranchSwitcher
+                      messageId={message.id}
+                      siblingIds={message.siblingIds}
+                      disabled={isStreaming}
+                      onSwitch={handleSwitchBranch}
+                    />
+                  )}
+                  {message.author === 'user' && message.id !== undefined && !isStreaming && editingMessageId === null && (
+                    <button
+                      type="button"
+                      aria-label={t('editMessage')}
+                      className="rounded p-1 text-slate-300 hover:bg-slate-700"
+                      onClick={() => handleStartEdit(message)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  )}
+                  {message.author === 'assistant' && index === messages.length - 1 && index > 0 && !isStreaming && (
+                    <button
+                      type="button"
+                      aria-label={t('regenerate')}
+                      className="rounded p-1 text-slate-300 hover:bg-slate-700"
+                      onClick={handleRegenerate}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
-                <div className="text-slate-100 prose prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-li:my-1">
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm, remarkBreaks]}
-                    components={markdownComponents}
-                  >
-                    {message.message}
-                  </ReactMarkdown>
-                </div>
+                {editingMessageId !== null && message.id === editingMessageId ? (
+                  <div className="flex flex-col gap-2">
+                    <textarea
+                      aria-label={t('editMessage')}
+                      className="w-full min-h-[80px] rounded-md border border-slate-600 bg-slate-900 p-2 text-slate-100"
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" onClick={handleCancelEdit}>
+                        {t('cancelEdit')}
+                      </Button>
+                      <Button
+                        onClick={() => handleSubmitEdit(index)}
+                        disabled={!canSendMessage(editValue, isStreaming)}
+                      >
+                        {t('saveAndResend')}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-slate-100 prose prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-li:my-1">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm, remarkBreaks]}
+                      rehypePlugins={[rehypeHighlight]}
+                      components={markdownComponents}
+                    >
+                      {message.message}
+                    </ReactMarkdown>
+                  </div>
+                )}
+                {message.attachments && message.attachments.length > 0 && (
+                  <ul className="mt-2 flex flex-wrap gap-2">
+                    {message.attachments.map((attachment, attachmentIndex) => (
+                      <li
+                        key={attachment.id ?? attachmentIndex}
+                        className="flex items-center gap-1 rounded-full bg-slate-700 px-3 py-1 text-xs text-slate-200"
+                      >
+                        <FileText className="h-3 w-3" />
+                        {attachment.name}
+                        <span className="text-slate-400">{formatFileSize(attachment.size)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {message.sources && message.sources.length > 0 && (
+                  <div className="mt-2">
+                    <p className="text-xs text-slate-400">{t('messageSources')}</p>
+                    <ul className="mt-1 flex flex-wrap gap-2">
+                      {message.sources.map((source) => (
+                        <li key={source.index}>
+                          <button
+                            type="button"
+                            aria-label={t('openSource', { name: source.name })}
+                            title={source.path}
+                            className="flex items-center gap-1 rounded-full bg-slate-700 px-3 py-1 text-xs text-blue-300 hover:bg-slate-600"
+                            onClick={() => handleOpenSource(source)}
+                          >
+                            <BookOpen className="h-3 w-3" />
+                            [{source.index}] {source.name}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {message.stats && (
+                  <p className="mt-2 text-xs text-slate-400">{formatGenerationStats(message.stats, t)}</p>
+                )}
               </CardContent>
             </Card>
           </div>
         ))}
       </div>
+      {toolCallRequests.length > 0 && (
+        <div id="tool-call-confirmation" className="flex-shrink-0 w-full px-4">
+          <Card className="p-4 border-2 rounded-2xl bg-slate-800 border-amber-400">
+            <CardHeader className="p-0">
+              <CardTitle className="flex items-center gap-2 text-slate-100">
+                <Wrench className="h-4 w-4" />
+                {t('toolCallTitle', { name: toolCallRequests[0].name })}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 pt-2">
+              <p className="text-sm text-slate-300">{toolCallRequests[0].description}</p>
+              <pre className="mt-2 whitespace-pre-wrap break-words text-xs text-slate-400">
+                {formatToolParams(toolCallRequests[0].params)}
+              </pre>
+              <div className="mt-2 flex justify-end gap-2">
+                <Button variant="ghost" onClick={() => handleToolCallResponse(toolCallRequests[0], false)}>
+                  {t('denyToolCall')}
+                </Button>
+                <Button onClick={() => handleToolCallResponse(toolCallRequests[0], true)}>
+                  {t('allowToolCall')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
       <div id="chat-input-container" className="flex-shrink-0 w-full p-4">
-        <div className="flex items-center gap-0 bg-blue-500 shadow-lg rounded-l-none rounded-r-full overflow-hidden border-2 border-blue-600 transition-all duration-300 hover:shadow-xl focus-within:shadow-xl focus-within:border-blue-400 p-3 rounded-2xl">
-          <input
-            id="chat-input-field"
-            ref={chatInputFieldRef}
-            type="text"
+        {isDraggingFiles && (
+          <p className="mb-2 text-sm text-blue-300">{t('dropFilesHere')}</p>
+        )}
+        {commandNotice && (
+          <p
+            id="chat-command-notice"
+            className={`mb-2 text-sm ${commandNotice.error ? 'text-red-400' : 'text-slate-300'}`}
+          >
+            {commandNotice.message}
+          </p>
+        )}
+        {attachmentErrors.map((error) => (
+          <p key={error} className="mb-2 text-sm text-red-400">{error}</p>
+        ))}
+        {attachments.length > 0 && (
+          <ul id="chat-attachments" className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment, index) => (
+              <li
+                key={`${attachment.name}-${index}`}
+                className="flex items-center gap-1 rounded-full bg-slate-700 px-3 py-1 text-xs text-slate-200"
+              >
+                <FileText className="h-3 w-3" />
+                {attachment.name}
+                <span className="text-slate-400">{formatFileSize(attachment.size)}</span>
+                <button
+                  type="button"
+                  aria-label={t('removeAttachment', { name: attachment.name })}
+                  className="rounded-full p-0.5 hover:bg-slate-600"
+                  onClick={() => handleRemoveAttachment(attachment)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-end gap-0 bg-blue-500 shadow-lg rounded-l-none rounded-r-full border-2 border-blue-600 transition-all duration-300 hover:shadow-xl focus-within:shadow-xl focus-within:border-blue-400 p-3 rounded-2xl">
+          <ChatComposer
+            inputRef={chatInputFieldRef}
             value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            placeholder={t('chat.inputPlaceholder')}
-            className="mr-3 flex-1 bg-slate-800 px-6 py-4 text-base outline-none placeholder:text-slate-400 text-slate-100"
+            onChange={handleInputChange}
+            onSend={handleSend}
+            history={inputHistory}
+            placeholder={t('composerPlaceholder')}
             disabled={isStreaming}
-            onKeyDown={(e) => handleKeyDown(e, inputValue, handleSend)}
           />
           <Button
             size="lg"
+            aria-label={t('attachFiles')}
+            className="mr-2 rounded-full bg-slate-700 hover:cursor-pointer hover:bg-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-300"
+            disabled={isStreaming}
+            onClick={handlePickAttachments}
+          >
+            <Paperclip className="h-5 w-5" />
+          </Button>
+          {isStreaming && (
+            <Button
+              size="lg"
+              aria-label={t('stopGeneration')}
+              className="mr-2 rounded-full bg-red-600 hover:cursor-pointer hover:bg-red-700 text-white shadow-md hover:shadow-lg transition-all duration-300"
+              onClick={handleStop}
+            >
+              <Square className="h-5 w-5" />
+            </Button>
+          )}
+          <Button
+            size="lg"
+            aria-label={t('sendMessage')}
             className="mr-2 rounded-full bg-slate-700 hover:cursor-pointer hover:bg-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-300 transform hover:scale-105"
             disabled={isStreaming}
             onClick={() => handleSendClick(inputValue, handleSend)}
@@ -0,0 +1,99 @@
+import {
+  CHAT_DRAG_TYPE,
+  collectTags,
+  filterChats,
+  groupChats,
+  isChatDrag,
+  parseTagInput,
+  parseTags,
+  readDraggedChatId,
+} from './ChatSidebar.helpers';
+
+const chat = (id: number, fields: Record<string, unknown> = {}) => ({
+  id,
+  name: `Chat ${id}`,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields,
+});
+
+describe('ChatSidebar.helpers', () => {
+  describe('parseTags', () => {
+    it('should read the stored tags', () => {
+      expect(parseTags('["work","ideas"]')).toEqual(['work', 'ideas']);
+    });
+
+    it('should ignore missing and malformed values', () => {
+      expect(parseTags(undefined)).toEqual([]);
+      expect(parseTags(null)).toEqual([]);
+      expect(parseTags('not json')).toEqual([]);
+      expect(parseTags('{"tag":"work"}')).toEqual([]);
+      expect(parseTags('["work",3]')).toEqual(['work']);
+    });
+  });
+
+  describe('collectTags', () => {
+    it('should list every tag once, sorted', () => {
+      const chats = [chat(1, { tags: '["work","Ideas"]' }), chat(2, { tags: '["ideas","art"]' }), chat(3)];
+
+      expect(collectTags(chats)).toEqual(['art', 'Ideas', 'work']);
+    });
+  });
+
+  describe('filterChats', () => {
+    const chats = [
+      chat(1, { tags: '["work"]' }),
+      chat(2, { tags: '["Work"]', archived: true }),
+      chat(3, { tags: '[]' }),
+    ];
+
+    it('should show the archive or the other chats', () => {
+      expect(filterChats(chats, { archived: false, tag: null }).map(c => c.id)).toEqual([1, 3]);
+      expect(filterChats(chats, { archived: true, tag: null }).map(c => c.id)).toEqual([2]);
+    });
+
+    it('should keep the chats with the tag, ignoring its case', () => {
+      expect(filterChats(chats, { archived: false, tag: 'WORK' }).map(c => c.id)).toEqual([1]);
+    });
+  });
+
+  describe('groupChats', () => {
+    const folders = [{ id: 10, name: 'Work' }, { id: 11, name: 'Empty' }];
+
+    it('should put pinned chats first, then each folder, then the other chats', () => {
+      const chats = [chat(1, { folderId: 10 }), chat(2, { pinned: true, folderId: 10 }), chat(3), chat(4, { folderId: null })];
+
+      const groups = groupChats(chats, folders);
+
+      expect(groups.pinned.map(c => c.id)).toEqual([2]);
+      expect(groups.folders.map(({ folder, chats: list }) => [folder.id, list.map(c => c.id)])).toEqual([
+        [10, [1]],
+        [11, []],
+      ]);
+      expect(groups.unfiled.map(c => c.id)).toEqual([3, 4]);
+    });
+
+    it('should treat chats of an unknown folder as unfiled', () => {
+      expect(groupChats([chat(1, { folderId: 99 })], folders).unfiled.map(c => c.id)).toEqual([1]);
+    });
+  });
+
+  describe('parseTagInput', () => {
+    it('should split the tags on commas', () => {
+      expect(parseTagInput(' work, side project ,, ')).toEqual(['work', 'side project']);
+      expect(parseTagInput('')).toEqual([]);
+    });
+  });
+
+  describe('drag data', () => {
+    it('should read the id of a dragged chat', () => {
+      expect(readDraggedChatId({ getData: (type: string) => (type === CHAT_DRAG_TYPE ? '12' : '') })).toBe(12);
+    });
+
+    it('should ignore other drags', () => {
+      expect(readDraggedChatId({ getData: () => '' })).toBeNull();
+      expect(isChatDrag({ types: ['Files'] as unknown as readonly string[] })).toBe(false);
+      expect(isChatDrag({ types: [CHAT_DRAG_TYPE] as unknown as readonly string[] })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Helper functions for the chat sidebar: tags, filters, folder groups and drag-and-drop
+ */
+
+export interface SidebarChat {
+  id: number;
+  name: string;
+  pinned?: boolean;
+  archived?: boolean;
+  tags?: string; // JSON array of tag names
+  folderId?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatFolder {
+  id: number;
+  name: string;
+}
+
+/**
+ * What the chat list shows: the archive or the other chats, optionally only those with a tag
+ */
+export interface ChatFilter {
+  archived: boolean;
+  tag: string | null;
+}
+
+export interface ChatGroups<T extends SidebarChat> {
+  pinned: T[];
+  folders: Array<{ folder: ChatFolder; chats: T[] }>;
+  unfiled: T[]; // Chats in no folder
+}
+
+/**
+ * Read the tags stored with a chat, ignoring malformed values
+ */
+export function parseTags(json: string | null | undefined): string[] {
+  if (!json) return [];
+
+  try {
+    const tags = JSON.parse(json);
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Every tag used by the chats, sorted, to offer as filters
+ */
+export function collectTags(chats: SidebarChat[]): string[] {
+  const tags = new Map<string, string>();
+  chats.forEach((chat) => parseTags(chat.tags).forEach((tag) => {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }));
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Keep the chats matching the filter, in their order
+ */
+export function filterChats<T extends SidebarChat>(chats: T[], filter: ChatFilter): T[] {
+  const tag = filter.tag?.toLowerCase();
+  return chats.filter((chat) =>
+    Boolean(chat.archived) === filter.archived &&
+    (!tag || parseTags(chat.tags).some((chatTag) => chatTag.toLowerCase() === tag))
+  );
+}
+
+/**
+ * Sort chats into the sidebar groups: pinned chats first, wherever they are filed,
+ * then each folder, then the chats in no folder. Chats of an unknown folder are unfiled.
+ */
+export function groupChats<T extends SidebarChat>(chats: T[], folders: ChatFolder[]): ChatGroups<T> {
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const unpinned = chats.filter((chat) => !chat.pinned);
+
+  return {
+    pinned: chats.filter((chat) => chat.pinned),
+    folders: folders.map((folder) => ({
+      folder,
+      chats: unpinned.filter((chat) => chat.folderId === folder.id),
+    })),
+    unfiled: unpinned.filter((chat) => chat.folderId == null || !folderIds.has(chat.folderId)),
+  };
+}
+
+/**
+ * Read the tags typed in the organize panel, separated by commas
+ */
+export function parseTagInput(input: string): string[] {
+  return input.split(',').map((tag) => tag.trim()).filter(Boolean);
+}
+
+// Type of the drag data carrying the id of a dragged chat
+export const CHAT_DRAG_TYPE = 'application/x-chat-id';
+
+/**
+ * Id of the chat being dropped, or null when something else is dragged
+ */
+export function readDraggedChatId(dataTransfer: Pick<DataTransfer, 'getData'>): number | null {
+  const chatId = Number.parseInt(dataTransfer.getData(CHAT_DRAG_TYPE), 10);
+  return Number.isNaN(chatId) ? null : chatId;
+}
+
+/**
+ * Whether a drag carries a chat, checked while dragging when its data cannot be read yet
+ */
+export function isChatDrag(dataTransfer: Pick<DataTransfer, 'types'>): boolean {
+  return Array.from(dataTransfer.types).includes(CHAT_DRAG_TYPE);
+}
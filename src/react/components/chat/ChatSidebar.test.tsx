@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { ChatSidebar } from './ChatSidebar';
 
 // Mock translation
@@ -14,16 +14,67 @@ jest.mock('lucide-react', () => ({
   MessageSquare: () => <span>MessageSquare Icon</span>,
   Trash2: () => <span>Trash Icon</span>,
   Plus: () => <span>Plus Icon</span>,
+  Download: () => <span>Download Icon</span>,
+  Upload: () => <span>Upload Icon</span>,
+  Search: () => <span>Search Icon</span>,
+  Archive: () => <span>Archive Icon</span>,
+  ArchiveRestore: () => <span>ArchiveRestore Icon</span>,
+  FolderPlus: () => <span>FolderPlus Icon</span>,
+  Pencil: () => <span>Pencil Icon</span>,
+  Pin: () => <span>Pin Icon</span>,
+  PinOff: () => <span>PinOff Icon</span>,
+  Tag: () => <span>Tag Icon</span>,
+  ListChecks: () => <span>ListChecks Icon</span>,
+  X: () => <span>X Icon</span>,
+  Sparkles: () => <span>Sparkles Icon</span>,
 }));
 
 // Mock electronAPI
 const mockChatGetAll = jest.fn();
 const mockChatDelete = jest.fn();
+const mockChatExport = jest.fn();
+const mockChatImport = jest.fn();
+const mockChatSearch = jest.fn();
+const mockChatGetFolders = jest.fn();
+const mockChatUpdatePinned = jest.fn();
+const mockChatUpdateArchived = jest.fn();
+const mockChatUpdateTags = jest.fn();
+const mockChatMoveToFolder = jest.fn();
+const mockChatCreateFolder = jest.fn();
+const mockChatRenameFolder = jest.fn();
+const mockChatDeleteFolder = jest.fn();
+const mockChatDeleteMany = jest.fn();
+const mockChatUpdateArchivedMany = jest.fn();
+const mockChatExportMany = jest.fn();
+const mockChatSuggestTitle = jest.fn();
+const mockChatUpdateName = jest.fn();
+const mockRetentionUnsubscribe = jest.fn();
+let retentionListener: ((chatIds: number[]) => void) | null = null;
 
 beforeAll(() => {
   (global as any).window.electronAPI = {
     chatGetAll: mockChatGetAll,
     chatDelete: mockChatDelete,
+    chatExport: mockChatExport,
+    chatImport: mockChatImport,
+    chatSearch: mockChatSearch,
+    chatGetFolders: mockChatGetFolders,
+    chatUpdatePinned: mockChatUpdatePinned,
+    chatUpdateArchived: mockChatUpdateArchived,
+    chatUpdateTags: mockChatUpdateTags,
+    chatMoveToFolder: mockChatMoveToFolder,
+    chatCreateFolder: mockChatCreateFolder,
+    chatRenameFolder: mockChatRenameFolder,
+    chatDeleteFolder: mockChatDeleteFolder,
+    chatDeleteMany: mockChatDeleteMany,
+    chatUpdateArchivedMany: mockChatUpdateArchivedMany,
+    chatExportMany: mockChatExportMany,
+    chatSuggestTitle: mockChatSuggestTitle,
+    chatUpdateName: mockChatUpdateName,
+    retentionOnApplied: jest.fn((callback) => {
+      retentionListener = callback;
+      return mockRetentionUnsubscribe;
+    }),
   };
 });
 
@@ -67,6 +118,7 @@ describe('ChatSidebar', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockChatGetFolders.mockResolvedValue([]);
   });
 
   it('should render without crashing', async () => {
@@ -353,4 +405,773 @@ describe('ChatSidebar', () => {
 
     consoleErrorSpy.mockRestore();
   });
-});
\ No newline at end of file
+
+  describe('export and import', () => {
+    const mockChats = [
+      { id: 1, name: 'Chat 1', createdAt: new Date(), updatedAt: new Date() },
+    ];
+
+    const renderSidebar = () => render(
+      <ChatSidebar
+        selectedChatId={null}
+        onChatSelect={mockOnChatSelect}
+        onNewChat={mockOnNewChat}
+      />
+    );
+
+    it('should export a chat in the chosen format', async () => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatExport.mockResolvedValue('/tmp/Chat 1.html');
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByText('exportHtml')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('exportChat'));
+      expect(screen.getByText('exportMarkdown')).toBeInTheDocument();
+      expect(screen.getByText('exportJson')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('exportHtml'));
+
+      await waitFor(() => {
+        expect(mockChatExport).toHaveBeenCalledWith(1, 'html');
+      });
+      expect(screen.queryByText('exportHtml')).not.toBeInTheDocument();
+      expect(mockOnChatSelect).not.toHaveBeenCalled();
+    });
+
+    it('should close the export menu when toggled again', async () => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('exportChat'));
+      fireEvent.click(screen.getByLabelText('exportChat'));
+
+      expect(screen.queryByText('exportMarkdown')).not.toBeInTheDocument();
+    });
+
+    it('should handle export error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatExport.mockRejectedValue(new Error('Failed to export'));
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('exportChat'));
+      fireEvent.click(screen.getByText('exportJson'));
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to export chat:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should add and select an imported chat', async () => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatImport.mockResolvedValue({ id: 2, name: 'Imported Chat', createdAt: new Date(), updatedAt: new Date() });
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('importChat'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Imported Chat')).toBeInTheDocument();
+      });
+      expect(mockOnChatSelect).toHaveBeenCalledWith(2);
+    });
+
+    it('should do nothing when the import is canceled', async () => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatImport.mockResolvedValue(null);
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('importChat'));
+
+      await waitFor(() => {
+        expect(mockChatImport).toHaveBeenCalled();
+      });
+      expect(mockOnChatSelect).not.toHaveBeenCalled();
+    });
+
+    it('should handle import error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatImport.mockRejectedValue(new Error('Invalid chat export: unknown format'));
+
+      renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('importChat'));
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to import chat:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('search', () => {
+    const renderSidebar = () => render(
+      <ChatSidebar
+        selectedChatId={null}
+        onChatSelect={mockOnChatSelect}
+        onNewChat={mockOnNewChat}
+      />
+    );
+
+    const searchResults = [
+      {
+        chatId: 2,
+        chatName: 'Cooking',
+        messageId: 7,
+        role: 'assistant',
+        snippet: [{ text: 'Add the ', match: false }, { text: 'flour', match: true }],
+        rank: -2,
+      },
+      {
+        chatId: 3,
+        chatName: 'Flour types',
+        messageId: null,
+        role: null,
+        snippet: [{ text: 'Flour', match: true }, { text: ' types', match: false }],
+        rank: -1,
+      },
+    ];
+
+    beforeEach(() => {
+      mockChatGetAll.mockResolvedValue([
+        { id: 1, name: 'Chat 1', createdAt: new Date(), updatedAt: new Date() },
+      ]);
+    });
+
+    it('should show highlighted results instead of the chat list', async () => {
+      mockChatSearch.mockResolvedValue(searchResults);
+
+      const { container } = renderSidebar();
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+
+      fireEvent.change(screen.getByLabelText('searchChats'), { target: { value: 'flour' } });
+
+      await waitFor(() => {
+        expect(mockChatSearch).toHaveBeenCalledWith('flour');
+        expect(screen.getByText('Cooking')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Chat 1')).not.toBeInTheDocument();
+      expect(Array.from(container.querySelectorAll('mark')).map((mark) => mark.textContent)).toEqual(['flour', 'Flour']);
+    });
+
+    it('should open the chat at the matching message', async () => {
+      mockChatSearch.mockResolvedValue(searchResults);
+
+      renderSidebar();
+
+      fireEvent.change(screen.getByLabelText('searchChats'), { target: { value: 'flour' } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Cooking')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Cooking'));
+      expect(mockOnChatSelect).toHaveBeenCalledWith(2, 7);
+
+      fireEvent.click(screen.getByText('Flour').closest('button')!);
+      expect(mockOnChatSelect).toHaveBeenCalledWith(3, undefined);
+    });
+
+    it('should only search once typing pauses', async () => {
+      mockChatSearch.mockResolvedValue([]);
+
+      renderSidebar();
+
+      const input = screen.getByLabelText('searchChats');
+      fireEvent.change(input, { target: { value: 'fl' } });
+      fireEvent.change(input, { target: { value: 'flo' } });
+
+      await waitFor(() => {
+        expect(mockChatSearch).toHaveBeenCalledWith('flo');
+      });
+      expect(mockChatSearch).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('noSearchResults')).toBeInTheDocument();
+    });
+
+    it('should restore the chat list when the search is cleared', async () => {
+      mockChatSearch.mockResolvedValue(searchResults);
+
+      renderSidebar();
+
+      const input = screen.getByLabelText('searchChats');
+      fireEvent.change(input, { target: { value: 'flour' } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Cooking')).toBeInTheDocument();
+      });
+
+      fireEvent.change(input, { target: { value: '  ' } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat 1')).toBeInTheDocument();
+      });
+      expect(mockChatSearch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle search error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatSearch.mockRejectedValue(new Error('Search failed'));
+
+      renderSidebar();
+
+      fireEvent.change(screen.getByLabelText('searchChats'), { target: { value: 'flour' } });
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to search chats:', expect.any(Error));
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('organization', () => {
+    const mockFolders = [{ id: 10, name: 'Work' }];
+    const mockChats = [
+      { id: 1, name: 'Pinned chat', pinned: true, archived: false, tags: '["ideas"]', folderId: 10, createdAt: new Date(), updatedAt: new Date() },
+      { id: 2, name: 'Filed chat', pinned: false, archived: false, tags: '["work"]', folderId: 10, createdAt: new Date(), updatedAt: new Date() },
+      { id: 3, name: 'Loose chat', pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 4, name: 'Old chat', pinned: false, archived: true, tags: '["work"]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+    ];
+
+    // Drag data carried between the drag events, as jsdom has no DataTransfer
+    const createDataTransfer = () => {
+      const data: Record<string, string> = {};
+      return {
+        setData: (type: string, value: string) => { data[type] = value; },
+        getData: (type: string) => data[type] ?? '',
+        get types() { return Object.keys(data); },
+        dropEffect: 'none',
+        effectAllowed: 'all',
+      };
+    };
+
+    const renderSidebar = async () => {
+      const result = render(
+        <ChatSidebar
+          selectedChatId={null}
+          onChatSelect={mockOnChatSelect}
+          onNewChat={mockOnNewChat}
+        />
+      );
+      await waitFor(() => {
+        expect(screen.getByText('Loose chat')).toBeInTheDocument();
+      });
+      return result;
+    };
+
+    const chatRow = (container: HTMLElement, chatId: number) =>
+      container.querySelector(`[data-chat-id="${chatId}"]`) as HTMLElement;
+
+    beforeEach(() => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+      mockChatGetFolders.mockResolvedValue(mockFolders);
+      global.confirm = jest.fn(() => true);
+    });
+
+    it('should group pinned chats, folders and the other chats, hiding archived ones', async () => {
+      const { container } = await renderSidebar();
+
+      const labels = screen.getAllByTestId('sidebar-group-label').map(label => label.textContent);
+      expect(labels).toEqual(['pinnedChats', 'Work', 'conversations']);
+      expect(container.querySelector('[data-folder-id="10"]')).toHaveTextContent('Filed chat');
+      expect(container.querySelector('[data-folder-id="10"]')).not.toHaveTextContent('Pinned chat');
+      expect(container.querySelector('[data-folder-id="none"]')).toHaveTextContent('Loose chat');
+      expect(screen.queryByText('Old chat')).not.toBeInTheDocument();
+      expect(chatRow(container, 1)).toHaveTextContent('#ideas');
+    });
+
+    it('should show the archive', async () => {
+      await renderSidebar();
+
+      fireEvent.click(screen.getByText('showArchived'));
+
+      expect(screen.getByText('archivedChats')).toBeInTheDocument();
+      expect(screen.getByText('Old chat')).toBeInTheDocument();
+      expect(screen.queryByText('Loose chat')).not.toBeInTheDocument();
+    });
+
+    it('should filter the chats by tag', async () => {
+      await renderSidebar();
+
+      const tagButtons = screen.getAllByLabelText('filterByTag');
+      expect(tagButtons.map(button => button.textContent)).toEqual(['#ideas', '#work']);
+
+      fireEvent.click(tagButtons[1]);
+
+      expect(tagButtons[1]).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByText('Filed chat')).toBeInTheDocument();
+      expect(screen.queryByText('Loose chat')).not.toBeInTheDocument();
+      expect(screen.queryByText('Pinned chat')).not.toBeInTheDocument();
+
+      fireEvent.click(tagButtons[1]);
+      expect(screen.getByText('Loose chat')).toBeInTheDocument();
+    });
+
+    it('should pin and archive a chat', async () => {
+      mockChatUpdatePinned.mockResolvedValue({ ...mockChats[2], pinned: true });
+      mockChatUpdateArchived.mockResolvedValue({ ...mockChats[1], archived: true });
+      const { container } = await renderSidebar();
+
+      fireEvent.click(chatRow(container, 3).querySelector('button[aria-label="pinChat"]')!);
+      await waitFor(() => {
+        expect(mockChatUpdatePinned).toHaveBeenCalledWith(3, true);
+        expect(chatRow(container, 3).querySelector('button[aria-label="unpinChat"]')).toBeInTheDocument();
+      });
+
+      fireEvent.click(chatRow(container, 2).querySelector('button[aria-label="archiveChat"]')!);
+      await waitFor(() => {
+        expect(mockChatUpdateArchived).toHaveBeenCalledWith(2, true);
+        expect(screen.queryByText('Filed chat')).not.toBeInTheDocument();
+      });
+    });
+
+    it('should edit the tags and folder of a chat', async () => {
+      mockChatUpdateTags.mockResolvedValue({ ...mockChats[2], tags: '["travel","plans"]' });
+      mockChatMoveToFolder.mockResolvedValue({ ...mockChats[2], folderId: 10 });
+      const { container } = await renderSidebar();
+
+      fireEvent.click(chatRow(container, 3).querySelector('button[aria-label="organizeChat"]')!);
+      fireEvent.change(screen.getByPlaceholderText('chatTagsPlaceholder'), { target: { value: 'travel, plans' } });
+      fireEvent.click(screen.getByText('saveTags'));
+
+      await waitFor(() => {
+        expect(mockChatUpdateTags).toHaveBeenCalledWith(3, ['travel', 'plans']);
+        expect(screen.getByText('#travel #plans')).toBeInTheDocument();
+      });
+
+      fireEvent.click(chatRow(container, 3).querySelector('button[aria-label="organizeChat"]')!);
+      fireEvent.change(screen.getByRole('combobox'), { target: { value: '10' } });
+
+      await waitFor(() => {
+        expect(mockChatMoveToFolder).toHaveBeenCalledWith(3, 10);
+        expect(container.querySelector('[data-folder-id="10"]')).toHaveTextContent('Loose chat');
+      });
+    });
+
+    it('should move a chat dropped on a folder', async () => {
+      mockChatMoveToFolder.mockResolvedValue({ ...mockChats[2], folderId: 10 });
+      const { container } = await renderSidebar();
+      const dataTransfer = createDataTransfer();
+      const folder = container.querySelector('[data-folder-id="10"]') as HTMLElement;
+
+      fireEvent.dragStart(chatRow(container, 3), { dataTransfer });
+      fireEvent.dragOver(folder, { dataTransfer });
+      expect(folder).toHaveClass('ring-2');
+      fireEvent.drop(folder, { dataTransfer });
+
+      await waitFor(() => {
+        expect(mockChatMoveToFolder).toHaveBeenCalledWith(3, 10);
+        expect(folder).toHaveTextContent('Loose chat');
+      });
+      expect(folder).not.toHaveClass('ring-2');
+    });
+
+    it('should move a chat out of its folder when dropped on the other chats', async () => {
+      mockChatMoveToFolder.mockResolvedValue({ ...mockChats[1], folderId: null });
+      const { container } = await renderSidebar();
+      const dataTransfer = createDataTransfer();
+      const unfiled = container.querySelector('[data-folder-id="none"]') as HTMLElement;
+
+      fireEvent.dragStart(chatRow(container, 2), { dataTransfer });
+      fireEvent.drop(unfiled, { dataTransfer });
+
+      await waitFor(() => {
+        expect(mockChatMoveToFolder).toHaveBeenCalledWith(2, null);
+      });
+    });
+
+    it('should not move a chat dropped on its own folder', async () => {
+      const { container } = await renderSidebar();
+      const dataTransfer = createDataTransfer();
+
+      fireEvent.dragStart(chatRow(container, 2), { dataTransfer });
+      fireEvent.drop(container.querySelector('[data-folder-id="10"]')!, { dataTransfer });
+
+      expect(mockChatMoveToFolder).not.toHaveBeenCalled();
+    });
+
+    it('should create a folder', async () => {
+      mockChatCreateFolder.mockResolvedValue({ id: 11, name: 'Ideas' });
+      await renderSidebar();
+
+      fireEvent.click(screen.getByText('newFolder'));
+      const input = screen.getByLabelText('folderName');
+      fireEvent.change(input, { target: { value: 'Ideas' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(mockChatCreateFolder).toHaveBeenCalledWith('Ideas');
+        expect(screen.getAllByTestId('sidebar-group-label').map(label => label.textContent))
+          .toEqual(['pinnedChats', 'Ideas', 'Work', 'conversations']);
+      });
+    });
+
+    it('should rename a folder', async () => {
+      mockChatRenameFolder.mockResolvedValue({ id: 10, name: 'Projects' });
+      await renderSidebar();
+
+      fireEvent.click(screen.getByLabelText('renameFolder'));
+      const input = screen.getByLabelText('folderName');
+      fireEvent.change(input, { target: { value: 'Projects' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(mockChatRenameFolder).toHaveBeenCalledWith(10, 'Projects');
+        expect(screen.getByText('Projects')).toBeInTheDocument();
+      });
+    });
+
+    it('should delete a folder after confirmation, keeping its chats', async () => {
+      mockChatDeleteFolder.mockResolvedValue(undefined);
+      const { container } = await renderSidebar();
+
+      fireEvent.click(screen.getByLabelText('deleteFolder'));
+
+      await waitFor(() => {
+        expect(mockChatDeleteFolder).toHaveBeenCalledWith(10);
+        expect(container.querySelector('[data-folder-id="10"]')).not.toBeInTheDocument();
+      });
+      expect(container.querySelector('[data-folder-id="none"]')).toHaveTextContent('Filed chat');
+    });
+
+    it('should not delete a folder when the confirmation is declined', async () => {
+      (global.confirm as jest.Mock).mockReturnValue(false);
+      await renderSidebar();
+
+      fireEvent.click(screen.getByLabelText('deleteFolder'));
+
+      expect(mockChatDeleteFolder).not.toHaveBeenCalled();
+    });
+
+    it('should handle organization errors', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatUpdatePinned.mockRejectedValue(new Error('Chat 3 not found'));
+      const { container } = await renderSidebar();
+
+      fireEvent.click(chatRow(container, 3).querySelector('button[aria-label="pinChat"]')!);
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to pin chat:', expect.any(Error));
+      });
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('bulk operations', () => {
+    const mockChats = [
+      { id: 1, name: 'First chat', pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 2, name: 'Second chat', pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 3, name: 'Third chat', pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+    ];
+
+    const renderSidebar = async (selectedChatId: number | null = null) => {
+      const result = render(
+        <ChatSidebar
+          selectedChatId={selectedChatId}
+          onChatSelect={mockOnChatSelect}
+          onNewChat={mockOnNewChat}
+          onChatDeleted={mockOnChatDeleted}
+        />
+      );
+      await waitFor(() => {
+        expect(screen.getByText('Third chat')).toBeInTheDocument();
+      });
+      return result;
+    };
+
+    const selectChats = (...names: string[]) => {
+      fireEvent.click(screen.getByText('selectChats'));
+      names.forEach(name => fireEvent.click(screen.getByText(name)));
+    };
+
+    beforeEach(() => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+      global.confirm = jest.fn(() => true);
+    });
+
+    it('should check chats instead of opening them while selecting', async () => {
+      await renderSidebar();
+
+      selectChats('First chat', 'Third chat');
+
+      expect(mockOnChatSelect).not.toHaveBeenCalled();
+      expect(screen.getAllByRole('checkbox').map(box => (box as HTMLInputElement).checked)).toEqual([true, false, true]);
+      expect(screen.getByText('selectedCount')).toBeInTheDocument();
+      expect(screen.queryByLabelText('deleteChat')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('First chat'));
+      expect(screen.getAllByRole('checkbox').map(box => (box as HTMLInputElement).checked)).toEqual([false, false, true]);
+    });
+
+    it('should select every chat shown, then none', async () => {
+      await renderSidebar();
+
+      selectChats();
+      fireEvent.click(screen.getByText('selectAll'));
+      expect(screen.getAllByRole('checkbox').every(box => (box as HTMLInputElement).checked)).toBe(true);
+
+      fireEvent.click(screen.getByText('selectNone'));
+      expect(screen.getAllByRole('checkbox').some(box => (box as HTMLInputElement).checked)).toBe(false);
+    });
+
+    it('should leave selection mode when canceled', async () => {
+      await renderSidebar();
+
+      selectChats('First chat');
+      fireEvent.click(screen.getByLabelText('cancelSelection'));
+
+      expect(screen.queryByTestId('bulk-actions')).not.toBeInTheDocument();
+      expect(screen.queryAllByRole('checkbox')).toHaveLength(0);
+      fireEvent.click(screen.getByText('First chat'));
+      expect(mockOnChatSelect).toHaveBeenCalledWith(1);
+    });
+
+    it('should delete the selected chats after confirmation', async () => {
+      mockChatDeleteMany.mockResolvedValue(undefined);
+      await renderSidebar(2);
+
+      selectChats('First chat', 'Second chat');
+      fireEvent.click(screen.getByText('deleteSelected'));
+
+      await waitFor(() => {
+        expect(mockChatDeleteMany).toHaveBeenCalledWith([1, 2]);
+        expect(screen.queryByText('First chat')).not.toBeInTheDocument();
+      });
+      expect(global.confirm).toHaveBeenCalledWith('deleteSelectedConfirm');
+      expect(screen.queryByText('Second chat')).not.toBeInTheDocument();
+      expect(screen.getByText('Third chat')).toBeInTheDocument();
+      expect(mockOnChatDeleted).toHaveBeenCalled();
+      expect(screen.queryByTestId('bulk-actions')).not.toBeInTheDocument();
+    });
+
+    it('should not delete the selected chats when not confirmed', async () => {
+      global.confirm = jest.fn(() => false);
+      await renderSidebar();
+
+      selectChats('First chat');
+      fireEvent.click(screen.getByText('deleteSelected'));
+
+      expect(mockChatDeleteMany).not.toHaveBeenCalled();
+      expect(screen.getByText('First chat')).toBeInTheDocument();
+    });
+
+    it('should archive the selected chats', async () => {
+      mockChatUpdateArchivedMany.mockResolvedValue([{ ...mockChats[0], archived: true }, { ...mockChats[2], archived: true }]);
+      await renderSidebar();
+
+      selectChats('First chat', 'Third chat');
+      fireEvent.click(screen.getByText('archiveSelected'));
+
+      await waitFor(() => {
+        expect(mockChatUpdateArchivedMany).toHaveBeenCalledWith([1, 3], true);
+        expect(screen.queryByText('First chat')).not.toBeInTheDocument();
+      });
+      expect(screen.queryByText('Third chat')).not.toBeInTheDocument();
+      expect(screen.getByText('Second chat')).toBeInTheDocument();
+    });
+
+    it('should export the selected chats in the chosen format', async () => {
+      mockChatExportMany.mockResolvedValue('/tmp/exports');
+      await renderSidebar();
+
+      selectChats('Second chat', 'Third chat');
+      fireEvent.click(screen.getByText('exportSelected'));
+      fireEvent.click(screen.getByText('exportHtml'));
+
+      await waitFor(() => {
+        expect(mockChatExportMany).toHaveBeenCalledWith([2, 3], 'html');
+      });
+    });
+
+    it('should disable the bulk actions until a chat is selected', async () => {
+      await renderSidebar();
+
+      selectChats();
+
+      expect(screen.getByText('deleteSelected').closest('button')).toBeDisabled();
+      expect(screen.getByText('archiveSelected').closest('button')).toBeDisabled();
+      expect(screen.getByText('exportSelected').closest('button')).toBeDisabled();
+    });
+
+    it('should reload the chats deleted by the retention policy', async () => {
+      await renderSidebar(3);
+      mockChatGetAll.mockResolvedValue(mockChats.slice(0, 1));
+
+      await act(async () => {
+        retentionListener!([2, 3]);
+      });
+
+      await waitFor(() => {
+        expect(screen.queryByText('Third chat')).not.toBeInTheDocument();
+      });
+      expect(screen.getByText('First chat')).toBeInTheDocument();
+      expect(mockOnChatDeleted).toHaveBeenCalled();
+    });
+
+    it('should stop listening to the retention policy when unmounted', async () => {
+      const { unmount } = await renderSidebar();
+
+      unmount();
+
+      expect(mockRetentionUnsubscribe).toHaveBeenCalled();
+    });
+  });
+
+  describe('title suggestions', () => {
+    const mockChats = [
+      { id: 1, name: 'Chat about Hello...', nameSetByUser: false, pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 2, name: 'Groceries', nameSetByUser: true, pinned: false, archived: false, tags: '[]', folderId: null, createdAt: new Date(), updatedAt: new Date() },
+    ];
+    const mockOnChatRenamed = jest.fn();
+
+    const renderSidebar = async () => {
+      const result = render(
+        <ChatSidebar
+          selectedChatId={1}
+          onChatSelect={mockOnChatSelect}
+          onNewChat={mockOnNewChat}
+          onChatRenamed={mockOnChatRenamed}
+        />
+      );
+      await waitFor(() => {
+        expect(screen.getByText('Groceries')).toBeInTheDocument();
+      });
+      return result;
+    };
+
+    const chatRow = (container: HTMLElement, chatId: number) =>
+      container.querySelector(`[data-chat-id="${chatId}"]`) as HTMLElement;
+
+    const suggestTitle = (container: HTMLElement, chatId: number) => {
+      fireEvent.click(chatRow(container, chatId).querySelector('button[aria-label="suggestTitle"]')!);
+    };
+
+    beforeEach(() => {
+      mockChatGetAll.mockResolvedValue(mockChats);
+    });
+
+    it('should suggest a title without renaming the chat', async () => {
+      mockChatSuggestTitle.mockResolvedValue('Greetings and small talk');
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 1);
+
+      expect(await screen.findByLabelText('suggestedTitle')).toHaveValue('Greetings and small talk');
+      expect(mockChatSuggestTitle).toHaveBeenCalledWith(1);
+      expect(mockOnChatSelect).not.toHaveBeenCalled();
+      expect(mockChatUpdateName).not.toHaveBeenCalled();
+      expect(screen.getByText('Chat about Hello...')).toBeInTheDocument();
+    });
+
+    it('should rename the chat with the edited suggestion', async () => {
+      mockChatSuggestTitle.mockResolvedValue('Greetings and small talk');
+      const renamed = { ...mockChats[0], name: 'Small talk', nameSetByUser: true };
+      mockChatUpdateName.mockResolvedValue(renamed);
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 1);
+      fireEvent.change(await screen.findByLabelText('suggestedTitle'), { target: { value: ' Small talk ' } });
+      fireEvent.click(screen.getByText('useSuggestedTitle'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Small talk')).toBeInTheDocument();
+      });
+      expect(mockChatUpdateName).toHaveBeenCalledWith(1, 'Small talk');
+      expect(mockOnChatRenamed).toHaveBeenCalledWith(renamed);
+      expect(screen.queryByTestId('title-suggestion')).not.toBeInTheDocument();
+    });
+
+    it('should keep the current name when the suggestion is dismissed', async () => {
+      mockChatSuggestTitle.mockResolvedValue('Shopping list');
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 2);
+      fireEvent.keyDown(await screen.findByLabelText('suggestedTitle'), { key: 'Escape' });
+
+      expect(screen.queryByTestId('title-suggestion')).not.toBeInTheDocument();
+      suggestTitle(container, 2);
+      fireEvent.click(await screen.findByText('keepCurrentTitle'));
+
+      expect(screen.queryByTestId('title-suggestion')).not.toBeInTheDocument();
+      expect(mockChatUpdateName).not.toHaveBeenCalled();
+      expect(screen.getByText('Groceries')).toBeInTheDocument();
+    });
+
+    it('should tell when there is nothing to name the chat from yet', async () => {
+      mockChatSuggestTitle.mockResolvedValue(null);
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 1);
+
+      expect(await screen.findByText('noTitleSuggestion')).toBeInTheDocument();
+      expect(screen.queryByText('useSuggestedTitle')).not.toBeInTheDocument();
+    });
+
+    it('should ignore a suggestion arriving after another chat was picked', async () => {
+      let resolveFirst: (title: string) => void = () => {};
+      mockChatSuggestTitle
+        .mockReturnValueOnce(new Promise(resolve => { resolveFirst = resolve; }))
+        .mockResolvedValueOnce('Shopping list');
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 1);
+      suggestTitle(container, 2);
+      expect(await screen.findByLabelText('suggestedTitle')).toHaveValue('Shopping list');
+
+      await act(async () => {
+        resolveFirst('Greetings and small talk');
+      });
+
+      expect(screen.getByLabelText('suggestedTitle')).toHaveValue('Shopping list');
+      expect(screen.getAllByTestId('title-suggestion')).toHaveLength(1);
+    });
+
+    it('should log an error when no title can be suggested', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockChatSuggestTitle.mockRejectedValue(new Error('No model loaded'));
+      const { container } = await renderSidebar();
+
+      suggestTitle(container, 1);
+
+      await waitFor(() => {
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to suggest chat title:', expect.any(Error));
+      });
+      expect(screen.queryByTestId('title-suggestion')).not.toBeInTheDocument();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
@@ -1,7 +1,25 @@
-import { MessageSquare, Plus, Trash2 } from "lucide-react";
+import {
+  Archive,
+  ArchiveRestore,
+  Download,
+  FolderPlus,
+  ListChecks,
+  MessageSquare,
+  Pencil,
+  Pin,
+  PinOff,
+  Plus,
+  Search,
+  Sparkles,
+  Tag,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
 import { useEffect, useState } from 'react';
 
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Sidebar,
   SidebarContent,
@@ -14,31 +32,104 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar";
 import { useTranslation } from 'react-i18next';
+import {
+  CHAT_DRAG_TYPE,
+  collectTags,
+  filterChats,
+  groupChats,
+  isChatDrag,
+  parseTagInput,
+  parseTags,
+  readDraggedChatId,
+} from './ChatSidebar.helpers';
+import type { ChatFolder, SidebarChat } from './ChatSidebar.helpers';
+
+type ChatRecord = SidebarChat;
+
+// Drop target of a dragged chat: a folder id, or null for no folder
+type DropTarget = { folderId: number | null } | null;
+
+interface ChatSearchResult {
+  chatId: number;
+  chatName: string;
+  messageId: number | null;
+  role: 'user' | 'assistant' | 'tool' | null;
+  snippet: { text: string; match: boolean }[];
+  rank: number;
+}
 
-interface ChatRecord {
-  id: number;
-  name: string;
-  createdAt: Date;
-  updatedAt: Date;
+// Title suggested for a chat, null until generated and when there is nothing to name the chat after
+interface TitleSuggestion {
+  chatId: number;
+  title: string | null;
+  loading: boolean;
 }
 
+// Wait for a pause in typing before querying the search index
+const SEARCH_DEBOUNCE_MS = 250;
+
+type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_FORMATS: { format: ChatExportFormat; labelKey: string }[] = [
+  { format: 'markdown', labelKey: 'exportMarkdown' },
+  { format: 'json', labelKey: 'exportJson' },
+  { format: 'html', labelKey: 'exportHtml' },
+];
+
 interface ChatSidebarProps {
   selectedChatId: number | null;
-  onChatSelect: (chatId: number) => void;
+  onChatSelect: (chatId: number, messageId?: number) => void;
   onNewChat: () => void;
   onChatDeleted?: () => void;
+  onChatRenamed?: (chat: ChatRecord) => void;
 }
 
-export function ChatSidebar({ selectedChatId, onChatSelect, onNewChat, onChatDeleted }: ChatSidebarProps) {
+/**
+ * Search snippet with the matched terms highlighted
+ */
+function SearchSnippet({ segments }: { segments: ChatSearchResult['snippet'] }) {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        segment.match ? (
+          <mark key={index} className="bg-amber-400/40 text-slate-100 rounded-sm">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      ))}
+    </>
+  );
+}
+
+export function ChatSidebar({ selectedChatId, onChatSelect, onNewChat, onChatDeleted, onChatRenamed }: ChatSidebarProps) {
   const { t } = useTranslation();
   const [chats, setChats] = useState<ChatRecord[]>([]);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [exportMenuChatId, setExportMenuChatId] = useState<number | null>(null);
+  const [organizeChatId, setOrganizeChatId] = useState<number | null>(null);
+  const [titleSuggestion, setTitleSuggestion] = useState<TitleSuggestion | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [renamingFolder, setRenamingFolder] = useState<{ id: number; name: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget>(null);
+  // Chats checked for a bulk action, null outside of selection mode
+  const [selectedIds, setSelectedIds] = useState<number[] | null>(null);
+  const [bulkExportOpen, setBulkExportOpen] = useState(false);
 
   const loadChats = async () => {
     try {
       setIsLoading(true);
-      const allChats = await window.electronAPI.chatGetAll();
+      const [allChats, allFolders] = await Promise.all([
+        window.electronAPI.chatGetAll(),
+        window.electronAPI.chatGetFolders(),
+      ]);
       setChats(allChats);
+      setFolders(allFolders);
     } catch (error) {
       console.error('Failed to load chats:', error);
     } finally {
@@ -50,6 +141,44 @@ export function ChatSidebar({ selectedChatId, onChatSelect, onNewChat, onChatDel
     loadChats();
   }, []);
 
+  // Chats deleted by the retention policy disappear from the list
+  useEffect(() => {
+    return window.electronAPI.retentionOnApplied((chatIds: number[]) => {
+      loadChats();
+      setSelectedIds(prev => (prev ? prev.filter(id => !chatIds.includes(id)) : prev));
+      if (selectedChatId !== null && chatIds.includes(selectedChatId) && onChatDeleted) {
+        onChatDeleted();
+      }
+    });
+  }, [selectedChatId, onChatDeleted]);
+
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    // Ignore results of a query that was replaced while it ran
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await window.electronAPI.chatSearch(searchQuery);
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Failed to search chats:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  const replaceChat = (updated: ChatRecord) => {
+    setChats(prev => prev.map(chat => (chat.id === updated.id ? updated : chat)));
+  };
+
   const handleDeleteChat = async (chatId: number, e: React.MouseEvent) => {
     e.stopPropagation();
 
@@ -65,18 +194,457 @@ export function ChatSidebar({ selectedChatId, onChatSelect, onNewChat, onChatDel
     }
   };
 
+  const handleToggleExportMenu = (chatId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setOrganizeChatId(null);
+    setTitleSuggestion(null);
+    setExportMenuChatId(prev => (prev === chatId ? null : chatId));
+  };
+
+  const handleExportChat = async (chatId: number, format: ChatExportFormat) => {
+    setExportMenuChatId(null);
+
+    try {
+      await window.electronAPI.chatExport(chatId, format);
+    } catch (error) {
+      console.error('Failed to export chat:', error);
+    }
+  };
+
+  const handleImportChat = async () => {
+    try {
+      const chat = await window.electronAPI.chatImport();
+      if (!chat) return;
+
+      setChats(prev => [chat, ...prev]);
+      onChatSelect(chat.id);
+    } catch (error) {
+      console.error('Failed to import chat:', error);
+    }
+  };
+
   const handleNewChat = () => {
     onNewChat();
     loadChats();
   };
 
+  const handleTogglePinned = async (chat: ChatRecord, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    try {
+      replaceChat(await window.electronAPI.chatUpdatePinned(chat.id, !chat.pinned));
+    } catch (error) {
+      console.error('Failed to pin chat:', error);
+    }
+  };
+
+  const handleToggleArchived = async (chat: ChatRecord, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    try {
+      replaceChat(await window.electronAPI.chatUpdateArchived(chat.id, !chat.archived));
+    } catch (error) {
+      console.error('Failed to archive chat:', error);
+    }
+  };
+
+  const handleToggleOrganize = (chat: ChatRecord, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExportMenuChatId(null);
+    setTitleSuggestion(null);
+    setTagInput(parseTags(chat.tags).join(', '));
+    setOrganizeChatId(prev => (prev === chat.id ? null : chat.id));
+  };
+
+  const handleSaveTags = async (chatId: number) => {
+    try {
+      replaceChat(await window.electronAPI.chatUpdateTags(chatId, parseTagInput(tagInput)));
+      setOrganizeChatId(null);
+    } catch (error) {
+      console.error('Failed to update chat tags:', error);
+    }
+  };
+
+  const handleSuggestTitle = async (chat: ChatRecord, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExportMenuChatId(null);
+    setOrganizeChatId(null);
+    if (titleSuggestion?.chatId === chat.id) {
+      setTitleSuggestion(null);
+      return;
+    }
+
+    setTitleSuggestion({ chatId: chat.id, title: null, loading: true });
+    try {
+      const title: string | null = await window.electronAPI.chatSuggestTitle(chat.id);
+      // Ignore the suggestion when another chat was picked meanwhile
+      setTitleSuggestion(prev => (prev?.chatId === chat.id ? { chatId: chat.id, title, loading: false } : prev));
+    } catch (error) {
+      console.error('Failed to suggest chat title:', error);
+      setTitleSuggestion(null);
+    }
+  };
+
+  const handleApplyTitle = async () => {
+    const name = titleSuggestion?.title?.trim();
+    if (!titleSuggestion || !name) return;
+
+    try {
+      const chat = await window.electronAPI.chatUpdateName(titleSuggestion.chatId, name);
+      replaceChat(chat);
+      setTitleSuggestion(null);
+      onChatRenamed?.(chat);
+    } catch (error) {
+      console.error('Failed to rename chat:', error);
+    }
+  };
+
+  const handleMoveChat = async (chatId: number, folderId: number | null) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat || (chat.folderId ?? null) === folderId) return;
+
+    try {
+      replaceChat(await window.electronAPI.chatMoveToFolder(chatId, folderId));
+    } catch (error) {
+      console.error('Failed to move chat:', error);
+    }
+  };
+
+  const handleCreateFolder = async () => {
+    const name = newFolderName?.trim();
+    if (!name) {
+      setNewFolderName(null);
+      return;
+    }
+
+    try {
+      const folder = await window.electronAPI.chatCreateFolder(name);
+      setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewFolderName(null);
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+    }
+  };
+
+  const handleRenameFolder = async () => {
+    if (!renamingFolder) return;
+    const name = renamingFolder.name.trim();
+    const current = folders.find(folder => folder.id === renamingFolder.id);
+    if (!name || name === current?.name) {
+      setRenamingFolder(null);
+      return;
+    }
+
+    try {
+      const folder = await window.electronAPI.chatRenameFolder(renamingFolder.id, name);
+      setFolders(prev => prev.map(f => (f.id === folder.id ? folder : f)).sort((a, b) => a.name.localeCompare(b.name)));
+      setRenamingFolder(null);
+    } catch (error) {
+      console.error('Failed to rename folder:', error);
+    }
+  };
+
+  const handleDeleteFolder = async (folder: ChatFolder) => {
+    if (!confirm(t('deleteFolderConfirm', { name: folder.name }))) return;
+
+    try {
+      await window.electronAPI.chatDeleteFolder(folder.id);
+      setFolders(prev => prev.filter(f => f.id !== folder.id));
+      // Its chats stay, outside of any folder
+      setChats(prev => prev.map(chat => (chat.folderId === folder.id ? { ...chat, folderId: null } : chat)));
+    } catch (error) {
+      console.error('Failed to delete folder:', error);
+    }
+  };
+
+  const enterSelection = () => {
+    setExportMenuChatId(null);
+    setOrganizeChatId(null);
+    setTitleSuggestion(null);
+    setSelectedIds([]);
+  };
+
+  const exitSelection = () => {
+    setSelectedIds(null);
+    setBulkExportOpen(false);
+  };
+
+  const handleToggleSelected = (chatId: number) => {
+    setSelectedIds(prev => {
+      if (!prev) return prev;
+      return prev.includes(chatId) ? prev.filter(id => id !== chatId) : [...prev, chatId];
+    });
+  };
+
+  const handleBulkArchive = async () => {
+    if (!selectedIds?.length) return;
+
+    try {
+      const updated: ChatRecord[] = await window.electronAPI.chatUpdateArchivedMany(selectedIds, !showArchived);
+      setChats(prev => prev.map(chat => updated.find(u => u.id === chat.id) ?? chat));
+      exitSelection();
+    } catch (error) {
+      console.error('Failed to archive chats:', error);
+    }
+  };
+
+  const handleBulkExport = async (format: ChatExportFormat) => {
+    if (!selectedIds?.length) return;
+    setBulkExportOpen(false);
+
+    try {
+      await window.electronAPI.chatExportMany(selectedIds, format);
+    } catch (error) {
+      console.error('Failed to export chats:', error);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!selectedIds?.length) return;
+    if (!confirm(t('deleteSelectedConfirm', { count: selectedIds.length }))) return;
+
+    try {
+      await window.electronAPI.chatDeleteMany(selectedIds);
+      setChats(prev => prev.filter(chat => !selectedIds.includes(chat.id)));
+
+      if (selectedChatId !== null && selectedIds.includes(selectedChatId) && onChatDeleted) {
+        onChatDeleted();
+      }
+      exitSelection();
+    } catch (error) {
+      console.error('Failed to delete chats:', error);
+    }
+  };
+
+  const handleFormKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, onSubmit: () => void, onCancel: () => void) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onSubmit();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const dropTargetProps = (folderId: number | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!isChatDrag(e.dataTransfer)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget?.folderId !== folderId) setDropTarget({ folderId });
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // Moving over a child of the target is not leaving it
+      if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+      setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const chatId = readDraggedChatId(e.dataTransfer);
+      if (chatId !== null) handleMoveChat(chatId, folderId);
+    },
+  });
+
+  const dropTargetClasses = (folderId: number | null) =>
+    dropTarget && dropTarget.folderId === folderId ? 'rounded-md ring-2 ring-blue-400' : '';
+
+  const visibleChats = filterChats(chats, { archived: showArchived, tag: tagFilter });
+  const groups = groupChats(visibleChats, folders);
+  const tags = collectTags(chats.filter(chat => Boolean(chat.archived) === showArchived));
+  const iconButtonClasses = 'opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-slate-600 rounded text-slate-300';
+  const selecting = selectedIds !== null;
+  const allVisibleSelected = selecting && visibleChats.length > 0 && visibleChats.every(chat => selectedIds.includes(chat.id));
+
+  const renderChat = (chat: ChatRecord) => {
+    const chatTags = parseTags(chat.tags);
+    const checked = selectedIds?.includes(chat.id) ?? false;
+
+    return (
+      <SidebarMenuItem key={chat.id}>
+        <div
+          draggable={!selecting}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(CHAT_DRAG_TYPE, String(chat.id));
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragEnd={() => setDropTarget(null)}
+          data-chat-id={chat.id}
+          className={`group flex items-center justify-between px-2 py-2 rounded-md hover:bg-slate-700 cursor-pointer ${
+            selectedChatId === chat.id ? 'bg-slate-700' : ''
+          }`}
+        >
+          <div
+            className="flex items-center gap-2 flex-1 min-w-0"
+            onClick={() => (selecting ? handleToggleSelected(chat.id) : onChatSelect(chat.id))}
+          >
+            {selecting ? (
+              <input
+                type="checkbox"
+                checked={checked}
+                onChange={() => handleToggleSelected(chat.id)}
+                onClick={(e) => e.stopPropagation()}
+                aria-label={t('selectChat', { name: chat.name })}
+                className="h-4 w-4 flex-shrink-0"
+              />
+            ) : (
+              <MessageSquare className="h-4 w-4 flex-shrink-0 text-slate-300" />
+            )}
+            <div className="min-w-0">
+              <span className="block truncate text-slate-200">{chat.name}</span>
+              {chatTags.length > 0 && (
+                <span className="block truncate text-xs text-slate-400">
+                  {chatTags.map(tag => `#${tag}`).join(' ')}
+                </span>
+              )}
+            </div>
+          </div>
+          {!selecting && (
+            <>
+              <button
+                onClick={(e) => handleTogglePinned(chat, e)}
+                className={chat.pinned ? 'p-1 hover:bg-slate-600 rounded text-slate-300' : iconButtonClasses}
+                aria-label={t(chat.pinned ? 'unpinChat' : 'pinChat')}
+                aria-pressed={Boolean(chat.pinned)}
+              >
+                {chat.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              </button>
+              <button
+                onClick={(e) => handleToggleOrganize(chat, e)}
+                className={iconButtonClasses}
+                aria-label={t('organizeChat')}
+                aria-expanded={organizeChatId === chat.id}
+              >
+                <Tag className="h-3 w-3" />
+              </button>
+              <button
+                onClick={(e) => handleSuggestTitle(chat, e)}
+                className={iconButtonClasses}
+                aria-label={t('suggestTitle')}
+                aria-expanded={titleSuggestion?.chatId === chat.id}
+              >
+                <Sparkles className="h-3 w-3" />
+              </button>
+              <button
+                onClick={(e) => handleToggleArchived(chat, e)}
+                className={iconButtonClasses}
+                aria-label={t(chat.archived ? 'unarchiveChat' : 'archiveChat')}
+              >
+                {chat.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+              </button>
+              <button
+                onClick={(e) => handleToggleExportMenu(chat.id, e)}
+                className={iconButtonClasses}
+                aria-label={t('exportChat')}
+                aria-expanded={exportMenuChatId === chat.id}
+              >
+                <Download className="h-3 w-3" />
+              </button>
+              <button
+                onClick={(e) => handleDeleteChat(chat.id, e)}
+                className={iconButtonClasses}
+                aria-label={t('deleteChat')}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </>
+          )}
+        </div>
+        {exportMenuChatId === chat.id && (
+          <div className="flex gap-1 px-2 pb-2">
+            {EXPORT_FORMATS.map(({ format, labelKey }) => (
+              <button
+                key={format}
+                onClick={() => handleExportChat(chat.id, format)}
+                className="flex-1 rounded bg-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+              >
+                {t(labelKey)}
+              </button>
+            ))}
+          </div>
+        )}
+        {titleSuggestion?.chatId === chat.id && (
+          <div className="flex flex-col gap-2 px-2 pb-2" data-testid="title-suggestion">
+            {titleSuggestion.loading ? (
+              <span className="text-xs text-slate-400">{t('suggestingTitle')}</span>
+            ) : titleSuggestion.title === null ? (
+              <span className="text-xs text-slate-400">{t('noTitleSuggestion')}</span>
+            ) : (
+              <>
+                <Input
+                  value={titleSuggestion.title}
+                  onChange={(e) => setTitleSuggestion({ ...titleSuggestion, title: e.target.value })}
+                  onKeyDown={(e) => handleFormKeyDown(e, handleApplyTitle, () => setTitleSuggestion(null))}
+                  aria-label={t('suggestedTitle')}
+                  className="h-8 text-sm text-slate-200 border-slate-600"
+                />
+                <div className="flex gap-1">
+                  <button
+                    onClick={handleApplyTitle}
+                    className="flex-1 rounded bg-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+                  >
+                    {t('useSuggestedTitle')}
+                  </button>
+                  <button
+                    onClick={() => setTitleSuggestion(null)}
+                    className="flex-1 rounded bg-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+                  >
+                    {t('keepCurrentTitle')}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+        {organizeChatId === chat.id && (
+          <div className="flex flex-col gap-2 px-2 pb-2">
+            <label className="text-xs text-slate-400">
+              {t('chatTags')}
+              <Input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => handleFormKeyDown(e, () => handleSaveTags(chat.id), () => setOrganizeChatId(null))}
+                placeholder={t('chatTagsPlaceholder')}
+                className="mt-1 h-8 text-sm text-slate-200 border-slate-600"
+              />
+            </label>
+            <button
+              onClick={() => handleSaveTags(chat.id)}
+              className="rounded bg-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+            >
+              {t('saveTags')}
+            </button>
+            <label className="text-xs text-slate-400">
+              {t('chatFolder')}
+              <select
+                value={chat.folderId ?? ''}
+                onChange={(e) => handleMoveChat(chat.id, e.target.value ? Number(e.target.value) : null)}
+                className="mt-1 block w-full rounded border border-slate-600 bg-slate-800 px-2 py-1 text-sm text-slate-200"
+              >
+                <option value="">{t('noFolder')}</option>
+                {folders.map(folder => (
+                  <option key={folder.id} value={folder.id}>{folder.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+      </SidebarMenuItem>
+    );
+  };
+
+  const renderChatList = (list: ChatRecord[]) => (
+    <SidebarMenu>
+      {list.map(renderChat)}
+    </SidebarMenu>
+  );
+
   return (
     <Sidebar className="mt-12 bg-slate-800 max-w-3xs">
       <SidebarHeader className="p-4 flex flex-row justify-between">
         <h1 className="text-lg font-semibold text-slate-200">{t("chat").toUpperCase()}</h1>
         <SidebarTrigger />
       </SidebarHeader>
-      <div className="px-4 pb-2">
+      <div className="px-4 pb-2 flex flex-col gap-2">
         <Button
           onClick={handleNewChat}
           className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200"
@@ -84,49 +652,270 @@ export function ChatSidebar({ selectedChatId, onChatSelect, onNewChat, onChatDel
           <Plus className="mr-2 h-4 w-4" />
           {t('newChat')}
         </Button>
-      </div>
-      <SidebarContent>
-        <SidebarGroup>
-          <SidebarGroupLabel className="text-slate-300">{t('conversations')}</SidebarGroupLabel>
-          <SidebarGroupContent>
-            {isLoading ? (
-              <div className="px-4 py-2 text-sm text-slate-300">
-                {t('loading')}...
+        <Button
+          onClick={handleImportChat}
+          className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {t('importChat')}
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+          <Input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder={t('searchChats')}
+            aria-label={t('searchChats')}
+            className="pl-8 text-slate-200 border-slate-600"
+          />
+        </div>
+        {!searchQuery.trim() && (
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              onClick={() => {
+                setShowArchived(prev => !prev);
+                setTagFilter(null);
+                // Only the chats on screen can be selected
+                setSelectedIds(prev => (prev ? [] : prev));
+              }}
+              className={`flex items-center gap-1 rounded px-2 py-1 text-xs hover:bg-slate-600 ${
+                showArchived ? 'bg-slate-600 text-slate-100' : 'bg-slate-700 text-slate-300'
+              }`}
+              aria-pressed={showArchived}
+            >
+              <Archive className="h-3 w-3" />
+              {t('showArchived')}
+            </button>
+            <button
+              onClick={() => (selecting ? exitSelection() : enterSelection())}
+              className={`flex items-center gap-1 rounded px-2 py-1 text-xs hover:bg-slate-600 ${
+                selecting ? 'bg-slate-600 text-slate-100' : 'bg-slate-700 text-slate-300'
+              }`}
+              aria-pressed={selecting}
+            >
+              <ListChecks className="h-3 w-3" />
+              {t('selectChats')}
+            </button>
+            {!showArchived && (
+              <button
+                onClick={() => setNewFolderName('')}
+                className="flex items-center gap-1 rounded bg-slate-700 px-2 py-1 text-xs text-slate-300 hover:bg-slate-600"
+              >
+                <FolderPlus className="h-3 w-3" />
+                {t('newFolder')}
+              </button>
+            )}
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => {
+                  setTagFilter(prev => (prev === tag ? null : tag));
+                  setSelectedIds(prev => (prev ? [] : prev));
+                }}
+                className={`rounded-full px-2 py-0.5 text-xs hover:bg-slate-600 ${
+                  tagFilter === tag ? 'bg-blue-600 text-slate-100' : 'bg-slate-700 text-slate-300'
+                }`}
+                aria-pressed={tagFilter === tag}
+                aria-label={t('filterByTag', { tag })}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        {selecting && !searchQuery.trim() && (
+          <div className="flex flex-col gap-1 rounded-md bg-slate-700 p-2" data-testid="bulk-actions">
+            <div className="flex items-center justify-between text-xs text-slate-200">
+              <span>{t('selectedCount', { count: selectedIds.length })}</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setSelectedIds(allVisibleSelected ? [] : visibleChats.map(chat => chat.id))}
+                  className="rounded px-1 hover:bg-slate-600"
+                >
+                  {t(allVisibleSelected ? 'selectNone' : 'selectAll')}
+                </button>
+                <button
+                  onClick={exitSelection}
+                  className="p-1 hover:bg-slate-600 rounded text-slate-300"
+                  aria-label={t('cancelSelection')}
+                >
+                  <X className="h-3 w-3" />
+                </button>
               </div>
-            ) : chats.length === 0 ? (
-              <div className="px-4 py-2 text-sm text-slate-300">
-                {t('noChats')}
+            </div>
+            <div className="flex gap-1">
+              <button
+                onClick={handleBulkArchive}
+                disabled={selectedIds.length === 0}
+                className="flex flex-1 items-center justify-center gap-1 rounded bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+              >
+                {showArchived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                {t(showArchived ? 'unarchiveSelected' : 'archiveSelected')}
+              </button>
+              <button
+                onClick={() => setBulkExportOpen(prev => !prev)}
+                disabled={selectedIds.length === 0}
+                className="flex flex-1 items-center justify-center gap-1 rounded bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+                aria-expanded={bulkExportOpen}
+              >
+                <Download className="h-3 w-3" />
+                {t('exportSelected')}
+              </button>
+              <button
+                onClick={handleBulkDelete}
+                disabled={selectedIds.length === 0}
+                className="flex flex-1 items-center justify-center gap-1 rounded bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:bg-red-700 disabled:opacity-50"
+              >
+                <Trash2 className="h-3 w-3" />
+                {t('deleteSelected')}
+              </button>
+            </div>
+            {bulkExportOpen && (
+              <div className="flex gap-1">
+                {EXPORT_FORMATS.map(({ format, labelKey }) => (
+                  <button
+                    key={format}
+                    onClick={() => handleBulkExport(format)}
+                    className="flex-1 rounded bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+                  >
+                    {t(labelKey)}
+                  </button>
+                ))}
               </div>
-            ) : (
-              <SidebarMenu>
-                {chats.map((chat) => (
-                  <SidebarMenuItem key={chat.id}>
-                    <div
-                      className={`group flex items-center justify-between px-2 py-2 rounded-md hover:bg-slate-700 cursor-pointer ${
-                        selectedChatId === chat.id ? 'bg-slate-700' : ''
-                      }`}
-                    >
-                      <div
-                        className="flex items-center gap-2 flex-1 min-w-0"
-                        onClick={() => onChatSelect(chat.id)}
-                      >
-                        <MessageSquare className="h-4 w-4 flex-shrink-0 text-slate-300" />
-                        <span className="truncate text-slate-200">{chat.name}</span>
-                      </div>
+            )}
+          </div>
+        )}
+        {newFolderName !== null && !searchQuery.trim() && (
+          <Input
+            autoFocus
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => handleFormKeyDown(e, handleCreateFolder, () => setNewFolderName(null))}
+            onBlur={handleCreateFolder}
+            placeholder={t('folderName')}
+            aria-label={t('folderName')}
+            className="h-8 text-sm text-slate-200 border-slate-600"
+          />
+        )}
+      </div>
+      <SidebarContent>
+        {searchQuery.trim() ? (
+          <SidebarGroup>
+            <SidebarGroupLabel className="text-slate-300">{t('searchResults')}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              {searchResults.length === 0 ? (
+                <div className="px-4 py-2 text-sm text-slate-300">
+                  {t('noSearchResults')}
+                </div>
+              ) : (
+                <SidebarMenu>
+                  {searchResults.map((result) => (
+                    <SidebarMenuItem key={`${result.chatId}-${result.messageId ?? 'chat'}`}>
                       <button
-                        onClick={(e) => handleDeleteChat(chat.id, e)}
-                        className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-slate-600 rounded text-slate-300"
-                        aria-label={t('deleteChat')}
+                        onClick={() => onChatSelect(result.chatId, result.messageId ?? undefined)}
+                        className="w-full text-left px-2 py-2 rounded-md hover:bg-slate-700"
                       >
-                        <Trash2 className="h-3 w-3" />
+                        <div className="truncate text-sm font-medium text-slate-200">
+                          {result.messageId === null ? <SearchSnippet segments={result.snippet} /> : result.chatName}
+                        </div>
+                        {result.messageId !== null && (
+                          <div className="line-clamp-2 text-xs text-slate-300">
+                            <SearchSnippet segments={result.snippet} />
+                          </div>
+                        )}
                       </button>
-                    </div>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              )}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ) : isLoading ? (
+          <div className="px-4 py-2 text-sm text-slate-300">
+            {t('loading')}...
+          </div>
+        ) : showArchived ? (
+          <SidebarGroup>
+            <SidebarGroupLabel className="text-slate-300">{t('archivedChats')}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              {visibleChats.length === 0 ? (
+                <div className="px-4 py-2 text-sm text-slate-300">
+                  {t('noArchivedChats')}
+                </div>
+              ) : renderChatList(visibleChats)}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ) : (
+          <>
+            {groups.pinned.length > 0 && (
+              <SidebarGroup>
+                <SidebarGroupLabel className="text-slate-300">{t('pinnedChats')}</SidebarGroupLabel>
+                <SidebarGroupContent>{renderChatList(groups.pinned)}</SidebarGroupContent>
+              </SidebarGroup>
             )}
-          </SidebarGroupContent>
-        </SidebarGroup>
+            {groups.folders.map(({ folder, chats: folderChats }) => (
+              <SidebarGroup key={folder.id}>
+                <div
+                  {...dropTargetProps(folder.id)}
+                  className={dropTargetClasses(folder.id)}
+                  data-folder-id={folder.id}
+                >
+                  {renamingFolder?.id === folder.id ? (
+                    <Input
+                      autoFocus
+                      value={renamingFolder.name}
+                      onChange={(e) => setRenamingFolder({ id: folder.id, name: e.target.value })}
+                      onKeyDown={(e) => handleFormKeyDown(e, handleRenameFolder, () => setRenamingFolder(null))}
+                      onBlur={handleRenameFolder}
+                      aria-label={t('folderName')}
+                      className="h-8 text-sm text-slate-200 border-slate-600"
+                    />
+                  ) : (
+                    <div className="group flex items-center justify-between">
+                      <SidebarGroupLabel className="text-slate-300">{folder.name}</SidebarGroupLabel>
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => setRenamingFolder({ id: folder.id, name: folder.name })}
+                          className={iconButtonClasses}
+                          aria-label={t('renameFolder')}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteFolder(folder)}
+                          className={iconButtonClasses}
+                          aria-label={t('deleteFolder')}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  <SidebarGroupContent>
+                    {folderChats.length === 0 ? (
+                      <div className="px-4 py-2 text-xs text-slate-400">
+                        {t('emptyFolder')}
+                      </div>
+                    ) : renderChatList(folderChats)}
+                  </SidebarGroupContent>
+                </div>
+              </SidebarGroup>
+            ))}
+            <SidebarGroup>
+              <div {...dropTargetProps(null)} className={dropTargetClasses(null)} data-folder-id="none">
+                <SidebarGroupLabel className="text-slate-300">{t('conversations')}</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  {visibleChats.length === 0 ? (
+                    <div className="px-4 py-2 text-sm text-slate-300">
+                      {t('noChats')}
+                    </div>
+                  ) : renderChatList(groups.unfiled)}
+                </SidebarGroupContent>
+              </div>
+            </SidebarGroup>
+          </>
+        )}
       </SidebarContent>
     </Sidebar>
   );
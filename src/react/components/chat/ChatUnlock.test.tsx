@@ -0,0 +1,127 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ChatUnlock, { ChatLockGate } from './ChatUnlock';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Lock: () => <span>Lock Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, type, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} type={type} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('ChatUnlock', () => {
+  beforeEach(() => {
+    global.window.electronAPI = {
+      chatUnlock: jest.fn().mockResolvedValue(true),
+      chatGetEncryptionStatus: jest.fn().mockResolvedValue({ enabled: true, locked: true }),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const enterPassphrase = (passphrase: string) => {
+    fireEvent.change(screen.getByLabelText('encryption.passphrase'), { target: { value: passphrase } });
+    fireEvent.click(screen.getByText('encryption.unlock'));
+  };
+
+  it('should unlock the history with the passphrase', async () => {
+    const onUnlocked = jest.fn();
+    render(<ChatUnlock onUnlocked={onUnlocked} />);
+
+    enterPassphrase('correct horse battery');
+
+    await waitFor(() => {
+      expect(onUnlocked).toHaveBeenCalled();
+    });
+    expect(window.electronAPI.chatUnlock).toHaveBeenCalledWith('correct horse battery');
+  });
+
+  it('should tell a wrong passphrase and let the user try again', async () => {
+    (window.electronAPI.chatUnlock as jest.Mock).mockResolvedValue(false);
+    const onUnlocked = jest.fn();
+    render(<ChatUnlock onUnlocked={onUnlocked} />);
+
+    enterPassphrase('wrong passphrase');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('encryption.wrongPassphrase');
+    expect(screen.getByLabelText('encryption.passphrase')).toHaveValue('');
+    expect(onUnlocked).not.toHaveBeenCalled();
+  });
+
+  it('should not submit an empty passphrase', () => {
+    render(<ChatUnlock onUnlocked={jest.fn()} />);
+
+    expect(screen.getByText('encryption.unlock')).toBeDisabled();
+  });
+
+  it('should show the error of a failing unlock', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.chatUnlock as jest.Mock).mockRejectedValue(new Error('Invalid key derivation parameters'));
+    render(<ChatUnlock onUnlocked={jest.fn()} />);
+
+    enterPassphrase('correct horse battery');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid key derivation parameters');
+    consoleSpy.mockRestore();
+  });
+
+  describe('ChatLockGate', () => {
+    const renderGate = async () => {
+      await act(async () => {
+        render(
+          <ChatLockGate>
+            <div data-testid="chats">Chats</div>
+          </ChatLockGate>
+        );
+      });
+    };
+
+    it('should show the chats of a history stored in clear', async () => {
+      (window.electronAPI.chatGetEncryptionStatus as jest.Mock).mockResolvedValue({ enabled: false, locked: false });
+
+      await renderGate();
+
+      expect(screen.getByTestId('chats')).toBeInTheDocument();
+      expect(screen.queryByTestId('chat-unlock')).not.toBeInTheDocument();
+    });
+
+    it('should ask for the passphrase before showing the chats of a locked history', async () => {
+      await renderGate();
+
+      expect(screen.queryByTestId('chats')).not.toBeInTheDocument();
+      enterPassphrase('correct horse battery');
+
+      expect(await screen.findByTestId('chats')).toBeInTheDocument();
+    });
+
+    it('should forget the drafts of an encrypted history', async () => {
+      localStorage.setItem('chatDraft:1', 'My salary is');
+
+      await renderGate();
+
+      expect(localStorage.getItem('chatDraft:1')).toBeNull();
+      localStorage.clear();
+    });
+  });
+});
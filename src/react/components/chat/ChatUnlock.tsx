@@ -0,0 +1,101 @@
+import { FormEvent, ReactNode, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { setDraftsKept } from './ChatComposer.helpers';
+
+interface ChatUnlockProps {
+  onUnlocked: () => void;
+}
+
+/**
+ * Asks for the passphrase of the encrypted chat history
+ */
+const ChatUnlock = ({ onUnlocked }: ChatUnlockProps) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setError(null);
+    setBusy(true);
+    try {
+      // Deriving the key takes a moment on purpose
+      const unlocked = await window.electronAPI.chatUnlock(passphrase);
+      if (unlocked) {
+        onUnlocked();
+      } else {
+        setError(t('encryption.wrongPassphrase'));
+        setPassphrase('');
+      }
+    } catch (error) {
+      console.error('Failed to unlock chat history:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4" data-testid="chat-unlock">
+      <div className="flex items-center gap-2">
+        <Lock className="h-5 w-5" />
+        <h2 className="text-xl font-semibold">{t('encryption.unlockTitle')}</h2>
+      </div>
+      <p className="text-sm opacity-80">{t('encryption.unlockDescription')}</p>
+      <Input
+        type="password"
+        autoFocus
+        aria-label={t('encryption.passphrase')}
+        placeholder={t('encryption.passphrase')}
+        value={passphrase}
+        disabled={busy}
+        onChange={(e) => setPassphrase(e.target.value)}
+      />
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+      <Button type="submit" className="w-full" disabled={!passphrase || busy}>
+        {busy ? t('encryption.unlocking') : t('encryption.unlock')}
+      </Button>
+    </form>
+  );
+};
+
+/**
+ * Renders its children once the chat history can be read: asks for the passphrase first
+ * while the encrypted history is locked
+ */
+export const ChatLockGate = ({ children }: { children: ReactNode }) => {
+  const [locked, setLocked] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const status = await window.electronAPI.chatGetEncryptionStatus();
+        setDraftsKept(!status.enabled);
+        setLocked(status.locked);
+      } catch (error) {
+        console.error('Failed to get chat encryption status:', error);
+        setLocked(false);
+      }
+    };
+    loadStatus();
+  }, []);
+
+  if (locked === null) return null;
+
+  if (locked) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <ChatUnlock onUnlocked={() => setLocked(false)} />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ChatUnlock;
@@ -0,0 +1,52 @@
+import { createElement } from 'react';
+import { getCodeBlockContent, isRunnableLanguage } from './CodeBlock.helpers';
+
+describe('CodeBlock.helpers', () => {
+  describe('isRunnableLanguage', () => {
+    it('should only run JavaScript and Python', () => {
+      expect(isRunnableLanguage('javascript')).toBe(true);
+      expect(isRunnableLanguage('js')).toBe(true);
+      expect(isRunnableLanguage('JS')).toBe(true);
+      expect(isRunnableLanguage('py')).toBe(true);
+      expect(isRunnableLanguage('python3')).toBe(true);
+      expect(isRunnableLanguage('typescript')).toBe(false);
+      expect(isRunnableLanguage('bash')).toBe(false);
+      expect(isRunnableLanguage(null)).toBe(false);
+    });
+  });
+
+  describe('getCodeBlockContent', () => {
+    it('should read the language and code of a fenced block', () => {
+      const children = createElement('code', { className: 'language-python' }, 'print(1)\n');
+
+      expect(getCodeBlockContent(children)).toEqual({ language: 'python', code: 'print(1)', highlighted: 'print(1)\n' });
+    });
+
+    it('should read the code of a highlighted block', () => {
+      const highlighted = [
+        createElement('span', { key: 'keyword', className: 'hljs-keyword' }, 'const'),
+        ' answer = ',
+        createElement('span', { key: 'number', className: 'hljs-number' }, 42),
+        ';\n',
+      ];
+      const children = createElement('code', { className: 'hljs language-js' }, highlighted);
+
+      const block = getCodeBlockContent(children);
+
+      expect(block?.language).toBe('js');
+      expect(block?.code).toBe('const answer = 42;');
+      expect(block?.highlighted).toBe(highlighted);
+    });
+
+    it('should read blocks without a language', () => {
+      const children = createElement('code', null, 'plain\ntext\n');
+
+      expect(getCodeBlockContent(children)).toMatchObject({ language: null, code: 'plain\ntext' });
+    });
+
+    it('should not read other content', () => {
+      expect(getCodeBlockContent('text')).toBeNull();
+      expect(getCodeBlockContent(null)).toBeNull();
+    });
+  });
+});
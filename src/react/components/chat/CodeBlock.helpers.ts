@@ -0,0 +1,44 @@
+/**
+ * Helper functions for the code blocks of replies: reading the fenced blocks highlighted by rehype-highlight
+ */
+
+import { Children, isValidElement } from 'react';
+import type { ReactNode } from 'react';
+
+// Same names as the code runner of the main process accepts
+const RUNNABLE_LANGUAGES = new Set(['javascript', 'js', 'mjs', 'cjs', 'node', 'python', 'py', 'python3']);
+
+export function isRunnableLanguage(language: string | null): boolean {
+  return !!language && RUNNABLE_LANGUAGES.has(language.toLowerCase());
+}
+
+/**
+ * Text of rendered content, including the text inside the spans added by the highlighter
+ */
+function getText(content: ReactNode): string {
+  return Children.toArray(content)
+    .map((part) => {
+      if (typeof part === 'string' || typeof part === 'number') return String(part);
+      if (isValidElement<{ children?: ReactNode }>(part)) return getText(part.props.children);
+      return '';
+    })
+    .join('');
+}
+
+/**
+ * Reads the language, text and highlighted content of a fenced block from the <code> element
+ * react-markdown renders inside <pre>, or null when the <pre> holds something else
+ */
+export function getCodeBlockContent(
+  children: ReactNode
+): { language: string | null; code: string; highlighted: ReactNode } | null {
+  const child = Children.toArray(children)[0];
+  if (!isValidElement<{ className?: string; children?: ReactNode }>(child)) return null;
+
+  const { className, children: content } = child.props;
+  const language = /(?:^|\s)language-(\S+)/.exec(className ?? '')?.[1] ?? null;
+  // The fence closing line leaves a trailing new line
+  const code = getText(content).replace(/\n$/, '');
+
+  return { language, code, highlighted: content };
+}
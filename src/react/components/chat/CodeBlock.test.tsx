@@ -0,0 +1,204 @@
+import React from 'react';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CodeBlock from './CodeBlock';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Check: () => <span>Check Icon</span>,
+  Copy: () => <span>Copy Icon</span>,
+  Download: () => <span>Download Icon</span>,
+  Play: () => <span>Play Icon</span>,
+  X: () => <span>X Icon</span>,
+}));
+
+describe('CodeBlock', () => {
+  const writeText = jest.fn();
+
+  beforeEach(() => {
+    writeText.mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    global.window.electronAPI = {
+      codeSave: jest.fn().mockResolvedValue('/home/user/snippet.py'),
+      codeRun: jest.fn(),
+      codeGetSettings: jest.fn().mockResolvedValue({ allowRun: true }),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+    jest.clearAllMocks();
+  });
+
+  // Renders a block and waits for the setting allowing runs to load
+  const renderBlock = async (element: React.ReactElement) => {
+    let result!: ReturnType<typeof render>;
+    await act(async () => {
+      result = render(element);
+    });
+    return result;
+  };
+
+  const confirmRun = async (button: string) => {
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('code.run'));
+    });
+    expect(screen.getByText('code.runConfirmTitle')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText(button));
+    });
+  };
+
+  it('should show the highlighted code and its language', async () => {
+    const { container } = await renderBlock(
+      <CodeBlock language="js" code={'const answer = 42;'}>
+        <span className="hljs-keyword">const</span>{' answer = 42;'}
+      </CodeBlock>
+    );
+
+    expect(screen.getByText('js')).toBeInTheDocument();
+    expect(container.querySelector('code')).toHaveClass('language-js');
+    expect(container.querySelector('code')).toHaveTextContent('const answer = 42;');
+    expect(screen.getByText('const')).toHaveClass('hljs-keyword');
+  });
+
+  it('should show the plain code without highlighted content', async () => {
+    const { container } = await renderBlock(<CodeBlock language={null} code="plain text" />);
+
+    expect(screen.getByText('text')).toBeInTheDocument();
+    expect(container.querySelector('code')).toHaveTextContent('plain text');
+  });
+
+  it('should copy the code to the clipboard', async () => {
+    await renderBlock(<CodeBlock language="js" code="console.log(1)" />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('code.copy'));
+    });
+
+    expect(writeText).toHaveBeenCalledWith('console.log(1)');
+    expect(screen.getByText('code.copied')).toBeInTheDocument();
+  });
+
+  it('should save the code through the save dialog', async () => {
+    await renderBlock(<CodeBlock language="python" code="print(1)" />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('code.save'));
+    });
+
+    expect(window.electronAPI.codeSave).toHaveBeenCalledWith('print(1)', 'python');
+  });
+
+  it('should show why the code could not be saved', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (window.electronAPI.codeSave as jest.Mock).mockRejectedValue(new Error('EACCES'));
+    await renderBlock(<CodeBlock language="python" code="print(1)" />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('code.save'));
+    });
+
+    expect(screen.getByText('code.error')).toBeInTheDocument();
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should only offer to run JavaScript and Python', async () => {
+    const { rerender } = await renderBlock(<CodeBlock language="javascript" code="console.log(1)" />);
+    expect(screen.getByLabelText('code.run')).toBeInTheDocument();
+
+    await act(async () => {
+      rerender(<CodeBlock language="python" code="print(1)" />);
+    });
+    expect(screen.getByLabelText('code.run')).toBeInTheDocument();
+
+    rerender(<CodeBlock language="bash" code="ls" />);
+    expect(screen.queryByLabelText('code.run')).not.toBeInTheDocument();
+
+    rerender(<CodeBlock language={null} code="text" />);
+    expect(screen.queryByLabelText('code.run')).not.toBeInTheDocument();
+  });
+
+  it('should not offer to run code until it is allowed in the settings', async () => {
+    (window.electronAPI.codeGetSettings as jest.Mock).mockResolvedValue({ allowRun: false });
+    await renderBlock(<CodeBlock language="js" code="console.log(1)" />);
+
+    expect(window.electronAPI.codeGetSettings).toHaveBeenCalled();
+    expect(screen.queryByLabelText('code.run')).not.toBeInTheDocument();
+  });
+
+  it('should not read the settings for blocks that cannot be run', async () => {
+    await renderBlock(<CodeBlock language="bash" code="ls" />);
+
+    expect(window.electronAPI.codeGetSettings).not.toHaveBeenCalled();
+  });
+
+  it('should run the code after confirmation and show its output', async () => {
+    (window.electronAPI.codeRun as jest.Mock).mockResolvedValue({
+      stdout: 'hello\n',
+      stderr: 'warning\n',
+      exitCode: 0,
+      timedOut: false,
+      truncated: false,
+      durationMs: 35,
+    });
+    await renderBlock(<CodeBlock language="js" code="console.log('hello')" />);
+
+    await confirmRun('code.runConfirmButton');
+
+    expect(screen.queryByText('code.runConfirmTitle')).not.toBeInTheDocument();
+    expect(window.electronAPI.codeRun).toHaveBeenCalledWith('js', "console.log('hello')");
+    const output = screen.getByTestId('code-run-output');
+    expect(output).toHaveTextContent('hello');
+    expect(output).toHaveTextContent('warning');
+    expect(output).toHaveTextContent('code.exitCode');
+  });
+
+  it('should not run the code when the confirmation is declined', async () => {
+    await renderBlock(<CodeBlock language="js" code="console.log(1)" />);
+
+    await confirmRun('code.cancel');
+
+    await waitFor(() => expect(screen.queryByText('code.runConfirmTitle')).not.toBeInTheDocument());
+    expect(window.electronAPI.codeRun).not.toHaveBeenCalled();
+  });
+
+  it('should show when the code was stopped and its output cut', async () => {
+    (window.electronAPI.codeRun as jest.Mock).mockResolvedValue({
+      stdout: '',
+      stderr: '',
+      exitCode: null,
+      timedOut: true,
+      truncated: true,
+      durationMs: 10000,
+    });
+    await renderBlock(<CodeBlock language="js" code="while (true) {}" />);
+
+    await confirmRun('code.runConfirmButton');
+
+    const output = screen.getByTestId('code-run-output');
+    expect(output).toHaveTextContent('code.noOutput');
+    expect(output).toHaveTextContent('code.timedOut');
+    expect(output).toHaveTextContent('code.truncated');
+  });
+
+  it('should show why the code could not be run', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (window.electronAPI.codeRun as jest.Mock).mockRejectedValue(new Error('spawn EACCES'));
+    await renderBlock(<CodeBlock language="js" code="console.log(1)" />);
+
+    await confirmRun('code.runConfirmButton');
+
+    expect(screen.getByText('code.error')).toBeInTheDocument();
+    expect(screen.getByLabelText('code.run')).not.toBeDisabled();
+    (console.error as jest.Mock).mockRestore();
+  });
+});
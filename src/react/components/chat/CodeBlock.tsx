@@ -0,0 +1,157 @@
+import { Check, Copy, Download, Play } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { isRunnableLanguage } from './CodeBlock.helpers';
+
+interface CodeRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+interface CodeBlockProps {
+  language: string | null;
+  code: string;
+  // Content highlighted by rehype-highlight, the plain code is shown without it
+  children?: ReactNode;
+}
+
+// How long the copy button shows it worked
+const COPIED_DURATION_MS = 2000;
+
+/**
+ * Fenced code block of a reply: highlighted, with buttons to copy it, save it as a file
+ * and, for JavaScript and Python once allowed in the settings, run it in a child process
+ * kept from the user's files after confirmation
+ */
+const CodeBlock = ({ language, code, children }: CodeBlockProps) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+  const [allowRun, setAllowRun] = useState(false);
+  const [confirmingRun, setConfirmingRun] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only blocks that could be run need the setting
+    if (isRunnableLanguage(language)) loadAllowRun();
+  }, [language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const loadAllowRun = async () => {
+    try {
+      const settings = await window.electronAPI.codeGetSettings();
+      setAllowRun(settings.allowRun);
+    } catch (err) {
+      console.error('Failed to load code settings:', err);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy code block:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setError(null);
+      await window.electronAPI.codeSave(code, language);
+    } catch (err) {
+      console.error('Failed to save code block:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRun = async () => {
+    setConfirmingRun(false);
+    if (!language) return;
+
+    setRunning(true);
+    setError(null);
+    setRunResult(null);
+    try {
+      setRunResult(await window.electronAPI.codeRun(language, code));
+    } catch (err) {
+      console.error('Failed to run code block:', err);
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const buttonClasses = 'flex items-center gap-1 rounded px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 hover:text-slate-100 disabled:opacity-50';
+
+  return (
+    <div className="my-2 overflow-hidden rounded-lg border border-slate-700 bg-slate-900">
+      <div className="flex items-center justify-between border-b border-slate-700 px-3 py-1">
+        <span className="font-mono text-xs text-slate-400">{language ?? 'text'}</span>
+        <div className="flex items-center gap-1">
+          <button type="button" className={buttonClasses} aria-label={t('code.copy')} onClick={handleCopy}>
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+            {copied ? t('code.copied') : t('code.copy')}
+          </button>
+          <button type="button" className={buttonClasses} aria-label={t('code.save')} onClick={handleSave}>
+            <Download className="h-3 w-3" />
+            {t('code.save')}
+          </button>
+          {allowRun && isRunnableLanguage(language) && (
+            <button type="button" className={buttonClasses} aria-label={t('code.run')} disabled={running} onClick={() => setConfirmingRun(true)}>
+              <Play className="h-3 w-3" />
+              {running ? t('code.running') : t('code.run')}
+            </button>
+          )}
+        </div>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm">
+        <code className={language ? `language-${language}` : undefined}>
+          {children ?? code}
+        </code>
+      </pre>
+      <Dialog open={confirmingRun} onOpenChange={setConfirmingRun}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('code.runConfirmTitle')}</DialogTitle>
+            <DialogDescription>{t('code.runConfirm')}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmingRun(false)}>{t('code.cancel')}</Button>
+            <Button onClick={handleRun}>{t('code.runConfirmButton')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {error && <p className="border-t border-slate-700 px-3 py-2 text-xs text-red-400">{t('code.error', { error })}</p>}
+      {runResult && (
+        <div className="border-t border-slate-700 px-3 py-2 text-xs" data-testid="code-run-output">
+          {runResult.stdout && <pre className="whitespace-pre-wrap text-slate-200">{runResult.stdout}</pre>}
+          {runResult.stderr && <pre className="whitespace-pre-wrap text-red-300">{runResult.stderr}</pre>}
+          {!runResult.stdout && !runResult.stderr && <p className="text-slate-400">{t('code.noOutput')}</p>}
+          <p className="mt-1 text-slate-500">
+            {runResult.timedOut
+              ? t('code.timedOut')
+              : t('code.exitCode', { code: runResult.exitCode, duration: runResult.durationMs })}
+            {runResult.truncated && ` ${t('code.truncated')}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PersonaPicker, { getSelectedPersonaValue } from './PersonaPicker';
+
+// Mock the translation hook
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+const mockPersonas = [
+  { id: 1, name: 'Code reviewer', systemPrompt: 'Review code carefully' },
+  { id: 2, name: 'Translator', systemPrompt: 'Translate text' },
+];
+
+const mockPersonaGetAll = jest.fn();
+const mockChatUpdateSystemPrompt = jest.fn();
+
+beforeAll(() => {
+  (global as any).window.electronAPI = {
+    personaGetAll: mockPersonaGetAll,
+    chatUpdateSystemPrompt: mockChatUpdateSystemPrompt,
+  };
+});
+
+describe('getSelectedPersonaValue', () => {
+  it('should return default when there is no system prompt', () => {
+    expect(getSelectedPersonaValue(mockPersonas, null)).toBe('default');
+  });
+
+  it('should return the matching persona id', () => {
+    expect(getSelectedPersonaValue(mockPersonas, 'Translate text')).toBe('2');
+  });
+
+  it('should return custom when no persona matches', () => {
+    expect(getSelectedPersonaValue(mockPersonas, 'Something else')).toBe('custom');
+  });
+});
+
+describe('PersonaPicker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPersonaGetAll.mockResolvedValue(mockPersonas);
+    mockChatUpdateSystemPrompt.mockResolvedValue({});
+  });
+
+  const renderPicker = async (props: Partial<React.ComponentProps<typeof PersonaPicker>> = {}) => {
+    const onChange = jest.fn();
+    await act(async () => {
+      render(<PersonaPicker chatId={1} systemPrompt={null} onChange={onChange} {...props} />);
+    });
+    return { onChange, select: screen.getByLabelText('personas.select') as HTMLSelectElement };
+  };
+
+  it('should list the default option and every persona', async () => {
+    const { select } = await renderPicker();
+
+    expect(screen.getByText('personas.default')).toBeInTheDocument();
+    expect(screen.getByText('Code reviewer')).toBeInTheDocument();
+    expect(screen.getByText('Translator')).toBeInTheDocument();
+    expect(select.value).toBe('default');
+  });
+
+  it('should select the persona matching the chat system prompt', async () => {
+    const { select } = await renderPicker({ systemPrompt: 'Review code carefully' });
+
+    expect(select.value).toBe('1');
+  });
+
+  it('should show a custom option for unknown system prompts', async () => {
+    const { select } = await renderPicker({ systemPrompt: 'Talk like a pirate' });
+
+    expect(screen.getByText('personas.custom')).toBeInTheDocument();
+    expect(select.value).toBe('custom');
+  });
+
+  it('should apply the selected persona to the chat', async () => {
+    const { select, onChange } = await renderPicker();
+
+    await act(async () => {
+      fireEvent.change(select, { target: { value: '2' } });
+    });
+
+    expect(mockChatUpdateSystemPrompt).toHaveBeenCalledWith(1, 'Translate text');
+    expect(onChange).toHaveBeenCalledWith('Translate text');
+  });
+
+  it('should clear the system prompt when default is selected', async () => {
+    const { select, onChange } = await renderPicker({ systemPrompt: 'Translate text' });
+
+    await act(async () => {
+      fireEvent.change(select, { target: { value: 'default' } });
+    });
+
+    expect(mockChatUpdateSystemPrompt).toHaveBeenCalledWith(1, null);
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('should be disabled without a chat', async () => {
+    const { select } = await renderPicker({ chatId: null });
+
+    expect(select).toBeDisabled();
+  });
+
+  it('should handle update errors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockChatUpdateSystemPrompt.mockRejectedValue(new Error('Update failed'));
+    const { select, onChange } = await renderPicker();
+
+    await act(async () => {
+      fireEvent.change(select, { target: { value: '1' } });
+    });
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to update chat system prompt:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+
+  it('should handle load errors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockPersonaGetAll.mockRejectedValue(new Error('Load failed'));
+
+    await renderPicker();
+
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to load personas:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+});
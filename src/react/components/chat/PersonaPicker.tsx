@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface Persona {
+  id: number;
+  name: string;
+  systemPrompt: string;
+}
+
+interface PersonaPickerProps {
+  chatId: number | null;
+  systemPrompt: string | null;
+  onChange: (systemPrompt: string | null) => void;
+}
+
+const DEFAULT_VALUE = 'default';
+const CUSTOM_VALUE = 'custom';
+
+/**
+ * Map a chat's system prompt to the matching select option
+ */
+export const getSelectedPersonaValue = (personas: Persona[], systemPrompt: string | null): string => {
+  if (!systemPrompt) return DEFAULT_VALUE;
+
+  const persona = personas.find((p) => p.systemPrompt === systemPrompt);
+  return persona ? String(persona.id) : CUSTOM_VALUE;
+};
+
+const PersonaPicker = ({ chatId, systemPrompt, onChange }: PersonaPickerProps) => {
+  const { t } = useTranslation();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  useEffect(() => {
+    const loadPersonas = async () => {
+      try {
+        const allPersonas = await window.electronAPI.personaGetAll();
+        setPersonas(allPersonas);
+      } catch (error) {
+        console.error('Failed to load personas:', error);
+      }
+    };
+
+    loadPersonas();
+  }, []);
+
+  const handleChange = async (value: string) => {
+    if (!chatId || value === CUSTOM_VALUE) return;
+
+    const persona = personas.find((p) => String(p.id) === value);
+    const newSystemPrompt = persona ? persona.systemPrompt : null;
+
+    try {
+      await window.electronAPI.chatUpdateSystemPrompt(chatId, newSystemPrompt);
+      onChange(newSystemPrompt);
+    } catch (error) {
+      console.error('Failed to update chat system prompt:', error);
+    }
+  };
+
+  const selectedValue = getSelectedPersonaValue(personas, systemPrompt);
+
+  return (
+    <select
+      id="persona-picker"
+      aria-label={t('personas.select')}
+      value={selectedValue}
+      disabled={!chatId}
+      onChange={(e) => handleChange(e.target.value)}
+      className="ml-auto rounded-md bg-slate-800 border border-slate-600 px-3 py-2 text-sm text-slate-100 outline-none focus:border-blue-400"
+    >
+      <option value={DEFAULT_VALUE}>{t('personas.default')}</option>
+      {personas.map((persona) => (
+        <option key={persona.id} value={String(persona.id)}>
+          {persona.name}
+        </option>
+      ))}
+      {selectedValue === CUSTOM_VALUE && (
+        <option value={CUSTOM_VALUE}>{t('personas.custom')}</option>
+      )}
+    </select>
+  );
+};
+
+export default PersonaPicker;
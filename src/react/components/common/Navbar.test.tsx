@@ -385,4 +385,41 @@ describe('Navbar', () => {
       expect(screen.getByText('Custom Attribution')).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  describe('Model Load Progress', () => {
+    it('should show the progress while a model loads', () => {
+      const t = jest.fn((key: string, options?: { progress: number }) =>
+        key === 'nav.model_loading' ? `Loading model... ${options?.progress}%` : key
+      );
+      mockUseTranslation.mockReturnValue({ t, i18n: { language: 'en' } });
+      mockUseModel.mockReturnValue({
+        currentModelInfo: null,
+        loadProgress: { modelPath: '/models/llama.gguf', modelId: null, status: 'loading', progress: 42 }
+      });
+      renderNavbar();
+
+      expect(screen.getByText('Loading model... 42%')).toBeInTheDocument();
+    });
+
+    it('should show when a model failed to load', () => {
+      mockUseModel.mockReturnValue({
+        currentModelInfo: null,
+        loadProgress: { modelPath: '/models/llama.gguf', modelId: null, status: 'failed', progress: 0, error: 'Out of memory' }
+      });
+      renderNavbar();
+
+      expect(screen.getByText('nav.model_load_failed')).toHaveAttribute('title', 'Out of memory');
+    });
+
+    it('should show nothing once the model is loaded', () => {
+      mockUseModel.mockReturnValue({
+        currentModelInfo: null,
+        loadProgress: { modelPath: '/models/llama.gguf', modelId: null, status: 'loaded', progress: 100 }
+      });
+      renderNavbar();
+
+      expect(screen.queryByText('nav.model_loading')).not.toBeInTheDocument();
+      expect(screen.queryByText('nav.model_load_failed')).not.toBeInTheDocument();
+    });
+  });
+});
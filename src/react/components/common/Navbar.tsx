@@ -21,7 +21,7 @@ import { useModel } from '../../contexts/ModelContext';
 const Navbar: React.FC = () => {
   const { t } = useTranslation();
   const location = useLocation();
-  const { currentModelInfo } = useModel();
+  const { currentModelInfo, loadProgress } = useModel();
 
   const isActive = (path: string) => {
     if (path === '/') {
@@ -119,6 +119,16 @@ const Navbar: React.FC = () => {
 
         {/* Right side - Attribution badge, Language selector and window controls */}
         <div className="flex items-center gap-2" style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}>
+          {loadProgress?.status === 'loading' && (
+            <span className="text-xs text-muted-foreground mr-2">
+              {t('nav.model_loading', { progress: loadProgress.progress })}
+            </span>
+          )}
+          {loadProgress?.status === 'failed' && (
+            <span className="text-xs text-destructive mr-2" title={loadProgress.error}>
+              {t('nav.model_load_failed')}
+            </span>
+          )}
           {currentModelInfo?.requiresAttribution && (
             <div className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700 rounded-md mr-2">
               <span className="text-xs font-semibold text-blue-700 dark:text-blue-300">
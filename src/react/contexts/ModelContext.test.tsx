@@ -4,9 +4,15 @@ import { ModelProvider, useModel } from './ModelContext';
 
 // Test component to access context
 const TestComponent = () => {
-  const { currentModelInfo } = useModel();
+  const { activeModel, currentModelInfo, loadProgress } = useModel();
   return (
     <div>
+      {activeModel && (
+        <span data-testid="active-model">{`${activeModel.provider} ${activeModel.path}`}</span>
+      )}
+      {loadProgress && (
+        <span data-testid="load-progress">{`${loadProgress.status} ${loadProgress.progress}`}</span>
+      )}
       {currentModelInfo?.requiresAttribution ? (
         <span data-testid="attribution-text">{currentModelInfo.attributionText}</span>
       ) : (
@@ -17,22 +23,27 @@ const TestComponent = () => {
 };
 
 describe('ModelContext', () => {
-  let mockLlmIsLoaded: jest.Mock;
-  let mockLlmGetCurrentModel: jest.Mock;
+  let mockLlmGetActiveModel: jest.Mock;
   let mockLlmListAvailable: jest.Mock;
+  let mockLlmGetLoadProgress: jest.Mock;
+  let mockLlmOnLoadProgress: jest.Mock;
+  let mockUnsubscribe: jest.Mock;
 
   beforeEach(() => {
     jest.useFakeTimers();
     jest.clearAllMocks();
 
-    mockLlmIsLoaded = jest.fn();
-    mockLlmGetCurrentModel = jest.fn();
+    mockLlmGetActiveModel = jest.fn();
     mockLlmListAvailable = jest.fn();
+    mockLlmGetLoadProgress = jest.fn().mockResolvedValue(null);
+    mockUnsubscribe = jest.fn();
+    mockLlmOnLoadProgress = jest.fn().mockReturnValue(mockUnsubscribe);
 
     (window as any).electronAPI = {
-      llmIsLoaded: mockLlmIsLoaded,
-      llmGetCurrentModel: mockLlmGetCurrentModel,
+      llmGetActiveModel: mockLlmGetActiveModel,
       llmListAvailable: mockLlmListAvailable,
+      llmGetLoadProgress: mockLlmGetLoadProgress,
+      llmOnLoadProgress: mockLlmOnLoadProgress,
     };
   });
 
@@ -41,7 +52,7 @@ describe('ModelContext', () => {
   });
 
   it('should provide null model info when no model is loaded', async () => {
-    mockLlmIsLoaded.mockResolvedValue(false);
+    mockLlmGetActiveModel.mockResolvedValue(null);
 
     await act(async () => {
       render(
@@ -57,8 +68,7 @@ describe('ModelContext', () => {
   });
 
   it('should provide attribution info for Llama models', async () => {
-    mockLlmIsLoaded.mockResolvedValue(true);
-    mockLlmGetCurrentModel.mockResolvedValue('/models/llama.gguf');
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/llama.gguf', modelId: null });
     mockLlmListAvailable.mockResolvedValue([
       {
         path: '/models/llama.gguf',
@@ -81,8 +91,7 @@ describe('ModelContext', () => {
   });
 
   it('should not provide attribution for models without requiresAttribution', async () => {
-    mockLlmIsLoaded.mockResolvedValue(true);
-    mockLlmGetCurrentModel.mockResolvedValue('/models/other.gguf');
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/other.gguf', modelId: null });
     mockLlmListAvailable.mockResolvedValue([
       {
         path: '/models/other.gguf',
@@ -105,7 +114,7 @@ describe('ModelContext', () => {
 
   it('should handle errors gracefully', async () => {
     const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-    mockLlmIsLoaded.mockRejectedValue(new Error('API Error'));
+    mockLlmGetActiveModel.mockRejectedValue(new Error('API Error'));
 
     await act(async () => {
       render(
@@ -134,7 +143,7 @@ describe('ModelContext', () => {
   });
 
   it('should update periodically when model changes', async () => {
-    mockLlmIsLoaded.mockResolvedValue(false);
+    mockLlmGetActiveModel.mockResolvedValue(null);
 
     await act(async () => {
       render(
@@ -149,8 +158,7 @@ describe('ModelContext', () => {
     });
 
     // Change mock to return loaded model
-    mockLlmIsLoaded.mockResolvedValue(true);
-    mockLlmGetCurrentModel.mockResolvedValue('/models/llama.gguf');
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/llama.gguf', modelId: null });
     mockLlmListAvailable.mockResolvedValue([
       {
         path: '/models/llama.gguf',
@@ -169,9 +177,8 @@ describe('ModelContext', () => {
     });
   });
 
-  it('should handle null model path', async () => {
-    mockLlmIsLoaded.mockResolvedValue(true);
-    mockLlmGetCurrentModel.mockResolvedValue(null);
+  it('should provide the active model without attribution for endpoint models', async () => {
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'openai-compatible', path: 'llama3.2', modelId: 'llama3.2' });
 
     await act(async () => {
       render(
@@ -182,13 +189,14 @@ describe('ModelContext', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByTestId('no-attribution')).toBeInTheDocument();
+      expect(screen.getByTestId('active-model')).toHaveTextContent('openai-compatible llama3.2');
     });
+    expect(screen.getByTestId('no-attribution')).toBeInTheDocument();
+    expect(mockLlmListAvailable).not.toHaveBeenCalled();
   });
 
   it('should use default attribution text when not provided', async () => {
-    mockLlmIsLoaded.mockResolvedValue(true);
-    mockLlmGetCurrentModel.mockResolvedValue('/models/llama.gguf');
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/llama.gguf', modelId: null });
     mockLlmListAvailable.mockResolvedValue([
       {
         path: '/models/llama.gguf',
@@ -209,4 +217,67 @@ describe('ModelContext', () => {
       expect(screen.getByTestId('attribution-text')).toHaveTextContent('Built with Llama');
     });
   });
+
+  it('should provide the progress of a model already loading', async () => {
+    mockLlmGetActiveModel.mockResolvedValue(null);
+    mockLlmGetLoadProgress.mockResolvedValue({ provider: 'llama-cpp', modelPath: '/models/llama.gguf', modelId: null, status: 'loading', progress: 30 });
+
+    await act(async () => {
+      render(
+        <ModelProvider>
+          <TestComponent />
+        </ModelProvider>
+      );
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('load-progress')).toHaveTextContent('loading 30');
+    });
+  });
+
+  it('should follow load progress events and check the model once loaded', async () => {
+    mockLlmGetActiveModel.mockResolvedValue(null);
+
+    await act(async () => {
+      render(
+        <ModelProvider>
+          <TestComponent />
+        </ModelProvider>
+      );
+    });
+
+    const onProgress = mockLlmOnLoadProgress.mock.calls[0][0];
+    await act(async () => {
+      onProgress({ provider: 'llama-cpp', modelPath: '/models/llama.gguf', modelId: null, status: 'loading', progress: 60 });
+    });
+    expect(screen.getByTestId('load-progress')).toHaveTextContent('loading 60');
+
+    mockLlmGetActiveModel.mockResolvedValue({ provider: 'llama-cpp', path: '/models/llama.gguf', modelId: null });
+    mockLlmListAvailable.mockResolvedValue([
+      { path: '/models/llama.gguf', requiresAttribution: true, attributionText: 'Built with Llama' }
+    ]);
+    await act(async () => {
+      onProgress({ provider: 'llama-cpp', modelPath: '/models/llama.gguf', modelId: null, status: 'loaded', progress: 100 });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('attribution-text')).toHaveTextContent('Built with Llama');
+    });
+  });
+
+  it('should unsubscribe from load progress on unmount', async () => {
+    mockLlmGetActiveModel.mockResolvedValue(null);
+
+    let unmount: () => void;
+    await act(async () => {
+      ({ unmount } = render(
+        <ModelProvider>
+          <TestComponent />
+        </ModelProvider>
+      ));
+    });
+
+    unmount!();
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
 });
@@ -5,8 +5,27 @@ interface CurrentModelInfo {
   attributionText?: string;
 }
 
+export type InferenceProviderId = 'llama-cpp' | 'openai-compatible';
+
+export interface ActiveModel {
+  provider: InferenceProviderId;
+  path: string; // Model name for endpoints
+  modelId: string | null;
+}
+
+export interface ModelLoadProgress {
+  provider: InferenceProviderId;
+  modelPath: string;
+  modelId: string | null;
+  status: 'loading' | 'loaded' | 'failed';
+  progress: number;
+  error?: string;
+}
+
 interface ModelContextType {
+  activeModel: ActiveModel | null;
   currentModelInfo: CurrentModelInfo | null;
+  loadProgress: ModelLoadProgress | null;
 }
 
 const ModelContext = createContext<ModelContextType | undefined>(undefined);
@@ -24,28 +43,27 @@ interface ModelProviderProps {
 }
 
 export const ModelProvider: React.FC<ModelProviderProps> = ({ children }) => {
+  const [activeModel, setActiveModel] = useState<ActiveModel | null>(null);
   const [currentModelInfo, setCurrentModelInfo] = useState<CurrentModelInfo | null>(null);
+  const [loadProgress, setLoadProgress] = useState<ModelLoadProgress | null>(null);
 
   useEffect(() => {
     // Check current model status on mount and set up interval
     const checkCurrentModel = async () => {
       try {
-        const isLoaded = await window.electronAPI.llmIsLoaded();
-        if (isLoaded) {
-          const modelPath = await window.electronAPI.llmGetCurrentModel();
-          if (modelPath) {
-            // Get available models to check if it requires attribution
-            const availableModels = await window.electronAPI.llmListAvailable();
-            const currentModel = availableModels.find((m: any) => m.path === modelPath);
-
-            if (currentModel?.requiresAttribution) {
-              setCurrentModelInfo({
-                requiresAttribution: true,
-                attributionText: currentModel.attributionText || 'Built with Llama'
-              });
-            } else {
-              setCurrentModelInfo(null);
-            }
+        const model: ActiveModel | null = await window.electronAPI.llmGetActiveModel();
+        setActiveModel(model);
+
+        // Only local models come with a license that may require attribution
+        if (model?.provider === 'llama-cpp') {
+          const availableModels = await window.electronAPI.llmListAvailable();
+          const currentModel = availableModels.find((m: any) => m.path === model.path);
+
+          if (currentModel?.requiresAttribution) {
+            setCurrentModelInfo({
+              requiresAttribution: true,
+              attributionText: currentModel.attributionText || 'Built with Llama'
+            });
           } else {
             setCurrentModelInfo(null);
           }
@@ -54,6 +72,7 @@ export const ModelProvider: React.FC<ModelProviderProps> = ({ children }) => {
         }
       } catch (error) {
         console.error('Failed to check current model:', error);
+        setActiveModel(null);
         setCurrentModelInfo(null);
       }
     };
@@ -63,11 +82,26 @@ export const ModelProvider: React.FC<ModelProviderProps> = ({ children }) => {
     // Check periodically for model changes
     const interval = setInterval(checkCurrentModel, 5000);
 
-    return () => clearInterval(interval);
+    // A model may already be loading, e.g. the last model being loaded at startup
+    window.electronAPI.llmGetLoadProgress()
+      .then(setLoadProgress)
+      .catch((error: unknown) => console.error('Failed to get model load progress:', error));
+
+    const unsubscribe = window.electronAPI.llmOnLoadProgress((progress: ModelLoadProgress) => {
+      setLoadProgress(progress);
+      if (progress.status === 'loaded') {
+        checkCurrentModel();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, []);
 
   return (
-    <ModelContext.Provider value={{ currentModelInfo }}>
+    <ModelContext.Provider value={{ activeModel, currentModelInfo, loadProgress }}>
       {children}
     </ModelContext.Provider>
   );
@@ -6,12 +6,18 @@ import ChatPage from './Chat';
 jest.mock('@/components/chat/ChatInterface', () => {
   return {
     __esModule: true,
-    default: function MockChatInterface({ chatId, onChatCreated, onChatNamed }: any) {
+    default: function MockChatInterface({ chatId, focusMessageId, renamedChat, onChatCreated, onChatNamed, onNewChat }: any) {
       return (
-        <div data-testid="mock-chat-interface" data-chat-id={String(chatId)}>
+        <div
+          data-testid="mock-chat-interface"
+          data-chat-id={String(chatId)}
+          data-focus-message-id={String(focusMessageId)}
+          data-renamed-chat={renamedChat ? `${renamedChat.id}:${renamedChat.name}` : ''}
+        >
           Chat Interface
           <button onClick={() => onChatCreated?.(123)}>Create Chat</button>
           <button onClick={() => onChatNamed?.()}>Chat Named</button>
+          <button onClick={() => onNewChat?.()}>Clear Command</button>
         </div>
       );
     }
@@ -21,19 +27,26 @@ jest.mock('@/components/chat/ChatInterface', () => {
 // Mock ChatSidebar
 jest.mock('@/components/chat/ChatSidebar', () => {
   return {
-    ChatSidebar: function MockChatSidebar({ onChatSelect, onNewChat, onChatDeleted }: any) {
+    ChatSidebar: function MockChatSidebar({ onChatSelect, onNewChat, onChatDeleted, onChatRenamed }: any) {
       return (
         <div data-testid="mock-chat-sidebar">
           Chat Sidebar
           <button onClick={() => onChatSelect(1)}>Select Chat 1</button>
+          <button onClick={() => onChatSelect(2, 42)}>Select Message 42</button>
           <button onClick={() => onNewChat()}>New Chat</button>
           <button onClick={() => onChatDeleted?.()}>Delete Chat</button>
+          <button onClick={() => onChatRenamed?.({ id: 1, name: 'Small talk' })}>Rename Chat</button>
         </div>
       );
     }
   };
 });
 
+// Mock ChatLockGate, as if the history was not encrypted
+jest.mock('@/components/chat/ChatUnlock', () => ({
+  ChatLockGate: ({ children }: any) => <div data-testid="mock-chat-lock-gate">{children}</div>,
+}));
+
 // Mock SidebarProvider
 jest.mock('@/components/ui/sidebar', () => {
   const React = require('react');
@@ -72,6 +85,19 @@ describe('ChatPage', () => {
     expect(chatInterface).toHaveAttribute('data-chat-id', '1');
   });
 
+  it('should focus the message picked from search results', () => {
+    const { getByText, getByTestId } = render(<ChatPage />);
+
+    fireEvent.click(getByText('Select Message 42'));
+
+    const chatInterface = getByTestId('mock-chat-interface');
+    expect(chatInterface).toHaveAttribute('data-chat-id', '2');
+    expect(chatInterface).toHaveAttribute('data-focus-message-id', '42');
+
+    fireEvent.click(getByText('Select Chat 1'));
+    expect(chatInterface).toHaveAttribute('data-focus-message-id', 'null');
+  });
+
   it('should handle new chat', () => {
     const { getByText, getByTestId } = render(<ChatPage />);
 
@@ -82,6 +108,15 @@ describe('ChatPage', () => {
     expect(chatInterface).toHaveAttribute('data-chat-id', 'null');
   });
 
+  it('should start a new chat from the /clear command', () => {
+    const { getByText, getByTestId } = render(<ChatPage />);
+
+    fireEvent.click(getByText('Select Chat 1'));
+    fireEvent.click(getByText('Clear Command'));
+
+    expect(getByTestId('mock-chat-interface')).toHaveAttribute('data-chat-id', 'null');
+  });
+
   it('should handle chat deletion', () => {
     const { getByText, getByTestId } = render(<ChatPage />);
 
@@ -116,6 +151,22 @@ describe('ChatPage', () => {
     expect(chatInterface).toHaveAttribute('data-chat-id', '123');
   });
 
+  it('should pass the chat renamed from the sidebar to the interface', () => {
+    const { getByText, getByTestId } = render(<ChatPage />);
+
+    fireEvent.click(getByText('Rename Chat'));
+
+    expect(getByTestId('mock-chat-interface')).toHaveAttribute('data-renamed-chat', '1:Small talk');
+  });
+
+  it('should only show the chats through the lock gate', () => {
+    const { getByTestId } = render(<ChatPage />);
+    const gate = getByTestId('mock-chat-lock-gate');
+
+    expect(gate).toContainElement(getByTestId('mock-chat-sidebar'));
+    expect(gate).toContainElement(getByTestId('mock-chat-interface'));
+  });
+
   it('should wrap everything in SidebarProvider', () => {
     const { getByTestId } = render(<ChatPage />);
     expect(getByTestId('sidebar-provider')).toBeInTheDocument();
@@ -1,24 +1,30 @@
 import { useState } from 'react';
 import ChatInterface from "@/components/chat/ChatInterface";
 import { ChatSidebar } from "@/components/chat/ChatSidebar";
+import { ChatLockGate } from "@/components/chat/ChatUnlock";
 import { SidebarProvider } from "@/components/ui/sidebar";
 
 export default function ChatPage() {
   const [selectedChatId, setSelectedChatId] = useState<number | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   const [sidebarRefreshKey, setSidebarRefreshKey] = useState(0);
+  const [renamedChat, setRenamedChat] = useState<{ id: number; name: string } | null>(null);
 
-  const handleChatSelect = (chatId: number) => {
+  const handleChatSelect = (chatId: number, messageId?: number) => {
     setSelectedChatId(chatId);
+    setFocusMessageId(messageId ?? null);
   };
 
   const handleNewChat = () => {
     setSelectedChatId(null);
+    setFocusMessageId(null);
     setRefreshKey(prev => prev + 1);
   };
 
   const handleChatDeleted = () => {
     setSelectedChatId(null);
+    setFocusMessageId(null);
     setRefreshKey(prev => prev + 1);
   };
 
@@ -27,24 +33,35 @@ export default function ChatPage() {
     setSidebarRefreshKey(prev => prev + 1);
   };
 
+  const handleChatRenamed = (chat: { id: number; name: string }) => {
+    // Show the new name of the open chat
+    setRenamedChat({ id: chat.id, name: chat.name });
+  };
+
   return (
     <SidebarProvider defaultOpen={false}>
       <div className="fixed inset-0 bg-gradient-to-br from-slate-900 to-slate-700 text-white flex">
-        <ChatSidebar
-          key={sidebarRefreshKey}
-          selectedChatId={selectedChatId}
-          onChatSelect={handleChatSelect}
-          onNewChat={handleNewChat}
-          onChatDeleted={handleChatDeleted}
-        />
-        <div className="flex-1">
-          <ChatInterface
-            key={refreshKey}
-            chatId={selectedChatId}
-            onChatCreated={(chatId) => setSelectedChatId(chatId)}
-            onChatNamed={handleChatNamed}
+        <ChatLockGate>
+          <ChatSidebar
+            key={sidebarRefreshKey}
+            selectedChatId={selectedChatId}
+            onChatSelect={handleChatSelect}
+            onNewChat={handleNewChat}
+            onChatDeleted={handleChatDeleted}
+            onChatRenamed={handleChatRenamed}
           />
-        </div>
+          <div className="flex-1">
+            <ChatInterface
+              key={refreshKey}
+              chatId={selectedChatId}
+              focusMessageId={focusMessageId}
+              onChatCreated={(chatId) => setSelectedChatId(chatId)}
+              onChatNamed={handleChatNamed}
+              onNewChat={handleNewChat}
+              renamedChat={renamedChat}
+            />
+          </div>
+        </ChatLockGate>
       </div>
     </SidebarProvider>
   );
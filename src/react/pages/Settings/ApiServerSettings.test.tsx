@@ -0,0 +1,143 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ApiServerSettings from './ApiServerSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key),
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Loader2: () => <span>Loader Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className }: any) => <div className={className}>{children}</div>,
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('ApiServerSettings', () => {
+  const settings = { enabled: false, port: 8765, apiKey: '', allowRemote: false };
+  const stoppedStatus = { running: false, port: null, url: null };
+  const runningStatus = { running: true, port: 8765, url: 'http://127.0.0.1:8765/v1' };
+
+  beforeEach(() => {
+    global.window.electronAPI = {
+      llmServerGetSettings: jest.fn().mockResolvedValue(settings),
+      llmServerGetStatus: jest.fn().mockResolvedValue(stoppedStatus),
+      llmServerUpdateSettings: jest.fn().mockResolvedValue(settings),
+      llmServerStart: jest.fn().mockResolvedValue(runningStatus),
+      llmServerStop: jest.fn().mockResolvedValue(stoppedStatus),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    await act(async () => {
+      render(<ApiServerSettings />);
+    });
+  };
+
+  it('should show the saved settings of a stopped server', async () => {
+    await renderSettings();
+
+    expect(screen.getByLabelText('settings.llm.server.port')).toHaveValue(8765);
+    expect(screen.getByLabelText('settings.llm.server.api_key')).toHaveValue('');
+    expect(screen.getByLabelText('settings.llm.server.allow_remote')).not.toBeChecked();
+    expect(screen.getByText('settings.llm.server.stopped')).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.server.start')).toBeInTheDocument();
+  });
+
+  it('should show the address of a running server', async () => {
+    (window.electronAPI.llmServerGetStatus as jest.Mock).mockResolvedValue(runningStatus);
+
+    await renderSettings();
+
+    expect(screen.getByText(`settings.llm.server.running ${JSON.stringify({ url: runningStatus.url })}`)).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.server.stop')).toBeInTheDocument();
+  });
+
+  it('should save the edited settings', async () => {
+    await renderSettings();
+
+    fireEvent.change(screen.getByLabelText('settings.llm.server.port'), { target: { value: '9000' } });
+    fireEvent.change(screen.getByLabelText('settings.llm.server.api_key'), { target: { value: 'secret' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.server.save'));
+    });
+
+    expect(window.electronAPI.llmServerUpdateSettings).toHaveBeenCalledWith({
+      port: 9000,
+      apiKey: 'secret',
+      allowRemote: false,
+    });
+    expect(screen.getByText('settings.llm.server.saved')).toBeInTheDocument();
+  });
+
+  it('should warn when remote connections are allowed', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByLabelText('settings.llm.server.allow_remote'));
+
+    expect(screen.getByText('settings.llm.server.allow_remote_warning')).toBeInTheDocument();
+  });
+
+  it('should save the settings and start the server', async () => {
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.server.start'));
+    });
+
+    expect(window.electronAPI.llmServerUpdateSettings).toHaveBeenCalled();
+    expect(window.electronAPI.llmServerStart).toHaveBeenCalled();
+    expect(screen.getByText('settings.llm.server.stop')).toBeInTheDocument();
+  });
+
+  it('should stop a running server', async () => {
+    (window.electronAPI.llmServerGetStatus as jest.Mock).mockResolvedValue(runningStatus);
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.server.stop'));
+    });
+
+    expect(window.electronAPI.llmServerStop).toHaveBeenCalled();
+    expect(screen.getByText('settings.llm.server.stopped')).toBeInTheDocument();
+  });
+
+  it('should show why the server failed to start', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.llmServerStart as jest.Mock).mockRejectedValue(new Error('listen EADDRINUSE'));
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.server.start'));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText(`settings.llm.server.error ${JSON.stringify({ error: 'listen EADDRINUSE' })}`)).toBeInTheDocument();
+    });
+    expect(screen.getByText('settings.llm.server.start')).toBeInTheDocument();
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+
+interface ApiServerSettingsForm {
+  port: number;
+  apiKey: string;
+  allowRemote: boolean;
+}
+
+interface ApiServerStatus {
+  running: boolean;
+  port: number | null;
+  url: string | null;
+}
+
+/**
+ * Settings and controls of the local OpenAI-compatible server
+ */
+const ApiServerSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<ApiServerSettingsForm | null>(null);
+  const [status, setStatus] = useState<ApiServerStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadServer();
+  }, []);
+
+  const loadServer = async () => {
+    try {
+      const [settings, serverStatus] = await Promise.all([
+        window.electronAPI.llmServerGetSettings(),
+        window.electronAPI.llmServerGetStatus(),
+      ]);
+      setForm({ port: settings.port, apiKey: settings.apiKey, allowRemote: settings.allowRemote });
+      setStatus(serverStatus);
+    } catch (error) {
+      console.error('Failed to load API server settings:', error);
+    }
+  };
+
+  const handleChange = (changes: Partial<ApiServerSettingsForm>) => {
+    if (!form) return;
+    setForm({ ...form, ...changes });
+    setSaved(false);
+  };
+
+  // Saves the form, which restarts the server when it runs
+  const saveSettings = async (): Promise<void> => {
+    if (!form) return;
+    await window.electronAPI.llmServerUpdateSettings(form);
+    setStatus(await window.electronAPI.llmServerGetStatus());
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await saveSettings();
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save API server settings:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (status?.running) {
+        setStatus(await window.electronAPI.llmServerStop());
+      } else {
+        await saveSettings();
+        setStatus(await window.electronAPI.llmServerStart());
+        setSaved(true);
+      }
+    } catch (error) {
+      console.error('Failed to start or stop API server:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold">{t('settings.llm.server.title')}</h3>
+            <p className="text-sm text-muted-foreground">{t('settings.llm.server.description')}</p>
+          </div>
+          <Button onClick={handleToggle} disabled={!form || busy} variant={status?.running ? 'outline' : 'default'}>
+            {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {status?.running ? t('settings.llm.server.stop') : t('settings.llm.server.start')}
+          </Button>
+        </div>
+        {form && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="llm-server-port" className="text-sm font-medium">
+                {t('settings.llm.server.port')}
+              </label>
+              <Input
+                id="llm-server-port"
+                type="number"
+                min={1}
+                max={65535}
+                step={1}
+                value={form.port}
+                onChange={(e) => handleChange({ port: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label htmlFor="llm-server-api-key" className="text-sm font-medium">
+                {t('settings.llm.server.api_key')}
+              </label>
+              <Input
+                id="llm-server-api-key"
+                type="password"
+                autoComplete="off"
+                placeholder={t('settings.llm.server.api_key_placeholder')}
+                value={form.apiKey}
+                onChange={(e) => handleChange({ apiKey: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+        {form && (
+          <div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.allowRemote}
+                onChange={(e) => handleChange({ allowRemote: e.target.checked })}
+              />
+              {t('settings.llm.server.allow_remote')}
+            </label>
+            {form.allowRemote && (
+              <p className="text-xs text-destructive mt-1">{t('settings.llm.server.allow_remote_warning')}</p>
+            )}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {status?.running
+              ? t('settings.llm.server.running', { url: status.url })
+              : t('settings.llm.server.stopped')}
+          </p>
+          <div className="flex items-center gap-2">
+            {saved && (
+              <span className="text-sm text-muted-foreground">{t('settings.llm.server.saved')}</span>
+            )}
+            <Button variant="outline" onClick={handleSave} disabled={!form || busy}>
+              {t('settings.llm.server.save')}
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{t('settings.llm.server.error', { error })}</p>}
+      </div>
+    </Card>
+  );
+};
+
+export default ApiServerSettings;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CodeSettings from './CodeSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key),
+  }),
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className, ...props }: any) => <div className={className} {...props}>{children}</div>,
+}));
+
+describe('CodeSettings', () => {
+  beforeEach(() => {
+    global.window.electronAPI = {
+      codeGetSettings: jest.fn().mockResolvedValue({ allowRun: false }),
+      codeUpdateSettings: jest.fn(async (changes) => ({ allowRun: false, ...changes })),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    await act(async () => {
+      render(<CodeSettings />);
+    });
+  };
+
+  it('should show that running code is off by default', async () => {
+    await renderSettings();
+
+    expect(screen.getByText('codeSettings.title')).toBeInTheDocument();
+    expect(screen.getByLabelText('codeSettings.allowRun')).not.toBeChecked();
+  });
+
+  it('should save the setting when it changes', async () => {
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('codeSettings.allowRun'));
+    });
+
+    expect(window.electronAPI.codeUpdateSettings).toHaveBeenCalledWith({ allowRun: true });
+    expect(screen.getByLabelText('codeSettings.allowRun')).toBeChecked();
+  });
+
+  it('should show why the setting could not be saved', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (window.electronAPI.codeUpdateSettings as jest.Mock).mockRejectedValue(new Error('EACCES'));
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('codeSettings.allowRun'));
+    });
+
+    expect(screen.getByText('codeSettings.error {"error":"EACCES"}')).toBeInTheDocument();
+    expect(screen.getByLabelText('codeSettings.allowRun')).not.toBeChecked();
+    (console.error as jest.Mock).mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/card';
+
+interface CodeSettingsValues {
+  allowRun: boolean;
+}
+
+/**
+ * Settings of the code blocks of replies: whether they can be run
+ */
+const CodeSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<CodeSettingsValues | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await window.electronAPI.codeGetSettings());
+    } catch (error) {
+      console.error('Failed to load code settings:', error);
+      setError((error as Error).message);
+    }
+  };
+
+  // A single switch, saved as soon as it changes
+  const handleAllowRunChange = async (allowRun: boolean) => {
+    setError(null);
+    setBusy(true);
+    try {
+      setSettings(await window.electronAPI.codeUpdateSettings({ allowRun }));
+    } catch (error) {
+      console.error('Failed to save code settings:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">{t('codeSettings.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('codeSettings.description')}</p>
+      </div>
+
+      <Card className="p-4">
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings?.allowRun ?? false}
+              disabled={!settings || busy}
+              onChange={(e) => handleAllowRunChange(e.target.checked)}
+            />
+            {t('codeSettings.allowRun')}
+          </label>
+          <p className="text-xs text-muted-foreground">{t('codeSettings.allowRunDescription')}</p>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{t('codeSettings.error', { error })}</p>}
+    </div>
+  );
+};
+
+export default CodeSettings;
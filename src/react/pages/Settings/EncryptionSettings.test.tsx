@@ -0,0 +1,207 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import EncryptionSettings from './EncryptionSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key),
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Lock: () => <span>Lock Icon</span>,
+  LockOpen: () => <span>Lock Open Icon</span>,
+  ShieldAlert: () => <span>Shield Alert Icon</span>,
+}));
+
+// Mock the unlock form, tested on its own
+jest.mock('@/components/chat/ChatUnlock', () => ({
+  __esModule: true,
+  default: ({ onUnlocked }: any) => <button onClick={onUnlocked}>Mock Unlock</button>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className, ...props }: any) => <div className={className} {...props}>{children}</div>,
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('EncryptionSettings', () => {
+  const setStatus = (enabled: boolean, locked: boolean) => {
+    (window.electronAPI.chatGetEncryptionStatus as jest.Mock).mockResolvedValue({ enabled, locked });
+  };
+
+  beforeEach(() => {
+    global.window.electronAPI = {
+      chatGetEncryptionStatus: jest.fn().mockResolvedValue({ enabled: false, locked: false }),
+      chatEnableEncryption: jest.fn().mockResolvedValue(undefined),
+      chatChangePassphrase: jest.fn().mockResolvedValue(undefined),
+      chatDisableEncryption: jest.fn().mockResolvedValue(undefined),
+      chatLock: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    global.confirm = jest.fn(() => true);
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    await act(async () => {
+      render(<EncryptionSettings />);
+    });
+  };
+
+  const fillPassphrases = (passphrase: string, confirmation: string = passphrase) => {
+    fireEvent.change(screen.getByLabelText('encryption.newPassphrase'), { target: { value: passphrase } });
+    fireEvent.change(screen.getByLabelText('encryption.confirmPassphrase'), { target: { value: confirmation } });
+  };
+
+  describe('history stored in clear', () => {
+    it('should warn that a lost passphrase loses the history', async () => {
+      await renderSettings();
+
+      expect(screen.getByText('encryption.warning')).toBeInTheDocument();
+      expect(screen.queryByText('encryption.lockNow')).not.toBeInTheDocument();
+    });
+
+    it('should encrypt the history after confirmation', async () => {
+      await renderSettings();
+      setStatus(true, false);
+
+      fillPassphrases('correct horse battery');
+      fireEvent.click(screen.getByText('encryption.enable'));
+
+      await waitFor(() => {
+        expect(screen.getByText('encryption.enabledDone')).toBeInTheDocument();
+      });
+      expect(global.confirm).toHaveBeenCalledWith('encryption.enableConfirm');
+      expect(window.electronAPI.chatEnableEncryption).toHaveBeenCalledWith('correct horse battery');
+      expect(screen.getByText('encryption.lockNow')).toBeInTheDocument();
+    });
+
+    it('should refuse passphrases that do not match', async () => {
+      await renderSettings();
+
+      fillPassphrases('correct horse battery', 'correct horse batery');
+      fireEvent.click(screen.getByText('encryption.enable'));
+
+      expect(screen.getByText(/encryption\.mismatch/)).toBeInTheDocument();
+      expect(window.electronAPI.chatEnableEncryption).not.toHaveBeenCalled();
+    });
+
+    it('should not encrypt the history when not confirmed', async () => {
+      global.confirm = jest.fn(() => false);
+      await renderSettings();
+
+      fillPassphrases('correct horse battery');
+      fireEvent.click(screen.getByText('encryption.enable'));
+
+      expect(window.electronAPI.chatEnableEncryption).not.toHaveBeenCalled();
+    });
+
+    it('should show the error of a short passphrase', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (window.electronAPI.chatEnableEncryption as jest.Mock).mockRejectedValue(
+        new Error('Passphrase must be at least 8 characters')
+      );
+      await renderSettings();
+
+      fillPassphrases('short');
+      fireEvent.click(screen.getByText('encryption.enable'));
+
+      await waitFor(() => {
+        expect(screen.getByText(/at least 8 characters/)).toBeInTheDocument();
+      });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('locked history', () => {
+    it('should ask for the passphrase first', async () => {
+      setStatus(true, true);
+      await renderSettings();
+
+      expect(screen.queryByText('encryption.changeTitle')).not.toBeInTheDocument();
+      setStatus(true, false);
+      fireEvent.click(screen.getByText('Mock Unlock'));
+
+      expect(await screen.findByText('encryption.changeTitle')).toBeInTheDocument();
+    });
+  });
+
+  describe('unlocked history', () => {
+    beforeEach(() => {
+      setStatus(true, false);
+    });
+
+    it('should lock the history', async () => {
+      await renderSettings();
+      setStatus(true, true);
+
+      fireEvent.click(screen.getByText('encryption.lockNow'));
+
+      expect(await screen.findByText('Mock Unlock')).toBeInTheDocument();
+      expect(window.electronAPI.chatLock).toHaveBeenCalled();
+    });
+
+    it('should change the passphrase', async () => {
+      await renderSettings();
+
+      fireEvent.change(screen.getByLabelText('encryption.currentPassphrase'), { target: { value: 'correct horse battery' } });
+      fillPassphrases('new passphrase!');
+      fireEvent.click(screen.getByText('encryption.change'));
+
+      await waitFor(() => {
+        expect(screen.getByText('encryption.changed')).toBeInTheDocument();
+      });
+      expect(window.electronAPI.chatChangePassphrase).toHaveBeenCalledWith('correct horse battery', 'new passphrase!');
+      expect(screen.getByLabelText('encryption.currentPassphrase')).toHaveValue('');
+    });
+
+    it('should show a wrong current passphrase', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (window.electronAPI.chatChangePassphrase as jest.Mock).mockRejectedValue(new Error('Wrong passphrase'));
+      await renderSettings();
+
+      fireEvent.change(screen.getByLabelText('encryption.currentPassphrase'), { target: { value: 'wrong' } });
+      fillPassphrases('new passphrase!');
+      fireEvent.click(screen.getByText('encryption.change'));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Wrong passphrase/)).toBeInTheDocument();
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it('should decrypt the history after confirmation', async () => {
+      await renderSettings();
+      setStatus(false, false);
+
+      fireEvent.change(screen.getByLabelText('encryption.passphrase'), { target: { value: 'correct horse battery' } });
+      fireEvent.click(screen.getByText('encryption.disable'));
+
+      await waitFor(() => {
+        expect(screen.getByText('encryption.disabledDone')).toBeInTheDocument();
+      });
+      expect(global.confirm).toHaveBeenCalledWith('encryption.disableConfirm');
+      expect(window.electronAPI.chatDisableEncryption).toHaveBeenCalledWith('correct horse battery');
+      expect(screen.getByText('encryption.enable')).toBeInTheDocument();
+    });
+  });
+});
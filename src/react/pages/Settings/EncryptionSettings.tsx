@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import ChatUnlock from '@/components/chat/ChatUnlock';
+import { setDraftsKept } from '@/components/chat/ChatComposer.helpers';
+import { Lock, LockOpen, ShieldAlert } from 'lucide-react';
+
+interface EncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+}
+
+interface PassphraseForm {
+  current: string;
+  passphrase: string;
+  confirmation: string;
+}
+
+const EMPTY_FORM: PassphraseForm = { current: '', passphrase: '', confirmation: '' };
+
+const EncryptionSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [form, setForm] = useState<PassphraseForm>(EMPTY_FORM);
+  const [disablePassphrase, setDisablePassphrase] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const encryptionStatus = await window.electronAPI.chatGetEncryptionStatus();
+      setDraftsKept(!encryptionStatus.enabled);
+      setStatus(encryptionStatus);
+    } catch (error) {
+      console.error('Failed to load chat encryption status:', error);
+    }
+  };
+
+  const handleChange = (changes: Partial<PassphraseForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setMessage(null);
+    setError(null);
+  };
+
+  // Runs one of the flows rewriting the whole history, which takes a while on a long one
+  const run = async (action: () => Promise<void>, done: string, failure: string) => {
+    setError(null);
+    setMessage(null);
+    setBusy(true);
+    try {
+      await action();
+      setForm(EMPTY_FORM);
+      setDisablePassphrase('');
+      setMessage(t(done));
+      await loadStatus();
+    } catch (error) {
+      console.error(failure, error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    if (form.passphrase !== form.confirmation) {
+      setError(t('encryption.mismatch'));
+      return;
+    }
+    if (!confirm(t('encryption.enableConfirm'))) return;
+    await run(
+      () => window.electronAPI.chatEnableEncryption(form.passphrase),
+      'encryption.enabledDone',
+      'Failed to enable chat encryption:'
+    );
+  };
+
+  const handleChangePassphrase = async () => {
+    if (form.passphrase !== form.confirmation) {
+      setError(t('encryption.mismatch'));
+      return;
+    }
+    await run(
+      () => window.electronAPI.chatChangePassphrase(form.current, form.passphrase),
+      'encryption.changed',
+      'Failed to change chat passphrase:'
+    );
+  };
+
+  const handleDisable = async () => {
+    if (!confirm(t('encryption.disableConfirm'))) return;
+    await run(
+      () => window.electronAPI.chatDisableEncryption(disablePassphrase),
+      'encryption.disabledDone',
+      'Failed to disable chat encryption:'
+    );
+  };
+
+  const handleLock = async () => {
+    try {
+      await window.electronAPI.chatLock();
+      setMessage(null);
+      await loadStatus();
+    } catch (error) {
+      console.error('Failed to lock chat history:', error);
+      setError((error as Error).message);
+    }
+  };
+
+  const passphraseInputs = (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div>
+        <label htmlFor="encryption-passphrase" className="text-sm font-medium">
+          {t('encryption.newPassphrase')}
+        </label>
+        <Input
+          id="encryption-passphrase"
+          type="password"
+          value={form.passphrase}
+          disabled={busy}
+          onChange={(e) => handleChange({ passphrase: e.target.value })}
+        />
+      </div>
+      <div>
+        <label htmlFor="encryption-confirmation" className="text-sm font-medium">
+          {t('encryption.confirmPassphrase')}
+        </label>
+        <Input
+          id="encryption-confirmation"
+          type="password"
+          value={form.confirmation}
+          disabled={busy}
+          onChange={(e) => handleChange({ confirmation: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">{t('encryption.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('encryption.description')}</p>
+      </div>
+
+      {status && !status.enabled && (
+        <Card className="p-4">
+          <div className="space-y-4">
+            <h3 className="font-semibold">{t('encryption.enableTitle')}</h3>
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>{t('encryption.warning')}</p>
+            </div>
+            {passphraseInputs}
+            <p className="text-xs text-muted-foreground">{t('encryption.searchNote')}</p>
+            <div className="flex justify-end">
+              <Button onClick={handleEnable} disabled={!form.passphrase || busy}>
+                <Lock className="h-4 w-4 mr-2" />
+                {busy ? t('encryption.working') : t('encryption.enable')}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {status?.enabled && status.locked && (
+        <Card className="p-4">
+          <ChatUnlock onUnlocked={loadStatus} />
+        </Card>
+      )}
+
+      {status?.enabled && !status.locked && (
+        <>
+          <Card className="p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 text-sm">
+                <LockOpen className="h-4 w-4" />
+                {t('encryption.unlocked')}
+              </div>
+              <Button variant="outline" onClick={handleLock} disabled={busy}>
+                <Lock className="h-4 w-4 mr-2" />
+                {t('encryption.lockNow')}
+              </Button>
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <div className="space-y-4">
+              <h3 className="font-semibold">{t('encryption.changeTitle')}</h3>
+              <div>
+                <label htmlFor="encryption-current" className="text-sm font-medium">
+                  {t('encryption.currentPassphrase')}
+                </label>
+                <Input
+                  id="encryption-current"
+                  type="password"
+                  value={form.current}
+                  disabled={busy}
+                  onChange={(e) => handleChange({ current: e.target.value })}
+                />
+              </div>
+              {passphraseInputs}
+              <div className="flex justify-end">
+                <Button onClick={handleChangePassphrase} disabled={!form.current || !form.passphrase || busy}>
+                  {busy ? t('encryption.working') : t('encryption.change')}
+                </Button>
+              </div>
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <div className="space-y-4">
+              <h3 className="font-semibold">{t('encryption.disableTitle')}</h3>
+              <p className="text-sm text-muted-foreground">{t('encryption.disableDescription')}</p>
+              <div>
+                <label htmlFor="encryption-disable" className="text-sm font-medium">
+                  {t('encryption.passphrase')}
+                </label>
+                <Input
+                  id="encryption-disable"
+                  type="password"
+                  value={disablePassphrase}
+                  disabled={busy}
+                  onChange={(e) => {
+                    setDisablePassphrase(e.target.value);
+                    setError(null);
+                  }}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={handleDisable} disabled={!disablePassphrase || busy}>
+                  <LockOpen className="h-4 w-4 mr-2" />
+                  {t('encryption.disable')}
+                </Button>
+              </div>
+            </div>
+          </Card>
+        </>
+      )}
+
+      {error && <p className="text-sm text-destructive">{t('encryption.error', { error })}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
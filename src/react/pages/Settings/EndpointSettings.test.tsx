@@ -0,0 +1,151 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import EndpointSettings from './EndpointSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key),
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Loader2: () => <span>Loader Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className }: any) => <div className={className}>{children}</div>,
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('EndpointSettings', () => {
+  const settings = { baseUrl: 'http://127.0.0.1:11434/v1', apiKey: '' };
+  const endpointModels = [
+    { id: 'llama3.2', ownedBy: 'library' },
+    { id: 'qwen2.5', ownedBy: null },
+  ];
+  let onModelChange: jest.Mock;
+
+  beforeEach(() => {
+    onModelChange = jest.fn();
+    global.window.electronAPI = {
+      llmEndpointGetSettings: jest.fn().mockResolvedValue(settings),
+      llmEndpointUpdateSettings: jest.fn().mockResolvedValue(settings),
+      llmEndpointListModels: jest.fn().mockResolvedValue(endpointModels),
+      llmEndpointLoadModel: jest.fn().mockResolvedValue(undefined),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async (activeModel: any = null) => {
+    await act(async () => {
+      render(<EndpointSettings activeModel={activeModel} onModelChange={onModelChange} />);
+    });
+  };
+
+  const listModels = async () => {
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.endpoint.list_models'));
+    });
+  };
+
+  it('should show the saved settings', async () => {
+    await renderSettings();
+
+    expect(screen.getByLabelText('settings.llm.endpoint.base_url')).toHaveValue(settings.baseUrl);
+    expect(screen.getByLabelText('settings.llm.endpoint.api_key')).toHaveValue('');
+  });
+
+  it('should save the edited settings', async () => {
+    await renderSettings();
+
+    fireEvent.change(screen.getByLabelText('settings.llm.endpoint.base_url'), { target: { value: 'http://localhost:8080/v1' } });
+    fireEvent.change(screen.getByLabelText('settings.llm.endpoint.api_key'), { target: { value: 'secret' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('settings.llm.endpoint.save'));
+    });
+
+    expect(window.electronAPI.llmEndpointUpdateSettings).toHaveBeenCalledWith({
+      baseUrl: 'http://localhost:8080/v1',
+      apiKey: 'secret',
+    });
+    expect(screen.getByText('settings.llm.endpoint.saved')).toBeInTheDocument();
+  });
+
+  it('should save the settings and list the served models', async () => {
+    await renderSettings();
+
+    await listModels();
+
+    expect(window.electronAPI.llmEndpointUpdateSettings).toHaveBeenCalledWith(settings);
+    expect(screen.getByText('llama3.2')).toBeInTheDocument();
+    expect(screen.getByText('library')).toBeInTheDocument();
+    expect(screen.getByText('qwen2.5')).toBeInTheDocument();
+  });
+
+  it('should say when the endpoint serves no models', async () => {
+    (window.electronAPI.llmEndpointListModels as jest.Mock).mockResolvedValue([]);
+    await renderSettings();
+
+    await listModels();
+
+    expect(screen.getByText('settings.llm.endpoint.no_models')).toBeInTheDocument();
+  });
+
+  it('should show why the models could not be listed', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.llmEndpointListModels as jest.Mock).mockRejectedValue(new Error('fetch failed'));
+    await renderSettings();
+
+    await listModels();
+
+    await waitFor(() => {
+      expect(screen.getByText(`settings.llm.endpoint.error ${JSON.stringify({ error: 'fetch failed' })}`)).toBeInTheDocument();
+    });
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should load a served model and report the change', async () => {
+    await renderSettings();
+    await listModels();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByText('settings.llm.load')[1]);
+    });
+
+    expect(window.electronAPI.llmEndpointLoadModel).toHaveBeenCalledWith('qwen2.5');
+    expect(onModelChange).toHaveBeenCalled();
+  });
+
+  it('should mark the active endpoint model as loaded', async () => {
+    await renderSettings({ provider: 'openai-compatible', path: 'llama3.2', modelId: 'llama3.2' });
+    await listModels();
+
+    expect(screen.getByText('settings.llm.loaded')).toBeDisabled();
+    expect(screen.getAllByText('settings.llm.load')).toHaveLength(1);
+  });
+
+  it('should not mark endpoint models as loaded for a local model of the same name', async () => {
+    await renderSettings({ provider: 'llama-cpp', path: 'llama3.2', modelId: null });
+    await listModels();
+
+    expect(screen.queryByText('settings.llm.loaded')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import type { ActiveModel } from '../../contexts/ModelContext';
+
+interface EndpointSettingsForm {
+  baseUrl: string;
+  apiKey: string;
+}
+
+interface EndpointModel {
+  id: string;
+  ownedBy: string | null;
+}
+
+interface EndpointSettingsProps {
+  activeModel: ActiveModel | null;
+  onModelChange: () => void;
+}
+
+/**
+ * Connection to an OpenAI-compatible endpoint, such as a llama.cpp server or Ollama,
+ * and selection of the models it serves
+ */
+const EndpointSettings: React.FC<EndpointSettingsProps> = ({ activeModel, onModelChange }) => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<EndpointSettingsForm | null>(null);
+  const [models, setModels] = useState<EndpointModel[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // 'save', 'list' or a model name
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setForm(await window.electronAPI.llmEndpointGetSettings());
+    } catch (error) {
+      console.error('Failed to load endpoint settings:', error);
+    }
+  };
+
+  const handleChange = (changes: Partial<EndpointSettingsForm>) => {
+    if (!form) return;
+    setForm({ ...form, ...changes });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setBusy('save');
+    setError(null);
+    try {
+      await window.electronAPI.llmEndpointUpdateSettings(form);
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save endpoint settings:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Models are listed with the form as shown, so it is saved first
+  const handleListModels = async () => {
+    if (!form) return;
+    setBusy('list');
+    setError(null);
+    try {
+      await window.electronAPI.llmEndpointUpdateSettings(form);
+      setSaved(true);
+      setModels(await window.electronAPI.llmEndpointListModels());
+    } catch (error) {
+      console.error('Failed to list endpoint models:', error);
+      setModels(null);
+      setError((error as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLoad = async (model: EndpointModel) => {
+    setBusy(model.id);
+    setError(null);
+    try {
+      await window.electronAPI.llmEndpointLoadModel(model.id);
+      onModelChange();
+    } catch (error) {
+      console.error('Failed to load endpoint model:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const isActive = (model: EndpointModel) =>
+    activeModel?.provider === 'openai-compatible' && activeModel.path === model.id;
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold">{t('settings.llm.endpoint.title')}</h3>
+            <p className="text-sm text-muted-foreground">{t('settings.llm.endpoint.description')}</p>
+          </div>
+          <Button variant="outline" onClick={handleListModels} disabled={!form || busy !== null}>
+            {busy === 'list' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {t('settings.llm.endpoint.list_models')}
+          </Button>
+        </div>
+        {form && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="llm-endpoint-base-url" className="text-sm font-medium">
+                {t('settings.llm.endpoint.base_url')}
+              </label>
+              <Input
+                id="llm-endpoint-base-url"
+                type="url"
+                placeholder="http://127.0.0.1:11434/v1"
+                value={form.baseUrl}
+                onChange={(e) => handleChange({ baseUrl: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="llm-endpoint-api-key" className="text-sm font-medium">
+                {t('settings.llm.endpoint.api_key')}
+              </label>
+              <Input
+                id="llm-endpoint-api-key"
+                type="password"
+                autoComplete="off"
+                placeholder={t('settings.llm.endpoint.api_key_placeholder')}
+                value={form.apiKey}
+                onChange={(e) => handleChange({ apiKey: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          {saved && (
+            <span className="text-sm text-muted-foreground">{t('settings.llm.endpoint.saved')}</span>
+          )}
+          <Button variant="outline" onClick={handleSave} disabled={!form || busy !== null}>
+            {t('settings.llm.endpoint.save')}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{t('settings.llm.endpoint.error', { error })}</p>}
+        {models && models.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t('settings.llm.endpoint.no_models')}</p>
+        )}
+        {models && models.length > 0 && (
+          <div className="space-y-2">
+            {models.map(model => (
+              <div key={model.id} className="flex items-center justify-between gap-4 p-2 bg-muted rounded">
+                <div>
+                  <p className="text-sm font-medium">{model.id}</p>
+                  {model.ownedBy && <p className="text-xs text-muted-foreground">{model.ownedBy}</p>}
+                </div>
+                <Button
+                  onClick={() => handleLoad(model)}
+                  disabled={busy !== null || isActive(model)}
+                  size="sm"
+                  variant={isActive(model) ? 'default' : 'outline'}
+                >
+                  {busy === model.id && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {isActive(model) ? t('settings.llm.loaded') : t('settings.llm.load')}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default EndpointSettings;
@@ -0,0 +1,203 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import KnowledgeBaseSettings from './KnowledgeBaseSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  FolderPlus: () => <span>FolderPlus Icon</span>,
+  RefreshCw: () => <span>RefreshCw Icon</span>,
+  Trash2: () => <span>Trash Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, size, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} data-size={size} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className, ...props }: any) => (
+    <div className={className} {...props}>{children}</div>
+  ),
+}));
+
+describe('KnowledgeBaseSettings', () => {
+  const mockFolders = [
+    { id: 1, path: '/docs', embeddingModel: '/models/embed.gguf', indexedAt: new Date(), fileCount: 3, chunkCount: 12 },
+    { id: 2, path: '/notes', embeddingModel: null, indexedAt: null, fileCount: 0, chunkCount: 0 },
+  ];
+  let progressListener: ((progress: any) => void) | null;
+  const unsubscribe = jest.fn();
+
+  beforeEach(() => {
+    progressListener = null;
+    global.window.electronAPI = {
+      knowledgeGetFolders: jest.fn().mockResolvedValue(mockFolders),
+      knowledgeGetEmbeddingModel: jest.fn().mockResolvedValue('/models/embed.gguf'),
+      knowledgeSelectEmbeddingModel: jest.fn().mockResolvedValue(null),
+      knowledgeAddFolder: jest.fn().mockResolvedValue(null),
+      knowledgeRemoveFolder: jest.fn().mockResolvedValue(undefined),
+      knowledgeIndexFolder: jest.fn(),
+      knowledgeOnIndexProgress: jest.fn((callback) => {
+        progressListener = callback;
+        return unsubscribe;
+      }),
+    } as any;
+
+    global.confirm = jest.fn(() => true);
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    let result: ReturnType<typeof render>;
+    await act(async () => {
+      result = render(<KnowledgeBaseSettings />);
+    });
+    return result!;
+  };
+
+  it('should render the folders and the embedding model', async () => {
+    await renderSettings();
+
+    expect(screen.getByText('knowledge.title')).toBeInTheDocument();
+    expect(screen.getByText('/docs')).toBeInTheDocument();
+    expect(screen.getByText('knowledge.stats')).toBeInTheDocument();
+    expect(screen.getByText('knowledge.notIndexed')).toBeInTheDocument();
+    expect(screen.getByText('embed.gguf')).toBeInTheDocument();
+  });
+
+  it('should show empty state when there are no folders', async () => {
+    (window.electronAPI.knowledgeGetFolders as jest.Mock).mockResolvedValue([]);
+
+    await renderSettings();
+
+    expect(screen.getByText('knowledge.empty')).toBeInTheDocument();
+  });
+
+  it('should not index without an embedding model', async () => {
+    (window.electronAPI.knowledgeGetEmbeddingModel as jest.Mock).mockResolvedValue(null);
+
+    await renderSettings();
+
+    expect(screen.getByText('knowledge.noEmbeddingModel')).toBeInTheDocument();
+    screen.getAllByLabelText('knowledge.index').forEach((button) => expect(button).toBeDisabled());
+  });
+
+  it('should select an embedding model', async () => {
+    (window.electronAPI.knowledgeSelectEmbeddingModel as jest.Mock).mockResolvedValue('/models/nomic.gguf');
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('knowledge.selectModel'));
+    });
+
+    expect(screen.getByText('nomic.gguf')).toBeInTheDocument();
+    // Folders indexed with the previous model have to be indexed again
+    expect(screen.getByText('knowledge.outdated')).toBeInTheDocument();
+  });
+
+  it('should show the error of a model that fails to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (window.electronAPI.knowledgeSelectEmbeddingModel as jest.Mock).mockRejectedValue(new Error('Not an embedding model'));
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('knowledge.selectModel'));
+    });
+
+    expect(screen.getByText('knowledge.error')).toBeInTheDocument();
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should add a folder and reload the list', async () => {
+    (window.electronAPI.knowledgeAddFolder as jest.Mock).mockResolvedValue({ id: 3, path: '/papers' });
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('knowledge.addFolder'));
+    });
+
+    expect(window.electronAPI.knowledgeAddFolder).toHaveBeenCalled();
+    expect(window.electronAPI.knowledgeGetFolders).toHaveBeenCalledTimes(2);
+  });
+
+  it('should show the indexing progress and then the result', async () => {
+    let finishIndexing: (result: any) => void = () => {};
+    (window.electronAPI.knowledgeIndexFolder as jest.Mock).mockImplementation(() => new Promise((resolve) => {
+      finishIndexing = resolve;
+    }));
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByLabelText('knowledge.index')[0]);
+    });
+    act(() => {
+      progressListener!({ folderId: 1, filesDone: 1, filesTotal: 4, currentFile: '/docs/guide.md' });
+    });
+
+    expect(window.electronAPI.knowledgeIndexFolder).toHaveBeenCalledWith(1);
+    expect(screen.getByText('knowledge.indexing')).toBeInTheDocument();
+    expect(screen.getByText('1 / 4')).toBeInTheDocument();
+    expect(screen.getByText('/docs/guide.md')).toBeInTheDocument();
+
+    await act(async () => {
+      finishIndexing({
+        folderId: 1,
+        filesIndexed: 3,
+        filesSkipped: 0,
+        filesRemoved: 0,
+        errors: [{ name: 'broken.pdf', error: 'Invalid PDF' }],
+      });
+    });
+
+    await waitFor(() => {
+      expect(screen.queryByText('knowledge.indexing')).not.toBeInTheDocument();
+    });
+    expect(screen.getByText('knowledge.result')).toBeInTheDocument();
+    expect(screen.getByText('knowledge.fileError')).toBeInTheDocument();
+  });
+
+  it('should remove a folder after confirmation', async () => {
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByLabelText('knowledge.remove')[0]);
+    });
+
+    expect(global.confirm).toHaveBeenCalled();
+    expect(window.electronAPI.knowledgeRemoveFolder).toHaveBeenCalledWith(1);
+  });
+
+  it('should not remove a folder when the confirmation is declined', async () => {
+    (global.confirm as jest.Mock).mockReturnValue(false);
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByLabelText('knowledge.remove')[0]);
+    });
+
+    expect(window.electronAPI.knowledgeRemoveFolder).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening for progress on unmount', async () => {
+    const { unmount } = await renderSettings();
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
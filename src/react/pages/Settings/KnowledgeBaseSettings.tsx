@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { FolderPlus, RefreshCw, Trash2 } from 'lucide-react';
+
+interface KnowledgeFolder {
+  id: number;
+  path: string;
+  embeddingModel: string | null;
+  indexedAt: Date | null;
+  fileCount: number;
+  chunkCount: number;
+}
+
+interface IndexProgress {
+  folderId: number;
+  filesDone: number;
+  filesTotal: number;
+  currentFile: string | null;
+}
+
+interface IndexResult {
+  folderId: number;
+  filesIndexed: number;
+  filesSkipped: number;
+  filesRemoved: number;
+  errors: Array<{ name: string; error: string }>;
+}
+
+const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+const KnowledgeBaseSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [folders, setFolders] = useState<KnowledgeFolder[]>([]);
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null);
+  const [loadingModel, setLoadingModel] = useState(false);
+  // Progress of the folders being indexed, by folder id
+  const [progress, setProgress] = useState<{ [folderId: number]: IndexProgress }>({});
+  const [results, setResults] = useState<{ [folderId: number]: IndexResult }>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFolders();
+    loadEmbeddingModel();
+
+    const unsubscribe = window.electronAPI.knowledgeOnIndexProgress((update: IndexProgress) => {
+      setProgress(prev => ({ ...prev, [update.folderId]: update }));
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const loadFolders = async () => {
+    try {
+      setFolders(await window.electronAPI.knowledgeGetFolders());
+    } catch (error) {
+      console.error('Failed to load knowledge folders:', error);
+    }
+  };
+
+  const loadEmbeddingModel = async () => {
+    try {
+      setEmbeddingModel(await window.electronAPI.knowledgeGetEmbeddingModel());
+    } catch (error) {
+      console.error('Failed to load embedding model:', error);
+    }
+  };
+
+  const handleSelectModel = async () => {
+    setError(null);
+    setLoadingModel(true);
+    try {
+      const modelPath = await window.electronAPI.knowledgeSelectEmbeddingModel();
+      if (modelPath) {
+        setEmbeddingModel(modelPath);
+      }
+    } catch (error) {
+      console.error('Failed to select embedding model:', error);
+      setError((error as Error).message);
+    } finally {
+      setLoadingModel(false);
+    }
+  };
+
+  const handleAddFolder = async () => {
+    setError(null);
+    try {
+      const folder = await window.electronAPI.knowledgeAddFolder();
+      if (folder) {
+        await loadFolders();
+      }
+    } catch (error) {
+      console.error('Failed to add knowledge folder:', error);
+      setError((error as Error).message);
+    }
+  };
+
+  const handleIndex = async (folder: KnowledgeFolder) => {
+    setError(null);
+    setProgress(prev => ({ ...prev, [folder.id]: { folderId: folder.id, filesDone: 0, filesTotal: 0, currentFile: null } }));
+    try {
+      const result: IndexResult = await window.electronAPI.knowledgeIndexFolder(folder.id);
+      setResults(prev => ({ ...prev, [folder.id]: result }));
+      await loadFolders();
+    } catch (error) {
+      console.error('Failed to index knowledge folder:', error);
+      setError((error as Error).message);
+    } finally {
+      setProgress(prev => {
+        const newState = { ...prev };
+        delete newState[folder.id];
+        return newState;
+      });
+    }
+  };
+
+  const handleRemove = async (folder: KnowledgeFolder) => {
+    if (!confirm(t('knowledge.removeConfirm', { path: folder.path }))) return;
+    try {
+      await window.electronAPI.knowledgeRemoveFolder(folder.id);
+      setResults(prev => {
+        const newState = { ...prev };
+        delete newState[folder.id];
+        return newState;
+      });
+      await loadFolders();
+    } catch (error) {
+      console.error('Failed to remove knowledge folder:', error);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('knowledge.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('knowledge.description')}</p>
+        </div>
+        <Button onClick={handleAddFolder}>
+          <FolderPlus className="h-4 w-4 mr-2" />
+          {t('knowledge.addFolder')}
+        </Button>
+      </div>
+
+      {/* Embedding Model */}
+      <Card className="p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">{t('knowledge.embeddingModel')}</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {embeddingModel ? getFileName(embeddingModel) : t('knowledge.noEmbeddingModel')}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">{t('knowledge.embeddingModelDescription')}</p>
+          </div>
+          <Button variant="outline" onClick={handleSelectModel} disabled={loadingModel}>
+            {loadingModel ? t('knowledge.loadingModel') : t('knowledge.selectModel')}
+          </Button>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{t('knowledge.error', { error })}</p>}
+
+      {/* Folders */}
+      {folders.length === 0 ? (
+        <p className="text-muted-foreground">{t('knowledge.empty')}</p>
+      ) : (
+        <div className="grid gap-4">
+          {folders.map(folder => {
+            const folderProgress = progress[folder.id];
+            const result = results[folder.id];
+            // Chunks embedded with another model are not searched until the folder is indexed again
+            const outdated = folder.indexedAt !== null && embeddingModel !== null && folder.embeddingModel !== embeddingModel;
+
+            return (
+              <Card key={folder.id} className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold break-all">{folder.path}</h3>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {folder.indexedAt
+                        ? t('knowledge.stats', { files: folder.fileCount, chunks: folder.chunkCount })
+                        : t('knowledge.notIndexed')}
+                    </p>
+                    {outdated && <p className="text-xs text-destructive mt-1">{t('knowledge.outdated')}</p>}
+                  </div>
+                  <div className="flex gap-2 ml-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label={t('knowledge.index')}
+                      onClick={() => handleIndex(folder)}
+                      disabled={!!folderProgress || !embeddingModel}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label={t('knowledge.remove')}
+                      onClick={() => handleRemove(folder)}
+                      disabled={!!folderProgress}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Indexing Progress */}
+                {folderProgress && (
+                  <div className="mt-3">
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium">{t('knowledge.indexing')}</span>
+                      <span>{folderProgress.filesDone} / {folderProgress.filesTotal}</span>
+                    </div>
+                    {folderProgress.currentFile && (
+                      <p className="text-xs text-muted-foreground mb-2 break-all">{folderProgress.currentFile}</p>
+                    )}
+                    <div className="w-full bg-secondary rounded-full h-2">
+                      <div
+                        className="bg-primary h-2 rounded-full transition-all"
+                        style={{ width: `${folderProgress.filesTotal ? (folderProgress.filesDone / folderProgress.filesTotal) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Last Indexing Result */}
+                {!folderProgress && result && (
+                  <div className="mt-3 text-sm">
+                    <p className="text-muted-foreground">
+                      {t('knowledge.result', {
+                        indexed: result.filesIndexed,
+                        skipped: result.filesSkipped,
+                        removed: result.filesRemoved,
+                      })}
+                    </p>
+                    {result.errors.map(fileError => (
+                      <p key={fileError.name} className="text-xs text-destructive mt-1">
+                        {t('knowledge.fileError', { name: fileError.name, error: fileError.error })}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgeBaseSettings;
@@ -17,6 +17,9 @@ jest.mock('lucide-react', () => ({
   CheckCircle: () => <span>CheckCircle Icon</span>,
   Trash2: () => <span>Trash Icon</span>,
   Upload: () => <span>Upload Icon</span>,
+  Pause: () => <span>Pause Icon</span>,
+  Play: () => <span>Play Icon</span>,
+  X: () => <span>X Icon</span>,
 }));
 
 // Mock UI components
@@ -34,6 +37,22 @@ jest.mock('@/components/ui/card', () => ({
   ),
 }));
 
+// The API server card has its own tests
+jest.mock('./ApiServerSettings', () => ({
+  __esModule: true,
+  default: () => <div data-testid="api-server-settings" />,
+}));
+
+// So is the endpoint card, which gets the active model and a way to refresh it
+const mockEndpointSettings = jest.fn();
+jest.mock('./EndpointSettings', () => ({
+  __esModule: true,
+  default: (props: any) => {
+    mockEndpointSettings(props);
+    return <button data-testid="endpoint-settings" onClick={props.onModelChange} />;
+  },
+}));
+
 describe('LLMSettings', () => {
   const mockModels = [
     {
@@ -78,6 +97,14 @@ describe('LLMSettings', () => {
     },
   ];
 
+  const mockConfig = {
+    contextSize: 10000,
+    gpuLayers: -1,
+    temperature: 0.7,
+    topP: 0.9,
+    topK: 40,
+  };
+
   let mockUnsubscribe: jest.Mock;
 
   beforeEach(() => {
@@ -89,14 +116,23 @@ describe('LLMSettings', () => {
       llmGetModelsDirectory: jest.fn().mockResolvedValue('/mock/models/dir'),
       llmScanFolder: jest.fn().mockResolvedValue(mockScannedModels),
       llmSetModelsDirectory: jest.fn().mockResolvedValue('/new/models/dir'),
-      llmIsLoaded: jest.fn().mockResolvedValue(false),
-      llmGetCurrentModel: jest.fn().mockResolvedValue(null),
-      llmDownloadModel: jest.fn().mockResolvedValue(undefined),
+      llmGetActiveModel: jest.fn().mockResolvedValue(null),
+      llmDownloadModel: jest.fn().mockResolvedValue({ modelId: 'model1', status: 'queued', progress: 0, downloadedBytes: 0, totalBytes: 0 }),
+      llmPauseDownload: jest.fn().mockResolvedValue(undefined),
+      llmResumeDownload: jest.fn().mockResolvedValue(undefined),
+      llmCancelDownload: jest.fn().mockResolvedValue(undefined),
+      llmListDownloads: jest.fn().mockResolvedValue([]),
       llmLoadModel: jest.fn().mockResolvedValue(undefined),
       llmUnloadModel: jest.fn().mockResolvedValue(undefined),
       llmDeleteModel: jest.fn().mockResolvedValue(undefined),
       llmSelectFromDisk: jest.fn().mockResolvedValue(null),
       llmOnDownloadProgress: jest.fn().mockReturnValue(mockUnsubscribe),
+      llmGetSavedConfig: jest.fn().mockResolvedValue(mockConfig),
+      llmUpdateConfig: jest.fn().mockResolvedValue(undefined),
+      llmGetAutoLoad: jest.fn().mockResolvedValue(false),
+      llmSetAutoLoad: jest.fn().mockResolvedValue(undefined),
+      llmGetLoadProgress: jest.fn().mockResolvedValue(null),
+      llmOnLoadProgress: jest.fn().mockReturnValue(mockUnsubscribe),
     } as any;
 
     jest.clearAllMocks();
@@ -117,19 +153,43 @@ describe('LLMSettings', () => {
     });
 
     expect(window.electronAPI.llmListAvailable).toHaveBeenCalled();
-    expect(window.electronAPI.llmIsLoaded).toHaveBeenCalled();
-    expect(window.electronAPI.llmGetCurrentModel).toHaveBeenCalled();
+    expect(window.electronAPI.llmGetActiveModel).toHaveBeenCalled();
     expect(window.electronAPI.llmGetModelsDirectory).toHaveBeenCalled();
   });
 
+  it('should render the API server settings', async () => {
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    expect(screen.getByTestId('api-server-settings')).toBeInTheDocument();
+  });
+
+  it('should pass the active model to the endpoint settings and refresh it on change', async () => {
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+    expect(mockEndpointSettings).toHaveBeenLastCalledWith(expect.objectContaining({ activeModel: null }));
+
+    const activeModel = { provider: 'openai-compatible', path: 'llama3.2', modelId: 'llama3.2' };
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue(activeModel);
+    await act(async () => {
+      fireEvent.click(screen.getByTestId('endpoint-settings'));
+    });
+
+    expect(mockEndpointSettings).toHaveBeenLastCalledWith(expect.objectContaining({ activeModel }));
+    expect(screen.getByText('llama3.2')).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.endpoint.served_by_endpoint')).toBeInTheDocument();
+  });
+
   it('should display available models', async () => {
     await act(async () => {
       render(<LLMSettings />);
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 1')).toBeInTheDocument();
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 1' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
   });
 
@@ -139,13 +199,12 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Scanned Model')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Scanned Model' })).toBeInTheDocument();
     });
   });
 
   it('should show current model status when loaded', async () => {
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockResolvedValue(true);
-    (window.electronAPI.llmGetCurrentModel as jest.Mock).mockResolvedValue('/path/to/model.gguf');
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/path/to/model.gguf', modelId: null });
 
     await act(async () => {
       render(<LLMSettings />);
@@ -164,7 +223,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 1')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 1' })).toBeInTheDocument();
     });
 
     const downloadButtons = screen.getAllByText('settings.llm.download');
@@ -173,6 +232,7 @@ describe('LLMSettings', () => {
     });
 
     expect(window.electronAPI.llmDownloadModel).toHaveBeenCalledWith(mockModels[0]);
+    expect(screen.getByText('settings.llm.download_status.queued')).toBeInTheDocument();
   });
 
   it('should handle download progress updates', async () => {
@@ -187,18 +247,233 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 1')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 1' })).toBeInTheDocument();
     });
 
     // Simulate download progress
     act(() => {
-      progressCallback({ modelId: 'model1', progress: 50 });
+      progressCallback({ modelId: 'model1', status: 'downloading', progress: 50, downloadedBytes: 512 * 1024 ** 2, totalBytes: 1024 ** 3 });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('settings.llm.download_status.downloading')).toBeInTheDocument();
+      expect(screen.getByText('512.0 MB / 1.0 GB • 50%')).toBeInTheDocument();
+      expect(screen.getByTitle('settings.llm.pause_download')).toBeInTheDocument();
+    });
+  });
+
+  it('should restore downloads that are already running', async () => {
+    (window.electronAPI.llmListDownloads as jest.Mock).mockResolvedValue([
+      { modelId: 'model1', status: 'paused', progress: 25, downloadedBytes: 0, totalBytes: 0 },
+    ]);
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('settings.llm.download_status.paused')).toBeInTheDocument();
+      expect(screen.getByText('25%')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('settings.llm.download')).not.toBeInTheDocument();
+    expect(screen.getByTitle('settings.llm.resume_download')).toBeInTheDocument();
+  });
+
+  it('should pause, resume and cancel a download', async () => {
+    let progressCallback: (progress: any) => void = () => {};
+    (window.electronAPI.llmOnDownloadProgress as jest.Mock).mockImplementation((cb) => {
+      progressCallback = cb;
+      return mockUnsubscribe;
+    });
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    act(() => {
+      progressCallback({ modelId: 'model1', status: 'downloading', progress: 10, downloadedBytes: 100, totalBytes: 1000 });
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('settings.llm.pause_download'));
+    });
+    expect(window.electronAPI.llmPauseDownload).toHaveBeenCalledWith('model1');
+
+    act(() => {
+      progressCallback({ modelId: 'model1', status: 'paused', progress: 10, downloadedBytes: 100, totalBytes: 1000 });
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('settings.llm.resume_download'));
+    });
+    expect(window.electronAPI.llmResumeDownload).toHaveBeenCalledWith('model1');
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('settings.llm.cancel_download'));
+    });
+    expect(window.electronAPI.llmCancelDownload).toHaveBeenCalledWith('model1');
+
+    act(() => {
+      progressCallback({ modelId: 'model1', status: 'canceled', progress: 10, downloadedBytes: 100, totalBytes: 1000 });
+    });
+
+    await waitFor(() => {
+      expect(screen.queryByText('settings.llm.download_status.paused')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should show the error of a failed download', async () => {
+    let progressCallback: (progress: any) => void = () => {};
+    (window.electronAPI.llmOnDownloadProgress as jest.Mock).mockImplementation((cb) => {
+      progressCallback = cb;
+      return mockUnsubscribe;
+    });
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    act(() => {
+      progressCallback({ modelId: 'model1', status: 'failed', progress: 100, downloadedBytes: 1000, totalBytes: 1000, error: 'Checksum mismatch: expected a, got b' });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('settings.llm.download_status.failed')).toBeInTheDocument();
+      expect(screen.getByText('Checksum mismatch: expected a, got b')).toBeInTheDocument();
+    });
+  });
+
+  it('should reload models when a download completes', async () => {
+    let progressCallback: (progress: any) => void = () => {};
+    (window.electronAPI.llmOnDownloadProgress as jest.Mock).mockImplementation((cb) => {
+      progressCallback = cb;
+      return mockUnsubscribe;
+    });
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+    (window.electronAPI.llmListAvailable as jest.Mock).mockClear();
+
+    await act(async () => {
+      progressCallback({ modelId: 'model1', status: 'completed', progress: 100, downloadedBytes: 1000, totalBytes: 1000 });
+    });
+
+    expect(window.electronAPI.llmListAvailable).toHaveBeenCalled();
+    expect(screen.queryByText('settings.llm.download_status.downloading')).not.toBeInTheDocument();
+  });
+
+  it('should handle download control errors', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.llmListDownloads as jest.Mock).mockResolvedValue([
+      { modelId: 'model1', status: 'paused', progress: 25, downloadedBytes: 0, totalBytes: 0 },
+    ]);
+    (window.electronAPI.llmResumeDownload as jest.Mock).mockRejectedValue(new Error('No download for model1'));
+    (window.electronAPI.llmCancelDownload as jest.Mock).mockRejectedValue(new Error('No download for model1'));
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('settings.llm.resume_download'));
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('settings.llm.cancel_download'));
+    });
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to resume download:', expect.any(Error));
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to cancel download:', expect.any(Error));
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should handle errors loading downloads', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.llmListDownloads as jest.Mock).mockRejectedValue(new Error('IPC failed'));
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to load downloads:', expect.any(Error));
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should display GGUF metadata of scanned models', async () => {
+    (window.electronAPI.llmScanFolder as jest.Mock).mockResolvedValue([{
+      ...mockScannedModels[0],
+      metadata: {
+        architecture: 'llama',
+        name: 'Scanned Model',
+        parameterCount: 1235814400,
+        quantization: 'Q4_K_M',
+        contextLength: 131072,
+        chatTemplate: '{{ bos_token }}{% for message in messages %}{% endfor %}',
+        license: 'llama3.2',
+      },
+    }]);
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('settings.llm.metadata.architecture: llama')).toBeInTheDocument();
+    });
+    expect(screen.getByText('settings.llm.metadata.parameters: 1.2B')).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.metadata.quantization: Q4_K_M')).toBeInTheDocument();
+    expect(screen.getByText(`settings.llm.metadata.context_length: ${(131072).toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.metadata.license: llama3.2')).toBeInTheDocument();
+    expect(screen.getByText('settings.llm.metadata.chat_template')).toBeInTheDocument();
+    expect(screen.getByText('{{ bos_token }}{% for message in messages %}{% endfor %}')).toBeInTheDocument();
+  });
+
+  it('should only display the metadata fields that are known', async () => {
+    (window.electronAPI.llmScanFolder as jest.Mock).mockResolvedValue([{
+      ...mockScannedModels[0],
+      metadata: {
+        architecture: null,
+        name: null,
+        parameterCount: 135000000,
+        quantization: null,
+        contextLength: null,
+        chatTemplate: null,
+        license: null,
+      },
+    }]);
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('settings.llm.metadata.parameters: 135M')).toBeInTheDocument();
+    });
+    expect(screen.queryByText(/settings.llm.metadata.architecture/)).not.toBeInTheDocument();
+    expect(screen.queryByText('settings.llm.metadata.chat_template')).not.toBeInTheDocument();
+  });
+
+  it('should load scanned models with their trained context length when it is smaller', async () => {
+    await act(async () => {
+      render(<LLMSettings />);
     });
 
     await waitFor(() => {
-      expect(screen.getByText('settings.llm.downloading')).toBeInTheDocument();
-      expect(screen.getByText('50%')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Scanned Model' })).toBeInTheDocument();
+    });
+
+    const loadButtons = screen.getAllByText('settings.llm.load');
+    await act(async () => {
+      fireEvent.click(loadButtons[0]);
     });
+
+    expect(window.electronAPI.llmLoadModel).toHaveBeenCalledWith(
+      '/models/scanned.gguf',
+      { contextSize: 2048 },
+      'scanned1'
+    );
   });
 
   it('should handle model load', async () => {
@@ -207,7 +482,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     const loadButtons = screen.getAllByText('settings.llm.load');
@@ -217,19 +492,169 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
+      expect(window.electronAPI.llmGetSavedConfig).toHaveBeenCalledWith('model2');
       expect(window.electronAPI.llmLoadModel).toHaveBeenCalledWith(
         '/path/to/model2.gguf',
-        expect.objectContaining({
-          contextSize: 10000,
-          gpuLayers: -1,
-          temperature: 0.7,
-          topP: 0.9,
-          topK: 40,
-        })
+        { contextSize: 8192 },
+        'model2'
       );
     });
   });
 
+  it('should limit the context size to the saved one', async () => {
+    (window.electronAPI.llmGetSavedConfig as jest.Mock).mockResolvedValue({ ...mockConfig, contextSize: 4096 });
+
+    await act(async () => {
+      render(<LLMSettings />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
+    });
+
+    const loadButtons = screen.getAllByText('settings.llm.load');
+    await act(async () => {
+      fireEvent.click(loadButtons[loadButtons.length - 1]);
+    });
+
+    expect(window.electronAPI.llmLoadModel).toHaveBeenCalledWith('/path/to/model2.gguf', { contextSize: 4096 }, 'model2');
+  });
+
+  describe('generation settings', () => {
+    it('should show the saved settings for all models', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      expect(window.electronAPI.llmGetSavedConfig).toHaveBeenCalledWith(undefined);
+      expect(screen.getByLabelText('settings.llm.config.context_size')).toHaveValue(10000);
+      expect(screen.getByLabelText('settings.llm.config.temperature')).toHaveValue(0.7);
+      expect(screen.getByLabelText('settings.llm.config.top_k')).toHaveValue(40);
+    });
+
+    it('should save edited settings for all models', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      fireEvent.change(screen.getByLabelText('settings.llm.config.temperature'), { target: { value: '1.2' } });
+      await act(async () => {
+        fireEvent.click(screen.getByText('settings.llm.config.save'));
+      });
+
+      expect(window.electronAPI.llmUpdateConfig).toHaveBeenCalledWith({ ...mockConfig, temperature: 1.2 }, undefined);
+      expect(screen.getByText('settings.llm.config.saved')).toBeInTheDocument();
+    });
+
+    it('should list installed and scanned models as scopes', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      const scope = screen.getByLabelText('settings.llm.config.scope');
+      const options = Array.from(scope.querySelectorAll('option')).map(option => option.textContent);
+      expect(options).toEqual(['settings.llm.config.all_models', 'Test Model 2', 'Scanned Model']);
+    });
+
+    it('should load and save the settings of a single model', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      (window.electronAPI.llmGetSavedConfig as jest.Mock).mockResolvedValue({ ...mockConfig, gpuLayers: 0 });
+      await act(async () => {
+        fireEvent.change(screen.getByLabelText('settings.llm.config.scope'), { target: { value: 'model2' } });
+      });
+
+      expect(window.electronAPI.llmGetSavedConfig).toHaveBeenLastCalledWith('model2');
+      expect(screen.getByLabelText('settings.llm.config.gpu_layers')).toHaveValue(0);
+
+      await act(async () => {
+        fireEvent.click(screen.getByText('settings.llm.config.save'));
+      });
+
+      expect(window.electronAPI.llmUpdateConfig).toHaveBeenCalledWith({ ...mockConfig, gpuLayers: 0 }, 'model2');
+    });
+
+    it('should save the auto-load setting when toggled', async () => {
+      (window.electronAPI.llmGetAutoLoad as jest.Mock).mockResolvedValue(true);
+
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      const checkbox = screen.getByLabelText('settings.llm.config.auto_load');
+      expect(checkbox).toBeChecked();
+
+      await act(async () => {
+        fireEvent.click(checkbox);
+      });
+
+      expect(window.electronAPI.llmSetAutoLoad).toHaveBeenCalledWith(false);
+      expect(checkbox).not.toBeChecked();
+    });
+
+    it('should log errors when saving fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (window.electronAPI.llmUpdateConfig as jest.Mock).mockRejectedValue(new Error('Disk full'));
+
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+      await act(async () => {
+        fireEvent.click(screen.getByText('settings.llm.config.save'));
+      });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to save LLM config:', expect.any(Error));
+      expect(screen.queryByText('settings.llm.config.saved')).not.toBeInTheDocument();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('model load progress', () => {
+    it('should show the progress of a model already loading', async () => {
+      (window.electronAPI.llmGetLoadProgress as jest.Mock).mockResolvedValue({
+        modelPath: '/models/last.gguf', modelId: null, status: 'loading', progress: 25,
+      });
+
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      expect(screen.getByText('settings.llm.load_progress.loading')).toBeInTheDocument();
+      expect(screen.getByText('25%')).toBeInTheDocument();
+    });
+
+    it('should show load failures', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      const onProgress = (window.electronAPI.llmOnLoadProgress as jest.Mock).mock.calls[0][0];
+      await act(async () => {
+        onProgress({ modelPath: '/models/last.gguf', modelId: null, status: 'failed', progress: 0, error: 'Out of memory' });
+      });
+
+      expect(screen.getByText('settings.llm.load_progress.failed')).toBeInTheDocument();
+      expect(screen.getByText('Out of memory')).toBeInTheDocument();
+    });
+
+    it('should refresh the model status once a model is loaded', async () => {
+      await act(async () => {
+        render(<LLMSettings />);
+      });
+
+      (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/models/last.gguf', modelId: null });
+      const onProgress = (window.electronAPI.llmOnLoadProgress as jest.Mock).mock.calls[0][0];
+      await act(async () => {
+        onProgress({ modelPath: '/models/last.gguf', modelId: null, status: 'loaded', progress: 100 });
+      });
+
+      expect(screen.getByText('settings.llm.current_model')).toBeInTheDocument();
+      expect(screen.queryByText('settings.llm.load_progress.loading')).not.toBeInTheDocument();
+    });
+  });
+
   it('should not load model without path', async () => {
     const modelWithoutPath = { ...mockScannedModels[0] };
     delete modelWithoutPath.path;
@@ -240,7 +665,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Scanned Model')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Scanned Model' })).toBeInTheDocument();
     });
 
     const loadButtons = screen.getAllByText('settings.llm.load');
@@ -252,8 +677,7 @@ describe('LLMSettings', () => {
   });
 
   it('should handle model unload', async () => {
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockResolvedValue(true);
-    (window.electronAPI.llmGetCurrentModel as jest.Mock).mockResolvedValue('/path/to/model.gguf');
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/path/to/model.gguf', modelId: null });
 
     await act(async () => {
       render(<LLMSettings />);
@@ -279,7 +703,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     const deleteButtons = screen.getAllByText('Trash Icon');
@@ -299,7 +723,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     const deleteButtons = screen.getAllByText('Trash Icon');
@@ -434,7 +858,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 1')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 1' })).toBeInTheDocument();
     });
 
     const downloadButtons = screen.getAllByText('settings.llm.download');
@@ -458,7 +882,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     const loadButtons = screen.getAllByText('settings.llm.load');
@@ -475,8 +899,7 @@ describe('LLMSettings', () => {
 
   it('should handle unload errors', async () => {
     const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockResolvedValue(true);
-    (window.electronAPI.llmGetCurrentModel as jest.Mock).mockResolvedValue('/path/to/model.gguf');
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/path/to/model.gguf', modelId: null });
     (window.electronAPI.llmUnloadModel as jest.Mock).mockRejectedValue(new Error('Unload failed'));
 
     await act(async () => {
@@ -509,7 +932,7 @@ describe('LLMSettings', () => {
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     const deleteButtons = screen.getAllByText('Trash Icon');
@@ -599,7 +1022,7 @@ describe('LLMSettings', () => {
 
   it('should handle model status check errors', async () => {
     const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockRejectedValue(new Error('Check failed'));
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockRejectedValue(new Error('Check failed'));
 
     await act(async () => {
       render(<LLMSettings />);
@@ -627,30 +1050,30 @@ describe('LLMSettings', () => {
     consoleErrorSpy.mockRestore();
   });
 
-  it('should unsubscribe from download progress on unmount', async () => {
+  it('should unsubscribe from download and load progress on unmount', async () => {
     const { unmount } = await act(async () => {
       return render(<LLMSettings />);
     });
 
     await waitFor(() => {
       expect(window.electronAPI.llmOnDownloadProgress).toHaveBeenCalled();
+      expect(window.electronAPI.llmOnLoadProgress).toHaveBeenCalled();
     });
 
     unmount();
 
-    expect(mockUnsubscribe).toHaveBeenCalled();
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(2);
   });
 
   it('should disable buttons while loading', async () => {
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockResolvedValue(true);
-    (window.electronAPI.llmGetCurrentModel as jest.Mock).mockResolvedValue('/path/to/model2.gguf');
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/path/to/model2.gguf', modelId: null });
 
     await act(async () => {
       render(<LLMSettings />);
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Test Model 2')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Test Model 2' })).toBeInTheDocument();
     });
 
     // Find the loaded button for model2 and check it's disabled
@@ -659,15 +1082,14 @@ describe('LLMSettings', () => {
   });
 
   it('should show loaded state with correct variant for currently loaded model', async () => {
-    (window.electronAPI.llmIsLoaded as jest.Mock).mockResolvedValue(true);
-    (window.electronAPI.llmGetCurrentModel as jest.Mock).mockResolvedValue('/models/scanned.gguf');
+    (window.electronAPI.llmGetActiveModel as jest.Mock).mockResolvedValue({ provider: 'llama-cpp', path: '/models/scanned.gguf', modelId: null });
 
     await act(async () => {
       render(<LLMSettings />);
     });
 
     await waitFor(() => {
-      expect(screen.getByText('Scanned Model')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Scanned Model' })).toBeInTheDocument();
     });
 
     // Find the button for scanned model which should show as loaded
@@ -701,11 +1123,15 @@ describe('LLMSettings', () => {
     (window as any).electronAPI = {
       llmListAvailable: jest.fn().mockResolvedValue([llamaModel]),
       llmListInstalled: jest.fn().mockResolvedValue([llamaModel]),
-      llmIsLoaded: jest.fn().mockResolvedValue(true),
-      llmGetCurrentModel: jest.fn().mockResolvedValue('/models/llama.gguf'),
+      llmGetActiveModel: jest.fn().mockResolvedValue({ provider: 'llama-cpp', path: '/models/llama.gguf', modelId: null }),
       llmGetModelsDirectory: jest.fn().mockResolvedValue('/models'),
       llmScanFolder: jest.fn().mockResolvedValue([]),
+      llmListDownloads: jest.fn().mockResolvedValue([]),
       llmOnDownloadProgress: jest.fn().mockReturnValue(jest.fn()),
+      llmGetSavedConfig: jest.fn().mockResolvedValue(mockConfig),
+      llmGetAutoLoad: jest.fn().mockResolvedValue(false),
+      llmGetLoadProgress: jest.fn().mockResolvedValue(null),
+      llmOnLoadProgress: jest.fn().mockReturnValue(jest.fn()),
     };
 
     await act(async () => {
@@ -736,11 +1162,15 @@ describe('LLMSettings', () => {
     (window as any).electronAPI = {
       llmListAvailable: jest.fn().mockResolvedValue([regularModel]),
       llmListInstalled: jest.fn().mockResolvedValue([regularModel]),
-      llmIsLoaded: jest.fn().mockResolvedValue(true),
-      llmGetCurrentModel: jest.fn().mockResolvedValue('/models/model.gguf'),
+      llmGetActiveModel: jest.fn().mockResolvedValue({ provider: 'llama-cpp', path: '/models/model.gguf', modelId: null }),
       llmGetModelsDirectory: jest.fn().mockResolvedValue('/models'),
       llmScanFolder: jest.fn().mockResolvedValue([]),
+      llmListDownloads: jest.fn().mockResolvedValue([]),
       llmOnDownloadProgress: jest.fn().mockReturnValue(jest.fn()),
+      llmGetSavedConfig: jest.fn().mockResolvedValue(mockConfig),
+      llmGetAutoLoad: jest.fn().mockResolvedValue(false),
+      llmGetLoadProgress: jest.fn().mockResolvedValue(null),
+      llmOnLoadProgress: jest.fn().mockReturnValue(jest.fn()),
     };
 
     await act(async () => {
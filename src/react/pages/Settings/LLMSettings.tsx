@@ -2,7 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Download, Loader2, CheckCircle, Trash2, Upload } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Download, Loader2, CheckCircle, Trash2, Upload, Pause, Play, X } from 'lucide-react';
+import ApiServerSettings from './ApiServerSettings';
+import EndpointSettings from './EndpointSettings';
+import type { ActiveModel } from '../../contexts/ModelContext';
+
+interface GGUFMetadata {
+  architecture: string | null;
+  name: string | null;
+  parameterCount: number | null;
+  quantization: string | null;
+  contextLength: number | null;
+  chatTemplate: string | null;
+  license: string | null;
+}
 
 interface ModelInfo {
   id: string;
@@ -15,10 +29,44 @@ interface ModelInfo {
   size: string;
   url: string;
   filename: string;
+  sha256?: string | null;
   recommendedContext: number;
   type: string;
   installed?: boolean;
   path?: string;
+  metadata?: GGUFMetadata | null;
+}
+
+type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'verifying' | 'completed' | 'failed' | 'canceled';
+
+interface DownloadProgress {
+  modelId: string;
+  status: DownloadStatus;
+  progress: number;
+  downloadedBytes: number;
+  totalBytes: number;
+  error?: string;
+}
+
+type ModelLoadStatus = 'loading' | 'loaded' | 'failed';
+
+interface ModelLoadProgress {
+  modelPath: string;
+  modelId: string | null;
+  status: ModelLoadStatus;
+  progress: number;
+  error?: string;
+}
+
+function formatParameterCount(count: number): string {
+  if (count >= 1e9) return `${(count / 1e9).toFixed(1)}B`;
+  return `${Math.round(count / 1e6)}M`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
 }
 
 interface LLMConfig {
@@ -29,32 +77,71 @@ interface LLMConfig {
   topK: number;
 }
 
+const CONFIG_FIELDS: Array<{ key: keyof LLMConfig; label: string; min: number; max?: number; step: number }> = [
+  { key: 'contextSize', label: 'context_size', min: 512, step: 512 },
+  { key: 'gpuLayers', label: 'gpu_layers', min: -1, step: 1 },
+  { key: 'temperature', label: 'temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'top_p', min: 0, max: 1, step: 0.05 },
+  { key: 'topK', label: 'top_k', min: 1, step: 1 },
+];
+
 const LLMSettings: React.FC = () => {
   const { t } = useTranslation();
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [scannedModels, setScannedModels] = useState<ModelInfo[]>([]);
-  const [currentModel, setCurrentModel] = useState<string | null>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [activeModel, setActiveModel] = useState<ActiveModel | null>(null);
   const [loading, setLoading] = useState<string | null>(null);
-  const [downloading, setDownloading] = useState<{ [key: string]: number }>({});
+  const [downloads, setDownloads] = useState<{ [key: string]: DownloadProgress }>({});
   const [modelsFolder, setModelsFolder] = useState<string>('');
+  const [config, setConfig] = useState<LLMConfig | null>(null);
+  const [configModelId, setConfigModelId] = useState<string>(''); // Empty for all models
+  const [configSaved, setConfigSaved] = useState(false);
+  const [autoLoad, setAutoLoad] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<ModelLoadProgress | null>(null);
 
   useEffect(() => {
     loadModels();
     checkModelStatus();
     loadModelsFolder();
+    loadDownloads();
+    loadAutoLoad();
+    loadLoadProgress();
+
+    // Models may also be loaded at startup, before this page opens
+    const unsubscribeLoad = window.electronAPI.llmOnLoadProgress((progress: ModelLoadProgress) => {
+      setLoadProgress(progress);
+      if (progress.status === 'loaded') {
+        checkModelStatus();
+      }
+    });
 
-    // Listen for download progress
-    const unsubscribe = window.electronAPI.llmOnDownloadProgress((progress) => {
-      setDownloading(prev => ({
-        ...prev,
-        [progress.modelId]: progress.progress
-      }));
+    // Listen for download progress; finished and canceled downloads leave the list
+    const unsubscribe = window.electronAPI.llmOnDownloadProgress((progress: DownloadProgress) => {
+      setDownloads(prev => {
+        const newState = { ...prev };
+        if (progress.status === 'completed' || progress.status === 'canceled') {
+          delete newState[progress.modelId];
+        } else {
+          newState[progress.modelId] = progress;
+        }
+        return newState;
+      });
+
+      if (progress.status === 'completed') {
+        loadModels();
+      }
     });
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribeLoad();
+    };
   }, []);
 
+  useEffect(() => {
+    loadConfig(configModelId);
+  }, [configModelId]);
+
   const loadModels = async () => {
     try {
       const availableModels = await window.electronAPI.llmListAvailable();
@@ -64,6 +151,67 @@ const LLMSettings: React.FC = () => {
     }
   };
 
+  // Downloads keep running in the main process while this page is closed
+  const loadDownloads = async () => {
+    try {
+      const current: DownloadProgress[] = await window.electronAPI.llmListDownloads();
+      setDownloads(Object.fromEntries(current.map(download => [download.modelId, download])));
+    } catch (error) {
+      console.error('Failed to load downloads:', error);
+    }
+  };
+
+  const loadLoadProgress = async () => {
+    try {
+      setLoadProgress(await window.electronAPI.llmGetLoadProgress());
+    } catch (error) {
+      console.error('Failed to load model load progress:', error);
+    }
+  };
+
+  const loadConfig = async (modelId: string) => {
+    try {
+      const saved = await window.electronAPI.llmGetSavedConfig(modelId || undefined);
+      setConfig(saved);
+      setConfigSaved(false);
+    } catch (error) {
+      console.error('Failed to load LLM config:', error);
+    }
+  };
+
+  const loadAutoLoad = async () => {
+    try {
+      setAutoLoad(await window.electronAPI.llmGetAutoLoad());
+    } catch (error) {
+      console.error('Failed to load auto-load setting:', error);
+    }
+  };
+
+  const handleConfigChange = (key: keyof LLMConfig, value: string) => {
+    if (!config) return;
+    setConfig({ ...config, [key]: Number(value) });
+    setConfigSaved(false);
+  };
+
+  const handleSaveConfig = async () => {
+    if (!config) return;
+    try {
+      await window.electronAPI.llmUpdateConfig(config, configModelId || undefined);
+      setConfigSaved(true);
+    } catch (error) {
+      console.error('Failed to save LLM config:', error);
+    }
+  };
+
+  const handleAutoLoadChange = async (enabled: boolean) => {
+    try {
+      await window.electronAPI.llmSetAutoLoad(enabled);
+      setAutoLoad(enabled);
+    } catch (error) {
+      console.error('Failed to save auto-load setting:', error);
+    }
+  };
+
   const loadModelsFolder = async () => {
     try {
       const folder = await window.electronAPI.llmGetModelsDirectory();
@@ -97,10 +245,7 @@ const LLMSettings: React.FC = () => {
 
   const checkModelStatus = async () => {
     try {
-      const loaded = await window.electronAPI.llmIsLoaded();
-      const current = await window.electronAPI.llmGetCurrentModel();
-      setIsLoaded(loaded);
-      setCurrentModel(current);
+      setActiveModel(await window.electronAPI.llmGetActiveModel());
     } catch (error) {
       console.error('Failed to check model status:', error);
     }
@@ -109,17 +254,37 @@ const LLMSettings: React.FC = () => {
   const handleDownload = async (model: ModelInfo) => {
     setLoading(model.id);
     try {
-      await window.electronAPI.llmDownloadModel(model);
-      await loadModels();
+      const progress = await window.electronAPI.llmDownloadModel(model);
+      // Progress events may already have been received for this download
+      setDownloads(prev => ({ [model.id]: progress, ...prev }));
     } catch (error) {
       console.error('Failed to download model:', error);
     } finally {
       setLoading(null);
-      setDownloading(prev => {
-        const newState = { ...prev };
-        delete newState[model.id];
-        return newState;
-      });
+    }
+  };
+
+  const handlePauseDownload = async (model: ModelInfo) => {
+    try {
+      await window.electronAPI.llmPauseDownload(model.id);
+    } catch (error) {
+      console.error('Failed to pause download:', error);
+    }
+  };
+
+  const handleResumeDownload = async (model: ModelInfo) => {
+    try {
+      await window.electronAPI.llmResumeDownload(model.id);
+    } catch (error) {
+      console.error('Failed to resume download:', error);
+    }
+  };
+
+  const handleCancelDownload = async (model: ModelInfo) => {
+    try {
+      await window.electronAPI.llmCancelDownload(model.id);
+    } catch (error) {
+      console.error('Failed to cancel download:', error);
     }
   };
 
@@ -127,13 +292,13 @@ const LLMSettings: React.FC = () => {
     if (!model.path) return;
     setLoading(model.id);
     try {
-      await window.electronAPI.llmLoadModel(model.path, {
-        contextSize: 10000,
-        gpuLayers: -1, // Auto GPU offloading
-        temperature: 0.7,
-        topP: 0.9,
-        topK: 40
-      });
+      // The saved context size is an upper bound, models trained with less use their own length
+      const saved = await window.electronAPI.llmGetSavedConfig(model.id);
+      await window.electronAPI.llmLoadModel(
+        model.path,
+        { contextSize: Math.min(model.recommendedContext, saved.contextSize) },
+        model.id
+      );
       await checkModelStatus();
     } catch (error) {
       console.error('Failed to load model:', error);
@@ -183,6 +348,16 @@ const LLMSettings: React.FC = () => {
     }
   };
 
+  // Endpoint models are named rather than found on disk
+  const isLoaded = activeModel !== null;
+  const currentModel = activeModel?.path ?? null;
+
+  // Installed catalog models and models found in the folder can have their own settings
+  const configurableModels = [
+    ...models.filter(model => model.installed),
+    ...scannedModels.filter(scanned => !models.some(model => model.id === scanned.id)),
+  ];
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -212,6 +387,9 @@ const LLMSettings: React.FC = () => {
             <div className="flex-1">
               <p className="font-medium">{t('settings.llm.current_model')}</p>
               <p className="text-sm text-muted-foreground">{currentModel}</p>
+              {activeModel?.provider === 'openai-compatible' && (
+                <p className="text-xs text-muted-foreground">{t('settings.llm.endpoint.served_by_endpoint')}</p>
+              )}
             </div>
             {(() => {
               const loadedModel = [...models, ...scannedModels].find(m => m.path === currentModel);
@@ -227,6 +405,97 @@ const LLMSettings: React.FC = () => {
         </Card>
       )}
 
+      {/* Model Load Progress */}
+      {loadProgress?.status === 'loading' && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium">{t('settings.llm.load_progress.loading')}</span>
+            <span>{loadProgress.progress}%</span>
+          </div>
+          <p className="text-xs text-muted-foreground mb-2">{loadProgress.modelPath}</p>
+          <div className="w-full bg-secondary rounded-full h-2">
+            <div
+              className="bg-primary h-2 rounded-full transition-all"
+              style={{ width: `${loadProgress.progress}%` }}
+            />
+          </div>
+        </Card>
+      )}
+      {loadProgress?.status === 'failed' && (
+        <Card className="p-4 border-destructive">
+          <p className="text-sm font-medium text-destructive">{t('settings.llm.load_progress.failed')}</p>
+          <p className="text-xs text-muted-foreground mt-1">{loadProgress.modelPath}</p>
+          {loadProgress.error && <p className="text-xs text-destructive mt-1">{loadProgress.error}</p>}
+        </Card>
+      )}
+
+      {/* Generation Settings */}
+      <Card className="p-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">{t('settings.llm.config.title')}</h3>
+              <p className="text-sm text-muted-foreground">{t('settings.llm.config.description')}</p>
+            </div>
+            <select
+              aria-label={t('settings.llm.config.scope')}
+              value={configModelId}
+              onChange={(e) => setConfigModelId(e.target.value)}
+              className="rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            >
+              <option value="">{t('settings.llm.config.all_models')}</option>
+              {configurableModels.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+          </div>
+          {config && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {CONFIG_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={`llm-config-${field.key}`} className="text-sm font-medium">
+                    {t(`settings.llm.config.${field.label}`)}
+                  </label>
+                  <Input
+                    id={`llm-config-${field.key}`}
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={config[field.key]}
+                    onChange={(e) => handleConfigChange(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={autoLoad}
+                onChange={(e) => handleAutoLoadChange(e.target.checked)}
+              />
+              {t('settings.llm.config.auto_load')}
+            </label>
+            <div className="flex items-center gap-2">
+              {configSaved && (
+                <span className="text-sm text-muted-foreground">{t('settings.llm.config.saved')}</span>
+              )}
+              <Button onClick={handleSaveConfig} disabled={!config}>
+                {t('settings.llm.config.save')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Local API Server */}
+      <ApiServerSettings />
+
+      {/* OpenAI-compatible Endpoint */}
+      <EndpointSettings activeModel={activeModel} onModelChange={checkModelStatus} />
+
       {/* Models Folder Configuration */}
       <Card className="p-4">
         <div className="space-y-3">
@@ -271,6 +540,47 @@ const LLMSettings: React.FC = () => {
                     <p className="text-xs text-muted-foreground mt-2">
                       Size: {model.size}
                     </p>
+                    {model.metadata && (
+                      <div className="mt-2 space-y-1">
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {model.metadata.architecture && (
+                            <span className="px-2 py-1 rounded bg-muted">
+                              {t('settings.llm.metadata.architecture')}: {model.metadata.architecture}
+                            </span>
+                          )}
+                          {model.metadata.parameterCount !== null && (
+                            <span className="px-2 py-1 rounded bg-muted">
+                              {t('settings.llm.metadata.parameters')}: {formatParameterCount(model.metadata.parameterCount)}
+                            </span>
+                          )}
+                          {model.metadata.quantization && (
+                            <span className="px-2 py-1 rounded bg-muted">
+                              {t('settings.llm.metadata.quantization')}: {model.metadata.quantization}
+                            </span>
+                          )}
+                          {model.metadata.contextLength !== null && (
+                            <span className="px-2 py-1 rounded bg-muted">
+                              {t('settings.llm.metadata.context_length')}: {model.metadata.contextLength.toLocaleString()}
+                            </span>
+                          )}
+                          {model.metadata.license && (
+                            <span className="px-2 py-1 rounded bg-primary/10 text-primary">
+                              {t('settings.llm.metadata.license')}: {model.metadata.license}
+                            </span>
+                          )}
+                        </div>
+                        {model.metadata.chatTemplate && (
+                          <details className="text-xs">
+                            <summary className="cursor-pointer text-muted-foreground">
+                              {t('settings.llm.metadata.chat_template')}
+                            </summary>
+                            <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto whitespace-pre-wrap">
+                              {model.metadata.chatTemplate}
+                            </pre>
+                          </details>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <Button
                     onClick={() => handleLoad(model)}
@@ -331,30 +641,68 @@ const LLMSettings: React.FC = () => {
                   </p>
 
                   {/* Download Progress */}
-                  {downloading[model.id] !== undefined && (
+                  {downloads[model.id] && (
                     <div className="mt-2">
                       <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
-                        <span>{t('settings.llm.downloading')}</span>
-                        <span>{Math.round(downloading[model.id])}%</span>
+                        <span>{t(`settings.llm.download_status.${downloads[model.id].status}`)}</span>
+                        <span>
+                          {downloads[model.id].totalBytes > 0 &&
+                            `${formatBytes(downloads[model.id].downloadedBytes)} / ${formatBytes(downloads[model.id].totalBytes)} • `}
+                          {Math.round(downloads[model.id].progress)}%
+                        </span>
                       </div>
                       <div className="w-full bg-secondary rounded-full h-2">
                         <div
                           className="bg-primary h-2 rounded-full transition-all"
-                          style={{ width: `${downloading[model.id]}%` }}
+                          style={{ width: `${downloads[model.id].progress}%` }}
                         />
                       </div>
+                      {downloads[model.id].error && (
+                        <p className="text-xs text-destructive mt-1">{downloads[model.id].error}</p>
+                      )}
                     </div>
                   )}
                 </div>
 
                 <div className="flex gap-2 ml-4">
-                  {!model.installed ? (
+                  {!model.installed && downloads[model.id] ? (
+                    <>
+                      {downloads[model.id].status === 'paused' || downloads[model.id].status === 'failed' ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResumeDownload(model)}
+                          title={t('settings.llm.resume_download')}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePauseDownload(model)}
+                          disabled={downloads[model.id].status === 'verifying'}
+                          title={t('settings.llm.pause_download')}
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCancelDownload(model)}
+                        title={t('settings.llm.cancel_download')}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : !model.installed ? (
                     <Button
                       onClick={() => handleDownload(model)}
-                      disabled={loading === model.id || downloading[model.id] !== undefined}
+                      disabled={loading === model.id}
                       size="sm"
                     >
-                      {loading === model.id || downloading[model.id] !== undefined ? (
+                      {loading === model.id ? (
                         <Loader2 className="h-4 w-4 animate-spin mr-2" />
                       ) : (
                         <Download className="h-4 w-4 mr-2" />
@@ -0,0 +1,205 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PersonaSettings from './PersonaSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Pencil: () => <span>Pencil Icon</span>,
+  Plus: () => <span>Plus Icon</span>,
+  Trash2: () => <span>Trash Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, size, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} data-size={size} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className, ...props }: any) => (
+    <div className={className} {...props}>{children}</div>
+  ),
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('PersonaSettings', () => {
+  const mockPersonas = [
+    { id: 1, name: 'Code reviewer', systemPrompt: 'Review code carefully' },
+    { id: 2, name: 'Translator', systemPrompt: 'Translate text' },
+  ];
+
+  beforeEach(() => {
+    global.window.electronAPI = {
+      personaGetAll: jest.fn().mockResolvedValue(mockPersonas),
+      personaCreate: jest.fn().mockResolvedValue({ id: 3 }),
+      personaUpdate: jest.fn().mockResolvedValue({ id: 1 }),
+      personaDelete: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    global.confirm = jest.fn(() => true);
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    await act(async () => {
+      render(<PersonaSettings />);
+    });
+  };
+
+  it('should render the persona library', async () => {
+    await renderSettings();
+
+    expect(screen.getByText('personas.title')).toBeInTheDocument();
+    expect(screen.getByText('Code reviewer')).toBeInTheDocument();
+    expect(screen.getByText('Translate text')).toBeInTheDocument();
+    expect(window.electronAPI.personaGetAll).toHaveBeenCalled();
+  });
+
+  it('should show empty state when there are no personas', async () => {
+    (window.electronAPI.personaGetAll as jest.Mock).mockResolvedValue([]);
+
+    await renderSettings();
+
+    expect(screen.getByText('personas.empty')).toBeInTheDocument();
+  });
+
+  it('should handle load errors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.personaGetAll as jest.Mock).mockRejectedValue(new Error('Load failed'));
+
+    await renderSettings();
+
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to load personas:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+
+  it('should create a new persona', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('personas.add'));
+    fireEvent.change(screen.getByLabelText('personas.name'), { target: { value: 'Poet' } });
+    fireEvent.change(screen.getByLabelText('personas.systemPrompt'), { target: { value: 'Answer in verse' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('personas.save'));
+    });
+
+    expect(window.electronAPI.personaCreate).toHaveBeenCalledWith({
+      name: 'Poet',
+      systemPrompt: 'Answer in verse',
+    });
+    expect(window.electronAPI.personaGetAll).toHaveBeenCalledTimes(2);
+    expect(screen.queryByLabelText('personas.name')).not.toBeInTheDocument();
+  });
+
+  it('should disable save until both fields are filled', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('personas.add'));
+    expect(screen.getByText('personas.save')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('personas.name'), { target: { value: 'Poet' } });
+    expect(screen.getByText('personas.save')).toBeDisabled();
+  });
+
+  it('should edit an existing persona', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getAllByLabelText('personas.edit')[0]);
+    expect(screen.getByLabelText('personas.name')).toHaveValue('Code reviewer');
+
+    fireEvent.change(screen.getByLabelText('personas.systemPrompt'), { target: { value: 'Be strict' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('personas.save'));
+    });
+
+    expect(window.electronAPI.personaUpdate).toHaveBeenCalledWith(1, {
+      name: 'Code reviewer',
+      systemPrompt: 'Be strict',
+    });
+  });
+
+  it('should show an error when saving fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.personaCreate as jest.Mock).mockRejectedValue(new Error('Unique constraint'));
+
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('personas.add'));
+    fireEvent.change(screen.getByLabelText('personas.name'), { target: { value: 'Translator' } });
+    fireEvent.change(screen.getByLabelText('personas.systemPrompt'), { target: { value: 'Duplicate' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('personas.save'));
+    });
+
+    expect(screen.getByText('personas.saveError')).toBeInTheDocument();
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to save persona:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+
+  it('should close the form on cancel', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('personas.add'));
+    fireEvent.click(screen.getByText('personas.cancel'));
+
+    expect(screen.queryByLabelText('personas.name')).not.toBeInTheDocument();
+    expect(window.electronAPI.personaCreate).not.toHaveBeenCalled();
+  });
+
+  it('should delete a persona after confirmation', async () => {
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByLabelText('personas.delete')[1]);
+    });
+
+    expect(global.confirm).toHaveBeenCalled();
+    expect(window.electronAPI.personaDelete).toHaveBeenCalledWith(2);
+  });
+
+  it('should not delete when confirmation is cancelled', async () => {
+    (global.confirm as jest.Mock).mockReturnValue(false);
+
+    await renderSettings();
+
+    fireEvent.click(screen.getAllByLabelText('personas.delete')[0]);
+
+    expect(window.electronAPI.personaDelete).not.toHaveBeenCalled();
+  });
+
+  it('should handle delete errors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.personaDelete as jest.Mock).mockRejectedValue(new Error('Delete failed'));
+
+    await renderSettings();
+
+    await act(async () => {
+      fireEvent.click(screen.getAllByLabelText('personas.delete')[0]);
+    });
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to delete persona:', expect.any(Error));
+    });
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface Persona {
+  id: number;
+  name: string;
+  systemPrompt: string;
+}
+
+interface PersonaForm {
+  name: string;
+  systemPrompt: string;
+}
+
+const EMPTY_FORM: PersonaForm = { name: '', systemPrompt: '' };
+
+const PersonaSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // null when the form is closed, 'new' when creating, the persona id when editing
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<PersonaForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPersonas();
+  }, []);
+
+  const loadPersonas = async () => {
+    try {
+      const allPersonas = await window.electronAPI.personaGetAll();
+      setPersonas(allPersonas);
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+    }
+  };
+
+  const handleAdd = () => {
+    setEditing('new');
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleEdit = (persona: Persona) => {
+    setEditing(persona.id);
+    setForm({ name: persona.name, systemPrompt: persona.systemPrompt });
+    setError(null);
+  };
+
+  const handleCancel = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editing === 'new') {
+        await window.electronAPI.personaCreate(form);
+      } else if (editing !== null) {
+        await window.electronAPI.personaUpdate(editing, form);
+      }
+      handleCancel();
+      await loadPersonas();
+    } catch (error) {
+      console.error('Failed to save persona:', error);
+      setError(t('personas.saveError'));
+    }
+  };
+
+  const handleDelete = async (persona: Persona) => {
+    if (!confirm(t('personas.deleteConfirm', { name: persona.name }))) return;
+    try {
+      await window.electronAPI.personaDelete(persona.id);
+      await loadPersonas();
+    } catch (error) {
+      console.error('Failed to delete persona:', error);
+    }
+  };
+
+  const canSave = form.name.trim() !== '' && form.systemPrompt.trim() !== '';
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('personas.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('personas.description')}</p>
+        </div>
+        <Button onClick={handleAdd} disabled={editing !== null}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('personas.add')}
+        </Button>
+      </div>
+
+      {/* Create / Edit Form */}
+      {editing !== null && (
+        <Card className="p-4">
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="persona-name" className="text-sm font-medium">
+                {t('personas.name')}
+              </label>
+              <Input
+                id="persona-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="persona-system-prompt" className="text-sm font-medium">
+                {t('personas.systemPrompt')}
+              </label>
+              <textarea
+                id="persona-system-prompt"
+                rows={5}
+                value={form.systemPrompt}
+                onChange={(e) => setForm({ ...form, systemPrompt: e.target.value })}
+                className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleCancel}>
+                {t('personas.cancel')}
+              </Button>
+              <Button onClick={handleSave} disabled={!canSave}>
+                {t('personas.save')}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Persona Library */}
+      {personas.length === 0 ? (
+        <p className="text-muted-foreground">{t('personas.empty')}</p>
+      ) : (
+        <div className="grid gap-4">
+          {personas.map(persona => (
+            <Card key={persona.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h3 className="font-semibold">{persona.name}</h3>
+                  <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">
+                    {persona.systemPrompt}
+                  </p>
+                </div>
+                <div className="flex gap-2 ml-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label={t('personas.edit')}
+                    onClick={() => handleEdit(persona)}
+                    disabled={editing !== null}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label={t('personas.delete')}
+                    onClick={() => handleDelete(persona)}
+                    disabled={editing !== null}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaSettings;
@@ -0,0 +1,164 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import RetentionSettings from './RetentionSettings';
+
+// Mock react-i18next
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: Record<string, string>) => (options ? `${key} ${JSON.stringify(options)}` : key),
+  }),
+}));
+
+// Mock lucide-react icons
+jest.mock('lucide-react', () => ({
+  Eye: () => <span>Eye Icon</span>,
+  Trash2: () => <span>Trash Icon</span>,
+}));
+
+// Mock UI components
+jest.mock('@/components/ui/button', () => ({
+  Button: ({ children, onClick, disabled, variant, ...props }: any) => (
+    <button onClick={onClick} disabled={disabled} data-variant={variant} {...props}>
+      {children}
+    </button>
+  ),
+}));
+
+jest.mock('@/components/ui/card', () => ({
+  Card: ({ children, className, ...props }: any) => <div className={className} {...props}>{children}</div>,
+}));
+
+jest.mock('@/components/ui/input', () => ({
+  Input: (props: any) => <input {...props} />,
+}));
+
+describe('RetentionSettings', () => {
+  const policy = { enabled: false, maxAgeDays: 90, maxChats: null };
+  const candidates = [
+    { id: 4, name: 'Old chat', updatedAt: new Date('2025-01-01T00:00:00Z'), reason: 'age' },
+    { id: 5, name: 'One too many', updatedAt: new Date('2025-06-01T00:00:00Z'), reason: 'count' },
+  ];
+
+  beforeEach(() => {
+    global.window.electronAPI = {
+      retentionGetPolicy: jest.fn().mockResolvedValue(policy),
+      retentionUpdatePolicy: jest.fn(async (changes) => ({ ...policy, ...changes })),
+      retentionPreview: jest.fn().mockResolvedValue(candidates),
+      retentionApply: jest.fn().mockResolvedValue(candidates),
+    } as any;
+
+    global.confirm = jest.fn(() => true);
+  });
+
+  afterEach(() => {
+    delete (global.window as any).electronAPI;
+  });
+
+  const renderSettings = async () => {
+    await act(async () => {
+      render(<RetentionSettings />);
+    });
+  };
+
+  it('should show the saved policy', async () => {
+    await renderSettings();
+
+    expect(screen.getByText('retention.title')).toBeInTheDocument();
+    expect(screen.getByRole('checkbox')).not.toBeChecked();
+    expect(screen.getByLabelText('retention.maxAgeDays')).toHaveValue(90);
+    expect(screen.getByLabelText('retention.maxChats')).toHaveValue(null);
+  });
+
+  it('should save the edited policy, an empty limit meaning no limit', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.change(screen.getByLabelText('retention.maxAgeDays'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('retention.maxChats'), { target: { value: '50' } });
+    fireEvent.click(screen.getByText('retention.save'));
+
+    await waitFor(() => {
+      expect(window.electronAPI.retentionUpdatePolicy).toHaveBeenCalledWith({ enabled: true, maxAgeDays: null, maxChats: 50 });
+      expect(screen.getByText('retention.saved')).toBeInTheDocument();
+    });
+  });
+
+  it('should preview the chats the edited policy would delete', async () => {
+    await renderSettings();
+
+    fireEvent.change(screen.getByLabelText('retention.maxAgeDays'), { target: { value: '30' } });
+    fireEvent.click(screen.getByText('retention.preview'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('retention-preview')).toBeInTheDocument();
+    });
+    expect(window.electronAPI.retentionPreview).toHaveBeenCalledWith({ enabled: false, maxAgeDays: 30, maxChats: null });
+    expect(window.electronAPI.retentionUpdatePolicy).not.toHaveBeenCalled();
+    expect(screen.getByText('Old chat')).toBeInTheDocument();
+    expect(screen.getByText(/retention\.reason\.age/)).toBeInTheDocument();
+    expect(screen.getByText(/retention\.reason\.count/)).toBeInTheDocument();
+  });
+
+  it('should hide the preview once the policy is edited', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('retention.preview'));
+    await waitFor(() => {
+      expect(screen.getByTestId('retention-preview')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('retention.maxChats'), { target: { value: '10' } });
+
+    expect(screen.queryByTestId('retention-preview')).not.toBeInTheDocument();
+  });
+
+  it('should say when the policy deletes nothing', async () => {
+    (window.electronAPI.retentionPreview as jest.Mock).mockResolvedValue([]);
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('retention.preview'));
+
+    await waitFor(() => {
+      expect(screen.getByText('retention.previewEmpty')).toBeInTheDocument();
+    });
+  });
+
+  it('should save then apply the policy after confirmation', async () => {
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('retention.applyNow'));
+
+    await waitFor(() => {
+      expect(window.electronAPI.retentionApply).toHaveBeenCalled();
+    });
+    expect(global.confirm).toHaveBeenCalledWith('retention.applyConfirm');
+    expect(window.electronAPI.retentionUpdatePolicy).toHaveBeenCalled();
+    expect(await screen.findByText('retention.applied {"count":2}')).toBeInTheDocument();
+  });
+
+  it('should not apply the policy when not confirmed', async () => {
+    global.confirm = jest.fn(() => false);
+    await renderSettings();
+
+    fireEvent.click(screen.getByText('retention.applyNow'));
+
+    expect(window.electronAPI.retentionApply).not.toHaveBeenCalled();
+  });
+
+  it('should show the error of an invalid policy', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    (window.electronAPI.retentionUpdatePolicy as jest.Mock).mockRejectedValue(
+      new Error('Retention limits must be positive whole numbers, got 0')
+    );
+    await renderSettings();
+
+    fireEvent.change(screen.getByLabelText('retention.maxChats'), { target: { value: '0' } });
+    fireEvent.click(screen.getByText('retention.save'));
+
+    await waitFor(() => {
+      expect(screen.getByText(/positive whole numbers/)).toBeInTheDocument();
+    });
+    consoleSpy.mockRestore();
+  });
+});
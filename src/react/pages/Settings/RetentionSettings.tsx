@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Eye, Trash2 } from 'lucide-react';
+
+interface RetentionPolicy {
+  enabled: boolean;
+  maxAgeDays: number | null;
+  maxChats: number | null;
+}
+
+interface RetentionCandidate {
+  id: number;
+  name: string;
+  updatedAt: Date;
+  reason: 'age' | 'count';
+}
+
+// Limits are edited as text, an empty field means no limit
+interface RetentionForm {
+  enabled: boolean;
+  maxAgeDays: string;
+  maxChats: string;
+}
+
+const toForm = (policy: RetentionPolicy): RetentionForm => ({
+  enabled: policy.enabled,
+  maxAgeDays: policy.maxAgeDays === null ? '' : String(policy.maxAgeDays),
+  maxChats: policy.maxChats === null ? '' : String(policy.maxChats),
+});
+
+const toLimit = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const toPolicy = (form: RetentionForm): RetentionPolicy => ({
+  enabled: form.enabled,
+  maxAgeDays: toLimit(form.maxAgeDays),
+  maxChats: toLimit(form.maxChats),
+});
+
+const RetentionSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<RetentionForm | null>(null);
+  // Chats the form's policy would delete, null until previewed
+  const [preview, setPreview] = useState<RetentionCandidate[] | null>(null);
+  const [removedCount, setRemovedCount] = useState<number | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      setForm(toForm(await window.electronAPI.retentionGetPolicy()));
+    } catch (error) {
+      console.error('Failed to load retention policy:', error);
+    }
+  };
+
+  const handleChange = (changes: Partial<RetentionForm>) => {
+    setForm(prev => (prev ? { ...prev, ...changes } : prev));
+    setPreview(null);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError(null);
+    setBusy(true);
+    try {
+      setForm(toForm(await window.electronAPI.retentionUpdatePolicy(toPolicy(form))));
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save retention policy:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!form) return;
+    setError(null);
+    setRemovedCount(null);
+    try {
+      setPreview(await window.electronAPI.retentionPreview(toPolicy(form)));
+    } catch (error) {
+      console.error('Failed to preview retention policy:', error);
+      setError((error as Error).message);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!form) return;
+    if (!confirm(t('retention.applyConfirm'))) return;
+    setError(null);
+    setBusy(true);
+    try {
+      // The saved policy is the one applied, so save the form first
+      setForm(toForm(await window.electronAPI.retentionUpdatePolicy(toPolicy(form))));
+      const removed: RetentionCandidate[] = await window.electronAPI.retentionApply();
+      setRemovedCount(removed.length);
+      setPreview(null);
+    } catch (error) {
+      console.error('Failed to apply retention policy:', error);
+      setError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">{t('retention.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('retention.description')}</p>
+      </div>
+
+      <Card className="p-4">
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form?.enabled ?? false}
+              disabled={!form}
+              onChange={(e) => handleChange({ enabled: e.target.checked })}
+            />
+            {t('retention.enabled')}
+          </label>
+          <p className="text-xs text-muted-foreground">{t('retention.enabledDescription')}</p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="retention-max-age" className="text-sm font-medium">
+                {t('retention.maxAgeDays')}
+              </label>
+              <Input
+                id="retention-max-age"
+                type="number"
+                min={1}
+                placeholder={t('retention.noLimit')}
+                value={form?.maxAgeDays ?? ''}
+                disabled={!form}
+                onChange={(e) => handleChange({ maxAgeDays: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="retention-max-chats" className="text-sm font-medium">
+                {t('retention.maxChats')}
+              </label>
+              <Input
+                id="retention-max-chats"
+                type="number"
+                min={1}
+                placeholder={t('retention.noLimit')}
+                value={form?.maxChats ?? ''}
+                disabled={!form}
+                onChange={(e) => handleChange({ maxChats: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('retention.pinnedKept')}</p>
+          <div className="flex items-center justify-end gap-2">
+            {saved && <span className="text-sm text-muted-foreground">{t('retention.saved')}</span>}
+            <Button variant="outline" onClick={handlePreview} disabled={!form || busy}>
+              <Eye className="h-4 w-4 mr-2" />
+              {t('retention.preview')}
+            </Button>
+            <Button variant="outline" onClick={handleApply} disabled={!form || busy}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t('retention.applyNow')}
+            </Button>
+            <Button onClick={handleSave} disabled={!form || busy}>
+              {t('retention.save')}
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{t('retention.error', { error })}</p>}
+
+      {removedCount !== null && (
+        <p className="text-sm text-muted-foreground">{t('retention.applied', { count: removedCount })}</p>
+      )}
+
+      {/* Dry Run */}
+      {preview && (
+        <Card className="p-4" data-testid="retention-preview">
+          <h3 className="font-semibold">{t('retention.previewTitle', { count: preview.length })}</h3>
+          {preview.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-2">{t('retention.previewEmpty')}</p>
+          ) : (
+            <ul className="mt-2 space-y-1">
+              {preview.map(chat => (
+                <li key={chat.id} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="truncate">{chat.name}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {t(`retention.reason.${chat.reason}`, { date: new Date(chat.updatedAt).toLocaleDateString() })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RetentionSettings;
@@ -9,7 +9,12 @@ jest.mock('lucide-react', () => ({
   Gamepad2: jest.fn(() => null),
   MessageSquare: jest.fn(() => null),
   Settings: jest.fn(() => null),
-  Brain: jest.fn(() => null)
+  Brain: jest.fn(() => null),
+  Code: jest.fn(() => null),
+  UserRound: jest.fn(() => null),
+  Library: jest.fn(() => null),
+  History: jest.fn(() => null),
+  Lock: jest.fn(() => null)
 }));
 
 // Mock the components
@@ -107,6 +112,13 @@ describe('Routes Configuration', () => {
     expect(gamesRoute?.children?.length).toBeGreaterThan(0);
   });
 
+  it('should have settings route with llm, personas, knowledge base, retention, encryption and code children', () => {
+    const settingsRoute = routes.find(route => route.path === '/settings');
+    expect(settingsRoute).toBeDefined();
+    const childPaths = settingsRoute?.children?.map(child => child.path);
+    expect(childPaths).toEqual(['/settings/llm', '/settings/personas', '/settings/knowledge', '/settings/retention', '/settings/encryption', '/settings/code']);
+  });
+
   it('should have unique paths', () => {
     const allPaths: string[] = [];
     routes.forEach(route => {
@@ -1,4 +1,4 @@
-import { Brain, Gamepad2, Home, Info, LucideIcon, MessageSquare, Settings as SettingsIcon } from 'lucide-react';
+import { Brain, Code, Gamepad2, History, Home, Info, Library, Lock, LucideIcon, MessageSquare, Settings as SettingsIcon, UserRound } from 'lucide-react';
 import React from 'react';
 import LineDestroyer from './components/game/LineDestroyer';
 import TicTacToe from './components/game/TicTacToe';
@@ -6,7 +6,12 @@ import About from './components/layout/About';
 import Game from './components/layout/Game';
 import ChatPage from './pages/Chat';
 import Settings from './pages/Settings';
+import CodeSettings from './pages/Settings/CodeSettings';
+import EncryptionSettings from './pages/Settings/EncryptionSettings';
+import KnowledgeBaseSettings from './pages/Settings/KnowledgeBaseSettings';
 import LLMSettings from './pages/Settings/LLMSettings';
+import PersonaSettings from './pages/Settings/PersonaSettings';
+import RetentionSettings from './pages/Settings/RetentionSettings';
 
 export interface Route {
   path: string;
@@ -70,6 +75,41 @@ export const routes: Route[] = [
         title: 'nav.settings_menu.llm',
         icon: Brain,
         inNavbar: false
+      },
+      {
+        path: '/settings/personas',
+        component: PersonaSettings,
+        title: 'nav.settings_menu.personas',
+        icon: UserRound,
+        inNavbar: false
+      },
+      {
+        path: '/settings/knowledge',
+        component: KnowledgeBaseSettings,
+        title: 'nav.settings_menu.knowledge',
+        icon: Library,
+        inNavbar: false
+      },
+      {
+        path: '/settings/retention',
+        component: RetentionSettings,
+        title: 'nav.settings_menu.retention',
+        icon: History,
+        inNavbar: false
+      },
+      {
+        path: '/settings/encryption',
+        component: EncryptionSettings,
+        title: 'nav.settings_menu.encryption',
+        icon: Lock,
+        inNavbar: false
+      },
+      {
+        path: '/settings/code',
+        component: CodeSettings,
+        title: 'nav.settings_menu.code',
+        icon: Code,
+        inNavbar: false
       }
     ]
   },